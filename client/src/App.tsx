@@ -19,6 +19,18 @@ import Review from "@/pages/review";
 import Calculate from "@/pages/calculate";
 import Form1040Page from "@/pages/form1040";
 import ScheduleDPage from "@/pages/schedule-d";
+import ScheduleAPage from "@/pages/schedule-a";
+import ScheduleCPage from "@/pages/schedule-c";
+import Form6251Page from "@/pages/form6251";
+import HsaPage from "@/pages/hsa";
+import IraPage from "@/pages/ira";
+import Form1116Page from "@/pages/form1116";
+import Form2441Page from "@/pages/form2441";
+import Form5695Page from "@/pages/form5695";
+import Form8615Page from "@/pages/form8615";
+import Form8995Page from "@/pages/form8995";
+import EstimatedPaymentsPage from "@/pages/estimated-payments";
+import Form1040EsPage from "@/pages/form1040-es";
 import Insights from "@/pages/insights";
 import File from "@/pages/file";
 
@@ -56,6 +68,42 @@ function Router() {
       <Route path="/schedule-d">
         {() => <ProtectedRoute component={ScheduleDPage} />}
       </Route>
+      <Route path="/schedule-a">
+        {() => <ProtectedRoute component={ScheduleAPage} />}
+      </Route>
+      <Route path="/schedule-c">
+        {() => <ProtectedRoute component={ScheduleCPage} />}
+      </Route>
+      <Route path="/form6251">
+        {() => <ProtectedRoute component={Form6251Page} />}
+      </Route>
+      <Route path="/hsa">
+        {() => <ProtectedRoute component={HsaPage} />}
+      </Route>
+      <Route path="/ira">
+        {() => <ProtectedRoute component={IraPage} />}
+      </Route>
+      <Route path="/form1116">
+        {() => <ProtectedRoute component={Form1116Page} />}
+      </Route>
+      <Route path="/form2441">
+        {() => <ProtectedRoute component={Form2441Page} />}
+      </Route>
+      <Route path="/form5695">
+        {() => <ProtectedRoute component={Form5695Page} />}
+      </Route>
+      <Route path="/form8615">
+        {() => <ProtectedRoute component={Form8615Page} />}
+      </Route>
+      <Route path="/form8995">
+        {() => <ProtectedRoute component={Form8995Page} />}
+      </Route>
+      <Route path="/estimated-payments">
+        {() => <ProtectedRoute component={EstimatedPaymentsPage} />}
+      </Route>
+      <Route path="/form1040-es">
+        {() => <ProtectedRoute component={Form1040EsPage} />}
+      </Route>
       <Route path="/insights">
         {() => <ProtectedRoute component={Insights} />}
       </Route>
@@ -0,0 +1,119 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import { W2_BOX_12_CODES, type W2CodeAmount } from "@shared/schema";
+
+interface W2CodeAmountListProps {
+  label: string;
+  entries: W2CodeAmount[];
+  isEditing: boolean;
+  onChange: (entries: W2CodeAmount[]) => void;
+  disabled?: boolean;
+  // Box 12 only accepts the IRS codes; box 14 labels are free text
+  showCodeDescriptions?: boolean;
+  testIdPrefix: string;
+}
+
+export default function W2CodeAmountList({
+  label,
+  entries,
+  isEditing,
+  onChange,
+  disabled,
+  showCodeDescriptions = false,
+  testIdPrefix,
+}: W2CodeAmountListProps) {
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  const describe = (code: string) =>
+    W2_BOX_12_CODES[code.toUpperCase() as keyof typeof W2_BOX_12_CODES];
+
+  const updateEntry = (index: number, field: keyof W2CodeAmount, value: string) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, [field]: value } : entry)));
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground mb-1">{label}</p>
+        {entries.length === 0 ? (
+          <p className="text-sm font-medium">None</p>
+        ) : (
+          <div className="space-y-1">
+            {entries.map((entry, index) => (
+              <div
+                key={index}
+                className="flex items-center justify-between text-sm"
+                data-testid={`${testIdPrefix}-${index}`}
+              >
+                <span>
+                  <span className="font-mono font-semibold mr-2">{entry.code}</span>
+                  {showCodeDescriptions && (
+                    <span className="text-muted-foreground">{describe(entry.code) || "Unknown code"}</span>
+                  )}
+                </span>
+                <span className="font-mono font-semibold">{formatCurrency(entry.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground mb-1">{label}</p>
+      {entries.map((entry, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={entry.code}
+            onChange={(e) => updateEntry(index, "code", e.target.value.toUpperCase())}
+            placeholder="Code"
+            className={showCodeDescriptions ? "w-20" : "w-32"}
+            disabled={disabled}
+            data-testid={`${testIdPrefix}-code-${index}`}
+          />
+          <Input
+            type="number"
+            step="0.01"
+            value={entry.amount}
+            onChange={(e) => updateEntry(index, "amount", e.target.value)}
+            placeholder="0.00"
+            className="flex-1"
+            disabled={disabled}
+            data-testid={`${testIdPrefix}-amount-${index}`}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(entries.filter((_, i) => i !== index))}
+            disabled={disabled}
+            data-testid={`${testIdPrefix}-remove-${index}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {showCodeDescriptions && entries.some((entry) => entry.code && !describe(entry.code)) && (
+        <p className="text-xs text-destructive">Unrecognized box 12 code</p>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...entries, { code: "", amount: "" }])}
+        disabled={disabled}
+        data-testid={`${testIdPrefix}-add`}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Entry
+      </Button>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { Home, Upload, FileText, Calculator, ClipboardCheck, TrendingUp, Lightbulb, Send, User } from "lucide-react";
+import { Home, Upload, FileText, Calculator, ClipboardCheck, TrendingUp, Lightbulb, Send, User, Receipt, Briefcase, Scale, HeartPulse, Globe, CalendarClock, CalendarPlus, Baby, PiggyBank, Sun, GraduationCap, Building2 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import {
@@ -55,6 +55,78 @@ const menuItems = [
     icon: TrendingUp,
     testId: "link-schedule-d",
   },
+  {
+    title: "Schedule A",
+    url: "/schedule-a",
+    icon: Receipt,
+    testId: "link-schedule-a",
+  },
+  {
+    title: "Schedule C",
+    url: "/schedule-c",
+    icon: Briefcase,
+    testId: "link-schedule-c",
+  },
+  {
+    title: "Form 6251 (AMT)",
+    url: "/form6251",
+    icon: Scale,
+    testId: "link-form-6251",
+  },
+  {
+    title: "Form 8889 (HSA)",
+    url: "/hsa",
+    icon: HeartPulse,
+    testId: "link-hsa",
+  },
+  {
+    title: "Form 8606 (IRA)",
+    url: "/ira",
+    icon: PiggyBank,
+    testId: "link-ira",
+  },
+  {
+    title: "Form 1116 (Foreign Tax)",
+    url: "/form1116",
+    icon: Globe,
+    testId: "link-form-1116",
+  },
+  {
+    title: "Form 2441 (Dependent Care)",
+    url: "/form2441",
+    icon: Baby,
+    testId: "link-form-2441",
+  },
+  {
+    title: "Form 5695 (Energy)",
+    url: "/form5695",
+    icon: Sun,
+    testId: "link-form-5695",
+  },
+  {
+    title: "Form 8615 (Kiddie Tax)",
+    url: "/form8615",
+    icon: GraduationCap,
+    testId: "link-form-8615",
+  },
+  {
+    title: "Form 8995 (QBI Deduction)",
+    url: "/form8995",
+    icon: Building2,
+    testId: "link-form-8995",
+  },
+  {
+    title: "Estimated Payments",
+    url: "/estimated-payments",
+    icon: CalendarClock,
+    testId: "link-estimated-payments",
+  },
+  {
+    title: "Form 1040-ES (Next Year)",
+    url: "/form1040-es",
+    icon: CalendarPlus,
+    testId: "link-form-1040-es",
+  },
   {
     title: "AI Insights",
     url: "/insights",
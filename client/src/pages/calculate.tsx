@@ -1,11 +1,16 @@
+import { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { Calculator, DollarSign, TrendingUp, TrendingDown, Loader2, User, AlertCircle } from "lucide-react";
-import type { TaxReturn, UserProfile } from "@shared/schema";
+import type { TaxReturn, UserProfile, QualifiedDividendsWorksheet, Form5329, Form8959, Form8960, Schedule1, ScheduleSE, EarnedIncomeCredit, Schedule8812, Form6251, Form8615, Form8863, Form1116, Form2210, Form2441, SocialSecurityBenefitsWorksheet, StateRefundWorksheet, Form8962, Form8880, Form5695, Form8995 } from "@shared/schema";
 import { FILING_STATUS } from "@shared/schema";
 
 interface IncomeBreakdown {
@@ -15,13 +20,108 @@ interface IncomeBreakdown {
   qualifiedDividends: number;
   interest: number;
   capitalGains: number;
+  retirementDistributions: number;
+  businessIncome: number;
+  rentalRoyaltyIncome: number;
+  hsaDistributions?: number;
+  unemploymentCompensation?: number;
+  taxableRefunds?: number;
+  otherIncome: number;
+  socialSecurityBenefits?: number;
+  taxableSocialSecurityBenefits?: number;
   totalIncome: number;
+  w2Benefits?: W2BenefitsSummary;
   w2Count: number;
   divCount: number;
   intCount: number;
   bCount: number;
+  rCount: number;
+  miscCount: number;
+  necCount: number;
+  ssaCount?: number;
+  gCount?: number;
 }
 
+// W-2 boxes 10, 12 and 13 totals from /api/income-breakdown
+interface W2BenefitsSummary {
+  electiveDeferrals: number;
+  rothDeferrals: number;
+  employerHsaContributions: number;
+  employerHealthCoverage: number;
+  dependentCareBenefits: number;
+  taxableDependentCareBenefits: number;
+  uncollectedSocialSecurityMedicareTax: number;
+  retirementPlanCovered: boolean;
+}
+
+interface WorksheetLine {
+  line: number;
+  description: string;
+  amount: number;
+}
+
+interface SocialSecurityWorksheetLine {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface StateRefundWorksheetLine {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface Schedule8812Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+// Schedule 8812 lines that hold a number of dependents rather than a dollar amount
+const SCHEDULE_8812_COUNT_LINES = ["4", "6"];
+
+interface Form8863Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface Form8863Student {
+  studentName: string;
+  qualifiedExpenses: number;
+  claimsAmericanOpportunityCredit: boolean;
+  americanOpportunityCredit: number;
+  lifetimeLearningExpenses: number;
+  ineligibleReason: string | null;
+}
+
+// Form 8863 line 6 is the share of the credit allowed rather than a dollar amount
+const FORM_8863_RATIO_LINES = ["6"];
+
+interface Form8962Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface Form8962Month {
+  month: number;
+  premium: number;
+  slcsp: number;
+  contribution: number;
+  maxCredit: number;
+  credit: number;
+  advancePayment: number;
+}
+
+// Form 8962 lines that hold a family size, a percentage or a rate rather than a dollar amount
+const FORM_8962_COUNT_LINES = ["1"];
+const FORM_8962_PERCENT_LINES = ["5"];
+const FORM_8962_RATIO_LINES = ["7"];
+
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
 export default function Calculate() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -46,6 +146,106 @@ export default function Calculate() {
     enabled: !!currentReturn?.id,
   });
 
+  const { data: qdcgWorksheet } = useQuery<QualifiedDividendsWorksheet | null>({
+    queryKey: ["/api/qualified-dividends-worksheet"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form8959 } = useQuery<Form8959 | null>({
+    queryKey: ["/api/form8959"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form8960 } = useQuery<Form8960 | null>({
+    queryKey: ["/api/form8960"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form5329 } = useQuery<Form5329 | null>({
+    queryKey: ["/api/form5329"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: schedule1 } = useQuery<Schedule1 | null>({
+    queryKey: ["/api/schedule-1"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: scheduleSE } = useQuery<ScheduleSE | null>({
+    queryKey: ["/api/schedule-se"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: earnedIncomeCredit } = useQuery<EarnedIncomeCredit | null>({
+    queryKey: ["/api/earned-income-credit"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: schedule8812 } = useQuery<Schedule8812 | null>({
+    queryKey: ["/api/schedule-8812"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form6251 } = useQuery<Form6251 | null>({
+    queryKey: ["/api/form6251"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form8615 } = useQuery<Form8615 | null>({
+    queryKey: ["/api/form8615"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form8995 } = useQuery<Form8995 | null>({
+    queryKey: ["/api/form8995"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form8863 } = useQuery<Form8863 | null>({
+    queryKey: ["/api/form8863"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form1116 } = useQuery<Form1116 | null>({
+    queryKey: ["/api/form1116"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form2441 } = useQuery<Form2441 | null>({
+    queryKey: ["/api/form2441"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: socialSecurityWorksheet } = useQuery<SocialSecurityBenefitsWorksheet | null>({
+    queryKey: ["/api/social-security-worksheet"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: stateRefundWorksheet } = useQuery<StateRefundWorksheet | null>({
+    queryKey: ["/api/state-refund-worksheet"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form2210 } = useQuery<Form2210 | null>({
+    queryKey: ["/api/form2210"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form8962 } = useQuery<Form8962 | null>({
+    queryKey: ["/api/form8962"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form8880 } = useQuery<Form8880 | null>({
+    queryKey: ["/api/form8880"],
+    enabled: !!currentReturn?.id,
+  });
+
+  const { data: form5695 } = useQuery<Form5695 | null>({
+    queryKey: ["/api/form5695"],
+    enabled: !!currentReturn?.id,
+  });
+
   const calculateMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/calculate", {});
@@ -58,6 +258,33 @@ export default function Calculate() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/tax-returns"] });
       queryClient.invalidateQueries({ queryKey: ["/api/form1040"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/qualified-dividends-worksheet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form8959"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form8960"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form5329"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-1"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-se"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-c"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/earned-income-credit"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-8812"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form6251"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form8615"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form8995"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/qbi-loss-carryovers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form8863"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form8889"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form8606"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form8880"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form5695"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/energy-credit-carryovers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form1116"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/foreign-tax-carryovers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form2441"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/social-security-worksheet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/state-refund-worksheet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form8962"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form2210"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/form1040-es"] });
       if (currentReturn?.id) {
         queryClient.invalidateQueries({ queryKey: [`/api/income-breakdown/${currentReturn.id}`] });
       }
@@ -71,6 +298,79 @@ export default function Calculate() {
     },
   });
 
+  // Married filing separately only: living apart all year restores the base amount
+  const livedApartMutation = useMutation({
+    mutationFn: async (livedApartAllYear: boolean) => {
+      const response = await apiRequest("PUT", "/api/social-security-worksheet", { livedApartAllYear });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/social-security-worksheet"] });
+      toast({
+        title: "Saved",
+        description: "Recalculate your taxes to update the Social Security Benefits Worksheet.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save failed",
+        description: error.message || "Failed to save. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Last year's deductions for the refund worksheet when that return wasn't prepared here
+  const [priorYearDeductions, setPriorYearDeductions] = useState({
+    itemized: "unknown",
+    itemizedDeductions: "",
+    standardDeduction: "",
+    stateLocalTaxes: "",
+    saltDeduction: "",
+  });
+
+  useEffect(() => {
+    if (stateRefundWorksheet) {
+      setPriorYearDeductions({
+        itemized: stateRefundWorksheet.priorYearItemized === null
+          ? "unknown"
+          : stateRefundWorksheet.priorYearItemized ? "itemized" : "standard",
+        itemizedDeductions: stateRefundWorksheet.priorYearItemizedDeductions || "",
+        standardDeduction: stateRefundWorksheet.priorYearStandardDeduction || "",
+        stateLocalTaxes: stateRefundWorksheet.priorYearStateLocalTaxes || "",
+        saltDeduction: stateRefundWorksheet.priorYearSaltDeduction || "",
+      });
+    }
+  }, [stateRefundWorksheet]);
+
+  const savePriorYearDeductionsMutation = useMutation({
+    mutationFn: async () => {
+      const itemized = priorYearDeductions.itemized === "itemized";
+      const response = await apiRequest("PUT", "/api/state-refund-worksheet/prior-year", {
+        priorYearItemized: priorYearDeductions.itemized === "unknown" ? null : itemized,
+        priorYearItemizedDeductions: itemized ? priorYearDeductions.itemizedDeductions || null : null,
+        priorYearStandardDeduction: itemized ? priorYearDeductions.standardDeduction || null : null,
+        priorYearStateLocalTaxes: itemized ? priorYearDeductions.stateLocalTaxes || null : null,
+        priorYearSaltDeduction: itemized ? priorYearDeductions.saltDeduction || null : null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/state-refund-worksheet"] });
+      toast({
+        title: "Saved",
+        description: "Recalculate your taxes to update the State Refund Worksheet.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save failed",
+        description: error.message || "Failed to save. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const formatCurrency = (value: string | null | undefined) => {
     if (!value) return "$0.00";
     return `$${parseFloat(value).toLocaleString("en-US", {
@@ -282,6 +582,31 @@ export default function Calculate() {
                     </p>
                   </div>
 
+                  {incomeBreakdown?.w2Benefits && incomeBreakdown.w2Count > 0 && (
+                    <div className="space-y-2 pb-3 border-b text-sm" data-testid="section-w2-benefits">
+                      <p className="font-medium text-foreground">Retirement Deferrals and Pre-Tax Benefits</p>
+                      {([
+                        ["Pre-tax 401(k)/403(b)/457(b) deferrals (box 12 D, E, G and similar)", incomeBreakdown.w2Benefits.electiveDeferrals],
+                        ["Roth deferrals (box 12 AA, BB, EE)", incomeBreakdown.w2Benefits.rothDeferrals],
+                        ["Employer HSA contributions (box 12 W)", incomeBreakdown.w2Benefits.employerHsaContributions],
+                        ["Dependent care benefits (box 10)", incomeBreakdown.w2Benefits.dependentCareBenefits],
+                        ["Taxable dependent care benefits included in wages", incomeBreakdown.w2Benefits.taxableDependentCareBenefits],
+                        ["Employer-sponsored health coverage (box 12 DD, not taxable)", incomeBreakdown.w2Benefits.employerHealthCoverage],
+                        ["Uncollected social security and Medicare tax (Schedule 2)", incomeBreakdown.w2Benefits.uncollectedSocialSecurityMedicareTax],
+                      ] as const)
+                        .filter(([, value]) => value > 0)
+                        .map(([label, value]) => (
+                          <div key={label} className="flex items-center justify-between">
+                            <p className="text-muted-foreground">{label}</p>
+                            <p className="font-mono">{formatCurrency(value.toString())}</p>
+                          </div>
+                        ))}
+                      <p className="text-muted-foreground">
+                        Covered by a workplace retirement plan (box 13): {incomeBreakdown.w2Benefits.retirementPlanCovered ? "Yes" : "No"}
+                      </p>
+                    </div>
+                  )}
+
                   <div className="flex items-center justify-between py-3 border-b">
                     <div>
                       <p className="font-medium text-foreground">Interest Income</p>
@@ -318,6 +643,70 @@ export default function Calculate() {
                     </p>
                   </div>
 
+                  <div className="flex items-center justify-between py-3 border-b">
+                    <div>
+                      <p className="font-medium text-foreground">Retirement Distributions</p>
+                      <p className="text-sm text-muted-foreground">
+                        Form 1099-R ({incomeBreakdown?.rCount || 0} form{incomeBreakdown?.rCount !== 1 ? 's' : ''}, taxable amount)
+                      </p>
+                    </div>
+                    <p className="text-lg font-mono font-semibold">
+                      {formatCurrency(incomeBreakdown?.retirementDistributions?.toString())}
+                    </p>
+                  </div>
+
+                  {(incomeBreakdown?.ssaCount || 0) > 0 && (
+                    <div className="flex items-center justify-between py-3 border-b">
+                      <div>
+                        <p className="font-medium text-foreground">Social Security Benefits</p>
+                        <p className="text-sm text-muted-foreground">
+                          Form SSA-1099 ({incomeBreakdown?.ssaCount} form{incomeBreakdown?.ssaCount !== 1 ? 's' : ''}, taxable part of {formatCurrency(incomeBreakdown?.socialSecurityBenefits?.toString())})
+                        </p>
+                      </div>
+                      <p className="text-lg font-mono font-semibold">
+                        {formatCurrency(incomeBreakdown?.taxableSocialSecurityBenefits?.toString())}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between py-3 border-b">
+                    <div>
+                      <p className="font-medium text-foreground">Business Income</p>
+                      <p className="text-sm text-muted-foreground">
+                        Form 1099-NEC ({incomeBreakdown?.necCount || 0} form{incomeBreakdown?.necCount !== 1 ? 's' : ''}) and 1099-MISC boxes 5-6, Schedule C net profit
+                      </p>
+                    </div>
+                    <p className="text-lg font-mono font-semibold">
+                      {formatCurrency(incomeBreakdown?.businessIncome?.toString())}
+                    </p>
+                  </div>
+
+                  {(incomeBreakdown?.gCount || 0) > 0 && (
+                    <div className="flex items-center justify-between py-3 border-b">
+                      <div>
+                        <p className="font-medium text-foreground">Unemployment and State Tax Refunds</p>
+                        <p className="text-sm text-muted-foreground">
+                          Form 1099-G ({incomeBreakdown?.gCount} form{incomeBreakdown?.gCount !== 1 ? 's' : ''}), Schedule 1 lines 1 and 7
+                        </p>
+                      </div>
+                      <p className="text-lg font-mono font-semibold">
+                        {formatCurrency(((incomeBreakdown?.unemploymentCompensation || 0) + (incomeBreakdown?.taxableRefunds || 0)).toString())}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between py-3 border-b">
+                    <div>
+                      <p className="font-medium text-foreground">Rents, Royalties and Other Income</p>
+                      <p className="text-sm text-muted-foreground">
+                        Form 1099-MISC ({incomeBreakdown?.miscCount || 0} form{incomeBreakdown?.miscCount !== 1 ? 's' : ''}){incomeBreakdown?.hsaDistributions ? ', taxable HSA distributions' : ''}, Schedule 1
+                      </p>
+                    </div>
+                    <p className="text-lg font-mono font-semibold">
+                      {formatCurrency(((incomeBreakdown?.rentalRoyaltyIncome || 0) + (incomeBreakdown?.hsaDistributions || 0) + (incomeBreakdown?.otherIncome || 0)).toString())}
+                    </p>
+                  </div>
+
                   <div className="flex items-center justify-between py-4 bg-accent/50 px-4 rounded-lg mt-4">
                     <p className="font-semibold text-foreground text-lg">Total Income</p>
                     <p className="text-2xl font-mono font-bold">
@@ -343,13 +732,31 @@ export default function Calculate() {
                   </p>
                 </div>
 
+                {schedule1 && parseFloat(schedule1.totalAdjustments || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Adjustments to Income (Schedule 1)</p>
+                    <p className="font-mono font-medium" data-testid="text-adjustments">
+                      -{formatCurrency(schedule1.totalAdjustments)}
+                    </p>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between py-3">
-                  <p className="text-foreground">Standard Deduction</p>
+                  <p className="text-foreground">Deductions (standard or itemized)</p>
                   <p className="font-mono font-medium">
                     -{formatCurrency(currentReturn.totalDeductions)}
                   </p>
                 </div>
 
+                {form8995 && parseFloat(form8995.qbiDeduction || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Qualified Business Income Deduction (Form {form8995.formType})</p>
+                    <p className="font-mono font-medium" data-testid="text-qbi-deduction">
+                      -{formatCurrency(form8995.qbiDeduction)}
+                    </p>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between py-3 border-t">
                   <p className="font-semibold text-foreground">Taxable Income</p>
                   <p className="font-mono font-semibold">
@@ -357,6 +764,98 @@ export default function Calculate() {
                   </p>
                 </div>
 
+                {form8615?.isRequired && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Tax on Unearned Income at Parent's Rate (Form 8615)</p>
+                    <p className="font-mono font-medium" data-testid="text-kiddie-tax">
+                      {formatCurrency(form8615.tentativeTax)}
+                    </p>
+                  </div>
+                )}
+
+                {form8962 && parseFloat(form8962.excessAdvanceRepayment || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Excess Advance Premium Tax Credit Repayment (Form 8962)</p>
+                    <p className="font-mono font-medium" data-testid="text-excess-aptc-repayment">
+                      {formatCurrency(form8962.excessAdvanceRepayment)}
+                    </p>
+                  </div>
+                )}
+
+                {form6251 && parseFloat(form6251.alternativeMinimumTax || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Alternative Minimum Tax (Form 6251)</p>
+                    <p className="font-mono font-medium" data-testid="text-alternative-minimum-tax">
+                      {formatCurrency(form6251.alternativeMinimumTax)}
+                    </p>
+                  </div>
+                )}
+
+                {form1116 && parseFloat(form1116.foreignTaxCredit || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">
+                      Foreign Tax Credit ({form1116.method === "simplified" ? "simplified election" : "Form 1116"})
+                    </p>
+                    <p className="font-mono font-medium" data-testid="text-foreign-tax-credit">
+                      -{formatCurrency(form1116.foreignTaxCredit)}
+                    </p>
+                  </div>
+                )}
+
+                {form2441 && parseFloat(form2441.dependentCareCredit || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Child and Dependent Care Credit (Form 2441)</p>
+                    <p className="font-mono font-medium" data-testid="text-dependent-care-credit">
+                      -{formatCurrency(form2441.dependentCareCredit)}
+                    </p>
+                  </div>
+                )}
+
+                {form8863 && parseFloat(form8863.nonrefundableEducationCredits || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Education Credits (Form 8863)</p>
+                    <p className="font-mono font-medium" data-testid="text-education-credits">
+                      -{formatCurrency(form8863.nonrefundableEducationCredits)}
+                    </p>
+                  </div>
+                )}
+
+                {form8880 && parseFloat(form8880.retirementSavingsCredit || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Saver's Credit (Form 8880)</p>
+                    <p className="font-mono font-medium" data-testid="text-retirement-savings-credit">
+                      -{formatCurrency(form8880.retirementSavingsCredit)}
+                    </p>
+                  </div>
+                )}
+
+                {form5695 && parseFloat(form5695.homeImprovementCredit || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Energy Efficient Home Improvement Credit (Form 5695)</p>
+                    <p className="font-mono font-medium" data-testid="text-home-improvement-credit">
+                      -{formatCurrency(form5695.homeImprovementCredit)}
+                    </p>
+                  </div>
+                )}
+
+                {schedule8812 && parseFloat(schedule8812.nonrefundableCredit || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Child Tax Credit / Credit for Other Dependents</p>
+                    <p className="font-mono font-medium" data-testid="text-child-tax-credit">
+                      -{formatCurrency(schedule8812.nonrefundableCredit)}
+                    </p>
+                  </div>
+                )}
+
+                {form5695 && parseFloat(form5695.residentialCleanEnergyCredit || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Residential Clean Energy Credit (Form 5695)</p>
+                    <p className="font-mono font-medium" data-testid="text-clean-energy-credit">
+                      -{formatCurrency(form5695.residentialCleanEnergyCredit)}
+                    </p>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between py-3">
                   <p className="text-foreground">Federal Tax</p>
                   <p className="font-mono font-medium">
@@ -364,6 +863,42 @@ export default function Calculate() {
                   </p>
                 </div>
 
+                {form8959 && parseFloat(form8959.additionalMedicareTax || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Additional Medicare Tax (Form 8959)</p>
+                    <p className="font-mono font-medium" data-testid="text-additional-medicare-tax">
+                      {formatCurrency(form8959.additionalMedicareTax)}
+                    </p>
+                  </div>
+                )}
+
+                {form8960 && parseFloat(form8960.netInvestmentIncomeTax || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Net Investment Income Tax (Form 8960)</p>
+                    <p className="font-mono font-medium" data-testid="text-niit">
+                      {formatCurrency(form8960.netInvestmentIncomeTax)}
+                    </p>
+                  </div>
+                )}
+
+                {scheduleSE && parseFloat(scheduleSE.selfEmploymentTax || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Self-Employment Tax (Schedule SE)</p>
+                    <p className="font-mono font-medium" data-testid="text-self-employment-tax">
+                      {formatCurrency(scheduleSE.selfEmploymentTax)}
+                    </p>
+                  </div>
+                )}
+
+                {form5329 && parseFloat(form5329.additionalTax || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Additional Tax on Early Distributions (Form 5329)</p>
+                    <p className="font-mono font-medium" data-testid="text-early-distribution-tax">
+                      {formatCurrency(form5329.additionalTax)}
+                    </p>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between py-3">
                   <p className="text-foreground">Federal Tax Withheld</p>
                   <p className="font-mono font-medium">
@@ -371,6 +906,67 @@ export default function Calculate() {
                   </p>
                 </div>
 
+                {form2210 && parseFloat(form2210.estimatedPayments || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Estimated Tax Payments</p>
+                    <p className="font-mono font-medium" data-testid="text-estimated-payments">
+                      -{formatCurrency(form2210.estimatedPayments)}
+                    </p>
+                  </div>
+                )}
+
+                {form2210 && parseFloat(form2210.penalty || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Estimated Tax Penalty (Form 2210)</p>
+                    <p className="font-mono font-medium" data-testid="text-estimated-tax-penalty">
+                      {formatCurrency(form2210.penalty)}
+                    </p>
+                  </div>
+                )}
+
+                {earnedIncomeCredit && (
+                  <div className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="text-foreground">Earned Income Credit</p>
+                      <p className="text-sm text-muted-foreground">
+                        {earnedIncomeCredit.isEligible
+                          ? `${earnedIncomeCredit.qualifyingChildren} qualifying child${earnedIncomeCredit.qualifyingChildren !== 1 ? "ren" : ""}`
+                          : `Not eligible: ${earnedIncomeCredit.ineligibleReason}`}
+                      </p>
+                    </div>
+                    <p className="font-mono font-medium" data-testid="text-earned-income-credit">
+                      -{formatCurrency(earnedIncomeCredit.earnedIncomeCredit)}
+                    </p>
+                  </div>
+                )}
+
+                {schedule8812 && parseFloat(schedule8812.additionalChildTaxCredit || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Additional Child Tax Credit (Schedule 8812)</p>
+                    <p className="font-mono font-medium" data-testid="text-additional-child-tax-credit">
+                      -{formatCurrency(schedule8812.additionalChildTaxCredit)}
+                    </p>
+                  </div>
+                )}
+
+                {form8863 && parseFloat(form8863.refundableAmericanOpportunityCredit || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Refundable American Opportunity Credit (Form 8863)</p>
+                    <p className="font-mono font-medium" data-testid="text-refundable-aotc">
+                      -{formatCurrency(form8863.refundableAmericanOpportunityCredit)}
+                    </p>
+                  </div>
+                )}
+
+                {form8962 && parseFloat(form8962.netPremiumTaxCredit || "0") > 0 && (
+                  <div className="flex items-center justify-between py-3">
+                    <p className="text-foreground">Net Premium Tax Credit (Form 8962)</p>
+                    <p className="font-mono font-medium" data-testid="text-net-premium-tax-credit">
+                      -{formatCurrency(form8962.netPremiumTaxCredit)}
+                    </p>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between py-4 bg-accent/50 px-4 rounded-lg mt-4">
                   <p className="font-semibold text-foreground text-lg">
                     {parseFloat(currentReturn.refundOrOwed || "0") >= 0
@@ -390,6 +986,439 @@ export default function Calculate() {
               </div>
             </CardContent>
           </Card>
+
+          {qdcgWorksheet && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Qualified Dividends and Capital Gain Tax Worksheet</CardTitle>
+                <CardDescription>
+                  Qualified dividends and net long-term gains are taxed at 0%, 15%, or 20%
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Taxed at 0%</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-qdcg-zero-rate">
+                      {formatCurrency(qdcgWorksheet.zeroRateAmount)}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Taxed at 15%</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-qdcg-fifteen-rate">
+                      {formatCurrency(qdcgWorksheet.fifteenRateAmount)}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Taxed at 20%</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-qdcg-twenty-rate">
+                      {formatCurrency(qdcgWorksheet.twentyRateAmount)}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  {((qdcgWorksheet.lines as WorksheetLine[] | null) || []).map((line) => (
+                    <div
+                      key={line.line}
+                      className="flex items-center justify-between py-2 border-b text-sm"
+                    >
+                      <p className="text-foreground">
+                        <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                        {line.description}
+                      </p>
+                      <p className="font-mono">{formatCurrency(line.amount.toString())}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between py-4 bg-accent/50 px-4 rounded-lg mt-4">
+                  <p className="font-semibold text-foreground">Tax (Form 1040, line 16)</p>
+                  <p className="text-xl font-mono font-bold">
+                    {formatCurrency(qdcgWorksheet.tax)}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {socialSecurityWorksheet && parseFloat(socialSecurityWorksheet.netBenefits || "0") > 0 && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Social Security Benefits Worksheet</CardTitle>
+                  <Badge variant="secondary" data-testid="badge-ss-taxable-percentage">
+                    {(parseFloat(socialSecurityWorksheet.taxablePercentage || "0") * 100).toFixed(1)}% taxable
+                  </Badge>
+                </div>
+                <CardDescription>
+                  Up to 50% of your benefits are taxable once provisional income exceeds the base amount, and up to 85% above the additional amount
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {(currentReturn?.filingStatus || profile?.filingStatus) === FILING_STATUS.MARRIED_SEPARATE && (
+                  <div className="flex items-center space-x-2 mb-4">
+                    <Checkbox
+                      id="livedApartAllYear"
+                      checked={!!socialSecurityWorksheet.livedApartAllYear}
+                      onCheckedChange={(checked) => livedApartMutation.mutate(checked as boolean)}
+                      disabled={livedApartMutation.isPending}
+                      data-testid="checkbox-lived-apart-all-year"
+                    />
+                    <Label htmlFor="livedApartAllYear" className="text-sm">
+                      I lived apart from my spouse for all of the year
+                    </Label>
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  {((socialSecurityWorksheet.lines as SocialSecurityWorksheetLine[] | null) || []).map((line) => (
+                    <div
+                      key={line.line}
+                      className="flex items-center justify-between py-2 border-b text-sm"
+                    >
+                      <p className="text-foreground">
+                        <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                        {line.description}
+                      </p>
+                      <p className="font-mono">{formatCurrency(line.amount.toString())}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Form 1040, line 6a</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-ss-benefits">
+                      {formatCurrency(socialSecurityWorksheet.netBenefits)}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Form 1040, line 6b</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-ss-taxable-benefits">
+                      {formatCurrency(socialSecurityWorksheet.taxableBenefits)}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {stateRefundWorksheet && parseFloat(stateRefundWorksheet.refunds || "0") > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>State and Local Income Tax Refund Worksheet</CardTitle>
+                <CardDescription>
+                  {stateRefundWorksheet.priorYearSource === "return"
+                    ? `Based on your ${(activeYear?.year || new Date().getFullYear()) - 1} return on file`
+                    : "A refund is taxable only if you itemized and deducted state income tax last year"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stateRefundWorksheet.priorYearSource !== "return" && (
+                  <div className="space-y-4 mb-6 p-4 border rounded-lg">
+                    <div className="space-y-2">
+                      <Label htmlFor="priorYearDeductionType">Last year's deduction</Label>
+                      <Select
+                        value={priorYearDeductions.itemized}
+                        onValueChange={(value) => setPriorYearDeductions({ ...priorYearDeductions, itemized: value })}
+                      >
+                        <SelectTrigger id="priorYearDeductionType" data-testid="select-prior-year-deduction-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="unknown">Not sure (treat the whole refund as taxable)</SelectItem>
+                          <SelectItem value="standard">Standard deduction</SelectItem>
+                          <SelectItem value="itemized">Itemized deductions (Schedule A)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {priorYearDeductions.itemized === "itemized" && (
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2">
+                          <Label htmlFor="priorYearItemizedDeductions">Total itemized deductions (Schedule A line 17)</Label>
+                          <Input
+                            id="priorYearItemizedDeductions"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={priorYearDeductions.itemizedDeductions}
+                            onChange={(e) => setPriorYearDeductions({ ...priorYearDeductions, itemizedDeductions: e.target.value })}
+                            data-testid="input-prior-year-itemized-deductions"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="priorYearStandardDeduction">Standard deduction you could have taken</Label>
+                          <Input
+                            id="priorYearStandardDeduction"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={priorYearDeductions.standardDeduction}
+                            onChange={(e) => setPriorYearDeductions({ ...priorYearDeductions, standardDeduction: e.target.value })}
+                            data-testid="input-prior-year-standard-deduction"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="priorYearStateLocalTaxes">State and local taxes paid (Schedule A line 5d)</Label>
+                          <Input
+                            id="priorYearStateLocalTaxes"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={priorYearDeductions.stateLocalTaxes}
+                            onChange={(e) => setPriorYearDeductions({ ...priorYearDeductions, stateLocalTaxes: e.target.value })}
+                            data-testid="input-prior-year-state-local-taxes"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="priorYearSaltDeduction">State and local taxes deducted (Schedule A line 5e)</Label>
+                          <Input
+                            id="priorYearSaltDeduction"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={priorYearDeductions.saltDeduction}
+                            onChange={(e) => setPriorYearDeductions({ ...priorYearDeductions, saltDeduction: e.target.value })}
+                            data-testid="input-prior-year-salt-deduction"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    <Button
+                      variant="outline"
+                      onClick={() => savePriorYearDeductionsMutation.mutate()}
+                      disabled={savePriorYearDeductionsMutation.isPending}
+                      data-testid="button-save-prior-year-deductions"
+                    >
+                      {savePriorYearDeductionsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      Save Last Year's Deductions
+                    </Button>
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  {((stateRefundWorksheet.lines as StateRefundWorksheetLine[] | null) || []).map((line) => (
+                    <div
+                      key={line.line}
+                      className="flex items-center justify-between py-2 border-b text-sm"
+                    >
+                      <p className="text-foreground">
+                        <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                        {line.description}
+                      </p>
+                      <p className="font-mono">{formatCurrency(line.amount.toString())}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between py-4 bg-accent/50 px-4 rounded-lg mt-4">
+                  <p className="font-semibold text-foreground">Taxable refunds (Schedule 1, line 1)</p>
+                  <p className="text-xl font-mono font-bold" data-testid="text-taxable-state-refunds">
+                    {formatCurrency(stateRefundWorksheet.taxableRefunds)}
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {form8962 && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Form 8962 - Premium Tax Credit</CardTitle>
+                  <Badge variant="secondary" data-testid="badge-fpl-percentage">
+                    {form8962.fplPercentage}% of poverty line
+                  </Badge>
+                </div>
+                <CardDescription>
+                  {form8962.isEligible
+                    ? `Family of ${form8962.familySize}: advance payments from Form 1095-A reconciled with the credit for your household income`
+                    : `Not eligible: ${form8962.ineligibleReason}`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {((form8962.months as Form8962Month[] | null) || []).length > 0 && (
+                  <div className="overflow-x-auto mb-4">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b text-muted-foreground">
+                          <th className="text-left py-2">Month</th>
+                          <th className="text-right py-2">Premium</th>
+                          <th className="text-right py-2">SLCSP</th>
+                          <th className="text-right py-2">Contribution</th>
+                          <th className="text-right py-2">Credit</th>
+                          <th className="text-right py-2">Advance</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {((form8962.months as Form8962Month[] | null) || []).map((month) => (
+                          <tr key={month.month} className="border-b">
+                            <td className="py-2">{MONTH_NAMES[month.month - 1]}</td>
+                            <td className="text-right font-mono">{formatCurrency(month.premium.toString())}</td>
+                            <td className="text-right font-mono">{formatCurrency(month.slcsp.toString())}</td>
+                            <td className="text-right font-mono">{formatCurrency(month.contribution.toString())}</td>
+                            <td className="text-right font-mono">{formatCurrency(month.credit.toString())}</td>
+                            <td className="text-right font-mono">{formatCurrency(month.advancePayment.toString())}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  {((form8962.lines as Form8962Line[] | null) || []).map((line) => (
+                    <div
+                      key={line.line}
+                      className="flex items-center justify-between py-2 border-b text-sm"
+                    >
+                      <p className="text-foreground">
+                        <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                        {line.description}
+                      </p>
+                      <p className="font-mono">
+                        {FORM_8962_COUNT_LINES.includes(line.line)
+                          ? line.amount
+                          : FORM_8962_PERCENT_LINES.includes(line.line)
+                            ? `${line.amount}%`
+                            : FORM_8962_RATIO_LINES.includes(line.line)
+                              ? line.amount.toFixed(4)
+                              : formatCurrency(line.amount.toString())}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Net premium tax credit (Schedule 3, line 9)</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-form8962-net-credit">
+                      {formatCurrency(form8962.netPremiumTaxCredit)}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Excess advance payment repayment (Schedule 2, line 1a)</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-form8962-repayment">
+                      {formatCurrency(form8962.excessAdvanceRepayment)}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {schedule8812 && (schedule8812.qualifyingChildren || 0) + (schedule8812.otherDependents || 0) > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Schedule 8812 - Credits for Qualifying Children and Other Dependents</CardTitle>
+                <CardDescription>
+                  {schedule8812.qualifyingChildren} child{schedule8812.qualifyingChildren !== 1 ? "ren" : ""} under 17
+                  and {schedule8812.otherDependents} other dependent{schedule8812.otherDependents !== 1 ? "s" : ""}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-1">
+                  {((schedule8812.lines as Schedule8812Line[] | null) || []).map((line) => (
+                    <div
+                      key={line.line}
+                      className="flex items-center justify-between py-2 border-b text-sm"
+                    >
+                      <p className="text-foreground">
+                        <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                        {line.description}
+                      </p>
+                      <p className="font-mono">
+                        {SCHEDULE_8812_COUNT_LINES.includes(line.line)
+                          ? line.amount
+                          : formatCurrency(line.amount.toString())}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Form 1040, line 19</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-8812-nonrefundable">
+                      {formatCurrency(schedule8812.nonrefundableCredit)}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Form 1040, line 28</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-8812-refundable">
+                      {formatCurrency(schedule8812.additionalChildTaxCredit)}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {form8863 && ((form8863.students as Form8863Student[] | null) || []).length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Form 8863 - Education Credits</CardTitle>
+                <CardDescription>
+                  American opportunity and lifetime learning credits from your 1098-T forms
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-1 mb-4">
+                  {((form8863.students as Form8863Student[] | null) || []).map((student) => (
+                    <div
+                      key={student.studentName}
+                      className="flex items-center justify-between py-2 border-b text-sm"
+                    >
+                      <div>
+                        <p className="font-medium text-foreground">{student.studentName}</p>
+                        <p className="text-muted-foreground">
+                          {student.claimsAmericanOpportunityCredit
+                            ? "American opportunity credit"
+                            : `Lifetime learning credit${student.ineligibleReason ? ` (${student.ineligibleReason})` : ""}`}
+                        </p>
+                      </div>
+                      <p className="font-mono">{formatCurrency(student.qualifiedExpenses.toString())}</p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-1">
+                  {((form8863.lines as Form8863Line[] | null) || []).map((line) => (
+                    <div
+                      key={line.line}
+                      className="flex items-center justify-between py-2 border-b text-sm"
+                    >
+                      <p className="text-foreground">
+                        <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                        {line.description}
+                      </p>
+                      <p className="font-mono">
+                        {FORM_8863_RATIO_LINES.includes(line.line)
+                          ? line.amount.toFixed(3)
+                          : formatCurrency(line.amount.toString())}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Schedule 3, line 3 (Form 1040, line 20)</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-8863-nonrefundable">
+                      {formatCurrency(form8863.nonrefundableEducationCredits)}
+                    </p>
+                  </div>
+                  <div className="p-4 bg-accent/50 rounded-lg">
+                    <p className="text-sm text-muted-foreground">Form 1040, line 29</p>
+                    <p className="text-lg font-mono font-semibold" data-testid="text-8863-refundable">
+                      {formatCurrency(form8863.refundableAmericanOpportunityCredit)}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </>
       )}
 
@@ -0,0 +1,453 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ESTIMATED_PAYMENT_JURISDICTIONS, type EstimatedTaxPayment, type Form2210 } from "@shared/schema";
+
+interface Form2210Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface Form2210Installment {
+  dueDate: string;
+  required: number;
+  paid: number;
+  underpayment: number;
+  penalty: number;
+}
+
+interface PaymentForm {
+  paymentDate: string;
+  amount: string;
+  jurisdiction: string;
+  state: string;
+  appliedFromPriorYear: boolean;
+  description: string;
+}
+
+const emptyPayment: PaymentForm = {
+  paymentDate: "",
+  amount: "",
+  jurisdiction: ESTIMATED_PAYMENT_JURISDICTIONS.FEDERAL,
+  state: "",
+  appliedFromPriorYear: false,
+  description: "",
+};
+
+export default function EstimatedPaymentsPage() {
+  const { toast } = useToast();
+  const [newPayment, setNewPayment] = useState<PaymentForm>(emptyPayment);
+  const [priorYearTax, setPriorYearTax] = useState("");
+  const [priorYearAgi, setPriorYearAgi] = useState("");
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: payments, isLoading } = useQuery<EstimatedTaxPayment[]>({
+    queryKey: ["/api/estimated-payments"],
+  });
+
+  const { data: form2210 } = useQuery<Form2210 | null>({
+    queryKey: ["/api/form2210"],
+  });
+
+  useEffect(() => {
+    if (form2210) {
+      setPriorYearTax(form2210.priorYearTax || "");
+      setPriorYearAgi(form2210.priorYearAgi || "");
+    }
+  }, [form2210]);
+
+  const savePriorYearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/form2210/prior-year", {
+        priorYearTax: priorYearTax || null,
+        priorYearAgi: priorYearAgi || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form2210"] });
+      toast({
+        title: "Prior-Year Tax Saved",
+        description: "Recalculate your taxes to update Form 2210.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save the prior-year tax",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addPaymentMutation = useMutation({
+    mutationFn: async () => {
+      const isState = newPayment.jurisdiction === ESTIMATED_PAYMENT_JURISDICTIONS.STATE;
+      const response = await apiRequest("POST", "/api/estimated-payments", {
+        ...newPayment,
+        state: isState ? newPayment.state.toUpperCase() || null : null,
+        description: newPayment.description || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimated-payments"] });
+      setNewPayment({ ...emptyPayment, jurisdiction: newPayment.jurisdiction, state: newPayment.state });
+      toast({ title: "Payment added" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePaymentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/estimated-payments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimated-payments"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const federalTotal = (payments || [])
+    .filter((payment) => payment.jurisdiction === ESTIMATED_PAYMENT_JURISDICTIONS.FEDERAL)
+    .reduce((sum, payment) => sum + parseFloat(payment.amount || "0"), 0);
+  const stateTotal = (payments || [])
+    .filter((payment) => payment.jurisdiction === ESTIMATED_PAYMENT_JURISDICTIONS.STATE)
+    .reduce((sum, payment) => sum + parseFloat(payment.amount || "0"), 0);
+  const lines = (form2210?.lines as Form2210Line[] | null) || [];
+  const installments = (form2210?.installments as Form2210Installment[] | null) || [];
+  const canAddPayment = !!newPayment.paymentDate && parseFloat(newPayment.amount) > 0;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Estimated Payments</h1>
+          <p className="text-lg text-muted-foreground">
+            Estimated tax paid for {currentYear} and Form 2210
+          </p>
+        </div>
+        <Button
+          onClick={() => savePriorYearMutation.mutate()}
+          disabled={savePriorYearMutation.isPending}
+          data-testid="button-save-form-2210"
+        >
+          {savePriorYearMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save
+        </Button>
+      </div>
+
+      {form2210 && lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Underpayment Penalty
+              {form2210.method !== "none" && (
+                <Badge variant="outline">
+                  {form2210.method === "short" ? "Short method" : "Regular method"}
+                </Badge>
+              )}
+            </CardTitle>
+            <CardDescription>
+              {form2210.exceptionReason || "The penalty flows to Form 1040 line 38"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Required annual payment (line 9):</span>
+              <span className="font-mono font-semibold">{formatCurrency(form2210.requiredAnnualPayment)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Withholding (line 6):</span>
+              <span className="font-mono font-semibold">{formatCurrency(form2210.withholding)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Federal estimated payments:</span>
+              <span className="font-mono font-semibold">{formatCurrency(form2210.estimatedPayments)}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t">
+              <span className="text-sm font-semibold">Penalty:</span>
+              <span className="font-mono font-bold" data-testid="text-form-2210-penalty">{formatCurrency(form2210.penalty)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payments</CardTitle>
+          <CardDescription>
+            Federal payments count toward Form 1040 line 26. State payments are tracked for your state return and Schedule A.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {payments && payments.length > 0 ? (
+            <div className="space-y-1">
+              {payments.map((payment) => (
+                <div key={payment.id} className="flex items-center justify-between py-2 border-b text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">{payment.paymentDate}</span>
+                    <Badge variant="outline">
+                      {payment.jurisdiction === ESTIMATED_PAYMENT_JURISDICTIONS.STATE ? payment.state || "State" : "Federal"}
+                    </Badge>
+                    {payment.appliedFromPriorYear && <Badge variant="secondary">Applied {currentYear - 1} overpayment</Badge>}
+                    {payment.description && <span>{payment.description}</span>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">{formatCurrency(payment.amount)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deletePaymentMutation.mutate(payment.id)}
+                      disabled={deletePaymentMutation.isPending}
+                      data-testid={`button-delete-estimated-payment-${payment.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <div className="flex justify-between pt-2 text-sm font-semibold">
+                <span>Federal total</span>
+                <span className="font-mono" data-testid="text-federal-estimated-total">{formatCurrency(federalTotal.toString())}</span>
+              </div>
+              {stateTotal > 0 && (
+                <div className="flex justify-between text-sm font-semibold">
+                  <span>State total</span>
+                  <span className="font-mono">{formatCurrency(stateTotal.toString())}</span>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No estimated payments recorded.</p>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-5 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="paymentDate">Date</Label>
+              <Input
+                id="paymentDate"
+                type="date"
+                value={newPayment.paymentDate}
+                onChange={(e) => setNewPayment({ ...newPayment, paymentDate: e.target.value })}
+                data-testid="input-payment-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentAmount">Amount</Label>
+              <Input
+                id="paymentAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={newPayment.amount}
+                onChange={(e) => setNewPayment({ ...newPayment, amount: e.target.value })}
+                data-testid="input-payment-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Paid to</Label>
+              <Select
+                value={newPayment.jurisdiction}
+                onValueChange={(value) => setNewPayment({ ...newPayment, jurisdiction: value })}
+              >
+                <SelectTrigger data-testid="select-payment-jurisdiction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ESTIMATED_PAYMENT_JURISDICTIONS.FEDERAL}>Federal (IRS)</SelectItem>
+                  <SelectItem value={ESTIMATED_PAYMENT_JURISDICTIONS.STATE}>State</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {newPayment.jurisdiction === ESTIMATED_PAYMENT_JURISDICTIONS.STATE && (
+              <div className="space-y-2">
+                <Label htmlFor="paymentState">State</Label>
+                <Input
+                  id="paymentState"
+                  maxLength={2}
+                  placeholder="CA"
+                  value={newPayment.state}
+                  onChange={(e) => setNewPayment({ ...newPayment, state: e.target.value })}
+                  data-testid="input-payment-state"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="paymentDescription">Description</Label>
+              <Input
+                id="paymentDescription"
+                value={newPayment.description}
+                onChange={(e) => setNewPayment({ ...newPayment, description: e.target.value })}
+                data-testid="input-payment-description"
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="appliedFromPriorYear"
+              checked={newPayment.appliedFromPriorYear}
+              onCheckedChange={(checked) => setNewPayment({ ...newPayment, appliedFromPriorYear: checked as boolean })}
+              data-testid="checkbox-applied-from-prior-year"
+            />
+            <Label htmlFor="appliedFromPriorYear" className="text-sm">
+              Overpayment applied from my {currentYear - 1} return (treated as paid on April 15)
+            </Label>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => addPaymentMutation.mutate()}
+            disabled={!canAddPayment || addPaymentMutation.isPending}
+            data-testid="button-add-estimated-payment"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Payment
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{currentYear - 1} Tax</CardTitle>
+          <CardDescription>
+            Used for the prior-year safe harbor when your {currentYear - 1} return was not prepared here
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="priorYearTax">Total tax (Form 1040 line 24 less refundable credits)</Label>
+              <Input
+                id="priorYearTax"
+                type="number"
+                step="0.01"
+                min="0"
+                value={priorYearTax}
+                onChange={(e) => setPriorYearTax(e.target.value)}
+                data-testid="input-prior-year-tax"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="priorYearAgi">Adjusted gross income (Form 1040 line 11)</Label>
+              <Input
+                id="priorYearAgi"
+                type="number"
+                step="0.01"
+                min="0"
+                value={priorYearAgi}
+                onChange={(e) => setPriorYearAgi(e.target.value)}
+                data-testid="input-prior-year-agi"
+              />
+              <p className="text-xs text-muted-foreground">
+                Above $150,000 ($75,000 married filing separately) the safe harbor is 110% of the prior-year tax
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {installments.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Installments</CardTitle>
+            <CardDescription>Regular method: each quarter's required payment and what was paid by its due date</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              <div className="grid grid-cols-5 gap-2 pb-2 border-b text-xs font-semibold text-muted-foreground">
+                <span>Due date</span>
+                <span className="text-right">Required</span>
+                <span className="text-right">Paid</span>
+                <span className="text-right">Underpayment</span>
+                <span className="text-right">Penalty</span>
+              </div>
+              {installments.map((installment) => (
+                <div key={installment.dueDate} className="grid grid-cols-5 gap-2 py-2 border-b text-sm">
+                  <span className="font-mono">{installment.dueDate}</span>
+                  <span className="font-mono text-right">{formatCurrency(installment.required.toString())}</span>
+                  <span className="font-mono text-right">{formatCurrency(installment.paid.toString())}</span>
+                  <span className="font-mono text-right">{formatCurrency(installment.underpayment.toString())}</span>
+                  <span className="font-mono text-right">{formatCurrency(installment.penalty.toString())}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Worksheet</CardTitle>
+            <CardDescription>Form 2210 from your last calculation</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {lines.map((line) => (
+                <div
+                  key={line.line}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                >
+                  <p className="text-foreground">
+                    <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                    {line.description}
+                  </p>
+                  <p className="font-mono">{formatCurrency(line.amount.toString())}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { CalendarPlus, Download, Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Form1040Es } from "@shared/schema";
+
+interface Form1040EsLine {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface Form1040EsVoucher {
+  voucher: number;
+  dueDate: string;
+  amount: number;
+}
+
+export default function Form1040EsPage() {
+  const { toast } = useToast();
+  const [expectedAgi, setExpectedAgi] = useState("");
+  const [expectedWithholding, setExpectedWithholding] = useState("");
+  const [overpaymentApplied, setOverpaymentApplied] = useState("");
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+  const planYear = currentYear + 1;
+
+  const { data: plan, isLoading } = useQuery<Form1040Es | null>({
+    queryKey: ["/api/form1040-es"],
+  });
+
+  useEffect(() => {
+    if (plan) {
+      setExpectedAgi(plan.expectedAgi || "");
+      setExpectedWithholding(plan.expectedWithholding || "");
+      setOverpaymentApplied(parseFloat(plan.overpaymentApplied || "0") > 0 ? plan.overpaymentApplied! : "");
+    }
+  }, [plan]);
+
+  const savePlanMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/form1040-es", {
+        expectedAgi: expectedAgi || null,
+        expectedWithholding: expectedWithholding || null,
+        overpaymentApplied: overpaymentApplied || "0",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form1040-es"] });
+      toast({
+        title: "Plan Updated",
+        description: `Your ${planYear} estimated tax payments have been planned.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Planning Failed",
+        description: error.message || "Failed to plan estimated tax payments",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDownload = async (url: string, filename: string) => {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem("token")}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to download ${filename}`);
+      }
+
+      const blob = await response.blob();
+      const objectUrl = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = objectUrl;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(objectUrl);
+      document.body.removeChild(a);
+    } catch (error: any) {
+      toast({
+        title: "Download Failed",
+        description: error.message || "Failed to download. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const lines = (plan?.lines as Form1040EsLine[] | null) || [];
+  const vouchers = (plan?.vouchers as Form1040EsVoucher[] | null) || [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Form 1040-ES</h1>
+          <p className="text-lg text-muted-foreground">
+            Estimated tax plan for {planYear}, projected from your {currentYear} return
+          </p>
+        </div>
+        <Button
+          onClick={() => savePlanMutation.mutate()}
+          disabled={savePlanMutation.isPending}
+          data-testid="button-save-form-1040-es"
+        >
+          {savePlanMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          {plan ? "Update Plan" : "Create Plan"}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Expectations for {planYear}</CardTitle>
+          <CardDescription>
+            Leave blank to assume {planYear} looks like {currentYear}. Brackets and the standard deduction come from the {planYear} tax year configuration.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="expectedAgi">Expected adjusted gross income</Label>
+              <Input
+                id="expectedAgi"
+                type="number"
+                step="0.01"
+                min="0"
+                value={expectedAgi}
+                onChange={(e) => setExpectedAgi(e.target.value)}
+                data-testid="input-expected-agi"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expectedWithholding">Expected federal withholding</Label>
+              <Input
+                id="expectedWithholding"
+                type="number"
+                step="0.01"
+                min="0"
+                value={expectedWithholding}
+                onChange={(e) => setExpectedWithholding(e.target.value)}
+                data-testid="input-expected-withholding"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="overpaymentApplied">{currentYear} overpayment applied to {planYear}</Label>
+              <Input
+                id="overpaymentApplied"
+                type="number"
+                step="0.01"
+                min="0"
+                value={overpaymentApplied}
+                onChange={(e) => setOverpaymentApplied(e.target.value)}
+                data-testid="input-overpayment-applied"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {plan && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarPlus className="h-5 w-5" />
+              {planYear} Payments
+              <Badge variant={plan.paymentsRequired ? "default" : "outline"}>
+                {plan.paymentsRequired ? "Payments required" : "No payments required"}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              The required annual payment is the smaller of 90% of the projected tax or 100% of your {currentYear} tax (110% when your AGI was over $150,000)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Projected {planYear} tax (line 11c):</span>
+              <span className="font-mono font-semibold">{formatCurrency(plan.estimatedTax)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">90% of projected tax (line 12a):</span>
+              <span className="font-mono font-semibold">{formatCurrency(plan.currentYearSafeHarbor)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Based on {currentYear} tax (line 12b):</span>
+              <span className="font-mono font-semibold">{formatCurrency(plan.priorYearSafeHarbor)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Expected withholding (line 13):</span>
+              <span className="font-mono font-semibold">{formatCurrency(plan.withholding)}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t">
+              <span className="text-sm font-semibold">Quarterly payment (line 15):</span>
+              <span className="font-mono font-bold" data-testid="text-quarterly-payment">{formatCurrency(plan.quarterlyPayment)}</span>
+            </div>
+
+            {plan.paymentsRequired && (
+              <>
+                <div className="space-y-1 pt-4">
+                  {vouchers.map((voucher) => (
+                    <div key={voucher.voucher} className="flex items-center justify-between py-2 border-b text-sm">
+                      <span>Voucher {voucher.voucher} - due {voucher.dueDate}</span>
+                      <span className="font-mono" data-testid={`text-voucher-${voucher.voucher}`}>
+                        {formatCurrency(voucher.amount.toString())}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 pt-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => handleDownload("/api/forms/1040-es/pdf", `Form_1040-ES_${planYear}.pdf`)}
+                    data-testid="button-download-vouchers"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Vouchers
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleDownload("/api/form1040-es/calendar", `Estimated_Tax_${planYear}.ics`)}
+                    data-testid="button-download-calendar"
+                  >
+                    <CalendarPlus className="h-4 w-4 mr-2" />
+                    Add Due Dates to Calendar
+                  </Button>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Estimated Tax Worksheet</CardTitle>
+            <CardDescription>Projected at ordinary rates from your {currentYear} return</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {lines.map((line) => (
+                <div
+                  key={line.line}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                >
+                  <p className="text-foreground">
+                    <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                    {line.description}
+                  </p>
+                  <p className="font-mono">{formatCurrency(line.amount.toString())}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
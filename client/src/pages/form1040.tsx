@@ -5,6 +5,23 @@ import { Loader2, FileText, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import type { Form1040 } from "@shared/schema";
 
+interface CreditsBreakdown {
+  childTaxCredit: number;
+  foreignTaxCredit?: number;
+  dependentCareCredit?: number;
+  educationCredits: number;
+  retirementSavingsCredit?: number;
+  residentialCleanEnergyCredit?: number;
+  homeImprovementCredit?: number;
+  scheduleThreeCredits?: number;
+  totalNonrefundableCredits: number;
+  earnedIncomeCredit: number;
+  additionalChildTaxCredit: number;
+  americanOpportunityCredit: number;
+  netPremiumTaxCredit?: number;
+  totalRefundableCredits: number;
+}
+
 export default function Form1040Page() {
   const { toast } = useToast();
   const { data: form1040, isLoading } = useQuery<Form1040>({
@@ -95,6 +112,8 @@ export default function Form1040Page() {
     );
   }
 
+  const credits = form1040.creditsBreakdown as CreditsBreakdown | null;
+
   return (
     <div className="space-y-8">
       <div>
@@ -183,6 +202,30 @@ export default function Form1040Page() {
                 </div>
               </div>
 
+              {parseFloat(form1040.socialSecurityBenefits || "0") > 0 && (
+                <>
+                  <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                    <div className="col-span-1 text-sm font-mono text-muted-foreground">6a</div>
+                    <div className="col-span-8 text-sm">
+                      Social security benefits
+                    </div>
+                    <div className="col-span-3 text-right font-mono text-sm">
+                      {formatCurrency(form1040.socialSecurityBenefits)}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                    <div className="col-span-1 text-sm font-mono text-muted-foreground">6b</div>
+                    <div className="col-span-8 text-sm">
+                      Taxable amount
+                    </div>
+                    <div className="col-span-3 text-right font-mono text-sm">
+                      {formatCurrency(form1040.taxableSocialSecurityBenefits)}
+                    </div>
+                  </div>
+                </>
+              )}
+
               <div className="grid grid-cols-12 gap-4 py-2 border-b">
                 <div className="col-span-1 text-sm font-mono text-muted-foreground">7</div>
                 <div className="col-span-8 text-sm">
@@ -245,6 +288,18 @@ export default function Form1040Page() {
                 </div>
               </div>
 
+              {parseFloat(form1040.qbiDeduction || "0") > 0 && (
+                <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                  <div className="col-span-1 text-sm font-mono text-muted-foreground">13</div>
+                  <div className="col-span-8 text-sm">
+                    Qualified business income deduction
+                  </div>
+                  <div className="col-span-3 text-right font-mono text-sm">
+                    {formatCurrency(form1040.qbiDeduction)}
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-12 gap-4 py-3 bg-accent/30 rounded-lg px-4 mt-2">
                 <div className="col-span-1 text-sm font-mono font-semibold">15</div>
                 <div className="col-span-8 text-sm font-semibold">
@@ -265,13 +320,51 @@ export default function Form1040Page() {
                 </div>
               </div>
 
+              <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                <div className="col-span-1 text-sm font-mono text-muted-foreground">17</div>
+                <div className="col-span-8 text-sm">
+                  {parseFloat(form1040.excessAdvancePremiumTaxCredit || "0") > 0
+                    ? "Alternative minimum tax and excess advance premium tax credit repayment (Schedule 2)"
+                    : "Alternative minimum tax (Form 6251)"}
+                </div>
+                <div className="col-span-3 text-right font-mono text-sm" data-testid="text-form-amt">
+                  {formatCurrency((parseFloat(form1040.alternativeMinimumTax || "0") + parseFloat(form1040.excessAdvancePremiumTaxCredit || "0")).toString())}
+                </div>
+              </div>
+
               <div className="grid grid-cols-12 gap-4 py-2 border-b">
                 <div className="col-span-1 text-sm font-mono text-muted-foreground">19</div>
                 <div className="col-span-8 text-sm">
-                  Credits
+                  Child tax credit
                 </div>
                 <div className="col-span-3 text-right font-mono text-sm">
-                  {formatCurrency(form1040.credits)}
+                  {formatCurrency(credits?.childTaxCredit?.toString())}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                <div className="col-span-1 text-sm font-mono text-muted-foreground">20</div>
+                <div className="col-span-8 text-sm">
+                  Schedule 3 credits
+                  {(!!credits?.foreignTaxCredit || !!credits?.dependentCareCredit || !!credits?.retirementSavingsCredit ||
+                    !!credits?.residentialCleanEnergyCredit || !!credits?.homeImprovementCredit) && (
+                    <span className="text-muted-foreground">
+                      {" "}(foreign tax credit {formatCurrency((credits.foreignTaxCredit ?? 0).toString())}, dependent care credit {formatCurrency((credits.dependentCareCredit ?? 0).toString())}, education credits {formatCurrency(credits.educationCredits?.toString())}, saver's credit {formatCurrency((credits.retirementSavingsCredit ?? 0).toString())}, energy credits {formatCurrency(((credits.residentialCleanEnergyCredit ?? 0) + (credits.homeImprovementCredit ?? 0)).toString())})
+                    </span>
+                  )}
+                </div>
+                <div className="col-span-3 text-right font-mono text-sm" data-testid="text-form-education-credits">
+                  {formatCurrency((credits?.scheduleThreeCredits ?? credits?.educationCredits)?.toString())}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                <div className="col-span-1 text-sm font-mono text-muted-foreground">21</div>
+                <div className="col-span-8 text-sm">
+                  Total credits
+                </div>
+                <div className="col-span-3 text-right font-mono text-sm" data-testid="text-form-total-credits">
+                  {formatCurrency(credits?.totalNonrefundableCredits?.toString())}
                 </div>
               </div>
 
@@ -300,6 +393,58 @@ export default function Form1040Page() {
                   {formatCurrency(form1040.federalWithheld)}
                 </div>
               </div>
+
+              <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                <div className="col-span-1 text-sm font-mono text-muted-foreground">26</div>
+                <div className="col-span-8 text-sm">
+                  Estimated tax payments and amount applied from prior-year return
+                </div>
+                <div className="col-span-3 text-right font-mono text-sm" data-testid="text-form-estimated-payments">
+                  {formatCurrency(form1040.estimatedTaxPayments)}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                <div className="col-span-1 text-sm font-mono text-muted-foreground">27</div>
+                <div className="col-span-8 text-sm">
+                  Earned income credit (EIC)
+                </div>
+                <div className="col-span-3 text-right font-mono text-sm" data-testid="text-form-eic">
+                  {formatCurrency(credits?.earnedIncomeCredit?.toString())}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                <div className="col-span-1 text-sm font-mono text-muted-foreground">28</div>
+                <div className="col-span-8 text-sm">
+                  Additional child tax credit (Schedule 8812)
+                </div>
+                <div className="col-span-3 text-right font-mono text-sm" data-testid="text-form-actc">
+                  {formatCurrency(credits?.additionalChildTaxCredit?.toString())}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                <div className="col-span-1 text-sm font-mono text-muted-foreground">29</div>
+                <div className="col-span-8 text-sm">
+                  American opportunity credit (Form 8863)
+                </div>
+                <div className="col-span-3 text-right font-mono text-sm" data-testid="text-form-aotc">
+                  {formatCurrency(credits?.americanOpportunityCredit?.toString())}
+                </div>
+              </div>
+
+              {(credits?.netPremiumTaxCredit || 0) > 0 && (
+                <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                  <div className="col-span-1 text-sm font-mono text-muted-foreground">31</div>
+                  <div className="col-span-8 text-sm">
+                    Net premium tax credit (Schedule 3 line 9, Form 8962)
+                  </div>
+                  <div className="col-span-3 text-right font-mono text-sm" data-testid="text-form-net-ptc">
+                    {formatCurrency(credits?.netPremiumTaxCredit?.toString())}
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="space-y-1 pt-4 border-t-2">
@@ -325,6 +470,18 @@ export default function Form1040Page() {
                   {formatCurrency(form1040.refundOrOwed)}
                 </div>
               </div>
+
+              {parseFloat(form1040.estimatedTaxPenalty || "0") > 0 && (
+                <div className="grid grid-cols-12 gap-4 py-2 border-b">
+                  <div className="col-span-1 text-sm font-mono text-muted-foreground">38</div>
+                  <div className="col-span-8 text-sm">
+                    Estimated tax penalty (Form 2210)
+                  </div>
+                  <div className="col-span-3 text-right font-mono text-sm" data-testid="text-form-estimated-tax-penalty">
+                    {formatCurrency(form1040.estimatedTaxPenalty)}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,332 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Globe, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ForeignTaxCarryover, Form1116 } from "@shared/schema";
+
+interface Form1116Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface CarryoverEntry {
+  taxYear: number;
+  amount: number;
+}
+
+// Lines 3f and 19 are ratios rather than dollar amounts
+const FORM_1116_RATIO_LINES = ["3f", "19"];
+
+export default function Form1116Page() {
+  const { toast } = useToast();
+  const [foreignSourceIncome, setForeignSourceIncome] = useState("");
+  const [manualEntries, setManualEntries] = useState<{ taxYear: string; amount: string }[]>([]);
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: form1116, isLoading } = useQuery<Form1116 | null>({
+    queryKey: ["/api/form1116"],
+  });
+
+  const { data: carryovers } = useQuery<ForeignTaxCarryover[]>({
+    queryKey: ["/api/foreign-tax-carryovers"],
+  });
+
+  // Carryovers into this year are the ones left after the prior year
+  const priorYearCarryover = carryovers?.find((carryover) => carryover.taxYear === currentYear - 1);
+
+  useEffect(() => {
+    if (form1116) {
+      setForeignSourceIncome(form1116.foreignSourceIncome || "");
+    }
+  }, [form1116]);
+
+  useEffect(() => {
+    if (priorYearCarryover?.isManualEntry) {
+      setManualEntries(
+        ((priorYearCarryover.carryovers as CarryoverEntry[] | null) || []).map((entry) => ({
+          taxYear: entry.taxYear.toString(),
+          amount: entry.amount.toString(),
+        }))
+      );
+    }
+  }, [priorYearCarryover]);
+
+  const saveIncomeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/form1116/foreign-income", {
+        foreignSourceIncome: foreignSourceIncome || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form1116"] });
+      toast({
+        title: "Foreign Income Saved",
+        description: "Recalculate your taxes to update the foreign tax credit.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save foreign-source income",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveCarryoverMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/foreign-tax-carryovers/${currentYear - 1}`, {
+        carryovers: manualEntries.filter((entry) => entry.taxYear && entry.amount),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/foreign-tax-carryovers"] });
+      toast({
+        title: "Carryover Saved",
+        description: "Recalculate your taxes to apply the carryover.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save the foreign tax carryover",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const lines = (form1116?.lines as Form1116Line[] | null) || [];
+  const priorEntries = (priorYearCarryover?.carryovers as CarryoverEntry[] | null) || [];
+  // A carryover computed from last year's return here can't be edited by hand
+  const canEditCarryover = !priorYearCarryover || !!priorYearCarryover.isManualEntry;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Form 1116</h1>
+          <p className="text-lg text-muted-foreground">
+            Foreign Tax Credit for {currentYear}
+          </p>
+        </div>
+        <Button
+          onClick={() => saveIncomeMutation.mutate()}
+          disabled={saveIncomeMutation.isPending}
+          data-testid="button-save-form-1116"
+        >
+          {saveIncomeMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save
+        </Button>
+      </div>
+
+      {form1116 && form1116.method !== "none" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Globe className="h-5 w-5" />
+              Foreign Tax Credit
+              <Badge variant="outline">
+                {form1116.method === "simplified" ? "Simplified election" : "Form 1116"}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              The credit flows to Schedule 3 line 1 and Form 1040 line 20
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Foreign tax paid (1099-DIV box 7):</span>
+              <span className="font-mono font-semibold">{formatCurrency(form1116.foreignTaxPaid)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Carryover from prior years (line 10):</span>
+              <span className="font-mono font-semibold">{formatCurrency(form1116.carryoverFromPriorYears)}</span>
+            </div>
+            {form1116.method === "form_1116" && (
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">Credit limitation (line 21):</span>
+                <span className="font-mono font-semibold">{formatCurrency(form1116.creditLimitation)}</span>
+              </div>
+            )}
+            <div className="flex justify-between pt-2 border-t">
+              <span className="text-sm font-semibold">Foreign tax credit:</span>
+              <span className="font-mono font-bold" data-testid="text-foreign-tax-credit">{formatCurrency(form1116.foreignTaxCredit)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Carryover to {currentYear + 1}:</span>
+              <span className="font-mono font-semibold">{formatCurrency(form1116.carryoverToNextYear)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Foreign-Source Income</CardTitle>
+          <CardDescription>
+            Funds report the foreign share of their dividends in a year-end supplement
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2 md:w-1/2">
+            <Label htmlFor="foreignSourceIncome">Gross foreign-source dividends (line 1a)</Label>
+            <Input
+              id="foreignSourceIncome"
+              type="number"
+              step="0.01"
+              min="0"
+              value={foreignSourceIncome}
+              onChange={(e) => setForeignSourceIncome(e.target.value)}
+              data-testid="input-foreignSourceIncome"
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave blank to use the ordinary dividends from every 1099-DIV that reports foreign tax paid
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Carryover Into {currentYear}</CardTitle>
+          <CardDescription>
+            Unused foreign tax carries forward 10 years. It can't be used in a year that takes the simplified election.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canEditCarryover ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                If your {currentYear - 1} return was not prepared here, enter the unused foreign tax from its Form 1116 Schedule B by the year it arose.
+              </p>
+              {manualEntries.map((entry, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    value={entry.taxYear}
+                    onChange={(e) => setManualEntries(manualEntries.map((item, i) => (i === index ? { ...item, taxYear: e.target.value } : item)))}
+                    placeholder="Year"
+                    className="w-28"
+                    data-testid={`input-carryover-year-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={entry.amount}
+                    onChange={(e) => setManualEntries(manualEntries.map((item, i) => (i === index ? { ...item, amount: e.target.value } : item)))}
+                    placeholder="0.00"
+                    className="flex-1"
+                    data-testid={`input-carryover-amount-${index}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setManualEntries(manualEntries.filter((_, i) => i !== index))}
+                    data-testid={`button-remove-carryover-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setManualEntries([...manualEntries, { taxYear: "", amount: "" }])}
+                  data-testid="button-add-carryover"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Year
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => saveCarryoverMutation.mutate()}
+                  disabled={saveCarryoverMutation.isPending}
+                  data-testid="button-save-carryover"
+                >
+                  Save Carryover
+                </Button>
+              </div>
+            </>
+          ) : priorEntries.length > 0 ? (
+            <div className="space-y-1">
+              {priorEntries.map((entry) => (
+                <div key={entry.taxYear} className="flex items-center justify-between py-2 border-b text-sm">
+                  <span>Unused foreign tax from {entry.taxYear}</span>
+                  <span className="font-mono">{formatCurrency(entry.amount.toString())}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No carryover from your {currentYear - 1} return.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Worksheet</CardTitle>
+            <CardDescription>Passive category income from your last calculation</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {lines.map((line) => (
+                <div
+                  key={line.line}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                >
+                  <p className="text-foreground">
+                    <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                    {line.description}
+                  </p>
+                  <p className="font-mono">
+                    {FORM_1116_RATIO_LINES.includes(line.line)
+                      ? line.amount.toFixed(4)
+                      : formatCurrency(line.amount.toString())}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
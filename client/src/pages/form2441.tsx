@@ -0,0 +1,460 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AlertTriangle, Baby, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { CareProvider, Form2441, UserProfile } from "@shared/schema";
+
+interface Form2441Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface Form2441Person {
+  name: string;
+  age: number | null;
+  expenses: number;
+  qualifies: boolean;
+  reason: string | null;
+}
+
+interface CareProviderPayment {
+  dependentName: string;
+  amount: string;
+}
+
+interface ProfileDependent {
+  firstName: string;
+  lastName: string;
+}
+
+interface ProviderForm {
+  name: string;
+  tin: string;
+  address: string;
+  householdEmployee: boolean;
+  payments: Record<string, string>;
+}
+
+const emptyProvider: ProviderForm = {
+  name: "",
+  tin: "",
+  address: "",
+  householdEmployee: false,
+  payments: {},
+};
+
+export default function Form2441Page() {
+  const { toast } = useToast();
+  const [newProvider, setNewProvider] = useState<ProviderForm>(emptyProvider);
+  const [spouseEarnedIncome, setSpouseEarnedIncome] = useState("");
+  const [spouseStudentOrDisabled, setSpouseStudentOrDisabled] = useState(false);
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: profile } = useQuery<UserProfile | null>({
+    queryKey: ["/api/profile"],
+  });
+
+  const { data: form2441, isLoading } = useQuery<Form2441 | null>({
+    queryKey: ["/api/form2441"],
+  });
+
+  const { data: providers } = useQuery<CareProvider[]>({
+    queryKey: ["/api/care-providers"],
+  });
+
+  const isJoint = profile?.filingStatus === "married_joint";
+  const dependentNames = ((profile?.dependents as ProfileDependent[] | null) || [])
+    .map((dependent) => `${dependent.firstName} ${dependent.lastName}`.trim());
+
+  useEffect(() => {
+    if (form2441) {
+      setSpouseEarnedIncome(form2441.spouseEarnedIncome || "");
+      setSpouseStudentOrDisabled(!!form2441.spouseStudentOrDisabled);
+    }
+  }, [form2441]);
+
+  const saveSpouseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/form2441/spouse", {
+        spouseEarnedIncome: spouseEarnedIncome || null,
+        spouseStudentOrDisabled,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form2441"] });
+      toast({
+        title: "Spouse Details Saved",
+        description: "Recalculate your taxes to update Form 2441.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save your spouse's earned income",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addProviderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/care-providers", {
+        name: newProvider.name,
+        tin: newProvider.tin || null,
+        address: newProvider.address || null,
+        householdEmployee: newProvider.householdEmployee,
+        payments: Object.entries(newProvider.payments)
+          .filter(([, amount]) => parseFloat(amount) > 0)
+          .map(([dependentName, amount]) => ({ dependentName, amount })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/care-providers"] });
+      setNewProvider(emptyProvider);
+      toast({ title: "Care provider added", description: "Recalculate your taxes to update Form 2441." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add care provider",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProviderMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/care-providers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/care-providers"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete care provider",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const lines = (form2441?.lines as Form2441Line[] | null) || [];
+  const persons = (form2441?.persons as Form2441Person[] | null) || [];
+  const canAddProvider = !!newProvider.name.trim() &&
+    Object.values(newProvider.payments).some((amount) => parseFloat(amount) > 0);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold text-foreground mb-2">Form 2441</h1>
+        <p className="text-lg text-muted-foreground">
+          Child and Dependent Care Expenses for {currentYear}
+        </p>
+      </div>
+
+      {form2441 && lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Baby className="h-5 w-5" />
+              Dependent Care Credit
+              <Badge variant="outline">
+                {form2441.qualifyingPersons} qualifying {form2441.qualifyingPersons === 1 ? "person" : "persons"}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              The credit flows to Schedule 3 line 2. Excluded W-2 box 10 benefits reduce the expenses that count toward it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Qualified expenses:</span>
+              <span className="font-mono font-semibold">{formatCurrency(form2441.qualifiedExpenses)}</span>
+            </div>
+            {parseFloat(form2441.dependentCareBenefits || "0") > 0 && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Employer benefits excluded (line 25):</span>
+                  <span className="font-mono font-semibold">{formatCurrency(form2441.excludedBenefits)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Taxable benefits (Form 1040 line 1e):</span>
+                  <span className="font-mono font-semibold">{formatCurrency(form2441.taxableBenefits)}</span>
+                </div>
+              </>
+            )}
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Expenses used for the credit (line 3):</span>
+              <span className="font-mono font-semibold">{formatCurrency(form2441.expenseLimit)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Credit percentage (line 8):</span>
+              <span className="font-mono font-semibold">{Math.round(parseFloat(form2441.creditRate || "0") * 100)}%</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t">
+              <span className="text-sm font-semibold">Dependent care credit (line 11):</span>
+              <span className="font-mono font-bold" data-testid="text-dependent-care-credit">{formatCurrency(form2441.dependentCareCredit)}</span>
+            </div>
+            {((form2441.warnings as string[] | null) || []).map((warning) => (
+              <div key={warning} className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{warning}</span>
+              </div>
+            ))}
+            {persons.length > 0 && (
+              <div className="space-y-1 pt-4">
+                {persons.map((person) => (
+                  <div key={person.name} className="flex items-center justify-between py-2 border-b text-sm">
+                    <div className="flex items-center gap-2">
+                      <span>{person.name}</span>
+                      {!person.qualifies && <Badge variant="secondary">{person.reason}</Badge>}
+                    </div>
+                    <span className="font-mono">{formatCurrency(person.expenses.toString())}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Care Providers</CardTitle>
+          <CardDescription>
+            Part I lists everyone you paid for care. Only children under 13 at the end of {currentYear} who are dependents on your profile count.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {providers && providers.length > 0 ? (
+            <div className="space-y-1">
+              {providers.map((provider) => {
+                const payments = (provider.payments as CareProviderPayment[] | null) || [];
+                const total = payments.reduce((sum, payment) => sum + parseFloat(payment.amount || "0"), 0);
+                return (
+                  <div
+                    key={provider.id}
+                    className="flex items-center justify-between py-2 border-b text-sm"
+                    data-testid={`row-care-provider-${provider.id}`}
+                  >
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{provider.name}</span>
+                        {provider.tin && <span className="font-mono text-muted-foreground">{provider.tin}</span>}
+                        {provider.householdEmployee && <Badge variant="outline">Household employee</Badge>}
+                      </div>
+                      {provider.address && <p className="text-muted-foreground">{provider.address}</p>}
+                      <p className="text-muted-foreground">
+                        {payments.map((payment) => `${payment.dependentName}: ${formatCurrency(payment.amount)}`).join(", ")}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono">{formatCurrency(total.toString())}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteProviderMutation.mutate(provider.id)}
+                        disabled={deleteProviderMutation.isPending}
+                        data-testid={`button-delete-care-provider-${provider.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No care providers added.</p>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="providerName">Provider name</Label>
+              <Input
+                id="providerName"
+                value={newProvider.name}
+                onChange={(e) => setNewProvider({ ...newProvider, name: e.target.value })}
+                data-testid="input-provider-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="providerTin">SSN or EIN</Label>
+              <Input
+                id="providerTin"
+                value={newProvider.tin}
+                onChange={(e) => setNewProvider({ ...newProvider, tin: e.target.value })}
+                data-testid="input-provider-tin"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="providerAddress">Address</Label>
+              <Input
+                id="providerAddress"
+                value={newProvider.address}
+                onChange={(e) => setNewProvider({ ...newProvider, address: e.target.value })}
+                data-testid="input-provider-address"
+              />
+            </div>
+          </div>
+
+          {dependentNames.length > 0 ? (
+            <div className="grid gap-4 md:grid-cols-3">
+              {dependentNames.map((name, index) => (
+                <div key={name} className="space-y-2">
+                  <Label htmlFor={`payment-${index}`}>Paid for {name}</Label>
+                  <Input
+                    id={`payment-${index}`}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={newProvider.payments[name] || ""}
+                    onChange={(e) => setNewProvider({ ...newProvider, payments: { ...newProvider.payments, [name]: e.target.value } })}
+                    data-testid={`input-provider-payment-${index}`}
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Add your children as dependents on your profile to record what you paid for each of them.
+            </p>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="householdEmployee"
+              checked={newProvider.householdEmployee}
+              onCheckedChange={(checked) => setNewProvider({ ...newProvider, householdEmployee: checked as boolean })}
+              data-testid="checkbox-household-employee"
+            />
+            <Label htmlFor="householdEmployee" className="text-sm">
+              The provider worked in my home as my household employee
+            </Label>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => addProviderMutation.mutate()}
+            disabled={!canAddProvider || addProviderMutation.isPending}
+            data-testid="button-add-care-provider"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Provider
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isJoint && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Spouse's Earned Income</CardTitle>
+            <CardDescription>
+              The expenses used can't be more than the lower-earning spouse's earned income (line 5)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2 md:w-1/2">
+              <Label htmlFor="spouseEarnedIncome">Spouse's wages and self-employment earnings</Label>
+              <Input
+                id="spouseEarnedIncome"
+                type="number"
+                step="0.01"
+                min="0"
+                value={spouseEarnedIncome}
+                onChange={(e) => setSpouseEarnedIncome(e.target.value)}
+                data-testid="input-spouse-earned-income"
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave blank to use the wages on your spouse's W-2s and their Schedule C earnings
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="spouseStudentOrDisabled"
+                checked={spouseStudentOrDisabled}
+                onCheckedChange={(checked) => setSpouseStudentOrDisabled(checked as boolean)}
+                data-testid="checkbox-spouse-student-or-disabled"
+              />
+              <Label htmlFor="spouseStudentOrDisabled" className="text-sm">
+                My spouse was a full-time student or unable to care for themselves
+              </Label>
+            </div>
+            <Button
+              onClick={() => saveSpouseMutation.mutate()}
+              disabled={saveSpouseMutation.isPending}
+              data-testid="button-save-form-2441"
+            >
+              {saveSpouseMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              Save
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Worksheet</CardTitle>
+            <CardDescription>From your last calculation</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {lines.map((line) => (
+                <div
+                  key={line.line}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                >
+                  <p className="text-foreground">
+                    <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                    {line.description}
+                  </p>
+                  <p className="font-mono">
+                    {line.line === "8"
+                      ? `${Math.round(line.amount * 100)}%`
+                      : formatCurrency(line.amount.toString())}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Loader2, Plus, Sun, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ENERGY_PROPERTY_CATEGORIES, type EnergyCreditCarryover, type EnergyImprovement, type Form5695 } from "@shared/schema";
+
+interface Form5695Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface ImprovementForm {
+  category: string;
+  description: string;
+  cost: string;
+  capacity: string;
+  placedInServiceDate: string;
+  isMainHome: boolean;
+}
+
+const CLEAN_ENERGY_CATEGORIES: Record<string, string> = {
+  [ENERGY_PROPERTY_CATEGORIES.SOLAR_ELECTRIC]: "Solar electric (panels)",
+  [ENERGY_PROPERTY_CATEGORIES.SOLAR_WATER_HEATING]: "Solar water heating",
+  [ENERGY_PROPERTY_CATEGORIES.SMALL_WIND]: "Small wind energy",
+  [ENERGY_PROPERTY_CATEGORIES.GEOTHERMAL_HEAT_PUMP]: "Geothermal heat pump",
+  [ENERGY_PROPERTY_CATEGORIES.BATTERY_STORAGE]: "Battery storage",
+  [ENERGY_PROPERTY_CATEGORIES.FUEL_CELL]: "Fuel cell",
+};
+
+const HOME_IMPROVEMENT_CATEGORIES: Record<string, string> = {
+  [ENERGY_PROPERTY_CATEGORIES.INSULATION]: "Insulation or air sealing",
+  [ENERGY_PROPERTY_CATEGORIES.EXTERIOR_DOOR]: "Exterior door (one per row)",
+  [ENERGY_PROPERTY_CATEGORIES.WINDOWS_SKYLIGHTS]: "Exterior windows and skylights",
+  [ENERGY_PROPERTY_CATEGORIES.CENTRAL_AIR_CONDITIONER]: "Central air conditioner",
+  [ENERGY_PROPERTY_CATEGORIES.WATER_HEATER]: "Gas, propane or oil water heater",
+  [ENERGY_PROPERTY_CATEGORIES.FURNACE_BOILER]: "Gas, propane or oil furnace or boiler",
+  [ENERGY_PROPERTY_CATEGORIES.ELECTRICAL_PANEL]: "Electrical panel upgrade",
+  [ENERGY_PROPERTY_CATEGORIES.HOME_ENERGY_AUDIT]: "Home energy audit",
+  [ENERGY_PROPERTY_CATEGORIES.HEAT_PUMP]: "Heat pump or heat pump water heater",
+  [ENERGY_PROPERTY_CATEGORIES.BIOMASS_STOVE]: "Biomass stove or boiler",
+};
+
+const CATEGORY_LABELS: Record<string, string> = { ...CLEAN_ENERGY_CATEGORIES, ...HOME_IMPROVEMENT_CATEGORIES };
+
+// Capacity is kilowatts for fuel cells and kilowatt hours for batteries
+const CAPACITY_UNITS: Record<string, string> = {
+  [ENERGY_PROPERTY_CATEGORIES.FUEL_CELL]: "kW",
+  [ENERGY_PROPERTY_CATEGORIES.BATTERY_STORAGE]: "kWh",
+};
+
+const emptyImprovement: ImprovementForm = {
+  category: ENERGY_PROPERTY_CATEGORIES.SOLAR_ELECTRIC,
+  description: "",
+  cost: "",
+  capacity: "",
+  placedInServiceDate: "",
+  isMainHome: true,
+};
+
+export default function Form5695Page() {
+  const { toast } = useToast();
+  const [newImprovement, setNewImprovement] = useState<ImprovementForm>(emptyImprovement);
+  const [manualCarryforward, setManualCarryforward] = useState("");
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: form5695, isLoading } = useQuery<Form5695 | null>({
+    queryKey: ["/api/form5695"],
+  });
+
+  const { data: improvements } = useQuery<EnergyImprovement[]>({
+    queryKey: ["/api/energy-improvements"],
+  });
+
+  const { data: carryovers } = useQuery<EnergyCreditCarryover[]>({
+    queryKey: ["/api/energy-credit-carryovers"],
+  });
+
+  // The carryforward into this year is the one left after the prior year
+  const priorYearCarryover = carryovers?.find((carryover) => carryover.taxYear === currentYear - 1);
+
+  useEffect(() => {
+    if (priorYearCarryover?.isManualEntry) {
+      setManualCarryforward(priorYearCarryover.carryforward || "");
+    }
+  }, [priorYearCarryover]);
+
+  const addImprovementMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/energy-improvements", {
+        category: newImprovement.category,
+        description: newImprovement.description || null,
+        cost: newImprovement.cost,
+        capacity: CAPACITY_UNITS[newImprovement.category] && newImprovement.capacity ? newImprovement.capacity : null,
+        placedInServiceDate: newImprovement.placedInServiceDate || null,
+        isMainHome: newImprovement.isMainHome,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/energy-improvements"] });
+      setNewImprovement({ ...emptyImprovement, category: newImprovement.category, isMainHome: newImprovement.isMainHome });
+      toast({
+        title: "Improvement added",
+        description: "Recalculate your taxes to update Form 5695.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add improvement",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteImprovementMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/energy-improvements/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/energy-improvements"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete improvement",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveCarryoverMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/energy-credit-carryovers/${currentYear - 1}`, {
+        carryforward: manualCarryforward || "0",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/energy-credit-carryovers"] });
+      toast({
+        title: "Carryforward Saved",
+        description: "Recalculate your taxes to apply the carryforward.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save the energy credit carryforward",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const lines = (form5695?.lines as Form5695Line[] | null) || [];
+  const warnings = (form5695?.warnings as string[] | null) || [];
+  const capacityUnit = CAPACITY_UNITS[newImprovement.category];
+  const canAddImprovement = parseFloat(newImprovement.cost) > 0;
+  // A carryforward computed from last year's return here can't be edited by hand
+  const canEditCarryover = !priorYearCarryover || !!priorYearCarryover.isManualEntry;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold text-foreground mb-2">Form 5695</h1>
+        <p className="text-lg text-muted-foreground">
+          Residential Energy Credits for {currentYear}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Energy Property and Improvements</CardTitle>
+          <CardDescription>
+            Solar, wind, geothermal, battery and fuel cell property earn the residential clean energy credit (Part I).
+            Insulation, doors, windows, heat pumps and efficient heating and cooling earn the home improvement credit (Part II).
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {improvements && improvements.length > 0 ? (
+            <div className="space-y-1">
+              {improvements.map((improvement) => (
+                <div
+                  key={improvement.id}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                  data-testid={`row-energy-improvement-${improvement.id}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{CLEAN_ENERGY_CATEGORIES[improvement.category] ? "Part I" : "Part II"}</Badge>
+                    <span>{CATEGORY_LABELS[improvement.category] || improvement.category}</span>
+                    {improvement.description && <span className="text-muted-foreground">{improvement.description}</span>}
+                    {improvement.capacity && (
+                      <span className="text-muted-foreground">{improvement.capacity} {CAPACITY_UNITS[improvement.category]}</span>
+                    )}
+                    {improvement.placedInServiceDate && (
+                      <span className="font-mono text-muted-foreground">{improvement.placedInServiceDate}</span>
+                    )}
+                    {improvement.isMainHome === false && <Badge variant="secondary">Not main home</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">{formatCurrency(improvement.cost)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteImprovementMutation.mutate(improvement.id)}
+                      disabled={deleteImprovementMutation.isPending}
+                      data-testid={`button-delete-energy-improvement-${improvement.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No energy property or improvements recorded.</p>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3 items-end">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select
+                value={newImprovement.category}
+                onValueChange={(value) => setNewImprovement({ ...newImprovement, category: value })}
+              >
+                <SelectTrigger data-testid="select-energy-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectLabel>Clean energy property (Part I)</SelectLabel>
+                    {Object.entries(CLEAN_ENERGY_CATEGORIES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                  <SelectGroup>
+                    <SelectLabel>Home improvements (Part II)</SelectLabel>
+                    {Object.entries(HOME_IMPROVEMENT_CATEGORIES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="energyDescription">Description</Label>
+              <Input
+                id="energyDescription"
+                value={newImprovement.description}
+                onChange={(e) => setNewImprovement({ ...newImprovement, description: e.target.value })}
+                data-testid="input-energy-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="energyCost">Cost</Label>
+              <Input
+                id="energyCost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={newImprovement.cost}
+                onChange={(e) => setNewImprovement({ ...newImprovement, cost: e.target.value })}
+                data-testid="input-energy-cost"
+              />
+            </div>
+            {capacityUnit && (
+              <div className="space-y-2">
+                <Label htmlFor="energyCapacity">Capacity ({capacityUnit})</Label>
+                <Input
+                  id="energyCapacity"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={newImprovement.capacity}
+                  onChange={(e) => setNewImprovement({ ...newImprovement, capacity: e.target.value })}
+                  data-testid="input-energy-capacity"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="energyPlacedInService">Placed in service</Label>
+              <Input
+                id="energyPlacedInService"
+                type="date"
+                value={newImprovement.placedInServiceDate}
+                onChange={(e) => setNewImprovement({ ...newImprovement, placedInServiceDate: e.target.value })}
+                data-testid="input-energy-placed-in-service"
+              />
+            </div>
+            <div className="flex items-center space-x-2 pb-2">
+              <Checkbox
+                id="energyMainHome"
+                checked={newImprovement.isMainHome}
+                onCheckedChange={(checked) => setNewImprovement({ ...newImprovement, isMainHome: checked as boolean })}
+                data-testid="checkbox-energy-main-home"
+              />
+              <Label htmlFor="energyMainHome" className="text-sm">
+                Installed in my main home
+              </Label>
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => addImprovementMutation.mutate()}
+            disabled={!canAddImprovement || addImprovementMutation.isPending}
+            data-testid="button-add-energy-improvement"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Improvement
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Carryforward Into {currentYear}</CardTitle>
+          <CardDescription>
+            Residential clean energy credit the tax couldn't absorb carries forward to later years until it is used.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canEditCarryover ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                If your {currentYear - 1} return was not prepared here, enter the carryforward from its Form 5695 line 16.
+              </p>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={manualCarryforward}
+                  onChange={(e) => setManualCarryforward(e.target.value)}
+                  placeholder="0.00"
+                  className="max-w-xs"
+                  data-testid="input-energy-carryforward"
+                />
+                <Button
+                  size="sm"
+                  onClick={() => saveCarryoverMutation.mutate()}
+                  disabled={saveCarryoverMutation.isPending}
+                  data-testid="button-save-energy-carryforward"
+                >
+                  Save Carryforward
+                </Button>
+              </div>
+            </>
+          ) : parseFloat(priorYearCarryover?.carryforward || "0") > 0 ? (
+            <div className="flex items-center justify-between py-2 border-b text-sm">
+              <span>Unused residential clean energy credit from {currentYear - 1}</span>
+              <span className="font-mono">{formatCurrency(priorYearCarryover?.carryforward)}</span>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No carryforward from your {currentYear - 1} return.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {form5695 && (lines.length > 0 || warnings.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sun className="h-5 w-5" />
+              Residential Energy Credits
+            </CardTitle>
+            <CardDescription>
+              The clean energy credit goes on Schedule 3 line 5a and the home improvement credit on line 5b
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <p className="text-sm text-muted-foreground">Residential clean energy credit</p>
+                <p className="font-mono font-semibold" data-testid="text-clean-energy-credit">
+                  {formatCurrency(form5695.residentialCleanEnergyCredit)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Carryforward to {currentYear + 1}</p>
+                <p className="font-mono">{formatCurrency(form5695.carryforwardToNextYear)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Energy efficient home improvement credit</p>
+                <p className="font-mono font-semibold" data-testid="text-home-improvement-credit">
+                  {formatCurrency(form5695.homeImprovementCredit)}
+                </p>
+              </div>
+            </div>
+
+            {warnings.map((warning) => (
+              <div key={warning} className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{warning}</span>
+              </div>
+            ))}
+
+            <div className="space-y-1">
+              {lines.map((line) => (
+                <div
+                  key={line.line}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                >
+                  <p className="text-foreground">
+                    <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                    {line.description}
+                  </p>
+                  <p className="font-mono">{formatCurrency(line.amount.toString())}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Save, Scale } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Form6251 } from "@shared/schema";
+
+type AdjustmentField = "isoBargainElement" | "privateActivityBondInterest";
+
+interface Form6251Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+const ADJUSTMENTS: { key: AdjustmentField; label: string; help: string }[] = [
+  {
+    key: "isoBargainElement",
+    label: "Incentive stock options (line 2i)",
+    help: "Fair market value minus exercise price for ISO shares exercised and still held at year end",
+  },
+  {
+    key: "privateActivityBondInterest",
+    label: "Private activity bond interest (line 2g)",
+    help: "Specified private activity bond interest from Form 1099-INT box 9",
+  },
+];
+
+export default function Form6251Page() {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<Partial<Record<AdjustmentField, string>>>({});
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: form6251, isLoading } = useQuery<Form6251 | null>({
+    queryKey: ["/api/form6251"],
+  });
+
+  useEffect(() => {
+    if (form6251) {
+      setFormData({
+        isoBargainElement: form6251.isoBargainElement || "",
+        privateActivityBondInterest: form6251.privateActivityBondInterest || "",
+      });
+    }
+  }, [form6251]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/form6251/adjustments", {
+        isoBargainElement: formData.isoBargainElement || "0",
+        privateActivityBondInterest: formData.privateActivityBondInterest || "0",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form6251"] });
+      toast({
+        title: "AMT Adjustments Saved",
+        description: "Recalculate your taxes to update the alternative minimum tax.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save AMT adjustments",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const lines = (form6251?.lines as Form6251Line[] | null) || [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Form 6251</h1>
+          <p className="text-lg text-muted-foreground">
+            Alternative Minimum Tax for {currentYear}
+          </p>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-form-6251"
+        >
+          {saveMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save
+        </Button>
+      </div>
+
+      {form6251 && lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Alternative Minimum Tax
+            </CardTitle>
+            <CardDescription>
+              Any amount on line 11 flows to Schedule 2 line 2 and Form 1040 line 17
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Alternative minimum taxable income (line 4):</span>
+              <span className="font-mono font-semibold">{formatCurrency(form6251.alternativeMinimumTaxableIncome)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Exemption (line 5):</span>
+              <span className="font-mono font-semibold">{formatCurrency(form6251.exemption)}</span>
+            </div>
+            {parseFloat(form6251.amtForeignTaxCredit || "0") > 0 && (
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">AMT foreign tax credit (line 8):</span>
+                <span className="font-mono font-semibold">{formatCurrency(form6251.amtForeignTaxCredit)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Tentative minimum tax (line 9):</span>
+              <span className="font-mono font-semibold">{formatCurrency(form6251.tentativeMinimumTax)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Regular tax less foreign tax credit (line 10):</span>
+              <span className="font-mono font-semibold">{formatCurrency(form6251.regularTax)}</span>
+            </div>
+            <div className="flex justify-between pt-2 border-t">
+              <span className="text-sm font-semibold">Alternative minimum tax (line 11):</span>
+              <span className="font-mono font-bold" data-testid="text-amt">{formatCurrency(form6251.alternativeMinimumTax)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Adjustments and Preferences</CardTitle>
+          <CardDescription>
+            State and local taxes (or the standard deduction) are added back automatically
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            {ADJUSTMENTS.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={field.key}>{field.label}</Label>
+                <Input
+                  id={field.key}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData[field.key] || ""}
+                  onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                  data-testid={`input-${field.key}`}
+                />
+                <p className="text-xs text-muted-foreground">{field.help}</p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Worksheet</CardTitle>
+            <CardDescription>Line-by-line Form 6251 from your last calculation</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {lines.map((line) => (
+                <div
+                  key={line.line}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                >
+                  <p className="text-foreground">
+                    <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                    {line.description}
+                  </p>
+                  <p className="font-mono">{formatCurrency(line.amount.toString())}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,444 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, GraduationCap, Link2, Loader2, Save, Unlink } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Form8615 } from "@shared/schema";
+
+interface Form8615Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface Form8615Answers {
+  parentName: string;
+  parentTaxableIncome: string;
+  parentFilingStatus: string;
+  otherChildrenNetUnearnedIncome: string;
+  directlyConnectedDeductions: string;
+  isFullTimeStudent: boolean;
+  earnedIncomeExceedsHalfSupport: boolean;
+}
+
+const PARENT_FILING_STATUSES = [
+  { value: "single", label: "Single" },
+  { value: "married_joint", label: "Married filing jointly" },
+  { value: "married_separate", label: "Married filing separately" },
+  { value: "head_of_household", label: "Head of household" },
+  { value: "qualifying_widow", label: "Qualifying surviving spouse" },
+];
+
+const emptyAnswers: Form8615Answers = {
+  parentName: "",
+  parentTaxableIncome: "",
+  parentFilingStatus: "",
+  otherChildrenNetUnearnedIncome: "",
+  directlyConnectedDeductions: "",
+  isFullTimeStudent: false,
+  earnedIncomeExceedsHalfSupport: false,
+};
+
+export default function Form8615Page() {
+  const { toast } = useToast();
+  const [answers, setAnswers] = useState<Form8615Answers>(emptyAnswers);
+  const [parentLogin, setParentLogin] = useState({ username: "", password: "" });
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: form8615, isLoading } = useQuery<Form8615 | null>({
+    queryKey: ["/api/form8615"],
+  });
+
+  useEffect(() => {
+    if (form8615) {
+      setAnswers({
+        parentName: form8615.parentName || "",
+        parentTaxableIncome: form8615.parentTaxableIncome || "",
+        parentFilingStatus: form8615.parentFilingStatus || "",
+        otherChildrenNetUnearnedIncome: form8615.otherChildrenNetUnearnedIncome || "",
+        directlyConnectedDeductions: form8615.directlyConnectedDeductions || "",
+        isFullTimeStudent: !!form8615.isFullTimeStudent,
+        earnedIncomeExceedsHalfSupport: !!form8615.earnedIncomeExceedsHalfSupport,
+      });
+    }
+  }, [form8615]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/form8615", {
+        parentName: answers.parentName || null,
+        parentTaxableIncome: answers.parentTaxableIncome || null,
+        parentFilingStatus: answers.parentFilingStatus || null,
+        otherChildrenNetUnearnedIncome: answers.otherChildrenNetUnearnedIncome || "0",
+        directlyConnectedDeductions: answers.directlyConnectedDeductions || "0",
+        isFullTimeStudent: answers.isFullTimeStudent,
+        earnedIncomeExceedsHalfSupport: answers.earnedIncomeExceedsHalfSupport,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form8615"] });
+      toast({
+        title: "Form 8615 Saved",
+        description: "Recalculate your taxes to apply the parent's tax rate.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save Form 8615",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/form8615/link-parent", parentLogin);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form8615"] });
+      setParentLogin({ username: "", password: "" });
+      toast({
+        title: "Parent Return Linked",
+        description: "Recalculate your taxes to use the parent's taxable income and filing status.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Link Failed",
+        description: error.message || "Failed to link the parent's return",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/form8615/link-parent");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form8615"] });
+      toast({
+        title: "Parent Return Unlinked",
+        description: "Enter the parent's taxable income and filing status instead.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Unlink Failed",
+        description: error.message || "Failed to unlink the parent's return",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const lines = (form8615?.lines as Form8615Line[] | null) || [];
+  const warnings = (form8615?.warnings as string[] | null) || [];
+  const isLinked = !!form8615?.parentTaxReturnId;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Form 8615</h1>
+          <p className="text-lg text-muted-foreground">
+            Tax for Certain Children Who Have Unearned Income for {currentYear}
+          </p>
+        </div>
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-form-8615"
+        >
+          {saveMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save
+        </Button>
+      </div>
+
+      {form8615 && (lines.length > 0 || warnings.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GraduationCap className="h-5 w-5" />
+              Kiddie Tax
+            </CardTitle>
+            <CardDescription>
+              Line 18 replaces the child's tax on Form 1040 line 16
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {form8615.notRequiredReason ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-not-required-reason">
+                Form 8615 is not required: {form8615.notRequiredReason}
+              </p>
+            ) : (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Net unearned income (line 5):</span>
+                  <span className="font-mono font-semibold">{formatCurrency(form8615.netUnearnedIncome)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Tentative tax at the parent's rate (line 13):</span>
+                  <span className="font-mono font-semibold">{formatCurrency(form8615.tentativeTax)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Tax without Form 8615 (line 17):</span>
+                  <span className="font-mono font-semibold">{formatCurrency(form8615.taxWithoutForm8615)}</span>
+                </div>
+                <div className="flex justify-between pt-2 border-t">
+                  <span className="text-sm font-semibold">Child's tax (line 18):</span>
+                  <span className="font-mono font-bold" data-testid="text-kiddie-tax">{formatCurrency(form8615.tax)}</span>
+                </div>
+              </>
+            )}
+
+            {warnings.map((warning) => (
+              <div key={warning} className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{warning}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Parent's Return</CardTitle>
+          <CardDescription>
+            Link the parent's {currentYear} return on this site, or enter their taxable income and filing status
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLinked ? (
+            <div className="flex items-center justify-between rounded-md border p-4">
+              <p className="text-sm" data-testid="text-linked-parent">
+                Linked to {form8615?.parentName || "the parent"}'s {currentYear} return
+              </p>
+              <Button
+                variant="outline"
+                onClick={() => unlinkMutation.mutate()}
+                disabled={unlinkMutation.isPending}
+                data-testid="button-unlink-parent"
+              >
+                <Unlink className="h-4 w-4 mr-2" />
+                Unlink
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                The parent signs in with their own account to approve the link.
+              </p>
+              <div className="grid gap-4 md:grid-cols-3 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="parentUsername">Parent's username</Label>
+                  <Input
+                    id="parentUsername"
+                    autoComplete="off"
+                    value={parentLogin.username}
+                    onChange={(e) => setParentLogin({ ...parentLogin, username: e.target.value })}
+                    data-testid="input-parent-username"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="parentPassword">Parent's password</Label>
+                  <Input
+                    id="parentPassword"
+                    type="password"
+                    autoComplete="off"
+                    value={parentLogin.password}
+                    onChange={(e) => setParentLogin({ ...parentLogin, password: e.target.value })}
+                    data-testid="input-parent-password"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => linkMutation.mutate()}
+                  disabled={linkMutation.isPending || !parentLogin.username || !parentLogin.password}
+                  data-testid="button-link-parent"
+                >
+                  {linkMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Link2 className="h-4 w-4 mr-2" />
+                  )}
+                  Link Return
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="parentName">Parent's name</Label>
+              <Input
+                id="parentName"
+                value={answers.parentName}
+                onChange={(e) => setAnswers({ ...answers, parentName: e.target.value })}
+                data-testid="input-parent-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="parentTaxableIncome">Parent's taxable income</Label>
+              <Input
+                id="parentTaxableIncome"
+                type="number"
+                step="0.01"
+                min="0"
+                value={answers.parentTaxableIncome}
+                onChange={(e) => setAnswers({ ...answers, parentTaxableIncome: e.target.value })}
+                data-testid="input-parent-taxable-income"
+              />
+              <p className="text-xs text-muted-foreground">Form 1040 line 15 of the parent's return</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Parent's filing status</Label>
+              <Select
+                value={answers.parentFilingStatus}
+                onValueChange={(value) => setAnswers({ ...answers, parentFilingStatus: value })}
+              >
+                <SelectTrigger data-testid="select-parent-filing-status">
+                  <SelectValue placeholder="Select filing status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PARENT_FILING_STATUSES.map((status) => (
+                    <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {isLinked && (
+            <p className="text-xs text-muted-foreground">
+              The linked return is used once it has been calculated; the amounts above are the fallback.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Child's Situation</CardTitle>
+          <CardDescription>
+            Children under 18 are always covered; 18-year-olds and full-time students under 24 are covered unless their earned income was more than half their support
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="isFullTimeStudent"
+              checked={answers.isFullTimeStudent}
+              onCheckedChange={(checked) => setAnswers({ ...answers, isFullTimeStudent: checked as boolean })}
+              data-testid="checkbox-full-time-student"
+            />
+            <Label htmlFor="isFullTimeStudent" className="text-sm">
+              Full-time student during at least 5 months of the year
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="earnedIncomeExceedsHalfSupport"
+              checked={answers.earnedIncomeExceedsHalfSupport}
+              onCheckedChange={(checked) => setAnswers({ ...answers, earnedIncomeExceedsHalfSupport: checked as boolean })}
+              data-testid="checkbox-earned-income-half-support"
+            />
+            <Label htmlFor="earnedIncomeExceedsHalfSupport" className="text-sm">
+              Earned income was more than half of the child's support
+            </Label>
+          </div>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="otherChildrenNetUnearnedIncome">Other children's net unearned income (line 7)</Label>
+              <Input
+                id="otherChildrenNetUnearnedIncome"
+                type="number"
+                step="0.01"
+                min="0"
+                value={answers.otherChildrenNetUnearnedIncome}
+                onChange={(e) => setAnswers({ ...answers, otherChildrenNetUnearnedIncome: e.target.value })}
+                data-testid="input-other-children-unearned-income"
+              />
+              <p className="text-xs text-muted-foreground">Line 5 of each sibling's Form 8615 using the same parent</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="directlyConnectedDeductions">Itemized deductions for unearned income (line 2)</Label>
+              <Input
+                id="directlyConnectedDeductions"
+                type="number"
+                step="0.01"
+                min="0"
+                value={answers.directlyConnectedDeductions}
+                onChange={(e) => setAnswers({ ...answers, directlyConnectedDeductions: e.target.value })}
+                data-testid="input-directly-connected-deductions"
+              />
+              <p className="text-xs text-muted-foreground">Only used when the child itemizes deductions</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Worksheet</CardTitle>
+            <CardDescription>Line-by-line Form 8615 from your last calculation</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {lines.map((line) => (
+                <div
+                  key={line.line}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                >
+                  <p className="text-foreground">
+                    <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                    {line.description}
+                  </p>
+                  <p className="font-mono">
+                    {line.line === "12b" ? line.amount.toFixed(3) : formatCurrency(line.amount.toString())}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
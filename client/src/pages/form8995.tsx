@@ -0,0 +1,498 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Building2, Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { QBI_SOURCE_TYPES, type Form8995, type QbiBusiness, type QbiLossCarryover } from "@shared/schema";
+
+interface Form8995Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface QbiBusinessResult {
+  name: string;
+  sourceType: string;
+  isSpecifiedService: boolean;
+  qualifiedBusinessIncome: number;
+  applicablePercentage: number;
+  netQualifiedBusinessIncome: number;
+  w2Wages: number;
+  ubia: number;
+  wageLimitation: number;
+  qbiComponent: number;
+}
+
+interface BusinessForm {
+  sourceType: string;
+  name: string;
+  ein: string;
+  qualifiedBusinessIncome: string;
+  w2Wages: string;
+  ubia: string;
+  isSpecifiedService: boolean;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  [QBI_SOURCE_TYPES.SCHEDULE_C]: "Sole proprietorship (Schedule C)",
+  [QBI_SOURCE_TYPES.PARTNERSHIP]: "Partnership (K-1)",
+  [QBI_SOURCE_TYPES.S_CORPORATION]: "S corporation (K-1)",
+  [QBI_SOURCE_TYPES.PUBLICLY_TRADED_PARTNERSHIP]: "Publicly traded partnership",
+};
+
+const emptyBusiness: BusinessForm = {
+  sourceType: QBI_SOURCE_TYPES.PARTNERSHIP,
+  name: "",
+  ein: "",
+  qualifiedBusinessIncome: "",
+  w2Wages: "",
+  ubia: "",
+  isSpecifiedService: false,
+};
+
+export default function Form8995Page() {
+  const { toast } = useToast();
+  const [newBusiness, setNewBusiness] = useState<BusinessForm>(emptyBusiness);
+  const [manualLosses, setManualLosses] = useState({ qbiLoss: "", reitPtpLoss: "" });
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: form8995, isLoading } = useQuery<Form8995 | null>({
+    queryKey: ["/api/form8995"],
+  });
+
+  const { data: businesses } = useQuery<QbiBusiness[]>({
+    queryKey: ["/api/qbi-businesses"],
+  });
+
+  const { data: carryovers } = useQuery<QbiLossCarryover[]>({
+    queryKey: ["/api/qbi-loss-carryovers"],
+  });
+
+  // The losses carried into this year are the ones left after the prior year
+  const priorYearCarryover = carryovers?.find((carryover) => carryover.taxYear === currentYear - 1);
+
+  useEffect(() => {
+    if (priorYearCarryover?.isManualEntry) {
+      setManualLosses({
+        qbiLoss: priorYearCarryover.qbiLoss || "",
+        reitPtpLoss: priorYearCarryover.reitPtpLoss || "",
+      });
+    }
+  }, [priorYearCarryover]);
+
+  const addBusinessMutation = useMutation({
+    mutationFn: async () => {
+      const isScheduleC = newBusiness.sourceType === QBI_SOURCE_TYPES.SCHEDULE_C;
+      const isPtp = newBusiness.sourceType === QBI_SOURCE_TYPES.PUBLICLY_TRADED_PARTNERSHIP;
+      const response = await apiRequest("POST", "/api/qbi-businesses", {
+        sourceType: newBusiness.sourceType,
+        name: newBusiness.name,
+        ein: newBusiness.ein || null,
+        // Schedule C income comes from the return's Schedule C
+        qualifiedBusinessIncome: isScheduleC ? null : newBusiness.qualifiedBusinessIncome || "0",
+        w2Wages: isPtp ? "0" : newBusiness.w2Wages || "0",
+        ubia: isPtp ? "0" : newBusiness.ubia || "0",
+        isSpecifiedService: !isPtp && newBusiness.isSpecifiedService,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/qbi-businesses"] });
+      setNewBusiness({ ...emptyBusiness, sourceType: newBusiness.sourceType });
+      toast({
+        title: "Business added",
+        description: "Recalculate your taxes to update the QBI deduction.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add business",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteBusinessMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/qbi-businesses/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/qbi-businesses"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete business",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveCarryoverMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/qbi-loss-carryovers/${currentYear - 1}`, {
+        qbiLoss: manualLosses.qbiLoss || "0",
+        reitPtpLoss: manualLosses.reitPtpLoss || "0",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/qbi-loss-carryovers"] });
+      toast({
+        title: "Carryforward Saved",
+        description: "Recalculate your taxes to apply the carryforward.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save the QBI loss carryforward",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const lines = (form8995?.lines as Form8995Line[] | null) || [];
+  const warnings = (form8995?.warnings as string[] | null) || [];
+  const businessResults = (form8995?.businesses as QbiBusinessResult[] | null) || [];
+  const isScheduleC = newBusiness.sourceType === QBI_SOURCE_TYPES.SCHEDULE_C;
+  const isPtp = newBusiness.sourceType === QBI_SOURCE_TYPES.PUBLICLY_TRADED_PARTNERSHIP;
+  const canAddBusiness = newBusiness.name.trim().length > 0;
+  // Losses computed from last year's return here can't be edited by hand
+  const canEditCarryover = !priorYearCarryover || !!priorYearCarryover.isManualEntry;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-4xl font-bold text-foreground mb-2">Form 8995</h1>
+        <p className="text-lg text-muted-foreground">
+          Qualified Business Income Deduction for {currentYear}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trades, Businesses and PTPs</CardTitle>
+          <CardDescription>
+            Your Schedule C business is included automatically. Add partnerships and S corporations from the
+            Section 199A statement on your K-1, with their W-2 wages and UBIA of qualified property. Section 199A
+            dividends come from your 1099-DIV box 5.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {businesses && businesses.length > 0 ? (
+            <div className="space-y-1">
+              {businesses.map((business) => (
+                <div
+                  key={business.id}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                  data-testid={`row-qbi-business-${business.id}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{SOURCE_LABELS[business.sourceType] || business.sourceType}</Badge>
+                    <span>{business.name}</span>
+                    {business.ein && <span className="font-mono text-muted-foreground">{business.ein}</span>}
+                    {business.isSpecifiedService && <Badge variant="secondary">SSTB</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">
+                      {business.sourceType === QBI_SOURCE_TYPES.SCHEDULE_C
+                        ? "From Schedule C"
+                        : formatCurrency(business.qualifiedBusinessIncome)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteBusinessMutation.mutate(business.id)}
+                      disabled={deleteBusinessMutation.isPending}
+                      data-testid={`button-delete-qbi-business-${business.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No businesses recorded besides your Schedule C.</p>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-3 items-end">
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select
+                value={newBusiness.sourceType}
+                onValueChange={(value) => setNewBusiness({ ...newBusiness, sourceType: value })}
+              >
+                <SelectTrigger data-testid="select-qbi-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qbiName">Name</Label>
+              <Input
+                id="qbiName"
+                value={newBusiness.name}
+                onChange={(e) => setNewBusiness({ ...newBusiness, name: e.target.value })}
+                data-testid="input-qbi-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qbiEin">EIN</Label>
+              <Input
+                id="qbiEin"
+                value={newBusiness.ein}
+                onChange={(e) => setNewBusiness({ ...newBusiness, ein: e.target.value })}
+                placeholder="XX-XXXXXXX"
+                data-testid="input-qbi-ein"
+              />
+            </div>
+            {!isScheduleC && (
+              <div className="space-y-2">
+                <Label htmlFor="qbiIncome">Qualified business income or (loss)</Label>
+                <Input
+                  id="qbiIncome"
+                  type="number"
+                  step="0.01"
+                  value={newBusiness.qualifiedBusinessIncome}
+                  onChange={(e) => setNewBusiness({ ...newBusiness, qualifiedBusinessIncome: e.target.value })}
+                  data-testid="input-qbi-income"
+                />
+              </div>
+            )}
+            {!isPtp && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="qbiW2Wages">W-2 wages</Label>
+                  <Input
+                    id="qbiW2Wages"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={newBusiness.w2Wages}
+                    onChange={(e) => setNewBusiness({ ...newBusiness, w2Wages: e.target.value })}
+                    data-testid="input-qbi-w2-wages"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="qbiUbia">UBIA of qualified property</Label>
+                  <Input
+                    id="qbiUbia"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={newBusiness.ubia}
+                    onChange={(e) => setNewBusiness({ ...newBusiness, ubia: e.target.value })}
+                    data-testid="input-qbi-ubia"
+                  />
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Checkbox
+                    id="qbiSpecifiedService"
+                    checked={newBusiness.isSpecifiedService}
+                    onCheckedChange={(checked) => setNewBusiness({ ...newBusiness, isSpecifiedService: checked as boolean })}
+                    data-testid="checkbox-qbi-specified-service"
+                  />
+                  <Label htmlFor="qbiSpecifiedService" className="text-sm">
+                    Specified service trade or business
+                  </Label>
+                </div>
+              </>
+            )}
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => addBusinessMutation.mutate()}
+            disabled={!canAddBusiness || addBusinessMutation.isPending}
+            data-testid="button-add-qbi-business"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Business
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Loss Carryforward Into {currentYear}</CardTitle>
+          <CardDescription>
+            Net qualified business losses and net REIT dividend or PTP losses carry forward and reduce later years' income.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canEditCarryover ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                If your {currentYear - 1} return was not prepared here, enter the losses from its Form 8995 lines 16 and 17.
+              </p>
+              <div className="grid gap-4 md:grid-cols-3 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="qbiLossCarryforward">Qualified business loss</Label>
+                  <Input
+                    id="qbiLossCarryforward"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={manualLosses.qbiLoss}
+                    onChange={(e) => setManualLosses({ ...manualLosses, qbiLoss: e.target.value })}
+                    placeholder="0.00"
+                    data-testid="input-qbi-loss-carryforward"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reitPtpLossCarryforward">REIT dividend and PTP loss</Label>
+                  <Input
+                    id="reitPtpLossCarryforward"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={manualLosses.reitPtpLoss}
+                    onChange={(e) => setManualLosses({ ...manualLosses, reitPtpLoss: e.target.value })}
+                    placeholder="0.00"
+                    data-testid="input-reit-ptp-loss-carryforward"
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => saveCarryoverMutation.mutate()}
+                  disabled={saveCarryoverMutation.isPending}
+                  data-testid="button-save-qbi-carryforward"
+                >
+                  Save Carryforward
+                </Button>
+              </div>
+            </>
+          ) : parseFloat(priorYearCarryover?.qbiLoss || "0") > 0 || parseFloat(priorYearCarryover?.reitPtpLoss || "0") > 0 ? (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between py-2 border-b text-sm">
+                <span>Qualified business loss from {currentYear - 1}</span>
+                <span className="font-mono">{formatCurrency(priorYearCarryover?.qbiLoss)}</span>
+              </div>
+              <div className="flex items-center justify-between py-2 border-b text-sm">
+                <span>REIT dividend and PTP loss from {currentYear - 1}</span>
+                <span className="font-mono">{formatCurrency(priorYearCarryover?.reitPtpLoss)}</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No loss carryforward from your {currentYear - 1} return.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {form8995 && (lines.length > 0 || warnings.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Qualified Business Income Deduction
+            </CardTitle>
+            <CardDescription>
+              {form8995.formType === "8995-A"
+                ? `Taxable income is above the ${formatCurrency(form8995.threshold)} threshold, so Form 8995-A applies the W-2 wage and UBIA limitation`
+                : "Simplified computation: the deduction goes on Form 1040 line 13"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <p className="text-sm text-muted-foreground">QBI deduction</p>
+                <p className="font-mono font-semibold" data-testid="text-qbi-deduction">
+                  {formatCurrency(form8995.qbiDeduction)}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Qualified business loss to {currentYear + 1}</p>
+                <p className="font-mono">{formatCurrency(form8995.qbiLossCarryforward)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">REIT dividend and PTP loss to {currentYear + 1}</p>
+                <p className="font-mono">{formatCurrency(form8995.reitPtpLossCarryforward)}</p>
+              </div>
+            </div>
+
+            {warnings.map((warning) => (
+              <div key={warning} className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{warning}</span>
+              </div>
+            ))}
+
+            {form8995.formType === "8995-A" && businessResults.length > 0 && (
+              <div className="space-y-1">
+                {businessResults.map((business) => (
+                  <div
+                    key={business.name}
+                    className="flex items-center justify-between py-2 border-b text-sm"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span>{business.name}</span>
+                      {business.isSpecifiedService && (
+                        <Badge variant="secondary">SSTB {Math.round(business.applicablePercentage * 100)}%</Badge>
+                      )}
+                      <span className="text-muted-foreground">
+                        QBI {formatCurrency(business.netQualifiedBusinessIncome.toString())}, wage/UBIA limit {formatCurrency(business.wageLimitation.toString())}
+                      </span>
+                    </div>
+                    <span className="font-mono">{formatCurrency(business.qbiComponent.toString())}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-1">
+              {lines.map((line) => (
+                <div
+                  key={line.line}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                >
+                  <p className="text-foreground">
+                    <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                    {line.description}
+                  </p>
+                  <p className="font-mono">{formatCurrency(line.amount.toString())}</p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
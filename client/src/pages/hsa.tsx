@@ -0,0 +1,448 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, HeartPulse, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { HSA_COVERAGE_TYPES, HSA_OWNERS, type Form8889, type HsaContribution, type UserProfile } from "@shared/schema";
+
+interface Form8889Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface CoverageForm {
+  coverageType: string;
+  monthsCovered: string;
+  qualifiedMedicalExpenses: string;
+}
+
+interface ContributionForm {
+  owner: string;
+  contributionDate: string;
+  amount: string;
+  source: string;
+  description: string;
+}
+
+const OWNER_LABELS: Record<string, string> = {
+  [HSA_OWNERS.TAXPAYER]: "Taxpayer",
+  [HSA_OWNERS.SPOUSE]: "Spouse",
+};
+
+const COVERAGE_LABELS: Record<string, string> = {
+  [HSA_COVERAGE_TYPES.NONE]: "No HDHP coverage",
+  [HSA_COVERAGE_TYPES.SELF_ONLY]: "Self-only",
+  [HSA_COVERAGE_TYPES.FAMILY]: "Family",
+};
+
+const emptyContribution: ContributionForm = {
+  owner: HSA_OWNERS.TAXPAYER,
+  contributionDate: "",
+  amount: "",
+  source: "personal",
+  description: "",
+};
+
+export default function HsaPage() {
+  const { toast } = useToast();
+  const [coverage, setCoverage] = useState<Record<string, CoverageForm>>({});
+  const [newContribution, setNewContribution] = useState<ContributionForm>(emptyContribution);
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: profile } = useQuery<UserProfile | null>({
+    queryKey: ["/api/profile"],
+  });
+
+  const { data: form8889, isLoading } = useQuery<Form8889[]>({
+    queryKey: ["/api/form8889"],
+  });
+
+  const { data: contributions } = useQuery<HsaContribution[]>({
+    queryKey: ["/api/hsa-contributions"],
+  });
+
+  // The spouse only files their own Form 8889 on a joint return
+  const owners = profile?.filingStatus === "married_joint"
+    ? [HSA_OWNERS.TAXPAYER, HSA_OWNERS.SPOUSE]
+    : [HSA_OWNERS.TAXPAYER];
+
+  useEffect(() => {
+    if (form8889) {
+      const next: Record<string, CoverageForm> = {};
+      for (const form of form8889) {
+        next[form.owner] = {
+          coverageType: form.coverageType || HSA_COVERAGE_TYPES.SELF_ONLY,
+          monthsCovered: (form.monthsCovered ?? 12).toString(),
+          qualifiedMedicalExpenses: form.qualifiedMedicalExpenses || "",
+        };
+      }
+      setCoverage(next);
+    }
+  }, [form8889]);
+
+  const coverageFor = (owner: string): CoverageForm =>
+    coverage[owner] || { coverageType: HSA_COVERAGE_TYPES.SELF_ONLY, monthsCovered: "12", qualifiedMedicalExpenses: "" };
+
+  const updateCoverage = (owner: string, field: keyof CoverageForm, value: string) => {
+    setCoverage({ ...coverage, [owner]: { ...coverageFor(owner), [field]: value } });
+  };
+
+  const saveCoverageMutation = useMutation({
+    mutationFn: async () => {
+      for (const owner of owners) {
+        const form = coverageFor(owner);
+        await apiRequest("PUT", "/api/form8889/coverage", {
+          owner,
+          coverageType: form.coverageType,
+          monthsCovered: Math.min(12, Math.max(0, parseInt(form.monthsCovered) || 0)),
+          qualifiedMedicalExpenses: form.qualifiedMedicalExpenses || null,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form8889"] });
+      toast({
+        title: "HSA Coverage Saved",
+        description: "Recalculate your taxes to update Form 8889.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save HSA coverage",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addContributionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/hsa-contributions", {
+        ...newContribution,
+        description: newContribution.description || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/hsa-contributions"] });
+      setNewContribution({ ...emptyContribution, owner: newContribution.owner });
+      toast({ title: "Contribution added" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add contribution",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteContributionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/hsa-contributions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/hsa-contributions"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete contribution",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const canAddContribution = !!newContribution.contributionDate && parseFloat(newContribution.amount) > 0;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Form 8889</h1>
+          <p className="text-lg text-muted-foreground">
+            Health Savings Accounts for {currentYear}
+          </p>
+        </div>
+        <Button
+          onClick={() => saveCoverageMutation.mutate()}
+          disabled={saveCoverageMutation.isPending}
+          data-testid="button-save-form-8889"
+        >
+          {saveCoverageMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>HDHP Coverage</CardTitle>
+          <CardDescription>
+            Your high-deductible health plan coverage sets the contribution limit on line 3
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {owners.map((owner) => {
+            const form = coverageFor(owner);
+            return (
+              <div key={owner} className="space-y-4">
+                {owners.length > 1 && <p className="text-sm font-semibold">{OWNER_LABELS[owner]}</p>}
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label>Coverage type (line 1)</Label>
+                    <Select
+                      value={form.coverageType}
+                      onValueChange={(value) => updateCoverage(owner, "coverageType", value)}
+                    >
+                      <SelectTrigger data-testid={`select-coverage-${owner}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(HSA_COVERAGE_TYPES).map((type) => (
+                          <SelectItem key={type} value={type}>{COVERAGE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`months-${owner}`}>Months covered</Label>
+                    <Input
+                      id={`months-${owner}`}
+                      type="number"
+                      min="0"
+                      max="12"
+                      value={form.monthsCovered}
+                      onChange={(e) => updateCoverage(owner, "monthsCovered", e.target.value)}
+                      data-testid={`input-months-${owner}`}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`medical-${owner}`}>Qualified medical expenses (line 15)</Label>
+                    <Input
+                      id={`medical-${owner}`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={form.qualifiedMedicalExpenses}
+                      onChange={(e) => updateCoverage(owner, "qualifiedMedicalExpenses", e.target.value)}
+                      data-testid={`input-medical-${owner}`}
+                    />
+                    <p className="text-xs text-muted-foreground">Paid from the HSA and not reimbursed elsewhere</p>
+                    {!form.qualifiedMedicalExpenses && parseFloat(form8889?.find((saved) => saved.owner === owner)?.totalDistributions || "0") > 0 && (
+                      <p className="text-xs text-destructive" data-testid={`text-medical-required-${owner}`}>
+                        Required: your Form 1099-SA distributions aren't taxed until you enter this (0 if none were medical)
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Contributions</CardTitle>
+          <CardDescription>
+            When present, these replace Form 5498-SA for line 2. Contributions made by April 15 for {currentYear} count toward {currentYear}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {contributions && contributions.length > 0 ? (
+            <div className="space-y-1">
+              {contributions.map((contribution) => (
+                <div
+                  key={contribution.id}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                  data-testid={`row-hsa-contribution-${contribution.id}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-muted-foreground">{contribution.contributionDate}</span>
+                    <Badge variant="outline">{contribution.source === "employer" ? "Employer" : "Personal"}</Badge>
+                    {owners.length > 1 && <Badge variant="secondary">{OWNER_LABELS[contribution.owner]}</Badge>}
+                    {contribution.description && <span>{contribution.description}</span>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">{formatCurrency(contribution.amount)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteContributionMutation.mutate(contribution.id)}
+                      disabled={deleteContributionMutation.isPending}
+                      data-testid={`button-delete-hsa-contribution-${contribution.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No contributions recorded. Form 5498-SA box 2 is used instead.
+            </p>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-5 items-end">
+            {owners.length > 1 && (
+              <div className="space-y-2">
+                <Label>Account owner</Label>
+                <Select
+                  value={newContribution.owner}
+                  onValueChange={(value) => setNewContribution({ ...newContribution, owner: value })}
+                >
+                  <SelectTrigger data-testid="select-contribution-owner">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {owners.map((owner) => (
+                      <SelectItem key={owner} value={owner}>{OWNER_LABELS[owner]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="contributionDate">Date</Label>
+              <Input
+                id="contributionDate"
+                type="date"
+                value={newContribution.contributionDate}
+                onChange={(e) => setNewContribution({ ...newContribution, contributionDate: e.target.value })}
+                data-testid="input-contribution-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contributionAmount">Amount</Label>
+              <Input
+                id="contributionAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={newContribution.amount}
+                onChange={(e) => setNewContribution({ ...newContribution, amount: e.target.value })}
+                data-testid="input-contribution-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select
+                value={newContribution.source}
+                onValueChange={(value) => setNewContribution({ ...newContribution, source: value })}
+              >
+                <SelectTrigger data-testid="select-contribution-source">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="personal">Personal</SelectItem>
+                  <SelectItem value="employer">Employer (not on W-2)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contributionDescription">Description</Label>
+              <Input
+                id="contributionDescription"
+                value={newContribution.description}
+                onChange={(e) => setNewContribution({ ...newContribution, description: e.target.value })}
+                data-testid="input-contribution-description"
+              />
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => addContributionMutation.mutate()}
+            disabled={!canAddContribution || addContributionMutation.isPending}
+            data-testid="button-add-hsa-contribution"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Contribution
+          </Button>
+        </CardContent>
+      </Card>
+
+      {form8889?.filter((form) => owners.includes(form.owner as typeof owners[number])).map((form) => {
+        const lines = (form.lines as Form8889Line[] | null) || [];
+        const warnings = (form.warnings as string[] | null) || [];
+        if (lines.length === 0) return null;
+        return (
+          <Card key={form.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <HeartPulse className="h-5 w-5" />
+                Worksheet{owners.length > 1 ? ` - ${OWNER_LABELS[form.owner]}` : ""}
+              </CardTitle>
+              <CardDescription>
+                Line 13 flows to Schedule 1 line 13 and line 16 to Schedule 1 line 8f
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-1">
+                {lines.map((line) => (
+                  <div
+                    key={line.line}
+                    className="flex items-center justify-between py-2 border-b text-sm"
+                  >
+                    <p className="text-foreground">
+                      <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                      {line.description}
+                    </p>
+                    <p className="font-mono">{formatCurrency(line.amount.toString())}</p>
+                  </div>
+                ))}
+              </div>
+              {parseFloat(form.excessContributionTax || "0") > 0 && (
+                <div className="flex justify-between pt-4">
+                  <span className="text-sm font-semibold">
+                    6% tax on {formatCurrency(form.excessContributions)} of excess contributions (Form 5329):
+                  </span>
+                  <span className="font-mono font-bold text-destructive">{formatCurrency(form.excessContributionTax)}</span>
+                </div>
+              )}
+              {warnings.map((warning) => (
+                <div key={warning} className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 mt-4 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>{warning}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
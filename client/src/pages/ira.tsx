@@ -0,0 +1,561 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Loader2, PiggyBank, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { HSA_OWNERS, IRA_ACCOUNT_TYPES, type Form8606, type Form8880, type IraContribution, type UserProfile } from "@shared/schema";
+
+interface FormLine {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+interface EntryForm {
+  coveredByWorkplacePlan: string; // "w2", "yes" or "no"
+  fullTimeStudent: boolean;
+  priorYearBasis: string;
+  yearEndValue: string;
+  distributions: string;
+  rothConversions: string;
+}
+
+interface ContributionForm {
+  owner: string;
+  accountType: string;
+  contributionDate: string;
+  amount: string;
+  description: string;
+}
+
+const OWNER_LABELS: Record<string, string> = {
+  [HSA_OWNERS.TAXPAYER]: "Taxpayer",
+  [HSA_OWNERS.SPOUSE]: "Spouse",
+};
+
+const ACCOUNT_TYPE_LABELS: Record<string, string> = {
+  [IRA_ACCOUNT_TYPES.TRADITIONAL]: "Traditional",
+  [IRA_ACCOUNT_TYPES.ROTH]: "Roth",
+};
+
+// Form 8606 line 10 and Form 8880 line 9 are ratios, not dollar amounts
+const FORM_8606_RATIO_LINES = ["10"];
+const FORM_8880_RATE_LINES = ["9"];
+
+const emptyEntry: EntryForm = {
+  coveredByWorkplacePlan: "w2",
+  fullTimeStudent: false,
+  priorYearBasis: "",
+  yearEndValue: "",
+  distributions: "",
+  rothConversions: "",
+};
+
+const emptyContribution: ContributionForm = {
+  owner: HSA_OWNERS.TAXPAYER,
+  accountType: IRA_ACCOUNT_TYPES.TRADITIONAL,
+  contributionDate: "",
+  amount: "",
+  description: "",
+};
+
+export default function IraPage() {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<Record<string, EntryForm>>({});
+  const [newContribution, setNewContribution] = useState<ContributionForm>(emptyContribution);
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: profile } = useQuery<UserProfile | null>({
+    queryKey: ["/api/profile"],
+  });
+
+  const { data: form8606, isLoading } = useQuery<Form8606[]>({
+    queryKey: ["/api/form8606"],
+  });
+
+  const { data: form8880 } = useQuery<Form8880 | null>({
+    queryKey: ["/api/form8880"],
+  });
+
+  const { data: contributions } = useQuery<IraContribution[]>({
+    queryKey: ["/api/ira-contributions"],
+  });
+
+  // The spouse only has their own Form 8606 on a joint return
+  const owners = profile?.filingStatus === "married_joint"
+    ? [HSA_OWNERS.TAXPAYER, HSA_OWNERS.SPOUSE]
+    : [HSA_OWNERS.TAXPAYER];
+
+  useEffect(() => {
+    if (form8606) {
+      const next: Record<string, EntryForm> = {};
+      for (const form of form8606) {
+        next[form.owner] = {
+          coveredByWorkplacePlan: form.coveredByWorkplacePlan === null ? "w2" : form.coveredByWorkplacePlan ? "yes" : "no",
+          fullTimeStudent: !!form.fullTimeStudent,
+          priorYearBasis: form.priorYearBasis || "",
+          yearEndValue: form.yearEndValue || "",
+          distributions: form.distributions || "",
+          rothConversions: form.rothConversions || "",
+        };
+      }
+      setEntries(next);
+    }
+  }, [form8606]);
+
+  const entryFor = (owner: string): EntryForm => entries[owner] || emptyEntry;
+
+  const updateEntry = <K extends keyof EntryForm>(owner: string, field: K, value: EntryForm[K]) => {
+    setEntries({ ...entries, [owner]: { ...entryFor(owner), [field]: value } });
+  };
+
+  const saveEntriesMutation = useMutation({
+    mutationFn: async () => {
+      for (const owner of owners) {
+        const entry = entryFor(owner);
+        await apiRequest("PUT", "/api/form8606/entries", {
+          owner,
+          coveredByWorkplacePlan: entry.coveredByWorkplacePlan === "w2" ? null : entry.coveredByWorkplacePlan === "yes",
+          fullTimeStudent: entry.fullTimeStudent,
+          priorYearBasis: entry.priorYearBasis || null,
+          yearEndValue: entry.yearEndValue || "0",
+          distributions: entry.distributions || "0",
+          rothConversions: entry.rothConversions || "0",
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/form8606"] });
+      toast({
+        title: "IRA Details Saved",
+        description: "Recalculate your taxes to update Form 8606 and the Saver's Credit.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save IRA details",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addContributionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ira-contributions", {
+        ...newContribution,
+        description: newContribution.description || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ira-contributions"] });
+      setNewContribution({ ...emptyContribution, owner: newContribution.owner, accountType: newContribution.accountType });
+      toast({ title: "Contribution added" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to add contribution",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteContributionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/ira-contributions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ira-contributions"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to delete contribution",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const canAddContribution = !!newContribution.contributionDate && parseFloat(newContribution.amount) > 0;
+  const form8880Lines = (form8880?.lines as FormLine[] | null) || [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Form 8606</h1>
+          <p className="text-lg text-muted-foreground">
+            IRA Contributions and the Saver's Credit for {currentYear}
+          </p>
+        </div>
+        <Button
+          onClick={() => saveEntriesMutation.mutate()}
+          disabled={saveEntriesMutation.isPending}
+          data-testid="button-save-form-8606"
+        >
+          {saveEntriesMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Contributions</CardTitle>
+          <CardDescription>
+            Traditional and Roth IRA contributions for {currentYear}, including those made by April 15, {currentYear + 1}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {contributions && contributions.length > 0 ? (
+            <div className="space-y-1">
+              {contributions.map((contribution) => (
+                <div
+                  key={contribution.id}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                  data-testid={`row-ira-contribution-${contribution.id}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-muted-foreground">{contribution.contributionDate}</span>
+                    <Badge variant="outline">{ACCOUNT_TYPE_LABELS[contribution.accountType]}</Badge>
+                    {owners.length > 1 && <Badge variant="secondary">{OWNER_LABELS[contribution.owner]}</Badge>}
+                    {contribution.description && <span>{contribution.description}</span>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">{formatCurrency(contribution.amount)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteContributionMutation.mutate(contribution.id)}
+                      disabled={deleteContributionMutation.isPending}
+                      data-testid={`button-delete-ira-contribution-${contribution.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No IRA contributions recorded.</p>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-5 items-end">
+            {owners.length > 1 && (
+              <div className="space-y-2">
+                <Label>Account owner</Label>
+                <Select
+                  value={newContribution.owner}
+                  onValueChange={(value) => setNewContribution({ ...newContribution, owner: value })}
+                >
+                  <SelectTrigger data-testid="select-ira-contribution-owner">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {owners.map((owner) => (
+                      <SelectItem key={owner} value={owner}>{OWNER_LABELS[owner]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Account type</Label>
+              <Select
+                value={newContribution.accountType}
+                onValueChange={(value) => setNewContribution({ ...newContribution, accountType: value })}
+              >
+                <SelectTrigger data-testid="select-ira-account-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(IRA_ACCOUNT_TYPES).map((type) => (
+                    <SelectItem key={type} value={type}>{ACCOUNT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="iraContributionDate">Date</Label>
+              <Input
+                id="iraContributionDate"
+                type="date"
+                value={newContribution.contributionDate}
+                onChange={(e) => setNewContribution({ ...newContribution, contributionDate: e.target.value })}
+                data-testid="input-ira-contribution-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="iraContributionAmount">Amount</Label>
+              <Input
+                id="iraContributionAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={newContribution.amount}
+                onChange={(e) => setNewContribution({ ...newContribution, amount: e.target.value })}
+                data-testid="input-ira-contribution-amount"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="iraContributionDescription">Description</Label>
+              <Input
+                id="iraContributionDescription"
+                value={newContribution.description}
+                onChange={(e) => setNewContribution({ ...newContribution, description: e.target.value })}
+                data-testid="input-ira-contribution-description"
+              />
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => addContributionMutation.mutate()}
+            disabled={!canAddContribution || addContributionMutation.isPending}
+            data-testid="button-add-ira-contribution"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Contribution
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>IRA Details</CardTitle>
+          <CardDescription>
+            Workplace plan coverage sets the deduction phase-out. Basis, year-end value, distributions and conversions complete Form 8606 Part I.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {owners.map((owner) => {
+            const entry = entryFor(owner);
+            return (
+              <div key={owner} className="space-y-4">
+                {owners.length > 1 && <p className="text-sm font-semibold">{OWNER_LABELS[owner]}</p>}
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="space-y-2">
+                    <Label>Covered by a workplace retirement plan</Label>
+                    <Select
+                      value={entry.coveredByWorkplacePlan}
+                      onValueChange={(value) => updateEntry(owner, "coveredByWorkplacePlan", value)}
+                    >
+                      <SelectTrigger data-testid={`select-covered-${owner}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="w2">{owner === HSA_OWNERS.TAXPAYER ? "Use W-2 box 13" : "No (default)"}</SelectItem>
+                        <SelectItem value="yes">Yes</SelectItem>
+                        <SelectItem value="no">No</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`basis-${owner}`}>Basis from prior years (line 2)</Label>
+                    <Input
+                      id={`basis-${owner}`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={entry.priorYearBasis}
+                      onChange={(e) => updateEntry(owner, "priorYearBasis", e.target.value)}
+                      data-testid={`input-basis-${owner}`}
+                    />
+                    <p className="text-xs text-muted-foreground">Used when last year's Form 8606 wasn't prepared here</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`value-${owner}`}>Traditional IRA value on Dec 31 (line 6)</Label>
+                    <Input
+                      id={`value-${owner}`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={entry.yearEndValue}
+                      onChange={(e) => updateEntry(owner, "yearEndValue", e.target.value)}
+                      data-testid={`input-year-end-value-${owner}`}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`distributions-${owner}`}>Distributions (line 7)</Label>
+                    <Input
+                      id={`distributions-${owner}`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={entry.distributions}
+                      onChange={(e) => updateEntry(owner, "distributions", e.target.value)}
+                      data-testid={`input-distributions-${owner}`}
+                    />
+                    <p className="text-xs text-muted-foreground">Not rolled over or converted</p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`conversions-${owner}`}>Converted to Roth (line 8)</Label>
+                    <Input
+                      id={`conversions-${owner}`}
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={entry.rothConversions}
+                      onChange={(e) => updateEntry(owner, "rothConversions", e.target.value)}
+                      data-testid={`input-conversions-${owner}`}
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2 pt-6">
+                    <Checkbox
+                      id={`student-${owner}`}
+                      checked={entry.fullTimeStudent}
+                      onCheckedChange={(checked) => updateEntry(owner, "fullTimeStudent", checked as boolean)}
+                      data-testid={`checkbox-student-${owner}`}
+                    />
+                    <Label htmlFor={`student-${owner}`} className="text-sm">
+                      Full-time student in {currentYear}
+                    </Label>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {form8606?.filter((form) => owners.includes(form.owner as typeof owners[number])).map((form) => {
+        const lines = (form.lines as FormLine[] | null) || [];
+        const warnings = (form.warnings as string[] | null) || [];
+        if (lines.length === 0) return null;
+        return (
+          <Card key={form.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <PiggyBank className="h-5 w-5" />
+                IRA Deduction and Form 8606{owners.length > 1 ? ` - ${OWNER_LABELS[form.owner]}` : ""}
+              </CardTitle>
+              <CardDescription>
+                The deduction flows to Schedule 1 line 20 and line 13 is taken out of Form 1040 line 4b
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <div>
+                  <p className="text-sm text-muted-foreground">Contribution limit</p>
+                  <p className="font-mono">{formatCurrency(form.contributionLimit)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Deduction limit after phase-out</p>
+                  <p className="font-mono">{formatCurrency(form.deductionLimit)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">IRA deduction</p>
+                  <p className="font-mono font-semibold" data-testid={`text-ira-deduction-${form.owner}`}>
+                    {formatCurrency(form.iraDeduction)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Traditional / Roth contributions</p>
+                  <p className="font-mono">
+                    {formatCurrency(form.traditionalContributions)} / {formatCurrency(form.rothContributions)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Roth contributions allowed</p>
+                  <p className="font-mono">{formatCurrency(form.rothLimit)}</p>
+                </div>
+              </div>
+
+              {warnings.map((warning) => (
+                <div key={warning} className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>{warning}</span>
+                </div>
+              ))}
+
+              <div className="space-y-1">
+                {lines.map((line) => (
+                  <div
+                    key={line.line}
+                    className="flex items-center justify-between py-2 border-b text-sm"
+                  >
+                    <p className="text-foreground">
+                      <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                      {line.description}
+                    </p>
+                    <p className="font-mono">
+                      {FORM_8606_RATIO_LINES.includes(line.line) ? line.amount.toFixed(3) : formatCurrency(line.amount.toString())}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {form8880 && form8880Lines.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Form 8880 - Saver's Credit</CardTitle>
+            <CardDescription>
+              IRA contributions and W-2 elective deferrals earn a 50%, 20% or 10% credit depending on AGI (Schedule 3 line 4)
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {form8880Lines.map((line) => (
+                <div
+                  key={line.line}
+                  className="flex items-center justify-between py-2 border-b text-sm"
+                >
+                  <p className="text-foreground">
+                    <span className="font-mono text-muted-foreground mr-2">{line.line}.</span>
+                    {line.description}
+                  </p>
+                  <p className="font-mono">
+                    {FORM_8880_RATE_LINES.includes(line.line) ? `${Math.round(line.amount * 100)}%` : formatCurrency(line.amount.toString())}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between pt-4">
+              <span className="text-sm font-semibold">Saver's Credit:</span>
+              <span className="font-mono font-bold" data-testid="text-form8880-credit">
+                {formatCurrency(form8880.retirementSavingsCredit)}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -4,12 +4,14 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { FileText, Loader2, AlertCircle, Edit2, Save, X } from "lucide-react";
 import { useState, useCallback, useMemo } from "react";
 import { toast } from "@/hooks/use-toast";
 import Form1099BTable from "@/components/Form1099BTable";
 import ManualEntryForm from "@/components/ManualEntryForm";
-import type { Document, W2Data, Form1099Div, Form1099Int, Form1099B, Form1099BEntry } from "@shared/schema";
+import W2CodeAmountList from "@/components/W2CodeAmountList";
+import type { Document, W2Data, W2CodeAmount, Form1099Div, Form1099Int, Form1099B, Form1099BEntry, Form1099Misc, Form1099Nec, Form1099R, Form1098, Form1098T, Form1098E, Form1099Sa, Form5498Sa, FormSsa1099, Form1099G, Form1095A } from "@shared/schema";
 
 export default function Review() {
   const queryClient = useQueryClient();
@@ -41,6 +43,50 @@ export default function Review() {
     queryKey: ["/api/1099-b-entries"],
   });
 
+  const { data: misc1099Data } = useQuery<Form1099Misc[]>({
+    queryKey: ["/api/1099-misc-data"],
+  });
+
+  const { data: nec1099Data } = useQuery<Form1099Nec[]>({
+    queryKey: ["/api/1099-nec-data"],
+  });
+
+  const { data: r1099Data } = useQuery<Form1099R[]>({
+    queryKey: ["/api/1099-r-data"],
+  });
+
+  const { data: form1098TData } = useQuery<Form1098T[]>({
+    queryKey: ["/api/1098-t-data"],
+  });
+
+  const { data: form1098EData } = useQuery<Form1098E[]>({
+    queryKey: ["/api/1098-e-data"],
+  });
+
+  const { data: form1099SaData } = useQuery<Form1099Sa[]>({
+    queryKey: ["/api/1099-sa-data"],
+  });
+
+  const { data: form5498SaData } = useQuery<Form5498Sa[]>({
+    queryKey: ["/api/5498-sa-data"],
+  });
+
+  const { data: formSsa1099Data } = useQuery<FormSsa1099[]>({
+    queryKey: ["/api/ssa-1099-data"],
+  });
+
+  const { data: form1099GData } = useQuery<Form1099G[]>({
+    queryKey: ["/api/1099-g-data"],
+  });
+
+  const { data: form1095AData } = useQuery<Form1095A[]>({
+    queryKey: ["/api/1095-a-data"],
+  });
+
+  const { data: form1098Data } = useQuery<Form1098[]>({
+    queryKey: ["/api/1098-data"],
+  });
+
   // Batch update mutations for each document type
   const batchUpdateW2Mutation = useMutation({
     mutationFn: async (updates: Array<{ id: string; data: Partial<W2Data> }>) => {
@@ -111,6 +157,259 @@ export default function Review() {
     },
   });
 
+  const batchUpdate1099MiscMutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form1099Misc> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/1099-misc-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 1099-MISC data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/1099-misc-data"] });
+      toast({ title: "1099-MISC data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 1099-MISC data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdate1099NecMutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form1099Nec> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/1099-nec-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 1099-NEC data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/1099-nec-data"] });
+      toast({ title: "1099-NEC data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 1099-NEC data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdate1099RMutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form1099R> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/1099-r-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 1099-R data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/1099-r-data"] });
+      toast({ title: "1099-R data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 1099-R data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdate1098TMutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form1098T> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/1098-t-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 1098-T data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/1098-t-data"] });
+      toast({ title: "1098-T data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 1098-T data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdate1098EMutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form1098E> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/1098-e-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 1098-E data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/1098-e-data"] });
+      toast({ title: "1098-E data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 1098-E data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdate1099SaMutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form1099Sa> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/1099-sa-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 1099-SA data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/1099-sa-data"] });
+      toast({ title: "1099-SA data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 1099-SA data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdate5498SaMutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form5498Sa> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/5498-sa-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 5498-SA data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/5498-sa-data"] });
+      toast({ title: "5498-SA data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 5498-SA data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdateSsa1099Mutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<FormSsa1099> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/ssa-1099-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update SSA-1099 data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ssa-1099-data"] });
+      toast({ title: "SSA-1099 data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update SSA-1099 data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdate1099GMutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form1099G> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/1099-g-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 1099-G data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/1099-g-data"] });
+      toast({ title: "1099-G data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 1099-G data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdate1095AMutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form1095A> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/1095-a-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 1095-A data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/1095-a-data"] });
+      toast({ title: "1095-A data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 1095-A data", variant: "destructive" });
+    },
+  });
+
+  const batchUpdate1098Mutation = useMutation({
+    mutationFn: async (updates: Array<{ id: string; data: Partial<Form1098> }>) => {
+      const token = localStorage.getItem('token');
+      const response = await fetch(`/api/1098-data/batch`, {
+        method: 'PUT',
+        headers: { 
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ updates }),
+      });
+      if (!response.ok) throw new Error('Failed to update 1098 data');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/1098-data"] });
+      toast({ title: "1098 data updated successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to update 1098 data", variant: "destructive" });
+    },
+  });
+
   const batchUpdate1099BMutation = useMutation({
     mutationFn: async (updates: Array<{ id: string; data: Partial<Form1099B> }>) => {
       const token = localStorage.getItem('token');
@@ -313,7 +612,7 @@ export default function Review() {
       Object.keys(item).forEach((key) => {
         if (key !== 'id' && key !== 'documentId' && key !== 'documentName') {
           const fieldKey = `${tabName}-${item.id}-${key}`;
-          initialValues[fieldKey] = item[key] || "";
+          initialValues[fieldKey] = typeof item[key] === "boolean" ? item[key] : item[key] || "";
         }
       });
     });
@@ -348,7 +647,7 @@ export default function Review() {
           let documentId: string;
           let fieldName: string;
           
-          if (tabName === '1099-div' || tabName === '1099-int' || tabName === '1099-b') {
+          if (tabName === '1099-div' || tabName === '1099-int' || tabName === '1099-b' || tabName === '1095-a' || tabName === '1099-g' || tabName === 'ssa-1099' || tabName === '5498-sa' || tabName === '1099-sa' || tabName === '1098-e' || tabName === '1098-t' || tabName === '1099-misc' || tabName === '1099-nec' || tabName === '1099-r' || tabName === '1098') {
             // For patterns like "1099-div-{uuid}-fieldName"
             // Remove the tab prefix first, then split by the first occurrence of the UUID pattern
             const withoutPrefix = fieldKey.substring(`${tabName}-`.length);
@@ -418,6 +717,39 @@ export default function Review() {
           case '1099-b':
             await batchUpdate1099BMutation.mutateAsync(batchUpdates);
             break;
+          case '1099-misc':
+            await batchUpdate1099MiscMutation.mutateAsync(batchUpdates);
+            break;
+          case '1099-nec':
+            await batchUpdate1099NecMutation.mutateAsync(batchUpdates);
+            break;
+          case '1099-r':
+            await batchUpdate1099RMutation.mutateAsync(batchUpdates);
+            break;
+          case '1098-t':
+            await batchUpdate1098TMutation.mutateAsync(batchUpdates);
+            break;
+          case '1098-e':
+            await batchUpdate1098EMutation.mutateAsync(batchUpdates);
+            break;
+          case '1099-sa':
+            await batchUpdate1099SaMutation.mutateAsync(batchUpdates);
+            break;
+          case '5498-sa':
+            await batchUpdate5498SaMutation.mutateAsync(batchUpdates);
+            break;
+          case 'ssa-1099':
+            await batchUpdateSsa1099Mutation.mutateAsync(batchUpdates);
+            break;
+          case '1099-g':
+            await batchUpdate1099GMutation.mutateAsync(batchUpdates);
+            break;
+          case '1095-a':
+            await batchUpdate1095AMutation.mutateAsync(batchUpdates);
+            break;
+          case '1098':
+            await batchUpdate1098Mutation.mutateAsync(batchUpdates);
+            break;
         }
       }
       
@@ -438,7 +770,7 @@ export default function Review() {
       console.error('Failed to save tab edits:', error);
       toast({ title: "Failed to save changes", variant: "destructive" });
     }
-  }, [editValues, batchUpdateW2Mutation, batchUpdate1099DivMutation, batchUpdate1099IntMutation, batchUpdate1099BMutation]);
+  }, [editValues, batchUpdateW2Mutation, batchUpdate1099DivMutation, batchUpdate1099IntMutation, batchUpdate1099BMutation, batchUpdate1099MiscMutation, batchUpdate1099NecMutation, batchUpdate1099RMutation, batchUpdate1098TMutation, batchUpdate1098EMutation, batchUpdate1099SaMutation, batchUpdate5498SaMutation, batchUpdateSsa1099Mutation, batchUpdate1099GMutation, batchUpdate1095AMutation, batchUpdate1098Mutation]);
 
   // Editable field component
   const EditableField = useCallback(({ 
@@ -473,7 +805,7 @@ export default function Review() {
       }));
     }, [fieldKey]);
 
-    const isPending = batchUpdateW2Mutation.isPending || batchUpdate1099DivMutation.isPending || batchUpdate1099IntMutation.isPending || batchUpdate1099BMutation.isPending;
+    const isPending = batchUpdateW2Mutation.isPending || batchUpdate1099DivMutation.isPending || batchUpdate1099IntMutation.isPending || batchUpdate1099BMutation.isPending || batchUpdate1099MiscMutation.isPending || batchUpdate1099NecMutation.isPending || batchUpdate1099RMutation.isPending || batchUpdate1098TMutation.isPending || batchUpdate1098EMutation.isPending || batchUpdate1099SaMutation.isPending || batchUpdate5498SaMutation.isPending || batchUpdateSsa1099Mutation.isPending || batchUpdate1099GMutation.isPending || batchUpdate1095AMutation.isPending || batchUpdate1098Mutation.isPending;
 
     if (isTabEditing) {
       return (
@@ -500,7 +832,7 @@ export default function Review() {
         </p>
       </div>
     );
-  }, [isEditingTab, editValues, batchUpdateW2Mutation.isPending, batchUpdate1099DivMutation.isPending, batchUpdate1099IntMutation.isPending, batchUpdate1099BMutation.isPending]);
+  }, [isEditingTab, editValues, batchUpdateW2Mutation.isPending, batchUpdate1099DivMutation.isPending, batchUpdate1099IntMutation.isPending, batchUpdate1099BMutation.isPending, batchUpdate1099MiscMutation.isPending, batchUpdate1099NecMutation.isPending, batchUpdate1099RMutation.isPending, batchUpdate1098TMutation.isPending, batchUpdate1098EMutation.isPending, batchUpdate1099SaMutation.isPending, batchUpdate5498SaMutation.isPending, batchUpdateSsa1099Mutation.isPending, batchUpdate1099GMutation.isPending, batchUpdate1095AMutation.isPending, batchUpdate1098Mutation.isPending]);
 
   // Handler functions for 1099-B entries table
   const handleAdd1099BEntry = useCallback((form1099BId: string, data: Omit<Form1099BEntry, "id" | "form1099BId">) => {
@@ -574,7 +906,7 @@ export default function Review() {
       </div>
 
       <Tabs defaultValue="w2" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-15">
           <TabsTrigger value="w2" data-testid="tab-w2">
             W-2 Forms ({w2Data?.length || 0})
           </TabsTrigger>
@@ -587,6 +919,39 @@ export default function Review() {
           <TabsTrigger value="1099-b" data-testid="tab-1099-b">
             1099-B ({b1099Data?.length || 0})
           </TabsTrigger>
+          <TabsTrigger value="1099-misc" data-testid="tab-1099-misc">
+            1099-MISC ({misc1099Data?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="1099-nec" data-testid="tab-1099-nec">
+            1099-NEC ({nec1099Data?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="1099-r" data-testid="tab-1099-r">
+            1099-R ({r1099Data?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="1098-t" data-testid="tab-1098-t">
+            1098-T ({form1098TData?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="1098-e" data-testid="tab-1098-e">
+            1098-E ({form1098EData?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="1099-sa" data-testid="tab-1099-sa">
+            1099-SA ({form1099SaData?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="5498-sa" data-testid="tab-5498-sa">
+            5498-SA ({form5498SaData?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="ssa-1099" data-testid="tab-ssa-1099">
+            SSA-1099 ({formSsa1099Data?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="1099-g" data-testid="tab-1099-g">
+            1099-G ({form1099GData?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="1095-a" data-testid="tab-1095-a">
+            1095-A ({form1095AData?.length || 0})
+          </TabsTrigger>
+          <TabsTrigger value="1098" data-testid="tab-1098">
+            1098 ({form1098Data?.length || 0})
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="w2" className="space-y-4">
@@ -690,6 +1055,16 @@ export default function Review() {
                         type="currency"
                         tabName="w2"
                       />
+                      <EditableField
+                        fieldKey={`w2-${w2.id}-owner`}
+                        documentId={w2.id}
+                        documentType="w2"
+                        fieldName="owner"
+                        value={w2.owner}
+                        label="Employee (taxpayer or spouse)"
+                        type="text"
+                        tabName="w2"
+                      />
                     </div>
                     <div className="space-y-4">
                       <EditableField
@@ -724,6 +1099,69 @@ export default function Review() {
                       />
                     </div>
                   </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6 pt-6 border-t">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`w2-${w2.id}-dependentCareBenefits`}
+                        documentId={w2.id}
+                        documentType="w2"
+                        fieldName="dependentCareBenefits"
+                        value={w2.dependentCareBenefits}
+                        label="Dependent Care Benefits (Box 10)"
+                        type="currency"
+                        tabName="w2"
+                      />
+                      <div className="space-y-2">
+                        <p className="text-xs text-muted-foreground mb-1">Box 13</p>
+                        {isEditingTab['w2'] ? (
+                          ([
+                            ["statutoryEmployee", "Statutory employee"],
+                            ["retirementPlan", "Retirement plan"],
+                            ["thirdPartySickPay", "Third-party sick pay"],
+                          ] as const).map(([field, fieldLabel]) => (
+                            <label key={field} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={!!editValues[`w2-${w2.id}-${field}`]}
+                                onCheckedChange={(checked) => setEditValues(prev => ({
+                                  ...prev,
+                                  [`w2-${w2.id}-${field}`]: checked === true,
+                                }))}
+                                data-testid={`checkbox-w2-${field}-${w2.id}`}
+                              />
+                              {fieldLabel}
+                            </label>
+                          ))
+                        ) : (
+                          <p className="text-sm font-medium">
+                            {[
+                              w2.statutoryEmployee && "Statutory employee",
+                              w2.retirementPlan && "Retirement plan",
+                              w2.thirdPartySickPay && "Third-party sick pay",
+                            ].filter(Boolean).join(" • ") || "None checked"}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-4">
+                      <W2CodeAmountList
+                        label="Box 12"
+                        entries={(isEditingTab['w2'] ? editValues[`w2-${w2.id}-box12`] || [] : w2.box12 || []) as W2CodeAmount[]}
+                        isEditing={!!isEditingTab['w2']}
+                        onChange={(entries) => setEditValues(prev => ({ ...prev, [`w2-${w2.id}-box12`]: entries }))}
+                        disabled={batchUpdateW2Mutation.isPending}
+                        showCodeDescriptions
+                        testIdPrefix={`w2-box12-${w2.id}`}
+                      />
+                      <W2CodeAmountList
+                        label="Other (Box 14)"
+                        entries={(isEditingTab['w2'] ? editValues[`w2-${w2.id}-box14`] || [] : w2.box14 || []) as W2CodeAmount[]}
+                        isEditing={!!isEditingTab['w2']}
+                        onChange={(entries) => setEditValues(prev => ({ ...prev, [`w2-${w2.id}-box14`]: entries }))}
+                        disabled={batchUpdateW2Mutation.isPending}
+                        testIdPrefix={`w2-box14-${w2.id}`}
+                      />
+                    </div>
+                  </div>
                 </CardContent>
               </Card>
             ))}
@@ -839,6 +1277,16 @@ export default function Review() {
                         type="currency"
                         tabName="1099-div"
                       />
+                      <EditableField
+                        fieldKey={`1099-div-${div.id}-section199aDividends`}
+                        documentId={div.id}
+                        documentType="1099-div"
+                        fieldName="section199aDividends"
+                        value={div.section199aDividends}
+                        label="Section 199A Dividends (Box 5)"
+                        type="currency"
+                        tabName="1099-div"
+                      />
                       <EditableField
                         fieldKey={`1099-div-${div.id}-foreignTaxPaid`}
                         documentId={div.id}
@@ -1056,6 +1504,1407 @@ export default function Review() {
             </>
           )}
         </TabsContent>
+
+        <TabsContent value="1099-misc" className="space-y-4">
+          {!misc1099Data?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 1099-MISC data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['1099-misc'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('1099-misc', misc1099Data || [])}
+                      disabled={batchUpdate1099MiscMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('1099-misc')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('1099-misc', misc1099Data || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {misc1099Data?.map((misc) => (
+              <Card key={misc.id} data-testid={`card-1099-misc-${misc.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['1099-misc'] ? (
+                          <Input
+                            value={editValues[`1099-misc-${misc.id}-payerName`] || misc.payerName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`1099-misc-${misc.id}-payerName`]: e.target.value 
+                            }))}
+                            placeholder="Payer Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          misc.payerName || "Unknown Payer"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        TIN: {misc.payerTin || "N/A"}
+                        {misc.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {misc.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-sky-100 text-sky-800">1099-MISC</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-misc-${misc.id}-rents`}
+                        documentId={misc.id}
+                        documentType="1099-misc"
+                        fieldName="rents"
+                        value={misc.rents}
+                        label="Rents (Box 1)"
+                        type="currency"
+                        tabName="1099-misc"
+                      />
+                      <EditableField
+                        fieldKey={`1099-misc-${misc.id}-royalties`}
+                        documentId={misc.id}
+                        documentType="1099-misc"
+                        fieldName="royalties"
+                        value={misc.royalties}
+                        label="Royalties (Box 2)"
+                        type="currency"
+                        tabName="1099-misc"
+                      />
+                      <EditableField
+                        fieldKey={`1099-misc-${misc.id}-otherIncome`}
+                        documentId={misc.id}
+                        documentType="1099-misc"
+                        fieldName="otherIncome"
+                        value={misc.otherIncome}
+                        label="Other Income (Box 3)"
+                        type="currency"
+                        tabName="1099-misc"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-misc-${misc.id}-federalWithheld`}
+                        documentId={misc.id}
+                        documentType="1099-misc"
+                        fieldName="federalWithheld"
+                        value={misc.federalWithheld}
+                        label="Federal Withheld (Box 4)"
+                        type="currency"
+                        tabName="1099-misc"
+                      />
+                      <EditableField
+                        fieldKey={`1099-misc-${misc.id}-fishingBoatProceeds`}
+                        documentId={misc.id}
+                        documentType="1099-misc"
+                        fieldName="fishingBoatProceeds"
+                        value={misc.fishingBoatProceeds}
+                        label="Fishing Boat Proceeds (Box 5)"
+                        type="currency"
+                        tabName="1099-misc"
+                      />
+                      <EditableField
+                        fieldKey={`1099-misc-${misc.id}-medicalPayments`}
+                        documentId={misc.id}
+                        documentType="1099-misc"
+                        fieldName="medicalPayments"
+                        value={misc.medicalPayments}
+                        label="Medical and Health Care Payments (Box 6)"
+                        type="currency"
+                        tabName="1099-misc"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="1099-nec" className="space-y-4">
+          {!nec1099Data?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 1099-NEC data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['1099-nec'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('1099-nec', nec1099Data || [])}
+                      disabled={batchUpdate1099NecMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('1099-nec')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('1099-nec', nec1099Data || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {nec1099Data?.map((nec) => (
+              <Card key={nec.id} data-testid={`card-1099-nec-${nec.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['1099-nec'] ? (
+                          <Input
+                            value={editValues[`1099-nec-${nec.id}-payerName`] || nec.payerName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`1099-nec-${nec.id}-payerName`]: e.target.value 
+                            }))}
+                            placeholder="Payer Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          nec.payerName || "Unknown Payer"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        TIN: {nec.payerTin || "N/A"}
+                        {nec.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {nec.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-indigo-100 text-indigo-800">1099-NEC</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-nec-${nec.id}-nonemployeeCompensation`}
+                        documentId={nec.id}
+                        documentType="1099-nec"
+                        fieldName="nonemployeeCompensation"
+                        value={nec.nonemployeeCompensation}
+                        label="Nonemployee Compensation (Box 1)"
+                        type="currency"
+                        tabName="1099-nec"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-nec-${nec.id}-federalWithheld`}
+                        documentId={nec.id}
+                        documentType="1099-nec"
+                        fieldName="federalWithheld"
+                        value={nec.federalWithheld}
+                        label="Federal Withheld (Box 4)"
+                        type="currency"
+                        tabName="1099-nec"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="1099-r" className="space-y-4">
+          {!r1099Data?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 1099-R data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['1099-r'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('1099-r', r1099Data || [])}
+                      disabled={batchUpdate1099RMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('1099-r')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('1099-r', r1099Data || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {r1099Data?.map((r) => (
+              <Card key={r.id} data-testid={`card-1099-r-${r.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['1099-r'] ? (
+                          <Input
+                            value={editValues[`1099-r-${r.id}-payerName`] || r.payerName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`1099-r-${r.id}-payerName`]: e.target.value 
+                            }))}
+                            placeholder="Payer Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          r.payerName || "Unknown Payer"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        TIN: {r.payerTin || "N/A"}
+                        {r.isIra && " • IRA/SEP/SIMPLE"}
+                        {r.taxableAmountNotDetermined && " • Taxable amount not determined"}
+                        {r.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {r.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-amber-100 text-amber-800">1099-R</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-r-${r.id}-grossDistribution`}
+                        documentId={r.id}
+                        documentType="1099-r"
+                        fieldName="grossDistribution"
+                        value={r.grossDistribution}
+                        label="Gross Distribution (Box 1)"
+                        type="currency"
+                        tabName="1099-r"
+                      />
+                      <EditableField
+                        fieldKey={`1099-r-${r.id}-taxableAmount`}
+                        documentId={r.id}
+                        documentType="1099-r"
+                        fieldName="taxableAmount"
+                        value={r.taxableAmount}
+                        label="Taxable Amount (Box 2a)"
+                        type="currency"
+                        tabName="1099-r"
+                      />
+                      <EditableField
+                        fieldKey={`1099-r-${r.id}-federalWithheld`}
+                        documentId={r.id}
+                        documentType="1099-r"
+                        fieldName="federalWithheld"
+                        value={r.federalWithheld}
+                        label="Federal Withheld (Box 4)"
+                        type="currency"
+                        tabName="1099-r"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-r-${r.id}-employeeContributions`}
+                        documentId={r.id}
+                        documentType="1099-r"
+                        fieldName="employeeContributions"
+                        value={r.employeeContributions}
+                        label="Employee Contributions (Box 5)"
+                        type="currency"
+                        tabName="1099-r"
+                      />
+                      <EditableField
+                        fieldKey={`1099-r-${r.id}-distributionCode`}
+                        documentId={r.id}
+                        documentType="1099-r"
+                        fieldName="distributionCode"
+                        value={r.distributionCode}
+                        label="Distribution Code (Box 7)"
+                        type="text"
+                        tabName="1099-r"
+                      />
+                      <EditableField
+                        fieldKey={`1099-r-${r.id}-rolloverAmount`}
+                        documentId={r.id}
+                        documentType="1099-r"
+                        fieldName="rolloverAmount"
+                        value={r.rolloverAmount}
+                        label="Amount Rolled Over Within 60 Days"
+                        type="currency"
+                        tabName="1099-r"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="1098-t" className="space-y-4">
+          {!form1098TData?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 1098-T data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['1098-t'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('1098-t', form1098TData || [])}
+                      disabled={batchUpdate1098TMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('1098-t')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('1098-t', form1098TData || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {form1098TData?.map((tuition) => (
+              <Card key={tuition.id} data-testid={`card-1098-t-${tuition.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['1098-t'] ? (
+                          <Input
+                            value={editValues[`1098-t-${tuition.id}-institutionName`] || tuition.institutionName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`1098-t-${tuition.id}-institutionName`]: e.target.value 
+                            }))}
+                            placeholder="Institution Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          tuition.institutionName || "Unknown Institution"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        TIN: {tuition.institutionTin || "N/A"}
+                        {tuition.halfTimeStudent && " • At least half-time"}
+                        {tuition.graduateStudent && " • Graduate student"}
+                        {tuition.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {tuition.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-sky-100 text-sky-800">1098-T</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1098-t-${tuition.id}-studentName`}
+                        documentId={tuition.id}
+                        documentType="1098-t"
+                        fieldName="studentName"
+                        value={tuition.studentName}
+                        label="Student Name"
+                        type="text"
+                        tabName="1098-t"
+                      />
+                      <EditableField
+                        fieldKey={`1098-t-${tuition.id}-paymentsReceived`}
+                        documentId={tuition.id}
+                        documentType="1098-t"
+                        fieldName="paymentsReceived"
+                        value={tuition.paymentsReceived}
+                        label="Payments for Qualified Tuition (Box 1)"
+                        type="currency"
+                        tabName="1098-t"
+                      />
+                      <EditableField
+                        fieldKey={`1098-t-${tuition.id}-scholarships`}
+                        documentId={tuition.id}
+                        documentType="1098-t"
+                        fieldName="scholarships"
+                        value={tuition.scholarships}
+                        label="Scholarships or Grants (Box 5)"
+                        type="currency"
+                        tabName="1098-t"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1098-t-${tuition.id}-additionalExpenses`}
+                        documentId={tuition.id}
+                        documentType="1098-t"
+                        fieldName="additionalExpenses"
+                        value={tuition.additionalExpenses}
+                        label="Books and Course Materials Not in Box 1"
+                        type="currency"
+                        tabName="1098-t"
+                      />
+                      <EditableField
+                        fieldKey={`1098-t-${tuition.id}-aotcYearsClaimed`}
+                        documentId={tuition.id}
+                        documentType="1098-t"
+                        fieldName="aotcYearsClaimed"
+                        value={tuition.aotcYearsClaimed?.toString()}
+                        label="Prior Years American Opportunity Credit Claimed"
+                        type="number"
+                        tabName="1098-t"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="1098-e" className="space-y-4">
+          {!form1098EData?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 1098-E data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['1098-e'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('1098-e', form1098EData || [])}
+                      disabled={batchUpdate1098EMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('1098-e')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('1098-e', form1098EData || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {form1098EData?.map((loan) => (
+              <Card key={loan.id} data-testid={`card-1098-e-${loan.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['1098-e'] ? (
+                          <Input
+                            value={editValues[`1098-e-${loan.id}-lenderName`] || loan.lenderName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`1098-e-${loan.id}-lenderName`]: e.target.value 
+                            }))}
+                            placeholder="Lender Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          loan.lenderName || "Unknown Lender"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        TIN: {loan.lenderTin || "N/A"}
+                        {loan.originationFeesIncluded && " • Includes origination fees or capitalized interest"}
+                        {loan.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {loan.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-teal-100 text-teal-800">1098-E</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1098-e-${loan.id}-studentLoanInterest`}
+                        documentId={loan.id}
+                        documentType="1098-e"
+                        fieldName="studentLoanInterest"
+                        value={loan.studentLoanInterest}
+                        label="Student Loan Interest (Box 1)"
+                        type="currency"
+                        tabName="1098-e"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="1099-sa" className="space-y-4">
+          {!form1099SaData?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 1099-SA data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['1099-sa'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('1099-sa', form1099SaData || [])}
+                      disabled={batchUpdate1099SaMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('1099-sa')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('1099-sa', form1099SaData || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {form1099SaData?.map((hsa) => (
+              <Card key={hsa.id} data-testid={`card-1099-sa-${hsa.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['1099-sa'] ? (
+                          <Input
+                            value={editValues[`1099-sa-${hsa.id}-payerName`] || hsa.payerName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`1099-sa-${hsa.id}-payerName`]: e.target.value 
+                            }))}
+                            placeholder="Payer Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          hsa.payerName || "Unknown Payer"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        TIN: {hsa.payerTin || "N/A"}
+                        {hsa.owner === "spouse" && " • Spouse's account"}
+                        {hsa.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {hsa.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-emerald-100 text-emerald-800">1099-SA</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-sa-${hsa.id}-grossDistribution`}
+                        documentId={hsa.id}
+                        documentType="1099-sa"
+                        fieldName="grossDistribution"
+                        value={hsa.grossDistribution}
+                        label="Gross Distribution (Box 1)"
+                        type="currency"
+                        tabName="1099-sa"
+                      />
+                      <EditableField
+                        fieldKey={`1099-sa-${hsa.id}-earningsOnExcess`}
+                        documentId={hsa.id}
+                        documentType="1099-sa"
+                        fieldName="earningsOnExcess"
+                        value={hsa.earningsOnExcess}
+                        label="Earnings on Excess Contributions (Box 2)"
+                        type="currency"
+                        tabName="1099-sa"
+                      />
+                      <EditableField
+                        fieldKey={`1099-sa-${hsa.id}-fairMarketValueOnDeath`}
+                        documentId={hsa.id}
+                        documentType="1099-sa"
+                        fieldName="fairMarketValueOnDeath"
+                        value={hsa.fairMarketValueOnDeath}
+                        label="FMV on Date of Death (Box 4)"
+                        type="currency"
+                        tabName="1099-sa"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-sa-${hsa.id}-distributionCode`}
+                        documentId={hsa.id}
+                        documentType="1099-sa"
+                        fieldName="distributionCode"
+                        value={hsa.distributionCode}
+                        label="Distribution Code (Box 3)"
+                        type="text"
+                        tabName="1099-sa"
+                      />
+                      <EditableField
+                        fieldKey={`1099-sa-${hsa.id}-owner`}
+                        documentId={hsa.id}
+                        documentType="1099-sa"
+                        fieldName="owner"
+                        value={hsa.owner}
+                        label="Account Owner (taxpayer or spouse)"
+                        type="text"
+                        tabName="1099-sa"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="5498-sa" className="space-y-4">
+          {!form5498SaData?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 5498-SA data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['5498-sa'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('5498-sa', form5498SaData || [])}
+                      disabled={batchUpdate5498SaMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('5498-sa')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('5498-sa', form5498SaData || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {form5498SaData?.map((statement) => (
+              <Card key={statement.id} data-testid={`card-5498-sa-${statement.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['5498-sa'] ? (
+                          <Input
+                            value={editValues[`5498-sa-${statement.id}-trusteeName`] || statement.trusteeName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`5498-sa-${statement.id}-trusteeName`]: e.target.value 
+                            }))}
+                            placeholder="Trustee Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          statement.trusteeName || "Unknown Trustee"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        TIN: {statement.trusteeTin || "N/A"}
+                        {statement.owner === "spouse" && " • Spouse's account"}
+                        {statement.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {statement.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-emerald-100 text-emerald-800">5498-SA</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`5498-sa-${statement.id}-totalContributions`}
+                        documentId={statement.id}
+                        documentType="5498-sa"
+                        fieldName="totalContributions"
+                        value={statement.totalContributions}
+                        label="Total Contributions (Box 2)"
+                        type="currency"
+                        tabName="5498-sa"
+                      />
+                      <EditableField
+                        fieldKey={`5498-sa-${statement.id}-followingYearContributions`}
+                        documentId={statement.id}
+                        documentType="5498-sa"
+                        fieldName="followingYearContributions"
+                        value={statement.followingYearContributions}
+                        label="Following-Year Contributions (Box 3)"
+                        type="currency"
+                        tabName="5498-sa"
+                      />
+                      <EditableField
+                        fieldKey={`5498-sa-${statement.id}-rolloverContributions`}
+                        documentId={statement.id}
+                        documentType="5498-sa"
+                        fieldName="rolloverContributions"
+                        value={statement.rolloverContributions}
+                        label="Rollover Contributions (Box 4)"
+                        type="currency"
+                        tabName="5498-sa"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`5498-sa-${statement.id}-fairMarketValue`}
+                        documentId={statement.id}
+                        documentType="5498-sa"
+                        fieldName="fairMarketValue"
+                        value={statement.fairMarketValue}
+                        label="Fair Market Value (Box 5)"
+                        type="currency"
+                        tabName="5498-sa"
+                      />
+                      <EditableField
+                        fieldKey={`5498-sa-${statement.id}-owner`}
+                        documentId={statement.id}
+                        documentType="5498-sa"
+                        fieldName="owner"
+                        value={statement.owner}
+                        label="Account Owner (taxpayer or spouse)"
+                        type="text"
+                        tabName="5498-sa"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="ssa-1099" className="space-y-4">
+          {!formSsa1099Data?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No SSA-1099 data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['ssa-1099'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('ssa-1099', formSsa1099Data || [])}
+                      disabled={batchUpdateSsa1099Mutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('ssa-1099')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('ssa-1099', formSsa1099Data || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {formSsa1099Data?.map((ssa) => (
+              <Card key={ssa.id} data-testid={`card-ssa-1099-${ssa.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['ssa-1099'] ? (
+                          <Input
+                            value={editValues[`ssa-1099-${ssa.id}-beneficiaryName`] || ssa.beneficiaryName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`ssa-1099-${ssa.id}-beneficiaryName`]: e.target.value 
+                            }))}
+                            placeholder="Beneficiary Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          ssa.beneficiaryName || "Unknown Beneficiary"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        SSN: {ssa.beneficiarySsn || "N/A"}
+                        {ssa.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {ssa.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-sky-100 text-sky-800">SSA-1099</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`ssa-1099-${ssa.id}-benefitsPaid`}
+                        documentId={ssa.id}
+                        documentType="ssa-1099"
+                        fieldName="benefitsPaid"
+                        value={ssa.benefitsPaid}
+                        label="Benefits Paid (Box 3)"
+                        type="currency"
+                        tabName="ssa-1099"
+                      />
+                      <EditableField
+                        fieldKey={`ssa-1099-${ssa.id}-benefitsRepaid`}
+                        documentId={ssa.id}
+                        documentType="ssa-1099"
+                        fieldName="benefitsRepaid"
+                        value={ssa.benefitsRepaid}
+                        label="Benefits Repaid to SSA (Box 4)"
+                        type="currency"
+                        tabName="ssa-1099"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`ssa-1099-${ssa.id}-netBenefits`}
+                        documentId={ssa.id}
+                        documentType="ssa-1099"
+                        fieldName="netBenefits"
+                        value={ssa.netBenefits}
+                        label="Net Benefits (Box 5)"
+                        type="currency"
+                        tabName="ssa-1099"
+                      />
+                      <EditableField
+                        fieldKey={`ssa-1099-${ssa.id}-federalWithheld`}
+                        documentId={ssa.id}
+                        documentType="ssa-1099"
+                        fieldName="federalWithheld"
+                        value={ssa.federalWithheld}
+                        label="Voluntary Federal Income Tax Withheld (Box 6)"
+                        type="currency"
+                        tabName="ssa-1099"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="1099-g" className="space-y-4">
+          {!form1099GData?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 1099-G data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['1099-g'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('1099-g', form1099GData || [])}
+                      disabled={batchUpdate1099GMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('1099-g')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('1099-g', form1099GData || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {form1099GData?.map((gov) => (
+              <Card key={gov.id} data-testid={`card-1099-g-${gov.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['1099-g'] ? (
+                          <Input
+                            value={editValues[`1099-g-${gov.id}-payerName`] || gov.payerName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`1099-g-${gov.id}-payerName`]: e.target.value 
+                            }))}
+                            placeholder="Payer Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          gov.payerName || "Unknown Payer"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        TIN: {gov.payerTin || "N/A"}
+                        {gov.refundTaxYear && ` • Box 2 refund for ${gov.refundTaxYear}`}
+                        {gov.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {gov.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-amber-100 text-amber-800">1099-G</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-g-${gov.id}-unemploymentCompensation`}
+                        documentId={gov.id}
+                        documentType="1099-g"
+                        fieldName="unemploymentCompensation"
+                        value={gov.unemploymentCompensation}
+                        label="Unemployment Compensation (Box 1)"
+                        type="currency"
+                        tabName="1099-g"
+                      />
+                      <EditableField
+                        fieldKey={`1099-g-${gov.id}-stateLocalRefund`}
+                        documentId={gov.id}
+                        documentType="1099-g"
+                        fieldName="stateLocalRefund"
+                        value={gov.stateLocalRefund}
+                        label="State or Local Income Tax Refund (Box 2)"
+                        type="currency"
+                        tabName="1099-g"
+                      />
+                      <EditableField
+                        fieldKey={`1099-g-${gov.id}-federalWithheld`}
+                        documentId={gov.id}
+                        documentType="1099-g"
+                        fieldName="federalWithheld"
+                        value={gov.federalWithheld}
+                        label="Federal Income Tax Withheld (Box 4)"
+                        type="currency"
+                        tabName="1099-g"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1099-g-${gov.id}-taxableGrants`}
+                        documentId={gov.id}
+                        documentType="1099-g"
+                        fieldName="taxableGrants"
+                        value={gov.taxableGrants}
+                        label="Taxable Grants (Box 6)"
+                        type="currency"
+                        tabName="1099-g"
+                      />
+                      <EditableField
+                        fieldKey={`1099-g-${gov.id}-agriculturePayments`}
+                        documentId={gov.id}
+                        documentType="1099-g"
+                        fieldName="agriculturePayments"
+                        value={gov.agriculturePayments}
+                        label="Agriculture Payments (Box 7)"
+                        type="currency"
+                        tabName="1099-g"
+                      />
+                      <EditableField
+                        fieldKey={`1099-g-${gov.id}-stateWithheld`}
+                        documentId={gov.id}
+                        documentType="1099-g"
+                        fieldName="stateWithheld"
+                        value={gov.stateWithheld}
+                        label="State Income Tax Withheld (Box 11)"
+                        type="currency"
+                        tabName="1099-g"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="1095-a" className="space-y-4">
+          {!form1095AData?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 1095-A data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['1095-a'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('1095-a', form1095AData || [])}
+                      disabled={batchUpdate1095AMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('1095-a')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('1095-a', form1095AData || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {form1095AData?.map((marketplace) => (
+              <Card key={marketplace.id} data-testid={`card-1095-a-${marketplace.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['1095-a'] ? (
+                          <Input
+                            value={editValues[`1095-a-${marketplace.id}-issuerName`] || marketplace.issuerName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`1095-a-${marketplace.id}-issuerName`]: e.target.value 
+                            }))}
+                            placeholder="Policy Issuer"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          marketplace.issuerName || "Unknown Issuer"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        Policy: {marketplace.policyNumber || "N/A"}
+                        {marketplace.policyStartDate && ` • Coverage ${marketplace.policyStartDate} to ${marketplace.policyEndDate || "year end"}`}
+                        {marketplace.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {marketplace.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-teal-100 text-teal-800">1095-A</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1095-a-${marketplace.id}-annualPremium`}
+                        documentId={marketplace.id}
+                        documentType="1095-a"
+                        fieldName="annualPremium"
+                        value={marketplace.annualPremium}
+                        label="Annual Enrollment Premiums (Line 33A)"
+                        type="currency"
+                        tabName="1095-a"
+                      />
+                      <EditableField
+                        fieldKey={`1095-a-${marketplace.id}-annualSlcsp`}
+                        documentId={marketplace.id}
+                        documentType="1095-a"
+                        fieldName="annualSlcsp"
+                        value={marketplace.annualSlcsp}
+                        label="Annual SLCSP Premium (Line 33B)"
+                        type="currency"
+                        tabName="1095-a"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1095-a-${marketplace.id}-annualAdvancePayment`}
+                        documentId={marketplace.id}
+                        documentType="1095-a"
+                        fieldName="annualAdvancePayment"
+                        value={marketplace.annualAdvancePayment}
+                        label="Annual Advance Payment of PTC (Line 33C)"
+                        type="currency"
+                        tabName="1095-a"
+                      />
+                      <EditableField
+                        fieldKey={`1095-a-${marketplace.id}-marketplaceId`}
+                        documentId={marketplace.id}
+                        documentType="1095-a"
+                        fieldName="marketplaceId"
+                        value={marketplace.marketplaceId}
+                        label="Marketplace Identifier (Line 1)"
+                        type="text"
+                        tabName="1095-a"
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="1098" className="space-y-4">
+          {!form1098Data?.length ? (
+            <Card>
+              <CardContent className="py-8 text-center">
+                <p className="text-sm text-muted-foreground">No 1098 data available</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <>
+              <div className="flex justify-end gap-2 mb-4">
+                {isEditingTab['1098'] ? (
+                  <>
+                    <Button
+                      onClick={() => saveTabEdits('1098', form1098Data || [])}
+                      disabled={batchUpdate1098Mutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-2" />
+                      Save All Changes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelTabEditing('1098')}
+                    >
+                      <X className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    onClick={() => startTabEditing('1098', form1098Data || [])}
+                  >
+                    <Edit2 className="h-4 w-4 mr-2" />
+                    Edit All Fields
+                  </Button>
+                )}
+              </div>
+              {form1098Data?.map((mortgage) => (
+              <Card key={mortgage.id} data-testid={`card-1098-${mortgage.id}`}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>
+                        {isEditingTab['1098'] ? (
+                          <Input
+                            value={editValues[`1098-${mortgage.id}-lenderName`] || mortgage.lenderName || ""}
+                            onChange={(e) => setEditValues(prev => ({ 
+                              ...prev, 
+                              [`1098-${mortgage.id}-lenderName`]: e.target.value 
+                            }))}
+                            placeholder="Lender Name"
+                            className="text-lg font-semibold"
+                          />
+                        ) : (
+                          mortgage.lenderName || "Unknown Lender"
+                        )}
+                      </CardTitle>
+                      <CardDescription>
+                        TIN: {mortgage.lenderTin || "N/A"}
+                        {mortgage.documentName && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            • Source: {mortgage.documentName}
+                          </span>
+                        )}
+                      </CardDescription>
+                    </div>
+                    <Badge className="bg-teal-100 text-teal-800">1098</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1098-${mortgage.id}-mortgageInterest`}
+                        documentId={mortgage.id}
+                        documentType="1098"
+                        fieldName="mortgageInterest"
+                        value={mortgage.mortgageInterest}
+                        label="Mortgage Interest (Box 1)"
+                        type="currency"
+                        tabName="1098"
+                      />
+                      <EditableField
+                        fieldKey={`1098-${mortgage.id}-outstandingPrincipal`}
+                        documentId={mortgage.id}
+                        documentType="1098"
+                        fieldName="outstandingPrincipal"
+                        value={mortgage.outstandingPrincipal}
+                        label="Outstanding Principal (Box 2)"
+                        type="currency"
+                        tabName="1098"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <EditableField
+                        fieldKey={`1098-${mortgage.id}-mortgageInsurancePremiums`}
+                        documentId={mortgage.id}
+                        documentType="1098"
+                        fieldName="mortgageInsurancePremiums"
+                        value={mortgage.mortgageInsurancePremiums}
+                        label="Mortgage Insurance Premiums (Box 5)"
+                        type="currency"
+                        tabName="1098"
+                      />
+                      <EditableField
+                        fieldKey={`1098-${mortgage.id}-pointsPaid`}
+                        documentId={mortgage.id}
+                        documentType="1098"
+                        fieldName="pointsPaid"
+                        value={mortgage.pointsPaid}
+                        label="Points Paid (Box 6)"
+                        type="currency"
+                        tabName="1098"
+                      />
+                    </div>
+                  </div>
+                  <div className="mt-6">
+                    <EditableField
+                      fieldKey={`1098-${mortgage.id}-propertyAddress`}
+                      documentId={mortgage.id}
+                      documentType="1098"
+                      fieldName="propertyAddress"
+                      value={mortgage.propertyAddress}
+                      label="Property Address (Box 8)"
+                      type="text"
+                      tabName="1098"
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+            </>
+          )}
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Save, Trash2, Receipt } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ScheduleA, Form1040 } from "@shared/schema";
+
+type AmountField =
+  | "medicalExpenses"
+  | "stateLocalIncomeTax"
+  | "stateLocalSalesTax"
+  | "realEstateTaxes"
+  | "personalPropertyTaxes"
+  | "otherTaxes"
+  | "mortgageInterest"
+  | "mortgagePoints"
+  | "investmentInterest"
+  | "charitableCash"
+  | "charitableNonCash"
+  | "charitableCarryover"
+  | "casualtyLosses"
+  | "otherItemizedDeductions";
+
+const SECTIONS: { title: string; description: string; fields: { key: AmountField; label: string }[] }[] = [
+  {
+    title: "Medical and Dental Expenses",
+    description: "Only the amount above the AGI floor is deductible",
+    fields: [{ key: "medicalExpenses", label: "Medical and dental expenses (line 1)" }],
+  },
+  {
+    title: "Taxes You Paid",
+    description: "State and local taxes are limited by the SALT cap",
+    fields: [
+      { key: "stateLocalIncomeTax", label: "State and local income taxes (line 5a)" },
+      { key: "stateLocalSalesTax", label: "General sales taxes (line 5a alternative)" },
+      { key: "realEstateTaxes", label: "Real estate taxes (line 5b)" },
+      { key: "personalPropertyTaxes", label: "Personal property taxes (line 5c)" },
+      { key: "otherTaxes", label: "Other taxes (line 6)" },
+    ],
+  },
+  {
+    title: "Interest You Paid",
+    description: "Home mortgage and investment interest",
+    fields: [
+      { key: "mortgageInterest", label: "Home mortgage interest (line 8a)" },
+      { key: "mortgagePoints", label: "Points not reported on Form 1098 (line 8c)" },
+      { key: "investmentInterest", label: "Investment interest (line 9)" },
+    ],
+  },
+  {
+    title: "Gifts to Charity",
+    description: "Cash gifts are limited to a percentage of AGI",
+    fields: [
+      { key: "charitableCash", label: "Gifts by cash or check (line 11)" },
+      { key: "charitableNonCash", label: "Other than by cash or check (line 12)" },
+      { key: "charitableCarryover", label: "Carryover from prior year (line 13)" },
+    ],
+  },
+  {
+    title: "Other Itemized Deductions",
+    description: "Casualty and theft losses from federally declared disasters and other deductions",
+    fields: [
+      { key: "casualtyLosses", label: "Casualty and theft losses (line 15)" },
+      { key: "otherItemizedDeductions", label: "Other itemized deductions (line 16)" },
+    ],
+  },
+];
+
+export default function ScheduleAPage() {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<Partial<Record<AmountField, string>>>({});
+  const [useSalesTax, setUseSalesTax] = useState(false);
+  const [forceItemize, setForceItemize] = useState(false);
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: scheduleA, isLoading } = useQuery<ScheduleA | null>({
+    queryKey: ["/api/schedule-a"],
+  });
+
+  const { data: form1040 } = useQuery<Form1040 | null>({
+    queryKey: ["/api/form1040"],
+  });
+
+  useEffect(() => {
+    if (scheduleA) {
+      const values: Partial<Record<AmountField, string>> = {};
+      SECTIONS.forEach((section) =>
+        section.fields.forEach((field) => {
+          values[field.key] = scheduleA[field.key] || "";
+        })
+      );
+      setFormData(values);
+      setUseSalesTax(!!scheduleA.useSalesTax);
+      setForceItemize(!!scheduleA.forceItemize);
+    }
+  }, [scheduleA]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload: Record<string, string | boolean> = { useSalesTax, forceItemize };
+      SECTIONS.forEach((section) =>
+        section.fields.forEach((field) => {
+          payload[field.key] = formData[field.key] || "0";
+        })
+      );
+      const response = scheduleA
+        ? await apiRequest("PUT", `/api/schedule-a/${scheduleA.id}`, payload)
+        : await apiRequest("POST", "/api/schedule-a", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-a"] });
+      toast({
+        title: "Schedule A Saved",
+        description: "Recalculate your taxes to compare itemized and standard deductions.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save Schedule A",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/schedule-a/${scheduleA!.id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setFormData({});
+      setUseSalesTax(false);
+      setForceItemize(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-a"] });
+      toast({ title: "Schedule A Removed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete Schedule A",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Schedule A</h1>
+          <p className="text-lg text-muted-foreground">
+            Itemized Deductions for {currentYear}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {scheduleA && (
+            <Button
+              variant="outline"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+              data-testid="button-delete-schedule-a"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Remove
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-schedule-a"
+          >
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {form1040 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Receipt className="h-5 w-5" />
+              Deduction Used on Form 1040
+            </CardTitle>
+            <CardDescription>
+              The larger of your standard deduction and itemized deductions is used automatically
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground">Deduction type:</span>
+              <Badge variant={form1040.deductionType === "itemized" ? "default" : "secondary"} data-testid="badge-deduction-type">
+                {form1040.deductionType === "itemized" ? "Itemized" : "Standard"}
+              </Badge>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Line 12 deduction:</span>
+              <span className="font-mono font-semibold">{formatCurrency(form1040.standardDeduction)}</span>
+            </div>
+            {scheduleA && (
+              <div className="flex justify-between">
+                <span className="text-sm text-muted-foreground">Total itemized deductions (line 17):</span>
+                <span className="font-mono font-semibold">{formatCurrency(scheduleA.totalItemizedDeductions)}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {SECTIONS.map((section) => (
+        <Card key={section.title}>
+          <CardHeader>
+            <CardTitle>{section.title}</CardTitle>
+            <CardDescription>{section.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {section.fields.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={field.key}>{field.label}</Label>
+                  <Input
+                    id={field.key}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData[field.key] || ""}
+                    onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                    data-testid={`input-${field.key}`}
+                  />
+                </div>
+              ))}
+            </div>
+            {section.title === "Taxes You Paid" && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="useSalesTax"
+                  checked={useSalesTax}
+                  onCheckedChange={(checked) => setUseSalesTax(!!checked)}
+                  data-testid="checkbox-use-sales-tax"
+                />
+                <Label htmlFor="useSalesTax">Deduct general sales taxes instead of income taxes</Label>
+              </div>
+            )}
+            {scheduleA && (
+              <div className="flex justify-between pt-2 border-t">
+                <span className="text-sm font-semibold">Deductible amount:</span>
+                <span className="font-mono font-bold">
+                  {formatCurrency(
+                    section.title === "Medical and Dental Expenses" ? scheduleA.medicalDeduction
+                      : section.title === "Taxes You Paid" ? scheduleA.saltDeduction
+                      : section.title === "Interest You Paid" ? scheduleA.interestDeduction
+                      : section.title === "Gifts to Charity" ? scheduleA.charitableDeduction
+                      : (parseFloat(scheduleA.casualtyLosses || "0") + parseFloat(scheduleA.otherItemizedDeductions || "0")).toString()
+                  )}
+                </span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardContent className="py-6">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="forceItemize"
+              checked={forceItemize}
+              onCheckedChange={(checked) => setForceItemize(!!checked)}
+              data-testid="checkbox-force-itemize"
+            />
+            <Label htmlFor="forceItemize">
+              Itemize even if less than the standard deduction (line 18)
+            </Label>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,404 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Loader2, Save, Trash2, Briefcase } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { TAXPAYER_OWNERS, type ScheduleC, type ScheduleSE, type UserProfile } from "@shared/schema";
+
+type AmountField =
+  | "grossReceipts"
+  | "returnsAllowances"
+  | "costOfGoodsSold"
+  | "otherBusinessIncome"
+  | "advertising"
+  | "contractLabor"
+  | "insurance"
+  | "legalProfessional"
+  | "officeExpense"
+  | "rentLease"
+  | "supplies"
+  | "taxesLicenses"
+  | "travel"
+  | "meals"
+  | "utilities"
+  | "otherExpenses";
+
+type CountField = "businessMiles" | "homeOfficeSquareFeet";
+
+const SECTIONS: { title: string; description: string; fields: { key: AmountField; label: string }[] }[] = [
+  {
+    title: "Income",
+    description: "Receipts not reported to you on Form 1099-NEC or 1099-MISC",
+    fields: [
+      { key: "grossReceipts", label: "Gross receipts or sales (line 1)" },
+      { key: "returnsAllowances", label: "Returns and allowances (line 2)" },
+      { key: "costOfGoodsSold", label: "Cost of goods sold (line 4)" },
+      { key: "otherBusinessIncome", label: "Other income (line 6)" },
+    ],
+  },
+  {
+    title: "Expenses",
+    description: "Ordinary and necessary business expenses",
+    fields: [
+      { key: "advertising", label: "Advertising (line 8)" },
+      { key: "contractLabor", label: "Contract labor (line 11)" },
+      { key: "insurance", label: "Insurance, other than health (line 15)" },
+      { key: "legalProfessional", label: "Legal and professional services (line 17)" },
+      { key: "officeExpense", label: "Office expense (line 18)" },
+      { key: "rentLease", label: "Rent or lease of business property (line 20b)" },
+      { key: "supplies", label: "Supplies (line 22)" },
+      { key: "taxesLicenses", label: "Taxes and licenses (line 23)" },
+      { key: "travel", label: "Travel (line 24a)" },
+      { key: "meals", label: "Business meals, before the 50% limit (line 24b)" },
+      { key: "utilities", label: "Utilities (line 25)" },
+      { key: "otherExpenses", label: "Other expenses (line 27a)" },
+    ],
+  },
+];
+
+export default function ScheduleCPage() {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<Partial<Record<AmountField, string>>>({});
+  const [counts, setCounts] = useState<Partial<Record<CountField, string>>>({});
+  const [businessName, setBusinessName] = useState("");
+  const [principalBusinessCode, setPrincipalBusinessCode] = useState("");
+  const [owner, setOwner] = useState<string>(TAXPAYER_OWNERS.TAXPAYER);
+  const [includeForm1099Income, setIncludeForm1099Income] = useState(true);
+
+  const { data: activeYear } = useQuery<{ year: number } | null>({
+    queryKey: ["/api/tax-config/active-year"],
+    enabled: !!localStorage.getItem("token"),
+  });
+
+  const currentYear = activeYear?.year || new Date().getFullYear();
+
+  const { data: profile } = useQuery<UserProfile | null>({
+    queryKey: ["/api/profile"],
+  });
+
+  const { data: scheduleC, isLoading } = useQuery<ScheduleC | null>({
+    queryKey: ["/api/schedule-c"],
+  });
+
+  const { data: scheduleSE } = useQuery<ScheduleSE | null>({
+    queryKey: ["/api/schedule-se"],
+  });
+
+  useEffect(() => {
+    if (scheduleC) {
+      const values: Partial<Record<AmountField, string>> = {};
+      SECTIONS.forEach((section) =>
+        section.fields.forEach((field) => {
+          values[field.key] = scheduleC[field.key] || "";
+        })
+      );
+      setFormData(values);
+      setCounts({
+        businessMiles: scheduleC.businessMiles ? scheduleC.businessMiles.toString() : "",
+        homeOfficeSquareFeet: scheduleC.homeOfficeSquareFeet ? scheduleC.homeOfficeSquareFeet.toString() : "",
+      });
+      setBusinessName(scheduleC.businessName || "");
+      setPrincipalBusinessCode(scheduleC.principalBusinessCode || "");
+      setOwner(scheduleC.owner || TAXPAYER_OWNERS.TAXPAYER);
+      setIncludeForm1099Income(scheduleC.includeForm1099Income !== false);
+    }
+  }, [scheduleC]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload: Record<string, string | number | boolean | null> = {
+        businessName: businessName || null,
+        principalBusinessCode: principalBusinessCode || null,
+        owner,
+        includeForm1099Income,
+        businessMiles: parseInt(counts.businessMiles || "0") || 0,
+        homeOfficeSquareFeet: parseInt(counts.homeOfficeSquareFeet || "0") || 0,
+      };
+      SECTIONS.forEach((section) =>
+        section.fields.forEach((field) => {
+          payload[field.key] = formData[field.key] || "0";
+        })
+      );
+      const response = scheduleC
+        ? await apiRequest("PUT", `/api/schedule-c/${scheduleC.id}`, payload)
+        : await apiRequest("POST", "/api/schedule-c", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-c"] });
+      toast({
+        title: "Schedule C Saved",
+        description: "Recalculate your taxes to update net profit and self-employment tax.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save Schedule C",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/schedule-c/${scheduleC!.id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setFormData({});
+      setCounts({});
+      setBusinessName("");
+      setPrincipalBusinessCode("");
+      setIncludeForm1099Income(true);
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-c"] });
+      toast({ title: "Schedule C Removed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete Schedule C",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCurrency = (value: string | null | undefined) => {
+    if (!value) return "$0.00";
+    return `$${parseFloat(value).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-foreground mb-2">Schedule C</h1>
+          <p className="text-lg text-muted-foreground">
+            Profit or Loss From Business for {currentYear}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {scheduleC && (
+            <Button
+              variant="outline"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+              data-testid="button-delete-schedule-c"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Remove
+            </Button>
+          )}
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-schedule-c"
+          >
+            {saveMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {scheduleC && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Briefcase className="h-5 w-5" />
+              Net Profit and Self-Employment Tax
+            </CardTitle>
+            <CardDescription>
+              Net profit flows to Schedule 1 line 3 and Schedule SE
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Gross income (line 7):</span>
+              <span className="font-mono font-semibold">{formatCurrency(scheduleC.grossIncome)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Total expenses (line 28):</span>
+              <span className="font-mono font-semibold">{formatCurrency(scheduleC.totalExpenses)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Home office deduction (line 30):</span>
+              <span className="font-mono font-semibold">{formatCurrency(scheduleC.homeOfficeDeduction)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Net profit (line 31):</span>
+              <span className="font-mono font-semibold" data-testid="text-net-profit">{formatCurrency(scheduleC.netProfit)}</span>
+            </div>
+            {scheduleSE && (
+              <>
+                <div className="flex justify-between pt-2 border-t">
+                  <span className="text-sm text-muted-foreground">Self-employment tax (Schedule SE line 12):</span>
+                  <span className="font-mono font-semibold" data-testid="text-se-tax">{formatCurrency(scheduleSE.selfEmploymentTax)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Deductible half (Schedule 1 line 15):</span>
+                  <span className="font-mono font-semibold">{formatCurrency(scheduleSE.deductibleHalf)}</span>
+                </div>
+                {((scheduleSE.warnings as string[] | null) || []).map((warning) => (
+                  <div key={warning} className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>{warning}</span>
+                  </div>
+                ))}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Business Information</CardTitle>
+          <CardDescription>Name and principal business or professional activity code</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="businessName">Business name (line C)</Label>
+              <Input
+                id="businessName"
+                value={businessName}
+                onChange={(e) => setBusinessName(e.target.value)}
+                data-testid="input-businessName"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="principalBusinessCode">Principal business code (line B)</Label>
+              <Input
+                id="principalBusinessCode"
+                value={principalBusinessCode}
+                onChange={(e) => setPrincipalBusinessCode(e.target.value)}
+                data-testid="input-principalBusinessCode"
+              />
+            </div>
+            {profile?.filingStatus === "married_joint" && (
+              <div className="space-y-2">
+                <Label>Proprietor (line A)</Label>
+                <Select value={owner} onValueChange={setOwner}>
+                  <SelectTrigger data-testid="select-proprietor">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TAXPAYER_OWNERS.TAXPAYER}>Taxpayer</SelectItem>
+                    <SelectItem value={TAXPAYER_OWNERS.SPOUSE}>Spouse</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Only the proprietor's W-2 Social Security wages reduce the Schedule SE wage base
+                </p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {SECTIONS.map((section) => (
+        <Card key={section.title}>
+          <CardHeader>
+            <CardTitle>{section.title}</CardTitle>
+            <CardDescription>{section.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              {section.fields.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={field.key}>{field.label}</Label>
+                  <Input
+                    id={field.key}
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData[field.key] || ""}
+                    onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                    data-testid={`input-${field.key}`}
+                  />
+                </div>
+              ))}
+            </div>
+            {section.title === "Income" && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="includeForm1099Income"
+                  checked={includeForm1099Income}
+                  onCheckedChange={(checked) => setIncludeForm1099Income(!!checked)}
+                  data-testid="checkbox-include-1099-income"
+                />
+                <Label htmlFor="includeForm1099Income">
+                  Add Form 1099-NEC and 1099-MISC business receipts to line 1
+                </Label>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vehicle and Home Office</CardTitle>
+          <CardDescription>
+            Car expenses use the standard mileage rate; the home office uses the simplified method
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="businessMiles">Business miles driven (line 44a)</Label>
+              <Input
+                id="businessMiles"
+                type="number"
+                step="1"
+                min="0"
+                value={counts.businessMiles || ""}
+                onChange={(e) => setCounts({ ...counts, businessMiles: e.target.value })}
+                data-testid="input-businessMiles"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="homeOfficeSquareFeet">Home office square feet (up to 300)</Label>
+              <Input
+                id="homeOfficeSquareFeet"
+                type="number"
+                step="1"
+                min="0"
+                value={counts.homeOfficeSquareFeet || ""}
+                onChange={(e) => setCounts({ ...counts, homeOfficeSquareFeet: e.target.value })}
+                data-testid="input-homeOfficeSquareFeet"
+              />
+            </div>
+          </div>
+          {scheduleC && (
+            <div className="flex justify-between pt-2 border-t">
+              <span className="text-sm font-semibold">Car and truck expenses (line 9):</span>
+              <span className="font-mono font-bold">{formatCurrency(scheduleC.carTruckExpenses)}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
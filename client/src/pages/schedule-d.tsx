@@ -1,10 +1,13 @@
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Loader2, Calculator, TrendingUp, TrendingDown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { ScheduleD, Form8949 } from "@shared/schema";
+import type { ScheduleD, Form8949, CapitalLossCarryover } from "@shared/schema";
 
 export default function ScheduleDPage() {
   const { toast } = useToast();
@@ -24,6 +27,44 @@ export default function ScheduleDPage() {
     queryKey: ["/api/form8949"],
   });
 
+  const { data: carryovers } = useQuery<CapitalLossCarryover[]>({
+    queryKey: ["/api/capital-loss-carryovers"],
+  });
+
+  const priorYearCarryover = carryovers?.find((c) => c.taxYear === currentYear - 1);
+  const currentYearCarryover = carryovers?.find((c) => c.taxYear === currentYear);
+  const [priorShortTerm, setPriorShortTerm] = useState("");
+  const [priorLongTerm, setPriorLongTerm] = useState("");
+
+  useEffect(() => {
+    setPriorShortTerm(priorYearCarryover?.shortTermCarryover || "");
+    setPriorLongTerm(priorYearCarryover?.longTermCarryover || "");
+  }, [priorYearCarryover?.id, priorYearCarryover?.shortTermCarryover, priorYearCarryover?.longTermCarryover]);
+
+  const saveCarryoverMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/capital-loss-carryovers/${currentYear - 1}`, {
+        shortTermCarryover: priorShortTerm || "0",
+        longTermCarryover: priorLongTerm || "0",
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/capital-loss-carryovers"] });
+      toast({
+        title: "Carryover Saved",
+        description: `Your ${currentYear - 1} capital loss carryover will be applied when Schedule D is calculated.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error.message || "Failed to save capital loss carryover",
+        variant: "destructive",
+      });
+    },
+  });
+
   const calculateMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/schedule-d/calculate", {});
@@ -33,6 +74,7 @@ export default function ScheduleDPage() {
       queryClient.invalidateQueries({ queryKey: ["/api/schedule-d"] });
       queryClient.invalidateQueries({ queryKey: ["/api/form8949"] });
       queryClient.invalidateQueries({ queryKey: ["/api/form1040"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/capital-loss-carryovers"] });
       toast({
         title: "Schedule D Calculated",
         description: `Generated ${data.form8949Count} Form 8949 entries. Total capital gain/loss: $${data.totalCapitalGainLoss.toFixed(2)}`,
@@ -94,6 +136,56 @@ export default function ScheduleDPage() {
         </Button>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Prior-Year Capital Loss Carryover</CardTitle>
+          <CardDescription>
+            {priorYearCarryover && !priorYearCarryover.isManualEntry
+              ? `Carried forward automatically from your ${currentYear - 1} return`
+              : `Enter the carryover from your ${currentYear - 1} Capital Loss Carryover Worksheet, if any`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="prior-short-term">Short-Term Carryover</Label>
+              <Input
+                id="prior-short-term"
+                type="number"
+                step="0.01"
+                min="0"
+                value={priorShortTerm}
+                onChange={(e) => setPriorShortTerm(e.target.value)}
+                data-testid="input-prior-short-term-carryover"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prior-long-term">Long-Term Carryover</Label>
+              <Input
+                id="prior-long-term"
+                type="number"
+                step="0.01"
+                min="0"
+                value={priorLongTerm}
+                onChange={(e) => setPriorLongTerm(e.target.value)}
+                data-testid="input-prior-long-term-carryover"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => saveCarryoverMutation.mutate()}
+              disabled={saveCarryoverMutation.isPending}
+              data-testid="button-save-carryover"
+            >
+              {saveCarryoverMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : null}
+              Save Carryover
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
       {!scheduleD ? (
         <Card>
           <CardContent className="py-12">
@@ -181,6 +273,35 @@ export default function ScheduleDPage() {
                   {formatCurrency(scheduleD.totalCapitalGainLoss)}
                 </span>
               </div>
+              <div className="space-y-3 mt-6">
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Short-Term Carryover Applied (line 6):</span>
+                  <span className="font-mono font-semibold">{formatCurrency(scheduleD.shortTermCarryover)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Long-Term Carryover Applied (line 14):</span>
+                  <span className="font-mono font-semibold">{formatCurrency(scheduleD.longTermCarryover)}</span>
+                </div>
+                {parseFloat(scheduleD.totalCapitalGainLoss || "0") < 0 && (
+                  <div className="flex justify-between pt-2 border-t">
+                    <span className="text-sm font-semibold">Deductible Loss on Form 1040 (line 21):</span>
+                    <span className="font-mono font-bold text-red-600">
+                      {formatCurrency(scheduleD.allowableCapitalLoss)}
+                    </span>
+                  </div>
+                )}
+                {currentYearCarryover && (
+                  parseFloat(currentYearCarryover.shortTermCarryover || "0") > 0 ||
+                  parseFloat(currentYearCarryover.longTermCarryover || "0") > 0
+                ) && (
+                  <div className="flex justify-between">
+                    <span className="text-sm text-muted-foreground">Carryover to {currentYear + 1} (short / long):</span>
+                    <span className="font-mono font-semibold" data-testid="text-carryover-next-year">
+                      {formatCurrency(currentYearCarryover.shortTermCarryover)} / {formatCurrency(currentYearCarryover.longTermCarryover)}
+                    </span>
+                  </div>
+                )}
+              </div>
             </CardContent>
           </Card>
 
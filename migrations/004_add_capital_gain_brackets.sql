@@ -0,0 +1,94 @@
+-- Migration: Add Capital Gain Rate Brackets
+-- This migration adds the 0% / 15% / 20% thresholds used by the
+-- Qualified Dividends and Capital Gain Tax Worksheet
+
+-- Federal Capital Gain Brackets table
+CREATE TABLE IF NOT EXISTS federal_capital_gain_brackets (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    filing_status TEXT NOT NULL,
+    min_income DECIMAL(12,2) NOT NULL,
+    max_income DECIMAL(12,2),
+    tax_rate DECIMAL(5,4) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_capital_gain_brackets_tax_year_filing_status ON federal_capital_gain_brackets(tax_year_id, filing_status);
+
+COMMENT ON TABLE federal_capital_gain_brackets IS 'Qualified dividend and long-term capital gain rate thresholds by year and filing status';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_capital_gain_brackets WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_capital_gain_brackets (tax_year_id, filing_status, min_income, max_income, tax_rate) VALUES
+        (tax_year_2023_id, 'single', 0, 44625, 0.00),
+        (tax_year_2023_id, 'single', 44625, 492300, 0.15),
+        (tax_year_2023_id, 'single', 492300, NULL, 0.20),
+
+        (tax_year_2023_id, 'married_joint', 0, 89250, 0.00),
+        (tax_year_2023_id, 'married_joint', 89250, 553850, 0.15),
+        (tax_year_2023_id, 'married_joint', 553850, NULL, 0.20),
+
+        (tax_year_2023_id, 'married_separate', 0, 44625, 0.00),
+        (tax_year_2023_id, 'married_separate', 44625, 276900, 0.15),
+        (tax_year_2023_id, 'married_separate', 276900, NULL, 0.20),
+
+        (tax_year_2023_id, 'head_of_household', 0, 59750, 0.00),
+        (tax_year_2023_id, 'head_of_household', 59750, 523050, 0.15),
+        (tax_year_2023_id, 'head_of_household', 523050, NULL, 0.20);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_capital_gain_brackets WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_capital_gain_brackets (tax_year_id, filing_status, min_income, max_income, tax_rate) VALUES
+        (tax_year_2024_id, 'single', 0, 47025, 0.00),
+        (tax_year_2024_id, 'single', 47025, 518900, 0.15),
+        (tax_year_2024_id, 'single', 518900, NULL, 0.20),
+
+        (tax_year_2024_id, 'married_joint', 0, 94050, 0.00),
+        (tax_year_2024_id, 'married_joint', 94050, 583750, 0.15),
+        (tax_year_2024_id, 'married_joint', 583750, NULL, 0.20),
+
+        (tax_year_2024_id, 'married_separate', 0, 47025, 0.00),
+        (tax_year_2024_id, 'married_separate', 47025, 291850, 0.15),
+        (tax_year_2024_id, 'married_separate', 291850, NULL, 0.20),
+
+        (tax_year_2024_id, 'head_of_household', 0, 63000, 0.00),
+        (tax_year_2024_id, 'head_of_household', 63000, 551350, 0.15),
+        (tax_year_2024_id, 'head_of_household', 551350, NULL, 0.20);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_capital_gain_brackets WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_capital_gain_brackets (tax_year_id, filing_status, min_income, max_income, tax_rate) VALUES
+        (tax_year_2025_id, 'single', 0, 48350, 0.00),
+        (tax_year_2025_id, 'single', 48350, 533400, 0.15),
+        (tax_year_2025_id, 'single', 533400, NULL, 0.20),
+
+        (tax_year_2025_id, 'married_joint', 0, 96700, 0.00),
+        (tax_year_2025_id, 'married_joint', 96700, 600050, 0.15),
+        (tax_year_2025_id, 'married_joint', 600050, NULL, 0.20),
+
+        (tax_year_2025_id, 'married_separate', 0, 48350, 0.00),
+        (tax_year_2025_id, 'married_separate', 48350, 300000, 0.15),
+        (tax_year_2025_id, 'married_separate', 300000, NULL, 0.20),
+
+        (tax_year_2025_id, 'head_of_household', 0, 64750, 0.00),
+        (tax_year_2025_id, 'head_of_household', 64750, 566700, 0.15),
+        (tax_year_2025_id, 'head_of_household', 566700, NULL, 0.20);
+    END IF;
+
+    RAISE NOTICE 'Capital gain rate brackets added successfully';
+END $$;
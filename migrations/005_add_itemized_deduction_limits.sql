@@ -0,0 +1,66 @@
+-- Migration: Add Itemized Deduction Limits
+-- This migration adds the per-year Schedule A limits (SALT cap, medical expense
+-- AGI floor and charitable cash AGI limit)
+
+-- Federal Itemized Deduction Limits table
+CREATE TABLE IF NOT EXISTS federal_itemized_deduction_limits (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    filing_status TEXT NOT NULL,
+    salt_cap DECIMAL(12,2) NOT NULL,
+    salt_cap_phaseout_threshold DECIMAL(12,2),
+    salt_cap_phaseout_rate DECIMAL(5,4),
+    salt_cap_floor DECIMAL(12,2),
+    medical_expense_floor_rate DECIMAL(5,4) NOT NULL,
+    charitable_cash_agi_limit_rate DECIMAL(5,4) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_itemized_deduction_limits_tax_year_filing_status ON federal_itemized_deduction_limits(tax_year_id, filing_status);
+
+COMMENT ON TABLE federal_itemized_deduction_limits IS 'Schedule A limits by year and filing status';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_itemized_deduction_limits WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_itemized_deduction_limits (tax_year_id, filing_status, salt_cap, medical_expense_floor_rate, charitable_cash_agi_limit_rate) VALUES
+        (tax_year_2023_id, 'single', 10000, 0.075, 0.60),
+        (tax_year_2023_id, 'married_joint', 10000, 0.075, 0.60),
+        (tax_year_2023_id, 'married_separate', 5000, 0.075, 0.60),
+        (tax_year_2023_id, 'head_of_household', 10000, 0.075, 0.60);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_itemized_deduction_limits WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_itemized_deduction_limits (tax_year_id, filing_status, salt_cap, medical_expense_floor_rate, charitable_cash_agi_limit_rate) VALUES
+        (tax_year_2024_id, 'single', 10000, 0.075, 0.60),
+        (tax_year_2024_id, 'married_joint', 10000, 0.075, 0.60),
+        (tax_year_2024_id, 'married_separate', 5000, 0.075, 0.60),
+        (tax_year_2024_id, 'head_of_household', 10000, 0.075, 0.60);
+    END IF;
+
+    -- 2025: SALT cap raised to $40,000 ($20,000 MFS), reduced by 30% of MAGI
+    -- over $500,000 ($250,000 MFS) but not below $10,000 ($5,000 MFS)
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_itemized_deduction_limits WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_itemized_deduction_limits (tax_year_id, filing_status, salt_cap, salt_cap_phaseout_threshold, salt_cap_phaseout_rate, salt_cap_floor, medical_expense_floor_rate, charitable_cash_agi_limit_rate) VALUES
+        (tax_year_2025_id, 'single', 40000, 500000, 0.30, 10000, 0.075, 0.60),
+        (tax_year_2025_id, 'married_joint', 40000, 500000, 0.30, 10000, 0.075, 0.60),
+        (tax_year_2025_id, 'married_separate', 20000, 250000, 0.30, 5000, 0.075, 0.60),
+        (tax_year_2025_id, 'head_of_household', 40000, 500000, 0.30, 10000, 0.075, 0.60);
+    END IF;
+
+    RAISE NOTICE 'Itemized deduction limits added successfully';
+END $$;
@@ -0,0 +1,67 @@
+-- Migration: Add Self-Employment Parameters
+-- This migration adds the per-year Schedule SE and Schedule C parameters
+-- (Social Security wage base, SE tax rates, standard mileage rate and the
+-- simplified home office rate)
+
+-- Federal Self-Employment Parameters table
+CREATE TABLE IF NOT EXISTS federal_self_employment_parameters (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    filing_status TEXT NOT NULL,
+    social_security_wage_base DECIMAL(12,2) NOT NULL,
+    social_security_rate DECIMAL(5,4) NOT NULL,
+    medicare_rate DECIMAL(5,4) NOT NULL,
+    net_earnings_rate DECIMAL(5,4) NOT NULL,
+    minimum_net_earnings DECIMAL(12,2) NOT NULL,
+    standard_mileage_rate DECIMAL(5,4) NOT NULL,
+    home_office_rate DECIMAL(12,2) NOT NULL,
+    home_office_max_square_feet INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_self_employment_parameters_tax_year_filing_status ON federal_self_employment_parameters(tax_year_id, filing_status);
+
+COMMENT ON TABLE federal_self_employment_parameters IS 'Schedule SE and Schedule C parameters by year and filing status';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_self_employment_parameters WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_self_employment_parameters (tax_year_id, filing_status, social_security_wage_base, social_security_rate, medicare_rate, net_earnings_rate, minimum_net_earnings, standard_mileage_rate, home_office_rate, home_office_max_square_feet) VALUES
+        (tax_year_2023_id, 'single', 160200, 0.124, 0.029, 0.9235, 400, 0.655, 5, 300),
+        (tax_year_2023_id, 'married_joint', 160200, 0.124, 0.029, 0.9235, 400, 0.655, 5, 300),
+        (tax_year_2023_id, 'married_separate', 160200, 0.124, 0.029, 0.9235, 400, 0.655, 5, 300),
+        (tax_year_2023_id, 'head_of_household', 160200, 0.124, 0.029, 0.9235, 400, 0.655, 5, 300);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_self_employment_parameters WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_self_employment_parameters (tax_year_id, filing_status, social_security_wage_base, social_security_rate, medicare_rate, net_earnings_rate, minimum_net_earnings, standard_mileage_rate, home_office_rate, home_office_max_square_feet) VALUES
+        (tax_year_2024_id, 'single', 168600, 0.124, 0.029, 0.9235, 400, 0.67, 5, 300),
+        (tax_year_2024_id, 'married_joint', 168600, 0.124, 0.029, 0.9235, 400, 0.67, 5, 300),
+        (tax_year_2024_id, 'married_separate', 168600, 0.124, 0.029, 0.9235, 400, 0.67, 5, 300),
+        (tax_year_2024_id, 'head_of_household', 168600, 0.124, 0.029, 0.9235, 400, 0.67, 5, 300);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_self_employment_parameters WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_self_employment_parameters (tax_year_id, filing_status, social_security_wage_base, social_security_rate, medicare_rate, net_earnings_rate, minimum_net_earnings, standard_mileage_rate, home_office_rate, home_office_max_square_feet) VALUES
+        (tax_year_2025_id, 'single', 176100, 0.124, 0.029, 0.9235, 400, 0.70, 5, 300),
+        (tax_year_2025_id, 'married_joint', 176100, 0.124, 0.029, 0.9235, 400, 0.70, 5, 300),
+        (tax_year_2025_id, 'married_separate', 176100, 0.124, 0.029, 0.9235, 400, 0.70, 5, 300),
+        (tax_year_2025_id, 'head_of_household', 176100, 0.124, 0.029, 0.9235, 400, 0.70, 5, 300);
+    END IF;
+
+    RAISE NOTICE 'Self-employment parameters added successfully';
+END $$;
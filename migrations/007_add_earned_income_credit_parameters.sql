@@ -0,0 +1,90 @@
+-- Migration: Add Earned Income Credit Parameters
+-- This migration adds the per-year EITC phase-in, plateau and phase-out amounts
+-- by filing status and number of qualifying children, plus the investment
+-- income limit. Married filing separately rows are intentionally omitted.
+
+-- Federal Earned Income Credits table
+CREATE TABLE IF NOT EXISTS federal_earned_income_credits (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    filing_status TEXT NOT NULL,
+    qualifying_children INTEGER NOT NULL,
+    credit_rate DECIMAL(5,4) NOT NULL,
+    earned_income_amount DECIMAL(12,2) NOT NULL,
+    max_credit DECIMAL(12,2) NOT NULL,
+    phaseout_threshold DECIMAL(12,2) NOT NULL,
+    phaseout_rate DECIMAL(5,4) NOT NULL,
+    investment_income_limit DECIMAL(12,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_earned_income_credits_tax_year_filing_status ON federal_earned_income_credits(tax_year_id, filing_status, qualifying_children);
+
+COMMENT ON TABLE federal_earned_income_credits IS 'Earned income credit parameters by year, filing status and number of qualifying children';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_earned_income_credits WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_earned_income_credits (tax_year_id, filing_status, qualifying_children, credit_rate, earned_income_amount, max_credit, phaseout_threshold, phaseout_rate, investment_income_limit) VALUES
+        (tax_year_2023_id, 'single', 0, 0.0765, 7840, 600, 9800, 0.0765, 11000),
+        (tax_year_2023_id, 'single', 1, 0.34, 11750, 3995, 21560, 0.1598, 11000),
+        (tax_year_2023_id, 'single', 2, 0.40, 16510, 6604, 21560, 0.2106, 11000),
+        (tax_year_2023_id, 'single', 3, 0.45, 16510, 7430, 21560, 0.2106, 11000),
+        (tax_year_2023_id, 'married_joint', 0, 0.0765, 7840, 600, 16370, 0.0765, 11000),
+        (tax_year_2023_id, 'married_joint', 1, 0.34, 11750, 3995, 28120, 0.1598, 11000),
+        (tax_year_2023_id, 'married_joint', 2, 0.40, 16510, 6604, 28120, 0.2106, 11000),
+        (tax_year_2023_id, 'married_joint', 3, 0.45, 16510, 7430, 28120, 0.2106, 11000),
+        (tax_year_2023_id, 'head_of_household', 0, 0.0765, 7840, 600, 9800, 0.0765, 11000),
+        (tax_year_2023_id, 'head_of_household', 1, 0.34, 11750, 3995, 21560, 0.1598, 11000),
+        (tax_year_2023_id, 'head_of_household', 2, 0.40, 16510, 6604, 21560, 0.2106, 11000),
+        (tax_year_2023_id, 'head_of_household', 3, 0.45, 16510, 7430, 21560, 0.2106, 11000);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_earned_income_credits WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_earned_income_credits (tax_year_id, filing_status, qualifying_children, credit_rate, earned_income_amount, max_credit, phaseout_threshold, phaseout_rate, investment_income_limit) VALUES
+        (tax_year_2024_id, 'single', 0, 0.0765, 8260, 632, 10330, 0.0765, 11600),
+        (tax_year_2024_id, 'single', 1, 0.34, 12390, 4213, 22720, 0.1598, 11600),
+        (tax_year_2024_id, 'single', 2, 0.40, 17400, 6960, 22720, 0.2106, 11600),
+        (tax_year_2024_id, 'single', 3, 0.45, 17400, 7830, 22720, 0.2106, 11600),
+        (tax_year_2024_id, 'married_joint', 0, 0.0765, 8260, 632, 17250, 0.0765, 11600),
+        (tax_year_2024_id, 'married_joint', 1, 0.34, 12390, 4213, 29640, 0.1598, 11600),
+        (tax_year_2024_id, 'married_joint', 2, 0.40, 17400, 6960, 29640, 0.2106, 11600),
+        (tax_year_2024_id, 'married_joint', 3, 0.45, 17400, 7830, 29640, 0.2106, 11600),
+        (tax_year_2024_id, 'head_of_household', 0, 0.0765, 8260, 632, 10330, 0.0765, 11600),
+        (tax_year_2024_id, 'head_of_household', 1, 0.34, 12390, 4213, 22720, 0.1598, 11600),
+        (tax_year_2024_id, 'head_of_household', 2, 0.40, 17400, 6960, 22720, 0.2106, 11600),
+        (tax_year_2024_id, 'head_of_household', 3, 0.45, 17400, 7830, 22720, 0.2106, 11600);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_earned_income_credits WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_earned_income_credits (tax_year_id, filing_status, qualifying_children, credit_rate, earned_income_amount, max_credit, phaseout_threshold, phaseout_rate, investment_income_limit) VALUES
+        (tax_year_2025_id, 'single', 0, 0.0765, 8490, 649, 10620, 0.0765, 11950),
+        (tax_year_2025_id, 'single', 1, 0.34, 12730, 4328, 23350, 0.1598, 11950),
+        (tax_year_2025_id, 'single', 2, 0.40, 17880, 7152, 23350, 0.2106, 11950),
+        (tax_year_2025_id, 'single', 3, 0.45, 17880, 8046, 23350, 0.2106, 11950),
+        (tax_year_2025_id, 'married_joint', 0, 0.0765, 8490, 649, 17730, 0.0765, 11950),
+        (tax_year_2025_id, 'married_joint', 1, 0.34, 12730, 4328, 30470, 0.1598, 11950),
+        (tax_year_2025_id, 'married_joint', 2, 0.40, 17880, 7152, 30470, 0.2106, 11950),
+        (tax_year_2025_id, 'married_joint', 3, 0.45, 17880, 8046, 30470, 0.2106, 11950),
+        (tax_year_2025_id, 'head_of_household', 0, 0.0765, 8490, 649, 10620, 0.0765, 11950),
+        (tax_year_2025_id, 'head_of_household', 1, 0.34, 12730, 4328, 23350, 0.1598, 11950),
+        (tax_year_2025_id, 'head_of_household', 2, 0.40, 17880, 7152, 23350, 0.2106, 11950),
+        (tax_year_2025_id, 'head_of_household', 3, 0.45, 17880, 8046, 23350, 0.2106, 11950);
+    END IF;
+
+    RAISE NOTICE 'Earned income credit parameters added successfully';
+END $$;
@@ -0,0 +1,67 @@
+-- Migration: Add Child Tax Credit Parameters
+-- This migration adds the per-year child tax credit / credit for other
+-- dependents amounts, MAGI phase-out thresholds and the refundable additional
+-- child tax credit (Schedule 8812) limits
+
+-- Federal Child Tax Credits table
+CREATE TABLE IF NOT EXISTS federal_child_tax_credits (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    filing_status TEXT NOT NULL,
+    credit_per_child DECIMAL(12,2) NOT NULL,
+    credit_per_other_dependent DECIMAL(12,2) NOT NULL,
+    phaseout_threshold DECIMAL(12,2) NOT NULL,
+    phaseout_rate DECIMAL(5,4) NOT NULL,
+    refundable_limit_per_child DECIMAL(12,2) NOT NULL,
+    refundable_earned_income_threshold DECIMAL(12,2) NOT NULL,
+    refundable_rate DECIMAL(5,4) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_child_tax_credits_tax_year_filing_status ON federal_child_tax_credits(tax_year_id, filing_status);
+
+COMMENT ON TABLE federal_child_tax_credits IS 'Child tax credit, credit for other dependents and additional child tax credit parameters by year and filing status';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_child_tax_credits WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_child_tax_credits (tax_year_id, filing_status, credit_per_child, credit_per_other_dependent, phaseout_threshold, phaseout_rate, refundable_limit_per_child, refundable_earned_income_threshold, refundable_rate) VALUES
+        (tax_year_2023_id, 'single', 2000, 500, 200000, 0.05, 1600, 2500, 0.15),
+        (tax_year_2023_id, 'married_joint', 2000, 500, 400000, 0.05, 1600, 2500, 0.15),
+        (tax_year_2023_id, 'married_separate', 2000, 500, 200000, 0.05, 1600, 2500, 0.15),
+        (tax_year_2023_id, 'head_of_household', 2000, 500, 200000, 0.05, 1600, 2500, 0.15);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_child_tax_credits WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_child_tax_credits (tax_year_id, filing_status, credit_per_child, credit_per_other_dependent, phaseout_threshold, phaseout_rate, refundable_limit_per_child, refundable_earned_income_threshold, refundable_rate) VALUES
+        (tax_year_2024_id, 'single', 2000, 500, 200000, 0.05, 1700, 2500, 0.15),
+        (tax_year_2024_id, 'married_joint', 2000, 500, 400000, 0.05, 1700, 2500, 0.15),
+        (tax_year_2024_id, 'married_separate', 2000, 500, 200000, 0.05, 1700, 2500, 0.15),
+        (tax_year_2024_id, 'head_of_household', 2000, 500, 200000, 0.05, 1700, 2500, 0.15);
+    END IF;
+
+    -- 2025: credit per child raised to $2,200
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_child_tax_credits WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_child_tax_credits (tax_year_id, filing_status, credit_per_child, credit_per_other_dependent, phaseout_threshold, phaseout_rate, refundable_limit_per_child, refundable_earned_income_threshold, refundable_rate) VALUES
+        (tax_year_2025_id, 'single', 2200, 500, 200000, 0.05, 1700, 2500, 0.15),
+        (tax_year_2025_id, 'married_joint', 2200, 500, 400000, 0.05, 1700, 2500, 0.15),
+        (tax_year_2025_id, 'married_separate', 2200, 500, 200000, 0.05, 1700, 2500, 0.15),
+        (tax_year_2025_id, 'head_of_household', 2200, 500, 200000, 0.05, 1700, 2500, 0.15);
+    END IF;
+
+    RAISE NOTICE 'Child tax credit parameters added successfully';
+END $$;
@@ -0,0 +1,64 @@
+-- Migration: Add Alternative Minimum Tax Parameters
+-- This migration adds the per-year AMT exemption amounts, exemption phase-out
+-- thresholds and the 26%/28% rate breakpoint used by Form 6251
+
+-- Federal Alternative Minimum Tax table
+CREATE TABLE IF NOT EXISTS federal_alternative_minimum_tax (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    filing_status TEXT NOT NULL,
+    exemption_amount DECIMAL(12,2) NOT NULL,
+    phaseout_threshold DECIMAL(12,2) NOT NULL,
+    phaseout_rate DECIMAL(5,4) NOT NULL,
+    rate_breakpoint DECIMAL(12,2) NOT NULL,
+    lower_rate DECIMAL(5,4) NOT NULL,
+    upper_rate DECIMAL(5,4) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_alternative_minimum_tax_tax_year_filing_status ON federal_alternative_minimum_tax(tax_year_id, filing_status);
+
+COMMENT ON TABLE federal_alternative_minimum_tax IS 'Alternative minimum tax exemption, phase-out and rate parameters by year and filing status';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_alternative_minimum_tax WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_alternative_minimum_tax (tax_year_id, filing_status, exemption_amount, phaseout_threshold, phaseout_rate, rate_breakpoint, lower_rate, upper_rate) VALUES
+        (tax_year_2023_id, 'single', 81300, 578150, 0.25, 220700, 0.26, 0.28),
+        (tax_year_2023_id, 'married_joint', 126500, 1156300, 0.25, 220700, 0.26, 0.28),
+        (tax_year_2023_id, 'married_separate', 63250, 578150, 0.25, 110350, 0.26, 0.28),
+        (tax_year_2023_id, 'head_of_household', 81300, 578150, 0.25, 220700, 0.26, 0.28);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_alternative_minimum_tax WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_alternative_minimum_tax (tax_year_id, filing_status, exemption_amount, phaseout_threshold, phaseout_rate, rate_breakpoint, lower_rate, upper_rate) VALUES
+        (tax_year_2024_id, 'single', 85700, 609350, 0.25, 232600, 0.26, 0.28),
+        (tax_year_2024_id, 'married_joint', 133300, 1218700, 0.25, 232600, 0.26, 0.28),
+        (tax_year_2024_id, 'married_separate', 66650, 609350, 0.25, 116300, 0.26, 0.28),
+        (tax_year_2024_id, 'head_of_household', 85700, 609350, 0.25, 232600, 0.26, 0.28);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_alternative_minimum_tax WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_alternative_minimum_tax (tax_year_id, filing_status, exemption_amount, phaseout_threshold, phaseout_rate, rate_breakpoint, lower_rate, upper_rate) VALUES
+        (tax_year_2025_id, 'single', 88100, 626350, 0.25, 239100, 0.26, 0.28),
+        (tax_year_2025_id, 'married_joint', 137000, 1252700, 0.25, 239100, 0.26, 0.28),
+        (tax_year_2025_id, 'married_separate', 68500, 626350, 0.25, 119550, 0.26, 0.28),
+        (tax_year_2025_id, 'head_of_household', 88100, 626350, 0.25, 239100, 0.26, 0.28);
+    END IF;
+
+    RAISE NOTICE 'Alternative minimum tax parameters added successfully';
+END $$;
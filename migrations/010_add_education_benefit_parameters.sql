@@ -0,0 +1,62 @@
+-- Migration: Add Education Benefit Parameters
+-- This migration adds the per-year MAGI phase-out ranges for the American opportunity
+-- and lifetime learning credits (Form 8863) and the student loan interest deduction
+-- (Schedule 1 line 21). Neither benefit is available when married filing separately,
+-- so that filing status has no rows.
+
+-- Federal Education Benefits table
+CREATE TABLE IF NOT EXISTS federal_education_benefits (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    filing_status TEXT NOT NULL,
+    credit_phaseout_start DECIMAL(12,2) NOT NULL,
+    credit_phaseout_end DECIMAL(12,2) NOT NULL,
+    student_loan_interest_max DECIMAL(12,2) NOT NULL,
+    student_loan_interest_phaseout_start DECIMAL(12,2) NOT NULL,
+    student_loan_interest_phaseout_end DECIMAL(12,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_education_benefits_tax_year_filing_status ON federal_education_benefits(tax_year_id, filing_status);
+
+COMMENT ON TABLE federal_education_benefits IS 'Education credit and student loan interest deduction phase-outs by year and filing status';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_education_benefits WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_education_benefits (tax_year_id, filing_status, credit_phaseout_start, credit_phaseout_end, student_loan_interest_max, student_loan_interest_phaseout_start, student_loan_interest_phaseout_end) VALUES
+        (tax_year_2023_id, 'single', 80000, 90000, 2500, 75000, 90000),
+        (tax_year_2023_id, 'married_joint', 160000, 180000, 2500, 155000, 185000),
+        (tax_year_2023_id, 'head_of_household', 80000, 90000, 2500, 75000, 90000);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_education_benefits WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_education_benefits (tax_year_id, filing_status, credit_phaseout_start, credit_phaseout_end, student_loan_interest_max, student_loan_interest_phaseout_start, student_loan_interest_phaseout_end) VALUES
+        (tax_year_2024_id, 'single', 80000, 90000, 2500, 80000, 95000),
+        (tax_year_2024_id, 'married_joint', 160000, 180000, 2500, 165000, 195000),
+        (tax_year_2024_id, 'head_of_household', 80000, 90000, 2500, 80000, 95000);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_education_benefits WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_education_benefits (tax_year_id, filing_status, credit_phaseout_start, credit_phaseout_end, student_loan_interest_max, student_loan_interest_phaseout_start, student_loan_interest_phaseout_end) VALUES
+        (tax_year_2025_id, 'single', 80000, 90000, 2500, 85000, 100000),
+        (tax_year_2025_id, 'married_joint', 160000, 180000, 2500, 170000, 200000),
+        (tax_year_2025_id, 'head_of_household', 80000, 90000, 2500, 85000, 100000);
+    END IF;
+
+    RAISE NOTICE 'Education benefit parameters added successfully';
+END $$;
@@ -0,0 +1,53 @@
+-- Migration: Add HSA Contribution Limits
+-- This migration adds the per-year health savings account contribution limits for
+-- self-only and family HDHP coverage and the age 55 catch-up amount (Form 8889
+-- lines 3 and 7). The limits do not depend on filing status.
+
+-- Federal HSA Limits table
+CREATE TABLE IF NOT EXISTS federal_hsa_limits (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    self_only_limit DECIMAL(12,2) NOT NULL,
+    family_limit DECIMAL(12,2) NOT NULL,
+    catch_up_amount DECIMAL(12,2) NOT NULL,
+    catch_up_age INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_hsa_limits_tax_year ON federal_hsa_limits(tax_year_id);
+
+COMMENT ON TABLE federal_hsa_limits IS 'HSA contribution limits and catch-up amount by year';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_hsa_limits WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_hsa_limits (tax_year_id, self_only_limit, family_limit, catch_up_amount, catch_up_age) VALUES
+        (tax_year_2023_id, 3850, 7750, 1000, 55);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_hsa_limits WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_hsa_limits (tax_year_id, self_only_limit, family_limit, catch_up_amount, catch_up_age) VALUES
+        (tax_year_2024_id, 4150, 8300, 1000, 55);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_hsa_limits WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_hsa_limits (tax_year_id, self_only_limit, family_limit, catch_up_amount, catch_up_age) VALUES
+        (tax_year_2025_id, 4300, 8550, 1000, 55);
+    END IF;
+
+    RAISE NOTICE 'HSA contribution limits added successfully';
+END $$;
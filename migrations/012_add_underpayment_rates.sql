@@ -0,0 +1,54 @@
+-- Migration: Add Underpayment Interest Rates
+-- This migration adds the quarterly IRS underpayment interest rates used by Form 2210
+-- to figure the estimated tax penalty. Each tax year covers the periods from the first
+-- installment due date (April 15) through April 15 of the following year.
+
+-- Federal Underpayment Rates table
+CREATE TABLE IF NOT EXISTS federal_underpayment_rates (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    rate DECIMAL(5,4) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_underpayment_rates_tax_year ON federal_underpayment_rates(tax_year_id);
+
+COMMENT ON TABLE federal_underpayment_rates IS 'IRS underpayment interest rates by period for the Form 2210 penalty';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_underpayment_rates WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_underpayment_rates (tax_year_id, start_date, end_date, rate) VALUES
+        (tax_year_2023_id, '2023-04-15', '2023-09-30', 0.07),
+        (tax_year_2023_id, '2023-10-01', '2024-04-15', 0.08);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_underpayment_rates WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_underpayment_rates (tax_year_id, start_date, end_date, rate) VALUES
+        (tax_year_2024_id, '2024-04-15', '2024-12-31', 0.08),
+        (tax_year_2024_id, '2025-01-01', '2025-04-15', 0.07);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_underpayment_rates WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_underpayment_rates (tax_year_id, start_date, end_date, rate) VALUES
+        (tax_year_2025_id, '2025-04-15', '2026-04-15', 0.07);
+    END IF;
+
+    RAISE NOTICE 'Underpayment interest rates added successfully';
+END $$;
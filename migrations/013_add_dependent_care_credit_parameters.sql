@@ -0,0 +1,60 @@
+-- Migration: Add Child and Dependent Care Credit Parameters
+-- This migration adds the per-year Form 2441 parameters: the expense limits for one or
+-- two or more qualifying persons, the AGI-based credit percentage, the dependent care
+-- benefit exclusion and the deemed earned income of a student or disabled spouse.
+
+-- Federal Dependent Care Credit table
+CREATE TABLE IF NOT EXISTS federal_dependent_care_credit (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    expense_limit_one DECIMAL(12,2) NOT NULL,
+    expense_limit_two_or_more DECIMAL(12,2) NOT NULL,
+    max_credit_rate DECIMAL(5,4) NOT NULL,
+    min_credit_rate DECIMAL(5,4) NOT NULL,
+    phaseout_start DECIMAL(12,2) NOT NULL,
+    phaseout_step DECIMAL(12,2) NOT NULL,
+    benefit_exclusion DECIMAL(12,2) NOT NULL,
+    benefit_exclusion_married_separate DECIMAL(12,2) NOT NULL,
+    qualifying_child_age INTEGER NOT NULL,
+    deemed_monthly_income_one DECIMAL(12,2) NOT NULL,
+    deemed_monthly_income_two_or_more DECIMAL(12,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_dependent_care_credit_tax_year ON federal_dependent_care_credit(tax_year_id);
+
+COMMENT ON TABLE federal_dependent_care_credit IS 'Child and dependent care credit limits and rates by year (Form 2441)';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_dependent_care_credit WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_dependent_care_credit (tax_year_id, expense_limit_one, expense_limit_two_or_more, max_credit_rate, min_credit_rate, phaseout_start, phaseout_step, benefit_exclusion, benefit_exclusion_married_separate, qualifying_child_age, deemed_monthly_income_one, deemed_monthly_income_two_or_more) VALUES
+        (tax_year_2023_id, 3000, 6000, 0.35, 0.20, 15000, 2000, 5000, 2500, 13, 250, 500);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_dependent_care_credit WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_dependent_care_credit (tax_year_id, expense_limit_one, expense_limit_two_or_more, max_credit_rate, min_credit_rate, phaseout_start, phaseout_step, benefit_exclusion, benefit_exclusion_married_separate, qualifying_child_age, deemed_monthly_income_one, deemed_monthly_income_two_or_more) VALUES
+        (tax_year_2024_id, 3000, 6000, 0.35, 0.20, 15000, 2000, 5000, 2500, 13, 250, 500);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_dependent_care_credit WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_dependent_care_credit (tax_year_id, expense_limit_one, expense_limit_two_or_more, max_credit_rate, min_credit_rate, phaseout_start, phaseout_step, benefit_exclusion, benefit_exclusion_married_separate, qualifying_child_age, deemed_monthly_income_one, deemed_monthly_income_two_or_more) VALUES
+        (tax_year_2025_id, 3000, 6000, 0.35, 0.20, 15000, 2000, 5000, 2500, 13, 250, 500);
+    END IF;
+
+    RAISE NOTICE 'Dependent care credit parameters added successfully';
+END $$;
@@ -0,0 +1,110 @@
+-- Migration: Add Premium Tax Credit Parameters
+-- This migration adds the per-year Form 8962 parameters: the federal poverty lines for the
+-- contiguous states, Alaska and Hawaii (each return uses the prior calendar year's
+-- guidelines) and the applicable percentage and excess advance payment repayment limit for
+-- each household income band.
+
+-- Federal Poverty Lines table
+CREATE TABLE IF NOT EXISTS federal_poverty_lines (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    region TEXT NOT NULL,
+    first_person DECIMAL(12,2) NOT NULL,
+    additional_person DECIMAL(12,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+-- Federal Premium Tax Credit table
+CREATE TABLE IF NOT EXISTS federal_premium_tax_credit (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    min_fpl_percent INTEGER NOT NULL,
+    max_fpl_percent INTEGER,
+    initial_applicable_percentage DECIMAL(5,4) NOT NULL,
+    final_applicable_percentage DECIMAL(5,4) NOT NULL,
+    repayment_limit_single DECIMAL(12,2),
+    repayment_limit_other DECIMAL(12,2),
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_poverty_lines_tax_year ON federal_poverty_lines(tax_year_id, region);
+CREATE INDEX IF NOT EXISTS idx_federal_premium_tax_credit_tax_year ON federal_premium_tax_credit(tax_year_id);
+
+COMMENT ON TABLE federal_poverty_lines IS 'Federal poverty lines used for the premium tax credit by year and region (Form 8962)';
+COMMENT ON TABLE federal_premium_tax_credit IS 'Premium tax credit applicable percentages and repayment limits by year and income band (Form 8962)';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_poverty_lines WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_poverty_lines (tax_year_id, region, first_person, additional_person) VALUES
+        (tax_year_2023_id, 'contiguous', 13590, 4720),
+        (tax_year_2023_id, 'alaska', 16990, 5900),
+        (tax_year_2023_id, 'hawaii', 15630, 5430);
+    END IF;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_premium_tax_credit WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_premium_tax_credit (tax_year_id, min_fpl_percent, max_fpl_percent, initial_applicable_percentage, final_applicable_percentage, repayment_limit_single, repayment_limit_other) VALUES
+        (tax_year_2023_id, 0, 150, 0, 0, 350, 700),
+        (tax_year_2023_id, 150, 200, 0, 0.02, 350, 700),
+        (tax_year_2023_id, 200, 250, 0.02, 0.04, 900, 1800),
+        (tax_year_2023_id, 250, 300, 0.04, 0.06, 900, 1800),
+        (tax_year_2023_id, 300, 400, 0.06, 0.085, 1500, 3000),
+        (tax_year_2023_id, 400, NULL, 0.085, 0.085, NULL, NULL);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_poverty_lines WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_poverty_lines (tax_year_id, region, first_person, additional_person) VALUES
+        (tax_year_2024_id, 'contiguous', 14580, 5140),
+        (tax_year_2024_id, 'alaska', 18210, 6430),
+        (tax_year_2024_id, 'hawaii', 16770, 5910);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_premium_tax_credit WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_premium_tax_credit (tax_year_id, min_fpl_percent, max_fpl_percent, initial_applicable_percentage, final_applicable_percentage, repayment_limit_single, repayment_limit_other) VALUES
+        (tax_year_2024_id, 0, 150, 0, 0, 375, 750),
+        (tax_year_2024_id, 150, 200, 0, 0.02, 375, 750),
+        (tax_year_2024_id, 200, 250, 0.02, 0.04, 950, 1900),
+        (tax_year_2024_id, 250, 300, 0.04, 0.06, 950, 1900),
+        (tax_year_2024_id, 300, 400, 0.06, 0.085, 1575, 3150),
+        (tax_year_2024_id, 400, NULL, 0.085, 0.085, NULL, NULL);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_poverty_lines WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_poverty_lines (tax_year_id, region, first_person, additional_person) VALUES
+        (tax_year_2025_id, 'contiguous', 15060, 5380),
+        (tax_year_2025_id, 'alaska', 18810, 6730),
+        (tax_year_2025_id, 'hawaii', 17310, 6190);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_premium_tax_credit WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_premium_tax_credit (tax_year_id, min_fpl_percent, max_fpl_percent, initial_applicable_percentage, final_applicable_percentage, repayment_limit_single, repayment_limit_other) VALUES
+        (tax_year_2025_id, 0, 150, 0, 0, 375, 750),
+        (tax_year_2025_id, 150, 200, 0, 0.02, 375, 750),
+        (tax_year_2025_id, 200, 250, 0.02, 0.04, 975, 1950),
+        (tax_year_2025_id, 250, 300, 0.04, 0.06, 975, 1950),
+        (tax_year_2025_id, 300, 400, 0.06, 0.085, 1625, 3250),
+        (tax_year_2025_id, 400, NULL, 0.085, 0.085, NULL, NULL);
+    END IF;
+
+    RAISE NOTICE 'Premium tax credit parameters added successfully';
+END $$;
@@ -0,0 +1,74 @@
+-- Migration: Add Retirement Savings Parameters
+-- This migration adds the per-year IRA and Saver's Credit parameters by filing status: the
+-- combined traditional and Roth contribution limit and age 50 catch-up, the MAGI ranges where
+-- the IRA deduction phases out for someone covered by a workplace plan (or whose spouse is),
+-- the Roth contribution phase-out, and the Form 8880 AGI limits for the 50%, 20% and 10% rates.
+-- Married filing separately uses a $0-$10,000 range for every phase-out.
+
+-- Federal Retirement Savings table
+CREATE TABLE IF NOT EXISTS federal_retirement_savings (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    filing_status TEXT NOT NULL,
+    ira_contribution_limit DECIMAL(12,2) NOT NULL,
+    ira_catch_up_amount DECIMAL(12,2) NOT NULL,
+    ira_catch_up_age INTEGER NOT NULL,
+    covered_phaseout_start DECIMAL(12,2) NOT NULL,
+    covered_phaseout_end DECIMAL(12,2) NOT NULL,
+    spouse_covered_phaseout_start DECIMAL(12,2),
+    spouse_covered_phaseout_end DECIMAL(12,2),
+    roth_phaseout_start DECIMAL(12,2) NOT NULL,
+    roth_phaseout_end DECIMAL(12,2) NOT NULL,
+    savers_credit_max_contribution DECIMAL(12,2) NOT NULL,
+    savers_credit_fifty_percent_limit DECIMAL(12,2) NOT NULL,
+    savers_credit_twenty_percent_limit DECIMAL(12,2) NOT NULL,
+    savers_credit_ten_percent_limit DECIMAL(12,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_retirement_savings_tax_year ON federal_retirement_savings(tax_year_id, filing_status);
+
+COMMENT ON TABLE federal_retirement_savings IS 'IRA contribution limits, deduction and Roth phase-outs and Saver''s Credit limits by year and filing status (Form 8606, Form 8880)';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_retirement_savings WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_retirement_savings (tax_year_id, filing_status, ira_contribution_limit, ira_catch_up_amount, ira_catch_up_age, covered_phaseout_start, covered_phaseout_end, spouse_covered_phaseout_start, spouse_covered_phaseout_end, roth_phaseout_start, roth_phaseout_end, savers_credit_max_contribution, savers_credit_fifty_percent_limit, savers_credit_twenty_percent_limit, savers_credit_ten_percent_limit) VALUES
+        (tax_year_2023_id, 'single', 6500, 1000, 50, 73000, 83000, NULL, NULL, 138000, 153000, 2000, 21750, 23750, 36500),
+        (tax_year_2023_id, 'married_joint', 6500, 1000, 50, 116000, 136000, 218000, 228000, 218000, 228000, 2000, 43500, 47500, 73000),
+        (tax_year_2023_id, 'married_separate', 6500, 1000, 50, 0, 10000, 0, 10000, 0, 10000, 2000, 21750, 23750, 36500),
+        (tax_year_2023_id, 'head_of_household', 6500, 1000, 50, 73000, 83000, NULL, NULL, 138000, 153000, 2000, 32625, 35625, 54750);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_retirement_savings WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_retirement_savings (tax_year_id, filing_status, ira_contribution_limit, ira_catch_up_amount, ira_catch_up_age, covered_phaseout_start, covered_phaseout_end, spouse_covered_phaseout_start, spouse_covered_phaseout_end, roth_phaseout_start, roth_phaseout_end, savers_credit_max_contribution, savers_credit_fifty_percent_limit, savers_credit_twenty_percent_limit, savers_credit_ten_percent_limit) VALUES
+        (tax_year_2024_id, 'single', 7000, 1000, 50, 77000, 87000, NULL, NULL, 146000, 161000, 2000, 23000, 25000, 38250),
+        (tax_year_2024_id, 'married_joint', 7000, 1000, 50, 123000, 143000, 230000, 240000, 230000, 240000, 2000, 46000, 50000, 76500),
+        (tax_year_2024_id, 'married_separate', 7000, 1000, 50, 0, 10000, 0, 10000, 0, 10000, 2000, 23000, 25000, 38250),
+        (tax_year_2024_id, 'head_of_household', 7000, 1000, 50, 77000, 87000, NULL, NULL, 146000, 161000, 2000, 34500, 37500, 57375);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_retirement_savings WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_retirement_savings (tax_year_id, filing_status, ira_contribution_limit, ira_catch_up_amount, ira_catch_up_age, covered_phaseout_start, covered_phaseout_end, spouse_covered_phaseout_start, spouse_covered_phaseout_end, roth_phaseout_start, roth_phaseout_end, savers_credit_max_contribution, savers_credit_fifty_percent_limit, savers_credit_twenty_percent_limit, savers_credit_ten_percent_limit) VALUES
+        (tax_year_2025_id, 'single', 7000, 1000, 50, 79000, 89000, NULL, NULL, 150000, 165000, 2000, 23750, 25500, 39500),
+        (tax_year_2025_id, 'married_joint', 7000, 1000, 50, 126000, 146000, 236000, 246000, 236000, 246000, 2000, 47500, 51000, 79000),
+        (tax_year_2025_id, 'married_separate', 7000, 1000, 50, 0, 10000, 0, 10000, 0, 10000, 2000, 23750, 25500, 39500),
+        (tax_year_2025_id, 'head_of_household', 7000, 1000, 50, 79000, 89000, NULL, NULL, 150000, 165000, 2000, 35625, 38250, 59250);
+    END IF;
+
+    RAISE NOTICE 'Retirement savings parameters added successfully';
+END $$;
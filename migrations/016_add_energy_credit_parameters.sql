@@ -0,0 +1,61 @@
+-- Migration: Add Residential Energy Credit Parameters
+-- This migration adds the per-year Form 5695 parameters: the residential clean energy
+-- credit rate, the battery storage capacity floor and fuel cell limit (Part I), and the
+-- energy efficient home improvement credit rate with its per-item and annual limits
+-- (Part II). The limits do not depend on filing status.
+
+-- Federal Energy Credits table
+CREATE TABLE IF NOT EXISTS federal_energy_credits (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    clean_energy_rate DECIMAL(5,4) NOT NULL,
+    battery_minimum_capacity DECIMAL(8,2) NOT NULL,
+    fuel_cell_limit_per_kilowatt DECIMAL(12,2) NOT NULL,
+    home_improvement_rate DECIMAL(5,4) NOT NULL,
+    home_improvement_annual_limit DECIMAL(12,2) NOT NULL,
+    heat_pump_annual_limit DECIMAL(12,2) NOT NULL,
+    exterior_door_limit DECIMAL(12,2) NOT NULL,
+    exterior_doors_annual_limit DECIMAL(12,2) NOT NULL,
+    windows_annual_limit DECIMAL(12,2) NOT NULL,
+    energy_property_item_limit DECIMAL(12,2) NOT NULL,
+    home_energy_audit_limit DECIMAL(12,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_energy_credits_tax_year ON federal_energy_credits(tax_year_id);
+
+COMMENT ON TABLE federal_energy_credits IS 'Residential clean energy and energy efficient home improvement credit rates and limits by year (Form 5695)';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_energy_credits WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_energy_credits (tax_year_id, clean_energy_rate, battery_minimum_capacity, fuel_cell_limit_per_kilowatt, home_improvement_rate, home_improvement_annual_limit, heat_pump_annual_limit, exterior_door_limit, exterior_doors_annual_limit, windows_annual_limit, energy_property_item_limit, home_energy_audit_limit) VALUES
+        (tax_year_2023_id, 0.30, 3, 1000, 0.30, 1200, 2000, 250, 500, 600, 600, 150);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_energy_credits WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_energy_credits (tax_year_id, clean_energy_rate, battery_minimum_capacity, fuel_cell_limit_per_kilowatt, home_improvement_rate, home_improvement_annual_limit, heat_pump_annual_limit, exterior_door_limit, exterior_doors_annual_limit, windows_annual_limit, energy_property_item_limit, home_energy_audit_limit) VALUES
+        (tax_year_2024_id, 0.30, 3, 1000, 0.30, 1200, 2000, 250, 500, 600, 600, 150);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_energy_credits WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_energy_credits (tax_year_id, clean_energy_rate, battery_minimum_capacity, fuel_cell_limit_per_kilowatt, home_improvement_rate, home_improvement_annual_limit, heat_pump_annual_limit, exterior_door_limit, exterior_doors_annual_limit, windows_annual_limit, energy_property_item_limit, home_energy_audit_limit) VALUES
+        (tax_year_2025_id, 0.30, 3, 1000, 0.30, 1200, 2000, 250, 500, 600, 600, 150);
+    END IF;
+
+    RAISE NOTICE 'Residential energy credit parameters added successfully';
+END $$;
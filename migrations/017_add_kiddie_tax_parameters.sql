@@ -0,0 +1,51 @@
+-- Migration: Add Kiddie Tax Parameters
+-- This migration adds the per-year Form 8615 unearned income amounts. A child's net
+-- unearned income above the threshold is taxed at the parent's rate; the base amount
+-- replaces the threshold on line 2 when the child itemizes deductions.
+
+-- Federal Kiddie Tax table
+CREATE TABLE IF NOT EXISTS federal_kiddie_tax (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    unearned_income_base_amount DECIMAL(12,2) NOT NULL,
+    unearned_income_threshold DECIMAL(12,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_kiddie_tax_tax_year ON federal_kiddie_tax(tax_year_id);
+
+COMMENT ON TABLE federal_kiddie_tax IS 'Unearned income amounts for the tax on a child''s unearned income by year (Form 8615)';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_kiddie_tax WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_kiddie_tax (tax_year_id, unearned_income_base_amount, unearned_income_threshold) VALUES
+        (tax_year_2023_id, 1250, 2500);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_kiddie_tax WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_kiddie_tax (tax_year_id, unearned_income_base_amount, unearned_income_threshold) VALUES
+        (tax_year_2024_id, 1300, 2600);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_kiddie_tax WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_kiddie_tax (tax_year_id, unearned_income_base_amount, unearned_income_threshold) VALUES
+        (tax_year_2025_id, 1350, 2700);
+    END IF;
+
+    RAISE NOTICE 'Kiddie tax parameters added successfully';
+END $$;
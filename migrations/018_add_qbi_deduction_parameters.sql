@@ -0,0 +1,63 @@
+-- Migration: Add Qualified Business Income Deduction Parameters
+-- This migration adds the per-year Section 199A parameters by filing status: the 20%
+-- deduction rate, the taxable income threshold at or below which the simplified Form 8995
+-- applies, and the phase-in range over which the W-2 wage/UBIA limitation and the
+-- specified service trade or business exclusion take effect (Form 8995-A).
+
+-- Federal QBI Deduction table
+CREATE TABLE IF NOT EXISTS federal_qbi_deduction (
+    id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+    tax_year_id VARCHAR NOT NULL REFERENCES tax_years(id),
+    filing_status TEXT NOT NULL,
+    deduction_rate DECIMAL(5,4) NOT NULL,
+    threshold DECIMAL(12,2) NOT NULL,
+    phase_in_range DECIMAL(12,2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_federal_qbi_deduction_tax_year ON federal_qbi_deduction(tax_year_id, filing_status);
+
+COMMENT ON TABLE federal_qbi_deduction IS 'Qualified business income deduction rate, threshold and phase-in range by year and filing status (Forms 8995 and 8995-A)';
+
+DO $$
+DECLARE
+    tax_year_2023_id VARCHAR;
+    tax_year_2024_id VARCHAR;
+    tax_year_2025_id VARCHAR;
+BEGIN
+    SELECT id INTO tax_year_2023_id FROM tax_years WHERE year = 2023;
+    SELECT id INTO tax_year_2024_id FROM tax_years WHERE year = 2024;
+    SELECT id INTO tax_year_2025_id FROM tax_years WHERE year = 2025;
+
+    IF tax_year_2023_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_qbi_deduction WHERE tax_year_id = tax_year_2023_id
+    ) THEN
+        INSERT INTO federal_qbi_deduction (tax_year_id, filing_status, deduction_rate, threshold, phase_in_range) VALUES
+        (tax_year_2023_id, 'single', 0.20, 182100, 50000),
+        (tax_year_2023_id, 'married_joint', 0.20, 364200, 100000),
+        (tax_year_2023_id, 'married_separate', 0.20, 182100, 50000),
+        (tax_year_2023_id, 'head_of_household', 0.20, 182100, 50000);
+    END IF;
+
+    IF tax_year_2024_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_qbi_deduction WHERE tax_year_id = tax_year_2024_id
+    ) THEN
+        INSERT INTO federal_qbi_deduction (tax_year_id, filing_status, deduction_rate, threshold, phase_in_range) VALUES
+        (tax_year_2024_id, 'single', 0.20, 191950, 50000),
+        (tax_year_2024_id, 'married_joint', 0.20, 383900, 100000),
+        (tax_year_2024_id, 'married_separate', 0.20, 191950, 50000),
+        (tax_year_2024_id, 'head_of_household', 0.20, 191950, 50000);
+    END IF;
+
+    IF tax_year_2025_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM federal_qbi_deduction WHERE tax_year_id = tax_year_2025_id
+    ) THEN
+        INSERT INTO federal_qbi_deduction (tax_year_id, filing_status, deduction_rate, threshold, phase_in_range) VALUES
+        (tax_year_2025_id, 'single', 0.20, 197300, 50000),
+        (tax_year_2025_id, 'married_joint', 0.20, 394600, 100000),
+        (tax_year_2025_id, 'married_separate', 0.20, 197300, 50000),
+        (tax_year_2025_id, 'head_of_household', 0.20, 197300, 50000);
+    END IF;
+
+    RAISE NOTICE 'QBI deduction parameters added successfully';
+END $$;
@@ -0,0 +1,46 @@
+-- Migration: Add Qualifying Surviving Spouse Parameters
+-- This migration adds 'qualifying_widow' rows to the tax rate, standard deduction and capital
+-- gain tables for each tax year already loaded. A qualifying surviving spouse uses the
+-- married filing jointly brackets, standard deduction and capital gain thresholds.
+
+DO $$
+BEGIN
+    INSERT INTO federal_tax_brackets (tax_year_id, filing_status, min_income, max_income, tax_rate)
+    SELECT tax_year_id, 'qualifying_widow', min_income, max_income, tax_rate
+    FROM federal_tax_brackets mfj
+    WHERE mfj.filing_status = 'married_joint' AND NOT EXISTS (
+        SELECT 1 FROM federal_tax_brackets qw WHERE qw.tax_year_id = mfj.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    INSERT INTO federal_standard_deductions (tax_year_id, filing_status, amount, additional_blind_amount, additional_disabled_amount)
+    SELECT tax_year_id, 'qualifying_widow', amount, additional_blind_amount, additional_disabled_amount
+    FROM federal_standard_deductions mfj
+    WHERE mfj.filing_status = 'married_joint' AND NOT EXISTS (
+        SELECT 1 FROM federal_standard_deductions qw WHERE qw.tax_year_id = mfj.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    INSERT INTO federal_capital_gain_brackets (tax_year_id, filing_status, min_income, max_income, tax_rate)
+    SELECT tax_year_id, 'qualifying_widow', min_income, max_income, tax_rate
+    FROM federal_capital_gain_brackets mfj
+    WHERE mfj.filing_status = 'married_joint' AND NOT EXISTS (
+        SELECT 1 FROM federal_capital_gain_brackets qw WHERE qw.tax_year_id = mfj.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    INSERT INTO state_tax_brackets (tax_year_id, state_code, filing_status, min_income, max_income, tax_rate)
+    SELECT tax_year_id, state_code, 'qualifying_widow', min_income, max_income, tax_rate
+    FROM state_tax_brackets mfj
+    WHERE mfj.filing_status = 'married_joint' AND NOT EXISTS (
+        SELECT 1 FROM state_tax_brackets qw
+        WHERE qw.tax_year_id = mfj.tax_year_id AND qw.state_code = mfj.state_code AND qw.filing_status = 'qualifying_widow'
+    );
+
+    INSERT INTO state_standard_deductions (tax_year_id, state_code, filing_status, amount)
+    SELECT tax_year_id, state_code, 'qualifying_widow', amount
+    FROM state_standard_deductions mfj
+    WHERE mfj.filing_status = 'married_joint' AND NOT EXISTS (
+        SELECT 1 FROM state_standard_deductions qw
+        WHERE qw.tax_year_id = mfj.tax_year_id AND qw.state_code = mfj.state_code AND qw.filing_status = 'qualifying_widow'
+    );
+
+    RAISE NOTICE 'Qualifying surviving spouse parameters added successfully';
+END $$;
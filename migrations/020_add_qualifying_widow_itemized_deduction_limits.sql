@@ -0,0 +1,15 @@
+-- Migration: Add Qualifying Surviving Spouse Itemized Deduction Limits
+-- This migration adds 'qualifying_widow' itemized deduction limits for each tax year already
+-- loaded. A qualifying surviving spouse has the SALT cap of all other filers (single).
+
+DO $$
+BEGIN
+    INSERT INTO federal_itemized_deduction_limits (tax_year_id, filing_status, salt_cap, salt_cap_phaseout_threshold, salt_cap_phaseout_rate, salt_cap_floor, medical_expense_floor_rate, charitable_cash_agi_limit_rate)
+    SELECT tax_year_id, 'qualifying_widow', salt_cap, salt_cap_phaseout_threshold, salt_cap_phaseout_rate, salt_cap_floor, medical_expense_floor_rate, charitable_cash_agi_limit_rate
+    FROM federal_itemized_deduction_limits s
+    WHERE s.filing_status = 'single' AND NOT EXISTS (
+        SELECT 1 FROM federal_itemized_deduction_limits qw WHERE qw.tax_year_id = s.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    RAISE NOTICE 'Qualifying surviving spouse itemized deduction limits added successfully';
+END $$;
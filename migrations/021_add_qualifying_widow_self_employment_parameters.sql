@@ -0,0 +1,15 @@
+-- Migration: Add Qualifying Surviving Spouse Self-Employment Parameters
+-- This migration adds 'qualifying_widow' Schedule SE / Schedule C parameters for each tax year
+-- already loaded, copied from single (the parameters don't vary by filing status).
+
+DO $$
+BEGIN
+    INSERT INTO federal_self_employment_parameters (tax_year_id, filing_status, social_security_wage_base, social_security_rate, medicare_rate, net_earnings_rate, minimum_net_earnings, standard_mileage_rate, home_office_rate, home_office_max_square_feet)
+    SELECT tax_year_id, 'qualifying_widow', social_security_wage_base, social_security_rate, medicare_rate, net_earnings_rate, minimum_net_earnings, standard_mileage_rate, home_office_rate, home_office_max_square_feet
+    FROM federal_self_employment_parameters s
+    WHERE s.filing_status = 'single' AND NOT EXISTS (
+        SELECT 1 FROM federal_self_employment_parameters qw WHERE qw.tax_year_id = s.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    RAISE NOTICE 'Qualifying surviving spouse self-employment parameters added successfully';
+END $$;
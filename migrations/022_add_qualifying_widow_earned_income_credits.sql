@@ -0,0 +1,16 @@
+-- Migration: Add Qualifying Surviving Spouse Earned Income Credit Parameters
+-- This migration adds 'qualifying_widow' earned income credit parameters for each tax year
+-- already loaded. A qualifying surviving spouse uses the phase-out threshold of all other
+-- filers (single), not the joint threshold.
+
+DO $$
+BEGIN
+    INSERT INTO federal_earned_income_credits (tax_year_id, filing_status, qualifying_children, credit_rate, earned_income_amount, max_credit, phaseout_threshold, phaseout_rate, investment_income_limit)
+    SELECT tax_year_id, 'qualifying_widow', qualifying_children, credit_rate, earned_income_amount, max_credit, phaseout_threshold, phaseout_rate, investment_income_limit
+    FROM federal_earned_income_credits s
+    WHERE s.filing_status = 'single' AND NOT EXISTS (
+        SELECT 1 FROM federal_earned_income_credits qw WHERE qw.tax_year_id = s.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    RAISE NOTICE 'Qualifying surviving spouse earned income credit parameters added successfully';
+END $$;
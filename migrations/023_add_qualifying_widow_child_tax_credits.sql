@@ -0,0 +1,15 @@
+-- Migration: Add Qualifying Surviving Spouse Child Tax Credit Parameters
+-- This migration adds 'qualifying_widow' Schedule 8812 parameters for each tax year already
+-- loaded. A qualifying surviving spouse uses the $200,000 phase-out for all other filers (single).
+
+DO $$
+BEGIN
+    INSERT INTO federal_child_tax_credits (tax_year_id, filing_status, credit_per_child, credit_per_other_dependent, phaseout_threshold, phaseout_rate, refundable_limit_per_child, refundable_earned_income_threshold, refundable_rate)
+    SELECT tax_year_id, 'qualifying_widow', credit_per_child, credit_per_other_dependent, phaseout_threshold, phaseout_rate, refundable_limit_per_child, refundable_earned_income_threshold, refundable_rate
+    FROM federal_child_tax_credits s
+    WHERE s.filing_status = 'single' AND NOT EXISTS (
+        SELECT 1 FROM federal_child_tax_credits qw WHERE qw.tax_year_id = s.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    RAISE NOTICE 'Qualifying surviving spouse child tax credit parameters added successfully';
+END $$;
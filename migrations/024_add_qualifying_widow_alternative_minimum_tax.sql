@@ -0,0 +1,16 @@
+-- Migration: Add Qualifying Surviving Spouse Alternative Minimum Tax Parameters
+-- This migration adds 'qualifying_widow' Form 6251 parameters for each tax year already
+-- loaded. A qualifying surviving spouse gets the married filing jointly exemption, phase-out
+-- threshold and rate breakpoint.
+
+DO $$
+BEGIN
+    INSERT INTO federal_alternative_minimum_tax (tax_year_id, filing_status, exemption_amount, phaseout_threshold, phaseout_rate, rate_breakpoint, lower_rate, upper_rate)
+    SELECT tax_year_id, 'qualifying_widow', exemption_amount, phaseout_threshold, phaseout_rate, rate_breakpoint, lower_rate, upper_rate
+    FROM federal_alternative_minimum_tax mfj
+    WHERE mfj.filing_status = 'married_joint' AND NOT EXISTS (
+        SELECT 1 FROM federal_alternative_minimum_tax qw WHERE qw.tax_year_id = mfj.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    RAISE NOTICE 'Qualifying surviving spouse alternative minimum tax parameters added successfully';
+END $$;
@@ -0,0 +1,15 @@
+-- Migration: Add Qualifying Surviving Spouse Education Benefit Parameters
+-- This migration adds 'qualifying_widow' education credit and student loan interest phase-outs
+-- for each tax year already loaded, using the ranges for all other filers (single).
+
+DO $$
+BEGIN
+    INSERT INTO federal_education_benefits (tax_year_id, filing_status, credit_phaseout_start, credit_phaseout_end, student_loan_interest_max, student_loan_interest_phaseout_start, student_loan_interest_phaseout_end)
+    SELECT tax_year_id, 'qualifying_widow', credit_phaseout_start, credit_phaseout_end, student_loan_interest_max, student_loan_interest_phaseout_start, student_loan_interest_phaseout_end
+    FROM federal_education_benefits s
+    WHERE s.filing_status = 'single' AND NOT EXISTS (
+        SELECT 1 FROM federal_education_benefits qw WHERE qw.tax_year_id = s.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    RAISE NOTICE 'Qualifying surviving spouse education benefit parameters added successfully';
+END $$;
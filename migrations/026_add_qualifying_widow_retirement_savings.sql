@@ -0,0 +1,17 @@
+-- Migration: Add Qualifying Surviving Spouse Retirement Savings Parameters
+-- This migration adds 'qualifying_widow' IRA and Saver's Credit parameters for each tax year
+-- already loaded. The IRA deduction and Roth phase-outs follow married filing jointly, with no
+-- spouse-covered range; the Saver's Credit AGI limits are those of single filers.
+
+DO $$
+BEGIN
+    INSERT INTO federal_retirement_savings (tax_year_id, filing_status, ira_contribution_limit, ira_catch_up_amount, ira_catch_up_age, covered_phaseout_start, covered_phaseout_end, spouse_covered_phaseout_start, spouse_covered_phaseout_end, roth_phaseout_start, roth_phaseout_end, savers_credit_max_contribution, savers_credit_fifty_percent_limit, savers_credit_twenty_percent_limit, savers_credit_ten_percent_limit)
+    SELECT mfj.tax_year_id, 'qualifying_widow', mfj.ira_contribution_limit, mfj.ira_catch_up_amount, mfj.ira_catch_up_age, mfj.covered_phaseout_start, mfj.covered_phaseout_end, NULL, NULL, mfj.roth_phaseout_start, mfj.roth_phaseout_end, s.savers_credit_max_contribution, s.savers_credit_fifty_percent_limit, s.savers_credit_twenty_percent_limit, s.savers_credit_ten_percent_limit
+    FROM federal_retirement_savings mfj
+    JOIN federal_retirement_savings s ON s.tax_year_id = mfj.tax_year_id AND s.filing_status = 'single'
+    WHERE mfj.filing_status = 'married_joint' AND NOT EXISTS (
+        SELECT 1 FROM federal_retirement_savings qw WHERE qw.tax_year_id = mfj.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    RAISE NOTICE 'Qualifying surviving spouse retirement savings parameters added successfully';
+END $$;
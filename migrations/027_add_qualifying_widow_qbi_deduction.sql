@@ -0,0 +1,15 @@
+-- Migration: Add Qualifying Surviving Spouse QBI Deduction Parameters
+-- This migration adds 'qualifying_widow' Form 8995 / 8995-A parameters for each tax year already
+-- loaded. A qualifying surviving spouse uses the threshold for all other filers (single).
+
+DO $$
+BEGIN
+    INSERT INTO federal_qbi_deduction (tax_year_id, filing_status, deduction_rate, threshold, phase_in_range)
+    SELECT tax_year_id, 'qualifying_widow', deduction_rate, threshold, phase_in_range
+    FROM federal_qbi_deduction s
+    WHERE s.filing_status = 'single' AND NOT EXISTS (
+        SELECT 1 FROM federal_qbi_deduction qw WHERE qw.tax_year_id = s.tax_year_id AND qw.filing_status = 'qualifying_widow'
+    );
+
+    RAISE NOTICE 'Qualifying surviving spouse QBI deduction parameters added successfully';
+END $$;
@@ -2,7 +2,7 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { authenticateToken, generateToken, type AuthRequest } from "./middleware/auth";
-import { insertUserSchema, loginSchema, FILING_STATUS } from "@shared/schema";
+import { insertUserSchema, loginSchema, insertScheduleASchema, insertScheduleCSchema, insertForm6251Schema, insertForm8615Schema, insertForm8889Schema, insertForm1116Schema, insertForm2441Schema, insertEstimatedTaxPaymentSchema, insertForm2210Schema, insertForm1040EsSchema, ESTIMATED_PAYMENT_JURISDICTIONS, insertHsaContributionSchema, insertIraContributionSchema, insertForm8606Schema, insertEnergyImprovementSchema, ENERGY_PROPERTY_CATEGORIES, insertCareProviderSchema, insertSocialSecurityBenefitsWorksheetSchema, insertStateRefundWorksheetSchema, insertQbiBusinessSchema, QBI_SOURCE_TYPES, FILING_STATUS, TAXPAYER_OWNERS } from "@shared/schema";
 import bcrypt from "bcrypt";
 import multer from "multer";
 import path from "path";
@@ -17,7 +17,19 @@ import {
   parse1099DivData,
   parse1099IntData,
   parse1099BData,
+  parse1099MiscData,
+  parse1099NecData,
+  parse1099RData,
+  parse1098Data,
+  parse1098TData,
+  parse1098EData,
+  parse1099SaData,
+  parse5498SaData,
+  parseSsa1099Data,
+  parse1099GData,
+  parse1095AData,
 } from "./utils/parsers";
+import { isOneOf } from "./utils/validation";
 import { parsingService } from "./services/parsingService";
 import { llmService } from "./services/llmService";
 import { aiInsightsService } from "./services/aiInsightsService";
@@ -25,6 +37,30 @@ import { pdfService } from "./services/pdfService";
 import { efileService } from "./services/efileService";
 import { stateTaxService } from "./services/stateTaxService";
 import { taxConfigService } from "./services/taxConfigService";
+import { capitalGainsTaxService } from "./services/capitalGainsTaxService";
+import { capitalLossService } from "./services/capitalLossService";
+import { medicareSurtaxService } from "./services/medicareSurtaxService";
+import { retirementDistributionService } from "./services/retirementDistributionService";
+import { miscIncomeService } from "./services/miscIncomeService";
+import { selfEmploymentService, type ScheduleCResult, type ScheduleSEResult } from "./services/selfEmploymentService";
+import { scheduleAService } from "./services/scheduleAService";
+import { earnedIncomeCreditService } from "./services/earnedIncomeCreditService";
+import { creditsService, type CreditsBreakdown } from "./services/creditsService";
+import { childTaxCreditService } from "./services/childTaxCreditService";
+import { alternativeMinimumTaxService } from "./services/alternativeMinimumTaxService";
+import { educationService, type Form8863Result } from "./services/educationService";
+import { w2BenefitsService, type W2BenefitsSummary } from "./services/w2BenefitsService";
+import { hsaService } from "./services/hsaService";
+import { foreignTaxCreditService, type ForeignTaxCreditResult } from "./services/foreignTaxCreditService";
+import { estimatedTaxService, type Form1040EsVoucher } from "./services/estimatedTaxService";
+import { dependentCareService, type DependentCareBenefitsResult, type Form2441Result } from "./services/dependentCareService";
+import { socialSecurityService, type SocialSecurityBenefitsResult } from "./services/socialSecurityService";
+import { governmentPaymentService, type StateRefundWorksheetResult } from "./services/governmentPaymentService";
+import { premiumTaxCreditService, type Form8962Result } from "./services/premiumTaxCreditService";
+import { iraService, type Form8880Result } from "./services/iraService";
+import { energyCreditService, type Form5695Result } from "./services/energyCreditService";
+import { kiddieTaxService, type Form8615Result } from "./services/kiddieTaxService";
+import { qbiDeductionService, type Form8995Result } from "./services/qbiDeductionService";
 import { subscriptionService, subscriptionMiddleware, requireFeature, checkDocumentLimit, SubscriptionRequest } from "./middleware/subscription";
 import { eq } from "drizzle-orm";
 
@@ -238,6 +274,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
               taxReturnId: taxReturn.id,
               ...bData,
             });
+          } else if (docType === "1099-MISC") {
+            const miscData = parse1099MiscData(text);
+            await storage.create1099Misc({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...miscData,
+            });
+          } else if (docType === "1099-NEC") {
+            const necData = parse1099NecData(text);
+            await storage.create1099Nec({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...necData,
+            });
+          } else if (docType === "1099-R") {
+            const rData = parse1099RData(text);
+            await storage.create1099R({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...rData,
+            });
+          } else if (docType === "1098") {
+            const mortgageData = parse1098Data(text);
+            await storage.create1098({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...mortgageData,
+            });
+          } else if (docType === "1098-T") {
+            const tuitionData = parse1098TData(text);
+            await storage.create1098T({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...tuitionData,
+            });
+          } else if (docType === "1098-E") {
+            const loanData = parse1098EData(text);
+            await storage.create1098E({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...loanData,
+            });
+          } else if (docType === "1099-SA") {
+            const hsaDistributionData = parse1099SaData(text);
+            await storage.create1099Sa({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...hsaDistributionData,
+            });
+          } else if (docType === "5498-SA") {
+            const hsaAccountData = parse5498SaData(text);
+            await storage.create5498Sa({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...hsaAccountData,
+            });
+          } else if (docType === "SSA-1099") {
+            const benefitData = parseSsa1099Data(text);
+            await storage.createSsa1099({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...benefitData,
+            });
+          } else if (docType === "1099-G") {
+            const { refundTaxYear, ...governmentPaymentData } = parse1099GData(text);
+            await storage.create1099G({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...governmentPaymentData,
+              refundTaxYear: refundTaxYear ? parseInt(refundTaxYear) : null,
+            });
+          } else if (docType === "1095-A") {
+            const marketplaceData = parse1095AData(text);
+            await storage.create1095A({
+              documentId: document.id,
+              taxReturnId: taxReturn.id,
+              ...marketplaceData,
+            });
           }
 
           await storage.updateDocument(document.id, {
@@ -317,6 +431,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/w2-data/batch", authenticateToken, async (req: AuthRequest, res) => {
     try {
       const { updates } = req.body; // Array of {id, data} objects
+      if (updates.some(({ data }: { data: any }) => data.owner && !isOneOf(TAXPAYER_OWNERS, data.owner))) {
+        return res.status(400).json({ message: "Owner must be taxpayer or spouse" });
+      }
       const results = await Promise.all(
         updates.map(({ id, data }: { id: string; data: any }) => 
           storage.updateW2Data(id, data)
@@ -356,6 +473,160 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/1099-misc-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update1099Misc(id, data)
+        )
+      );
+      res.json({ message: "1099-MISC data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-nec-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update1099Nec(id, data)
+        )
+      );
+      res.json({ message: "1099-NEC data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-r-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update1099R(id, data)
+        )
+      );
+      res.json({ message: "1099-R data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1098-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update1098(id, data)
+        )
+      );
+      res.json({ message: "1098 data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1098-t-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update1098T(id, data)
+        )
+      );
+      res.json({ message: "1098-T data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1098-e-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update1098E(id, data)
+        )
+      );
+      res.json({ message: "1098-E data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-sa-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update1099Sa(id, data)
+        )
+      );
+      res.json({ message: "1099-SA data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/5498-sa-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update5498Sa(id, data)
+        )
+      );
+      res.json({ message: "5498-SA data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/ssa-1099-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.updateSsa1099(id, data)
+        )
+      );
+      res.json({ message: "SSA-1099 data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-g-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update1099G(id, data)
+        )
+      );
+      res.json({ message: "1099-G data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1095-a-data/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { updates } = req.body; // Array of {id, data} objects
+      const results = await Promise.all(
+        updates.map(({ id, data }: { id: string; data: any }) => 
+          storage.update1095A(id, data)
+        )
+      );
+      res.json({ message: "1095-A data updated successfully", results });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.put("/api/1099-b-data/batch", authenticateToken, async (req: AuthRequest, res) => {
     try {
       const { updates } = req.body; // Array of {id, data} objects
@@ -472,7 +743,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/1099-b-data", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/1099-misc-data", authenticateToken, async (req: AuthRequest, res) => {
     try {
       const activeYear = await taxConfigService.getActiveTaxYear();
       if (!activeYear) {
@@ -482,8 +753,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
       if (taxReturns.length === 0) return res.json([]);
       
-      const data = await storage.get1099BByTaxReturnId(taxReturns[0].id);
-      // Get document names for each 1099-B entry
+      const data = await storage.get1099MiscByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1099-MISC entry
       const dataWithDocumentNames = await Promise.all(
         data.map(async (item) => {
           if (item.documentId) {
@@ -505,347 +776,3212 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/1099-b-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+  app.put("/api/1099-misc-data/:id", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const data = await storage.update1099B(req.params.id, req.body);
+      const data = await storage.update1099Misc(req.params.id, req.body);
       res.json(data);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/1099-b-data", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/1099-misc-data", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const data = await storage.create1099B(req.body);
+      const data = await storage.create1099Misc(req.body);
       res.json(data);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // 1099-B Entries routes
-  app.get("/api/1099-b-entries", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/1099-nec-data", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const taxReturns = await storage.getTaxReturnsByUserId(req.userId!);
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
       if (taxReturns.length === 0) return res.json([]);
       
-      const data = await storage.get1099BEntriesByTaxReturnId(taxReturns[0].id);
-      res.json(data);
+      const data = await storage.get1099NecByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1099-NEC entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/1099-b-entries", authenticateToken, async (req: AuthRequest, res) => {
+  app.put("/api/1099-nec-data/:id", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const { form1099BId, ...entryData } = req.body;
-      const data = await storage.create1099BEntry(form1099BId, entryData);
+      const data = await storage.update1099Nec(req.params.id, req.body);
       res.json(data);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/1099-b-entries/batch", authenticateToken, async (req: AuthRequest, res) => {
-    try {
-      console.log("Batch update request received:", JSON.stringify(req.body, null, 2));
-      const { updates } = req.body;
-      const results = [];
-      
-      for (const update of updates) {
-        console.log("Processing update:", JSON.stringify(update, null, 2));
-        
-        // The update should have { id: "entryId", data: {...} } structure
-        const entryId = update.id;
-        const updateData = update.data;
-        
-        console.log("Entry ID:", entryId);
-        console.log("Update data:", JSON.stringify(updateData, null, 2));
-        
-        // Clean the update data - remove fields that shouldn't be updated
-        const { id, form1099BId, ...cleanedData } = updateData;
-        
-        // Ensure numeric fields are properly formatted
-        const finalData = {
-          description: cleanedData.description || null,
-          dateAcquired: cleanedData.dateAcquired || null,
-          dateSold: cleanedData.dateSold || null,
-          proceeds: cleanedData.proceeds || null,
-          costBasis: cleanedData.costBasis || null,
-          gainLoss: cleanedData.gainLoss || null,
-          isShortTerm: cleanedData.isShortTerm || false,
-          reportedToIrs: cleanedData.reportedToIrs || false,
-          washSale: cleanedData.washSale || false,
-          washSaleAmount: cleanedData.washSaleAmount || null,
-        };
-        
-        console.log("Final data for update:", JSON.stringify(finalData, null, 2));
-        
-        const data = await storage.update1099BEntry(entryId, finalData);
-        console.log("Update successful for ID:", entryId);
-        results.push(data);
-      }
-      
-      console.log("Batch update completed successfully");
-      res.json(results);
-    } catch (error: any) {
-      console.error("Batch update error:", error);
-      console.error("Error stack:", error.stack);
-      res.status(500).json({ message: error.message });
-    }
-  });
-
-  app.put("/api/1099-b-entries/:id", authenticateToken, async (req: AuthRequest, res) => {
+  app.post("/api/1099-nec-data", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const data = await storage.update1099BEntry(req.params.id, req.body);
+      const data = await storage.create1099Nec(req.body);
       res.json(data);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/1099-b-entries/:id", authenticateToken, async (req: AuthRequest, res) => {
+  app.get("/api/1099-r-data", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      await storage.delete1099BEntry(req.params.id);
-      res.json({ success: true });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
-    }
-  });
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
 
-  // Income breakdown route
-  app.get("/api/income-breakdown/:taxReturnId", authenticateToken, async (req: AuthRequest, res) => {
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get1099RByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1099-R entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-r-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update1099R(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/1099-r-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.create1099R(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/1098-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get1098ByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1098 entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1098-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update1098(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/1098-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.create1098(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/1098-t-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get1098TByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1098-T entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1098-t-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update1098T(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/1098-t-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.create1098T(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/1098-e-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get1098EByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1098-E entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1098-e-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update1098E(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/1098-e-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.create1098E(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/1099-sa-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get1099SaByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1099-SA entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-sa-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update1099Sa(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/1099-sa-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.create1099Sa(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/5498-sa-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get5498SaByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 5498-SA entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/5498-sa-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update5498Sa(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/5498-sa-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.create5498Sa(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/ssa-1099-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.getSsa1099ByTaxReturnId(taxReturns[0].id);
+      // Get document names for each SSA-1099 entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/ssa-1099-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.updateSsa1099(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/ssa-1099-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.createSsa1099(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/1099-g-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get1099GByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1099-G entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-g-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update1099G(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/1099-g-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.create1099G(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/1095-a-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get1095AByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1095-A entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1095-a-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update1095A(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/1095-a-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.create1095A(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/1099-b-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get1099BByTaxReturnId(taxReturns[0].id);
+      // Get document names for each 1099-B entry
+      const dataWithDocumentNames = await Promise.all(
+        data.map(async (item) => {
+          if (item.documentId) {
+            const document = await storage.getDocument(item.documentId);
+            return {
+              ...item,
+              documentName: document?.fileName || null,
+            };
+          }
+          return {
+            ...item,
+            documentName: null,
+          };
+        })
+      );
+      res.json(dataWithDocumentNames);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-b-data/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update1099B(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/1099-b-data", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.create1099B(req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // 1099-B Entries routes
+  app.get("/api/1099-b-entries", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const taxReturns = await storage.getTaxReturnsByUserId(req.userId!);
+      if (taxReturns.length === 0) return res.json([]);
+      
+      const data = await storage.get1099BEntriesByTaxReturnId(taxReturns[0].id);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/1099-b-entries", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { form1099BId, ...entryData } = req.body;
+      const data = await storage.create1099BEntry(form1099BId, entryData);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-b-entries/batch", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      console.log("Batch update request received:", JSON.stringify(req.body, null, 2));
+      const { updates } = req.body;
+      const results = [];
+      
+      for (const update of updates) {
+        console.log("Processing update:", JSON.stringify(update, null, 2));
+        
+        // The update should have { id: "entryId", data: {...} } structure
+        const entryId = update.id;
+        const updateData = update.data;
+        
+        console.log("Entry ID:", entryId);
+        console.log("Update data:", JSON.stringify(updateData, null, 2));
+        
+        // Clean the update data - remove fields that shouldn't be updated
+        const { id, form1099BId, ...cleanedData } = updateData;
+        
+        // Ensure numeric fields are properly formatted
+        const finalData = {
+          description: cleanedData.description || null,
+          dateAcquired: cleanedData.dateAcquired || null,
+          dateSold: cleanedData.dateSold || null,
+          proceeds: cleanedData.proceeds || null,
+          costBasis: cleanedData.costBasis || null,
+          gainLoss: cleanedData.gainLoss || null,
+          isShortTerm: cleanedData.isShortTerm || false,
+          reportedToIrs: cleanedData.reportedToIrs || false,
+          washSale: cleanedData.washSale || false,
+          washSaleAmount: cleanedData.washSaleAmount || null,
+        };
+        
+        console.log("Final data for update:", JSON.stringify(finalData, null, 2));
+        
+        const data = await storage.update1099BEntry(entryId, finalData);
+        console.log("Update successful for ID:", entryId);
+        results.push(data);
+      }
+      
+      console.log("Batch update completed successfully");
+      res.json(results);
+    } catch (error: any) {
+      console.error("Batch update error:", error);
+      console.error("Error stack:", error.stack);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/1099-b-entries/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const data = await storage.update1099BEntry(req.params.id, req.body);
+      res.json(data);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/1099-b-entries/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.delete1099BEntry(req.params.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Income breakdown route
+  app.get("/api/income-breakdown/:taxReturnId", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { taxReturnId } = req.params;
+      
+      // Get all income data
+      const w2Data = await storage.getW2DataByTaxReturnId(taxReturnId);
+      const divData = await storage.get1099DivByTaxReturnId(taxReturnId);
+      const intData = await storage.get1099IntByTaxReturnId(taxReturnId);
+      const bData = await storage.get1099BByTaxReturnId(taxReturnId);
+      const bEntries = await storage.get1099BEntriesByTaxReturnId(taxReturnId);
+      const rData = await storage.get1099RByTaxReturnId(taxReturnId);
+      const miscData = await storage.get1099MiscByTaxReturnId(taxReturnId);
+      const necData = await storage.get1099NecByTaxReturnId(taxReturnId);
+      const scheduleCData = await storage.getScheduleCByTaxReturnId(taxReturnId);
+
+      const taxReturn = await storage.getTaxReturn(taxReturnId);
+      const profile = await storage.getUserProfile(req.userId!);
+      const filingStatus = taxReturn?.filingStatus || profile?.filingStatus || "single";
+
+      // Calculate totals, using the benefit exclusion from the last Form 2441
+      const form2441 = await storage.getForm2441ByTaxReturnId(taxReturnId);
+      const w2Benefits = w2BenefitsService.summarizeBenefits(
+        w2Data,
+        filingStatus,
+        form2441 ? parseFloat(form2441.excludedBenefits || "0") : undefined
+      );
+      const totalWages = w2Data.reduce((sum, w2) => sum + parseFloat(w2.wages || "0"), 0) +
+        w2Benefits.taxableDependentCareBenefits;
+      const retirementDistributions = retirementDistributionService.summarizeDistributions(rData);
+      const miscIncome = miscIncomeService.routeIncome(miscData, necData);
+
+      // Business income is Schedule C net profit once the taxpayer has entered expenses
+      let businessIncome = miscIncome.scheduleCGrossReceipts;
+      if (scheduleCData) {
+        const seParameters = await selfEmploymentService.getParameters(
+          taxReturn?.taxYear || new Date().getFullYear(),
+          filingStatus
+        );
+        businessIncome = selfEmploymentService.calculateScheduleC(scheduleCData, miscIncome.scheduleCGrossReceipts, seParameters).netProfit;
+      }
+      // Taxable HSA distributions from the last Form 8889 calculation (Schedule 1 line 8f)
+      const form8889Data = await storage.getForm8889ByTaxReturnId(taxReturnId);
+      // 1099-G unemployment (line 7) and the taxable refund from the last refund worksheet (line 1)
+      const form1099GData = await storage.get1099GByTaxReturnId(taxReturnId);
+      const governmentPayments = governmentPaymentService.summarizePayments(form1099GData);
+      const stateRefundWorksheet = await storage.getStateRefundWorksheetByTaxReturnId(taxReturnId);
+      const schedule1Income = miscIncomeService.calculateSchedule1(miscIncome, businessIncome, {}, {
+        taxableRefunds: stateRefundWorksheet ? parseFloat(stateRefundWorksheet.taxableRefunds || "0") : 0,
+        unemploymentCompensation: governmentPayments.unemploymentCompensation,
+        hsaDistributions: form8889Data.reduce((sum, form) => sum + parseFloat(form.taxableDistributions || "0"), 0),
+      });
+      // Taxable Social Security benefits from the last benefits worksheet (line 6b)
+      const ssa1099Data = await storage.getSsa1099ByTaxReturnId(taxReturnId);
+      const socialSecurityWorksheet = await storage.getSocialSecurityBenefitsWorksheetByTaxReturnId(taxReturnId);
+      const socialSecurityStatements = socialSecurityService.summarizeStatements(ssa1099Data);
+      const taxableSocialSecurityBenefits = socialSecurityWorksheet ? parseFloat(socialSecurityWorksheet.taxableBenefits || "0") : 0;
+      // IRA basis from the last Form 8606 calculation makes part of line 4b nontaxable
+      const form8606Data = await storage.getForm8606ByTaxReturnId(taxReturnId);
+      const taxableRetirementDistributions = retirementDistributions.totalTaxable - Math.min(
+        retirementDistributions.taxableIraDistributions,
+        form8606Data.reduce((sum, form) => sum + parseFloat(form.nontaxableDistributions || "0"), 0)
+      );
+      const totalFederalWithheld = w2Data.reduce((sum, w2) => sum + parseFloat(w2.federalWithheld || "0"), 0) +
+        retirementDistributions.federalWithheld + miscIncome.federalWithheld + socialSecurityStatements.federalWithheld +
+        governmentPayments.federalWithheld;
+      const totalDividends = divData.reduce((sum, div) => sum + parseFloat(div.ordinaryDividends || "0"), 0);
+      const totalQualifiedDividends = divData.reduce((sum, div) => sum + parseFloat(div.qualifiedDividends || "0"), 0);
+      const totalInterest = intData.reduce((sum, int) => sum + parseFloat(int.interestIncome || "0"), 0);
+      
+      // Calculate capital gains from individual entries, accounting for wash sales
+      const totalCapitalGains = bEntries.reduce((sum, entry) => {
+        const proceeds = parseFloat(entry.proceeds || "0");
+        const costBasis = parseFloat(entry.costBasis || "0");
+        const washSaleAmount = parseFloat(entry.washSaleAmount || "0");
+        
+        // For wash sales, subtract wash sale amount from cost basis
+        const adjustedCostBasis = costBasis - washSaleAmount;
+        const gainLoss = proceeds - adjustedCostBasis;
+        
+        console.log(`Capital Gains Calculation - Entry ${entry.id}:`, {
+          proceeds,
+          costBasis,
+          washSaleAmount,
+          adjustedCostBasis,
+          gainLoss,
+          description: entry.description
+        });
+        
+        return sum + gainLoss;
+      }, 0);
+
+      const breakdown = {
+        wages: totalWages,
+        federalWithheld: totalFederalWithheld,
+        dividends: totalDividends,
+        qualifiedDividends: totalQualifiedDividends,
+        interest: totalInterest,
+        capitalGains: totalCapitalGains,
+        retirementDistributions: taxableRetirementDistributions,
+        businessIncome: schedule1Income.businessIncome,
+        rentalRoyaltyIncome: schedule1Income.rentalRoyaltyIncome,
+        hsaDistributions: schedule1Income.hsaDistributions,
+        unemploymentCompensation: schedule1Income.unemploymentCompensation,
+        taxableRefunds: schedule1Income.taxableRefunds,
+        otherIncome: schedule1Income.otherIncome,
+        socialSecurityBenefits: socialSecurityStatements.netBenefits,
+        taxableSocialSecurityBenefits,
+        totalIncome: totalWages + totalDividends + totalInterest + totalCapitalGains + taxableRetirementDistributions +
+          schedule1Income.totalAdditionalIncome + taxableSocialSecurityBenefits,
+        w2Benefits,
+        w2Count: w2Data.length,
+        divCount: divData.length,
+        intCount: intData.length,
+        bCount: bData.length,
+        rCount: rData.length,
+        miscCount: miscData.length,
+        necCount: necData.length,
+        ssaCount: ssa1099Data.length,
+        gCount: form1099GData.length,
+      };
+
+      res.json(breakdown);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Tax calculation route
+  app.post("/api/calculate", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      // Get user profile for filing status and other tax-relevant info
+      const profile = await storage.getUserProfile(req.userId!);
+      const filingStatus = req.body.filingStatus || profile?.filingStatus || "single";
+      
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const taxReturn = taxReturns[0];
+
+      // Get all income data
+      const w2Data = await storage.getW2DataByTaxReturnId(taxReturn.id);
+      const divData = await storage.get1099DivByTaxReturnId(taxReturn.id);
+      const intData = await storage.get1099IntByTaxReturnId(taxReturn.id);
+      const bData = await storage.get1099BByTaxReturnId(taxReturn.id);
+      const rData = await storage.get1099RByTaxReturnId(taxReturn.id);
+      const miscData = await storage.get1099MiscByTaxReturnId(taxReturn.id);
+      const necData = await storage.get1099NecByTaxReturnId(taxReturn.id);
+
+      // 1099-MISC / 1099-NEC boxes flow through Schedule 1 (rents and royalties via Schedule E,
+      // nonemployee compensation via Schedule C, other income on line 8z)
+      const miscIncome = miscIncomeService.routeIncome(miscData, necData);
+
+      // Schedule C net profit and Schedule SE tax. The proprietor's own W-2 Social Security
+      // wages count against the wage base before self-employment earnings; on a joint return
+      // a W-2 with no employee assigned is counted as the proprietor's, with a warning.
+      const scheduleCData = await storage.getScheduleCByTaxReturnId(taxReturn.id);
+      let scheduleCResult: ScheduleCResult | null = null;
+      let scheduleSEResult: ScheduleSEResult | null = null;
+      const scheduleSEWarnings: string[] = [];
+      if (scheduleCData || miscIncome.scheduleCGrossReceipts > 0) {
+        const seParameters = await selfEmploymentService.getParameters(activeYear.year, filingStatus);
+        scheduleCResult = selfEmploymentService.calculateScheduleC(scheduleCData, miscIncome.scheduleCGrossReceipts, seParameters);
+        const proprietor = scheduleCData?.owner || TAXPAYER_OWNERS.TAXPAYER;
+        const isJoint = filingStatus === FILING_STATUS.MARRIED_JOINT;
+        const proprietorW2s = isJoint
+          ? w2Data.filter(w2 => !w2.owner || w2.owner === proprietor)
+          : w2Data;
+        if (isJoint) {
+          for (const w2 of w2Data.filter(w2 => !w2.owner && parseFloat(w2.socialSecurityWages || "0") > 0)) {
+            scheduleSEWarnings.push(
+              `The W-2 from ${w2.employerName || "an employer"} has no employee assigned, so its Social Security wages ` +
+              `are counted against the ${proprietor}'s wage base (line 8a). Assign it on the review page.`
+            );
+          }
+        }
+        const proprietorSocialSecurityWages = proprietorW2s.reduce((sum, w2) => sum + parseFloat(w2.socialSecurityWages || "0"), 0);
+        scheduleSEResult = selfEmploymentService.calculateScheduleSE(scheduleCResult.netProfit, proprietorSocialSecurityWages, seParameters);
+      }
+
+      if (scheduleCData && scheduleCResult) {
+        await storage.updateScheduleC(scheduleCData.id, {
+          form1099Receipts: scheduleCResult.form1099Receipts.toString(),
+          grossIncome: scheduleCResult.grossIncome.toString(),
+          carTruckExpenses: scheduleCResult.carTruckExpenses.toString(),
+          deductibleMeals: scheduleCResult.deductibleMeals.toString(),
+          totalExpenses: scheduleCResult.totalExpenses.toString(),
+          homeOfficeDeduction: scheduleCResult.homeOfficeDeduction.toString(),
+          netProfit: scheduleCResult.netProfit.toString(),
+        });
+      }
+
+      const existingScheduleSE = await storage.getScheduleSEByTaxReturnId(taxReturn.id);
+      if (scheduleSEResult) {
+        const scheduleSEData = {
+          taxReturnId: taxReturn.id,
+          netProfit: scheduleSEResult.netProfit.toString(),
+          netEarnings: scheduleSEResult.netEarnings.toString(),
+          socialSecurityWageBase: scheduleSEResult.socialSecurityWageBase.toString(),
+          socialSecurityWages: scheduleSEResult.socialSecurityWages.toString(),
+          remainingWageBase: scheduleSEResult.remainingWageBase.toString(),
+          socialSecurityTax: scheduleSEResult.socialSecurityTax.toString(),
+          medicareTax: scheduleSEResult.medicareTax.toString(),
+          selfEmploymentTax: scheduleSEResult.selfEmploymentTax.toString(),
+          deductibleHalf: scheduleSEResult.deductibleHalf.toString(),
+          warnings: scheduleSEWarnings,
+        };
+        if (existingScheduleSE) {
+          await storage.updateScheduleSE(existingScheduleSE.id, scheduleSEData);
+        } else {
+          await storage.createScheduleSE(scheduleSEData);
+        }
+      } else if (existingScheduleSE) {
+        // Self-employment income was removed since the last calculation
+        await storage.updateScheduleSE(existingScheduleSE.id, {
+          netProfit: "0",
+          netEarnings: "0",
+          socialSecurityTax: "0",
+          medicareTax: "0",
+          selfEmploymentTax: "0",
+          deductibleHalf: "0",
+          warnings: [],
+        });
+      }
+
+      // Form 2441 Part III: W-2 box 10 benefits are excluded up to the qualified care
+      // expenses and earned income. The credit in Part II waits until the tax is known.
+      const careProviders = await storage.getCareProvidersByTaxReturnId(taxReturn.id);
+      const existing2441 = await storage.getForm2441ByTaxReturnId(taxReturn.id);
+      const totalDependentCareBenefits = w2Data.reduce((sum, w2) => sum + parseFloat(w2.dependentCareBenefits || "0"), 0);
+      let dependentCareBenefits: DependentCareBenefitsResult | null = null;
+      if (careProviders.length > 0 || totalDependentCareBenefits > 0 || existing2441) {
+        // Lines 4 and 5 split earned income by the W-2 employee and the Schedule C proprietor
+        const netSelfEmploymentEarnings = scheduleCResult ? scheduleCResult.netProfit - (scheduleSEResult?.deductibleHalf ?? 0) : 0;
+        const wagesOf = (w2s: typeof w2Data) => w2s.reduce((sum, w2) => sum + parseFloat(w2.wages || "0"), 0);
+        dependentCareBenefits = await dependentCareService.calculateBenefits({
+          filingStatus,
+          dependents: profile?.dependents,
+          providers: careProviders,
+          dependentCareBenefits: totalDependentCareBenefits,
+          earnedIncome: wagesOf(w2Data) + netSelfEmploymentEarnings,
+          spouseEarnedIncome: existing2441?.spouseEarnedIncome ? parseFloat(existing2441.spouseEarnedIncome) : null,
+          spouseEarnedIncomeFromForms: wagesOf(w2Data.filter(w2 => w2.owner === TAXPAYER_OWNERS.SPOUSE)) +
+            (scheduleCData?.owner === TAXPAYER_OWNERS.SPOUSE ? netSelfEmploymentEarnings : 0),
+          unassignedWages: wagesOf(w2Data.filter(w2 => !w2.owner)),
+          spouseStudentOrDisabled: !!existing2441?.spouseStudentOrDisabled,
+        }, activeYear.year);
+      }
+
+      // Health savings accounts (Form 8889): the deduction goes to Schedule 1 line 13,
+      // taxable distributions to line 8f and the penalties to Schedule 2
+      const w2Benefits = w2BenefitsService.summarizeBenefits(w2Data, filingStatus, dependentCareBenefits?.excludedBenefits);
+      const existing8889 = await storage.getForm8889ByTaxReturnId(taxReturn.id);
+      const hsaSummary = await hsaService.calculateReturn({
+        filingStatus,
+        profile,
+        coverage: existing8889,
+        contributions: await storage.getHsaContributionsByTaxReturnId(taxReturn.id),
+        distributions: await storage.get1099SaByTaxReturnId(taxReturn.id),
+        statements: await storage.get5498SaByTaxReturnId(taxReturn.id),
+        w2EmployerContributions: Object.fromEntries(Object.entries(w2Benefits.byOwner)
+          .map(([owner, benefits]) => [owner, benefits.employerHsaContributions])),
+        year: activeYear.year,
+      });
+      for (const form of existing8889) {
+        const result = hsaSummary.forms.find((candidate) => candidate.owner === form.owner);
+        await storage.updateForm8889(form.id, {
+          personalContributions: (result?.personalContributions ?? 0).toString(),
+          contributionLimit: (result?.contributionLimit ?? 0).toString(),
+          catchUpContribution: (result?.catchUpContribution ?? 0).toString(),
+          employerContributions: (result?.employerContributions ?? 0).toString(),
+          hsaDeduction: (result?.hsaDeduction ?? 0).toString(),
+          excessContributions: (result?.excessContributions ?? 0).toString(),
+          excessContributionTax: (result?.excessContributionTax ?? 0).toString(),
+          totalDistributions: (result?.totalDistributions ?? 0).toString(),
+          excessWithdrawn: (result?.excessWithdrawn ?? 0).toString(),
+          taxableDistributions: (result?.taxableDistributions ?? 0).toString(),
+          additionalTax: (result?.additionalTax ?? 0).toString(),
+          warnings: result?.warnings ?? [],
+          lines: result?.lines ?? [],
+        });
+      }
+      for (const result of hsaSummary.forms.filter((form) => !existing8889.some((existing) => existing.owner === form.owner))) {
+        await storage.createForm8889({
+          taxReturnId: taxReturn.id,
+          owner: result.owner,
+          coverageType: result.coverageType,
+          monthsCovered: result.monthsCovered,
+          qualifiedMedicalExpenses: result.qualifiedMedicalExpenses !== null ? result.qualifiedMedicalExpenses.toString() : null,
+          personalContributions: result.personalContributions.toString(),
+          contributionLimit: result.contributionLimit.toString(),
+          catchUpContribution: result.catchUpContribution.toString(),
+          employerContributions: result.employerContributions.toString(),
+          hsaDeduction: result.hsaDeduction.toString(),
+          excessContributions: result.excessContributions.toString(),
+          excessContributionTax: result.excessContributionTax.toString(),
+          totalDistributions: result.totalDistributions.toString(),
+          excessWithdrawn: result.excessWithdrawn.toString(),
+          taxableDistributions: result.taxableDistributions.toString(),
+          additionalTax: result.additionalTax.toString(),
+          warnings: result.warnings,
+          lines: result.lines,
+        });
+      }
+
+      // 1099-G: unemployment compensation goes to Schedule 1 line 7. A state or local income
+      // tax refund is taxable only as far as last year's itemized deduction for it lowered the tax.
+      const form1099GData = await storage.get1099GByTaxReturnId(taxReturn.id);
+      const governmentPayments = governmentPaymentService.summarizePayments(form1099GData);
+      const existingStateRefundWorksheet = await storage.getStateRefundWorksheetByTaxReturnId(taxReturn.id);
+      let stateRefundResult: StateRefundWorksheetResult | null = null;
+      if (governmentPayments.stateLocalRefunds > 0 || existingStateRefundWorksheet) {
+        const priorYear = await governmentPaymentService.getPriorYearDeductions(
+          req.userId!,
+          activeYear.year,
+          existingStateRefundWorksheet
+        );
+        stateRefundResult = governmentPaymentService.calculateRefundWorksheet(governmentPayments.stateLocalRefunds, priorYear.deductions);
+        const worksheetData = {
+          taxReturnId: taxReturn.id,
+          priorYearSource: priorYear.source,
+          refunds: stateRefundResult.refunds.toString(),
+          taxableRefunds: stateRefundResult.taxableRefunds.toString(),
+          lines: stateRefundResult.lines,
+        };
+        if (existingStateRefundWorksheet) {
+          await storage.updateStateRefundWorksheet(existingStateRefundWorksheet.id, worksheetData);
+        } else {
+          await storage.createStateRefundWorksheet(worksheetData);
+        }
+      }
+      const schedule1OtherIncome = {
+        taxableRefunds: stateRefundResult?.taxableRefunds ?? 0,
+        unemploymentCompensation: governmentPayments.unemploymentCompensation,
+        hsaDistributions: hsaSummary.taxableDistributions,
+      };
+
+      let schedule1Result = miscIncomeService.calculateSchedule1(miscIncome, scheduleCResult?.netProfit ?? 0, {
+        hsaDeduction: hsaSummary.hsaDeduction,
+        selfEmploymentTaxDeduction: scheduleSEResult?.deductibleHalf ?? 0,
+      }, schedule1OtherIncome);
+
+      // Retirement distributions: taxable amounts after rollovers go on lines 4b/5b
+      const retirementDistributions = retirementDistributionService.summarizeDistributions(rData);
+
+      // Calculate total income. Box 10 dependent care benefits not excluded on Form 2441
+      // are taxable wages (line 1e).
+      const totalWages = w2Data.reduce((sum, w2) => sum + parseFloat(w2.wages || "0"), 0) +
+        w2Benefits.taxableDependentCareBenefits;
+      const ssa1099Data = await storage.getSsa1099ByTaxReturnId(taxReturn.id);
+      const socialSecurityStatements = socialSecurityService.summarizeStatements(ssa1099Data);
+      const totalFederalWithheld = w2Data.reduce((sum, w2) => sum + parseFloat(w2.federalWithheld || "0"), 0) +
+        retirementDistributions.federalWithheld + miscIncome.federalWithheld + socialSecurityStatements.federalWithheld +
+        governmentPayments.federalWithheld;
+      const totalDividends = divData.reduce((sum, div) => sum + parseFloat(div.ordinaryDividends || "0"), 0);
+      const totalQualifiedDividends = divData.reduce((sum, div) => sum + parseFloat(div.qualifiedDividends || "0"), 0);
+      const totalInterest = intData.reduce((sum, int) => sum + parseFloat(int.interestIncome || "0"), 0);
+      const totalCapitalGainDistributions = divData.reduce((sum, div) => sum + parseFloat(div.totalCapitalGain || "0"), 0);
+
+      // Prefer Schedule D netting when it has been calculated, otherwise fall back to raw 1099-B totals
+      // netted against the prior year's capital loss carryover
+      const scheduleDData = await storage.getScheduleDByTaxReturnId(taxReturn.id);
+      let netShortTermGain: number;
+      let netLongTermGain: number;
+      if (scheduleDData) {
+        netShortTermGain = parseFloat(scheduleDData.netShortTermGainLoss || "0");
+        netLongTermGain = parseFloat(scheduleDData.netLongTermGainLoss || "0");
+      } else {
+        const carryover = await capitalLossService.getCarryoverIntoYear(req.userId!, activeYear.year);
+        netShortTermGain = bData.reduce((sum, b) => sum + parseFloat(b.shortTermGainLoss || "0"), 0) - carryover.shortTerm;
+        netLongTermGain = bData.reduce((sum, b) => sum + parseFloat(b.longTermGainLoss || "0"), 0) - carryover.longTerm;
+      }
+      const capitalGainTotals = capitalLossService.calculateScheduleDTotals(
+        netShortTermGain,
+        netLongTermGain + totalCapitalGainDistributions,
+        0,
+        0,
+        filingStatus
+      );
+      const totalCapitalGains = capitalGainTotals.capitalGainForForm1040;
+
+      // IRAs: the deduction (Schedule 1 line 20) phases out on MAGI figured before the deduction
+      // itself, and Form 8606 basis takes the nontaxable part of IRA distributions out of line 4b
+      const existingSocialSecurityWorksheet = await storage.getSocialSecurityBenefitsWorksheetByTaxReturnId(taxReturn.id);
+      const existing8606 = await storage.getForm8606ByTaxReturnId(taxReturn.id);
+      const iraSummary = await iraService.calculateReturn({
+        filingStatus,
+        livedApartAllYear: !!existingSocialSecurityWorksheet?.livedApartAllYear,
+        profile,
+        entries: existing8606,
+        contributions: await storage.getIraContributionsByTaxReturnId(taxReturn.id),
+        priorYearForms: await iraService.getPriorYearForms(req.userId!, activeYear.year),
+        w2RetirementPlanCovered: Object.fromEntries(Object.entries(w2Benefits.byOwner)
+          .map(([owner, benefits]) => [owner, benefits.retirementPlanCovered])),
+        compensation: w2Data.reduce((sum, w2) => sum + parseFloat(w2.wages || "0"), 0) +
+          (scheduleCResult ? scheduleCResult.netProfit - (scheduleSEResult?.deductibleHalf ?? 0) : 0),
+        incomeBeforeIraDistributions: totalWages + totalDividends + totalInterest + totalCapitalGains +
+          retirementDistributions.taxablePensionsAnnuities + schedule1Result.totalAdditionalIncome,
+        taxableIraDistributions: retirementDistributions.taxableIraDistributions,
+        adjustments: schedule1Result.totalAdjustments,
+        socialSecurityStatements: ssa1099Data,
+        year: activeYear.year,
+      });
+      for (const result of iraSummary.forms) {
+        const form8606Data = {
+          traditionalContributions: result.traditionalContributions.toString(),
+          rothContributions: result.rothContributions.toString(),
+          contributionLimit: result.contributionLimit.toString(),
+          deductionLimit: result.deductionLimit.toString(),
+          iraDeduction: result.iraDeduction.toString(),
+          rothLimit: result.rothLimit.toString(),
+          excessContributions: result.excessContributions.toString(),
+          nondeductibleContributions: result.nondeductibleContributions.toString(),
+          totalBasis: result.totalBasis.toString(),
+          nontaxableDistributions: result.nontaxableDistributions.toString(),
+          basisCarryforward: result.basisCarryforward.toString(),
+          taxableDistributions: result.taxableDistributions.toString(),
+          taxableConversions: result.taxableConversions.toString(),
+          warnings: result.warnings,
+          lines: result.lines,
+        };
+        const existing = existing8606.find((form) => form.owner === result.owner);
+        if (existing) {
+          await storage.updateForm8606(existing.id, form8606Data);
+        } else {
+          await storage.createForm8606({ ...form8606Data, taxReturnId: taxReturn.id, owner: result.owner });
+        }
+      }
+      schedule1Result = miscIncomeService.calculateSchedule1(miscIncome, scheduleCResult?.netProfit ?? 0, {
+        hsaDeduction: hsaSummary.hsaDeduction,
+        selfEmploymentTaxDeduction: scheduleSEResult?.deductibleHalf ?? 0,
+        iraDeduction: iraSummary.iraDeduction,
+      }, schedule1OtherIncome);
+
+      // Social Security Benefits Worksheet: the taxable part of SSA-1099 benefits (line 6b)
+      // depends on every other item of income and the adjustments other than student loan interest
+      const otherIncome = totalWages + totalDividends + totalInterest + totalCapitalGains +
+        retirementDistributions.totalTaxable - iraSummary.nontaxableDistributions + schedule1Result.totalAdditionalIncome;
+      let socialSecurityResult: SocialSecurityBenefitsResult | null = null;
+      if (ssa1099Data.length > 0 || existingSocialSecurityWorksheet) {
+        socialSecurityResult = socialSecurityService.calculateTaxableBenefits({
+          filingStatus,
+          livedApartAllYear: !!existingSocialSecurityWorksheet?.livedApartAllYear,
+          statements: ssa1099Data,
+          otherIncome,
+          taxExemptInterest: 0,
+          adjustments: schedule1Result.totalAdjustments,
+        });
+        const worksheetData = {
+          taxReturnId: taxReturn.id,
+          netBenefits: socialSecurityResult.netBenefits.toString(),
+          provisionalIncome: socialSecurityResult.provisionalIncome.toString(),
+          baseAmount: socialSecurityResult.baseAmount.toString(),
+          additionalAmount: socialSecurityResult.additionalAmount.toString(),
+          taxablePercentage: socialSecurityResult.taxablePercentage.toString(),
+          taxableBenefits: socialSecurityResult.taxableBenefits.toString(),
+          lines: socialSecurityResult.lines,
+        };
+        if (existingSocialSecurityWorksheet) {
+          await storage.updateSocialSecurityBenefitsWorksheet(existingSocialSecurityWorksheet.id, worksheetData);
+        } else {
+          await storage.createSocialSecurityBenefitsWorksheet(worksheetData);
+        }
+      }
+      const taxableSocialSecurityBenefits = socialSecurityResult?.taxableBenefits ?? 0;
+
+      const totalIncome = otherIncome + taxableSocialSecurityBenefits;
+
+      // Student loan interest (Schedule 1 line 21) phases out on MAGI figured before the
+      // deduction itself, so it is added once the other adjustments are known
+      const form1098EData = await storage.get1098EByTaxReturnId(taxReturn.id);
+      const studentLoanInterest = await educationService.calculateStudentLoanInterestDeduction(
+        form1098EData,
+        filingStatus,
+        totalIncome - schedule1Result.totalAdjustments,
+        activeYear.year
+      );
+      schedule1Result = miscIncomeService.calculateSchedule1(miscIncome, scheduleCResult?.netProfit ?? 0, {
+        hsaDeduction: hsaSummary.hsaDeduction,
+        selfEmploymentTaxDeduction: scheduleSEResult?.deductibleHalf ?? 0,
+        iraDeduction: iraSummary.iraDeduction,
+        studentLoanInterestDeduction: studentLoanInterest.deduction,
+      }, schedule1OtherIncome);
+
+      const schedule1Data = {
+        taxReturnId: taxReturn.id,
+        taxableRefunds: schedule1Result.taxableRefunds.toString(),
+        businessIncome: schedule1Result.businessIncome.toString(),
+        rentalRoyaltyIncome: schedule1Result.rentalRoyaltyIncome.toString(),
+        unemploymentCompensation: schedule1Result.unemploymentCompensation.toString(),
+        hsaDistributions: schedule1Result.hsaDistributions.toString(),
+        otherIncome: schedule1Result.otherIncome.toString(),
+        totalAdditionalIncome: schedule1Result.totalAdditionalIncome.toString(),
+        hsaDeduction: schedule1Result.hsaDeduction.toString(),
+        selfEmploymentTaxDeduction: schedule1Result.selfEmploymentTaxDeduction.toString(),
+        iraDeduction: schedule1Result.iraDeduction.toString(),
+        studentLoanInterestDeduction: schedule1Result.studentLoanInterestDeduction.toString(),
+        totalAdjustments: schedule1Result.totalAdjustments.toString(),
+      };
+      const existingSchedule1 = await storage.getSchedule1ByTaxReturnId(taxReturn.id);
+      if (existingSchedule1) {
+        await storage.updateSchedule1(existingSchedule1.id, schedule1Data);
+      } else {
+        await storage.createSchedule1(schedule1Data);
+      }
+      
+      // Get tax calculation data from database
+      const taxYear = await taxConfigService.getActiveTaxYear();
+      if (!taxYear) {
+        return res.status(500).json({ message: "No active tax year found" });
+      }
+
+      const taxData = await taxConfigService.getTaxCalculationData(taxYear.year, filingStatus);
+      
+      // Standard deduction - consider additional deductions for blind/disabled
+      let standardDeduction = taxData.federalStandardDeduction ? Number(taxData.federalStandardDeduction.amount) : 0;
+      
+      // Additional standard deduction for blind/disabled taxpayers
+      if (profile?.isBlind && taxData.federalStandardDeduction) {
+        standardDeduction += Number(taxData.federalStandardDeduction.additionalBlindAmount || 0);
+      }
+      if (profile?.isDisabled && taxData.federalStandardDeduction) {
+        standardDeduction += Number(taxData.federalStandardDeduction.additionalDisabledAmount || 0);
+      }
+      if (profile?.isVeteran) {
+        // Veterans may qualify for additional deductions - this would need more specific logic
+        // For now, we'll just note it in the response
+      }
+      
+      // For married filing jointly, consider spouse's additional deductions
+      if ((filingStatus === "married_joint" || filingStatus === "married_separate") && profile && taxData.federalStandardDeduction) {
+        if (profile.isSpouseBlind) {
+          standardDeduction += Number(taxData.federalStandardDeduction.additionalBlindAmount || 0);
+        }
+        if (profile.isSpouseDisabled) {
+          standardDeduction += Number(taxData.federalStandardDeduction.additionalDisabledAmount || 0);
+        }
+        if (profile.isSpouseVeteran) {
+          // Additional spouse veteran deductions
+        }
+      }
+      
+      // Calculate taxable income
+      const adjustedGrossIncome = totalIncome - schedule1Result.totalAdjustments;
+
+      // Itemize when Schedule A beats the standard deduction (or the taxpayer elects to)
+      const scheduleAData = await storage.getScheduleAByTaxReturnId(taxReturn.id);
+      let itemizedDeductions = 0;
+      let scheduleATaxes = 0;
+      if (scheduleAData) {
+        const scheduleAResult = await scheduleAService.calculateScheduleA(
+          scheduleAData,
+          adjustedGrossIncome,
+          filingStatus,
+          taxYear.year
+        );
+        itemizedDeductions = scheduleAResult.totalItemizedDeductions;
+        scheduleATaxes = scheduleAResult.saltDeduction;
+        await storage.updateScheduleA(scheduleAData.id, {
+          medicalDeduction: scheduleAResult.medicalDeduction.toString(),
+          saltDeduction: scheduleAResult.saltDeduction.toString(),
+          interestDeduction: scheduleAResult.interestDeduction.toString(),
+          charitableDeduction: scheduleAResult.charitableDeduction.toString(),
+          totalItemizedDeductions: scheduleAResult.totalItemizedDeductions.toString(),
+        });
+      }
+      const deductionChoice = scheduleAService.chooseDeduction(
+        standardDeduction,
+        itemizedDeductions,
+        scheduleAData?.forceItemize || false
+      );
+      const deduction = deductionChoice.deduction;
+
+      const netCapitalGainForWorksheet = Math.max(
+        0,
+        Math.min(capitalGainTotals.netLongTermGainLoss, capitalGainTotals.totalCapitalGainLoss)
+      );
+
+      // Qualified business income deduction (Form 8995 or 8995-A, Form 1040 line 13) from
+      // Schedule C, K-1 businesses, REIT dividends and PTP income
+      const qbiBusinesses = await storage.getQbiBusinessesByTaxReturnId(taxReturn.id);
+      const section199aDividends = divData.reduce((sum, div) => sum + parseFloat(div.section199aDividends || "0"), 0);
+      const qbiCarryforward = await qbiDeductionService.getCarryforwardIntoYear(req.userId!, taxYear.year);
+      const existing8995 = await storage.getForm8995ByTaxReturnId(taxReturn.id);
+      let form8995Result: Form8995Result | null = null;
+      if (scheduleCResult || qbiBusinesses.length > 0 || section199aDividends > 0 ||
+          qbiCarryforward.qbiLoss > 0 || qbiCarryforward.reitPtpLoss > 0 || existing8995) {
+        form8995Result = await qbiDeductionService.calculateForm8995({
+          filingStatus,
+          businesses: qbiBusinesses,
+          scheduleC: scheduleCResult ? {
+            name: scheduleCData?.businessName || "Schedule C business",
+            qualifiedBusinessIncome: scheduleCResult.netProfit - (scheduleSEResult?.deductibleHalf ?? 0),
+          } : null,
+          section199aDividends,
+          carryforward: qbiCarryforward,
+          taxableIncomeBeforeQbi: adjustedGrossIncome - deduction,
+          netCapitalGain: totalQualifiedDividends + netCapitalGainForWorksheet,
+        }, taxYear.year);
+
+        const form8995Data = {
+          taxReturnId: taxReturn.id,
+          formType: form8995Result.formType,
+          taxableIncomeBeforeQbi: form8995Result.taxableIncomeBeforeQbi.toString(),
+          threshold: form8995Result.threshold.toString(),
+          totalQbi: form8995Result.totalQbi.toString(),
+          qbiLossCarryforwardFromPriorYear: form8995Result.qbiLossCarryforwardFromPriorYear.toString(),
+          qbiComponent: form8995Result.qbiComponent.toString(),
+          reitPtpIncome: form8995Result.reitPtpIncome.toString(),
+          reitPtpLossCarryforwardFromPriorYear: form8995Result.reitPtpLossCarryforwardFromPriorYear.toString(),
+          reitPtpComponent: form8995Result.reitPtpComponent.toString(),
+          deductionBeforeIncomeLimit: form8995Result.deductionBeforeIncomeLimit.toString(),
+          netCapitalGain: form8995Result.netCapitalGain.toString(),
+          incomeLimitation: form8995Result.incomeLimitation.toString(),
+          qbiDeduction: form8995Result.qbiDeduction.toString(),
+          qbiLossCarryforward: form8995Result.qbiLossCarryforward.toString(),
+          reitPtpLossCarryforward: form8995Result.reitPtpLossCarryforward.toString(),
+          businesses: form8995Result.businesses,
+          warnings: form8995Result.warnings,
+          lines: form8995Result.lines,
+        };
+        if (existing8995) {
+          await storage.updateForm8995(existing8995.id, form8995Data);
+        } else {
+          await storage.createForm8995(form8995Data);
+        }
+        await qbiDeductionService.saveCarryforward(req.userId!, taxYear.year, {
+          qbiLoss: form8995Result.qbiLossCarryforward,
+          reitPtpLoss: form8995Result.reitPtpLossCarryforward,
+        });
+      }
+      const qbiDeduction = form8995Result?.qbiDeduction ?? 0;
+
+      const taxableIncome = Math.max(0, adjustedGrossIncome - deduction - qbiDeduction);
+      
+      // Calculate tax using the Qualified Dividends and Capital Gain Tax Worksheet so that
+      // qualified dividends and net long-term gains are taxed at preferential rates
+      const worksheet = await capitalGainsTaxService.calculateWorksheet(
+        taxableIncome,
+        totalQualifiedDividends,
+        netCapitalGainForWorksheet,
+        filingStatus,
+        taxYear.year
+      );
+
+      // Kiddie tax (Form 8615): once the child's return has a Form 8615, net unearned income
+      // over the year's threshold is taxed at the parent's rate (Form 1040 line 16)
+      const existing8615 = await storage.getForm8615ByTaxReturnId(taxReturn.id);
+      let form8615Result: Form8615Result | null = null;
+      if (existing8615) {
+        form8615Result = await kiddieTaxService.calculateForm8615({
+          form: existing8615,
+          childDateOfBirth: profile?.dateOfBirth,
+          childFilingStatus: filingStatus,
+          unearnedIncome: totalIncome - totalWages - Math.max(0, scheduleCResult?.netProfit ?? 0),
+          childTaxableIncome: taxableIncome,
+          childItemizes: deductionChoice.deductionType === "itemized",
+          childQualifiedDividends: totalQualifiedDividends,
+          childNetCapitalGain: netCapitalGainForWorksheet,
+          childTax: worksheet.tax,
+        }, taxYear.year);
+        await storage.updateForm8615(existing8615.id, {
+          isRequired: form8615Result.isRequired,
+          notRequiredReason: form8615Result.notRequiredReason,
+          unearnedIncome: form8615Result.unearnedIncome.toString(),
+          unearnedIncomeThreshold: form8615Result.unearnedIncomeThreshold.toString(),
+          netUnearnedIncome: form8615Result.netUnearnedIncome.toString(),
+          parentTaxableIncomeUsed: form8615Result.parentTaxableIncomeUsed.toString(),
+          parentFilingStatusUsed: form8615Result.parentFilingStatusUsed,
+          parentTaxWithChildIncome: form8615Result.parentTaxWithChildIncome.toString(),
+          parentTax: form8615Result.parentTax.toString(),
+          tentativeTax: form8615Result.tentativeTax.toString(),
+          childTaxOnRemainingIncome: form8615Result.childTaxOnRemainingIncome.toString(),
+          taxWithoutForm8615: form8615Result.taxWithoutForm8615.toString(),
+          tax: form8615Result.tax.toString(),
+          warnings: form8615Result.warnings,
+          lines: form8615Result.lines,
+        });
+      }
+      const tax = form8615Result?.tax ?? worksheet.tax;
+
+      // Foreign tax credit from 1099-DIV box 7 (Schedule 3 line 1): the simplified election
+      // or Form 1116 for passive income, with unused tax carried forward by year
+      const existing1116 = await storage.getForm1116ByTaxReturnId(taxReturn.id);
+      const foreignTaxCarryovers = await foreignTaxCreditService.getCarryoversIntoYear(req.userId!, taxYear.year);
+      let foreignTaxCreditResult: ForeignTaxCreditResult | null = null;
+      if (divData.some((div) => parseFloat(div.foreignTaxPaid || "0") > 0) || foreignTaxCarryovers.length > 0 || existing1116) {
+        foreignTaxCreditResult = foreignTaxCreditService.calculateForeignTaxCredit({
+          filingStatus,
+          dividends: divData,
+          foreignSourceIncome: existing1116?.foreignSourceIncome ? parseFloat(existing1116.foreignSourceIncome) : null,
+          grossIncome: totalIncome,
+          deduction,
+          taxableIncome,
+          tax,
+          carryovers: foreignTaxCarryovers,
+        }, taxYear.year);
+        const form1116Data = {
+          taxReturnId: taxReturn.id,
+          method: foreignTaxCreditResult.method,
+          foreignTaxPaid: foreignTaxCreditResult.foreignTaxPaid.toString(),
+          grossForeignIncome: foreignTaxCreditResult.grossForeignIncome.toString(),
+          apportionedDeductions: foreignTaxCreditResult.apportionedDeductions.toString(),
+          netForeignIncome: foreignTaxCreditResult.netForeignIncome.toString(),
+          carryoverFromPriorYears: foreignTaxCreditResult.carryoverFromPriorYears.toString(),
+          taxableIncome: foreignTaxCreditResult.taxableIncome.toString(),
+          taxBeforeCredits: foreignTaxCreditResult.taxBeforeCredits.toString(),
+          creditLimitation: foreignTaxCreditResult.creditLimitation.toString(),
+          foreignTaxCredit: foreignTaxCreditResult.foreignTaxCredit.toString(),
+          carryoverToNextYear: foreignTaxCreditResult.carryoverToNextYear.toString(),
+          lines: foreignTaxCreditResult.lines,
+        };
+        if (existing1116) {
+          await storage.updateForm1116(existing1116.id, form1116Data);
+        } else {
+          await storage.createForm1116(form1116Data);
+        }
+        await foreignTaxCreditService.saveCarryover(req.userId!, taxYear.year, foreignTaxCreditResult.carryovers);
+      }
+      const foreignTaxCredit = foreignTaxCreditResult?.foreignTaxCredit ?? 0;
+
+      // Premium tax credit (Form 8962): reconcile the 1095-A advance payments with the credit
+      // allowed for the household's income. The net credit is refundable (Schedule 3 line 9)
+      // and excess advance payments are repaid as tax (Schedule 2 line 1a).
+      const form1095AData = await storage.get1095AByTaxReturnId(taxReturn.id);
+      const existing8962 = await storage.getForm8962ByTaxReturnId(taxReturn.id);
+      let form8962Result: Form8962Result | null = null;
+      if (form1095AData.length > 0 || existing8962) {
+        const address = profile?.address as { state?: string } | null | undefined;
+        form8962Result = await premiumTaxCreditService.calculateForm8962({
+          filingStatus,
+          dependents: profile?.dependents,
+          state: address?.state,
+          statements: form1095AData,
+          adjustedGrossIncome,
+          taxExemptInterest: 0,
+          nontaxableSocialSecurity: (socialSecurityResult?.netBenefits ?? 0) - taxableSocialSecurityBenefits,
+        }, taxYear.year);
+
+        const form8962Data = {
+          taxReturnId: taxReturn.id,
+          familySize: form8962Result.familySize,
+          householdIncome: form8962Result.householdIncome.toString(),
+          povertyLine: form8962Result.povertyLine.toString(),
+          fplPercentage: form8962Result.fplPercentage,
+          applicableFigure: form8962Result.applicableFigure.toString(),
+          annualContribution: form8962Result.annualContribution.toString(),
+          totalPremiumTaxCredit: form8962Result.totalPremiumTaxCredit.toString(),
+          advancePayments: form8962Result.advancePayments.toString(),
+          netPremiumTaxCredit: form8962Result.netPremiumTaxCredit.toString(),
+          excessAdvancePayments: form8962Result.excessAdvancePayments.toString(),
+          repaymentLimit: form8962Result.repaymentLimit !== null ? form8962Result.repaymentLimit.toString() : null,
+          excessAdvanceRepayment: form8962Result.excessAdvanceRepayment.toString(),
+          isEligible: form8962Result.isEligible,
+          ineligibleReason: form8962Result.ineligibleReason,
+          months: form8962Result.months,
+          lines: form8962Result.lines,
+        };
+        if (existing8962) {
+          await storage.updateForm8962(existing8962.id, form8962Data);
+        } else {
+          await storage.createForm8962(form8962Data);
+        }
+      }
+      const excessAdvancePremiumTaxCredit = form8962Result?.excessAdvanceRepayment ?? 0;
+
+      // Alternative minimum tax (Form 6251): add back taxes (or the standard deduction)
+      // plus the taxpayer's ISO and private activity bond adjustments. Line 10 is the regular
+      // tax plus the excess advance premium tax credit repayment, less the foreign tax credit,
+      // which is also refigured against the tentative minimum tax.
+      const existing6251 = await storage.getForm6251ByTaxReturnId(taxReturn.id);
+      const form6251Result = await alternativeMinimumTaxService.calculateForm6251({
+        filingStatus,
+        taxableIncome: adjustedGrossIncome - deduction - qbiDeduction,
+        taxesAddBack: deductionChoice.deductionType === "itemized" ? scheduleATaxes : deduction,
+        privateActivityBondInterest: parseFloat(existing6251?.privateActivityBondInterest || "0"),
+        isoBargainElement: parseFloat(existing6251?.isoBargainElement || "0"),
+        regularTax: tax,
+        excessAdvancePremiumTaxCredit,
+        foreignTaxCredit: foreignTaxCreditResult,
+        worksheet,
+      }, taxYear.year);
+
+      const form6251Data = {
+        taxReturnId: taxReturn.id,
+        taxableIncome: form6251Result.taxableIncome.toString(),
+        taxesAddBack: form6251Result.taxesAddBack.toString(),
+        alternativeMinimumTaxableIncome: form6251Result.alternativeMinimumTaxableIncome.toString(),
+        exemption: form6251Result.exemption.toString(),
+        amtBase: form6251Result.amtBase.toString(),
+        amtForeignTaxCredit: form6251Result.amtForeignTaxCredit.toString(),
+        tentativeMinimumTax: form6251Result.tentativeMinimumTax.toString(),
+        regularTax: form6251Result.regularTax.toString(),
+        alternativeMinimumTax: form6251Result.alternativeMinimumTax.toString(),
+        lines: form6251Result.lines,
+      };
+
+      if (existing6251) {
+        await storage.updateForm6251(existing6251.id, form6251Data);
+      } else {
+        await storage.createForm6251(form6251Data);
+      }
+
+      // Form 1040 line 18: regular tax plus Schedule 2 Part I (excess advance premium tax
+      // credit repayment and AMT), before nonrefundable credits
+      const taxBeforeCredits = tax + excessAdvancePremiumTaxCredit + form6251Result.alternativeMinimumTax;
+
+      // Work out how much of a net capital loss carries into next year
+      const carryoverWorksheet = capitalLossService.calculateCarryoverWorksheet(
+        adjustedGrossIncome - deduction - qbiDeduction,
+        capitalGainTotals.netShortTermGainLoss,
+        capitalGainTotals.netLongTermGainLoss,
+        capitalGainTotals.allowableCapitalLoss
+      );
+      const capitalLossCarryover = await capitalLossService.saveCarryover(req.userId!, taxYear.year, {
+        taxableIncome: adjustedGrossIncome - deduction - qbiDeduction,
+        totals: capitalGainTotals,
+        worksheet: carryoverWorksheet,
+      });
+      await capitalLossService.applyCarryoverToNextYear(req.userId!, taxYear.year);
+
+      const worksheetData = {
+        taxReturnId: taxReturn.id,
+        taxableIncome: worksheet.taxableIncome.toString(),
+        qualifiedDividends: worksheet.qualifiedDividends.toString(),
+        netCapitalGain: worksheet.netCapitalGain.toString(),
+        ordinaryIncome: worksheet.ordinaryIncome.toString(),
+        zeroRateAmount: worksheet.zeroRateAmount.toString(),
+        fifteenRateAmount: worksheet.fifteenRateAmount.toString(),
+        twentyRateAmount: worksheet.twentyRateAmount.toString(),
+        ordinaryTax: worksheet.ordinaryTax.toString(),
+        regularTax: worksheet.regularTax.toString(),
+        tax: worksheet.tax.toString(),
+        lines: worksheet.lines,
+      };
+
+      const existingWorksheet = await storage.getQualifiedDividendsWorksheetByTaxReturnId(taxReturn.id);
+      if (existingWorksheet) {
+        await storage.updateQualifiedDividendsWorksheet(existingWorksheet.id, worksheetData);
+      } else {
+        await storage.createQualifiedDividendsWorksheet(worksheetData);
+      }
+      
+      // Additional Medicare Tax (Form 8959) on Medicare wages and self-employment income over the threshold
+      const totalMedicareWages = w2Data.reduce((sum, w2) => sum + parseFloat(w2.medicareWages || "0"), 0);
+      const totalMedicareWithheld = w2Data.reduce((sum, w2) => sum + parseFloat(w2.medicareWithheld || "0"), 0);
+      const totalSocialSecurityWithheld = w2Data.reduce((sum, w2) => sum + parseFloat(w2.socialSecurityWithheld || "0"), 0);
+      const form8959Result = medicareSurtaxService.calculateForm8959(
+        totalMedicareWages,
+        totalMedicareWithheld,
+        filingStatus,
+        scheduleSEResult?.netEarnings || 0
+      );
+
+      const form8959Data = {
+        taxReturnId: taxReturn.id,
+        medicareWages: form8959Result.medicareWages.toString(),
+        threshold: form8959Result.threshold.toString(),
+        excessWages: form8959Result.excessWages.toString(),
+        wageAdditionalMedicareTax: form8959Result.wageAdditionalMedicareTax.toString(),
+        selfEmploymentIncome: form8959Result.selfEmploymentIncome.toString(),
+        selfEmploymentThreshold: form8959Result.selfEmploymentThreshold.toString(),
+        excessSelfEmploymentIncome: form8959Result.excessSelfEmploymentIncome.toString(),
+        selfEmploymentAdditionalMedicareTax: form8959Result.selfEmploymentAdditionalMedicareTax.toString(),
+        additionalMedicareTax: form8959Result.additionalMedicareTax.toString(),
+        medicareWithheld: form8959Result.medicareWithheld.toString(),
+        regularMedicareWithholding: form8959Result.regularMedicareWithholding.toString(),
+        additionalMedicareWithholding: form8959Result.additionalMedicareWithholding.toString(),
+      };
+
+      const existing8959 = await storage.getForm8959ByTaxReturnId(taxReturn.id);
+      if (existing8959) {
+        await storage.updateForm8959(existing8959.id, form8959Data);
+      } else {
+        await storage.createForm8959(form8959Data);
+      }
+
+      // Net Investment Income Tax (Form 8960) using MAGI = AGI
+      const form8960Result = medicareSurtaxService.calculateForm8960({
+        taxableInterest: totalInterest,
+        ordinaryDividends: totalDividends,
+        netGain: totalCapitalGains,
+        otherInvestmentIncome: schedule1Result.rentalRoyaltyIncome,
+        modifiedAgi: adjustedGrossIncome,
+      }, filingStatus);
+
+      const form8960Data = {
+        taxReturnId: taxReturn.id,
+        taxableInterest: form8960Result.taxableInterest.toString(),
+        ordinaryDividends: form8960Result.ordinaryDividends.toString(),
+        netGain: form8960Result.netGain.toString(),
+        otherInvestmentIncome: form8960Result.otherInvestmentIncome.toString(),
+        totalInvestmentIncome: form8960Result.totalInvestmentIncome.toString(),
+        investmentExpenses: form8960Result.investmentExpenses.toString(),
+        netInvestmentIncome: form8960Result.netInvestmentIncome.toString(),
+        modifiedAgi: form8960Result.modifiedAgi.toString(),
+        threshold: form8960Result.threshold.toString(),
+        excessMagi: form8960Result.excessMagi.toString(),
+        netInvestmentIncomeTax: form8960Result.netInvestmentIncomeTax.toString(),
+      };
+
+      const existing8960 = await storage.getForm8960ByTaxReturnId(taxReturn.id);
+      if (existing8960) {
+        await storage.updateForm8960(existing8960.id, form8960Data);
+      } else {
+        await storage.createForm8960(form8960Data);
+      }
+
+      // 10% additional tax on early distributions (Form 5329 Part I)
+      const form5329Result = retirementDistributionService.calculateForm5329(retirementDistributions.earlyDistributions);
+      const existing5329 = await storage.getForm5329ByTaxReturnId(taxReturn.id);
+      if (form5329Result.earlyDistributions > 0 || existing5329) {
+        const form5329Data = {
+          taxReturnId: taxReturn.id,
+          earlyDistributions: form5329Result.earlyDistributions.toString(),
+          exceptionAmount: form5329Result.exceptionAmount.toString(),
+          amountSubjectToTax: form5329Result.amountSubjectToTax.toString(),
+          additionalTax: form5329Result.additionalTax.toString(),
+        };
+        if (existing5329) {
+          await storage.updateForm5329(existing5329.id, form5329Data);
+        } else {
+          await storage.createForm5329(form5329Data);
+        }
+      }
+
+      // Schedule 2 other taxes
+      const otherTaxes = form8959Result.additionalMedicareTax + form8960Result.netInvestmentIncomeTax +
+        form5329Result.additionalTax + (scheduleSEResult?.selfEmploymentTax ?? 0) +
+        w2Benefits.uncollectedSocialSecurityMedicareTax + // Line 13: W-2 box 12 codes A, B, M and N
+        hsaSummary.excessContributionTax + hsaSummary.additionalTax; // Lines 8 and 17c
+
+      // Earned income credit: wages plus net self-employment earnings, disqualified
+      // when investment income exceeds the year's limit
+      const earnedIncome = totalWages +
+        (scheduleCResult ? scheduleCResult.netProfit - (scheduleSEResult?.deductibleHalf ?? 0) : 0);
+      const investmentIncome = totalInterest + totalDividends + Math.max(0, totalCapitalGains) +
+        Math.max(0, schedule1Result.rentalRoyaltyIncome);
+      const earnedIncomeCreditResult = await earnedIncomeCreditService.calculateCredit({
+        filingStatus,
+        earnedIncome,
+        adjustedGrossIncome,
+        investmentIncome,
+        qualifyingChildren: earnedIncomeCreditService.countQualifyingChildren(profile?.dependents, taxYear.year),
+        taxpayerDateOfBirth: profile?.dateOfBirth,
+        spouseDateOfBirth: profile?.spouseDateOfBirth,
+      }, taxYear.year);
+
+      const earnedIncomeCreditData = {
+        taxReturnId: taxReturn.id,
+        qualifyingChildren: earnedIncomeCreditResult.qualifyingChildren,
+        earnedIncome: earnedIncomeCreditResult.earnedIncome.toString(),
+        adjustedGrossIncome: earnedIncomeCreditResult.adjustedGrossIncome.toString(),
+        investmentIncome: earnedIncomeCreditResult.investmentIncome.toString(),
+        investmentIncomeLimit: earnedIncomeCreditResult.investmentIncomeLimit.toString(),
+        creditFromEarnedIncome: earnedIncomeCreditResult.creditFromEarnedIncome.toString(),
+        creditFromAgi: earnedIncomeCreditResult.creditFromAgi !== null ? earnedIncomeCreditResult.creditFromAgi.toString() : null,
+        isEligible: earnedIncomeCreditResult.isEligible,
+        ineligibleReason: earnedIncomeCreditResult.ineligibleReason,
+        earnedIncomeCredit: earnedIncomeCreditResult.earnedIncomeCredit.toString(),
+      };
+
+      const existingEarnedIncomeCredit = await storage.getEarnedIncomeCreditByTaxReturnId(taxReturn.id);
+      if (existingEarnedIncomeCredit) {
+        await storage.updateEarnedIncomeCredit(existingEarnedIncomeCredit.id, earnedIncomeCreditData);
+      } else {
+        await storage.createEarnedIncomeCredit(earnedIncomeCreditData);
+      }
+
+      // Education credits (Form 8863) from the 1098-T forms. The refundable part of the
+      // American opportunity credit goes to line 29, the rest to Schedule 3 line 3.
+      const form1098TData = await storage.get1098TByTaxReturnId(taxReturn.id);
+      const existing8863 = await storage.getForm8863ByTaxReturnId(taxReturn.id);
+      let form8863Result: Form8863Result | null = null;
+      if (form1098TData.length > 0 || existing8863) {
+        form8863Result = await educationService.calculateForm8863(form1098TData, filingStatus, adjustedGrossIncome, taxYear.year);
+        const form8863Data = {
+          taxReturnId: taxReturn.id,
+          modifiedAgi: form8863Result.modifiedAgi.toString(),
+          tentativeAmericanOpportunityCredit: form8863Result.tentativeAmericanOpportunityCredit.toString(),
+          americanOpportunityCredit: form8863Result.americanOpportunityCredit.toString(),
+          refundableAmericanOpportunityCredit: form8863Result.refundableAmericanOpportunityCredit.toString(),
+          nonrefundableAmericanOpportunityCredit: form8863Result.nonrefundableAmericanOpportunityCredit.toString(),
+          lifetimeLearningExpenses: form8863Result.lifetimeLearningExpenses.toString(),
+          lifetimeLearningCredit: form8863Result.lifetimeLearningCredit.toString(),
+          nonrefundableEducationCredits: form8863Result.nonrefundableEducationCredits.toString(),
+          students: form8863Result.students,
+          lines: form8863Result.lines,
+        };
+        if (existing8863) {
+          await storage.updateForm8863(existing8863.id, form8863Data);
+        } else {
+          await storage.createForm8863(form8863Data);
+        }
+      }
+      const educationCredits = form8863Result?.nonrefundableEducationCredits ?? 0;
+
+      // Child and dependent care credit (Schedule 3 line 2), limited to the tax left after
+      // the foreign tax credit
+      let form2441Result: Form2441Result | null = null;
+      if (dependentCareBenefits) {
+        form2441Result = await dependentCareService.calculateForm2441(
+          dependentCareBenefits,
+          filingStatus,
+          adjustedGrossIncome,
+          taxBeforeCredits - foreignTaxCredit,
+          taxYear.year
+        );
+        const form2441Data = {
+          taxReturnId: taxReturn.id,
+          qualifyingPersons: form2441Result.qualifyingPersons,
+          qualifiedExpenses: form2441Result.qualifiedExpenses.toString(),
+          expenseLimit: form2441Result.expenseLimit.toString(),
+          earnedIncome: form2441Result.earnedIncome.toString(),
+          spouseEarnedIncomeUsed: form2441Result.spouseEarnedIncome.toString(),
+          creditRate: form2441Result.creditRate.toString(),
+          tentativeCredit: form2441Result.tentativeCredit.toString(),
+          creditLimit: form2441Result.creditLimit.toString(),
+          dependentCareCredit: form2441Result.dependentCareCredit.toString(),
+          dependentCareBenefits: form2441Result.dependentCareBenefits.toString(),
+          excludedBenefits: form2441Result.excludedBenefits.toString(),
+          taxableBenefits: form2441Result.taxableBenefits.toString(),
+          persons: form2441Result.persons,
+          warnings: form2441Result.warnings,
+          lines: form2441Result.lines,
+        };
+        if (existing2441) {
+          await storage.updateForm2441(existing2441.id, form2441Data);
+        } else {
+          await storage.createForm2441(form2441Data);
+        }
+      }
+      const dependentCareCredit = form2441Result?.dependentCareCredit ?? 0;
+
+      // Saver's Credit (Form 8880, Schedule 3 line 4) on IRA contributions and W-2 deferrals,
+      // limited to the tax left after the other Schedule 3 credits
+      const w2Deferrals = Object.fromEntries(Object.entries(w2Benefits.byOwner)
+        .map(([owner, benefits]) => [owner, benefits.electiveDeferrals + benefits.rothDeferrals]));
+      const existing8880 = await storage.getForm8880ByTaxReturnId(taxReturn.id);
+      let form8880Result: Form8880Result | null = null;
+      if (iraSummary.forms.length > 0 || w2Benefits.electiveDeferrals + w2Benefits.rothDeferrals > 0 || existing8880) {
+        form8880Result = await iraService.calculateForm8880({
+          filingStatus,
+          profile,
+          entries: existing8606,
+          forms: iraSummary.forms,
+          w2Deferrals,
+          adjustedGrossIncome,
+          creditLimit: taxBeforeCredits - foreignTaxCredit - dependentCareCredit - educationCredits,
+          year: taxYear.year,
+        });
+        const form8880Data = {
+          taxReturnId: taxReturn.id,
+          taxpayerContributions: form8880Result.taxpayerContributions.toString(),
+          spouseContributions: form8880Result.spouseContributions.toString(),
+          taxpayerDistributions: form8880Result.taxpayerDistributions.toString(),
+          spouseDistributions: form8880Result.spouseDistributions.toString(),
+          eligibleContributions: form8880Result.eligibleContributions.toString(),
+          adjustedGrossIncome: form8880Result.adjustedGrossIncome.toString(),
+          creditRate: form8880Result.creditRate.toString(),
+          tentativeCredit: form8880Result.tentativeCredit.toString(),
+          creditLimit: form8880Result.creditLimit.toString(),
+          retirementSavingsCredit: form8880Result.retirementSavingsCredit.toString(),
+          lines: form8880Result.lines,
+        };
+        if (existing8880) {
+          await storage.updateForm8880(existing8880.id, form8880Data);
+        } else {
+          await storage.createForm8880(form8880Data);
+        }
+      }
+      const retirementSavingsCredit = form8880Result?.retirementSavingsCredit ?? 0;
+
+      // Residential energy credits (Form 5695). The home improvement credit (Schedule 3 line
+      // 5b) is limited here; the clean energy credit (line 5a) waits for the child tax credit.
+      const energyImprovements = await storage.getEnergyImprovementsByTaxReturnId(taxReturn.id);
+      const energyCarryforward = await energyCreditService.getCarryforwardIntoYear(req.userId!, taxYear.year);
+      const existing5695 = await storage.getForm5695ByTaxReturnId(taxReturn.id);
+      let form5695Result: Form5695Result | null = null;
+      if (energyImprovements.length > 0 || energyCarryforward > 0 || existing5695) {
+        form5695Result = await energyCreditService.calculateForm5695({
+          improvements: energyImprovements,
+          carryforward: energyCarryforward,
+          homeImprovementCreditLimit: taxBeforeCredits - foreignTaxCredit - dependentCareCredit - educationCredits - retirementSavingsCredit,
+        }, taxYear.year);
+      }
+      const homeImprovementCredit = form5695Result?.homeImprovementCredit ?? 0;
+
+      // Schedule 8812: child tax credit / credit for other dependents, and the refundable
+      // additional child tax credit for whatever the tax could not absorb. Credit Limit
+      // Worksheet A takes the Schedule 3 credits out of the tax first.
+      const schedule8812Result = await childTaxCreditService.calculateSchedule8812({
+        dependents: profile?.dependents,
+        filingStatus,
+        modifiedAgi: adjustedGrossIncome,
+        creditLimit: Math.max(0, taxBeforeCredits - foreignTaxCredit - dependentCareCredit - educationCredits - retirementSavingsCredit - homeImprovementCredit),
+        earnedIncome,
+        socialSecurityMedicareWithheld: totalSocialSecurityWithheld + totalMedicareWithheld,
+        selfEmploymentTaxDeduction: schedule1Result.selfEmploymentTaxDeduction,
+        uncollectedSocialSecurityMedicareTax: w2Benefits.uncollectedSocialSecurityMedicareTax,
+        earnedIncomeCredit: earnedIncomeCreditResult.earnedIncomeCredit,
+      }, taxYear.year);
+
+      const schedule8812Data = {
+        taxReturnId: taxReturn.id,
+        qualifyingChildren: schedule8812Result.qualifyingChildren,
+        otherDependents: schedule8812Result.otherDependents,
+        modifiedAgi: schedule8812Result.modifiedAgi.toString(),
+        initialCredit: schedule8812Result.initialCredit.toString(),
+        phaseoutThreshold: schedule8812Result.phaseoutThreshold.toString(),
+        phaseoutReduction: schedule8812Result.phaseoutReduction.toString(),
+        creditAfterPhaseout: schedule8812Result.creditAfterPhaseout.toString(),
+        creditLimit: schedule8812Result.creditLimit.toString(),
+        nonrefundableCredit: schedule8812Result.nonrefundableCredit.toString(),
+        earnedIncome: schedule8812Result.earnedIncome.toString(),
+        additionalChildTaxCredit: schedule8812Result.additionalChildTaxCredit.toString(),
+        lines: schedule8812Result.lines,
+      };
+
+      const existing8812 = await storage.getSchedule8812ByTaxReturnId(taxReturn.id);
+      if (existing8812) {
+        await storage.updateSchedule8812(existing8812.id, schedule8812Data);
+      } else {
+        await storage.createSchedule8812(schedule8812Data);
+      }
+
+      // Form 5695 lines 14-16: the clean energy credit takes what tax is left after the child
+      // tax credit and the rest carries forward to next year
+      if (form5695Result) {
+        form5695Result = energyCreditService.limitCleanEnergyCredit(
+          form5695Result,
+          taxBeforeCredits - foreignTaxCredit - dependentCareCredit - educationCredits - retirementSavingsCredit -
+            homeImprovementCredit - schedule8812Result.nonrefundableCredit
+        );
+        const form5695Data = {
+          taxReturnId: taxReturn.id,
+          cleanEnergyCosts: form5695Result.cleanEnergyCosts.toString(),
+          cleanEnergyCredit: form5695Result.cleanEnergyCredit.toString(),
+          fuelCellCosts: form5695Result.fuelCellCosts.toString(),
+          fuelCellCredit: form5695Result.fuelCellCredit.toString(),
+          carryforwardFromPriorYear: form5695Result.carryforwardFromPriorYear.toString(),
+          totalCleanEnergyCredit: form5695Result.totalCleanEnergyCredit.toString(),
+          cleanEnergyCreditLimit: form5695Result.cleanEnergyCreditLimit.toString(),
+          residentialCleanEnergyCredit: form5695Result.residentialCleanEnergyCredit.toString(),
+          carryforwardToNextYear: form5695Result.carryforwardToNextYear.toString(),
+          efficiencyImprovementCredit: form5695Result.efficiencyImprovementCredit.toString(),
+          heatPumpCredit: form5695Result.heatPumpCredit.toString(),
+          homeImprovementCreditLimit: form5695Result.homeImprovementCreditLimit.toString(),
+          homeImprovementCredit: form5695Result.homeImprovementCredit.toString(),
+          warnings: form5695Result.warnings,
+          lines: form5695Result.lines,
+        };
+        if (existing5695) {
+          await storage.updateForm5695(existing5695.id, form5695Data);
+        } else {
+          await storage.createForm5695(form5695Data);
+        }
+        await energyCreditService.saveCarryforward(req.userId!, taxYear.year, form5695Result.carryforwardToNextYear);
+      }
+      const residentialCleanEnergyCredit = form5695Result?.residentialCleanEnergyCredit ?? 0;
+
+      // Apply credits: nonrefundable credits reduce the tax, refundable credits are paid out
+      const creditsBreakdown = creditsService.buildBreakdown(
+        taxBeforeCredits,
+        {
+          foreignTaxCredit,
+          dependentCareCredit,
+          educationCredits,
+          retirementSavingsCredit,
+          homeImprovementCredit,
+          childTaxCredit: schedule8812Result.nonrefundableCredit,
+          residentialCleanEnergyCredit,
+        },
+        {
+          earnedIncomeCredit: earnedIncomeCreditResult.earnedIncomeCredit,
+          additionalChildTaxCredit: schedule8812Result.additionalChildTaxCredit,
+          americanOpportunityCredit: form8863Result?.refundableAmericanOpportunityCredit ?? 0,
+          netPremiumTaxCredit: form8962Result?.netPremiumTaxCredit ?? 0,
+        }
+      );
+      const taxAfterCredits = Math.max(0, taxBeforeCredits - creditsBreakdown.totalNonrefundableCredits);
+      const totalTaxLiability = taxAfterCredits + otherTaxes;
+
+      // Excess Medicare withholding is credited as Additional Medicare Tax withholding
+      const totalWithholding = totalFederalWithheld + form8959Result.additionalMedicareWithholding;
+
+      // Estimated tax payments (line 26) and the Form 2210 underpayment penalty (line 38).
+      // The prior-year safe harbor comes from last year's return when it was prepared here.
+      const estimatedPaymentData = await storage.getEstimatedTaxPaymentsByTaxReturnId(taxReturn.id);
+      const estimatedPayments = estimatedTaxService.summarizePayments(estimatedPaymentData);
+      const existing2210 = await storage.getForm2210ByTaxReturnId(taxReturn.id);
+      const [priorYearReturn] = await storage.getTaxReturnsByUserIdAndYear(req.userId!, taxYear.year - 1);
+      const priorYear1040 = priorYearReturn ? await storage.getForm1040ByTaxReturnId(priorYearReturn.id) : undefined;
+      const priorYearCredits = priorYear1040?.creditsBreakdown as CreditsBreakdown | null | undefined;
+      const priorYearTax = priorYear1040
+        ? parseFloat(priorYear1040.totalTax || "0") - (priorYearCredits?.totalRefundableCredits || 0)
+        : existing2210?.priorYearTax ? parseFloat(existing2210.priorYearTax) : null;
+      const priorYearAgi = priorYear1040
+        ? parseFloat(priorYear1040.adjustedGrossIncome || "0")
+        : existing2210?.priorYearAgi ? parseFloat(existing2210.priorYearAgi) : null;
+
+      const form2210Result = await estimatedTaxService.calculateForm2210({
+        filingStatus,
+        taxAfterCredits,
+        otherTaxes,
+        refundableCredits: creditsBreakdown.totalRefundableCredits,
+        withholding: totalWithholding,
+        payments: estimatedPaymentData,
+        priorYearTax,
+        priorYearAgi,
+      }, taxYear.year);
+
+      if (existing2210 || estimatedPaymentData.length > 0 || form2210Result.penalty > 0) {
+        const form2210Data = {
+          taxReturnId: taxReturn.id,
+          currentYearTax: form2210Result.currentYearTax.toString(),
+          currentYearSafeHarbor: form2210Result.currentYearSafeHarbor.toString(),
+          withholding: form2210Result.withholding.toString(),
+          priorYearSafeHarbor: form2210Result.priorYearSafeHarbor?.toString() ?? null,
+          requiredAnnualPayment: form2210Result.requiredAnnualPayment.toString(),
+          estimatedPayments: form2210Result.estimatedPayments.toString(),
+          underpayment: form2210Result.underpayment.toString(),
+          penalty: form2210Result.penalty.toString(),
+          method: form2210Result.method,
+          exceptionReason: form2210Result.exceptionReason,
+          installments: form2210Result.installments,
+          lines: form2210Result.lines,
+        };
+        if (existing2210) {
+          await storage.updateForm2210(existing2210.id, form2210Data);
+        } else {
+          await storage.createForm2210(form2210Data);
+        }
+      }
+
+      // Calculate refund or owed; the penalty is added to the amount owed
+      const refundOrOwed = totalWithholding + estimatedPayments.totalFederalPayments +
+        creditsBreakdown.totalRefundableCredits - totalTaxLiability - form2210Result.penalty;
+
+      // Update tax return
+      const updated = await storage.updateTaxReturn(taxReturn.id, {
+        filingStatus,
+        totalIncome: totalIncome.toString(),
+        totalDeductions: deduction.toString(),
+        taxableIncome: taxableIncome.toString(),
+        totalTax: totalTaxLiability.toString(),
+        withheld: totalWithholding.toString(),
+        refundOrOwed: refundOrOwed.toString(),
+        status: "complete",
+      });
+
+      // Create or update Form 1040
+      const existing1040 = await storage.getForm1040ByTaxReturnId(taxReturn.id);
+      
+      const form1040Data = {
+        taxReturnId: taxReturn.id,
+        wages: totalWages.toString(),
+        interestIncome: totalInterest.toString(),
+        dividendIncome: totalDividends.toString(),
+        qualifiedDividends: totalQualifiedDividends.toString(),
+        iraDistributions: retirementDistributions.iraDistributions.toString(),
+        taxableIraDistributions: iraSummary.taxableIraDistributions.toString(),
+        pensionsAnnuities: retirementDistributions.pensionsAnnuities.toString(),
+        taxablePensionsAnnuities: retirementDistributions.taxablePensionsAnnuities.toString(),
+        socialSecurityBenefits: (socialSecurityResult?.netBenefits ?? 0).toString(),
+        taxableSocialSecurityBenefits: taxableSocialSecurityBenefits.toString(),
+        capitalGains: totalCapitalGains.toString(),
+        additionalIncome: schedule1Result.totalAdditionalIncome.toString(),
+        totalIncome: totalIncome.toString(),
+        adjustments: schedule1Result.totalAdjustments.toString(),
+        adjustedGrossIncome: adjustedGrossIncome.toString(),
+        standardDeduction: deduction.toString(),
+        deductionType: deductionChoice.deductionType,
+        itemizedDeductions: itemizedDeductions.toString(),
+        qbiDeduction: qbiDeduction.toString(),
+        taxableIncome: taxableIncome.toString(),
+        tax: tax.toString(),
+        alternativeMinimumTax: form6251Result.alternativeMinimumTax.toString(),
+        excessAdvancePremiumTaxCredit: excessAdvancePremiumTaxCredit.toString(),
+        creditsBreakdown,
+        w2Benefits,
+        otherTaxes: otherTaxes.toString(),
+        totalTax: totalTaxLiability.toString(),
+        federalWithheld: totalWithholding.toString(),
+        estimatedTaxPayments: estimatedPayments.totalFederalPayments.toString(),
+        estimatedTaxPenalty: form2210Result.penalty.toString(),
+        refundOrOwed: refundOrOwed.toString(),
+      };
+
+      const savedForm1040 = existing1040
+        ? await storage.updateForm1040(existing1040.id, form1040Data)
+        : await storage.createForm1040(form1040Data);
+
+      // Keep next year's 1040-ES plan in step with this return
+      const existing1040Es = await storage.getForm1040EsByTaxReturnId(taxReturn.id);
+      if (existing1040Es) {
+        await estimatedTaxService.saveForm1040EsPlan(updated, savedForm1040, existing1040Es);
+      }
+
+      res.json({
+        ...updated,
+        qualifiedDividendsWorksheet: worksheet,
+        capitalLossCarryover,
+        form8959: form8959Result,
+        form8960: form8960Result,
+        retirementDistributions,
+        form5329: form5329Result,
+        miscIncome,
+        earnedIncomeCredit: earnedIncomeCreditResult,
+        schedule8812: schedule8812Result,
+        form6251: form6251Result,
+        form8863: form8863Result,
+        foreignTaxCredit: foreignTaxCreditResult,
+        form2441: form2441Result,
+        socialSecurityWorksheet: socialSecurityResult,
+        governmentPayments,
+        stateRefundWorksheet: stateRefundResult,
+        form8962: form8962Result,
+        estimatedPayments,
+        form2210: form2210Result,
+        studentLoanInterest,
+        w2Benefits,
+        hsa: hsaSummary,
+        ira: iraSummary,
+        form8880: form8880Result,
+        form5695: form5695Result,
+        form8615: form8615Result,
+        form8995: form8995Result,
+        credits: creditsBreakdown,
+        scheduleC: scheduleCResult,
+        scheduleSE: scheduleSEResult,
+        schedule1: schedule1Result,
+        profileBasedCalculations: {
+          filingStatus: profile?.filingStatus || filingStatus,
+          standardDeduction,
+          itemizedDeductions,
+          deductionType: deductionChoice.deductionType,
+          childTaxCredit: creditsBreakdown.childTaxCredit,
+          additionalChildTaxCredit: creditsBreakdown.additionalChildTaxCredit,
+          additionalDeductions: {
+            blind: profile?.isBlind ? 1850 : 0,
+            disabled: profile?.isDisabled ? 1850 : 0,
+            veteran: profile?.isVeteran ? "eligible" : "not_eligible",
+            spouseBlind: profile?.isSpouseBlind ? 1850 : 0,
+            spouseDisabled: profile?.isSpouseDisabled ? 1850 : 0,
+            spouseVeteran: profile?.isSpouseVeteran ? "eligible" : "not_eligible",
+          },
+          dependents: {
+            total: Array.isArray(profile?.dependents) ? profile.dependents.length : 0,
+            qualifyingChildren: Array.isArray(profile?.dependents) ? profile.dependents.filter((dep: any) => dep.isQualifyingChild).length : 0,
+            qualifyingRelatives: Array.isArray(profile?.dependents) ? profile.dependents.filter((dep: any) => dep.isQualifyingRelative).length : 0,
+          }
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message || "Calculation failed" });
+    }
+  });
+
+  // Form 8959 / Form 8960 / Form 5329 / Schedule 1 / Schedule SE routes
+  app.get("/api/form8959", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form8959 = await storage.getForm8959ByTaxReturnId(taxReturns[0].id);
+      res.json(form8959 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/form8960", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form8960 = await storage.getForm8960ByTaxReturnId(taxReturns[0].id);
+      res.json(form8960 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/form5329", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form5329 = await storage.getForm5329ByTaxReturnId(taxReturns[0].id);
+      res.json(form5329 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Schedule 1 route
+  app.get("/api/schedule-1", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const schedule1 = await storage.getSchedule1ByTaxReturnId(taxReturns[0].id);
+      res.json(schedule1 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/schedule-se", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const scheduleSE = await storage.getScheduleSEByTaxReturnId(taxReturns[0].id);
+      res.json(scheduleSE || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/earned-income-credit", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const earnedIncomeCredit = await storage.getEarnedIncomeCreditByTaxReturnId(taxReturns[0].id);
+      res.json(earnedIncomeCredit || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/schedule-8812", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const schedule8812 = await storage.getSchedule8812ByTaxReturnId(taxReturns[0].id);
+      res.json(schedule8812 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Form 6251 (alternative minimum tax) routes
+  app.get("/api/form6251", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form6251 = await storage.getForm6251ByTaxReturnId(taxReturns[0].id);
+      res.json(form6251 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Save the taxpayer-entered AMT adjustments; the rest of the form is filled in by /api/calculate
+  app.put("/api/form6251/adjustments", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const adjustments = insertForm6251Schema
+        .pick({ isoBargainElement: true, privateActivityBondInterest: true })
+        .parse(req.body);
+
+      const existing = await storage.getForm6251ByTaxReturnId(taxReturns[0].id);
+      const form6251 = existing
+        ? await storage.updateForm6251(existing.id, adjustments)
+        : await storage.createForm6251({ ...adjustments, taxReturnId: taxReturns[0].id });
+      res.json(form6251);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Form 8615 (kiddie tax) routes
+  app.get("/api/form8615", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form8615 = await storage.getForm8615ByTaxReturnId(taxReturns[0].id);
+      res.json(form8615 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Save the parent and support answers; the rest of the form is filled in by /api/calculate
+  app.put("/api/form8615", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const answers = insertForm8615Schema
+        .pick({
+          parentName: true,
+          parentTaxableIncome: true,
+          parentFilingStatus: true,
+          otherChildrenNetUnearnedIncome: true,
+          directlyConnectedDeductions: true,
+          isFullTimeStudent: true,
+          earnedIncomeExceedsHalfSupport: true,
+        })
+        .parse(req.body);
+      if (answers.parentFilingStatus && !isOneOf(FILING_STATUS, answers.parentFilingStatus)) {
+        return res.status(400).json({ message: "Invalid parent filing status" });
+      }
+
+      const existing = await storage.getForm8615ByTaxReturnId(taxReturns[0].id);
+      const form8615 = existing
+        ? await storage.updateForm8615(existing.id, answers)
+        : await storage.createForm8615({ ...answers, taxReturnId: taxReturns[0].id });
+      res.json(form8615);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Link the child's return to the parent's return for the same year. The parent signs in
+  // with their own username and password so a return cannot be linked without their consent.
+  app.post("/api/form8615/link-parent", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const { username, password } = loginSchema.parse(req.body);
+      const parentUser = await storage.getUserByUsername(username);
+      if (!parentUser || !(await bcrypt.compare(password, parentUser.password))) {
+        return res.status(400).json({ message: "Parent username or password is incorrect" });
+      }
+      if (parentUser.id === req.userId) {
+        return res.status(400).json({ message: "Sign in with the parent's account, not the child's" });
+      }
+
+      const parentReturns = await storage.getTaxReturnsByUserIdAndYear(parentUser.id, activeYear.year);
+      if (parentReturns.length === 0) {
+        return res.status(404).json({ message: `The parent has no ${activeYear.year} return` });
+      }
+
+      const parentProfile = await storage.getUserProfile(parentUser.id);
+      const parentName = [parentProfile?.firstName, parentProfile?.lastName].filter(Boolean).join(" ") || parentUser.username;
+      const link = { parentTaxReturnId: parentReturns[0].id, parentName };
+
+      const existing = await storage.getForm8615ByTaxReturnId(taxReturns[0].id);
+      const form8615 = existing
+        ? await storage.updateForm8615(existing.id, link)
+        : await storage.createForm8615({ ...link, taxReturnId: taxReturns[0].id });
+      res.json(form8615);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/form8615/link-parent", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const existing = await storage.getForm8615ByTaxReturnId(taxReturns[0].id);
+      if (!existing) {
+        return res.status(404).json({ message: "Form 8615 not found" });
+      }
+
+      const form8615 = await storage.updateForm8615(existing.id, { parentTaxReturnId: null });
+      res.json(form8615);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Form 8863 education credits route
+  app.get("/api/form8863", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form8863 = await storage.getForm8863ByTaxReturnId(taxReturns[0].id);
+      res.json(form8863 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Form 8889 health savings account routes
+  app.get("/api/form8889", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+
+      const form8889 = await storage.getForm8889ByTaxReturnId(taxReturns[0].id);
+      res.json(form8889);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/form8889/coverage", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const coverage = insertForm8889Schema
+        .pick({ owner: true, coverageType: true, monthsCovered: true, qualifiedMedicalExpenses: true })
+        .parse(req.body);
+
+      const existing = (await storage.getForm8889ByTaxReturnId(taxReturns[0].id))
+        .find((form) => form.owner === (coverage.owner || "taxpayer"));
+      const form8889 = existing
+        ? await storage.updateForm8889(existing.id, coverage)
+        : await storage.createForm8889({ ...coverage, taxReturnId: taxReturns[0].id });
+      res.json(form8889);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/hsa-contributions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+
+      const contributions = await storage.getHsaContributionsByTaxReturnId(taxReturns[0].id);
+      res.json(contributions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/hsa-contributions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const data = insertHsaContributionSchema.parse({ ...req.body, taxReturnId: taxReturns[0].id });
+      const contribution = await storage.createHsaContribution(data);
+      res.json(contribution);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/hsa-contributions/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { taxReturnId, ...updates } = insertHsaContributionSchema.partial().parse(req.body);
+      const contribution = await storage.updateHsaContribution(req.params.id, updates);
+      res.json(contribution);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/hsa-contributions/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.deleteHsaContribution(req.params.id);
+      res.json({ message: "HSA contribution deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Form 8606 / Form 8880 IRA routes
+  app.get("/api/form8606", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+
+      const form8606 = await storage.getForm8606ByTaxReturnId(taxReturns[0].id);
+      res.json(form8606);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/form8606/entries", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const entries = insertForm8606Schema
+        .pick({
+          owner: true,
+          coveredByWorkplacePlan: true,
+          fullTimeStudent: true,
+          priorYearBasis: true,
+          yearEndValue: true,
+          distributions: true,
+          rothConversions: true,
+        })
+        .parse(req.body);
+
+      const existing = (await storage.getForm8606ByTaxReturnId(taxReturns[0].id))
+        .find((form) => form.owner === (entries.owner || "taxpayer"));
+      const form8606 = existing
+        ? await storage.updateForm8606(existing.id, entries)
+        : await storage.createForm8606({ ...entries, taxReturnId: taxReturns[0].id });
+      res.json(form8606);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/form8880", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form8880 = await storage.getForm8880ByTaxReturnId(taxReturns[0].id);
+      res.json(form8880 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/ira-contributions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+
+      const contributions = await storage.getIraContributionsByTaxReturnId(taxReturns[0].id);
+      res.json(contributions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/ira-contributions", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const data = insertIraContributionSchema.parse({ ...req.body, taxReturnId: taxReturns[0].id });
+      const contribution = await storage.createIraContribution(data);
+      res.json(contribution);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/ira-contributions/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { taxReturnId, ...updates } = insertIraContributionSchema.partial().parse(req.body);
+      const contribution = await storage.updateIraContribution(req.params.id, updates);
+      res.json(contribution);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/ira-contributions/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.deleteIraContribution(req.params.id);
+      res.json({ message: "IRA contribution deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Residential energy credit (Form 5695) routes
+  app.get("/api/form5695", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form5695 = await storage.getForm5695ByTaxReturnId(taxReturns[0].id);
+      res.json(form5695 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/energy-improvements", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+
+      const improvements = await storage.getEnergyImprovementsByTaxReturnId(taxReturns[0].id);
+      res.json(improvements);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/energy-improvements", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const data = insertEnergyImprovementSchema.parse({ ...req.body, taxReturnId: taxReturns[0].id });
+      if (!isOneOf(ENERGY_PROPERTY_CATEGORIES, data.category)) {
+        return res.status(400).json({ message: "Unknown energy property category" });
+      }
+
+      const improvement = await storage.createEnergyImprovement(data);
+      res.json(improvement);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/energy-improvements/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { taxReturnId, ...updates } = insertEnergyImprovementSchema.partial().parse(req.body);
+      if (updates.category && !isOneOf(ENERGY_PROPERTY_CATEGORIES, updates.category)) {
+        return res.status(400).json({ message: "Unknown energy property category" });
+      }
+
+      const improvement = await storage.updateEnergyImprovement(req.params.id, updates);
+      res.json(improvement);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/energy-improvements/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.deleteEnergyImprovement(req.params.id);
+      res.json({ message: "Energy improvement deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Qualified business income deduction (Form 8995 / 8995-A) routes
+  app.get("/api/form8995", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form8995 = await storage.getForm8995ByTaxReturnId(taxReturns[0].id);
+      res.json(form8995 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/qbi-businesses", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+
+      const businesses = await storage.getQbiBusinessesByTaxReturnId(taxReturns[0].id);
+      res.json(businesses);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/qbi-businesses", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const data = insertQbiBusinessSchema.parse({ ...req.body, taxReturnId: taxReturns[0].id });
+      if (!isOneOf(QBI_SOURCE_TYPES, data.sourceType)) {
+        return res.status(400).json({ message: "Unknown qualified business income source" });
+      }
+
+      const business = await storage.createQbiBusiness(data);
+      res.json(business);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/qbi-businesses/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { taxReturnId, ...updates } = insertQbiBusinessSchema.partial().parse(req.body);
+      if (updates.sourceType && !isOneOf(QBI_SOURCE_TYPES, updates.sourceType)) {
+        return res.status(400).json({ message: "Unknown qualified business income source" });
+      }
+
+      const business = await storage.updateQbiBusiness(req.params.id, updates);
+      res.json(business);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/qbi-businesses/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.deleteQbiBusiness(req.params.id);
+      res.json({ message: "Qualified business deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Child and dependent care (Form 2441) routes
+  app.get("/api/care-providers", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+
+      const providers = await storage.getCareProvidersByTaxReturnId(taxReturns[0].id);
+      res.json(providers);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/care-providers", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const data = insertCareProviderSchema.parse({ ...req.body, taxReturnId: taxReturns[0].id });
+      const provider = await storage.createCareProvider(data);
+      res.json(provider);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/care-providers/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { taxReturnId, ...updates } = insertCareProviderSchema.partial().parse(req.body);
+      const provider = await storage.updateCareProvider(req.params.id, updates);
+      res.json(provider);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/care-providers/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.deleteCareProvider(req.params.id);
+      res.json({ message: "Care provider deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/form2441", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form2441 = await storage.getForm2441ByTaxReturnId(taxReturns[0].id);
+      res.json(form2441 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Spouse's earned income for Form 2441 line 5 on a joint return
+  app.put("/api/form2441/spouse", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const spouse = insertForm2441Schema
+        .pick({ spouseEarnedIncome: true, spouseStudentOrDisabled: true })
+        .parse(req.body);
+      const updates = {
+        spouseEarnedIncome: spouse.spouseEarnedIncome || null,
+        spouseStudentOrDisabled: !!spouse.spouseStudentOrDisabled,
+      };
+
+      const existing = await storage.getForm2441ByTaxReturnId(taxReturns[0].id);
+      const form2441 = existing
+        ? await storage.updateForm2441(existing.id, updates)
+        : await storage.createForm2441({ ...updates, taxReturnId: taxReturns[0].id });
+      res.json(form2441);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Social Security Benefits Worksheet routes
+  app.get("/api/form8962", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form = await storage.getForm8962ByTaxReturnId(taxReturns[0].id);
+      res.json(form || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/social-security-worksheet", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const worksheet = await storage.getSocialSecurityBenefitsWorksheetByTaxReturnId(taxReturns[0].id);
+      res.json(worksheet || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Married filing separately: living apart from the spouse all year restores the base amount
+  app.put("/api/social-security-worksheet", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const { livedApartAllYear } = insertSocialSecurityBenefitsWorksheetSchema
+        .pick({ livedApartAllYear: true })
+        .parse(req.body);
+
+      const existing = await storage.getSocialSecurityBenefitsWorksheetByTaxReturnId(taxReturns[0].id);
+      const worksheet = existing
+        ? await storage.updateSocialSecurityBenefitsWorksheet(existing.id, { livedApartAllYear: !!livedApartAllYear })
+        : await storage.createSocialSecurityBenefitsWorksheet({ taxReturnId: taxReturns[0].id, livedApartAllYear: !!livedApartAllYear });
+      res.json(worksheet);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // State and local income tax refund worksheet routes
+  app.get("/api/state-refund-worksheet", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const worksheet = await storage.getStateRefundWorksheetByTaxReturnId(taxReturns[0].id);
+      res.json(worksheet || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Last year's deductions, used when the prior-year return was not prepared here
+  app.put("/api/state-refund-worksheet/prior-year", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const priorYear = insertStateRefundWorksheetSchema
+        .pick({
+          priorYearItemized: true,
+          priorYearItemizedDeductions: true,
+          priorYearStandardDeduction: true,
+          priorYearStateLocalTaxes: true,
+          priorYearSaltDeduction: true,
+        })
+        .parse(req.body);
+      const updates = {
+        priorYearItemized: priorYear.priorYearItemized ?? null,
+        priorYearItemizedDeductions: priorYear.priorYearItemizedDeductions || null,
+        priorYearStandardDeduction: priorYear.priorYearStandardDeduction || null,
+        priorYearStateLocalTaxes: priorYear.priorYearStateLocalTaxes || null,
+        priorYearSaltDeduction: priorYear.priorYearSaltDeduction || null,
+      };
+
+      const existing = await storage.getStateRefundWorksheetByTaxReturnId(taxReturns[0].id);
+      const worksheet = existing
+        ? await storage.updateStateRefundWorksheet(existing.id, updates)
+        : await storage.createStateRefundWorksheet({ ...updates, taxReturnId: taxReturns[0].id });
+      res.json(worksheet);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Estimated tax payment routes
+  app.get("/api/estimated-payments", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json([]);
+
+      const payments = await storage.getEstimatedTaxPaymentsByTaxReturnId(taxReturns[0].id);
+      res.json(payments.sort((a, b) => a.paymentDate.localeCompare(b.paymentDate)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/estimated-payments", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const data = insertEstimatedTaxPaymentSchema.parse({ ...req.body, taxReturnId: taxReturns[0].id });
+      if (!isOneOf(ESTIMATED_PAYMENT_JURISDICTIONS, data.jurisdiction)) {
+        return res.status(400).json({ message: "Jurisdiction must be federal or state" });
+      }
+
+      const payment = await storage.createEstimatedTaxPayment(data);
+      res.json(payment);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/estimated-payments/:id", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      const { taxReturnId } = req.params;
-      
-      // Get all income data
-      const w2Data = await storage.getW2DataByTaxReturnId(taxReturnId);
-      const divData = await storage.get1099DivByTaxReturnId(taxReturnId);
-      const intData = await storage.get1099IntByTaxReturnId(taxReturnId);
-      const bData = await storage.get1099BByTaxReturnId(taxReturnId);
-      const bEntries = await storage.get1099BEntriesByTaxReturnId(taxReturnId);
+      const { taxReturnId, ...updates } = insertEstimatedTaxPaymentSchema.partial().parse(req.body);
+      if (updates.jurisdiction && !isOneOf(ESTIMATED_PAYMENT_JURISDICTIONS, updates.jurisdiction)) {
+        return res.status(400).json({ message: "Jurisdiction must be federal or state" });
+      }
 
-      // Calculate totals
-      const totalWages = w2Data.reduce((sum, w2) => sum + parseFloat(w2.wages || "0"), 0);
-      const totalFederalWithheld = w2Data.reduce((sum, w2) => sum + parseFloat(w2.federalWithheld || "0"), 0);
-      const totalDividends = divData.reduce((sum, div) => sum + parseFloat(div.ordinaryDividends || "0"), 0);
-      const totalQualifiedDividends = divData.reduce((sum, div) => sum + parseFloat(div.qualifiedDividends || "0"), 0);
-      const totalInterest = intData.reduce((sum, int) => sum + parseFloat(int.interestIncome || "0"), 0);
-      
-      // Calculate capital gains from individual entries, accounting for wash sales
-      const totalCapitalGains = bEntries.reduce((sum, entry) => {
-        const proceeds = parseFloat(entry.proceeds || "0");
-        const costBasis = parseFloat(entry.costBasis || "0");
-        const washSaleAmount = parseFloat(entry.washSaleAmount || "0");
-        
-        // For wash sales, subtract wash sale amount from cost basis
-        const adjustedCostBasis = costBasis - washSaleAmount;
-        const gainLoss = proceeds - adjustedCostBasis;
-        
-        console.log(`Capital Gains Calculation - Entry ${entry.id}:`, {
-          proceeds,
-          costBasis,
-          washSaleAmount,
-          adjustedCostBasis,
-          gainLoss,
-          description: entry.description
-        });
-        
-        return sum + gainLoss;
-      }, 0);
+      const payment = await storage.updateEstimatedTaxPayment(req.params.id, updates);
+      res.json(payment);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      const breakdown = {
-        wages: totalWages,
-        federalWithheld: totalFederalWithheld,
-        dividends: totalDividends,
-        qualifiedDividends: totalQualifiedDividends,
-        interest: totalInterest,
-        capitalGains: totalCapitalGains,
-        totalIncome: totalWages + totalDividends + totalInterest + totalCapitalGains,
-        w2Count: w2Data.length,
-        divCount: divData.length,
-        intCount: intData.length,
-        bCount: bData.length,
-      };
+  app.delete("/api/estimated-payments/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.deleteEstimatedTaxPayment(req.params.id);
+      res.json({ message: "Estimated tax payment deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      res.json(breakdown);
+  app.get("/api/form2210", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const form2210 = await storage.getForm2210ByTaxReturnId(taxReturns[0].id);
+      res.json(form2210 || null);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Tax calculation route
-  app.post("/api/calculate", authenticateToken, async (req: AuthRequest, res) => {
+  // Prior-year tax and AGI for the safe harbor when last year's return was not prepared here
+  app.put("/api/form2210/prior-year", authenticateToken, async (req: AuthRequest, res) => {
     try {
-      // Get user profile for filing status and other tax-relevant info
-      const profile = await storage.getUserProfile(req.userId!);
-      const filingStatus = req.body.filingStatus || profile?.filingStatus || "single";
-      
       const activeYear = await taxConfigService.getActiveTaxYear();
       if (!activeYear) {
         return res.status(404).json({ message: "No active tax year found" });
       }
 
       const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
-      
       if (taxReturns.length === 0) {
         return res.status(404).json({ message: "No tax return found" });
       }
 
-      const taxReturn = taxReturns[0];
+      const priorYear = insertForm2210Schema
+        .pick({ priorYearTax: true, priorYearAgi: true })
+        .parse(req.body);
+      const updates = {
+        priorYearTax: priorYear.priorYearTax || null,
+        priorYearAgi: priorYear.priorYearAgi || null,
+      };
 
-      // Get all income data
-      const w2Data = await storage.getW2DataByTaxReturnId(taxReturn.id);
-      const divData = await storage.get1099DivByTaxReturnId(taxReturn.id);
-      const intData = await storage.get1099IntByTaxReturnId(taxReturn.id);
-      const bData = await storage.get1099BByTaxReturnId(taxReturn.id);
+      const existing = await storage.getForm2210ByTaxReturnId(taxReturns[0].id);
+      const form2210 = existing
+        ? await storage.updateForm2210(existing.id, updates)
+        : await storage.createForm2210({ ...updates, taxReturnId: taxReturns[0].id });
+      res.json(form2210);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      // Calculate total income
-      const totalWages = w2Data.reduce((sum, w2) => sum + parseFloat(w2.wages || "0"), 0);
-      const totalFederalWithheld = w2Data.reduce((sum, w2) => sum + parseFloat(w2.federalWithheld || "0"), 0);
-      const totalDividends = divData.reduce((sum, div) => sum + parseFloat(div.ordinaryDividends || "0"), 0);
-      const totalQualifiedDividends = divData.reduce((sum, div) => sum + parseFloat(div.qualifiedDividends || "0"), 0);
-      const totalInterest = intData.reduce((sum, int) => sum + parseFloat(int.interestIncome || "0"), 0);
-      const totalCapitalGains = bData.reduce((sum, b) => sum + parseFloat(b.shortTermGainLoss || "0") + parseFloat(b.longTermGainLoss || "0"), 0);
+  // Next year's 1040-ES plan routes
+  app.get("/api/form1040-es", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
 
-      const totalIncome = totalWages + totalDividends + totalInterest + totalCapitalGains;
-      
-      // Get tax calculation data from database
-      const taxYear = await taxConfigService.getActiveTaxYear();
-      if (!taxYear) {
-        return res.status(500).json({ message: "No active tax year found" });
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const plan = await storage.getForm1040EsByTaxReturnId(taxReturns[0].id);
+      res.json(plan || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/form1040-es", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
       }
 
-      const taxData = await taxConfigService.getTaxCalculationData(taxYear.year, filingStatus);
-      
-      // Standard deduction - consider additional deductions for blind/disabled
-      let standardDeduction = taxData.federalStandardDeduction ? Number(taxData.federalStandardDeduction.amount) : 0;
-      
-      // Additional standard deduction for blind/disabled taxpayers
-      if (profile?.isBlind && taxData.federalStandardDeduction) {
-        standardDeduction += Number(taxData.federalStandardDeduction.additionalBlindAmount || 0);
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
       }
-      if (profile?.isDisabled && taxData.federalStandardDeduction) {
-        standardDeduction += Number(taxData.federalStandardDeduction.additionalDisabledAmount || 0);
+
+      const form1040 = await storage.getForm1040ByTaxReturnId(taxReturns[0].id);
+      if (!form1040) {
+        return res.status(404).json({ message: "Form 1040 not found. Please calculate your taxes first." });
       }
-      if (profile?.isVeteran) {
-        // Veterans may qualify for additional deductions - this would need more specific logic
-        // For now, we'll just note it in the response
+
+      const entries = insertForm1040EsSchema
+        .pick({ expectedAgi: true, expectedWithholding: true, overpaymentApplied: true })
+        .parse(req.body);
+
+      const plan = await estimatedTaxService.saveForm1040EsPlan(taxReturns[0], form1040, entries);
+      res.json(plan);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // The four voucher due dates as an iCalendar file
+  app.get("/api/form1040-es/calendar", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
       }
-      
-      // For married filing jointly, consider spouse's additional deductions
-      if ((filingStatus === "married_joint" || filingStatus === "married_separate") && profile && taxData.federalStandardDeduction) {
-        if (profile.isSpouseBlind) {
-          standardDeduction += Number(taxData.federalStandardDeduction.additionalBlindAmount || 0);
-        }
-        if (profile.isSpouseDisabled) {
-          standardDeduction += Number(taxData.federalStandardDeduction.additionalDisabledAmount || 0);
-        }
-        if (profile.isSpouseVeteran) {
-          // Additional spouse veteran deductions
-        }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      const plan = taxReturns.length > 0 ? await storage.getForm1040EsByTaxReturnId(taxReturns[0].id) : undefined;
+      if (!plan) {
+        return res.status(404).json({ message: "No 1040-ES plan found" });
       }
-      
-      // Calculate dependent-related deductions and credits
-      let childTaxCredit = 0;
-      let dependentDeduction = 0;
-      
-      if (profile?.dependents && Array.isArray(profile.dependents)) {
-        const qualifyingChildren = profile.dependents.filter(dep => dep.isQualifyingChild);
-        const qualifyingRelatives = profile.dependents.filter(dep => dep.isQualifyingRelative);
-        
-        // Child Tax Credit calculation
-        childTaxCredit = qualifyingChildren.length * 2000; // This should also be dynamic per year
-        
-        // Additional Child Tax Credit for children under 17 (simplified calculation)
-        const childrenUnder17 = qualifyingChildren.filter(dep => {
-          const birthYear = new Date(dep.dateOfBirth).getFullYear();
-          const currentYear = taxYear.year;
-          return (currentYear - birthYear) < 17;
-        });
-        childTaxCredit += childrenUnder17.length * 2000; // Additional $2,000 per child under 17
-        
-        // Dependent deduction (simplified - in reality this affects AGI)
-        dependentDeduction = (qualifyingChildren.length + qualifyingRelatives.length) * 500; // Simplified dependent deduction
+
+      const calendar = estimatedTaxService.buildPaymentCalendar(
+        (plan.vouchers as Form1040EsVoucher[] | null) || [],
+        plan.planYear
+      );
+
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="Estimated_Tax_${plan.planYear}.ics"`
+      );
+      res.send(calendar);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/form1116", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
       }
-      
-      // Calculate taxable income
-      const adjustedGrossIncome = totalIncome;
-      const taxableIncome = Math.max(0, adjustedGrossIncome - standardDeduction - dependentDeduction);
-      
-      // Calculate tax using database brackets
-      const tax = await taxConfigService.calculateFederalTax(taxableIncome, filingStatus, taxYear.year);
-      
-      // Apply credits
-      const taxAfterCredits = Math.max(0, tax - childTaxCredit);
-      
-      // Calculate refund or owed
-      const refundOrOwed = totalFederalWithheld - taxAfterCredits;
 
-      // Update tax return
-      const updated = await storage.updateTaxReturn(taxReturn.id, {
-        filingStatus,
-        totalIncome: totalIncome.toString(),
-        totalDeductions: (standardDeduction + dependentDeduction).toString(),
-        taxableIncome: taxableIncome.toString(),
-        totalTax: taxAfterCredits.toString(),
-        withheld: totalFederalWithheld.toString(),
-        refundOrOwed: refundOrOwed.toString(),
-        status: "complete",
-      });
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
 
-      // Create or update Form 1040
-      const existing1040 = await storage.getForm1040ByTaxReturnId(taxReturn.id);
-      
-      const form1040Data = {
-        taxReturnId: taxReturn.id,
-        wages: totalWages.toString(),
-        interestIncome: totalInterest.toString(),
-        dividendIncome: totalDividends.toString(),
-        qualifiedDividends: totalQualifiedDividends.toString(),
-        capitalGains: totalCapitalGains.toString(),
-        totalIncome: totalIncome.toString(),
-        adjustments: "0",
-        adjustedGrossIncome: adjustedGrossIncome.toString(),
-        standardDeduction: standardDeduction.toString(),
-        taxableIncome: taxableIncome.toString(),
-        tax: tax.toString(),
-        credits: "0",
-        totalTax: tax.toString(),
-        federalWithheld: totalFederalWithheld.toString(),
-        refundOrOwed: refundOrOwed.toString(),
-      };
+      const form1116 = await storage.getForm1116ByTaxReturnId(taxReturns[0].id);
+      res.json(form1116 || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-      if (existing1040) {
-        await storage.updateForm1040(existing1040.id, form1040Data);
-      } else {
-        await storage.createForm1040(form1040Data);
+  // Foreign-source income override for Form 1116 line 1a; null falls back to 1099-DIV
+  app.put("/api/form1116/foreign-income", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
       }
 
-      res.json({
-        ...updated,
-        profileBasedCalculations: {
-          filingStatus: profile?.filingStatus || filingStatus,
-          standardDeduction,
-          dependentDeduction,
-          childTaxCredit,
-          additionalDeductions: {
-            blind: profile?.isBlind ? 1850 : 0,
-            disabled: profile?.isDisabled ? 1850 : 0,
-            veteran: profile?.isVeteran ? "eligible" : "not_eligible",
-            spouseBlind: profile?.isSpouseBlind ? 1850 : 0,
-            spouseDisabled: profile?.isSpouseDisabled ? 1850 : 0,
-            spouseVeteran: profile?.isSpouseVeteran ? "eligible" : "not_eligible",
-          },
-          dependents: {
-            total: Array.isArray(profile?.dependents) ? profile.dependents.length : 0,
-            qualifyingChildren: Array.isArray(profile?.dependents) ? profile.dependents.filter((dep: any) => dep.isQualifyingChild).length : 0,
-            qualifyingRelatives: Array.isArray(profile?.dependents) ? profile.dependents.filter((dep: any) => dep.isQualifyingRelative).length : 0,
-          }
-        }
-      });
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const { foreignSourceIncome } = insertForm1116Schema
+        .pick({ foreignSourceIncome: true })
+        .parse(req.body);
+
+      const existing = await storage.getForm1116ByTaxReturnId(taxReturns[0].id);
+      const form1116 = existing
+        ? await storage.updateForm1116(existing.id, { foreignSourceIncome: foreignSourceIncome || null })
+        : await storage.createForm1116({ foreignSourceIncome: foreignSourceIncome || null, taxReturnId: taxReturns[0].id });
+      res.json(form1116);
     } catch (error: any) {
-      res.status(500).json({ message: error.message || "Calculation failed" });
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Qualified Dividends and Capital Gain Tax Worksheet route
+  app.get("/api/qualified-dividends-worksheet", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const worksheet = await storage.getQualifiedDividendsWorksheetByTaxReturnId(taxReturns[0].id);
+      res.json(worksheet || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
     }
   });
 
@@ -926,10 +4062,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
       doc.text(`2b. Taxable interest: $${parseFloat(form1040.interestIncome || "0").toFixed(2)}`);
       doc.text(`3a. Qualified dividends: $${parseFloat(form1040.qualifiedDividends || "0").toFixed(2)}`);
       doc.text(`3b. Ordinary dividends: $${parseFloat(form1040.dividendIncome || "0").toFixed(2)}`);
+      doc.text(`4a. IRA distributions: $${parseFloat(form1040.iraDistributions || "0").toFixed(2)}`);
+      doc.text(`4b. Taxable amount: $${parseFloat(form1040.taxableIraDistributions || "0").toFixed(2)}`);
+      doc.text(`5a. Pensions and annuities: $${parseFloat(form1040.pensionsAnnuities || "0").toFixed(2)}`);
+      doc.text(`5b. Taxable amount: $${parseFloat(form1040.taxablePensionsAnnuities || "0").toFixed(2)}`);
+      doc.text(`6a. Social security benefits: $${parseFloat(form1040.socialSecurityBenefits || "0").toFixed(2)}`);
+      doc.text(`6b. Taxable amount: $${parseFloat(form1040.taxableSocialSecurityBenefits || "0").toFixed(2)}`);
       doc.text(`7. Capital gain or (loss): $${parseFloat(form1040.capitalGains || "0").toFixed(2)}`);
+      doc.text(`8. Additional income from Schedule 1: $${parseFloat(form1040.additionalIncome || "0").toFixed(2)}`);
       doc.text(`9. Total income: $${parseFloat(form1040.totalIncome || "0").toFixed(2)}`);
       doc.moveDown(1.5);
 
+      // W-2 retirement deferrals and pre-tax benefits (boxes 10, 12 and 13)
+      const w2Benefits = form1040.w2Benefits as W2BenefitsSummary | null;
+      if (w2Benefits && w2Benefits.employers.length > 0) {
+        doc.fontSize(14).text("W-2 Retirement Deferrals and Benefits", { underline: true });
+        doc.moveDown(0.5);
+        doc.fontSize(11).text(`Pre-tax elective deferrals (box 12 D, E, F, G, H, S): $${w2Benefits.electiveDeferrals.toFixed(2)}`);
+        doc.text(`Roth deferrals (box 12 AA, BB, EE): $${w2Benefits.rothDeferrals.toFixed(2)}`);
+        doc.text(`Employer HSA contributions (box 12 W): $${w2Benefits.employerHsaContributions.toFixed(2)}`);
+        doc.text(`Dependent care benefits (box 10): $${w2Benefits.dependentCareBenefits.toFixed(2)}`);
+        doc.text(`1e. Taxable dependent care benefits: $${w2Benefits.taxableDependentCareBenefits.toFixed(2)}`);
+        doc.text(`Employer-sponsored health coverage (box 12 DD, not taxable): $${w2Benefits.employerHealthCoverage.toFixed(2)}`);
+        if (w2Benefits.uncollectedSocialSecurityMedicareTax > 0) {
+          doc.text(`Uncollected social security and Medicare tax (Schedule 2 line 13): $${w2Benefits.uncollectedSocialSecurityMedicareTax.toFixed(2)}`);
+        }
+        doc.text(`Covered by a workplace retirement plan (box 13): ${w2Benefits.retirementPlanCovered ? "Yes" : "No"}`);
+        doc.moveDown(1.5);
+      }
+
       // Adjusted Gross Income
       doc.fontSize(14).text("Adjusted Gross Income", { underline: true });
       doc.moveDown(0.5);
@@ -940,16 +4101,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Tax and Credits
       doc.fontSize(14).text("Tax and Credits", { underline: true });
       doc.moveDown(0.5);
-      doc.fontSize(11).text(`12. Standard deduction: $${parseFloat(form1040.standardDeduction || "0").toFixed(2)}`);
+      doc.fontSize(11).text(`12. ${form1040.deductionType === "itemized" ? "Itemized deductions (Schedule A)" : "Standard deduction"}: $${parseFloat(form1040.standardDeduction || "0").toFixed(2)}`);
+      if (parseFloat(form1040.qbiDeduction || "0") > 0) {
+        doc.text(`13. Qualified business income deduction: $${parseFloat(form1040.qbiDeduction || "0").toFixed(2)}`);
+      }
       doc.text(`15. Taxable income: $${parseFloat(form1040.taxableIncome || "0").toFixed(2)}`);
       doc.text(`16. Tax: $${parseFloat(form1040.tax || "0").toFixed(2)}`);
-      doc.text(`19. Total tax: $${parseFloat(form1040.totalTax || "0").toFixed(2)}`);
+      const credits = form1040.creditsBreakdown as CreditsBreakdown | null;
+      doc.text(`17. Alternative minimum tax and excess advance premium tax credit repayment (Schedule 2): $${(parseFloat(form1040.alternativeMinimumTax || "0") + parseFloat(form1040.excessAdvancePremiumTaxCredit || "0")).toFixed(2)}`);
+      doc.text(`19. Child tax credit: $${(credits?.childTaxCredit || 0).toFixed(2)}`);
+      doc.text(`20. Schedule 3 credits (foreign tax, dependent care, education, saver's, energy): $${(credits?.scheduleThreeCredits ?? credits?.educationCredits ?? 0).toFixed(2)}`);
+      doc.text(`21. Total credits: $${(credits?.totalNonrefundableCredits || 0).toFixed(2)}`);
+      doc.text(`23. Other taxes (Schedule 2): $${parseFloat(form1040.otherTaxes || "0").toFixed(2)}`);
+      doc.text(`24. Total tax: $${parseFloat(form1040.totalTax || "0").toFixed(2)}`);
       doc.moveDown(1.5);
 
       // Payments
       doc.fontSize(14).text("Payments", { underline: true });
       doc.moveDown(0.5);
       doc.fontSize(11).text(`25. Federal income tax withheld: $${parseFloat(form1040.federalWithheld || "0").toFixed(2)}`);
+      doc.text(`26. Estimated tax payments and amount applied from prior year: $${parseFloat(form1040.estimatedTaxPayments || "0").toFixed(2)}`);
+      doc.text(`27. Earned income credit (EIC): $${(credits?.earnedIncomeCredit || 0).toFixed(2)}`);
+      doc.text(`28. Additional child tax credit (Schedule 8812): $${(credits?.additionalChildTaxCredit || 0).toFixed(2)}`);
+      doc.text(`29. American opportunity credit (Form 8863): $${(credits?.americanOpportunityCredit || 0).toFixed(2)}`);
+      doc.text(`31. Net premium tax credit (Schedule 3 line 9, Form 8962): $${(credits?.netPremiumTaxCredit || 0).toFixed(2)}`);
+      doc.text(`32. Total other payments and refundable credits: $${(credits?.totalRefundableCredits || 0).toFixed(2)}`);
       doc.moveDown(1.5);
 
       // Refund or Amount Owed
@@ -961,6 +4137,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ? `34. Amount to be refunded: $${refundOrOwed.toFixed(2)}`
           : `37. Amount you owe: $${Math.abs(refundOrOwed).toFixed(2)}`
       );
+      if (parseFloat(form1040.estimatedTaxPenalty || "0") > 0) {
+        doc.text(`38. Estimated tax penalty (Form 2210): $${parseFloat(form1040.estimatedTaxPenalty || "0").toFixed(2)}`);
+      }
       doc.moveDown(2);
 
       // Footer
@@ -1013,6 +4192,315 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Schedule A (itemized deductions) routes
+  app.get("/api/schedule-a", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const scheduleA = await storage.getScheduleAByTaxReturnId(taxReturns[0].id);
+      res.json(scheduleA || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/schedule-a", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const existing = await storage.getScheduleAByTaxReturnId(taxReturns[0].id);
+      if (existing) {
+        return res.status(400).json({ message: "Schedule A already exists for this tax return" });
+      }
+
+      const data = insertScheduleASchema.parse({ ...req.body, taxReturnId: taxReturns[0].id });
+      const scheduleA = await storage.createScheduleA(data);
+      res.json(scheduleA);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/schedule-a/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { taxReturnId, ...updates } = insertScheduleASchema.partial().parse(req.body);
+      const scheduleA = await storage.updateScheduleA(req.params.id, updates);
+      res.json(scheduleA);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/schedule-a/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.deleteScheduleA(req.params.id);
+      res.json({ message: "Schedule A deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Schedule C (profit or loss from business) routes
+  app.get("/api/schedule-c", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) return res.json(null);
+
+      const scheduleC = await storage.getScheduleCByTaxReturnId(taxReturns[0].id);
+      res.json(scheduleC || null);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/schedule-c", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const existing = await storage.getScheduleCByTaxReturnId(taxReturns[0].id);
+      if (existing) {
+        return res.status(400).json({ message: "Schedule C already exists for this tax return" });
+      }
+
+      const data = insertScheduleCSchema.parse({ ...req.body, taxReturnId: taxReturns[0].id });
+      if (data.owner && !isOneOf(TAXPAYER_OWNERS, data.owner)) {
+        return res.status(400).json({ message: "Owner must be taxpayer or spouse" });
+      }
+      const scheduleC = await storage.createScheduleC(data);
+      res.json(scheduleC);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/schedule-c/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { taxReturnId, ...updates } = insertScheduleCSchema.partial().parse(req.body);
+      if (updates.owner && !isOneOf(TAXPAYER_OWNERS, updates.owner)) {
+        return res.status(400).json({ message: "Owner must be taxpayer or spouse" });
+      }
+      const scheduleC = await storage.updateScheduleC(req.params.id, updates);
+      res.json(scheduleC);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/schedule-c/:id", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      await storage.deleteScheduleC(req.params.id);
+      res.json({ message: "Schedule C deleted" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Capital loss carryover routes
+  app.get("/api/capital-loss-carryovers", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const carryovers = await storage.getCapitalLossCarryoversByUserId(req.userId!);
+      res.json(carryovers);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Manually record a carryover for a year that was not prepared here
+  app.put("/api/capital-loss-carryovers/:taxYear", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const taxYear = parseInt(req.params.taxYear);
+      if (isNaN(taxYear)) {
+        return res.status(400).json({ message: "Tax year must be a number" });
+      }
+
+      const shortTermCarryover = Math.abs(parseFloat(req.body.shortTermCarryover || "0"));
+      const longTermCarryover = Math.abs(parseFloat(req.body.longTermCarryover || "0"));
+      if (isNaN(shortTermCarryover) || isNaN(longTermCarryover)) {
+        return res.status(400).json({ message: "Carryover amounts must be numbers" });
+      }
+
+      const carryoverData = {
+        userId: req.userId!,
+        taxYear,
+        shortTermCarryover: shortTermCarryover.toString(),
+        longTermCarryover: longTermCarryover.toString(),
+        isManualEntry: true,
+      };
+
+      const existing = await storage.getCapitalLossCarryover(req.userId!, taxYear);
+      const carryover = existing
+        ? await storage.updateCapitalLossCarryover(existing.id, carryoverData)
+        : await storage.createCapitalLossCarryover(carryoverData);
+
+      await capitalLossService.applyCarryoverToNextYear(req.userId!, taxYear);
+
+      res.json(carryover);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Foreign tax credit carryover routes
+  app.get("/api/foreign-tax-carryovers", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const carryovers = await storage.getForeignTaxCarryoversByUserId(req.userId!);
+      res.json(carryovers);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Manually record the unused foreign tax left after a year that was not prepared here,
+  // broken down by the year each amount arose (Form 1116 Schedule B)
+  app.put("/api/foreign-tax-carryovers/:taxYear", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const taxYear = parseInt(req.params.taxYear);
+      if (isNaN(taxYear)) {
+        return res.status(400).json({ message: "Tax year must be a number" });
+      }
+
+      const entries = Array.isArray(req.body.carryovers) ? req.body.carryovers : [];
+      const carryovers = entries.map((entry: any) => ({
+        taxYear: parseInt(entry?.taxYear),
+        amount: Math.abs(parseFloat(entry?.amount || "0")),
+      }));
+      if (carryovers.some((entry: { taxYear: number; amount: number }) => isNaN(entry.taxYear) || isNaN(entry.amount) || entry.taxYear > taxYear)) {
+        return res.status(400).json({ message: "Each carryover needs a tax year no later than the carryover year and a numeric amount" });
+      }
+
+      const parsed = foreignTaxCreditService.parseCarryovers(carryovers);
+      const carryoverData = {
+        userId: req.userId!,
+        taxYear,
+        carryovers: parsed,
+        totalCarryover: parsed.reduce((sum, entry) => sum + entry.amount, 0).toFixed(2),
+        isManualEntry: true,
+      };
+
+      const existing = await storage.getForeignTaxCarryover(req.userId!, taxYear);
+      const carryover = existing
+        ? await storage.updateForeignTaxCarryover(existing.id, carryoverData)
+        : await storage.createForeignTaxCarryover(carryoverData);
+
+      res.json(carryover);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Residential clean energy credit carryforward routes
+  app.get("/api/energy-credit-carryovers", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const carryovers = await storage.getEnergyCreditCarryoversByUserId(req.userId!);
+      res.json(carryovers);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Manually record the unused residential clean energy credit left after a year that was
+  // not prepared here (that year's Form 5695 line 16)
+  app.put("/api/energy-credit-carryovers/:taxYear", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const taxYear = parseInt(req.params.taxYear);
+      if (isNaN(taxYear)) {
+        return res.status(400).json({ message: "Tax year must be a number" });
+      }
+
+      const carryforward = Math.abs(parseFloat(req.body.carryforward || "0"));
+      if (isNaN(carryforward)) {
+        return res.status(400).json({ message: "Carryforward must be a number" });
+      }
+
+      const carryoverData = {
+        userId: req.userId!,
+        taxYear,
+        carryforward: carryforward.toFixed(2),
+        isManualEntry: true,
+      };
+
+      const existing = await storage.getEnergyCreditCarryover(req.userId!, taxYear);
+      const carryover = existing
+        ? await storage.updateEnergyCreditCarryover(existing.id, carryoverData)
+        : await storage.createEnergyCreditCarryover(carryoverData);
+
+      res.json(carryover);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Qualified business income loss carryforward routes
+  app.get("/api/qbi-loss-carryovers", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const carryovers = await storage.getQbiLossCarryoversByUserId(req.userId!);
+      res.json(carryovers);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Manually record the QBI and REIT/PTP losses left after a year that was not prepared
+  // here (that year's Form 8995 lines 16 and 17)
+  app.put("/api/qbi-loss-carryovers/:taxYear", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const taxYear = parseInt(req.params.taxYear);
+      if (isNaN(taxYear)) {
+        return res.status(400).json({ message: "Tax year must be a number" });
+      }
+
+      const qbiLoss = Math.abs(parseFloat(req.body.qbiLoss || "0"));
+      const reitPtpLoss = Math.abs(parseFloat(req.body.reitPtpLoss || "0"));
+      if (isNaN(qbiLoss) || isNaN(reitPtpLoss)) {
+        return res.status(400).json({ message: "Losses must be numbers" });
+      }
+
+      const carryoverData = {
+        userId: req.userId!,
+        taxYear,
+        qbiLoss: qbiLoss.toFixed(2),
+        reitPtpLoss: reitPtpLoss.toFixed(2),
+        isManualEntry: true,
+      };
+
+      const existing = await storage.getQbiLossCarryover(req.userId!, taxYear);
+      const carryover = existing
+        ? await storage.updateQbiLossCarryover(existing.id, carryoverData)
+        : await storage.createQbiLossCarryover(carryoverData);
+
+      res.json(carryover);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Calculate and generate Schedule D
   app.post("/api/schedule-d/calculate", authenticateToken, async (req: AuthRequest, res) => {
     try {
@@ -1092,7 +4580,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         (sum, t) => sum + parseFloat(t.gainOrLoss || "0"), 0
       );
 
-      const totalCapitalGainLoss = shortTermTotalGainLoss + longTermTotalGainLoss;
+      // Net against any capital loss carried over from the prior year and apply the loss limit
+      const carryover = await capitalLossService.getCarryoverIntoYear(req.userId!, activeYear.year);
+      const totals = capitalLossService.calculateScheduleDTotals(
+        shortTermTotalGainLoss,
+        longTermTotalGainLoss,
+        carryover.shortTerm,
+        carryover.longTerm,
+        taxReturn.filingStatus
+      );
+      const totalCapitalGainLoss = totals.totalCapitalGainLoss;
 
       // Create or update Schedule D
       const existingScheduleD = await storage.getScheduleDByTaxReturnId(taxReturn.id);
@@ -1105,9 +4602,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         longTermTotalProceeds: longTermTotalProceeds.toString(),
         longTermTotalCostBasis: longTermTotalCostBasis.toString(),
         longTermTotalGainLoss: longTermTotalGainLoss.toString(),
-        netShortTermGainLoss: shortTermTotalGainLoss.toString(),
-        netLongTermGainLoss: longTermTotalGainLoss.toString(),
+        netShortTermGainLoss: totals.netShortTermGainLoss.toString(),
+        netLongTermGainLoss: totals.netLongTermGainLoss.toString(),
         totalCapitalGainLoss: totalCapitalGainLoss.toString(),
+        shortTermCarryover: carryover.shortTerm.toString(),
+        longTermCarryover: carryover.longTerm.toString(),
+        allowableCapitalLoss: totals.allowableCapitalLoss.toString(),
       };
 
       if (existingScheduleD) {
@@ -1116,18 +4616,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.createScheduleD(scheduleDData);
       }
 
-      // Update Form 1040 with capital gains
+      // Update Form 1040 with capital gains (net losses limited to $3,000 / $1,500 MFS)
       const form1040 = await storage.getForm1040ByTaxReturnId(taxReturn.id);
       if (form1040) {
         await storage.updateForm1040(form1040.id, {
-          capitalGains: totalCapitalGainLoss.toString(),
+          capitalGains: totals.capitalGainForForm1040.toString(),
         });
       }
 
       res.json({ 
         message: "Schedule D calculated successfully",
         form8949Count: form8949Entries.length,
-        totalCapitalGainLoss 
+        totalCapitalGainLoss,
+        allowableCapitalLoss: totals.allowableCapitalLoss,
+        priorYearCarryover: carryover,
       });
     } catch (error: any) {
       console.error("Schedule D calculation error:", error);
@@ -1180,6 +4682,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const divData = await storage.get1099DivByTaxReturnId(taxReturn.id);
       const intData = await storage.get1099IntByTaxReturnId(taxReturn.id);
       const bData = await storage.get1099BByTaxReturnId(taxReturn.id);
+      const form5695 = await storage.getForm5695ByTaxReturnId(taxReturn.id);
 
       const insights = await aiInsightsService.generateInsights({
         w2Data,
@@ -1187,6 +4690,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         intData,
         bData,
         taxReturn,
+        form5695: form5695 || null,
       }, req.userId!);
 
       res.json({ insights });
@@ -1289,6 +4793,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const form1040 = await storage.getForm1040ByTaxReturnId(taxReturn.id);
       const form8949Data = await storage.get8949ByTaxReturnId(taxReturn.id);
       const scheduleD = await storage.getScheduleDByTaxReturnId(taxReturn.id);
+      const form8959 = await storage.getForm8959ByTaxReturnId(taxReturn.id);
+      const form8960 = await storage.getForm8960ByTaxReturnId(taxReturn.id);
+      const form5329 = await storage.getForm5329ByTaxReturnId(taxReturn.id);
+      const schedule1 = await storage.getSchedule1ByTaxReturnId(taxReturn.id);
+      const scheduleC = await storage.getScheduleCByTaxReturnId(taxReturn.id);
+      const scheduleSE = await storage.getScheduleSEByTaxReturnId(taxReturn.id);
+      const schedule8812 = await storage.getSchedule8812ByTaxReturnId(taxReturn.id);
+      const form6251 = await storage.getForm6251ByTaxReturnId(taxReturn.id);
+      const form8863 = await storage.getForm8863ByTaxReturnId(taxReturn.id);
+      const form8889 = await storage.getForm8889ByTaxReturnId(taxReturn.id);
+      const form1116 = await storage.getForm1116ByTaxReturnId(taxReturn.id);
+      const form2210 = await storage.getForm2210ByTaxReturnId(taxReturn.id);
+      const form2441 = await storage.getForm2441ByTaxReturnId(taxReturn.id);
+      const careProviders = await storage.getCareProvidersByTaxReturnId(taxReturn.id);
+      const form8962 = await storage.getForm8962ByTaxReturnId(taxReturn.id);
+      const form8606 = await storage.getForm8606ByTaxReturnId(taxReturn.id);
+      const form8880 = await storage.getForm8880ByTaxReturnId(taxReturn.id);
+      const form5695 = await storage.getForm5695ByTaxReturnId(taxReturn.id);
+      const form8615 = await storage.getForm8615ByTaxReturnId(taxReturn.id);
+      const form8995 = await storage.getForm8995ByTaxReturnId(taxReturn.id);
       const user = await storage.getUser(req.userId!);
 
       if (!form1040) {
@@ -1305,6 +4829,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
           includeInstructions,
           includeCoverLetter,
           signatureRequired: true,
+        },
+        {
+          form8959: form8959 || null,
+          form8960: form8960 || null,
+          form5329: form5329 || null,
+          schedule1: schedule1 || null,
+          scheduleC: scheduleC || null,
+          scheduleSE: scheduleSE || null,
+          schedule8812: schedule8812 || null,
+          form6251: form6251 || null,
+          form8863: form8863 || null,
+          form8889,
+          form1116: form1116 || null,
+          form2210: form2210 || null,
+          form2441: form2441 || null,
+          careProviders,
+          form8962: form8962 || null,
+          form8606,
+          form8880: form8880 || null,
+          form5695: form5695 || null,
+          form8615: form8615 || null,
+          form8995: form8995 || null,
         }
       );
 
@@ -1319,6 +4865,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Individual form PDF route
+  app.get("/api/forms/:formType/pdf", authenticateToken, async (req: AuthRequest, res) => {
+    try {
+      const { formType } = req.params;
+
+      const activeYear = await taxConfigService.getActiveTaxYear();
+      if (!activeYear) {
+        return res.status(404).json({ message: "No active tax year found" });
+      }
+
+      const taxReturns = await storage.getTaxReturnsByUserIdAndYear(req.userId!, activeYear.year);
+      if (taxReturns.length === 0) {
+        return res.status(404).json({ message: "No tax return found" });
+      }
+
+      const taxReturn = taxReturns[0];
+      const user = await storage.getUser(req.userId!);
+
+      let data: any;
+      switch (formType) {
+        case "1040":
+          data = await storage.getForm1040ByTaxReturnId(taxReturn.id);
+          break;
+        case "8949": {
+          const entries = await storage.get8949ByTaxReturnId(taxReturn.id);
+          data = entries.length > 0 ? entries : null;
+          break;
+        }
+        case "schedule-d":
+          data = await storage.getScheduleDByTaxReturnId(taxReturn.id);
+          break;
+        case "8959":
+          data = await storage.getForm8959ByTaxReturnId(taxReturn.id);
+          break;
+        case "8960":
+          data = await storage.getForm8960ByTaxReturnId(taxReturn.id);
+          break;
+        case "5329":
+          data = await storage.getForm5329ByTaxReturnId(taxReturn.id);
+          break;
+        case "schedule-1":
+          data = await storage.getSchedule1ByTaxReturnId(taxReturn.id);
+          break;
+        case "schedule-c":
+          data = await storage.getScheduleCByTaxReturnId(taxReturn.id);
+          break;
+        case "schedule-se":
+          data = await storage.getScheduleSEByTaxReturnId(taxReturn.id);
+          break;
+        case "schedule-8812":
+          data = await storage.getSchedule8812ByTaxReturnId(taxReturn.id);
+          break;
+        case "6251":
+          data = await storage.getForm6251ByTaxReturnId(taxReturn.id);
+          break;
+        case "8863":
+          data = await storage.getForm8863ByTaxReturnId(taxReturn.id);
+          break;
+        case "1116":
+          data = await storage.getForm1116ByTaxReturnId(taxReturn.id);
+          break;
+        case "2210":
+          data = await storage.getForm2210ByTaxReturnId(taxReturn.id);
+          break;
+        case "2441": {
+          const form2441 = await storage.getForm2441ByTaxReturnId(taxReturn.id);
+          data = form2441 ? { form2441, careProviders: await storage.getCareProvidersByTaxReturnId(taxReturn.id) } : null;
+          break;
+        }
+        case "8962":
+          data = await storage.getForm8962ByTaxReturnId(taxReturn.id);
+          break;
+        case "1040-es":
+          data = await storage.getForm1040EsByTaxReturnId(taxReturn.id);
+          break;
+        case "8889": {
+          const forms = await storage.getForm8889ByTaxReturnId(taxReturn.id);
+          data = forms.length > 0 ? forms : null;
+          break;
+        }
+        case "8606": {
+          const forms = await storage.getForm8606ByTaxReturnId(taxReturn.id);
+          data = forms.length > 0 ? forms : null;
+          break;
+        }
+        case "8880":
+          data = await storage.getForm8880ByTaxReturnId(taxReturn.id);
+          break;
+        case "5695":
+          data = await storage.getForm5695ByTaxReturnId(taxReturn.id);
+          break;
+        case "8615":
+          data = await storage.getForm8615ByTaxReturnId(taxReturn.id);
+          break;
+        case "8995":
+          data = await storage.getForm8995ByTaxReturnId(taxReturn.id);
+          break;
+        default:
+          return res.status(400).json({ message: `Unsupported form type: ${formType}` });
+      }
+
+      if (!data) {
+        return res.status(404).json({ message: `Form ${formType} not found. Please calculate your taxes first.` });
+      }
+
+      const pdfBuffer = await pdfService.generateFormPDF(formType, data, user!, taxReturn);
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="Form_${formType}_${taxReturn.taxYear}.pdf"`
+      );
+      res.send(pdfBuffer);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // State tax calculation routes
   app.get("/api/state-tax/calculate/:state", authenticateToken, async (req: AuthRequest, res) => {
     try {
@@ -1477,17 +5141,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 taxReturnId: taxReturn.id,
                 ...parsingResult.data as any,
               });
+            } else if (docType === "1099-R") {
+              await storage.create1099R({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...parsingResult.data as any,
+              });
+            } else if (docType === "1098") {
+              await storage.create1098({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...parsingResult.data as any,
+              });
+            } else if (docType === "1098-T") {
+              await storage.create1098T({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...parsingResult.data as any,
+              });
+            } else if (docType === "1098-E") {
+              await storage.create1098E({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...parsingResult.data as any,
+              });
+            } else if (docType === "1099-SA") {
+              await storage.create1099Sa({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...parsingResult.data as any,
+              });
+            } else if (docType === "5498-SA") {
+              await storage.create5498Sa({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...parsingResult.data as any,
+              });
+            } else if (docType === "SSA-1099") {
+              await storage.createSsa1099({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...parsingResult.data as any,
+              });
+            } else if (docType === "1099-G") {
+              const { refundTaxYear, ...governmentPaymentData } = parsingResult.data as any;
+              await storage.create1099G({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...governmentPaymentData,
+                refundTaxYear: refundTaxYear ? parseInt(refundTaxYear) : null,
+              });
+            } else if (docType === "1095-A") {
+              await storage.create1095A({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...parsingResult.data as any,
+              });
             } else if (docType === "1099-MISC") {
-              // For now, store MISC data in a generic way or create a specific table
-              await storage.createDocument({
+              await storage.create1099Misc({
+                documentId: document.id,
+                taxReturnId: taxReturn.id,
+                ...parsingResult.data as any,
+              });
+            } else if (docType === "1099-NEC") {
+              await storage.create1099Nec({
+                documentId: document.id,
                 taxReturnId: taxReturn.id,
-                fileName: `${document.fileName}_MISC`,
-                fileType: document.fileType,
-                documentType: "1099-MISC",
-                fileSize: document.fileSize,
-                filePath: document.filePath,
-                parsedData: JSON.stringify(parsingResult.data),
-                status: "parsed",
+                ...parsingResult.data as any,
               });
             } else if (docType === "CONSOLIDATED-BROKERAGE") {
               // Handle consolidated brokerage statement
@@ -1511,15 +5231,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
               }
               
               if (consolidatedData.hasMiscSection && consolidatedData.miscData) {
-                await storage.createDocument({
+                await storage.create1099Misc({
+                  documentId: document.id,
                   taxReturnId: taxReturn.id,
-                  fileName: `${document.fileName}_MISC`,
-                  fileType: document.fileType,
-                  documentType: "1099-MISC",
-                  fileSize: document.fileSize,
-                  filePath: document.filePath,
-                  parsedData: JSON.stringify(consolidatedData.miscData),
-                  status: "parsed",
+                  ...consolidatedData.miscData,
                 });
               }
               
@@ -1,6 +1,6 @@
 import { llmService } from "./llmService";
 import { INSIGHT_TYPE, INSIGHT_CATEGORY, INSIGHT_PRIORITY } from "@shared/schema";
-import type { W2Data, Form1099Div, Form1099Int, Form1099B, TaxReturn } from "@shared/schema";
+import type { W2Data, Form1099Div, Form1099Int, Form1099B, Form5695, TaxReturn } from "@shared/schema";
 
 export interface TaxInsight {
   id?: string;
@@ -22,9 +22,14 @@ export interface ConsolidatedTaxData {
   intData: Form1099Int[];
   bData: Form1099B[];
   taxReturn: TaxReturn;
+  form5695?: Form5695 | null;
 }
 
 export class AIInsightsService {
+  // Form 5695 credits end with property placed in service (home improvements) or
+  // expenditures made (clean energy) after this year
+  private readonly ENERGY_CREDIT_FINAL_YEAR = 2025;
+
   /**
    * Generate comprehensive AI insights for a tax return
    */
@@ -150,6 +155,11 @@ export class AIInsightsService {
         }, 0),
         filingStatus: taxData.taxReturn.filingStatus,
         taxYear: taxData.taxReturn.taxYear,
+        residentialEnergyCredits: taxData.form5695 ? {
+          residentialCleanEnergyCredit: parseFloat(taxData.form5695.residentialCleanEnergyCredit || "0"),
+          homeImprovementCredit: parseFloat(taxData.form5695.homeImprovementCredit || "0"),
+          cleanEnergyCarryforward: parseFloat(taxData.form5695.carryforwardToNextYear || "0"),
+        } : null,
       };
 
       const llmResponse = await llmService.generateTaxInsights(consolidatedData, userId);
@@ -215,6 +225,20 @@ export class AIInsightsService {
       });
     }
 
+    // Residential clean energy credit the tax couldn't absorb
+    const energyCarryforward = parseFloat(taxData.form5695?.carryforwardToNextYear || "0");
+    if (energyCarryforward > 0) {
+      insights.push({
+        insightType: INSIGHT_TYPE.CONSOLIDATED,
+        category: INSIGHT_CATEGORY.OPTIMIZATION,
+        title: "Residential Clean Energy Credit Carryforward",
+        description: `$${energyCarryforward.toLocaleString()} of your residential clean energy credit was more than your tax and carries forward to ${taxData.taxReturn.taxYear + 1}. It is applied automatically when next year's return is prepared here.`,
+        potentialSavings: energyCarryforward,
+        priority: INSIGHT_PRIORITY.MEDIUM,
+        status: "pending",
+      });
+    }
+
     return insights;
   }
 
@@ -252,6 +276,18 @@ export class AIInsightsService {
       status: "pending",
     });
 
+    // Residential energy credits (Form 5695)
+    if (nextYear <= this.ENERGY_CREDIT_FINAL_YEAR) {
+      insights.push({
+        insightType: INSIGHT_TYPE.YEAR_AHEAD,
+        category: INSIGHT_CATEGORY.PLANNING,
+        title: "Home Energy Credits",
+        description: `Solar panels, battery storage and geothermal heat pumps earn a 30% residential clean energy credit, and heat pumps, insulation, windows, doors and efficient furnaces earn a home improvement credit of up to $3,200 a year. Both credits end after ${this.ENERGY_CREDIT_FINAL_YEAR}, so projects planned for ${nextYear} need to be finished by December 31, ${this.ENERGY_CREDIT_FINAL_YEAR}.`,
+        priority: INSIGHT_PRIORITY.MEDIUM,
+        status: "pending",
+      });
+    }
+
     // Estimated tax payments
     const estimatedTax = parseFloat(taxData.taxReturn.totalTax || "0");
     if (estimatedTax > 1000) {
@@ -259,7 +295,7 @@ export class AIInsightsService {
         insightType: INSIGHT_TYPE.YEAR_AHEAD,
         category: INSIGHT_CATEGORY.PLANNING,
         title: "Consider Estimated Tax Payments",
-        description: `Based on your ${currentYear} tax liability of $${estimatedTax.toLocaleString()}, consider making quarterly estimated tax payments for ${nextYear} to avoid penalties.`,
+        description: `Based on your ${currentYear} tax liability of $${estimatedTax.toLocaleString()}, consider making quarterly estimated tax payments for ${nextYear} to avoid penalties. The Form 1040-ES planner figures safe-harbor quarterly amounts and prints the payment vouchers.`,
         priority: INSIGHT_PRIORITY.MEDIUM,
         status: "pending",
       });
@@ -0,0 +1,228 @@
+import { taxConfigService } from "./taxConfigService";
+import type { QualifiedDividendsWorksheetResult } from "./capitalGainsTaxService";
+import type { ForeignTaxCreditResult } from "./foreignTaxCreditService";
+import { FOREIGN_TAX_CREDIT_METHODS, type FederalAlternativeMinimumTax } from "@shared/schema";
+
+export interface Form6251Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface AlternativeMinimumTaxInput {
+  filingStatus: string;
+  taxableIncome: number; // Form 1040 line 11 minus line 14, before flooring at zero
+  taxesAddBack: number; // Schedule A line 7 when itemizing, otherwise the standard deduction
+  privateActivityBondInterest: number;
+  isoBargainElement: number;
+  regularTax: number; // Form 1040 line 16
+  excessAdvancePremiumTaxCredit: number; // Schedule 2 line 1z: the Form 8962 line 29 repayment
+  foreignTaxCredit: ForeignTaxCreditResult | null; // Schedule 3 line 1
+  worksheet: QualifiedDividendsWorksheetResult;
+}
+
+export interface AlternativeMinimumTaxResult {
+  taxableIncome: number;
+  taxesAddBack: number;
+  privateActivityBondInterest: number;
+  isoBargainElement: number;
+  alternativeMinimumTaxableIncome: number;
+  exemption: number;
+  amtBase: number;
+  amtForeignTaxCredit: number;
+  tentativeMinimumTax: number;
+  regularTax: number;
+  alternativeMinimumTax: number;
+  lines: Form6251Line[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class AlternativeMinimumTaxService {
+  /**
+   * Load the year's Form 6251 exemption and rate parameters
+   */
+  async getParameters(year: number, filingStatus: string): Promise<FederalAlternativeMinimumTax> {
+    const parameters = await taxConfigService.getAlternativeMinimumTaxParameters(year, filingStatus);
+    if (!parameters) {
+      throw new Error(`Alternative minimum tax parameters not configured for ${year} (${filingStatus})`);
+    }
+    return parameters;
+  }
+
+  /**
+   * 26% up to the breakpoint, 28% above it (Form 6251 line 7 without Part III)
+   */
+  private taxAtAmtRates(amount: number, parameters: FederalAlternativeMinimumTax): number {
+    const breakpoint = Number(parameters.rateBreakpoint);
+    const lowerRate = Number(parameters.lowerRate);
+    const upperRate = Number(parameters.upperRate);
+    if (amount <= 0) return 0;
+    if (amount <= breakpoint) return round(amount * lowerRate);
+    return round(amount * upperRate - breakpoint * (upperRate - lowerRate));
+  }
+
+  /**
+   * Form 6251 Part III: keep qualified dividends and net capital gain at the 0/15/20%
+   * rates inside the AMT base. Unrecaptured section 1250 gain is not tracked, so the
+   * 25% lines are left out.
+   */
+  private async calculatePartIII(
+    amtBase: number,
+    worksheet: QualifiedDividendsWorksheetResult,
+    parameters: FederalAlternativeMinimumTax,
+    filingStatus: string,
+    year: number
+  ): Promise<{ tax: number; lines: Form6251Line[] }> {
+    const { capitalGainBrackets } = await taxConfigService.getTaxCalculationData(year, filingStatus);
+    const zeroRateBracket = capitalGainBrackets.find((b) => Number(b.taxRate) === 0);
+    const fifteenRateBracket = capitalGainBrackets.find((b) => Number(b.taxRate) === 0.15);
+    if (!zeroRateBracket?.maxIncome || !fifteenRateBracket?.maxIncome) {
+      throw new Error(`Capital gain rate brackets not configured for ${year} (${filingStatus})`);
+    }
+
+    const line12 = amtBase;
+    const line13 = round(worksheet.qualifiedDividends + worksheet.netCapitalGain); // QDCG worksheet line 4
+    const line16 = Math.min(line12, line13);
+    const line17 = round(line12 - line16);
+    const line18 = this.taxAtAmtRates(line17, parameters);
+    const line19 = Number(zeroRateBracket.maxIncome);
+    const line20 = worksheet.ordinaryIncome; // QDCG worksheet line 5
+    const line21 = round(Math.max(0, line19 - line20));
+    const line22 = Math.min(line12, line13);
+    const line23 = Math.min(line21, line22); // taxed at 0%
+    const line24 = round(line22 - line23);
+    const line25 = Number(fifteenRateBracket.maxIncome);
+    const line26 = line21;
+    const line27 = worksheet.ordinaryIncome;
+    const line28 = round(line26 + line27);
+    const line29 = round(Math.max(0, line25 - line28));
+    const line30 = Math.min(line24, line29); // taxed at 15%
+    const line31 = round(line30 * 0.15);
+    const line32 = round(line23 + line30);
+    const line33 = round(line22 - line32); // taxed at 20%
+    const line34 = round(line33 * 0.20);
+    const line40 = round(line18 + line31 + line34);
+    const line41 = this.taxAtAmtRates(line12, parameters);
+    const line42 = Math.min(line40, line41);
+
+    return {
+      tax: line42,
+      lines: [
+        { line: "12", description: "Amount from line 6", amount: line12 },
+        { line: "13", description: "Qualified dividends and net capital gain (QDCG worksheet line 4)", amount: line13 },
+        { line: "16", description: "Smaller of line 12 or line 13", amount: line16 },
+        { line: "17", description: "Subtract line 16 from line 12", amount: line17 },
+        { line: "18", description: "Tax on line 17 at 26%/28%", amount: line18 },
+        { line: "19", description: "0% rate threshold for filing status", amount: line19 },
+        { line: "20", description: "Ordinary taxable income (QDCG worksheet line 5)", amount: line20 },
+        { line: "21", description: "Subtract line 20 from line 19", amount: line21 },
+        { line: "22", description: "Smaller of line 12 or line 13", amount: line22 },
+        { line: "23", description: "Smaller of line 21 or line 22 (taxed at 0%)", amount: line23 },
+        { line: "24", description: "Subtract line 23 from line 22", amount: line24 },
+        { line: "25", description: "15% rate threshold for filing status", amount: line25 },
+        { line: "26", description: "Amount from line 21", amount: line26 },
+        { line: "27", description: "Ordinary taxable income (QDCG worksheet line 5)", amount: line27 },
+        { line: "28", description: "Add lines 26 and 27", amount: line28 },
+        { line: "29", description: "Subtract line 28 from line 25", amount: line29 },
+        { line: "30", description: "Smaller of line 24 or line 29 (taxed at 15%)", amount: line30 },
+        { line: "31", description: "Multiply line 30 by 15%", amount: line31 },
+        { line: "32", description: "Add lines 23 and 30", amount: line32 },
+        { line: "33", description: "Subtract line 32 from line 22 (taxed at 20%)", amount: line33 },
+        { line: "34", description: "Multiply line 33 by 20%", amount: line34 },
+        { line: "40", description: "Add lines 18, 31, and 34", amount: line40 },
+        { line: "41", description: "Tax on line 12 at 26%/28%", amount: line41 },
+        { line: "42", description: "Smaller of line 40 or line 41", amount: line42 },
+      ],
+    };
+  }
+
+  /**
+   * Line 8 AMT foreign tax credit. Under the simplified election it equals the regular
+   * credit. Otherwise Form 1116 is refigured with AMTI (line 4) and the tax on line 7;
+   * foreign-source income keeps the regular deduction apportionment.
+   */
+  private calculateAmtForeignTaxCredit(
+    foreignTaxCredit: ForeignTaxCreditResult | null,
+    alternativeMinimumTaxableIncome: number,
+    tax: number
+  ): number {
+    if (!foreignTaxCredit || tax <= 0) return 0;
+    if (foreignTaxCredit.method === FOREIGN_TAX_CREDIT_METHODS.SIMPLIFIED) {
+      return round(Math.min(foreignTaxCredit.foreignTaxCredit, tax));
+    }
+    if (foreignTaxCredit.method !== FOREIGN_TAX_CREDIT_METHODS.FORM_1116 || alternativeMinimumTaxableIncome <= 0) {
+      return 0;
+    }
+    const foreignTaxAvailable = round(foreignTaxCredit.foreignTaxPaid + foreignTaxCredit.carryoverFromPriorYears);
+    const foreignSourceIncome = Math.max(0, foreignTaxCredit.netForeignIncome);
+    const ratio = Math.min(1, Math.round((foreignSourceIncome / alternativeMinimumTaxableIncome) * 10000) / 10000);
+    return round(Math.min(foreignTaxAvailable, tax * ratio));
+  }
+
+  /**
+   * Form 6251 Parts I and II. The alternative minimum tax (line 11) is the excess of
+   * the tentative minimum tax over the regular tax and goes to Schedule 2 line 2.
+   */
+  async calculateForm6251(input: AlternativeMinimumTaxInput, year: number): Promise<AlternativeMinimumTaxResult> {
+    const parameters = await this.getParameters(year, input.filingStatus);
+
+    // Part I - Alternative Minimum Taxable Income
+    const line1 = round(input.taxableIncome);
+    const line2a = round(Math.max(0, input.taxesAddBack));
+    const line2g = round(Math.max(0, input.privateActivityBondInterest));
+    const line2i = round(Math.max(0, input.isoBargainElement));
+    const line4 = round(line1 + line2a + line2g + line2i);
+
+    // Part II - exemption reduced by 25% of AMTI over the phase-out threshold
+    const excess = Math.max(0, line4 - Number(parameters.phaseoutThreshold));
+    const line5 = round(Math.max(0, Number(parameters.exemptionAmount) - excess * Number(parameters.phaseoutRate)));
+    const line6 = round(Math.max(0, line4 - line5));
+
+    const hasPreferentialIncome = input.worksheet.qualifiedDividends + input.worksheet.netCapitalGain > 0;
+    const partIII = hasPreferentialIncome && line6 > 0
+      ? await this.calculatePartIII(line6, input.worksheet, parameters, input.filingStatus, year)
+      : null;
+    const line7 = partIII ? partIII.tax : this.taxAtAmtRates(line6, parameters);
+    const line8 = this.calculateAmtForeignTaxCredit(input.foreignTaxCredit, line4, line7);
+    const line9 = round(line7 - line8);
+    // Regular tax plus Schedule 2 line 1z, less the Schedule 3 line 1 foreign tax credit
+    const line10 = round(Math.max(0,
+      input.regularTax + input.excessAdvancePremiumTaxCredit - (input.foreignTaxCredit?.foreignTaxCredit ?? 0)));
+    const line11 = round(Math.max(0, line9 - line10));
+
+    const lines: Form6251Line[] = [
+      { line: "1", description: "Taxable income before the standard or itemized deduction floor", amount: line1 },
+      { line: "2a", description: "Taxes from Schedule A line 7, or the standard deduction", amount: line2a },
+      { line: "2g", description: "Interest from specified private activity bonds", amount: line2g },
+      { line: "2i", description: "Incentive stock options bargain element", amount: line2i },
+      { line: "4", description: "Alternative minimum taxable income", amount: line4 },
+      { line: "5", description: "Exemption after the phase-out", amount: line5 },
+      { line: "6", description: "Subtract line 5 from line 4", amount: line6 },
+      ...(partIII ? partIII.lines : []),
+      { line: "7", description: partIII ? "Tax from Part III, line 42" : "Tax on line 6 at 26%/28%", amount: line7 },
+      ...(line8 > 0 ? [{ line: "8", description: "Alternative minimum tax foreign tax credit", amount: line8 }] : []),
+      { line: "9", description: "Tentative minimum tax (subtract line 8 from line 7)", amount: line9 },
+      { line: "10", description: "Regular tax (Form 1040 line 16) plus Schedule 2 line 1z, minus the foreign tax credit (Schedule 3 line 1)", amount: line10 },
+      { line: "11", description: "Alternative minimum tax (subtract line 10 from line 9)", amount: line11 },
+    ];
+
+    return {
+      taxableIncome: line1,
+      taxesAddBack: line2a,
+      privateActivityBondInterest: line2g,
+      isoBargainElement: line2i,
+      alternativeMinimumTaxableIncome: line4,
+      exemption: line5,
+      amtBase: line6,
+      amtForeignTaxCredit: line8,
+      tentativeMinimumTax: line9,
+      regularTax: line10,
+      alternativeMinimumTax: line11,
+      lines,
+    };
+  }
+}
+
+// Export singleton instance
+export const alternativeMinimumTaxService = new AlternativeMinimumTaxService();
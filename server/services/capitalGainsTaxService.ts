@@ -0,0 +1,121 @@
+import { taxConfigService, type TaxCalculationData } from "./taxConfigService";
+
+export interface WorksheetLine {
+  line: number;
+  description: string;
+  amount: number;
+}
+
+export interface QualifiedDividendsWorksheetResult {
+  taxableIncome: number;
+  qualifiedDividends: number;
+  netCapitalGain: number;
+  ordinaryIncome: number;
+  zeroRateAmount: number;
+  fifteenRateAmount: number;
+  twentyRateAmount: number;
+  ordinaryTax: number;
+  regularTax: number;
+  tax: number;
+  lines: WorksheetLine[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class CapitalGainsTaxService {
+  /**
+   * Compute the Qualified Dividends and Capital Gain Tax Worksheet (Form 1040 line 16).
+   * netCapitalGain is the smaller of Schedule D line 15 or 16 plus capital gain
+   * distributions, already floored at zero. taxData replaces the year's configured
+   * brackets, e.g. with projected ones for a year not configured yet.
+   */
+  async calculateWorksheet(
+    taxableIncome: number,
+    qualifiedDividends: number,
+    netCapitalGain: number,
+    filingStatus: string,
+    year: number,
+    taxData?: TaxCalculationData
+  ): Promise<QualifiedDividendsWorksheetResult> {
+    const { federalBrackets, capitalGainBrackets } = taxData ?? await taxConfigService.getTaxCalculationData(year, filingStatus);
+
+    const zeroRateBracket = capitalGainBrackets.find((b) => Number(b.taxRate) === 0);
+    const fifteenRateBracket = capitalGainBrackets.find((b) => Number(b.taxRate) === 0.15);
+    if (!zeroRateBracket?.maxIncome || !fifteenRateBracket?.maxIncome) {
+      throw new Error(`Capital gain rate brackets not configured for ${year} (${filingStatus})`);
+    }
+    const zeroRateMax = Number(zeroRateBracket.maxIncome);
+    const fifteenRateMax = Number(fifteenRateBracket.maxIncome);
+
+    const line1 = Math.max(0, taxableIncome);
+    const line2 = Math.max(0, qualifiedDividends);
+    const line3 = Math.max(0, netCapitalGain);
+    const line4 = line2 + line3;
+    const line5 = Math.max(0, line1 - line4);
+    const line6 = zeroRateMax;
+    const line7 = Math.min(line1, line6);
+    const line8 = Math.min(line5, line7);
+    const line9 = line7 - line8; // taxed at 0%
+    const line10 = Math.min(line1, line4);
+    const line11 = line9;
+    const line12 = line10 - line11;
+    const line13 = fifteenRateMax;
+    const line14 = Math.min(line1, line13);
+    const line15 = line5 + line9;
+    const line16 = Math.max(0, line14 - line15);
+    const line17 = Math.min(line12, line16); // taxed at 15%
+    const line18 = round(line17 * 0.15);
+    const line19 = line9 + line17;
+    const line20 = line10 - line19; // taxed at 20%
+    const line21 = round(line20 * 0.20);
+    const line22 = taxConfigService.calculateTaxFromBrackets(line5, federalBrackets);
+    const line23 = round(line18 + line21 + line22);
+    const line24 = taxConfigService.calculateTaxFromBrackets(line1, federalBrackets);
+    const line25 = Math.min(line23, line24);
+
+    const lines: WorksheetLine[] = [
+      { line: 1, description: "Taxable income (Form 1040, line 15)", amount: line1 },
+      { line: 2, description: "Qualified dividends (Form 1040, line 3a)", amount: line2 },
+      { line: 3, description: "Net capital gain (Schedule D line 15/16 or Form 1040 line 7)", amount: line3 },
+      { line: 4, description: "Add lines 2 and 3", amount: line4 },
+      { line: 5, description: "Subtract line 4 from line 1", amount: line5 },
+      { line: 6, description: "0% rate threshold for filing status", amount: line6 },
+      { line: 7, description: "Smaller of line 1 or line 6", amount: line7 },
+      { line: 8, description: "Smaller of line 5 or line 7", amount: line8 },
+      { line: 9, description: "Subtract line 8 from line 7 (taxed at 0%)", amount: line9 },
+      { line: 10, description: "Smaller of line 1 or line 4", amount: line10 },
+      { line: 11, description: "Amount from line 9", amount: line11 },
+      { line: 12, description: "Subtract line 11 from line 10", amount: line12 },
+      { line: 13, description: "15% rate threshold for filing status", amount: line13 },
+      { line: 14, description: "Smaller of line 1 or line 13", amount: line14 },
+      { line: 15, description: "Add lines 5 and 9", amount: line15 },
+      { line: 16, description: "Subtract line 15 from line 14", amount: line16 },
+      { line: 17, description: "Smaller of line 12 or line 16", amount: line17 },
+      { line: 18, description: "Multiply line 17 by 15%", amount: line18 },
+      { line: 19, description: "Add lines 9 and 17", amount: line19 },
+      { line: 20, description: "Subtract line 19 from line 10", amount: line20 },
+      { line: 21, description: "Multiply line 20 by 20%", amount: line21 },
+      { line: 22, description: "Tax on line 5 at ordinary rates", amount: line22 },
+      { line: 23, description: "Add lines 18, 21, and 22", amount: line23 },
+      { line: 24, description: "Tax on line 1 at ordinary rates", amount: line24 },
+      { line: 25, description: "Tax on all taxable income (smaller of line 23 or 24)", amount: line25 },
+    ];
+
+    return {
+      taxableIncome: line1,
+      qualifiedDividends: line2,
+      netCapitalGain: line3,
+      ordinaryIncome: line5,
+      zeroRateAmount: line9,
+      fifteenRateAmount: line17,
+      twentyRateAmount: line20,
+      ordinaryTax: line22,
+      regularTax: line24,
+      tax: line25,
+      lines,
+    };
+  }
+}
+
+// Export singleton instance
+export const capitalGainsTaxService = new CapitalGainsTaxService();
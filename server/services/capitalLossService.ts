@@ -0,0 +1,179 @@
+import { storage } from "../storage";
+import type { CapitalLossCarryover } from "@shared/schema";
+import type { WorksheetLine } from "./capitalGainsTaxService";
+
+export interface ScheduleDTotals {
+  netShortTermGainLoss: number; // Line 7
+  netLongTermGainLoss: number; // Line 15
+  totalCapitalGainLoss: number; // Line 16
+  allowableCapitalLoss: number; // Line 21 (zero or negative)
+  capitalGainForForm1040: number; // Form 1040 line 7
+}
+
+export interface CarryoverWorksheetResult {
+  shortTermCarryover: number;
+  longTermCarryover: number;
+  lines: WorksheetLine[];
+}
+
+export class CapitalLossService {
+  /**
+   * Maximum net capital loss deductible against other income (IRC 1211(b))
+   */
+  getLossLimit(filingStatus: string): number {
+    return filingStatus === "married_separate" ? 1500 : 3000;
+  }
+
+  /**
+   * Limit a net capital loss to the deductible amount; gains pass through unchanged
+   */
+  applyLossLimit(totalCapitalGainLoss: number, filingStatus: string): number {
+    if (totalCapitalGainLoss >= 0) return totalCapitalGainLoss;
+    return Math.max(totalCapitalGainLoss, -this.getLossLimit(filingStatus));
+  }
+
+  /**
+   * Net current-year gains against prior-year carryovers the way Schedule D does
+   */
+  calculateScheduleDTotals(
+    shortTermGainLoss: number,
+    longTermGainLoss: number,
+    shortTermCarryover: number,
+    longTermCarryover: number,
+    filingStatus: string
+  ): ScheduleDTotals {
+    const netShortTermGainLoss = shortTermGainLoss - shortTermCarryover;
+    const netLongTermGainLoss = longTermGainLoss - longTermCarryover;
+    const totalCapitalGainLoss = netShortTermGainLoss + netLongTermGainLoss;
+    const capitalGainForForm1040 = this.applyLossLimit(totalCapitalGainLoss, filingStatus);
+
+    return {
+      netShortTermGainLoss,
+      netLongTermGainLoss,
+      totalCapitalGainLoss,
+      allowableCapitalLoss: Math.min(0, capitalGainForForm1040),
+      capitalGainForForm1040,
+    };
+  }
+
+  /**
+   * Get the carryover coming into a tax year (i.e. the one computed for year - 1)
+   */
+  async getCarryoverIntoYear(userId: string, year: number): Promise<{ shortTerm: number; longTerm: number }> {
+    const prior = await storage.getCapitalLossCarryover(userId, year - 1);
+    return {
+      shortTerm: parseFloat(prior?.shortTermCarryover || "0"),
+      longTerm: parseFloat(prior?.longTermCarryover || "0"),
+    };
+  }
+
+  /**
+   * Capital Loss Carryover Worksheet (Schedule D instructions, lines 1-13).
+   * taxableIncome is Form 1040 line 15 before it is floored at zero.
+   */
+  calculateCarryoverWorksheet(
+    taxableIncome: number,
+    netShortTermGainLoss: number,
+    netLongTermGainLoss: number,
+    allowableCapitalLoss: number
+  ): CarryoverWorksheetResult {
+    const line1 = taxableIncome;
+    const line2 = Math.abs(allowableCapitalLoss);
+    const line3 = Math.max(0, line1 + line2);
+    const line4 = Math.min(line2, line3);
+    const line5 = netShortTermGainLoss < 0 ? -netShortTermGainLoss : 0;
+    const line6 = netLongTermGainLoss > 0 ? netLongTermGainLoss : 0;
+    const line7 = line4 + line6;
+    const line8 = Math.max(0, line5 - line7); // Short-term carryover
+    const line9 = netLongTermGainLoss < 0 ? -netLongTermGainLoss : 0;
+    const line10 = netShortTermGainLoss > 0 ? netShortTermGainLoss : 0;
+    const line11 = Math.max(0, line4 - line5);
+    const line12 = line10 + line11;
+    const line13 = Math.max(0, line9 - line12); // Long-term carryover
+
+    return {
+      shortTermCarryover: line8,
+      longTermCarryover: line13,
+      lines: [
+        { line: 1, description: "Taxable income (Form 1040, line 15)", amount: line1 },
+        { line: 2, description: "Loss from Schedule D, line 21, as a positive amount", amount: line2 },
+        { line: 3, description: "Combine lines 1 and 2 (if less than zero, enter 0)", amount: line3 },
+        { line: 4, description: "Smaller of line 2 or line 3", amount: line4 },
+        { line: 5, description: "Loss from Schedule D, line 7, as a positive amount", amount: line5 },
+        { line: 6, description: "Gain from Schedule D, line 15", amount: line6 },
+        { line: 7, description: "Add lines 4 and 6", amount: line7 },
+        { line: 8, description: "Short-term capital loss carryover (line 5 minus line 7)", amount: line8 },
+        { line: 9, description: "Loss from Schedule D, line 15, as a positive amount", amount: line9 },
+        { line: 10, description: "Gain from Schedule D, line 7", amount: line10 },
+        { line: 11, description: "Subtract line 5 from line 4", amount: line11 },
+        { line: 12, description: "Add lines 10 and 11", amount: line12 },
+        { line: 13, description: "Long-term capital loss carryover (line 9 minus line 12)", amount: line13 },
+      ],
+    };
+  }
+
+  /**
+   * Persist the carryover computed for a tax year, replacing any earlier value
+   */
+  async saveCarryover(
+    userId: string,
+    taxYear: number,
+    data: {
+      taxableIncome: number;
+      totals: ScheduleDTotals;
+      worksheet: CarryoverWorksheetResult;
+    }
+  ): Promise<CapitalLossCarryover> {
+    const carryoverData = {
+      userId,
+      taxYear,
+      taxableIncome: data.taxableIncome.toString(),
+      netShortTermGainLoss: data.totals.netShortTermGainLoss.toString(),
+      netLongTermGainLoss: data.totals.netLongTermGainLoss.toString(),
+      allowableCapitalLoss: data.totals.allowableCapitalLoss.toString(),
+      shortTermCarryover: data.worksheet.shortTermCarryover.toString(),
+      longTermCarryover: data.worksheet.longTermCarryover.toString(),
+      isManualEntry: false,
+      worksheetLines: data.worksheet.lines,
+    };
+
+    const existing = await storage.getCapitalLossCarryover(userId, taxYear);
+    if (existing) {
+      return await storage.updateCapitalLossCarryover(existing.id, carryoverData);
+    }
+    return await storage.createCapitalLossCarryover(carryoverData);
+  }
+
+  /**
+   * Push a year's carryover into the following year's Schedule D, if that return exists
+   */
+  async applyCarryoverToNextYear(userId: string, taxYear: number): Promise<void> {
+    const nextYearReturns = await storage.getTaxReturnsByUserIdAndYear(userId, taxYear + 1);
+    if (nextYearReturns.length === 0) return;
+
+    const nextYearReturn = nextYearReturns[0];
+    const nextScheduleD = await storage.getScheduleDByTaxReturnId(nextYearReturn.id);
+    if (!nextScheduleD) return;
+
+    const carryover = await this.getCarryoverIntoYear(userId, taxYear + 1);
+    const totals = this.calculateScheduleDTotals(
+      parseFloat(nextScheduleD.shortTermTotalGainLoss || "0"),
+      parseFloat(nextScheduleD.longTermTotalGainLoss || "0"),
+      carryover.shortTerm,
+      carryover.longTerm,
+      nextYearReturn.filingStatus
+    );
+
+    await storage.updateScheduleD(nextScheduleD.id, {
+      shortTermCarryover: carryover.shortTerm.toString(),
+      longTermCarryover: carryover.longTerm.toString(),
+      netShortTermGainLoss: totals.netShortTermGainLoss.toString(),
+      netLongTermGainLoss: totals.netLongTermGainLoss.toString(),
+      totalCapitalGainLoss: totals.totalCapitalGainLoss.toString(),
+      allowableCapitalLoss: totals.allowableCapitalLoss.toString(),
+    });
+  }
+}
+
+// Export singleton instance
+export const capitalLossService = new CapitalLossService();
@@ -0,0 +1,152 @@
+import { taxConfigService } from "./taxConfigService";
+import { earnedIncomeCreditService } from "./earnedIncomeCreditService";
+
+export interface Schedule8812Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface ChildTaxCreditInput {
+  dependents: unknown;
+  filingStatus: string;
+  modifiedAgi: number;
+  creditLimit: number; // Credit Limit Worksheet A: tax less credits claimed before this one
+  earnedIncome: number;
+  socialSecurityMedicareWithheld: number; // W-2 boxes 4 and 6
+  selfEmploymentTaxDeduction: number; // Schedule 1 line 15
+  uncollectedSocialSecurityMedicareTax: number; // Schedule 2 line 13: W-2 box 12 codes A, B, M and N
+  earnedIncomeCredit: number;
+}
+
+export interface ChildTaxCreditResult {
+  qualifyingChildren: number;
+  otherDependents: number;
+  modifiedAgi: number;
+  initialCredit: number;
+  phaseoutThreshold: number;
+  phaseoutReduction: number;
+  creditAfterPhaseout: number;
+  creditLimit: number;
+  nonrefundableCredit: number;
+  earnedIncome: number;
+  additionalChildTaxCredit: number;
+  lines: Schedule8812Line[];
+}
+
+interface ProfileDependent {
+  dateOfBirth: string;
+  isQualifyingChild?: boolean;
+  isQualifyingRelative?: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class ChildTaxCreditService {
+  // A child must be under this age at the end of the year for the child tax credit
+  private readonly CHILD_AGE_LIMIT = 17;
+  // MAGI over the threshold is rounded up to the next multiple of this amount
+  private readonly PHASEOUT_INCREMENT = 1000;
+  // Part II-B (social security taxes) applies with this many qualifying children
+  private readonly PART_II_B_MIN_CHILDREN = 3;
+
+  /**
+   * Split profile dependents into children under 17 (child tax credit) and
+   * everyone else claimed as a dependent (credit for other dependents)
+   */
+  countDependents(dependents: unknown, year: number): { qualifyingChildren: number; otherDependents: number } {
+    if (!Array.isArray(dependents)) return { qualifyingChildren: 0, otherDependents: 0 };
+
+    let qualifyingChildren = 0;
+    let otherDependents = 0;
+    for (const dependent of dependents as ProfileDependent[]) {
+      if (!dependent.isQualifyingChild && !dependent.isQualifyingRelative) continue;
+      const age = earnedIncomeCreditService.ageAtYearEnd(dependent.dateOfBirth, year);
+      if (dependent.isQualifyingChild && age !== null && age >= 0 && age < this.CHILD_AGE_LIMIT) {
+        qualifyingChildren++;
+      } else {
+        otherDependents++;
+      }
+    }
+    return { qualifyingChildren, otherDependents };
+  }
+
+  /**
+   * Schedule 8812: child tax credit / credit for other dependents (Part I) and the
+   * refundable additional child tax credit (Part II-A and II-B)
+   */
+  async calculateSchedule8812(input: ChildTaxCreditInput, year: number): Promise<ChildTaxCreditResult> {
+    const { qualifyingChildren, otherDependents } = this.countDependents(input.dependents, year);
+    const parameters = await taxConfigService.getChildTaxCreditParameters(year, input.filingStatus);
+    if (!parameters) {
+      throw new Error(`Child tax credit parameters not configured for ${year} (${input.filingStatus})`);
+    }
+
+    const lines: Schedule8812Line[] = [];
+    const add = (line: string, description: string, amount: number) => {
+      const value = round(amount);
+      lines.push({ line, description, amount: value });
+      return value;
+    };
+
+    // Part I
+    const line3 = add("3", "Modified adjusted gross income", input.modifiedAgi);
+    add("4", "Number of qualifying children under age 17", qualifyingChildren);
+    const line5 = add("5", `Line 4 multiplied by $${Number(parameters.creditPerChild)}`, qualifyingChildren * Number(parameters.creditPerChild));
+    add("6", "Number of other dependents", otherDependents);
+    const line7 = add("7", `Line 6 multiplied by $${Number(parameters.creditPerOtherDependent)}`, otherDependents * Number(parameters.creditPerOtherDependent));
+    const line8 = add("8", "Add lines 5 and 7", line5 + line7);
+    const line9 = add("9", "Phase-out threshold for filing status", Number(parameters.phaseoutThreshold));
+    const excess = Math.max(0, line3 - line9);
+    const line10 = add("10", "Line 3 minus line 9, rounded up to the next $1,000",
+      Math.ceil(excess / this.PHASEOUT_INCREMENT) * this.PHASEOUT_INCREMENT);
+    const line11 = add("11", "Line 10 multiplied by 5%", line10 * Number(parameters.phaseoutRate));
+    const line12 = add("12", "Line 8 minus line 11", Math.max(0, line8 - line11));
+    const line13 = add("13", "Credit Limit Worksheet A", Math.max(0, input.creditLimit));
+    const line14 = add("14", "Child tax credit and credit for other dependents (smaller of line 12 or 13)", Math.min(line12, line13));
+
+    // Part II-A: only the unused child tax credit for qualifying children can be refunded
+    let additionalChildTaxCredit = 0;
+    if (qualifyingChildren > 0 && line12 > line14) {
+      const line16a = add("16a", "Line 12 minus line 14", line12 - line14);
+      const line16b = add("16b", "Qualifying children multiplied by the refundable limit",
+        qualifyingChildren * Number(parameters.refundableLimitPerChild));
+      const line17 = add("17", "Smaller of line 16a or 16b", Math.min(line16a, line16b));
+      add("18a", "Earned income", input.earnedIncome);
+      const line19 = add("19", "Line 18a minus the earned income threshold",
+        Math.max(0, input.earnedIncome - Number(parameters.refundableEarnedIncomeThreshold)));
+      const line20 = add("20", "Line 19 multiplied by 15%", line19 * Number(parameters.refundableRate));
+
+      let line26 = line20;
+      if (qualifyingChildren >= this.PART_II_B_MIN_CHILDREN) {
+        // Part II-B: taxpayers with three or more children can use social security taxes paid
+        const line21 = add("21", "Social security and Medicare tax withheld", input.socialSecurityMedicareWithheld);
+        const line22 = add("22", "Deductible part of self-employment tax plus uncollected social security and Medicare tax",
+          input.selfEmploymentTaxDeduction + input.uncollectedSocialSecurityMedicareTax);
+        const line23 = add("23", "Add lines 21 and 22", line21 + line22);
+        const line24 = add("24", "Earned income credit", input.earnedIncomeCredit);
+        const line25 = add("25", "Line 23 minus line 24", Math.max(0, line23 - line24));
+        line26 = add("26", "Larger of line 20 or line 25", Math.max(line20, line25));
+      }
+      additionalChildTaxCredit = add("27", "Additional child tax credit (smaller of line 17 or line 26)", Math.min(line17, line26));
+    }
+
+    return {
+      qualifyingChildren,
+      otherDependents,
+      modifiedAgi: line3,
+      initialCredit: line8,
+      phaseoutThreshold: line9,
+      phaseoutReduction: line11,
+      creditAfterPhaseout: line12,
+      creditLimit: line13,
+      nonrefundableCredit: line14,
+      earnedIncome: round(input.earnedIncome),
+      additionalChildTaxCredit,
+      lines,
+    };
+  }
+}
+
+// Export singleton instance
+export const childTaxCreditService = new ChildTaxCreditService();
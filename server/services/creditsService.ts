@@ -0,0 +1,89 @@
+export interface NonrefundableCredits {
+  foreignTaxCredit?: number;
+  dependentCareCredit?: number;
+  educationCredits?: number;
+  retirementSavingsCredit?: number;
+  homeImprovementCredit?: number;
+  childTaxCredit?: number;
+  residentialCleanEnergyCredit?: number;
+}
+
+export interface RefundableCredits {
+  earnedIncomeCredit?: number;
+  additionalChildTaxCredit?: number;
+  americanOpportunityCredit?: number;
+  netPremiumTaxCredit?: number;
+}
+
+// Stored on Form 1040 as creditsBreakdown
+export interface CreditsBreakdown {
+  // Nonrefundable credits, limited to the tax on line 18
+  childTaxCredit: number; // Line 19
+  foreignTaxCredit: number; // Schedule 3 line 1 (Form 1116 or the simplified election)
+  dependentCareCredit: number; // Schedule 3 line 2 (Form 2441)
+  educationCredits: number; // Schedule 3 line 3 (Form 8863)
+  retirementSavingsCredit: number; // Schedule 3 line 4 (Form 8880)
+  residentialCleanEnergyCredit: number; // Schedule 3 line 5a (Form 5695 Part I)
+  homeImprovementCredit: number; // Schedule 3 line 5b (Form 5695 Part II)
+  scheduleThreeCredits: number; // Line 20: Schedule 3 line 8
+  totalNonrefundableCredits: number; // Line 21
+  // Refundable credits, treated as payments
+  earnedIncomeCredit: number; // Line 27
+  additionalChildTaxCredit: number; // Line 28
+  americanOpportunityCredit: number; // Line 29: refundable part from Form 8863
+  netPremiumTaxCredit: number; // Line 31: Schedule 3 line 9 (Form 8962)
+  totalRefundableCredits: number; // Line 32
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class CreditsService {
+  /**
+   * Apply nonrefundable credits until the tax is used up, then total the refundable
+   * credits. Schedule 3 credits come first because Credit Limit Worksheet A for the
+   * child tax credit subtracts them from the tax; the residential clean energy credit
+   * is the exception and comes last, so its unused part carries forward.
+   */
+  buildBreakdown(tax: number, nonrefundable: NonrefundableCredits, refundable: RefundableCredits): CreditsBreakdown {
+    let remainingTax = Math.max(0, tax);
+    const allow = (credit: number | undefined) => {
+      const allowed = Math.min(Math.max(0, credit || 0), remainingTax);
+      remainingTax -= allowed;
+      return round(allowed);
+    };
+
+    const foreignTaxCredit = allow(nonrefundable.foreignTaxCredit);
+    const dependentCareCredit = allow(nonrefundable.dependentCareCredit);
+    const educationCredits = allow(nonrefundable.educationCredits);
+    const retirementSavingsCredit = allow(nonrefundable.retirementSavingsCredit);
+    const homeImprovementCredit = allow(nonrefundable.homeImprovementCredit);
+    const childTaxCredit = allow(nonrefundable.childTaxCredit);
+    const residentialCleanEnergyCredit = allow(nonrefundable.residentialCleanEnergyCredit);
+    const scheduleThreeCredits = round(foreignTaxCredit + dependentCareCredit + educationCredits + retirementSavingsCredit +
+      residentialCleanEnergyCredit + homeImprovementCredit);
+    const earnedIncomeCredit = round(Math.max(0, refundable.earnedIncomeCredit || 0));
+    const additionalChildTaxCredit = round(Math.max(0, refundable.additionalChildTaxCredit || 0));
+    const americanOpportunityCredit = round(Math.max(0, refundable.americanOpportunityCredit || 0));
+    const netPremiumTaxCredit = round(Math.max(0, refundable.netPremiumTaxCredit || 0));
+
+    return {
+      childTaxCredit,
+      foreignTaxCredit,
+      dependentCareCredit,
+      educationCredits,
+      retirementSavingsCredit,
+      residentialCleanEnergyCredit,
+      homeImprovementCredit,
+      scheduleThreeCredits,
+      totalNonrefundableCredits: round(childTaxCredit + scheduleThreeCredits),
+      earnedIncomeCredit,
+      additionalChildTaxCredit,
+      americanOpportunityCredit,
+      netPremiumTaxCredit,
+      totalRefundableCredits: round(earnedIncomeCredit + additionalChildTaxCredit + americanOpportunityCredit + netPremiumTaxCredit),
+    };
+  }
+}
+
+// Export singleton instance
+export const creditsService = new CreditsService();
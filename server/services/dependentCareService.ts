@@ -0,0 +1,273 @@
+import { taxConfigService } from "./taxConfigService";
+import { earnedIncomeCreditService } from "./earnedIncomeCreditService";
+import type { CareProvider, FederalDependentCareCredit } from "@shared/schema";
+
+export interface Form2441Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface CareProviderPayment {
+  dependentName: string;
+  amount: string;
+}
+
+export interface Form2441Person {
+  name: string;
+  age: number | null;
+  expenses: number;
+  qualifies: boolean;
+  reason: string | null; // Why expenses for the person don't count
+}
+
+export interface DependentCareBenefitsInput {
+  filingStatus: string;
+  dependents: unknown;
+  providers: CareProvider[];
+  dependentCareBenefits: number; // W-2 box 10
+  earnedIncome: number; // Wages and net self-employment earnings, both spouses on a joint return
+  spouseEarnedIncome: number | null; // Entered on Form 2441; null to use the spouse's W-2s and Schedule C
+  spouseEarnedIncomeFromForms: number; // Wages on the spouse's W-2s and the spouse's Schedule C earnings
+  unassignedWages: number; // Wages on W-2s with no employee assigned, counted as the taxpayer's
+  spouseStudentOrDisabled: boolean;
+}
+
+// Part III and the inputs to Part II that don't depend on the tax
+export interface DependentCareBenefitsResult {
+  persons: Form2441Person[];
+  qualifyingPersons: number;
+  qualifiedExpenses: number;
+  dependentCareBenefits: number;
+  excludedBenefits: number; // Line 25
+  taxableBenefits: number; // Form 1040 line 1e
+  expenseLimit: number; // Line 3
+  earnedIncome: number; // Line 4
+  spouseEarnedIncome: number; // Line 5
+  warnings: string[];
+  lines: Form2441Line[];
+}
+
+export interface Form2441Result extends DependentCareBenefitsResult {
+  creditRate: number;
+  tentativeCredit: number;
+  creditLimit: number;
+  dependentCareCredit: number; // Schedule 3 line 2
+}
+
+interface ProfileDependent {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  isQualifyingChild?: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+export class DependentCareService {
+  // Box 10 over this amount is already included in W-2 box 1 by the employer
+  private readonly EMPLOYER_EXCLUSION_LIMIT = 5000;
+
+  /**
+   * Load the year's Form 2441 parameters
+   */
+  private async getParameters(year: number): Promise<FederalDependentCareCredit> {
+    const parameters = await taxConfigService.getDependentCareCreditParameters(year);
+    if (!parameters) {
+      throw new Error(`Dependent care credit parameters not configured for ${year}`);
+    }
+    return parameters;
+  }
+
+  /**
+   * Read a care provider's payments jsonb column
+   */
+  parsePayments(value: unknown): CareProviderPayment[] {
+    if (!Array.isArray(value)) return [];
+    return (value as Partial<CareProviderPayment>[])
+      .filter((payment) => payment && payment.dependentName && Number(payment.amount) > 0)
+      .map((payment) => ({ dependentName: String(payment.dependentName).trim(), amount: String(payment.amount) }));
+  }
+
+  /**
+   * Total provider payments by person. Children must be under the qualifying age at the
+   * end of the year; payments for anyone not on the profile are listed but not counted.
+   */
+  private getPersons(dependents: unknown, providers: CareProvider[], year: number, parameters: FederalDependentCareCredit): Form2441Person[] {
+    const expensesByName = new Map<string, { name: string; expenses: number }>();
+    for (const payment of providers.flatMap((provider) => this.parsePayments(provider.payments))) {
+      const key = normalizeName(payment.dependentName);
+      const entry = expensesByName.get(key) || { name: payment.dependentName, expenses: 0 };
+      entry.expenses = round(entry.expenses + amount(payment.amount));
+      expensesByName.set(key, entry);
+    }
+
+    const persons: Form2441Person[] = [];
+    for (const dependent of Array.isArray(dependents) ? (dependents as ProfileDependent[]) : []) {
+      const name = `${dependent.firstName} ${dependent.lastName}`.trim();
+      const entry = expensesByName.get(normalizeName(name));
+      if (!entry) continue;
+      expensesByName.delete(normalizeName(name));
+
+      const age = earnedIncomeCreditService.ageAtYearEnd(dependent.dateOfBirth, year);
+      let reason: string | null = null;
+      if (!dependent.isQualifyingChild) {
+        reason = "Not a qualifying child";
+      } else if (age === null || age < 0 || age >= parameters.qualifyingChildAge) {
+        reason = `Not under age ${parameters.qualifyingChildAge} at the end of the year`;
+      }
+      persons.push({ name, age, expenses: entry.expenses, qualifies: reason === null, reason });
+    }
+
+    for (const entry of Array.from(expensesByName.values())) {
+      persons.push({ name: entry.name, age: null, expenses: entry.expenses, qualifies: false, reason: "Not a dependent on your profile" });
+    }
+    return persons;
+  }
+
+  /**
+   * Form 2441 Part III and lines 2-5: qualifying persons and expenses, earned income, and
+   * how much of the W-2 box 10 benefits are excluded from income. Excluded benefits reduce
+   * the expenses that can be used for the credit.
+   */
+  async calculateBenefits(input: DependentCareBenefitsInput, year: number): Promise<DependentCareBenefitsResult> {
+    const parameters = await this.getParameters(year);
+    const persons = this.getPersons(input.dependents, input.providers, year, parameters);
+    const qualifying = persons.filter((person) => person.qualifies && person.expenses > 0);
+    const qualifiedExpenses = round(qualifying.reduce((sum, person) => sum + person.expenses, 0));
+    const qualifyingPersons = qualifying.length;
+    const limit = qualifyingPersons >= 2
+      ? amount(parameters.expenseLimitTwoOrMore)
+      : qualifyingPersons === 1 ? amount(parameters.expenseLimitOne) : 0;
+
+    // Line 4 and 5: on a joint return the spouse's share comes from their W-2s and Schedule C
+    // unless entered. Wages that can't be assigned stay on line 4, so line 5 is never overstated.
+    // A student or disabled spouse is treated as earning a set amount each month.
+    const warnings: string[] = [];
+    const isJoint = input.filingStatus === "married_joint";
+    const combined = round(Math.max(0, input.earnedIncome));
+    let line4 = combined;
+    let line5 = combined;
+    if (isJoint) {
+      const entered = input.spouseEarnedIncome !== null;
+      line5 = round(Math.max(0, input.spouseEarnedIncome ?? input.spouseEarnedIncomeFromForms));
+      line4 = round(Math.max(0, combined - line5));
+      if (!entered && input.unassignedWages > 0) {
+        warnings.push(`$${round(input.unassignedWages).toLocaleString()} of W-2 wages have no employee assigned, so they are counted as your earned income (line 4). Assign each W-2 on the review page or enter your spouse's earned income.`);
+      }
+      if (line5 === 0 && !input.spouseStudentOrDisabled && qualifyingPersons > 0) {
+        warnings.push("No earned income is recorded for your spouse, so line 5 and the credit are zero. Enter your spouse's earned income, or mark them as a student or disabled.");
+      }
+    }
+    if (isJoint && input.spouseStudentOrDisabled) {
+      const monthly = qualifyingPersons >= 2 ? amount(parameters.deemedMonthlyIncomeTwoOrMore) : amount(parameters.deemedMonthlyIncomeOne);
+      line5 = Math.max(line5, round(monthly * 12));
+    }
+
+    const lines: Form2441Line[] = [
+      { line: "2", description: `Qualified expenses for ${qualifyingPersons} qualifying person${qualifyingPersons === 1 ? "" : "s"}`, amount: qualifiedExpenses },
+    ];
+
+    // Part III - dependent care benefits
+    const line12 = round(Math.max(0, input.dependentCareBenefits));
+    let excludedBenefits = 0;
+    let taxableBenefits = 0;
+    let line3 = round(Math.min(qualifiedExpenses, limit));
+    if (line12 > 0) {
+      const line17 = Math.min(line12, qualifiedExpenses);
+      const line20 = Math.min(line17, line4, line5);
+      const line21 = input.filingStatus === "married_separate"
+        ? amount(parameters.benefitExclusionMarriedSeparate)
+        : amount(parameters.benefitExclusion);
+      excludedBenefits = round(Math.min(line20, line21));
+      // Benefits over the employer limit are in box 1 already, so only the rest of the
+      // first $5,000 that isn't excluded is added to wages
+      taxableBenefits = round(Math.max(0, Math.min(line12, this.EMPLOYER_EXCLUSION_LIMIT) - excludedBenefits));
+      const line29 = round(Math.max(0, limit - excludedBenefits));
+      const line30 = round(Math.max(0, qualifiedExpenses - excludedBenefits));
+      line3 = round(Math.min(line29, line30));
+
+      lines.push(
+        { line: "12", description: "Dependent care benefits (W-2 box 10)", amount: line12 },
+        { line: "16", description: "Qualified expenses incurred", amount: qualifiedExpenses },
+        { line: "17", description: "Smaller of line 12 or line 16", amount: round(line17) },
+        { line: "18", description: "Your earned income", amount: line4 },
+        { line: "19", description: isJoint ? "Spouse's earned income" : "Earned income (line 18)", amount: line5 },
+        { line: "20", description: "Smallest of line 17, 18 or 19", amount: round(line20) },
+        { line: "21", description: "Exclusion limit", amount: line21 },
+        { line: "25", description: "Excluded benefits", amount: excludedBenefits },
+        { line: "26", description: "Taxable benefits not already in W-2 box 1 (Form 1040 line 1e)", amount: taxableBenefits },
+        { line: "27", description: "Expense limit for the number of qualifying persons", amount: limit },
+        { line: "29", description: "Line 27 minus excluded benefits", amount: line29 },
+        { line: "30", description: "Qualified expenses not paid with benefits", amount: line30 },
+        { line: "31", description: "Smaller of line 29 or line 30", amount: line3 },
+      );
+    }
+
+    lines.push(
+      { line: "3", description: line12 > 0 ? "Expenses for the credit (line 31)" : `Qualified expenses, limited to $${limit.toLocaleString()}`, amount: line3 },
+      { line: "4", description: "Your earned income", amount: line4 },
+      { line: "5", description: isJoint ? (input.spouseStudentOrDisabled ? "Spouse's earned income (student or disabled)" : "Spouse's earned income") : "Earned income (line 4)", amount: line5 },
+    );
+
+    return {
+      persons,
+      qualifyingPersons,
+      qualifiedExpenses,
+      dependentCareBenefits: line12,
+      excludedBenefits,
+      taxableBenefits,
+      expenseLimit: line3,
+      earnedIncome: line4,
+      spouseEarnedIncome: line5,
+      warnings,
+      lines,
+    };
+  }
+
+  /**
+   * Form 2441 Part II: the credit is a percentage of the smallest of the expenses and each
+   * spouse's earned income, dropping 1% for each $2,000 (or part) of AGI over $15,000 down
+   * to the minimum rate. Married filing separately can't take the credit.
+   */
+  async calculateForm2441(
+    benefits: DependentCareBenefitsResult,
+    filingStatus: string,
+    adjustedGrossIncome: number,
+    creditLimit: number, // Credit Limit Worksheet: tax less the foreign tax credit
+    year: number
+  ): Promise<Form2441Result> {
+    const parameters = await this.getParameters(year);
+    const eligible = filingStatus !== "married_separate" && benefits.qualifyingPersons > 0;
+
+    const line6 = round(Math.min(benefits.expenseLimit, benefits.earnedIncome, benefits.spouseEarnedIncome));
+    const line7 = round(adjustedGrossIncome);
+    const steps = Math.max(0, Math.ceil((line7 - amount(parameters.phaseoutStart)) / amount(parameters.phaseoutStep)));
+    const line8 = Math.max(amount(parameters.minCreditRate), Math.round((amount(parameters.maxCreditRate) - steps * 0.01) * 10000) / 10000);
+    const line9 = eligible ? round(line6 * line8) : 0;
+    const line10 = round(Math.max(0, creditLimit));
+    const line11 = round(Math.min(line9, line10));
+
+    return {
+      ...benefits,
+      creditRate: line8,
+      tentativeCredit: line9,
+      creditLimit: line10,
+      dependentCareCredit: line11,
+      lines: [
+        ...benefits.lines,
+        { line: "6", description: "Smallest of line 3, 4 or 5", amount: line6 },
+        { line: "7", description: "Adjusted gross income (Form 1040 line 11)", amount: line7 },
+        { line: "8", description: "Credit percentage for line 7", amount: line8 },
+        { line: "9", description: filingStatus === "married_separate" ? "Not allowed when married filing separately" : "Multiply line 6 by line 8", amount: line9 },
+        { line: "10", description: "Credit limit (tax less the foreign tax credit)", amount: line10 },
+        { line: "11", description: "Credit for child and dependent care expenses (Schedule 3 line 2)", amount: line11 },
+      ],
+    };
+  }
+}
+
+// Export singleton instance
+export const dependentCareService = new DependentCareService();
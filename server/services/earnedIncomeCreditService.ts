@@ -0,0 +1,141 @@
+import { taxConfigService } from "./taxConfigService";
+import type { FederalEarnedIncomeCredit } from "@shared/schema";
+
+export interface EarnedIncomeCreditInput {
+  filingStatus: string;
+  earnedIncome: number;
+  adjustedGrossIncome: number;
+  investmentIncome: number;
+  qualifyingChildren: number;
+  taxpayerDateOfBirth?: string | null;
+  spouseDateOfBirth?: string | null;
+}
+
+export interface EarnedIncomeCreditResult {
+  qualifyingChildren: number;
+  earnedIncome: number;
+  adjustedGrossIncome: number;
+  investmentIncome: number;
+  investmentIncomeLimit: number;
+  creditFromEarnedIncome: number;
+  creditFromAgi: number | null;
+  isEligible: boolean;
+  ineligibleReason: string | null;
+  earnedIncomeCredit: number;
+}
+
+interface ProfileDependent {
+  dateOfBirth: string;
+  isQualifyingChild?: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class EarnedIncomeCreditService {
+  // A qualifying child must be under this age at the end of the year
+  private readonly CHILD_AGE_LIMIT = 19;
+  // Without a qualifying child the taxpayer (or spouse) must be within this age range
+  private readonly CHILDLESS_MIN_AGE = 25;
+  private readonly CHILDLESS_MAX_AGE = 64;
+  private readonly MAX_QUALIFYING_CHILDREN = 3;
+
+  /**
+   * Age on December 31 of the tax year, or null when the date of birth is unknown
+   */
+  ageAtYearEnd(dateOfBirth: string | null | undefined, year: number): number | null {
+    if (!dateOfBirth) return null;
+    // Dates are stored as YYYY-MM-DD; read the year in UTC so the local time zone cannot shift it
+    const birthYear = new Date(dateOfBirth).getUTCFullYear();
+    return isNaN(birthYear) ? null : year - birthYear;
+  }
+
+  /**
+   * Count profile dependents that are EITC qualifying children (under 19 at year end)
+   */
+  countQualifyingChildren(dependents: unknown, year: number): number {
+    if (!Array.isArray(dependents)) return 0;
+    return (dependents as ProfileDependent[]).filter((dependent) => {
+      if (!dependent.isQualifyingChild) return false;
+      const age = this.ageAtYearEnd(dependent.dateOfBirth, year);
+      return age !== null && age >= 0 && age < this.CHILD_AGE_LIMIT;
+    }).length;
+  }
+
+  /**
+   * Credit for a given income amount: phase-in up to the plateau, then phase-out
+   */
+  private creditForIncome(income: number, parameters: FederalEarnedIncomeCredit): number {
+    const phaseIn = Math.min(income * Number(parameters.creditRate), Number(parameters.maxCredit));
+    const reduction = Math.max(0, income - Number(parameters.phaseoutThreshold)) * Number(parameters.phaseoutRate);
+    return round(Math.max(0, phaseIn - reduction));
+  }
+
+  /**
+   * Federal earned income credit (Form 1040 line 27) using the year's configured parameters
+   */
+  async calculateCredit(input: EarnedIncomeCreditInput, year: number): Promise<EarnedIncomeCreditResult> {
+    const qualifyingChildren = Math.min(input.qualifyingChildren, this.MAX_QUALIFYING_CHILDREN);
+    const result: EarnedIncomeCreditResult = {
+      qualifyingChildren,
+      earnedIncome: round(input.earnedIncome),
+      adjustedGrossIncome: round(input.adjustedGrossIncome),
+      investmentIncome: round(input.investmentIncome),
+      investmentIncomeLimit: 0,
+      creditFromEarnedIncome: 0,
+      creditFromAgi: null,
+      isEligible: false,
+      ineligibleReason: null,
+      earnedIncomeCredit: 0,
+    };
+
+    if (input.filingStatus === "married_separate") {
+      return { ...result, ineligibleReason: "Married filing separately" };
+    }
+
+    const parameters = await taxConfigService.getEarnedIncomeCreditParameters(year, input.filingStatus, qualifyingChildren);
+    if (!parameters) {
+      return { ...result, ineligibleReason: `Earned income credit not configured for ${year} (${input.filingStatus})` };
+    }
+    result.investmentIncomeLimit = Number(parameters.investmentIncomeLimit);
+
+    if (input.earnedIncome <= 0) {
+      return { ...result, ineligibleReason: "No earned income" };
+    }
+
+    if (input.investmentIncome > result.investmentIncomeLimit) {
+      return { ...result, ineligibleReason: "Investment income over the limit" };
+    }
+
+    // Without a qualifying child the taxpayer or spouse must meet the age test
+    if (qualifyingChildren === 0) {
+      const ages = [this.ageAtYearEnd(input.taxpayerDateOfBirth, year)];
+      if (input.filingStatus === "married_joint") {
+        ages.push(this.ageAtYearEnd(input.spouseDateOfBirth, year));
+      }
+      const knownAges = ages.filter((age): age is number => age !== null);
+      const meetsAgeTest = knownAges.length === 0 ||
+        knownAges.some((age) => age >= this.CHILDLESS_MIN_AGE && age <= this.CHILDLESS_MAX_AGE);
+      if (!meetsAgeTest) {
+        return { ...result, ineligibleReason: "Age test not met (must be 25 to 64 without a qualifying child)" };
+      }
+    }
+
+    // Use the smaller of the credits for earned income and AGI once AGI reaches the phase-out
+    result.creditFromEarnedIncome = this.creditForIncome(input.earnedIncome, parameters);
+    let credit = result.creditFromEarnedIncome;
+    if (input.adjustedGrossIncome >= Number(parameters.phaseoutThreshold)) {
+      result.creditFromAgi = this.creditForIncome(input.adjustedGrossIncome, parameters);
+      credit = Math.min(credit, result.creditFromAgi);
+    }
+
+    return {
+      ...result,
+      isEligible: credit > 0,
+      ineligibleReason: credit > 0 ? null : "Income too high",
+      earnedIncomeCredit: credit,
+    };
+  }
+}
+
+// Export singleton instance
+export const earnedIncomeCreditService = new EarnedIncomeCreditService();
@@ -0,0 +1,214 @@
+import { taxConfigService } from "./taxConfigService";
+import type { Form1098T, Form1098E, FederalEducationBenefits } from "@shared/schema";
+
+export interface Form8863Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+// Form 8863 Part III, one entry per student
+export interface Form8863Student {
+  studentName: string;
+  qualifiedExpenses: number; // Tuition and course materials less tax-free scholarships
+  claimsAmericanOpportunityCredit: boolean;
+  americanOpportunityCredit: number; // Line 30 before the phase-out
+  lifetimeLearningExpenses: number; // Line 31
+  ineligibleReason: string | null; // Why the student is not eligible for the AOTC
+}
+
+export interface Form8863Result {
+  modifiedAgi: number;
+  tentativeAmericanOpportunityCredit: number;
+  americanOpportunityCredit: number;
+  refundableAmericanOpportunityCredit: number;
+  nonrefundableAmericanOpportunityCredit: number;
+  lifetimeLearningExpenses: number;
+  lifetimeLearningCredit: number;
+  nonrefundableEducationCredits: number;
+  students: Form8863Student[];
+  lines: Form8863Line[];
+}
+
+export interface StudentLoanInterestResult {
+  interestPaid: number;
+  maxDeduction: number;
+  modifiedAgi: number;
+  phaseoutFraction: number;
+  deduction: number; // Schedule 1 line 21
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class EducationService {
+  // American opportunity credit: 100% of the first $2,000 and 25% of the next $2,000 per student
+  private readonly AOTC_FULL_EXPENSES = 2000;
+  private readonly AOTC_PARTIAL_EXPENSES = 2000;
+  private readonly AOTC_PARTIAL_RATE = 0.25;
+  private readonly AOTC_MAX_YEARS = 4;
+  private readonly AOTC_REFUNDABLE_RATE = 0.4;
+  // Lifetime learning credit: 20% of up to $10,000 of expenses per return
+  private readonly LLC_MAX_EXPENSES = 10000;
+  private readonly LLC_RATE = 0.2;
+
+  /**
+   * Load the year's phase-out ranges. Married filing separately has no row because
+   * neither benefit is available with that filing status.
+   */
+  async getParameters(year: number, filingStatus: string): Promise<FederalEducationBenefits | null> {
+    if (filingStatus === "married_separate") return null;
+    const parameters = await taxConfigService.getEducationBenefitParameters(year, filingStatus);
+    if (!parameters) {
+      throw new Error(`Education benefit parameters not configured for ${year} (${filingStatus})`);
+    }
+    return parameters;
+  }
+
+  /**
+   * Share of the benefit lost to the MAGI phase-out, rounded to three places as on the forms
+   */
+  private phaseoutFraction(modifiedAgi: number, start: number, end: number): number {
+    if (modifiedAgi <= start) return 0;
+    if (modifiedAgi >= end) return 1;
+    return Math.round(((modifiedAgi - start) / (end - start)) * 1000) / 1000;
+  }
+
+  /**
+   * Combine 1098-T forms by student (a student can attend more than one school) and
+   * decide whether each one qualifies for the American opportunity credit
+   */
+  buildStudents(forms: Form1098T[]): Form8863Student[] {
+    const byStudent = new Map<string, Form1098T[]>();
+    for (const form of forms) {
+      const name = (form.studentName || "").trim() || "Unnamed student";
+      byStudent.set(name.toLowerCase(), [...(byStudent.get(name.toLowerCase()) || []), form]);
+    }
+
+    return Array.from(byStudent.values()).map((studentForms) => {
+      const qualifiedExpenses = round(Math.max(0, studentForms.reduce(
+        (sum, form) => sum + amount(form.paymentsReceived) + amount(form.additionalExpenses) - amount(form.scholarships),
+        0
+      )));
+      const halfTime = studentForms.some((form) => form.halfTimeStudent);
+      const graduate = studentForms.some((form) => form.graduateStudent);
+      const yearsClaimed = Math.max(...studentForms.map((form) => form.aotcYearsClaimed || 0));
+
+      let ineligibleReason: string | null = null;
+      if (!halfTime) ineligibleReason = "Not enrolled at least half-time";
+      else if (graduate) ineligibleReason = "Graduate student";
+      else if (yearsClaimed >= this.AOTC_MAX_YEARS) ineligibleReason = "Credit already claimed for four years";
+
+      const claimsAmericanOpportunityCredit = ineligibleReason === null && qualifiedExpenses > 0;
+      const americanOpportunityCredit = claimsAmericanOpportunityCredit
+        ? round(
+            Math.min(qualifiedExpenses, this.AOTC_FULL_EXPENSES) +
+            Math.min(Math.max(0, qualifiedExpenses - this.AOTC_FULL_EXPENSES), this.AOTC_PARTIAL_EXPENSES) * this.AOTC_PARTIAL_RATE
+          )
+        : 0;
+
+      return {
+        studentName: (studentForms[0].studentName || "").trim() || "Unnamed student",
+        qualifiedExpenses,
+        claimsAmericanOpportunityCredit,
+        americanOpportunityCredit,
+        lifetimeLearningExpenses: claimsAmericanOpportunityCredit ? 0 : qualifiedExpenses,
+        ineligibleReason,
+      };
+    });
+  }
+
+  /**
+   * Form 8863: American opportunity credit (Part I, 40% refundable) and lifetime
+   * learning credit (Part II), both reduced over the year's MAGI phase-out range
+   */
+  async calculateForm8863(forms: Form1098T[], filingStatus: string, modifiedAgi: number, year: number): Promise<Form8863Result> {
+    const students = this.buildStudents(forms);
+    const parameters = await this.getParameters(year, filingStatus);
+    const start = parameters ? Number(parameters.creditPhaseoutStart) : 0;
+    const end = parameters ? Number(parameters.creditPhaseoutEnd) : 0;
+    const fraction = parameters ? this.phaseoutFraction(modifiedAgi, start, end) : 1;
+
+    // Part I - American opportunity credit
+    const line1 = round(students.reduce((sum, student) => sum + student.americanOpportunityCredit, 0));
+    const line3 = round(modifiedAgi);
+    const line7 = round(line1 * (1 - fraction));
+    const line8 = round(line7 * this.AOTC_REFUNDABLE_RATE);
+    const line9 = round(line7 - line8);
+
+    // Part II - lifetime learning credit
+    const line10 = round(students.reduce((sum, student) => sum + student.lifetimeLearningExpenses, 0));
+    const line11 = Math.min(line10, this.LLC_MAX_EXPENSES);
+    const line12 = round(line11 * this.LLC_RATE);
+    const line18 = round(line12 * (1 - fraction));
+    const line19 = round(line18 + line9);
+
+    const lines: Form8863Line[] = [
+      { line: "1", description: "Tentative American opportunity credit (Part III line 30 totals)", amount: line1 },
+      { line: "2", description: "MAGI where the credits are fully phased out", amount: end },
+      { line: "3", description: "Modified adjusted gross income", amount: line3 },
+      { line: "6", description: "Share of the credit allowed after the phase-out", amount: Math.round((1 - fraction) * 1000) / 1000 },
+      { line: "7", description: "American opportunity credit after the phase-out", amount: line7 },
+      { line: "8", description: "Refundable American opportunity credit (40% of line 7)", amount: line8 },
+      { line: "9", description: "Nonrefundable American opportunity credit", amount: line9 },
+      { line: "10", description: "Lifetime learning credit expenses (Part III line 31 totals)", amount: line10 },
+      { line: "11", description: "Smaller of line 10 or $10,000", amount: line11 },
+      { line: "12", description: "Multiply line 11 by 20%", amount: line12 },
+      { line: "18", description: "Lifetime learning credit after the phase-out", amount: line18 },
+      { line: "19", description: "Nonrefundable education credits (Schedule 3 line 3)", amount: line19 },
+    ];
+
+    return {
+      modifiedAgi: line3,
+      tentativeAmericanOpportunityCredit: line1,
+      americanOpportunityCredit: line7,
+      refundableAmericanOpportunityCredit: line8,
+      nonrefundableAmericanOpportunityCredit: line9,
+      lifetimeLearningExpenses: line11,
+      lifetimeLearningCredit: line18,
+      nonrefundableEducationCredits: line19,
+      students,
+      lines,
+    };
+  }
+
+  /**
+   * Student Loan Interest Deduction Worksheet (Schedule 1 line 21). MAGI is figured
+   * before this deduction, so pass total income less the other adjustments.
+   */
+  async calculateStudentLoanInterestDeduction(
+    forms: Form1098E[],
+    filingStatus: string,
+    modifiedAgi: number,
+    year: number
+  ): Promise<StudentLoanInterestResult> {
+    const interestPaid = round(forms.reduce((sum, form) => sum + amount(form.studentLoanInterest), 0));
+    const result: StudentLoanInterestResult = {
+      interestPaid,
+      maxDeduction: 0,
+      modifiedAgi: round(modifiedAgi),
+      phaseoutFraction: 1,
+      deduction: 0,
+    };
+    if (interestPaid <= 0) return result;
+
+    const parameters = await this.getParameters(year, filingStatus);
+    if (!parameters) return result;
+
+    const maxDeduction = Math.min(interestPaid, Number(parameters.studentLoanInterestMax));
+    const phaseoutFraction = this.phaseoutFraction(
+      modifiedAgi,
+      Number(parameters.studentLoanInterestPhaseoutStart),
+      Number(parameters.studentLoanInterestPhaseoutEnd)
+    );
+    return {
+      ...result,
+      maxDeduction,
+      phaseoutFraction,
+      deduction: round(maxDeduction * (1 - phaseoutFraction)),
+    };
+  }
+}
+
+// Export singleton instance
+export const educationService = new EducationService();
@@ -161,6 +161,7 @@ export class EfileService {
       <TotalIncome>${form1040.totalIncome || "0"}</TotalIncome>
       <AdjustedGrossIncome>${form1040.adjustedGrossIncome || "0"}</AdjustedGrossIncome>
       <StandardDeduction>${form1040.standardDeduction || "0"}</StandardDeduction>
+      <QualifiedBusinessIncomeDeduction>${form1040.qbiDeduction || "0"}</QualifiedBusinessIncomeDeduction>
       <TaxableIncome>${form1040.taxableIncome || "0"}</TaxableIncome>
       <Tax>${form1040.tax || "0"}</Tax>
       <TotalTax>${form1040.totalTax || "0"}</TotalTax>
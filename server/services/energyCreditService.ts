@@ -0,0 +1,316 @@
+import { storage } from "../storage";
+import { taxConfigService } from "./taxConfigService";
+import { ENERGY_PROPERTY_CATEGORIES, type EnergyCreditCarryover, type EnergyImprovement, type FederalEnergyCredits } from "@shared/schema";
+
+export interface Form5695Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface Form5695Input {
+  improvements: EnergyImprovement[];
+  carryforward: number; // Line 12: unused residential clean energy credit from last year
+  homeImprovementCreditLimit: number; // Line 31: tax less the credits that come before it
+}
+
+export interface Form5695Result {
+  // Part I - residential clean energy credit
+  cleanEnergyCosts: number; // Line 6a
+  cleanEnergyCredit: number; // Line 6b
+  fuelCellCosts: number; // Line 8
+  fuelCellCredit: number; // Line 11
+  carryforwardFromPriorYear: number; // Line 12
+  totalCleanEnergyCredit: number; // Line 13
+  cleanEnergyCreditLimit: number; // Line 14
+  residentialCleanEnergyCredit: number; // Line 15: Schedule 3 line 5a
+  carryforwardToNextYear: number; // Line 16
+  // Part II - energy efficient home improvement credit
+  efficiencyImprovementCredit: number;
+  heatPumpCredit: number;
+  homeImprovementCreditLimit: number; // Line 31
+  homeImprovementCredit: number; // Line 32: Schedule 3 line 5b
+  warnings: string[];
+  lines: Form5695Line[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+// Part I property, by form line
+const CLEAN_ENERGY_PROPERTY = [
+  { category: ENERGY_PROPERTY_CATEGORIES.SOLAR_ELECTRIC, line: "1", description: "Qualified solar electric property costs" },
+  { category: ENERGY_PROPERTY_CATEGORIES.SOLAR_WATER_HEATING, line: "2", description: "Qualified solar water heating property costs" },
+  { category: ENERGY_PROPERTY_CATEGORIES.SMALL_WIND, line: "3", description: "Qualified small wind energy property costs" },
+  { category: ENERGY_PROPERTY_CATEGORIES.GEOTHERMAL_HEAT_PUMP, line: "4", description: "Qualified geothermal heat pump property costs" },
+  { category: ENERGY_PROPERTY_CATEGORIES.BATTERY_STORAGE, line: "5", description: "Qualified battery storage technology costs" },
+];
+
+const CATEGORY_LABELS: Record<string, string> = {
+  [ENERGY_PROPERTY_CATEGORIES.SOLAR_ELECTRIC]: "Solar electric property",
+  [ENERGY_PROPERTY_CATEGORIES.SOLAR_WATER_HEATING]: "Solar water heating property",
+  [ENERGY_PROPERTY_CATEGORIES.SMALL_WIND]: "Small wind energy property",
+  [ENERGY_PROPERTY_CATEGORIES.GEOTHERMAL_HEAT_PUMP]: "Geothermal heat pump",
+  [ENERGY_PROPERTY_CATEGORIES.BATTERY_STORAGE]: "Battery storage",
+  [ENERGY_PROPERTY_CATEGORIES.FUEL_CELL]: "Fuel cell",
+  [ENERGY_PROPERTY_CATEGORIES.INSULATION]: "Insulation or air sealing",
+  [ENERGY_PROPERTY_CATEGORIES.EXTERIOR_DOOR]: "Exterior door",
+  [ENERGY_PROPERTY_CATEGORIES.WINDOWS_SKYLIGHTS]: "Windows and skylights",
+  [ENERGY_PROPERTY_CATEGORIES.CENTRAL_AIR_CONDITIONER]: "Central air conditioner",
+  [ENERGY_PROPERTY_CATEGORIES.WATER_HEATER]: "Water heater",
+  [ENERGY_PROPERTY_CATEGORIES.FURNACE_BOILER]: "Furnace or hot water boiler",
+  [ENERGY_PROPERTY_CATEGORIES.ELECTRICAL_PANEL]: "Electrical panel",
+  [ENERGY_PROPERTY_CATEGORIES.HOME_ENERGY_AUDIT]: "Home energy audit",
+  [ENERGY_PROPERTY_CATEGORIES.HEAT_PUMP]: "Heat pump",
+  [ENERGY_PROPERTY_CATEGORIES.BIOMASS_STOVE]: "Biomass stove or boiler",
+};
+
+// Part II energy property with a per-item limit
+const ENERGY_PROPERTY = [
+  { category: ENERGY_PROPERTY_CATEGORIES.CENTRAL_AIR_CONDITIONER, line: "22", description: "Central air conditioners" },
+  { category: ENERGY_PROPERTY_CATEGORIES.WATER_HEATER, line: "23", description: "Natural gas, propane or oil water heaters" },
+  { category: ENERGY_PROPERTY_CATEGORIES.FURNACE_BOILER, line: "24", description: "Natural gas, propane or oil furnaces and hot water boilers" },
+  { category: ENERGY_PROPERTY_CATEGORIES.ELECTRICAL_PANEL, line: "25", description: "Panelboards, sub-panelboards, branch circuits or feeders" },
+];
+
+const HOME_IMPROVEMENT_CATEGORIES: string[] = [
+  ENERGY_PROPERTY_CATEGORIES.INSULATION,
+  ENERGY_PROPERTY_CATEGORIES.EXTERIOR_DOOR,
+  ENERGY_PROPERTY_CATEGORIES.WINDOWS_SKYLIGHTS,
+  ENERGY_PROPERTY_CATEGORIES.HOME_ENERGY_AUDIT,
+  ENERGY_PROPERTY_CATEGORIES.HEAT_PUMP,
+  ENERGY_PROPERTY_CATEGORIES.BIOMASS_STOVE,
+  ...ENERGY_PROPERTY.map((property) => property.category),
+];
+
+export class EnergyCreditService {
+  /**
+   * Load the year's Form 5695 rates and limits
+   */
+  private async getParameters(year: number): Promise<FederalEnergyCredits> {
+    const parameters = await taxConfigService.getEnergyCreditParameters(year);
+    if (!parameters) {
+      throw new Error(`Energy credit parameters not configured for ${year}`);
+    }
+    return parameters;
+  }
+
+  /**
+   * Get the unused residential clean energy credit coming into a tax year (line 16 of
+   * the prior year's Form 5695). It carries forward until used.
+   */
+  async getCarryforwardIntoYear(userId: string, year: number): Promise<number> {
+    const prior = await storage.getEnergyCreditCarryover(userId, year - 1);
+    return round(amount(prior?.carryforward));
+  }
+
+  /**
+   * Form 5695 Part I through line 13 and all of Part II. Items placed in service in
+   * another year, and Part II items or fuel cells that aren't for the main home, are
+   * listed in the warnings and left out. Line 14 depends on the child tax credit, which
+   * in turn is limited by the Part II credit, so limitCleanEnergyCredit finishes Part I
+   * once the child tax credit is known.
+   */
+  async calculateForm5695(input: Form5695Input, year: number): Promise<Form5695Result> {
+    const parameters = await this.getParameters(year);
+    const warnings: string[] = [];
+    const label = (item: EnergyImprovement) => item.description || CATEGORY_LABELS[item.category] || item.category;
+
+    const improvements = input.improvements.filter((item) => {
+      if (item.placedInServiceDate && !item.placedInServiceDate.startsWith(`${year}-`)) {
+        warnings.push(`${label(item)} was placed in service on ${item.placedInServiceDate}, outside ${year}, and is left out.`);
+        return false;
+      }
+      const needsMainHome = HOME_IMPROVEMENT_CATEGORIES.includes(item.category) || item.category === ENERGY_PROPERTY_CATEGORIES.FUEL_CELL;
+      if (needsMainHome && item.isMainHome === false) {
+        warnings.push(`${label(item)} only qualifies when installed in your main home and is left out.`);
+        return false;
+      }
+      const minimumCapacity = amount(parameters.batteryMinimumCapacity);
+      if (item.category === ENERGY_PROPERTY_CATEGORIES.BATTERY_STORAGE && item.capacity !== null && amount(item.capacity) < minimumCapacity) {
+        warnings.push(`${label(item)} has less than ${minimumCapacity} kilowatt hours of capacity and is left out.`);
+        return false;
+      }
+      return amount(item.cost) > 0;
+    });
+    const itemsIn = (category: string) => improvements.filter((item) => item.category === category);
+    const costOf = (category: string) => round(itemsIn(category).reduce((sum, item) => sum + amount(item.cost), 0));
+
+    // Part I - residential clean energy credit
+    const cleanEnergyRate = amount(parameters.cleanEnergyRate);
+    const lines: Form5695Line[] = CLEAN_ENERGY_PROPERTY
+      .map((property) => ({ line: property.line, description: property.description, amount: costOf(property.category) }))
+      .filter((line) => line.amount > 0);
+    const line6a = round(lines.reduce((sum, line) => sum + line.amount, 0));
+    const line6b = round(line6a * cleanEnergyRate);
+    if (line6a > 0) {
+      lines.push(
+        { line: "6a", description: "Add lines 1 through 5", amount: line6a },
+        { line: "6b", description: `Multiply line 6a by ${Math.round(cleanEnergyRate * 100)}%`, amount: line6b },
+      );
+    }
+
+    const fuelCells = itemsIn(ENERGY_PROPERTY_CATEGORIES.FUEL_CELL);
+    const line8 = costOf(ENERGY_PROPERTY_CATEGORIES.FUEL_CELL);
+    const kilowatts = fuelCells.reduce((sum, item) => sum + amount(item.capacity), 0);
+    const line9 = round(line8 * cleanEnergyRate);
+    const line10 = round(kilowatts * amount(parameters.fuelCellLimitPerKilowatt));
+    const line11 = round(Math.min(line9, line10));
+    if (line8 > 0) {
+      if (fuelCells.some((item) => !item.capacity)) {
+        warnings.push("Enter the kilowatt capacity of each fuel cell; the credit is limited by capacity.");
+      }
+      lines.push(
+        { line: "8", description: "Qualified fuel cell property costs", amount: line8 },
+        { line: "9", description: `Multiply line 8 by ${Math.round(cleanEnergyRate * 100)}%`, amount: line9 },
+        { line: "10", description: `Kilowatt capacity (${kilowatts}) times $${amount(parameters.fuelCellLimitPerKilowatt).toLocaleString()}`, amount: line10 },
+        { line: "11", description: "Smaller of line 9 or line 10", amount: line11 },
+      );
+    }
+
+    const line12 = round(Math.max(0, input.carryforward));
+    const line13 = round(line6b + line11 + line12);
+    if (line12 > 0) {
+      lines.push({ line: "12", description: "Credit carryforward from the prior year", amount: line12 });
+    }
+    if (line13 > 0) {
+      lines.push({ line: "13", description: "Add lines 6b, 11 and 12", amount: line13 });
+    }
+
+    // Part II - energy efficient home improvement credit: each item is limited first, then
+    // everything but heat pumps and biomass shares one annual limit and those share another
+    const rate = amount(parameters.homeImprovementRate);
+    const percent = `${Math.round(rate * 100)}%`;
+    const creditFor = (category: string, itemLimit: number | null, categoryLimit: number | null) => {
+      const credit = itemsIn(category).reduce((sum, item) => {
+        const itemCredit = amount(item.cost) * rate;
+        return sum + (itemLimit !== null ? Math.min(itemCredit, itemLimit) : itemCredit);
+      }, 0);
+      return round(categoryLimit !== null ? Math.min(credit, categoryLimit) : credit);
+    };
+
+    const homeImprovementLines: Form5695Line[] = [];
+    const addLine = (line: string, description: string, category: string, credit: number) => {
+      const cost = costOf(category);
+      if (cost > 0) {
+        homeImprovementLines.push({ line, description: `${description}: ${percent} of $${cost.toLocaleString()}`, amount: credit });
+      }
+      return credit;
+    };
+
+    const doorLimit = amount(parameters.exteriorDoorLimit);
+    const doorsLimit = amount(parameters.exteriorDoorsAnnualLimit);
+    const windowsLimit = amount(parameters.windowsAnnualLimit);
+    const itemLimit = amount(parameters.energyPropertyItemLimit);
+    const auditLimit = amount(parameters.homeEnergyAuditLimit);
+    let efficiencyTotal = 0;
+    efficiencyTotal += addLine("18", "Insulation and air sealing", ENERGY_PROPERTY_CATEGORIES.INSULATION,
+      creditFor(ENERGY_PROPERTY_CATEGORIES.INSULATION, null, null));
+    efficiencyTotal += addLine("19", `Exterior doors (up to $${doorLimit} a door, $${doorsLimit} in all)`, ENERGY_PROPERTY_CATEGORIES.EXTERIOR_DOOR,
+      creditFor(ENERGY_PROPERTY_CATEGORIES.EXTERIOR_DOOR, doorLimit, doorsLimit));
+    efficiencyTotal += addLine("20", `Exterior windows and skylights (up to $${windowsLimit})`, ENERGY_PROPERTY_CATEGORIES.WINDOWS_SKYLIGHTS,
+      creditFor(ENERGY_PROPERTY_CATEGORIES.WINDOWS_SKYLIGHTS, null, windowsLimit));
+    for (const property of ENERGY_PROPERTY) {
+      efficiencyTotal += addLine(property.line, `${property.description} (up to $${itemLimit} each)`, property.category,
+        creditFor(property.category, itemLimit, null));
+    }
+    efficiencyTotal += addLine("26", `Home energy audits (up to $${auditLimit})`, ENERGY_PROPERTY_CATEGORIES.HOME_ENERGY_AUDIT,
+      creditFor(ENERGY_PROPERTY_CATEGORIES.HOME_ENERGY_AUDIT, null, auditLimit));
+
+    const annualLimit = amount(parameters.homeImprovementAnnualLimit);
+    const efficiencyImprovementCredit = round(Math.min(efficiencyTotal, annualLimit));
+    if (efficiencyTotal > annualLimit) {
+      warnings.push(`Doors, windows, insulation, energy property and audits are limited to $${annualLimit.toLocaleString()} a year.`);
+    }
+
+    const heatPumpLimit = amount(parameters.heatPumpAnnualLimit);
+    const heatPumpCost = round(costOf(ENERGY_PROPERTY_CATEGORIES.HEAT_PUMP) + costOf(ENERGY_PROPERTY_CATEGORIES.BIOMASS_STOVE));
+    const heatPumpCredit = round(Math.min(heatPumpCost * rate, heatPumpLimit));
+    if (heatPumpCost > 0) {
+      homeImprovementLines.push({
+        line: "29",
+        description: `Heat pumps, heat pump water heaters and biomass stoves and boilers: ${percent} of $${heatPumpCost.toLocaleString()} (up to $${heatPumpLimit.toLocaleString()})`,
+        amount: heatPumpCredit,
+      });
+    }
+
+    const line30 = round(efficiencyImprovementCredit + heatPumpCredit);
+    const line31 = round(Math.max(0, input.homeImprovementCreditLimit));
+    const line32 = round(Math.min(line30, line31));
+    if (line30 > 0) {
+      homeImprovementLines.push(
+        { line: "30", description: `Home improvement credit before the tax limit (up to $${annualLimit.toLocaleString()} plus $${heatPumpLimit.toLocaleString()} for heat pumps and biomass)`, amount: line30 },
+        { line: "31", description: "Credit limit (tax less the credits taken before this one)", amount: line31 },
+        { line: "32", description: "Energy efficient home improvement credit (Schedule 3 line 5b)", amount: line32 },
+      );
+    }
+
+    return {
+      cleanEnergyCosts: line6a,
+      cleanEnergyCredit: line6b,
+      fuelCellCosts: line8,
+      fuelCellCredit: line11,
+      carryforwardFromPriorYear: line12,
+      totalCleanEnergyCredit: line13,
+      cleanEnergyCreditLimit: 0,
+      residentialCleanEnergyCredit: 0,
+      carryforwardToNextYear: line13,
+      efficiencyImprovementCredit,
+      heatPumpCredit,
+      homeImprovementCreditLimit: line31,
+      homeImprovementCredit: line32,
+      warnings,
+      lines: [...lines, ...homeImprovementLines],
+    };
+  }
+
+  /**
+   * Form 5695 lines 14-16: the residential clean energy credit is taken after the child
+   * tax credit, and whatever the tax can't absorb carries forward to next year
+   */
+  limitCleanEnergyCredit(result: Form5695Result, creditLimit: number): Form5695Result {
+    const line14 = round(Math.max(0, creditLimit));
+    const line15 = round(Math.min(result.totalCleanEnergyCredit, line14));
+    const line16 = round(result.totalCleanEnergyCredit - line15);
+    if (result.totalCleanEnergyCredit <= 0) {
+      return { ...result, cleanEnergyCreditLimit: line14, residentialCleanEnergyCredit: 0, carryforwardToNextYear: 0 };
+    }
+
+    const lines = [...result.lines];
+    const index = lines.findIndex((line) => line.line === "13") + 1;
+    lines.splice(index, 0,
+      { line: "14", description: "Credit limit (tax less the child tax credit and the other credits taken first)", amount: line14 },
+      { line: "15", description: "Residential clean energy credit (Schedule 3 line 5a)", amount: line15 },
+      { line: "16", description: "Credit carryforward to next year", amount: line16 },
+    );
+
+    return {
+      ...result,
+      cleanEnergyCreditLimit: line14,
+      residentialCleanEnergyCredit: line15,
+      carryforwardToNextYear: line16,
+      lines,
+    };
+  }
+
+  /**
+   * Persist the credit carried into the next year, replacing any earlier value
+   */
+  async saveCarryforward(userId: string, taxYear: number, carryforward: number): Promise<EnergyCreditCarryover> {
+    const carryoverData = {
+      userId,
+      taxYear,
+      carryforward: round(carryforward).toString(),
+      isManualEntry: false,
+    };
+
+    const existing = await storage.getEnergyCreditCarryover(userId, taxYear);
+    if (existing) {
+      return await storage.updateEnergyCreditCarryover(existing.id, carryoverData);
+    }
+    return await storage.createEnergyCreditCarryover(carryoverData);
+  }
+}
+
+// Export singleton instance
+export const energyCreditService = new EnergyCreditService();
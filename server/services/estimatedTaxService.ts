@@ -0,0 +1,586 @@
+import { storage } from "../storage";
+import { taxConfigService } from "./taxConfigService";
+import { capitalGainsTaxService } from "./capitalGainsTaxService";
+import type { CreditsBreakdown } from "./creditsService";
+import {
+  ESTIMATED_PAYMENT_JURISDICTIONS,
+  type EstimatedTaxPayment,
+  type FederalUnderpaymentRate,
+  type Form1040,
+  type Form1040Es,
+  type InsertForm1040Es,
+  type TaxReturn,
+} from "@shared/schema";
+
+export interface Form2210Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface Form2210Installment {
+  dueDate: string;
+  required: number;
+  paid: number; // Withholding and payments credited to the installment by its due date
+  underpayment: number;
+  penalty: number;
+}
+
+export interface EstimatedPaymentsSummary {
+  federalPayments: number; // Paid during the year and by the January due date
+  appliedFromPriorYear: number;
+  totalFederalPayments: number; // Form 1040 line 26
+  statePayments: number;
+}
+
+export interface Form2210Input {
+  filingStatus: string;
+  taxAfterCredits: number; // Form 1040 line 22
+  otherTaxes: number; // Schedule 2 taxes
+  refundableCredits: number;
+  withholding: number; // Form 1040 line 25d
+  payments: EstimatedTaxPayment[];
+  priorYearTax: number | null; // Null when the prior-year return is unknown
+  priorYearAgi: number | null;
+}
+
+export interface Form2210Result {
+  currentYearTax: number;
+  currentYearSafeHarbor: number;
+  withholding: number;
+  priorYearSafeHarbor: number | null;
+  requiredAnnualPayment: number;
+  estimatedPayments: number;
+  underpayment: number;
+  penalty: number; // Form 1040 line 38
+  method: "none" | "short" | "regular";
+  exceptionReason: string | null;
+  installments: Form2210Installment[];
+  lines: Form2210Line[];
+}
+
+export interface Form1040EsVoucher {
+  voucher: number;
+  dueDate: string;
+  amount: number;
+}
+
+export interface Form1040EsInput {
+  filingStatus: string;
+  agi: number; // Expected adjusted gross income
+  qualifiedDividends: number; // Taxed at capital gain rates on line 4
+  netCapitalGain: number;
+  itemizedDeductions: number; // This return's itemized deductions, 0 when it took the standard deduction
+  alternativeMinimumTax: number;
+  credits: number; // Nonrefundable credits
+  otherTaxes: number; // Self-employment and other Schedule 2 taxes
+  refundableCredits: number;
+  withholding: number; // Expected withholding
+  priorYearTax: number; // This return's tax less refundable credits
+  priorYearAgi: number;
+  overpaymentApplied: number;
+}
+
+export interface Form1040EsResult {
+  projectedAgi: number;
+  deduction: number;
+  taxableIncome: number;
+  tax: number;
+  credits: number;
+  otherTaxes: number;
+  estimatedTax: number;
+  currentYearSafeHarbor: number;
+  priorYearSafeHarbor: number;
+  requiredAnnualPayment: number;
+  withholding: number;
+  annualPaymentDue: number;
+  quarterlyPayment: number;
+  paymentsRequired: boolean;
+  vouchers: Form1040EsVoucher[];
+  lines: Form2210Line[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+export class EstimatedTaxService {
+  // No penalty when the tax after withholding is under $1,000
+  private readonly PENALTY_THRESHOLD = 1000;
+  private readonly CURRENT_YEAR_SAFE_HARBOR_RATE = 0.9;
+  // Prior-year safe harbor is 110% of last year's tax above $150,000 of AGI ($75,000 MFS)
+  private readonly HIGH_INCOME_PRIOR_YEAR_RATE = 1.1;
+  private readonly HIGH_INCOME_AGI = 150000;
+  private readonly HIGH_INCOME_AGI_MARRIED_SEPARATE = 75000;
+  // Yearly index for the brackets and standard deduction of a plan year not configured yet
+  private readonly PROJECTED_INFLATION_RATE = 0.028;
+
+  /**
+   * The four installment due dates. Weekend and holiday extensions don't change the
+   * dates the penalty is figured from.
+   */
+  getDueDates(year: number): string[] {
+    return [`${year}-04-15`, `${year}-06-15`, `${year}-09-15`, `${year + 1}-01-15`];
+  }
+
+  /**
+   * Prior-year safe harbor multiplier: 110% when the prior-year AGI is over $150,000
+   * ($75,000 married filing separately), otherwise 100%
+   */
+  getPriorYearSafeHarborRate(filingStatus: string, priorYearAgi: number | null): number {
+    const highIncomeAgi = filingStatus === "married_separate"
+      ? this.HIGH_INCOME_AGI_MARRIED_SEPARATE
+      : this.HIGH_INCOME_AGI;
+    return (priorYearAgi ?? 0) > highIncomeAgi ? this.HIGH_INCOME_PRIOR_YEAR_RATE : 1;
+  }
+
+  /**
+   * Load the year's underpayment rate periods
+   */
+  async getRates(year: number): Promise<FederalUnderpaymentRate[]> {
+    const rates = await taxConfigService.getUnderpaymentRates(year);
+    if (rates.length === 0) {
+      throw new Error(`Underpayment interest rates not configured for ${year}`);
+    }
+    return rates;
+  }
+
+  /**
+   * Federal payments by the date they count as paid. A prior-year overpayment applied to
+   * this year counts as paid on the first due date.
+   */
+  private federalPayments(payments: EstimatedTaxPayment[], year: number): { date: string; amount: number }[] {
+    const [firstDueDate] = this.getDueDates(year);
+    return payments
+      .filter((payment) => payment.jurisdiction === ESTIMATED_PAYMENT_JURISDICTIONS.FEDERAL)
+      .map((payment) => ({
+        date: payment.appliedFromPriorYear ? firstDueDate : payment.paymentDate,
+        amount: amount(payment.amount),
+      }))
+      .filter((payment) => payment.amount > 0 && !isNaN(toTime(payment.date)))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Total the payment ledger for Form 1040 line 26 and the state return
+   */
+  summarizePayments(payments: EstimatedTaxPayment[]): EstimatedPaymentsSummary {
+    const federal = payments.filter((payment) => payment.jurisdiction === ESTIMATED_PAYMENT_JURISDICTIONS.FEDERAL);
+    const appliedFromPriorYear = round(federal
+      .filter((payment) => payment.appliedFromPriorYear)
+      .reduce((sum, payment) => sum + amount(payment.amount), 0));
+    const totalFederalPayments = round(federal.reduce((sum, payment) => sum + amount(payment.amount), 0));
+
+    return {
+      federalPayments: round(totalFederalPayments - appliedFromPriorYear),
+      appliedFromPriorYear,
+      totalFederalPayments,
+      statePayments: round(payments
+        .filter((payment) => payment.jurisdiction === ESTIMATED_PAYMENT_JURISDICTIONS.STATE)
+        .reduce((sum, payment) => sum + amount(payment.amount), 0)),
+    };
+  }
+
+  /**
+   * Interest per dollar outstanding from one date until another, day by day so rate
+   * changes and leap years are handled the way the penalty worksheet does
+   */
+  private penaltyFactor(from: string, to: string, rates: FederalUnderpaymentRate[]): number {
+    let factor = 0;
+    for (let time = toTime(from); time < toTime(to); time += DAY_MS) {
+      const date = toDate(time);
+      const period = rates.find((rate) => rate.startDate <= date && date <= rate.endDate);
+      if (!period) continue;
+      const year = new Date(time).getUTCFullYear();
+      const daysInYear = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0 ? 366 : 365;
+      factor += parseFloat(period.rate) / daysInYear;
+    }
+    return factor;
+  }
+
+  /**
+   * The short method only works when there were no estimated payments, or the payments
+   * were equal amounts made by each due date
+   */
+  private canUseShortMethod(payments: { date: string; amount: number }[], dueDates: string[]): boolean {
+    if (payments.length === 0) return true;
+    const byInstallment = dueDates.map(() => 0);
+    for (const payment of payments) {
+      const index = dueDates.findIndex((dueDate) => payment.date <= dueDate);
+      if (index === -1) return false;
+      byInstallment[index] += payment.amount;
+    }
+    return byInstallment.every((paid) => Math.abs(paid - byInstallment[0]) < 0.01);
+  }
+
+  /**
+   * Form 2210 Part IV regular method: each installment is a quarter of the required annual
+   * payment, withholding is treated as paid in equal amounts on the due dates, and each
+   * payment goes to the earliest underpayment first. Underpayments accrue interest until
+   * paid or the following April 15.
+   */
+  private calculateRegularMethod(
+    requiredAnnualPayment: number,
+    withholding: number,
+    payments: { date: string; amount: number }[],
+    dueDates: string[],
+    endDate: string,
+    rates: FederalUnderpaymentRate[]
+  ): Form2210Installment[] {
+    const required = requiredAnnualPayment / dueDates.length;
+    const events = [
+      ...payments,
+      ...dueDates.map((dueDate) => ({ date: dueDate, amount: withholding / dueDates.length })),
+    ].sort((a, b) => a.date.localeCompare(b.date));
+
+    const installments: Form2210Installment[] = dueDates.map((dueDate) => ({
+      dueDate,
+      required: round(required),
+      paid: 0,
+      underpayment: 0,
+      penalty: 0,
+    }));
+    const outstanding: { index: number; amount: number }[] = [];
+    let credit = 0;
+    let next = 0;
+
+    // Pay down the earliest underpayments first and return what is left over
+    const applyPayment = (date: string, paid: number): number => {
+      let remaining = paid;
+      while (remaining > 0 && outstanding.length > 0) {
+        const underpayment = outstanding[0];
+        const used = Math.min(underpayment.amount, remaining);
+        installments[underpayment.index].penalty += used * this.penaltyFactor(dueDates[underpayment.index], date, rates);
+        underpayment.amount -= used;
+        remaining -= used;
+        if (underpayment.amount < 0.005) outstanding.shift();
+      }
+      return remaining;
+    };
+
+    dueDates.forEach((dueDate, index) => {
+      while (next < events.length && events[next].date <= dueDate) {
+        credit += applyPayment(events[next].date, events[next].amount);
+        next++;
+      }
+      const applied = Math.min(credit, required);
+      credit -= applied;
+      installments[index].paid = round(applied);
+      installments[index].underpayment = round(required - applied);
+      if (required - applied > 0.005) {
+        outstanding.push({ index, amount: required - applied });
+      }
+    });
+
+    // Payments after the last due date, then whatever is still unpaid at April 15
+    for (; next < events.length; next++) {
+      applyPayment(events[next].date < endDate ? events[next].date : endDate, events[next].amount);
+    }
+    applyPayment(endDate, Infinity);
+
+    return installments.map((installment) => ({ ...installment, penalty: round(installment.penalty) }));
+  }
+
+  /**
+   * Form 2210: the required annual payment is the smaller of 90% of this year's tax or
+   * 100% (110% for higher incomes) of last year's. The penalty uses the short method when
+   * allowed and the regular method otherwise.
+   */
+  async calculateForm2210(input: Form2210Input, year: number): Promise<Form2210Result> {
+    const dueDates = this.getDueDates(year);
+    const endDate = `${year + 1}-04-15`;
+    const payments = this.federalPayments(input.payments, year);
+
+    // Part I - required annual payment
+    const line1 = round(input.taxAfterCredits);
+    const line2 = round(input.otherTaxes);
+    const line3 = round(input.refundableCredits);
+    const line4 = round(Math.max(0, line1 + line2 - line3));
+    const line5 = round(line4 * this.CURRENT_YEAR_SAFE_HARBOR_RATE);
+    const line6 = round(input.withholding);
+    const line7 = round(line4 - line6);
+    const priorYearRate = this.getPriorYearSafeHarborRate(input.filingStatus, input.priorYearAgi);
+    const line8 = input.priorYearTax !== null ? round(Math.max(0, input.priorYearTax) * priorYearRate) : null;
+    const line9 = line8 !== null ? Math.min(line5, line8) : line5;
+    const estimatedPayments = round(payments.reduce((sum, payment) => sum + payment.amount, 0));
+
+    const partOne: Form2210Line[] = [
+      { line: "1", description: "Tax after credits (Form 1040 line 22)", amount: line1 },
+      { line: "2", description: "Other taxes (Schedule 2)", amount: line2 },
+      { line: "3", description: "Refundable credits", amount: line3 },
+      { line: "4", description: "Current year tax (lines 1 plus 2 minus 3)", amount: line4 },
+      { line: "5", description: "Multiply line 4 by 90%", amount: line5 },
+      { line: "6", description: "Withholding taxes", amount: line6 },
+      { line: "7", description: "Subtract line 6 from line 4", amount: line7 },
+      ...(line8 !== null
+        ? [{ line: "8", description: `Prior year tax${priorYearRate > 1 ? " (110% for prior-year AGI over the limit)" : ""}`, amount: line8 }]
+        : []),
+      { line: "9", description: "Required annual payment (smaller of line 5 or line 8)", amount: line9 },
+    ];
+
+    let exceptionReason: string | null = null;
+    if (line7 < this.PENALTY_THRESHOLD) {
+      exceptionReason = "Tax after withholding is less than $1,000";
+    } else if (input.priorYearTax === 0) {
+      exceptionReason = "No tax liability for the prior year";
+    } else if (line6 >= line9) {
+      exceptionReason = "Withholding covers the required annual payment";
+    }
+
+    const result = {
+      currentYearTax: line4,
+      currentYearSafeHarbor: line5,
+      withholding: line6,
+      priorYearSafeHarbor: line8,
+      requiredAnnualPayment: line9,
+      estimatedPayments,
+    };
+
+    if (exceptionReason) {
+      return { ...result, underpayment: 0, penalty: 0, method: "none", exceptionReason, installments: [], lines: partOne };
+    }
+
+    const rates = await this.getRates(year);
+    const line13 = round(line6 + estimatedPayments);
+    const line14 = round(Math.max(0, line9 - line13));
+
+    if (this.canUseShortMethod(payments, dueDates)) {
+      // Part III - the underpayment is spread evenly over the four installments
+      const factor = dueDates.reduce((sum, dueDate) => sum + this.penaltyFactor(dueDate, endDate, rates) / dueDates.length, 0);
+      const line15 = round(line14 * factor);
+      const installments = dueDates.map((dueDate) => ({
+        dueDate,
+        required: round(line9 / dueDates.length),
+        paid: round(line13 / dueDates.length),
+        underpayment: round(line14 / dueDates.length),
+        penalty: round(line14 / dueDates.length * this.penaltyFactor(dueDate, endDate, rates)),
+      }));
+
+      return {
+        ...result,
+        underpayment: line14,
+        penalty: line15,
+        method: "short",
+        exceptionReason: line14 > 0 ? null : "Payments cover the required annual payment",
+        installments,
+        lines: [
+          ...partOne,
+          { line: "10", description: "Required annual payment (line 9)", amount: line9 },
+          { line: "11", description: "Withholding taxes (line 6)", amount: line6 },
+          { line: "12", description: "Estimated tax payments", amount: estimatedPayments },
+          { line: "13", description: "Add lines 11 and 12", amount: line13 },
+          { line: "14", description: "Total underpayment for the year (line 10 minus line 13)", amount: line14 },
+          { line: "15", description: `Multiply line 14 by ${factor.toFixed(5)}`, amount: line15 },
+          { line: "17", description: "Penalty (Form 1040 line 38)", amount: line15 },
+        ],
+      };
+    }
+
+    const installments = this.calculateRegularMethod(line9, line6, payments, dueDates, endDate, rates);
+    const underpayment = round(installments.reduce((sum, installment) => sum + installment.underpayment, 0));
+    const penalty = round(installments.reduce((sum, installment) => sum + installment.penalty, 0));
+
+    return {
+      ...result,
+      underpayment,
+      penalty,
+      method: "regular",
+      exceptionReason: underpayment > 0 ? null : "Each installment was paid on time",
+      installments,
+      lines: [
+        ...partOne,
+        { line: "12", description: "Estimated tax payments", amount: estimatedPayments },
+        { line: "18", description: "Underpayments by installment (Part IV, Section A)", amount: underpayment },
+        { line: "19", description: "Penalty (Form 1040 line 38)", amount: penalty },
+      ],
+    };
+  }
+
+  /**
+   * Form 1040-ES Estimated Tax Worksheet for the year after a return. Tax is figured with
+   * the Qualified Dividends and Capital Gain Tax Worksheet on the plan year's brackets and
+   * standard deduction, projected from the latest configured year when the plan year isn't
+   * configured yet. The quarterly payment is a quarter of the smaller safe harbor less
+   * expected withholding; an overpayment applied from the return goes to the earliest vouchers.
+   */
+  async calculateForm1040Es(input: Form1040EsInput, planYear: number): Promise<Form1040EsResult> {
+    const taxData = await taxConfigService.getProjectedTaxCalculationData(
+      planYear,
+      input.filingStatus,
+      this.PROJECTED_INFLATION_RATE
+    );
+    const standardDeduction = amount(taxData.federalStandardDeduction?.amount);
+
+    const line1 = round(Math.max(0, input.agi));
+    const line2a = round(Math.max(standardDeduction, input.itemizedDeductions));
+    const line3 = round(Math.max(0, line1 - line2a));
+    const worksheet = await capitalGainsTaxService.calculateWorksheet(
+      line3,
+      input.qualifiedDividends,
+      input.netCapitalGain,
+      input.filingStatus,
+      planYear,
+      taxData
+    );
+    const line4 = worksheet.tax;
+    const line5 = round(input.alternativeMinimumTax);
+    const line6 = round(line4 + line5);
+    const line7 = round(Math.min(line6, input.credits));
+    const line8 = round(line6 - line7);
+    const line10 = round(input.otherTaxes);
+    const line11a = round(line8 + line10);
+    const line11b = round(input.refundableCredits);
+    const line11c = round(Math.max(0, line11a - line11b));
+    const line12a = round(line11c * this.CURRENT_YEAR_SAFE_HARBOR_RATE);
+    const priorYearRate = this.getPriorYearSafeHarborRate(input.filingStatus, input.priorYearAgi);
+    const line12b = round(Math.max(0, input.priorYearTax) * priorYearRate);
+    const line12c = Math.min(line12a, line12b);
+    const line13 = round(input.withholding);
+    const line14a = round(Math.max(0, line12c - line13));
+    const line14b = round(line11c - line13);
+    const paymentsRequired = line14b >= this.PENALTY_THRESHOLD && line14a > 0;
+    const line15 = paymentsRequired ? round(line14a / 4) : 0;
+
+    let overpayment = round(Math.max(0, input.overpaymentApplied));
+    const vouchers = this.getDueDates(planYear).map((dueDate, index) => {
+      const applied = Math.min(overpayment, line15);
+      overpayment = round(overpayment - applied);
+      return { voucher: index + 1, dueDate, amount: round(line15 - applied) };
+    });
+
+    return {
+      projectedAgi: line1,
+      deduction: line2a,
+      taxableIncome: line3,
+      tax: line6,
+      credits: line7,
+      otherTaxes: line10,
+      estimatedTax: line11c,
+      currentYearSafeHarbor: line12a,
+      priorYearSafeHarbor: line12b,
+      requiredAnnualPayment: line12c,
+      withholding: line13,
+      annualPaymentDue: line14a,
+      quarterlyPayment: line15,
+      paymentsRequired,
+      vouchers,
+      lines: [
+        { line: "1", description: "Expected adjusted gross income", amount: line1 },
+        { line: "2a", description: line2a > standardDeduction ? "Itemized deductions" : "Standard deduction", amount: line2a },
+        { line: "3", description: "Subtract line 2a from line 1", amount: line3 },
+        { line: "4", description: "Tax on line 3 (Qualified Dividends and Capital Gain Tax Worksheet)", amount: line4 },
+        { line: "5", description: "Alternative minimum tax", amount: line5 },
+        { line: "6", description: "Add lines 4 and 5", amount: line6 },
+        { line: "7", description: "Credits", amount: line7 },
+        { line: "8", description: "Subtract line 7 from line 6", amount: line8 },
+        { line: "10", description: "Self-employment and other taxes", amount: line10 },
+        { line: "11a", description: "Add lines 8 and 10", amount: line11a },
+        { line: "11b", description: "Refundable credits", amount: line11b },
+        { line: "11c", description: "Total estimated tax", amount: line11c },
+        { line: "12a", description: "Multiply line 11c by 90%", amount: line12a },
+        { line: "12b", description: `Required annual payment based on prior year's tax${priorYearRate > 1 ? " (110%)" : ""}`, amount: line12b },
+        { line: "12c", description: "Required annual payment to avoid a penalty (smaller of 12a or 12b)", amount: line12c },
+        { line: "13", description: "Expected income tax withheld", amount: line13 },
+        { line: "14a", description: "Subtract line 13 from line 12c", amount: line14a },
+        { line: "14b", description: "Subtract line 13 from line 11c", amount: line14b },
+        { line: "15", description: paymentsRequired ? "Quarterly estimated tax payment" : "No estimated payments required (line 14a is zero or line 14b is under $1,000)", amount: line15 },
+      ],
+    };
+  }
+
+  /**
+   * Plan next year's estimated tax from a calculated return and save it with the
+   * taxpayer's entries, replacing any earlier plan
+   */
+  async saveForm1040EsPlan(
+    taxReturn: TaxReturn,
+    form1040: Form1040,
+    entries: Pick<InsertForm1040Es, "expectedAgi" | "expectedWithholding" | "overpaymentApplied">
+  ): Promise<Form1040Es> {
+    const credits = form1040.creditsBreakdown as CreditsBreakdown | null;
+    const planYear = taxReturn.taxYear + 1;
+    // Qualified dividends and net capital gain are assumed to recur at this return's amounts
+    const qualifiedDividendsWorksheet = await storage.getQualifiedDividendsWorksheetByTaxReturnId(taxReturn.id);
+    const result = await this.calculateForm1040Es({
+      filingStatus: taxReturn.filingStatus || "single",
+      agi: entries.expectedAgi ? amount(entries.expectedAgi) : amount(form1040.adjustedGrossIncome),
+      qualifiedDividends: amount(form1040.qualifiedDividends),
+      netCapitalGain: amount(qualifiedDividendsWorksheet?.netCapitalGain),
+      itemizedDeductions: form1040.deductionType === "itemized" ? amount(form1040.itemizedDeductions) : 0,
+      alternativeMinimumTax: amount(form1040.alternativeMinimumTax),
+      credits: credits?.totalNonrefundableCredits || 0,
+      otherTaxes: amount(form1040.otherTaxes),
+      refundableCredits: credits?.totalRefundableCredits || 0,
+      withholding: entries.expectedWithholding ? amount(entries.expectedWithholding) : amount(form1040.federalWithheld),
+      priorYearTax: amount(form1040.totalTax) - (credits?.totalRefundableCredits || 0),
+      priorYearAgi: amount(form1040.adjustedGrossIncome),
+      overpaymentApplied: amount(entries.overpaymentApplied),
+    }, planYear);
+
+    const planData = {
+      taxReturnId: taxReturn.id,
+      planYear,
+      expectedAgi: entries.expectedAgi || null,
+      expectedWithholding: entries.expectedWithholding || null,
+      overpaymentApplied: entries.overpaymentApplied || "0",
+      projectedAgi: result.projectedAgi.toString(),
+      deduction: result.deduction.toString(),
+      taxableIncome: result.taxableIncome.toString(),
+      tax: result.tax.toString(),
+      credits: result.credits.toString(),
+      otherTaxes: result.otherTaxes.toString(),
+      estimatedTax: result.estimatedTax.toString(),
+      currentYearSafeHarbor: result.currentYearSafeHarbor.toString(),
+      priorYearSafeHarbor: result.priorYearSafeHarbor.toString(),
+      requiredAnnualPayment: result.requiredAnnualPayment.toString(),
+      withholding: result.withholding.toString(),
+      annualPaymentDue: result.annualPaymentDue.toString(),
+      quarterlyPayment: result.quarterlyPayment.toString(),
+      paymentsRequired: result.paymentsRequired,
+      vouchers: result.vouchers,
+      lines: result.lines,
+    };
+
+    const existing = await storage.getForm1040EsByTaxReturnId(taxReturn.id);
+    if (existing) {
+      return await storage.updateForm1040Es(existing.id, planData);
+    }
+    return await storage.createForm1040Es(planData);
+  }
+
+  /**
+   * iCalendar file with an all-day event on each voucher's due date
+   */
+  buildPaymentCalendar(vouchers: Form1040EsVoucher[], planYear: number): string {
+    const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const events = vouchers.flatMap((voucher) => {
+      const start = voucher.dueDate.replace(/-/g, "");
+      const end = toDate(toTime(voucher.dueDate) + DAY_MS).replace(/-/g, "");
+      return [
+        "BEGIN:VEVENT",
+        `UID:1040es-${planYear}-${voucher.voucher}@smarttaxes`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${start}`,
+        `DTEND;VALUE=DATE:${end}`,
+        `SUMMARY:${planYear} estimated tax payment ${voucher.voucher} of 4: $${voucher.amount.toFixed(2)}`,
+        `DESCRIPTION:Form 1040-ES voucher ${voucher.voucher} is due. Pay at irs.gov/payments or mail the voucher with a check.`,
+        "END:VEVENT",
+      ];
+    });
+
+    return [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//SmartTaxes//1040-ES//EN",
+      "CALSCALE:GREGORIAN",
+      ...events,
+      "END:VCALENDAR",
+    ].join("\r\n") + "\r\n";
+  }
+}
+
+// Export singleton instance
+export const estimatedTaxService = new EstimatedTaxService();
@@ -0,0 +1,214 @@
+import { storage } from "../storage";
+import { FOREIGN_TAX_CREDIT_METHODS, type ForeignTaxCarryover, type Form1099Div } from "@shared/schema";
+
+export interface Form1116Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+// Unused foreign tax, by the year it was paid or accrued
+export interface ForeignTaxCarryoverEntry {
+  taxYear: number;
+  amount: number;
+}
+
+export interface ForeignTaxCreditInput {
+  filingStatus: string;
+  dividends: Form1099Div[];
+  foreignSourceIncome: number | null; // Taxpayer override for line 1a
+  grossIncome: number; // Form 1040 line 9
+  deduction: number; // Form 1040 line 12: standard or itemized
+  taxableIncome: number; // Form 1040 line 15
+  tax: number; // Form 1040 line 16
+  carryovers: ForeignTaxCarryoverEntry[]; // Into this year, oldest first
+}
+
+export interface ForeignTaxCreditResult {
+  method: string;
+  foreignTaxPaid: number;
+  grossForeignIncome: number;
+  apportionedDeductions: number;
+  netForeignIncome: number;
+  carryoverFromPriorYears: number;
+  taxableIncome: number;
+  taxBeforeCredits: number;
+  creditLimitation: number;
+  foreignTaxCredit: number; // Schedule 3 line 1
+  carryoverToNextYear: number;
+  expiredCarryover: number;
+  carryovers: ForeignTaxCarryoverEntry[]; // Into next year, oldest first
+  lines: Form1116Line[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class ForeignTaxCreditService {
+  // Simplified election: no Form 1116 when all foreign tax is on payee statements and
+  // totals no more than $300 ($600 married filing jointly)
+  private readonly SIMPLIFIED_LIMIT = 300;
+  private readonly SIMPLIFIED_LIMIT_MARRIED_JOINT = 600;
+  // Unused foreign tax carries forward 10 years (IRC 904(c))
+  private readonly CARRYFORWARD_YEARS = 10;
+
+  /**
+   * Read a carryovers jsonb column, oldest year first
+   */
+  parseCarryovers(value: unknown): ForeignTaxCarryoverEntry[] {
+    if (!Array.isArray(value)) return [];
+    return (value as Partial<ForeignTaxCarryoverEntry>[])
+      .filter((entry) => entry && Number.isInteger(entry.taxYear) && Number(entry.amount) > 0)
+      .map((entry) => ({ taxYear: Number(entry.taxYear), amount: round(Number(entry.amount)) }))
+      .sort((a, b) => a.taxYear - b.taxYear);
+  }
+
+  /**
+   * Get the carryovers coming into a tax year (i.e. the ones left after year - 1),
+   * dropping any that are past the carryforward period
+   */
+  async getCarryoversIntoYear(userId: string, year: number): Promise<ForeignTaxCarryoverEntry[]> {
+    const prior = await storage.getForeignTaxCarryover(userId, year - 1);
+    return this.parseCarryovers(prior?.carryovers)
+      .filter((entry) => entry.taxYear >= year - this.CARRYFORWARD_YEARS);
+  }
+
+  /**
+   * Foreign tax credit for passive category income reported on 1099-DIV. Taxpayers under
+   * the simplified election limit take the smaller of the foreign tax or the tax unless
+   * Form 1116 allows more, which only happens when it can use a carryover. The Form 1116
+   * limitation relies on the qualified dividends adjustment exception (line 18 is not
+   * adjusted for capital gain rate differentials).
+   */
+  calculateForeignTaxCredit(input: ForeignTaxCreditInput, year: number): ForeignTaxCreditResult {
+    const payersWithForeignTax = input.dividends.filter((div) => amount(div.foreignTaxPaid) > 0);
+    const foreignTaxPaid = round(payersWithForeignTax.reduce((sum, div) => sum + amount(div.foreignTaxPaid), 0));
+    const tax = Math.max(0, input.tax);
+
+    // Part I - taxable income from sources outside the United States
+    const line1a = round(input.foreignSourceIncome ?? payersWithForeignTax.reduce((sum, div) => sum + amount(div.ordinaryDividends), 0));
+    const line3c = round(input.deduction);
+    const line3e = round(Math.max(input.grossIncome, line1a));
+    const line3f = line3e > 0 ? Math.round((line1a / line3e) * 10000) / 10000 : 0;
+    const line3g = round(line3c * line3f);
+    const line6 = line3g;
+    const line7 = round(line1a - line6);
+
+    // Part III - figuring the credit
+    const carryovers = input.carryovers.filter((entry) => entry.taxYear >= year - this.CARRYFORWARD_YEARS);
+    const line9 = foreignTaxPaid;
+    const line10 = round(carryovers.reduce((sum, entry) => sum + entry.amount, 0));
+    const line14 = round(line9 + line10);
+    const line17 = Math.max(0, line7);
+    const line18 = round(Math.max(0, input.taxableIncome));
+    const line19 = line18 > 0 ? Math.min(1, Math.round((line17 / line18) * 10000) / 10000) : 0;
+    const line20 = round(tax);
+    const line21 = round(line20 * line19);
+    const line24 = round(Math.min(line14, line21));
+
+    const simplifiedLimit = input.filingStatus === "married_joint"
+      ? this.SIMPLIFIED_LIMIT_MARRIED_JOINT
+      : this.SIMPLIFIED_LIMIT;
+    const simplifiedCredit = round(Math.min(foreignTaxPaid, tax));
+    let method: string = FOREIGN_TAX_CREDIT_METHODS.NONE;
+    if (foreignTaxPaid > 0 && foreignTaxPaid <= simplifiedLimit && simplifiedCredit > line24) {
+      method = FOREIGN_TAX_CREDIT_METHODS.SIMPLIFIED;
+    } else if (line14 > 0) {
+      method = FOREIGN_TAX_CREDIT_METHODS.FORM_1116;
+    }
+
+    // Under the simplified election nothing is carried to or from the year, but older
+    // carryovers keep aging. With Form 1116 the current year's tax is used first, then
+    // the carryovers oldest first.
+    let foreignTaxCredit = 0;
+    let remaining = carryovers.map((entry) => ({ ...entry }));
+    if (method === FOREIGN_TAX_CREDIT_METHODS.SIMPLIFIED) {
+      foreignTaxCredit = simplifiedCredit;
+    } else if (method === FOREIGN_TAX_CREDIT_METHODS.FORM_1116) {
+      foreignTaxCredit = line24;
+      const usedCurrent = Math.min(foreignTaxPaid, line24);
+      let usedCarryover = round(line24 - usedCurrent);
+      remaining = remaining.map((entry) => {
+        const used = Math.min(entry.amount, usedCarryover);
+        usedCarryover = round(usedCarryover - used);
+        return { ...entry, amount: round(entry.amount - used) };
+      });
+      if (foreignTaxPaid > usedCurrent) {
+        remaining.push({ taxYear: year, amount: round(foreignTaxPaid - usedCurrent) });
+      }
+    }
+
+    // The oldest year's carryover can't be used after this year
+    const expiredCarryover = round(remaining
+      .filter((entry) => entry.taxYear <= year - this.CARRYFORWARD_YEARS)
+      .reduce((sum, entry) => sum + entry.amount, 0));
+    const carryoversToNextYear = remaining
+      .filter((entry) => entry.taxYear > year - this.CARRYFORWARD_YEARS && entry.amount > 0);
+    const carryoverToNextYear = round(carryoversToNextYear.reduce((sum, entry) => sum + entry.amount, 0));
+
+    const lines: Form1116Line[] = method === FOREIGN_TAX_CREDIT_METHODS.SIMPLIFIED
+      ? [
+          { line: "8", description: "Foreign tax paid (1099-DIV box 7)", amount: foreignTaxPaid },
+          { line: "35", description: `Foreign tax credit, simplified election (foreign tax of $${simplifiedLimit} or less)`, amount: foreignTaxCredit },
+        ]
+      : [
+          { line: "1a", description: input.foreignSourceIncome !== null ? "Gross foreign-source dividends (as entered)" : "Gross foreign-source dividends (1099-DIV box 1a)", amount: line1a },
+          { line: "3c", description: "Standard or itemized deduction", amount: line3c },
+          { line: "3d", description: "Gross foreign-source income", amount: line1a },
+          { line: "3e", description: "Gross income from all sources", amount: line3e },
+          { line: "3f", description: "Divide line 3d by line 3e", amount: line3f },
+          { line: "3g", description: "Multiply line 3c by line 3f", amount: line3g },
+          { line: "6", description: "Total deductions and losses", amount: line6 },
+          { line: "7", description: "Taxable foreign-source income (line 1a minus line 6)", amount: line7 },
+          { line: "9", description: "Foreign taxes paid (1099-DIV box 7)", amount: line9 },
+          { line: "10", description: "Carryover from prior years", amount: line10 },
+          { line: "14", description: "Foreign taxes available for credit", amount: line14 },
+          { line: "17", description: "Taxable foreign-source income (if zero or less, no credit)", amount: line17 },
+          { line: "18", description: "Taxable income (Form 1040 line 15)", amount: line18 },
+          { line: "19", description: "Divide line 17 by line 18 (not more than 1)", amount: line19 },
+          { line: "20", description: "Tax (Form 1040 line 16)", amount: line20 },
+          { line: "21", description: "Credit limitation (line 20 times line 19)", amount: line21 },
+          { line: "24", description: "Smaller of line 14 or line 21", amount: line24 },
+          { line: "35", description: "Foreign tax credit (Schedule 3 line 1)", amount: foreignTaxCredit },
+        ];
+
+    return {
+      method,
+      foreignTaxPaid,
+      grossForeignIncome: line1a,
+      apportionedDeductions: line6,
+      netForeignIncome: line7,
+      carryoverFromPriorYears: line10,
+      taxableIncome: line18,
+      taxBeforeCredits: line20,
+      creditLimitation: line21,
+      foreignTaxCredit,
+      carryoverToNextYear,
+      expiredCarryover,
+      carryovers: carryoversToNextYear,
+      lines,
+    };
+  }
+
+  /**
+   * Persist the carryovers left after a tax year, replacing any earlier value
+   */
+  async saveCarryover(userId: string, taxYear: number, carryovers: ForeignTaxCarryoverEntry[]): Promise<ForeignTaxCarryover> {
+    const carryoverData = {
+      userId,
+      taxYear,
+      carryovers,
+      totalCarryover: round(carryovers.reduce((sum, entry) => sum + entry.amount, 0)).toString(),
+      isManualEntry: false,
+    };
+
+    const existing = await storage.getForeignTaxCarryover(userId, taxYear);
+    if (existing) {
+      return await storage.updateForeignTaxCarryover(existing.id, carryoverData);
+    }
+    return await storage.createForeignTaxCarryover(carryoverData);
+  }
+}
+
+// Export singleton instance
+export const foreignTaxCreditService = new ForeignTaxCreditService();
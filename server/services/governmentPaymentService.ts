@@ -0,0 +1,178 @@
+import { storage } from "../storage";
+import { taxConfigService } from "./taxConfigService";
+import type { Form1099G, StateRefundWorksheet } from "@shared/schema";
+
+export interface StateRefundWorksheetLine {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface GovernmentPaymentsSummary {
+  unemploymentCompensation: number; // Box 1: Schedule 1 line 7
+  stateLocalRefunds: number; // Box 2
+  federalWithheld: number; // Box 4: Form 1040 line 25b
+}
+
+// What the prior-year return deducted, from the return on file or entered by the taxpayer
+export interface PriorYearDeductions {
+  itemized: boolean | null; // Null when the prior-year return is unknown
+  deductedSalesTax: boolean; // Schedule A line 5a election: sales tax instead of income tax
+  itemizedDeductions: number; // Schedule A line 17
+  standardDeduction: number;
+  stateLocalTaxes: number; // Schedule A line 5d
+  saltDeduction: number; // Schedule A line 5e
+}
+
+export type PriorYearSource = "return" | "entered";
+
+export interface StateRefundWorksheetResult {
+  refunds: number; // Line 1
+  taxableRefunds: number; // Schedule 1 line 1
+  lines: StateRefundWorksheetLine[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class GovernmentPaymentService {
+  /**
+   * Total the 1099-G boxes that reach the federal return
+   */
+  summarizePayments(forms: Form1099G[]): GovernmentPaymentsSummary {
+    const sum = (key: "unemploymentCompensation" | "stateLocalRefund" | "federalWithheld") =>
+      round(forms.reduce((total, form) => total + amount(form[key]), 0));
+
+    return {
+      unemploymentCompensation: sum("unemploymentCompensation"),
+      stateLocalRefunds: sum("stateLocalRefund"),
+      federalWithheld: sum("federalWithheld"),
+    };
+  }
+
+  /**
+   * Prior-year deductions for the refund worksheet: the prior-year return when it was
+   * prepared here, otherwise what the taxpayer entered on the worksheet
+   */
+  async getPriorYearDeductions(
+    userId: string,
+    year: number,
+    entered?: StateRefundWorksheet
+  ): Promise<{ deductions: PriorYearDeductions; source: PriorYearSource | null }> {
+    const [priorYearReturn] = await storage.getTaxReturnsByUserIdAndYear(userId, year - 1);
+    const priorYear1040 = priorYearReturn ? await storage.getForm1040ByTaxReturnId(priorYearReturn.id) : undefined;
+
+    if (priorYear1040) {
+      const itemized = priorYear1040.deductionType === "itemized";
+      const scheduleA = itemized ? await storage.getScheduleAByTaxReturnId(priorYearReturn.id) : undefined;
+      const incomeOrSalesTax = scheduleA?.useSalesTax
+        ? amount(scheduleA.stateLocalSalesTax)
+        : amount(scheduleA?.stateLocalIncomeTax);
+
+      // Line 12 holds the standard deduction only when it was taken
+      let standardDeduction = amount(priorYear1040.standardDeduction);
+      if (itemized) {
+        const taxData = await taxConfigService
+          .getTaxCalculationData(year - 1, priorYearReturn.filingStatus || "single")
+          .catch(() => null);
+        standardDeduction = taxData?.federalStandardDeduction
+          ? Number(taxData.federalStandardDeduction.amount)
+          : amount(entered?.priorYearStandardDeduction);
+      }
+
+      return {
+        deductions: {
+          itemized,
+          deductedSalesTax: !!scheduleA?.useSalesTax,
+          itemizedDeductions: amount(priorYear1040.itemizedDeductions),
+          standardDeduction,
+          stateLocalTaxes: round(incomeOrSalesTax + amount(scheduleA?.realEstateTaxes) + amount(scheduleA?.personalPropertyTaxes)),
+          saltDeduction: round(amount(scheduleA?.saltDeduction) - amount(scheduleA?.otherTaxes)),
+        },
+        source: "return",
+      };
+    }
+
+    const known = entered?.priorYearItemized !== null && entered?.priorYearItemized !== undefined;
+    return {
+      deductions: {
+        itemized: known ? !!entered?.priorYearItemized : null,
+        deductedSalesTax: false,
+        itemizedDeductions: amount(entered?.priorYearItemizedDeductions),
+        standardDeduction: amount(entered?.priorYearStandardDeduction),
+        stateLocalTaxes: amount(entered?.priorYearStateLocalTaxes),
+        saltDeduction: amount(entered?.priorYearSaltDeduction),
+      },
+      source: known ? "entered" : null,
+    };
+  }
+
+  /**
+   * State and Local Income Tax Refund Worksheet (Schedule 1 line 1 instructions). Under the
+   * tax benefit rule a refund is income only to the extent the prior-year deduction for it
+   * lowered your tax: none of it is taxable if you took the standard deduction or deducted
+   * sales tax, and the part of the taxes the SALT limit kept you from deducting comes back
+   * tax-free. Without the prior-year return the whole refund is included until the taxpayer
+   * says otherwise.
+   */
+  calculateRefundWorksheet(refunds: number, prior: PriorYearDeductions): StateRefundWorksheetResult {
+    const line1 = round(Math.max(0, refunds));
+
+    if (prior.itemized === null) {
+      return {
+        refunds: line1,
+        taxableRefunds: line1,
+        lines: [
+          { line: "1", description: "State and local income tax refunds (1099-G box 2)", amount: line1 },
+          { line: "9", description: "Taxable refunds: last year's deductions are not on file, so the whole refund is included (Schedule 1 line 1)", amount: line1 },
+        ],
+      };
+    }
+
+    // Nothing was deducted for the refunded tax if the standard deduction or sales tax was used
+    if (!prior.itemized || prior.deductedSalesTax) {
+      return {
+        refunds: line1,
+        taxableRefunds: 0,
+        lines: [
+          { line: "1", description: "State and local income tax refunds (1099-G box 2)", amount: line1 },
+          {
+            line: "9",
+            description: prior.itemized
+              ? "Taxable refunds: none, you deducted sales tax instead of income tax last year (Schedule 1 line 1)"
+              : "Taxable refunds: none, you took the standard deduction last year (Schedule 1 line 1)",
+            amount: 0,
+          },
+        ],
+      };
+    }
+
+    const line2 = round(prior.stateLocalTaxes);
+    const line3 = round(prior.saltDeduction);
+    const line4 = round(Math.min(line1, Math.max(0, line2 - line3)));
+    const line5 = round(line1 - line4);
+    const line6 = round(prior.itemizedDeductions);
+    const line7 = round(prior.standardDeduction);
+    const line8 = round(Math.max(0, line6 - line7));
+    const line9 = round(Math.min(line5, line8));
+
+    return {
+      refunds: line1,
+      taxableRefunds: line9,
+      lines: [
+        { line: "1", description: "State and local income tax refunds (1099-G box 2)", amount: line1 },
+        { line: "2", description: "Prior-year state and local taxes (Schedule A line 5d)", amount: line2 },
+        { line: "3", description: "Prior-year deduction for those taxes after the SALT limit (Schedule A line 5e)", amount: line3 },
+        { line: "4", description: "Refund of taxes you could not deduct: line 2 minus line 3, not more than line 1", amount: line4 },
+        { line: "5", description: "Line 1 minus line 4", amount: line5 },
+        { line: "6", description: "Prior-year itemized deductions (Schedule A line 17)", amount: line6 },
+        { line: "7", description: "Prior-year standard deduction", amount: line7 },
+        { line: "8", description: "Line 6 minus line 7 (none of the refund is taxable if zero)", amount: line8 },
+        { line: "9", description: "Taxable refunds: smaller of line 5 or line 8 (Schedule 1 line 1)", amount: line9 },
+      ],
+    };
+  }
+}
+
+// Export singleton instance
+export const governmentPaymentService = new GovernmentPaymentService();
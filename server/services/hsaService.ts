@@ -0,0 +1,283 @@
+import { taxConfigService } from "./taxConfigService";
+import { earnedIncomeCreditService } from "./earnedIncomeCreditService";
+import {
+  HSA_COVERAGE_TYPES,
+  HSA_OWNERS,
+  type FederalHsaLimits,
+  type Form1099Sa,
+  type Form5498Sa,
+  type Form8889,
+  type HsaContribution,
+  type UserProfile,
+} from "@shared/schema";
+
+export interface Form8889Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface Form8889Input {
+  owner: string;
+  coverageType: string;
+  monthsCovered: number;
+  qualifiedMedicalExpenses: number | null; // Null until the taxpayer enters line 15
+  sharesFamilyLimit: boolean; // Both spouses have family coverage and split line 5
+  age: number | null; // At the end of the tax year
+  disabled: boolean;
+  contributions: HsaContribution[];
+  w2EmployerContributions: number; // W-2 box 12 code W
+  distributions: Form1099Sa[];
+  statements: Form5498Sa[];
+}
+
+export interface Form8889Result {
+  owner: string;
+  coverageType: string;
+  monthsCovered: number;
+  contributionSource: "ledger" | "5498-SA";
+  personalContributions: number;
+  contributionLimit: number;
+  catchUpContribution: number;
+  employerContributions: number;
+  hsaDeduction: number;
+  excessContributions: number;
+  excessContributionTax: number;
+  totalDistributions: number;
+  excessWithdrawn: number;
+  qualifiedMedicalExpenses: number | null;
+  taxableDistributions: number;
+  additionalTax: number;
+  warnings: string[];
+  lines: Form8889Line[];
+}
+
+export interface HsaSummary {
+  forms: Form8889Result[];
+  hsaDeduction: number; // Schedule 1 line 13
+  taxableDistributions: number; // Schedule 1 line 8f
+  additionalTax: number; // Schedule 2 line 17c
+  excessContributionTax: number; // Schedule 2 line 8 (Form 5329 Part VII)
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class HsaService {
+  // 1099-SA box 3 codes
+  private readonly EXCESS_CONTRIBUTION_CODE = "2";
+  private readonly ADDITIONAL_TAX_EXCEPTION_CODES = ["3", "4", "6"]; // Disability and death
+  // Form 8889 line 17b: 20% of taxable distributions unless disabled or 65 and older
+  private readonly ADDITIONAL_TAX_RATE = 0.2;
+  private readonly ADDITIONAL_TAX_EXCEPTION_AGE = 65;
+  // Form 5329 line 49: 6% of excess contributions left in the account
+  private readonly EXCESS_CONTRIBUTION_TAX_RATE = 0.06;
+  private readonly MONTHS_IN_YEAR = 12;
+
+  /**
+   * Load the year's contribution limits
+   */
+  async getLimits(year: number): Promise<FederalHsaLimits> {
+    const limits = await taxConfigService.getHsaLimits(year);
+    if (!limits) {
+      throw new Error(`HSA contribution limits not configured for ${year}`);
+    }
+    return limits;
+  }
+
+  /**
+   * Form 8889 line 2 contributions. The ledger wins when it has personal entries;
+   * otherwise fall back to the trustee's 5498-SA totals less employer contributions.
+   */
+  private personalContributions(
+    contributions: HsaContribution[],
+    statements: Form5498Sa[],
+    employerContributions: number
+  ): { total: number; source: "ledger" | "5498-SA" } {
+    const personal = contributions.filter((contribution) => contribution.source === "personal");
+    if (personal.length > 0 || statements.length === 0) {
+      return { total: round(personal.reduce((sum, contribution) => sum + amount(contribution.amount), 0)), source: "ledger" };
+    }
+    const reported = statements.reduce(
+      (sum, statement) => sum + amount(statement.totalContributions) + amount(statement.followingYearContributions),
+      0
+    );
+    return { total: round(Math.max(0, reported - employerContributions)), source: "5498-SA" };
+  }
+
+  /**
+   * Form 8889 Parts I and II for one account holder, plus the Form 5329 Part VII
+   * excise tax on contributions over the limit
+   */
+  async calculateForm8889(input: Form8889Input, year: number): Promise<Form8889Result> {
+    const limits = await this.getLimits(year);
+    const months = Math.min(Math.max(input.monthsCovered, 0), this.MONTHS_IN_YEAR);
+    const covered = input.coverageType !== HSA_COVERAGE_TYPES.NONE && months > 0;
+    const proration = months / this.MONTHS_IN_YEAR;
+
+    // Part I - contributions and deduction
+    const line9 = round(input.w2EmployerContributions + input.contributions
+      .filter((contribution) => contribution.source === "employer")
+      .reduce((sum, contribution) => sum + amount(contribution.amount), 0));
+    const personal = this.personalContributions(input.contributions, input.statements, line9);
+    const line2 = personal.total;
+    const annualLimit = input.coverageType === HSA_COVERAGE_TYPES.FAMILY
+      ? Number(limits.familyLimit)
+      : Number(limits.selfOnlyLimit);
+    const line3 = covered ? round(annualLimit * proration) : 0;
+    const line5 = line3; // No Archer MSA contributions (line 4)
+    const line6 = input.sharesFamilyLimit ? round(line5 / 2) : line5;
+    const line7 = covered && input.age !== null && input.age >= limits.catchUpAge
+      ? round(Number(limits.catchUpAmount) * proration)
+      : 0;
+    const line8 = round(line6 + line7);
+    const line11 = line9; // No qualified HSA funding distribution (line 10)
+    const line12 = round(Math.max(0, line8 - line11));
+    const line13 = Math.min(line2, line12);
+
+    // Part II - distributions
+    const line14a = round(input.distributions.reduce((sum, form) => sum + amount(form.grossDistribution), 0));
+    const line14b = round(input.distributions
+      .filter((form) => form.distributionCode === this.EXCESS_CONTRIBUTION_CODE)
+      .reduce((sum, form) => sum + amount(form.grossDistribution), 0));
+    const line14c = round(line14a - line14b);
+    // A distribution isn't taxed until line 15 has been entered; most are spent on
+    // medical care, and the 1099-SA alone can't tell
+    const awaitingMedicalExpenses = line14c > 0 && input.qualifiedMedicalExpenses === null;
+    const line15 = round(Math.max(0, input.qualifiedMedicalExpenses ?? 0));
+    const line16 = awaitingMedicalExpenses ? 0 : round(Math.max(0, line14c - line15));
+
+    const exceptedDistributions = input.distributions
+      .filter((form) => this.ADDITIONAL_TAX_EXCEPTION_CODES.includes(form.distributionCode || ""))
+      .reduce((sum, form) => sum + amount(form.grossDistribution), 0);
+    const ownerExcepted = input.disabled || (input.age !== null && input.age >= this.ADDITIONAL_TAX_EXCEPTION_AGE);
+    const subjectToAdditionalTax = ownerExcepted ? 0 : Math.max(0, line16 - exceptedDistributions);
+    const line17b = round(subjectToAdditionalTax * this.ADDITIONAL_TAX_RATE);
+
+    // Form 5329 Part VII: excess left in the account after any code 2 withdrawal,
+    // limited to the account's year-end value when the 5498-SA reports it
+    const excessContributions = round(Math.max(0, line2 + line9 - line8 - line14b));
+    const fairMarketValues = input.statements.filter((statement) => statement.fairMarketValue);
+    const accountValue = fairMarketValues.length > 0
+      ? fairMarketValues.reduce((sum, statement) => sum + amount(statement.fairMarketValue), 0)
+      : Infinity;
+    const excessContributionTax = round(Math.min(excessContributions, accountValue) * this.EXCESS_CONTRIBUTION_TAX_RATE);
+
+    const warnings: string[] = [];
+    if (awaitingMedicalExpenses) {
+      warnings.push(
+        `Enter the qualified medical expenses paid from the HSA (line 15). Until then the $${line14c.toFixed(2)} ` +
+        "of distributions is not taxed on line 16 or line 17b."
+      );
+    }
+
+    const lines: Form8889Line[] = [
+      { line: "2", description: `HSA contributions you made for ${year} (${personal.source === "ledger" ? "contribution ledger" : "Form 5498-SA"})`, amount: line2 },
+      { line: "3", description: `${input.coverageType === HSA_COVERAGE_TYPES.FAMILY ? "Family" : "Self-only"} coverage limit for ${months} month${months === 1 ? "" : "s"}`, amount: line3 },
+      { line: "5", description: "Subtract line 4 from line 3", amount: line5 },
+      { line: "6", description: input.sharesFamilyLimit ? "Your share of the family limit (split equally with your spouse)" : "Amount from line 5", amount: line6 },
+      { line: "7", description: `Additional contribution (age ${limits.catchUpAge} or older)`, amount: line7 },
+      { line: "8", description: "Add lines 6 and 7", amount: line8 },
+      { line: "9", description: "Employer contributions (W-2 box 12 code W)", amount: line9 },
+      { line: "11", description: "Add lines 9 and 10", amount: line11 },
+      { line: "12", description: "Subtract line 11 from line 8", amount: line12 },
+      { line: "13", description: "HSA deduction (smaller of line 2 or line 12)", amount: line13 },
+      { line: "14a", description: "Total distributions (Form 1099-SA box 1)", amount: line14a },
+      { line: "14b", description: "Excess contributions withdrawn (code 2)", amount: line14b },
+      { line: "14c", description: "Subtract line 14b from line 14a", amount: line14c },
+      { line: "15", description: awaitingMedicalExpenses ? "Qualified medical expenses paid (not entered)" : "Qualified medical expenses paid", amount: line15 },
+      { line: "16", description: "Taxable HSA distributions (Schedule 1 line 8f)", amount: line16 },
+      { line: "17b", description: ownerExcepted ? "Additional 20% tax (exception applies)" : "Additional 20% tax (Schedule 2 line 17c)", amount: line17b },
+    ];
+
+    return {
+      owner: input.owner,
+      coverageType: input.coverageType,
+      monthsCovered: months,
+      contributionSource: personal.source,
+      personalContributions: line2,
+      contributionLimit: line6,
+      catchUpContribution: line7,
+      employerContributions: line9,
+      hsaDeduction: line13,
+      excessContributions,
+      excessContributionTax,
+      totalDistributions: line14a,
+      excessWithdrawn: line14b,
+      qualifiedMedicalExpenses: input.qualifiedMedicalExpenses === null ? null : line15,
+      taxableDistributions: line16,
+      additionalTax: line17b,
+      warnings,
+      lines,
+    };
+  }
+
+  /**
+   * One Form 8889 per spouse with an HSA (the spouse only on a joint return). Code W
+   * goes on the Form 8889 of the spouse whose W-2 reports it.
+   */
+  async calculateReturn(params: {
+    filingStatus: string;
+    profile: UserProfile | undefined;
+    coverage: Form8889[];
+    contributions: HsaContribution[];
+    distributions: Form1099Sa[];
+    statements: Form5498Sa[];
+    w2EmployerContributions: Record<string, number>; // W-2 box 12 code W by TAXPAYER_OWNERS
+    year: number;
+  }): Promise<HsaSummary> {
+    const owners = params.filingStatus === "married_joint"
+      ? [HSA_OWNERS.TAXPAYER, HSA_OWNERS.SPOUSE]
+      : [HSA_OWNERS.TAXPAYER];
+    const hasActivity = (owner: string) =>
+      params.coverage.some((form) => form.owner === owner && form.coverageType !== HSA_COVERAGE_TYPES.NONE) ||
+      params.contributions.some((contribution) => contribution.owner === owner) ||
+      params.distributions.some((form) => form.owner === owner) ||
+      params.statements.some((form) => form.owner === owner);
+    // Only a joint return has a spouse's Form 8889, so otherwise every W-2 is the taxpayer's
+    const w2ContributionsFor = (owner: string) => params.filingStatus === "married_joint"
+      ? params.w2EmployerContributions[owner] || 0
+      : owner === HSA_OWNERS.TAXPAYER
+        ? Object.values(params.w2EmployerContributions).reduce((sum, value) => sum + value, 0)
+        : 0;
+    const activeOwners = owners.filter((owner) => hasActivity(owner) || w2ContributionsFor(owner) > 0);
+
+    const coverageFor = (owner: string) => params.coverage.find((form) => form.owner === owner);
+    const bothFamily = activeOwners.length === 2 &&
+      activeOwners.every((owner) => coverageFor(owner)?.coverageType === HSA_COVERAGE_TYPES.FAMILY);
+
+    const forms: Form8889Result[] = [];
+    for (const owner of activeOwners) {
+      const coverage = coverageFor(owner);
+      const isSpouse = owner === HSA_OWNERS.SPOUSE;
+      forms.push(await this.calculateForm8889({
+        owner,
+        coverageType: coverage?.coverageType || HSA_COVERAGE_TYPES.SELF_ONLY,
+        monthsCovered: coverage?.monthsCovered ?? this.MONTHS_IN_YEAR,
+        qualifiedMedicalExpenses: coverage?.qualifiedMedicalExpenses ? amount(coverage.qualifiedMedicalExpenses) : null,
+        sharesFamilyLimit: bothFamily,
+        age: earnedIncomeCreditService.ageAtYearEnd(
+          isSpouse ? params.profile?.spouseDateOfBirth : params.profile?.dateOfBirth,
+          params.year
+        ),
+        disabled: !!(isSpouse ? params.profile?.isSpouseDisabled : params.profile?.isDisabled),
+        contributions: params.contributions.filter((contribution) => contribution.owner === owner),
+        w2EmployerContributions: w2ContributionsFor(owner),
+        distributions: params.distributions.filter((form) => form.owner === owner),
+        statements: params.statements.filter((form) => form.owner === owner),
+      }, params.year));
+    }
+
+    const total = (pick: (form: Form8889Result) => number) => round(forms.reduce((sum, form) => sum + pick(form), 0));
+    return {
+      forms,
+      hsaDeduction: total((form) => form.hsaDeduction),
+      taxableDistributions: total((form) => form.taxableDistributions),
+      additionalTax: total((form) => form.additionalTax),
+      excessContributionTax: total((form) => form.excessContributionTax),
+    };
+  }
+}
+
+// Export singleton instance
+export const hsaService = new HsaService();
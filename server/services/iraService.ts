@@ -0,0 +1,509 @@
+import { storage } from "../storage";
+import { taxConfigService } from "./taxConfigService";
+import { earnedIncomeCreditService } from "./earnedIncomeCreditService";
+import { socialSecurityService } from "./socialSecurityService";
+import {
+  HSA_OWNERS,
+  IRA_ACCOUNT_TYPES,
+  type FederalRetirementSavings,
+  type Form8606,
+  type FormSsa1099,
+  type IraContribution,
+  type UserProfile,
+} from "@shared/schema";
+
+export interface Form8606Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface Form8880Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface IraReturnInput {
+  filingStatus: string;
+  livedApartAllYear: boolean; // Married filing separately and apart all year is treated as single
+  profile: UserProfile | undefined;
+  entries: Form8606[];
+  contributions: IraContribution[];
+  priorYearForms: Form8606[]; // Last year's Form 8606s when that return was prepared here
+  w2RetirementPlanCovered: Record<string, boolean>; // W-2 box 13 by TAXPAYER_OWNERS
+  compensation: number; // Wages plus net earnings from self-employment
+  incomeBeforeIraDistributions: number; // Form 1040 lines 1z, 2b, 3b, 5b, 7 and 8
+  taxableIraDistributions: number; // Line 4b before Form 8606 basis
+  adjustments: number; // Schedule 1 adjustments other than lines 20 and 21
+  socialSecurityStatements: FormSsa1099[];
+  year: number;
+}
+
+export interface Form8606Result {
+  owner: string;
+  age: number | null;
+  coveredByWorkplacePlan: boolean;
+  spouseCovered: boolean;
+  traditionalContributions: number;
+  rothContributions: number;
+  contributionLimit: number;
+  deductionLimit: number;
+  iraDeduction: number; // Schedule 1 line 20
+  rothLimit: number;
+  excessContributions: number;
+  basisSource: "prior-year return" | "entered";
+  nondeductibleContributions: number; // Line 1
+  priorYearBasis: number; // Line 2
+  totalBasis: number; // Line 3
+  nontaxableDistributions: number; // Line 13
+  basisCarryforward: number; // Line 14
+  distributions: number; // Line 7
+  taxableDistributions: number; // Line 15c
+  taxableConversions: number; // Line 18
+  warnings: string[];
+  lines: Form8606Line[];
+}
+
+export interface IraSummary {
+  forms: Form8606Result[];
+  modifiedAgi: number; // MAGI for the IRA deduction
+  rothModifiedAgi: number; // MAGI for Roth contributions
+  iraDeduction: number; // Schedule 1 line 20
+  nontaxableDistributions: number; // Form 8606 line 13, taken out of Form 1040 line 4b
+  taxableIraDistributions: number; // Form 1040 line 4b
+  warnings: string[];
+}
+
+export interface SaversCreditInput {
+  filingStatus: string;
+  profile: UserProfile | undefined;
+  entries: Form8606[];
+  forms: Form8606Result[];
+  w2Deferrals: Record<string, number>; // W-2 box 12 elective and Roth deferrals by TAXPAYER_OWNERS
+  adjustedGrossIncome: number;
+  creditLimit: number; // Tax less the Schedule 3 credits applied before this one
+  year: number;
+}
+
+export interface Form8880Result {
+  taxpayerContributions: number; // Line 3, column (a)
+  spouseContributions: number; // Line 3, column (b)
+  taxpayerDistributions: number; // Line 4, column (a)
+  spouseDistributions: number; // Line 4, column (b)
+  eligibleContributions: number; // Line 7
+  adjustedGrossIncome: number; // Line 8
+  creditRate: number; // Line 9
+  tentativeCredit: number; // Line 10
+  creditLimit: number; // Line 11
+  retirementSavingsCredit: number; // Line 12: Schedule 3 line 4
+  ineligible: string[];
+  lines: Form8880Line[];
+}
+
+interface PartI {
+  line3: number;
+  line5: number;
+  line9: number;
+  line10: number;
+  line11: number;
+  line12: number;
+  line13: number;
+  line14: number;
+  line15c: number;
+  line18: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class IraService {
+  // IRA Deduction Worksheet: a reduced limit is rounded up to the next $10 and is never below $200
+  private readonly REDUCED_LIMIT_ROUNDING = 10;
+  private readonly MINIMUM_REDUCED_LIMIT = 200;
+  // Form 8880: you must be 18 at the end of the year
+  private readonly SAVERS_CREDIT_MINIMUM_AGE = 18;
+
+  /**
+   * Load the year's limits for the filing status. Married filing separately and living
+   * apart all year uses the single phase-outs.
+   */
+  async getParameters(year: number, filingStatus: string, livedApartAllYear = false): Promise<FederalRetirementSavings> {
+    const status = filingStatus === "married_separate" && livedApartAllYear ? "single" : filingStatus;
+    const parameters = await taxConfigService.getRetirementSavingsParameters(year, status);
+    if (!parameters) {
+      throw new Error(`Retirement savings parameters not configured for ${year}`);
+    }
+    return parameters;
+  }
+
+  /**
+   * Last year's Form 8606s, whose line 14 becomes this year's line 2
+   */
+  async getPriorYearForms(userId: string, year: number): Promise<Form8606[]> {
+    const [priorYearReturn] = await storage.getTaxReturnsByUserIdAndYear(userId, year - 1);
+    return priorYearReturn ? await storage.getForm8606ByTaxReturnId(priorYearReturn.id) : [];
+  }
+
+  /**
+   * One spouse's share of a per-owner W-2 amount. Only a joint return has a spouse's
+   * column, so otherwise every W-2 is combined into the taxpayer's.
+   */
+  private forOwner<T>(filingStatus: string, byOwner: Record<string, T>, owner: string, combine: (values: T[]) => T): T {
+    if (filingStatus === "married_joint") return combine(byOwner[owner] === undefined ? [] : [byOwner[owner]]);
+    return combine(owner === HSA_OWNERS.TAXPAYER ? Object.values(byOwner) : []);
+  }
+
+  /**
+   * Reduce a limit across a MAGI phase-out range the way the IRA Deduction Worksheet and
+   * the Roth contribution worksheet do
+   */
+  private phaseOut(limit: number, modifiedAgi: number, start: number, end: number): number {
+    if (modifiedAgi <= start) return limit;
+    if (modifiedAgi >= end) return 0;
+    const reduced = Math.ceil((limit * (end - modifiedAgi)) / (end - start) / this.REDUCED_LIMIT_ROUNDING) * this.REDUCED_LIMIT_ROUNDING;
+    return Math.min(limit, Math.max(this.MINIMUM_REDUCED_LIMIT, reduced));
+  }
+
+  /**
+   * Form 8606 Part I. Distributions and conversions are nontaxable in the ratio of basis
+   * to the total value of traditional IRAs (year-end value plus what came out).
+   */
+  private calculatePartI(
+    nondeductibleContributions: number,
+    priorYearBasis: number,
+    nextYearContributions: number,
+    yearEndValue: number,
+    distributions: number,
+    conversions: number
+  ): PartI {
+    const line3 = round(nondeductibleContributions + priorYearBasis);
+    const line5 = round(Math.max(0, line3 - nextYearContributions));
+    if (distributions + conversions <= 0) {
+      return { line3, line5, line9: 0, line10: 0, line11: 0, line12: 0, line13: 0, line14: line3, line15c: 0, line18: 0 };
+    }
+    const line9 = round(yearEndValue + distributions + conversions);
+    const line10 = Math.min(1, Math.round((line5 / line9) * 1000) / 1000);
+    const line11 = round(conversions * line10);
+    const line12 = round(distributions * line10);
+    const line13 = round(line11 + line12);
+    return {
+      line3,
+      line5,
+      line9,
+      line10,
+      line11,
+      line12,
+      line13,
+      line14: round(Math.max(0, line3 - line13)),
+      line15c: round(distributions - line12),
+      line18: round(conversions - line11),
+    };
+  }
+
+  /**
+   * IRA deduction, Roth contribution limit and Form 8606 for each spouse with an IRA (the
+   * spouse only on a joint return). MAGI for the deduction includes the taxable part of
+   * Social Security benefits figured before the deduction, and the taxable part of IRA
+   * distributions figured as if every contribution for the year were nondeductible
+   * (Publication 590-A Worksheet 1-1). Box 13 sets workplace plan coverage for the
+   * spouse whose W-2 it is on.
+   */
+  async calculateReturn(input: IraReturnInput): Promise<IraSummary> {
+    const owners = input.filingStatus === "married_joint"
+      ? [HSA_OWNERS.TAXPAYER, HSA_OWNERS.SPOUSE]
+      : [HSA_OWNERS.TAXPAYER];
+    const entryFor = (owner: string) => input.entries.find((entry) => entry.owner === owner);
+    const activeOwners = owners.filter((owner) =>
+      entryFor(owner) || input.contributions.some((contribution) => contribution.owner === owner)
+    );
+    if (activeOwners.length === 0) {
+      return {
+        forms: [],
+        modifiedAgi: 0,
+        rothModifiedAgi: 0,
+        iraDeduction: 0,
+        nontaxableDistributions: 0,
+        taxableIraDistributions: input.taxableIraDistributions,
+        warnings: [],
+      };
+    }
+
+    const parameters = await this.getParameters(input.year, input.filingStatus, input.livedApartAllYear);
+    const yearEnd = `${input.year}-12-31`;
+    const contributed = (owner: string, accountType?: string) => round(input.contributions
+      .filter((contribution) => contribution.owner === owner && (!accountType || contribution.accountType === accountType))
+      .reduce((sum, contribution) => sum + amount(contribution.amount), 0));
+
+    const people = activeOwners.map((owner) => {
+      const entry = entryFor(owner);
+      const isSpouse = owner === HSA_OWNERS.SPOUSE;
+      const age = earnedIncomeCreditService.ageAtYearEnd(
+        isSpouse ? input.profile?.spouseDateOfBirth : input.profile?.dateOfBirth,
+        input.year
+      );
+      const catchUp = age !== null && age >= parameters.iraCatchUpAge ? Number(parameters.iraCatchUpAmount) : 0;
+      const annualLimit = Number(parameters.iraContributionLimit) + catchUp;
+      // A spouse's limit is the couple's compensation less what the other spouse put in
+      const otherOwner = isSpouse ? HSA_OWNERS.TAXPAYER : HSA_OWNERS.SPOUSE;
+      const compensation = input.filingStatus === "married_joint"
+        ? Math.max(0, input.compensation - contributed(otherOwner))
+        : Math.max(0, input.compensation);
+      const priorForm = input.priorYearForms.find((form) => form.owner === owner);
+      const traditional = contributed(owner, IRA_ACCOUNT_TYPES.TRADITIONAL);
+      return {
+        owner,
+        entry,
+        age,
+        annualLimit,
+        contributionLimit: round(Math.min(annualLimit, compensation)),
+        covered: entry?.coveredByWorkplacePlan ?? this.forOwner(input.filingStatus, input.w2RetirementPlanCovered, owner,
+          (values) => values.some(Boolean)),
+        traditional,
+        roth: contributed(owner, IRA_ACCOUNT_TYPES.ROTH),
+        nextYearTraditional: round(input.contributions
+          .filter((contribution) => contribution.owner === owner &&
+            contribution.accountType === IRA_ACCOUNT_TYPES.TRADITIONAL &&
+            contribution.contributionDate > yearEnd)
+          .reduce((sum, contribution) => sum + amount(contribution.amount), 0)),
+        basisSource: (priorForm ? "prior-year return" : "entered") as Form8606Result["basisSource"],
+        priorYearBasis: priorForm ? amount(priorForm.basisCarryforward) : amount(entry?.priorYearBasis),
+        yearEndValue: amount(entry?.yearEndValue),
+        distributions: amount(entry?.distributions),
+        conversions: amount(entry?.rothConversions),
+      };
+    });
+
+    // Worksheet 1-1: the taxable part of distributions used in MAGI
+    const provisionalNontaxable = Math.min(
+      input.taxableIraDistributions,
+      people.reduce((sum, person) => sum + this.calculatePartI(
+        Math.min(person.traditional, person.contributionLimit),
+        person.priorYearBasis,
+        0,
+        person.yearEndValue,
+        person.distributions,
+        person.conversions
+      ).line13, 0)
+    );
+    const provisionalIncome = input.incomeBeforeIraDistributions + input.taxableIraDistributions - provisionalNontaxable;
+    const taxableSocialSecurity = input.socialSecurityStatements.length > 0
+      ? socialSecurityService.calculateTaxableBenefits({
+        filingStatus: input.filingStatus,
+        livedApartAllYear: input.livedApartAllYear,
+        statements: input.socialSecurityStatements,
+        otherIncome: provisionalIncome,
+        taxExemptInterest: 0,
+        adjustments: input.adjustments,
+      }).taxableBenefits
+      : 0;
+    const modifiedAgi = round(provisionalIncome + taxableSocialSecurity - input.adjustments);
+
+    // IRA Deduction Worksheet: the phase-out depends on who is covered by a workplace plan
+    const coveredOwners = people.filter((person) => person.covered).map((person) => person.owner);
+    const deductions = people.map((person) => {
+      const spouseCovered = input.filingStatus === "married_joint" &&
+        coveredOwners.some((owner) => owner !== person.owner);
+      let deductionLimit = person.contributionLimit;
+      if (person.covered) {
+        deductionLimit = Math.min(deductionLimit, this.phaseOut(
+          person.annualLimit,
+          modifiedAgi,
+          Number(parameters.coveredPhaseoutStart),
+          Number(parameters.coveredPhaseoutEnd)
+        ));
+      } else if (spouseCovered && parameters.spouseCoveredPhaseoutStart !== null && parameters.spouseCoveredPhaseoutEnd !== null) {
+        deductionLimit = Math.min(deductionLimit, this.phaseOut(
+          person.annualLimit,
+          modifiedAgi,
+          Number(parameters.spouseCoveredPhaseoutStart),
+          Number(parameters.spouseCoveredPhaseoutEnd)
+        ));
+      }
+      return { spouseCovered, deductionLimit, iraDeduction: round(Math.min(person.traditional, deductionLimit)) };
+    });
+    const iraDeduction = round(deductions.reduce((sum, deduction) => sum + deduction.iraDeduction, 0));
+    const rothModifiedAgi = round(modifiedAgi - iraDeduction);
+
+    const forms: Form8606Result[] = people.map((person, index) => {
+      const { spouseCovered, deductionLimit, iraDeduction: deduction } = deductions[index];
+      const rothPhaseoutLimit = this.phaseOut(
+        person.annualLimit,
+        rothModifiedAgi,
+        Number(parameters.rothPhaseoutStart),
+        Number(parameters.rothPhaseoutEnd)
+      );
+      const rothLimit = round(Math.max(0, Math.min(person.contributionLimit, rothPhaseoutLimit) - person.traditional));
+      const excessContributions = round(
+        Math.max(0, person.traditional - person.contributionLimit) + Math.max(0, person.roth - rothLimit)
+      );
+
+      const warnings: string[] = [];
+      if (person.roth > rothLimit && rothPhaseoutLimit < person.contributionLimit) {
+        warnings.push(
+          `Roth IRA contributions of $${person.roth.toLocaleString()} are more than the $${rothLimit.toLocaleString()} allowed with modified AGI of $${rothModifiedAgi.toLocaleString()}. ` +
+          "Withdraw the excess and its earnings, or recharacterize it as a traditional IRA contribution, by the due date to avoid the 6% excise tax."
+        );
+      } else if (excessContributions > 0) {
+        warnings.push(
+          `IRA contributions of $${round(person.traditional + person.roth).toLocaleString()} are more than the $${person.contributionLimit.toLocaleString()} limit for ${input.year}. ` +
+          "Withdraw the excess and its earnings by the due date to avoid the 6% excise tax."
+        );
+      }
+
+      const line1 = round(Math.max(0, Math.min(person.traditional, person.contributionLimit) - deduction));
+      const line4 = round(Math.min(line1, person.nextYearTraditional));
+      const partI = this.calculatePartI(line1, person.priorYearBasis, line4, person.yearEndValue, person.distributions, person.conversions);
+
+      const lines: Form8606Line[] = [
+        { line: "1", description: `Nondeductible contributions to traditional IRAs for ${input.year}`, amount: line1 },
+        { line: "2", description: `Total basis in traditional IRAs (${person.basisSource === "prior-year return" ? `${input.year - 1} Form 8606 line 14` : "entered"})`, amount: person.priorYearBasis },
+        { line: "3", description: "Add lines 1 and 2", amount: partI.line3 },
+        { line: "4", description: `Contributions included on line 1 that were made in ${input.year + 1}`, amount: line4 },
+        { line: "5", description: "Subtract line 4 from line 3", amount: partI.line5 },
+      ];
+      if (person.distributions + person.conversions > 0) {
+        lines.push(
+          { line: "6", description: `Value of all traditional, SEP and SIMPLE IRAs on December 31, ${input.year}`, amount: person.yearEndValue },
+          { line: "7", description: "Distributions not rolled over or converted", amount: person.distributions },
+          { line: "8", description: "Converted to Roth IRAs", amount: person.conversions },
+          { line: "9", description: "Add lines 6, 7 and 8", amount: partI.line9 },
+          { line: "10", description: "Divide line 5 by line 9 (not more than 1.000)", amount: partI.line10 },
+          { line: "11", description: "Nontaxable part of the conversion", amount: partI.line11 },
+          { line: "12", description: "Nontaxable part of the distributions", amount: partI.line12 },
+          { line: "13", description: "Add lines 11 and 12 (nontaxable, taken out of Form 1040 line 4b)", amount: partI.line13 },
+        );
+      }
+      lines.push({ line: "14", description: `Total basis in traditional IRAs for ${input.year} and earlier years`, amount: partI.line14 });
+      if (person.distributions > 0) {
+        lines.push({ line: "15c", description: "Taxable amount of the distributions", amount: partI.line15c });
+      }
+      if (person.conversions > 0) {
+        lines.push({ line: "18", description: "Taxable amount of the conversion", amount: partI.line18 });
+      }
+
+      return {
+        owner: person.owner,
+        age: person.age,
+        coveredByWorkplacePlan: person.covered,
+        spouseCovered,
+        traditionalContributions: person.traditional,
+        rothContributions: person.roth,
+        contributionLimit: person.contributionLimit,
+        deductionLimit: round(deductionLimit),
+        iraDeduction: deduction,
+        rothLimit,
+        excessContributions,
+        basisSource: person.basisSource,
+        nondeductibleContributions: line1,
+        priorYearBasis: person.priorYearBasis,
+        totalBasis: partI.line3,
+        nontaxableDistributions: partI.line13,
+        basisCarryforward: partI.line14,
+        distributions: person.distributions,
+        taxableDistributions: partI.line15c,
+        taxableConversions: partI.line18,
+        warnings,
+        lines,
+      };
+    });
+
+    const nontaxableDistributions = round(Math.min(
+      input.taxableIraDistributions,
+      forms.reduce((sum, form) => sum + form.nontaxableDistributions, 0)
+    ));
+    return {
+      forms,
+      modifiedAgi,
+      rothModifiedAgi,
+      iraDeduction,
+      nontaxableDistributions,
+      taxableIraDistributions: round(input.taxableIraDistributions - nontaxableDistributions),
+      warnings: forms.flatMap((form) => form.warnings),
+    };
+  }
+
+  /**
+   * Form 8880, Credit for Qualified Retirement Savings Contributions. Each spouse's IRA
+   * contributions and elective deferrals, less distributions, count up to the per-person
+   * maximum, and the rate falls from 50% to 20% to 10% to nothing as AGI rises. Only this
+   * year's distributions are known here, not the two prior years' or those made before
+   * the due date. W-2 deferrals go in the column of the spouse whose W-2 reports them.
+   */
+  async calculateForm8880(input: SaversCreditInput): Promise<Form8880Result> {
+    const owners = input.filingStatus === "married_joint"
+      ? [HSA_OWNERS.TAXPAYER, HSA_OWNERS.SPOUSE]
+      : [HSA_OWNERS.TAXPAYER];
+    const parameters = await this.getParameters(input.year, input.filingStatus);
+    const maxContribution = Number(parameters.saversCreditMaxContribution);
+
+    const ineligible: string[] = [];
+    const columns = owners.map((owner) => {
+      const isSpouse = owner === HSA_OWNERS.SPOUSE;
+      const form = input.forms.find((candidate) => candidate.owner === owner);
+      const contributions = round(
+        (form ? form.traditionalContributions + form.rothContributions : 0) +
+        this.forOwner(input.filingStatus, input.w2Deferrals, owner, (values) => values.reduce((sum, value) => sum + value, 0))
+      );
+      const distributions = form?.distributions ?? 0;
+      const age = earnedIncomeCreditService.ageAtYearEnd(
+        isSpouse ? input.profile?.spouseDateOfBirth : input.profile?.dateOfBirth,
+        input.year
+      );
+      const label = isSpouse ? "Spouse" : "Taxpayer";
+      let eligible = true;
+      if (contributions > 0 && age !== null && age < this.SAVERS_CREDIT_MINIMUM_AGE) {
+        ineligible.push(`${label} is under ${this.SAVERS_CREDIT_MINIMUM_AGE}`);
+        eligible = false;
+      } else if (contributions > 0 && input.entries.find((entry) => entry.owner === owner)?.fullTimeStudent) {
+        ineligible.push(`${label} is a full-time student`);
+        eligible = false;
+      }
+      const line5 = eligible ? round(Math.max(0, contributions - distributions)) : 0;
+      return { contributions, distributions, line5, line6: Math.min(line5, maxContribution) };
+    });
+
+    const [taxpayer, spouse] = columns;
+
+    const line7 = round(columns.reduce((sum, column) => sum + column.line6, 0));
+    const line8 = round(input.adjustedGrossIncome);
+    let line9 = 0;
+    if (line8 <= Number(parameters.saversCreditFiftyPercentLimit)) line9 = 0.5;
+    else if (line8 <= Number(parameters.saversCreditTwentyPercentLimit)) line9 = 0.2;
+    else if (line8 <= Number(parameters.saversCreditTenPercentLimit)) line9 = 0.1;
+    const line10 = round(line7 * line9);
+    const line11 = round(Math.max(0, input.creditLimit));
+    const line12 = Math.min(line10, line11);
+
+    const lines: Form8880Line[] = [
+      { line: "3", description: `IRA contributions and elective deferrals (${spouse ? `you $${taxpayer.contributions.toLocaleString()}, spouse $${spouse.contributions.toLocaleString()}` : "you"})`, amount: round(taxpayer.contributions + (spouse?.contributions ?? 0)) },
+      { line: "4", description: "Distributions received", amount: round(taxpayer.distributions + (spouse?.distributions ?? 0)) },
+      { line: "5", description: "Subtract line 4 from line 3 (zero for anyone not eligible)", amount: round(taxpayer.line5 + (spouse?.line5 ?? 0)) },
+      { line: "6", description: `Smaller of line 5 or $${maxContribution.toLocaleString()} per person`, amount: line7 },
+      { line: "7", description: "Add the amounts on line 6", amount: line7 },
+      { line: "8", description: "Adjusted gross income (Form 1040 line 11)", amount: line8 },
+      { line: "9", description: "Credit rate for the AGI and filing status", amount: line9 },
+      { line: "10", description: "Multiply line 7 by line 9", amount: line10 },
+      { line: "11", description: "Tax less the foreign tax, dependent care and education credits", amount: line11 },
+      { line: "12", description: "Credit for qualified retirement savings contributions (Schedule 3 line 4)", amount: line12 },
+    ];
+
+    return {
+      taxpayerContributions: taxpayer.contributions,
+      spouseContributions: spouse?.contributions ?? 0,
+      taxpayerDistributions: taxpayer.distributions,
+      spouseDistributions: spouse?.distributions ?? 0,
+      eligibleContributions: line7,
+      adjustedGrossIncome: line8,
+      creditRate: line9,
+      tentativeCredit: line10,
+      creditLimit: line11,
+      retirementSavingsCredit: line12,
+      ineligible,
+      lines,
+    };
+  }
+}
+
+// Export singleton instance
+export const iraService = new IraService();
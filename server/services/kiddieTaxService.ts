@@ -0,0 +1,275 @@
+import { storage } from "../storage";
+import { taxConfigService } from "./taxConfigService";
+import { capitalGainsTaxService } from "./capitalGainsTaxService";
+import { earnedIncomeCreditService } from "./earnedIncomeCreditService";
+import { FILING_STATUS, type FederalKiddieTax, type Form8615 } from "@shared/schema";
+
+export interface Form8615Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface Form8615Parent {
+  source: "linked" | "manual";
+  taxableIncome: number;
+  filingStatus: string;
+  // Parent's qualified dividends and net capital gain from their Qualified Dividends and
+  // Capital Gain Tax Worksheet; zero when the parent is entered by hand
+  qualifiedDividends: number;
+  netCapitalGain: number;
+}
+
+export interface Form8615Input {
+  form: Form8615; // Parent and support answers entered by the taxpayer
+  childDateOfBirth: string | null | undefined;
+  childFilingStatus: string;
+  unearnedIncome: number; // Line 1: all income other than earned income
+  childTaxableIncome: number; // Line 4
+  childItemizes: boolean;
+  childQualifiedDividends: number;
+  childNetCapitalGain: number;
+  childTax: number; // Line 17: the child's tax figured without Form 8615
+}
+
+export interface Form8615Result {
+  isRequired: boolean;
+  notRequiredReason: string | null;
+  unearnedIncome: number; // Line 1
+  unearnedIncomeThreshold: number; // Line 2
+  netUnearnedIncome: number; // Line 5
+  parentTaxableIncomeUsed: number; // Line 6
+  parentFilingStatusUsed: string | null;
+  parentTaxWithChildIncome: number; // Line 9
+  parentTax: number; // Line 10
+  tentativeTax: number; // Line 13
+  childTaxOnRemainingIncome: number; // Line 15
+  taxWithoutForm8615: number; // Line 17
+  tax: number; // Line 18: Form 1040 line 16
+  warnings: string[];
+  lines: Form8615Line[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class KiddieTaxService {
+  // Children under 18 at year end always file Form 8615 when line 3 is positive
+  private readonly CHILD_AGE_LIMIT = 18;
+  // Full-time students under 24 are covered when earned income is no more than half their support
+  private readonly STUDENT_AGE_LIMIT = 24;
+
+  private async getParameters(year: number): Promise<FederalKiddieTax> {
+    const parameters = await taxConfigService.getKiddieTaxParameters(year);
+    if (!parameters) {
+      throw new Error(`Kiddie tax parameters not configured for ${year}`);
+    }
+    return parameters;
+  }
+
+  /**
+   * Why Form 8615 does not apply to the child, or null when it does (before the income test)
+   */
+  private notRequiredReason(input: Form8615Input, year: number): string | null {
+    if (input.childFilingStatus === FILING_STATUS.MARRIED_JOINT) {
+      return "Form 8615 does not apply to a child filing a joint return";
+    }
+    const age = earnedIncomeCreditService.ageAtYearEnd(input.childDateOfBirth, year);
+    if (age === null) {
+      return "Add the child's date of birth to the profile to check the age test";
+    }
+    if (age < this.CHILD_AGE_LIMIT) return null;
+    const isStudent = age > this.CHILD_AGE_LIMIT && age < this.STUDENT_AGE_LIMIT && !!input.form.isFullTimeStudent;
+    if (age !== this.CHILD_AGE_LIMIT && !isStudent) {
+      return `The child was ${age} at the end of ${year}; only children under 18, 18-year-olds and full-time students under 24 are covered`;
+    }
+    if (input.form.earnedIncomeExceedsHalfSupport) {
+      return "The child's earned income was more than half of their support";
+    }
+    return null;
+  }
+
+  /**
+   * Find the parent's taxable income and filing status: the linked return when it has been
+   * calculated, otherwise the amounts entered by hand
+   */
+  async resolveParent(form: Form8615, year: number, warnings: string[]): Promise<Form8615Parent | null> {
+    if (form.parentTaxReturnId) {
+      const parentReturn = await storage.getTaxReturn(form.parentTaxReturnId);
+      if (!parentReturn || parentReturn.taxYear !== year) {
+        warnings.push(`The linked parent return is no longer available for ${year}`);
+      } else if (parentReturn.taxableIncome === null) {
+        warnings.push("The linked parent return has not been calculated yet");
+      } else {
+        const parentWorksheet = await storage.getQualifiedDividendsWorksheetByTaxReturnId(parentReturn.id);
+        return {
+          source: "linked",
+          taxableIncome: amount(parentReturn.taxableIncome),
+          filingStatus: parentReturn.filingStatus,
+          qualifiedDividends: amount(parentWorksheet?.qualifiedDividends),
+          netCapitalGain: amount(parentWorksheet?.netCapitalGain),
+        };
+      }
+    }
+
+    if (form.parentTaxableIncome !== null && form.parentFilingStatus) {
+      if (form.parentTaxReturnId) {
+        warnings.push("Using the parent's taxable income and filing status entered by hand");
+      }
+      return {
+        source: "manual",
+        taxableIncome: amount(form.parentTaxableIncome),
+        filingStatus: form.parentFilingStatus,
+        qualifiedDividends: 0,
+        netCapitalGain: 0,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Calculate Form 8615, Tax for Certain Children Who Have Unearned Income. The child's net
+   * unearned income is taxed at the parent's marginal rate (lines 6-13) and the rest of the
+   * child's taxable income at the child's own rates (lines 14-15); the child pays the larger
+   * of that total and the tax figured without the form.
+   */
+  async calculateForm8615(input: Form8615Input, year: number): Promise<Form8615Result> {
+    const parameters = await this.getParameters(year);
+    const warnings: string[] = [];
+    const lines: Form8615Line[] = [];
+    const taxWithoutForm8615 = round(input.childTax);
+
+    const result: Form8615Result = {
+      isRequired: false,
+      notRequiredReason: null,
+      unearnedIncome: round(Math.max(0, input.unearnedIncome)),
+      unearnedIncomeThreshold: 0,
+      netUnearnedIncome: 0,
+      parentTaxableIncomeUsed: 0,
+      parentFilingStatusUsed: null,
+      parentTaxWithChildIncome: 0,
+      parentTax: 0,
+      tentativeTax: 0,
+      childTaxOnRemainingIncome: 0,
+      taxWithoutForm8615,
+      tax: taxWithoutForm8615,
+      warnings,
+      lines,
+    };
+
+    // Line 2: twice the base amount, or the base amount plus deductions directly connected
+    // to the unearned income when the child itemizes
+    const baseAmount = amount(parameters.unearnedIncomeBaseAmount);
+    const line1 = result.unearnedIncome;
+    const line2 = input.childItemizes
+      ? Math.max(amount(parameters.unearnedIncomeThreshold), baseAmount + amount(input.form.directlyConnectedDeductions))
+      : amount(parameters.unearnedIncomeThreshold);
+    const line3 = round(Math.max(0, line1 - line2));
+    const line4 = round(Math.max(0, input.childTaxableIncome));
+    const line5 = Math.min(line3, line4);
+    result.unearnedIncomeThreshold = line2;
+    result.netUnearnedIncome = line5;
+    lines.push(
+      { line: "1", description: "Child's unearned income", amount: line1 },
+      { line: "2", description: input.childItemizes ? "Larger of the threshold or base amount plus directly connected itemized deductions" : "Unearned income threshold", amount: line2 },
+      { line: "3", description: "Subtract line 2 from line 1", amount: line3 },
+      { line: "4", description: "Child's taxable income", amount: line4 },
+      { line: "5", description: "Net unearned income (smaller of line 3 or line 4)", amount: line5 },
+    );
+
+    result.notRequiredReason = this.notRequiredReason(input, year);
+    if (result.notRequiredReason) return result;
+    if (line5 <= 0) {
+      result.notRequiredReason = `Unearned income is not more than ${line2.toLocaleString("en-US", { style: "currency", currency: "USD" })}`;
+      return result;
+    }
+
+    const parent = await this.resolveParent(input.form, year, warnings);
+    if (!parent) {
+      warnings.push("Link the parent's return or enter the parent's taxable income and filing status to figure the tax at the parent's rate");
+      return result;
+    }
+    result.isRequired = true;
+    const parentFilingStatus = parent.filingStatus;
+
+    // Lines 6-11: tax on the parent's income with and without the children's net unearned
+    // income. The child's qualified dividends and capital gain are apportioned to line 5 so
+    // they keep their preferential rates on the parent's return.
+    const line6 = round(Math.max(0, parent.taxableIncome));
+    const line7 = round(Math.max(0, amount(input.form.otherChildrenNetUnearnedIncome)));
+    const line8 = round(line5 + line6 + line7);
+    const childPreferential = Math.min(line1, Math.max(0, input.childQualifiedDividends) + Math.max(0, input.childNetCapitalGain));
+    const preferentialShare = line1 > 0 ? round(childPreferential * (line5 / line1)) : 0;
+    const qualifiedDividendShare = Math.min(preferentialShare, Math.max(0, input.childQualifiedDividends));
+    const combinedWorksheet = await capitalGainsTaxService.calculateWorksheet(
+      line8,
+      parent.qualifiedDividends + qualifiedDividendShare,
+      parent.netCapitalGain + preferentialShare - qualifiedDividendShare,
+      parentFilingStatus,
+      year
+    );
+    const parentWorksheet = await capitalGainsTaxService.calculateWorksheet(
+      line6,
+      parent.qualifiedDividends,
+      parent.netCapitalGain,
+      parentFilingStatus,
+      year
+    );
+    const line9 = combinedWorksheet.tax;
+    const line10 = parentWorksheet.tax;
+    const line11 = round(Math.max(0, line9 - line10));
+    const line12a = round(line5 + line7);
+    const line12b = line12a > 0 ? Math.round((line5 / line12a) * 1000) / 1000 : 0;
+    const line13 = round(line11 * line12b);
+    if (parent.source === "manual") {
+      warnings.push("The parent's income entered by hand is taxed at ordinary rates; link the parent's return to apply their qualified dividend and capital gain rates");
+    }
+    if (line7 > 0) {
+      warnings.push("Other children's net unearned income is taxed at ordinary rates on line 9");
+    }
+
+    // Lines 14-16: the rest of the child's income at the child's rates
+    const line14 = round(Math.max(0, line4 - line5));
+    const remainingWorksheet = await capitalGainsTaxService.calculateWorksheet(
+      line14,
+      Math.max(0, input.childQualifiedDividends - qualifiedDividendShare),
+      Math.max(0, input.childNetCapitalGain - (preferentialShare - qualifiedDividendShare)),
+      input.childFilingStatus,
+      year
+    );
+    const line15 = remainingWorksheet.tax;
+    const line16 = round(line13 + line15);
+    const line18 = Math.max(line16, taxWithoutForm8615);
+
+    lines.push(
+      { line: "6", description: `Parent's taxable income (${parent.source === "linked" ? "linked return" : "entered"})`, amount: line6 },
+      { line: "7", description: "Net unearned income of the parent's other children", amount: line7 },
+      { line: "8", description: "Add lines 5, 6 and 7", amount: line8 },
+      { line: "9", description: "Tax on line 8 at the parent's rates", amount: line9 },
+      { line: "10", description: "Parent's tax", amount: line10 },
+      { line: "11", description: "Subtract line 10 from line 9", amount: line11 },
+      { line: "12a", description: "Add lines 5 and 7", amount: line12a },
+      { line: "12b", description: "Divide line 5 by line 12a", amount: line12b },
+      { line: "13", description: "Multiply line 11 by line 12b", amount: line13 },
+      { line: "14", description: "Subtract line 5 from line 4", amount: line14 },
+      { line: "15", description: "Tax on line 14 at the child's rates", amount: line15 },
+      { line: "16", description: "Add lines 13 and 15", amount: line16 },
+      { line: "17", description: "Tax on line 4 at the child's rates", amount: taxWithoutForm8615 },
+      { line: "18", description: "Larger of line 16 or line 17 (Form 1040 line 16)", amount: line18 },
+    );
+
+    return {
+      ...result,
+      parentTaxableIncomeUsed: line6,
+      parentFilingStatusUsed: parent.filingStatus,
+      parentTaxWithChildIncome: line9,
+      parentTax: line10,
+      tentativeTax: line13,
+      childTaxOnRemainingIncome: line15,
+      tax: line18,
+    };
+  }
+}
+
+// Export singleton instance
+export const kiddieTaxService = new KiddieTaxService();
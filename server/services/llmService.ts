@@ -1,8 +1,8 @@
-import type { ParsedW2, Parsed1099Div, Parsed1099Int, Parsed1099B } from "../utils/parsers";
+import type { ParsedW2, Parsed1099Div, Parsed1099Int, Parsed1099B, Parsed1099Misc, Parsed1099Nec, Parsed1099R, Parsed1098, Parsed1098T, Parsed1098E, Parsed1099Sa, Parsed5498Sa, ParsedSsa1099, Parsed1099G, Parsed1095A } from "../utils/parsers";
 
 export interface LLMResponse {
   success: boolean;
-  data: ParsedW2 | Parsed1099Div | Parsed1099Int | Parsed1099B | null;
+  data: ParsedW2 | Parsed1099Div | Parsed1099Int | Parsed1099B | Parsed1099Misc | Parsed1099Nec | Parsed1099R | Parsed1098 | Parsed1098T | Parsed1098E | Parsed1099Sa | Parsed5498Sa | ParsedSsa1099 | Parsed1099G | Parsed1095A | null;
   confidenceScore: number;
   tokensUsed: number;
   costUsd: number;
@@ -106,9 +106,16 @@ Please extract the following fields and return ONLY a valid JSON object with no
   "socialSecurityWages": "string or null (dollar amount)",
   "socialSecurityWithheld": "string or null (dollar amount)",
   "medicareWages": "string or null (dollar amount)",
-  "medicareWithheld": "string or null (dollar amount)"
+  "medicareWithheld": "string or null (dollar amount)",
+  "dependentCareBenefits": "string or null (box 10 dollar amount)",
+  "box12": [{ "code": "string (box 12 code, e.g. D, W, DD, AA)", "amount": "string (dollar amount)" }],
+  "statutoryEmployee": "boolean (box 13 statutory employee checkbox)",
+  "retirementPlan": "boolean (box 13 retirement plan checkbox)",
+  "thirdPartySickPay": "boolean (box 13 third-party sick pay checkbox)",
+  "box14": [{ "code": "string (label as printed in box 14, e.g. SDI)", "amount": "string (dollar amount)" }]
 }
 
+Use empty arrays when boxes 12 or 14 are blank.
 Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
 
       case "1099-DIV":
@@ -119,6 +126,7 @@ Also include a "confidence" field (0.0 to 1.0) indicating how confident you are
   "ordinaryDividends": "string or null (dollar amount)",
   "qualifiedDividends": "string or null (dollar amount)",
   "totalCapitalGain": "string or null (dollar amount)",
+  "section199aDividends": "string or null (dollar amount, box 5)",
   "foreignTaxPaid": "string or null (dollar amount)"
 }
 
@@ -151,6 +159,169 @@ Also include a "confidence" field (0.0 to 1.0) indicating how confident you are
   "longTermGainLoss": "string or null (dollar amount)"
 }
 
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "1099-MISC":
+        return `${basePrompt}
+{
+  "payerName": "string or null",
+  "payerTin": "string or null (format: XX-XXXXXXX)",
+  "rents": "string or null (dollar amount, box 1)",
+  "royalties": "string or null (dollar amount, box 2)",
+  "otherIncome": "string or null (dollar amount, box 3)",
+  "federalWithheld": "string or null (dollar amount, box 4)",
+  "fishingBoatProceeds": "string or null (dollar amount, box 5)",
+  "medicalPayments": "string or null (dollar amount, box 6)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "1099-NEC":
+        return `${basePrompt}
+{
+  "payerName": "string or null",
+  "payerTin": "string or null (format: XX-XXXXXXX)",
+  "nonemployeeCompensation": "string or null (dollar amount, box 1)",
+  "federalWithheld": "string or null (dollar amount, box 4)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "1099-R":
+        return `${basePrompt}
+{
+  "payerName": "string or null",
+  "payerTin": "string or null (format: XX-XXXXXXX)",
+  "grossDistribution": "string or null (dollar amount, box 1)",
+  "taxableAmount": "string or null (dollar amount, box 2a)",
+  "taxableAmountNotDetermined": "boolean (box 2b checkbox)",
+  "federalWithheld": "string or null (dollar amount, box 4)",
+  "employeeContributions": "string or null (dollar amount, box 5)",
+  "distributionCode": "string or null (box 7 code(s), e.g. 1, 7, G)",
+  "isIra": "boolean (box 7 IRA/SEP/SIMPLE checkbox)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "1098":
+        return `${basePrompt}
+{
+  "lenderName": "string or null",
+  "lenderTin": "string or null (format: XX-XXXXXXX)",
+  "mortgageInterest": "string or null (dollar amount, box 1)",
+  "outstandingPrincipal": "string or null (dollar amount, box 2)",
+  "mortgageInsurancePremiums": "string or null (dollar amount, box 5)",
+  "pointsPaid": "string or null (dollar amount, box 6)",
+  "propertyAddress": "string or null (box 8)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "1098-T":
+        return `${basePrompt}
+{
+  "institutionName": "string or null (filer's name)",
+  "institutionTin": "string or null (format: XX-XXXXXXX)",
+  "studentName": "string or null",
+  "paymentsReceived": "string or null (dollar amount, box 1)",
+  "scholarships": "string or null (dollar amount, box 5)",
+  "halfTimeStudent": "boolean (box 8 checkbox)",
+  "graduateStudent": "boolean (box 9 checkbox)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "1098-E":
+        return `${basePrompt}
+{
+  "lenderName": "string or null",
+  "lenderTin": "string or null (format: XX-XXXXXXX)",
+  "studentLoanInterest": "string or null (dollar amount, box 1)",
+  "originationFeesIncluded": "boolean (box 2 checkbox)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "1099-SA":
+        return `${basePrompt}
+{
+  "payerName": "string or null (HSA trustee)",
+  "payerTin": "string or null (format: XX-XXXXXXX)",
+  "grossDistribution": "string or null (dollar amount, box 1)",
+  "earningsOnExcess": "string or null (dollar amount, box 2)",
+  "distributionCode": "string or null (box 3, a single digit 1-6)",
+  "fairMarketValueOnDeath": "string or null (dollar amount, box 4)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "5498-SA":
+        return `${basePrompt}
+{
+  "trusteeName": "string or null",
+  "trusteeTin": "string or null (format: XX-XXXXXXX)",
+  "totalContributions": "string or null (dollar amount, box 2)",
+  "followingYearContributions": "string or null (dollar amount, box 3)",
+  "rolloverContributions": "string or null (dollar amount, box 4)",
+  "fairMarketValue": "string or null (dollar amount, box 5)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "SSA-1099":
+        return `${basePrompt}
+{
+  "beneficiaryName": "string or null (box 1)",
+  "beneficiarySsn": "string or null (box 2, format: XXX-XX-XXXX)",
+  "benefitsPaid": "string or null (dollar amount, box 3)",
+  "benefitsRepaid": "string or null (dollar amount, box 4)",
+  "netBenefits": "string or null (dollar amount, box 5)",
+  "federalWithheld": "string or null (dollar amount, box 6)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "1099-G":
+        return `${basePrompt}
+{
+  "payerName": "string or null",
+  "payerTin": "string or null (format: XX-XXXXXXX)",
+  "unemploymentCompensation": "string or null (dollar amount, box 1)",
+  "stateLocalRefund": "string or null (dollar amount, box 2)",
+  "refundTaxYear": "string or null (four-digit year, box 3)",
+  "federalWithheld": "string or null (dollar amount, box 4)",
+  "taxableGrants": "string or null (dollar amount, box 6)",
+  "agriculturePayments": "string or null (dollar amount, box 7)",
+  "tradeOrBusiness": "boolean (true if box 8 is checked)",
+  "stateWithheld": "string or null (dollar amount, box 11)"
+}
+
+Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
+
+      case "1095-A":
+        return `${basePrompt}
+{
+  "marketplaceId": "string or null (line 1)",
+  "policyNumber": "string or null (line 2)",
+  "issuerName": "string or null (line 3)",
+  "recipientName": "string or null (line 4)",
+  "policyStartDate": "string or null (line 10, format: YYYY-MM-DD)",
+  "policyEndDate": "string or null (line 11, format: YYYY-MM-DD)",
+  "monthlyAmounts": [
+    {
+      "month": "number (1 for January through 12 for December, lines 21-32)",
+      "premium": "string (dollar amount, column A)",
+      "slcsp": "string (dollar amount, column B)",
+      "advancePayment": "string (dollar amount, column C)"
+    }
+  ],
+  "annualPremium": "string or null (dollar amount, line 33 column A)",
+  "annualSlcsp": "string or null (dollar amount, line 33 column B)",
+  "annualAdvancePayment": "string or null (dollar amount, line 33 column C)"
+}
+
+Include only the months with coverage in monthlyAmounts.
+
 Also include a "confidence" field (0.0 to 1.0) indicating how confident you are in the extraction.`;
 
       default:
@@ -225,7 +396,7 @@ Also include a "confidence" field (0.0 to 1.0) indicating how confident you are
    * Parse LLM response into structured data
    */
   private parseLLMResponse(response: string, documentType: string): {
-    data: ParsedW2 | Parsed1099Div | Parsed1099Int | Parsed1099B | null;
+    data: ParsedW2 | Parsed1099Div | Parsed1099Int | Parsed1099B | Parsed1099Misc | Parsed1099Nec | Parsed1099R | Parsed1098 | Parsed1098T | Parsed1098E | Parsed1099Sa | Parsed5498Sa | ParsedSsa1099 | Parsed1099G | Parsed1095A | null;
     confidenceScore: number;
   } {
     try {
@@ -0,0 +1,136 @@
+export interface Form8959Result {
+  medicareWages: number;
+  threshold: number;
+  excessWages: number;
+  wageAdditionalMedicareTax: number;
+  selfEmploymentIncome: number;
+  selfEmploymentThreshold: number;
+  excessSelfEmploymentIncome: number;
+  selfEmploymentAdditionalMedicareTax: number;
+  additionalMedicareTax: number;
+  medicareWithheld: number;
+  regularMedicareWithholding: number;
+  additionalMedicareWithholding: number;
+}
+
+export interface Form8960Input {
+  taxableInterest: number;
+  ordinaryDividends: number;
+  netGain: number;
+  otherInvestmentIncome?: number;
+  investmentExpenses?: number;
+  modifiedAgi: number;
+}
+
+export interface Form8960Result {
+  taxableInterest: number;
+  ordinaryDividends: number;
+  netGain: number;
+  otherInvestmentIncome: number;
+  totalInvestmentIncome: number;
+  investmentExpenses: number;
+  netInvestmentIncome: number;
+  modifiedAgi: number;
+  threshold: number;
+  excessMagi: number;
+  netInvestmentIncomeTax: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class MedicareSurtaxService {
+  // Statutory thresholds (not inflation-adjusted) shared by Forms 8959 and 8960
+  private thresholds: Record<string, number> = {
+    single: 200000,
+    married_joint: 250000,
+    married_separate: 125000,
+    head_of_household: 200000,
+    qualifying_widow: 250000,
+  };
+
+  private readonly ADDITIONAL_MEDICARE_RATE = 0.009;
+  private readonly REGULAR_MEDICARE_RATE = 0.0145;
+  private readonly NIIT_RATE = 0.038;
+
+  /**
+   * Get the wage / MAGI threshold for a filing status
+   */
+  getThreshold(filingStatus: string): number {
+    return this.thresholds[filingStatus] ?? this.thresholds.single;
+  }
+
+  /**
+   * Form 8959 Part I (Medicare wages), Part II (self-employment income from Schedule SE
+   * line 6), Part IV (total) and Part V (withholding reconciliation)
+   */
+  calculateForm8959(
+    medicareWages: number,
+    medicareWithheld: number,
+    filingStatus: string,
+    selfEmploymentEarnings: number = 0
+  ): Form8959Result {
+    const threshold = this.getThreshold(filingStatus);
+    const excessWages = Math.max(0, medicareWages - threshold);
+    const wageAdditionalMedicareTax = round(excessWages * this.ADDITIONAL_MEDICARE_RATE);
+
+    // Medicare wages use up the threshold before self-employment income (lines 9-11)
+    const selfEmploymentIncome = Math.max(0, selfEmploymentEarnings);
+    const selfEmploymentThreshold = Math.max(0, threshold - medicareWages);
+    const excessSelfEmploymentIncome = round(Math.max(0, selfEmploymentIncome - selfEmploymentThreshold));
+    const selfEmploymentAdditionalMedicareTax = round(excessSelfEmploymentIncome * this.ADDITIONAL_MEDICARE_RATE);
+
+    const additionalMedicareTax = round(wageAdditionalMedicareTax + selfEmploymentAdditionalMedicareTax);
+
+    // Employers withhold 1.45% on all Medicare wages; anything above that is
+    // Additional Medicare Tax withholding and is credited on Form 1040 line 25c
+    const regularMedicareWithholding = round(medicareWages * this.REGULAR_MEDICARE_RATE);
+    const additionalMedicareWithholding = round(Math.max(0, medicareWithheld - regularMedicareWithholding));
+
+    return {
+      medicareWages,
+      threshold,
+      excessWages,
+      wageAdditionalMedicareTax,
+      selfEmploymentIncome,
+      selfEmploymentThreshold,
+      excessSelfEmploymentIncome,
+      selfEmploymentAdditionalMedicareTax,
+      additionalMedicareTax,
+      medicareWithheld,
+      regularMedicareWithholding,
+      additionalMedicareWithholding,
+    };
+  }
+
+  /**
+   * Form 8960 Net Investment Income Tax for individuals
+   */
+  calculateForm8960(input: Form8960Input, filingStatus: string): Form8960Result {
+    const otherInvestmentIncome = input.otherInvestmentIncome || 0;
+    const investmentExpenses = input.investmentExpenses || 0;
+
+    const totalInvestmentIncome =
+      input.taxableInterest + input.ordinaryDividends + input.netGain + otherInvestmentIncome;
+    const netInvestmentIncome = Math.max(0, totalInvestmentIncome - investmentExpenses);
+    const threshold = this.getThreshold(filingStatus);
+    const excessMagi = Math.max(0, input.modifiedAgi - threshold);
+    const netInvestmentIncomeTax = round(Math.min(netInvestmentIncome, excessMagi) * this.NIIT_RATE);
+
+    return {
+      taxableInterest: input.taxableInterest,
+      ordinaryDividends: input.ordinaryDividends,
+      netGain: input.netGain,
+      otherInvestmentIncome,
+      totalInvestmentIncome,
+      investmentExpenses,
+      netInvestmentIncome,
+      modifiedAgi: input.modifiedAgi,
+      threshold,
+      excessMagi,
+      netInvestmentIncomeTax,
+    };
+  }
+}
+
+// Export singleton instance
+export const medicareSurtaxService = new MedicareSurtaxService();
@@ -0,0 +1,116 @@
+import type { Form1099Misc, Form1099Nec } from "@shared/schema";
+
+export interface MiscIncomeRouting {
+  // Schedule E (flows to Schedule 1, line 5)
+  rents: number;
+  royalties: number;
+  // Schedule 1, line 8z
+  otherIncome: number;
+  // Schedule C, line 1 gross receipts (flows to Schedule 1, line 3)
+  nonemployeeCompensation: number;
+  fishingBoatProceeds: number;
+  medicalPayments: number;
+  scheduleCGrossReceipts: number;
+  federalWithheld: number;
+}
+
+export interface Schedule1Result {
+  taxableRefunds: number;
+  businessIncome: number;
+  rentalRoyaltyIncome: number;
+  unemploymentCompensation: number;
+  hsaDistributions: number;
+  otherIncome: number;
+  totalAdditionalIncome: number;
+  hsaDeduction: number;
+  selfEmploymentTaxDeduction: number;
+  iraDeduction: number;
+  studentLoanInterestDeduction: number;
+  totalAdjustments: number;
+}
+
+// Schedule 1 Part I income reported on other forms
+export interface Schedule1OtherIncome {
+  taxableRefunds?: number; // Line 1: State and Local Income Tax Refund Worksheet
+  unemploymentCompensation?: number; // Line 7: 1099-G box 1
+  hsaDistributions?: number; // Line 8f: Form 8889 line 16
+}
+
+// Schedule 1 Part II adjustments to income
+export interface Schedule1Adjustments {
+  hsaDeduction?: number; // Line 13
+  selfEmploymentTaxDeduction?: number; // Line 15
+  iraDeduction?: number; // Line 20
+  studentLoanInterestDeduction?: number; // Line 21
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class MiscIncomeService {
+  /**
+   * Route each 1099-MISC / 1099-NEC box to the Form 1040 schedule it is reported on
+   */
+  routeIncome(miscForms: Form1099Misc[], necForms: Form1099Nec[]): MiscIncomeRouting {
+    const sumMisc = (key: keyof Form1099Misc) =>
+      round(miscForms.reduce((sum, form) => sum + amount(form[key] as string | null), 0));
+
+    const nonemployeeCompensation = round(
+      necForms.reduce((sum, form) => sum + amount(form.nonemployeeCompensation), 0)
+    );
+    const fishingBoatProceeds = sumMisc("fishingBoatProceeds");
+    const medicalPayments = sumMisc("medicalPayments");
+
+    return {
+      rents: sumMisc("rents"),
+      royalties: sumMisc("royalties"),
+      otherIncome: sumMisc("otherIncome"),
+      nonemployeeCompensation,
+      fishingBoatProceeds,
+      medicalPayments,
+      scheduleCGrossReceipts: round(nonemployeeCompensation + fishingBoatProceeds + medicalPayments),
+      federalWithheld: round(
+        sumMisc("federalWithheld") + necForms.reduce((sum, form) => sum + amount(form.federalWithheld), 0)
+      ),
+    };
+  }
+
+  /**
+   * Schedule 1 Part I additional income (line 10 flows to Form 1040 line 8) and
+   * Part II adjustments (line 26 flows to Form 1040 line 10)
+   */
+  calculateSchedule1(
+    routing: MiscIncomeRouting,
+    businessIncome: number = routing.scheduleCGrossReceipts,
+    adjustments: Schedule1Adjustments = {},
+    otherIncome: Schedule1OtherIncome = {}
+  ): Schedule1Result {
+    const taxableRefunds = round(otherIncome.taxableRefunds || 0);
+    const rentalRoyaltyIncome = round(routing.rents + routing.royalties);
+    const unemploymentCompensation = round(otherIncome.unemploymentCompensation || 0);
+    const hsaDistributions = round(otherIncome.hsaDistributions || 0);
+    const hsaDeduction = round(adjustments.hsaDeduction || 0);
+    const selfEmploymentTaxDeduction = round(adjustments.selfEmploymentTaxDeduction || 0);
+    const iraDeduction = round(adjustments.iraDeduction || 0);
+    const studentLoanInterestDeduction = round(adjustments.studentLoanInterestDeduction || 0);
+    return {
+      taxableRefunds,
+      businessIncome: round(businessIncome),
+      rentalRoyaltyIncome,
+      unemploymentCompensation,
+      hsaDistributions,
+      otherIncome: routing.otherIncome,
+      totalAdditionalIncome: round(
+        taxableRefunds + businessIncome + rentalRoyaltyIncome + unemploymentCompensation + hsaDistributions + routing.otherIncome
+      ),
+      hsaDeduction,
+      selfEmploymentTaxDeduction,
+      iraDeduction,
+      studentLoanInterestDeduction,
+      totalAdjustments: round(hsaDeduction + selfEmploymentTaxDeduction + iraDeduction + studentLoanInterestDeduction),
+    };
+  }
+}
+
+// Export singleton instance
+export const miscIncomeService = new MiscIncomeService();
@@ -1,11 +1,11 @@
-import { parseW2Data, parse1099DivData, parse1099IntData, parse1099BData, parse1099MiscData, parseConsolidatedBrokerageStatement, detectDocumentType } from "../utils/parsers";
+import { parseW2Data, parse1099DivData, parse1099IntData, parse1099BData, parse1099MiscData, parse1099NecData, parse1099RData, parse1098Data, parse1098TData, parse1098EData, parse1099SaData, parse5498SaData, parseSsa1099Data, parse1099GData, parse1095AData, parseConsolidatedBrokerageStatement, detectDocumentType } from "../utils/parsers";
 import { PARSING_METHOD, INSIGHT_TYPE, INSIGHT_CATEGORY, INSIGHT_PRIORITY } from "@shared/schema";
-import type { ParsedW2, Parsed1099Div, Parsed1099Int, Parsed1099B, Parsed1099Misc, ConsolidatedBrokerageStatement } from "../utils/parsers";
+import type { ParsedW2, Parsed1099Div, Parsed1099Int, Parsed1099B, Parsed1099Misc, Parsed1099Nec, Parsed1099R, Parsed1098, Parsed1098T, Parsed1098E, Parsed1099Sa, Parsed5498Sa, ParsedSsa1099, Parsed1099G, Parsed1095A, ConsolidatedBrokerageStatement } from "../utils/parsers";
 import { llmService } from "./llmService";
 
 export interface ParsingResult {
   success: boolean;
-  data: ParsedW2 | Parsed1099Div | Parsed1099Int | Parsed1099B | Parsed1099Misc | ConsolidatedBrokerageStatement | null;
+  data: ParsedW2 | Parsed1099Div | Parsed1099Int | Parsed1099B | Parsed1099Misc | Parsed1099Nec | Parsed1099R | Parsed1098 | Parsed1098T | Parsed1098E | Parsed1099Sa | Parsed5498Sa | ParsedSsa1099 | Parsed1099G | Parsed1095A | ConsolidatedBrokerageStatement | null;
   confidenceScore: number;
   method: string;
   processingTimeMs: number;
@@ -118,6 +118,56 @@ export class ParsingService {
           extractedFields = this.extract1099MiscFields(data);
           missingFields = this.get1099MiscMissingFields(data);
           break;
+        case "1099-NEC":
+          data = parse1099NecData(text, fileName);
+          extractedFields = this.extract1099NecFields(data);
+          missingFields = this.get1099NecMissingFields(data);
+          break;
+        case "1099-R":
+          data = parse1099RData(text, fileName);
+          extractedFields = this.extract1099RFields(data);
+          missingFields = this.get1099RMissingFields(data);
+          break;
+        case "1098":
+          data = parse1098Data(text, fileName);
+          extractedFields = this.extract1098Fields(data);
+          missingFields = this.get1098MissingFields(data);
+          break;
+        case "1098-T":
+          data = parse1098TData(text, fileName);
+          extractedFields = this.extract1098TFields(data);
+          missingFields = this.get1098TMissingFields(data);
+          break;
+        case "1098-E":
+          data = parse1098EData(text, fileName);
+          extractedFields = this.extract1098EFields(data);
+          missingFields = this.get1098EMissingFields(data);
+          break;
+        case "1099-SA":
+          data = parse1099SaData(text, fileName);
+          extractedFields = this.extract1099SaFields(data);
+          missingFields = this.get1099SaMissingFields(data);
+          break;
+        case "5498-SA":
+          data = parse5498SaData(text, fileName);
+          extractedFields = this.extract5498SaFields(data);
+          missingFields = this.get5498SaMissingFields(data);
+          break;
+        case "SSA-1099":
+          data = parseSsa1099Data(text);
+          extractedFields = this.extractSsa1099Fields(data);
+          missingFields = this.getSsa1099MissingFields(data);
+          break;
+        case "1099-G":
+          data = parse1099GData(text, fileName);
+          extractedFields = this.extract1099GFields(data);
+          missingFields = this.get1099GMissingFields(data);
+          break;
+        case "1095-A":
+          data = parse1095AData(text);
+          extractedFields = this.extract1095AFields(data);
+          missingFields = this.get1095AMissingFields(data);
+          break;
         case "CONSOLIDATED-BROKERAGE":
           data = parseConsolidatedBrokerageStatement(text);
           extractedFields = this.extractConsolidatedFields(data);
@@ -220,6 +270,26 @@ export class ParsingService {
         return this.extract1099BFields(data);
       case "1099-MISC":
         return this.extract1099MiscFields(data);
+      case "1099-NEC":
+        return this.extract1099NecFields(data);
+      case "1099-R":
+        return this.extract1099RFields(data);
+      case "1098":
+        return this.extract1098Fields(data);
+      case "1098-T":
+        return this.extract1098TFields(data);
+      case "1098-E":
+        return this.extract1098EFields(data);
+      case "1099-SA":
+        return this.extract1099SaFields(data);
+      case "5498-SA":
+        return this.extract5498SaFields(data);
+      case "SSA-1099":
+        return this.extractSsa1099Fields(data);
+      case "1099-G":
+        return this.extract1099GFields(data);
+      case "1095-A":
+        return this.extract1095AFields(data);
       case "CONSOLIDATED-BROKERAGE":
         return this.extractConsolidatedFields(data);
       default:
@@ -242,6 +312,26 @@ export class ParsingService {
         return ["payerName", "payerTin", "description", "dateAcquired", "dateSold", "proceeds", "costBasis", "shortTermGainLoss", "longTermGainLoss"];
       case "1099-MISC":
         return ["payerName", "payerTin", "rents", "royalties", "otherIncome", "federalWithheld"];
+      case "1099-NEC":
+        return ["payerName", "payerTin", "nonemployeeCompensation", "federalWithheld"];
+      case "1099-R":
+        return ["payerName", "payerTin", "grossDistribution", "taxableAmount", "federalWithheld", "distributionCode"];
+      case "1098":
+        return ["lenderName", "lenderTin", "mortgageInterest", "outstandingPrincipal", "mortgageInsurancePremiums", "pointsPaid", "propertyAddress"];
+      case "1098-T":
+        return ["institutionName", "institutionTin", "studentName", "paymentsReceived", "scholarships"];
+      case "1098-E":
+        return ["lenderName", "lenderTin", "studentLoanInterest"];
+      case "1099-SA":
+        return ["payerName", "payerTin", "grossDistribution", "distributionCode"];
+      case "5498-SA":
+        return ["trusteeName", "trusteeTin", "totalContributions", "fairMarketValue"];
+      case "SSA-1099":
+        return ["beneficiaryName", "benefitsPaid", "netBenefits"];
+      case "1099-G":
+        return ["payerName", "payerTin", "unemploymentCompensation", "stateLocalRefund", "federalWithheld"];
+      case "1095-A":
+        return ["issuerName", "policyNumber", "monthlyAmounts", "annualPremium", "annualSlcsp", "annualAdvancePayment"];
       case "CONSOLIDATED-BROKERAGE":
         return ["brokerName", "brokerTin", "accountNumber", "taxYear", "hasDivSection", "hasIntSection", "hasMiscSection", "hasBSection"];
       default:
@@ -262,6 +352,9 @@ export class ParsingService {
     if (data.socialSecurityWithheld) fields.push("socialSecurityWithheld");
     if (data.medicareWages) fields.push("medicareWages");
     if (data.medicareWithheld) fields.push("medicareWithheld");
+    if (data.dependentCareBenefits) fields.push("dependentCareBenefits");
+    if (data.box12?.length) fields.push("box12");
+    if (data.box14?.length) fields.push("box14");
     return fields;
   }
 
@@ -275,6 +368,7 @@ export class ParsingService {
     if (data.ordinaryDividends) fields.push("ordinaryDividends");
     if (data.qualifiedDividends) fields.push("qualifiedDividends");
     if (data.totalCapitalGain) fields.push("totalCapitalGain");
+    if (data.section199aDividends) fields.push("section199aDividends");
     return fields;
   }
 
@@ -359,6 +453,148 @@ export class ParsingService {
     return fields;
   }
 
+  /**
+   * Extract field names from parsed data for 1099-NEC
+   */
+  private extract1099NecFields(data: Parsed1099Nec): string[] {
+    const fields: string[] = [];
+    if (data.payerName) fields.push("payerName");
+    if (data.payerTin) fields.push("payerTin");
+    if (data.nonemployeeCompensation) fields.push("nonemployeeCompensation");
+    if (data.federalWithheld) fields.push("federalWithheld");
+    return fields;
+  }
+
+  /**
+   * Extract field names from parsed data for 1099-R
+   */
+  private extract1099RFields(data: Parsed1099R): string[] {
+    const fields: string[] = [];
+    if (data.payerName) fields.push("payerName");
+    if (data.payerTin) fields.push("payerTin");
+    if (data.grossDistribution) fields.push("grossDistribution");
+    if (data.taxableAmount) fields.push("taxableAmount");
+    if (data.federalWithheld) fields.push("federalWithheld");
+    if (data.distributionCode) fields.push("distributionCode");
+    return fields;
+  }
+
+  /**
+   * Extract field names from parsed data for 1098
+   */
+  private extract1098Fields(data: Parsed1098): string[] {
+    const fields: string[] = [];
+    if (data.lenderName) fields.push("lenderName");
+    if (data.lenderTin) fields.push("lenderTin");
+    if (data.mortgageInterest) fields.push("mortgageInterest");
+    if (data.outstandingPrincipal) fields.push("outstandingPrincipal");
+    if (data.mortgageInsurancePremiums) fields.push("mortgageInsurancePremiums");
+    if (data.pointsPaid) fields.push("pointsPaid");
+    if (data.propertyAddress) fields.push("propertyAddress");
+    return fields;
+  }
+
+  /**
+   * Extract field names from parsed data for 1098-T
+   */
+  private extract1098TFields(data: Parsed1098T): string[] {
+    const fields: string[] = [];
+    if (data.institutionName) fields.push("institutionName");
+    if (data.institutionTin) fields.push("institutionTin");
+    if (data.studentName) fields.push("studentName");
+    if (data.paymentsReceived) fields.push("paymentsReceived");
+    if (data.scholarships) fields.push("scholarships");
+    return fields;
+  }
+
+  /**
+   * Extract field names from parsed data for 1098-E
+   */
+  private extract1098EFields(data: Parsed1098E): string[] {
+    const fields: string[] = [];
+    if (data.lenderName) fields.push("lenderName");
+    if (data.lenderTin) fields.push("lenderTin");
+    if (data.studentLoanInterest) fields.push("studentLoanInterest");
+    return fields;
+  }
+
+  /**
+   * Extract field names from parsed data for 1099-SA
+   */
+  private extract1099SaFields(data: Parsed1099Sa): string[] {
+    const fields: string[] = [];
+    if (data.payerName) fields.push("payerName");
+    if (data.payerTin) fields.push("payerTin");
+    if (data.grossDistribution) fields.push("grossDistribution");
+    if (data.earningsOnExcess) fields.push("earningsOnExcess");
+    if (data.distributionCode) fields.push("distributionCode");
+    if (data.fairMarketValueOnDeath) fields.push("fairMarketValueOnDeath");
+    return fields;
+  }
+
+  /**
+   * Extract field names from parsed data for 5498-SA
+   */
+  private extract5498SaFields(data: Parsed5498Sa): string[] {
+    const fields: string[] = [];
+    if (data.trusteeName) fields.push("trusteeName");
+    if (data.trusteeTin) fields.push("trusteeTin");
+    if (data.totalContributions) fields.push("totalContributions");
+    if (data.followingYearContributions) fields.push("followingYearContributions");
+    if (data.rolloverContributions) fields.push("rolloverContributions");
+    if (data.fairMarketValue) fields.push("fairMarketValue");
+    return fields;
+  }
+
+  /**
+   * Extract field names from parsed data for SSA-1099
+   */
+  private extractSsa1099Fields(data: ParsedSsa1099): string[] {
+    const fields: string[] = [];
+    if (data.beneficiaryName) fields.push("beneficiaryName");
+    if (data.beneficiarySsn) fields.push("beneficiarySsn");
+    if (data.benefitsPaid) fields.push("benefitsPaid");
+    if (data.benefitsRepaid) fields.push("benefitsRepaid");
+    if (data.netBenefits) fields.push("netBenefits");
+    if (data.federalWithheld) fields.push("federalWithheld");
+    return fields;
+  }
+
+  /**
+   * Extract field names from parsed data for 1099-G
+   */
+  private extract1099GFields(data: Parsed1099G): string[] {
+    const fields: string[] = [];
+    if (data.payerName) fields.push("payerName");
+    if (data.payerTin) fields.push("payerTin");
+    if (data.unemploymentCompensation) fields.push("unemploymentCompensation");
+    if (data.stateLocalRefund) fields.push("stateLocalRefund");
+    if (data.refundTaxYear) fields.push("refundTaxYear");
+    if (data.federalWithheld) fields.push("federalWithheld");
+    if (data.taxableGrants) fields.push("taxableGrants");
+    if (data.agriculturePayments) fields.push("agriculturePayments");
+    if (data.stateWithheld) fields.push("stateWithheld");
+    return fields;
+  }
+
+  /**
+   * Extract field names from parsed data for 1095-A
+   */
+  private extract1095AFields(data: Parsed1095A): string[] {
+    const fields: string[] = [];
+    if (data.marketplaceId) fields.push("marketplaceId");
+    if (data.policyNumber) fields.push("policyNumber");
+    if (data.issuerName) fields.push("issuerName");
+    if (data.recipientName) fields.push("recipientName");
+    if (data.policyStartDate) fields.push("policyStartDate");
+    if (data.policyEndDate) fields.push("policyEndDate");
+    if (data.monthlyAmounts?.length) fields.push("monthlyAmounts");
+    if (data.annualPremium) fields.push("annualPremium");
+    if (data.annualSlcsp) fields.push("annualSlcsp");
+    if (data.annualAdvancePayment) fields.push("annualAdvancePayment");
+    return fields;
+  }
+
   /**
    * Extract field names from parsed data for Consolidated Brokerage Statement
    */
@@ -384,6 +620,96 @@ export class ParsingService {
     return expected.filter(field => !extracted.includes(field));
   }
 
+  /**
+   * Get missing fields for 1099-NEC
+   */
+  private get1099NecMissingFields(data: Parsed1099Nec): string[] {
+    const expected = this.getExpectedFields("1099-NEC");
+    const extracted = this.extract1099NecFields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
+  /**
+   * Get missing fields for 1099-R
+   */
+  private get1099RMissingFields(data: Parsed1099R): string[] {
+    const expected = this.getExpectedFields("1099-R");
+    const extracted = this.extract1099RFields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
+  /**
+   * Get missing fields for 1098
+   */
+  private get1098MissingFields(data: Parsed1098): string[] {
+    const expected = this.getExpectedFields("1098");
+    const extracted = this.extract1098Fields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
+  /**
+   * Get missing fields for 1098-T
+   */
+  private get1098TMissingFields(data: Parsed1098T): string[] {
+    const expected = this.getExpectedFields("1098-T");
+    const extracted = this.extract1098TFields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
+  /**
+   * Get missing fields for 1098-E
+   */
+  private get1098EMissingFields(data: Parsed1098E): string[] {
+    const expected = this.getExpectedFields("1098-E");
+    const extracted = this.extract1098EFields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
+  /**
+   * Get missing fields for 1099-SA
+   */
+  private get1099SaMissingFields(data: Parsed1099Sa): string[] {
+    const expected = this.getExpectedFields("1099-SA");
+    const extracted = this.extract1099SaFields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
+  /**
+   * Get missing fields for 5498-SA
+   */
+  private get5498SaMissingFields(data: Parsed5498Sa): string[] {
+    const expected = this.getExpectedFields("5498-SA");
+    const extracted = this.extract5498SaFields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
+  /**
+   * Get missing fields for SSA-1099
+   */
+  private getSsa1099MissingFields(data: ParsedSsa1099): string[] {
+    const expected = this.getExpectedFields("SSA-1099");
+    const extracted = this.extractSsa1099Fields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
+  /**
+   * Get missing fields for 1099-G
+   */
+  private get1099GMissingFields(data: Parsed1099G): string[] {
+    const expected = this.getExpectedFields("1099-G");
+    const extracted = this.extract1099GFields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
+  /**
+   * Get missing fields for 1095-A
+   */
+  private get1095AMissingFields(data: Parsed1095A): string[] {
+    const expected = this.getExpectedFields("1095-A");
+    const extracted = this.extract1095AFields(data);
+    return expected.filter(field => !extracted.includes(field));
+  }
+
   /**
    * Get missing fields for Consolidated Brokerage Statement
    */
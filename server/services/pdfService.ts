@@ -1,5 +1,19 @@
 import PDFDocument from "pdfkit";
-import type { Form1040, Form8949, ScheduleD, TaxReturn, User } from "@shared/schema";
+import type { CareProvider, Form1040, Form1040Es, Form1116, Form2210, Form2441, Form5329, Form5695, Form6251, Form8606, Form8615, Form8995, Form8863, Form8880, Form8889, Form8949, Form8962, Form8959, Form8960, Schedule1, Schedule8812, ScheduleC, ScheduleD, ScheduleSE, TaxReturn, User } from "@shared/schema";
+import type { CreditsBreakdown } from "./creditsService";
+import type { W2BenefitsSummary } from "./w2BenefitsService";
+import type { Schedule8812Line } from "./childTaxCreditService";
+import type { Form6251Line } from "./alternativeMinimumTaxService";
+import type { Form8863Line, Form8863Student } from "./educationService";
+import type { Form8889Line } from "./hsaService";
+import type { Form1116Line } from "./foreignTaxCreditService";
+import type { Form1040EsVoucher, Form2210Installment, Form2210Line } from "./estimatedTaxService";
+import type { CareProviderPayment, Form2441Line, Form2441Person } from "./dependentCareService";
+import type { Form8962Line, Form8962Month } from "./premiumTaxCreditService";
+import type { Form8606Line, Form8880Line } from "./iraService";
+import type { Form5695Line } from "./energyCreditService";
+import type { Form8615Line } from "./kiddieTaxService";
+import type { Form8995Line, QbiBusinessResult } from "./qbiDeductionService";
 
 export interface PDFGenerationOptions {
   includeInstructions: boolean;
@@ -8,6 +22,31 @@ export interface PDFGenerationOptions {
   signatureRequired: boolean;
 }
 
+export interface SupplementalForms {
+  form8959?: Form8959 | null;
+  form8960?: Form8960 | null;
+  form5329?: Form5329 | null;
+  schedule1?: Schedule1 | null;
+  scheduleC?: ScheduleC | null;
+  scheduleSE?: ScheduleSE | null;
+  schedule8812?: Schedule8812 | null;
+  form6251?: Form6251 | null;
+  form8863?: Form8863 | null;
+  form8889?: Form8889[];
+  form1116?: Form1116 | null;
+  form2210?: Form2210 | null;
+  form2441?: Form2441 | null;
+  careProviders?: CareProvider[];
+  form8962?: Form8962 | null;
+  form8606?: Form8606[];
+  form8880?: Form8880 | null;
+  form5695?: Form5695 | null;
+  form8615?: Form8615 | null;
+  form8995?: Form8995 | null;
+}
+
+export type IndividualFormType = "1040" | "8949" | "schedule-d" | "8959" | "8960" | "5329" | "schedule-1" | "schedule-c" | "schedule-se" | "schedule-8812" | "6251" | "8863" | "8889" | "1116" | "2210" | "2441" | "8962" | "8606" | "8880" | "5695" | "8615" | "8995" | "1040-es";
+
 export class PDFService {
   /**
    * Generate comprehensive tax forms PDF package
@@ -22,7 +61,8 @@ export class PDFService {
       includeInstructions: true,
       includeCoverLetter: true,
       signatureRequired: true,
-    }
+    },
+    supplementalForms: SupplementalForms = {}
   ): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       try {
@@ -43,6 +83,91 @@ export class PDFService {
         // Form 1040
         this.addForm1040(doc, form1040, taxReturn, user);
 
+        // Schedule 1 - only when there is additional income or an adjustment
+        const { form8959, form8960, form5329, schedule1, scheduleC, scheduleSE, schedule8812, form6251, form8863, form8889, form1116, form2210, form2441, careProviders, form8962, form8606, form8880, form5695, form8615, form8995 } = supplementalForms;
+        if (schedule1 && (parseFloat(schedule1.totalAdditionalIncome || "0") !== 0 || parseFloat(schedule1.totalAdjustments || "0") !== 0)) {
+          this.addSchedule1(doc, schedule1);
+        }
+
+        // Schedule C
+        if (scheduleC) {
+          this.addScheduleC(doc, scheduleC);
+        }
+
+        // Schedule SE - only when self-employment tax applies
+        if (scheduleSE && parseFloat(scheduleSE.selfEmploymentTax || "0") > 0) {
+          this.addScheduleSE(doc, scheduleSE);
+        }
+
+        // Schedule 8812 - only when a dependent is claimed
+        if (schedule8812 && (schedule8812.qualifyingChildren || 0) + (schedule8812.otherDependents || 0) > 0) {
+          this.addSchedule8812(doc, schedule8812);
+        }
+
+        // Form 8995 / 8995-A - when a QBI deduction is taken or a loss carries forward
+        if (form8995 && (parseFloat(form8995.qbiDeduction || "0") > 0 || parseFloat(form8995.qbiLossCarryforward || "0") > 0 || parseFloat(form8995.reitPtpLossCarryforward || "0") > 0)) {
+          this.addForm8995(doc, form8995);
+        }
+
+        // Form 6251 - only when AMT is owed
+        if (form6251 && parseFloat(form6251.alternativeMinimumTax || "0") > 0) {
+          this.addForm6251(doc, form6251);
+        }
+
+        // Form 8615 - only when a child's unearned income is taxed at the parent's rate
+        if (form8615 && form8615.isRequired) {
+          this.addForm8615(doc, form8615);
+        }
+
+        // Form 8863 - only when an education credit is claimed
+        if (form8863 && (parseFloat(form8863.nonrefundableEducationCredits || "0") > 0 || parseFloat(form8863.refundableAmericanOpportunityCredit || "0") > 0)) {
+          this.addForm8863(doc, form8863);
+        }
+
+        // Form 2441 - only when a dependent care credit or benefits are claimed
+        if (form2441 && (parseFloat(form2441.dependentCareCredit || "0") > 0 || parseFloat(form2441.dependentCareBenefits || "0") > 0)) {
+          this.addForm2441(doc, form2441, careProviders || []);
+        }
+
+        // Form 8962 - only when Marketplace coverage was reconciled
+        if (form8962 && (parseFloat(form8962.advancePayments || "0") > 0 || parseFloat(form8962.totalPremiumTaxCredit || "0") > 0)) {
+          this.addForm8962(doc, form8962);
+        }
+
+        // Form 8880 - only when a saver's credit is claimed
+        if (form8880 && parseFloat(form8880.retirementSavingsCredit || "0") > 0) {
+          this.addForm8880(doc, form8880);
+        }
+
+        // Form 5695 - when an energy credit is claimed or carried forward
+        if (form5695 && (parseFloat(form5695.totalCleanEnergyCredit || "0") > 0 || parseFloat(form5695.homeImprovementCredit || "0") > 0)) {
+          this.addForm5695(doc, form5695);
+        }
+
+        // Form 1116 - not needed under the simplified election
+        if (form1116 && form1116.method === "form_1116") {
+          this.addForm1116(doc, form1116);
+        }
+
+        // Form 2210 - only when an underpayment penalty is owed
+        if (form2210 && parseFloat(form2210.penalty || "0") > 0) {
+          this.addForm2210(doc, form2210);
+        }
+
+        // Form 8889 - one per spouse with HSA contributions or distributions
+        for (const form of form8889 || []) {
+          if (parseFloat(form.hsaDeduction || "0") > 0 || parseFloat(form.employerContributions || "0") > 0 || parseFloat(form.totalDistributions || "0") > 0) {
+            this.addForm8889(doc, form);
+          }
+        }
+
+        // Form 8606 - one per spouse with nondeductible contributions, basis or distributions against basis
+        for (const form of form8606 || []) {
+          if (parseFloat(form.nondeductibleContributions || "0") > 0 || parseFloat(form.nontaxableDistributions || "0") > 0 || parseFloat(form.taxableConversions || "0") > 0) {
+            this.addForm8606(doc, form);
+          }
+        }
+
         // Schedule D
         if (scheduleD) {
           this.addScheduleD(doc, scheduleD);
@@ -53,6 +178,21 @@ export class PDFService {
           this.addForm8949(doc, form8949Data);
         }
 
+        // Form 8959 - only when Additional Medicare Tax or withholding applies
+        if (form8959 && (parseFloat(form8959.additionalMedicareTax || "0") > 0 || parseFloat(form8959.additionalMedicareWithholding || "0") > 0)) {
+          this.addForm8959(doc, form8959);
+        }
+
+        // Form 8960 - only when Net Investment Income Tax applies
+        if (form8960 && parseFloat(form8960.netInvestmentIncomeTax || "0") > 0) {
+          this.addForm8960(doc, form8960);
+        }
+
+        // Form 5329 - only when the additional tax on early distributions applies
+        if (form5329 && parseFloat(form5329.additionalTax || "0") > 0) {
+          this.addForm5329(doc, form5329);
+        }
+
         // Instructions
         if (options.includeInstructions) {
           this.addInstructions(doc, taxReturn);
@@ -79,7 +219,7 @@ export class PDFService {
    * Generate individual form PDF
    */
   async generateFormPDF(
-    formType: "1040" | "8949" | "schedule-d",
+    formType: IndividualFormType,
     data: any,
     user: User,
     taxReturn: TaxReturn
@@ -105,6 +245,66 @@ export class PDFService {
           case "schedule-d":
             this.addScheduleD(doc, data);
             break;
+          case "8959":
+            this.addForm8959(doc, data);
+            break;
+          case "8960":
+            this.addForm8960(doc, data);
+            break;
+          case "5329":
+            this.addForm5329(doc, data);
+            break;
+          case "schedule-1":
+            this.addSchedule1(doc, data);
+            break;
+          case "schedule-c":
+            this.addScheduleC(doc, data);
+            break;
+          case "schedule-se":
+            this.addScheduleSE(doc, data);
+            break;
+          case "schedule-8812":
+            this.addSchedule8812(doc, data);
+            break;
+          case "6251":
+            this.addForm6251(doc, data);
+            break;
+          case "8863":
+            this.addForm8863(doc, data);
+            break;
+          case "1116":
+            this.addForm1116(doc, data);
+            break;
+          case "2210":
+            this.addForm2210(doc, data);
+            break;
+          case "2441":
+            this.addForm2441(doc, data.form2441, data.careProviders);
+            break;
+          case "8962":
+            this.addForm8962(doc, data);
+            break;
+          case "1040-es":
+            this.addForm1040EsVouchers(doc, data, user);
+            break;
+          case "8889":
+            (Array.isArray(data) ? data : [data]).forEach((form: Form8889) => this.addForm8889(doc, form));
+            break;
+          case "8606":
+            (Array.isArray(data) ? data : [data]).forEach((form: Form8606) => this.addForm8606(doc, form));
+            break;
+          case "8880":
+            this.addForm8880(doc, data);
+            break;
+          case "5695":
+            this.addForm5695(doc, data);
+            break;
+          case "8615":
+            this.addForm8615(doc, data);
+            break;
+          case "8995":
+            this.addForm8995(doc, data);
+            break;
         }
 
         doc.end();
@@ -128,8 +328,26 @@ export class PDFService {
     doc.moveDown(0.5);
 
     doc.text("• Form 1040 - U.S. Individual Income Tax Return");
+    doc.text("• Schedule 1 - Additional Income and Adjustments to Income (if applicable)");
+    doc.text("• Schedule C - Profit or Loss From Business (if applicable)");
+    doc.text("• Schedule SE - Self-Employment Tax (if applicable)");
+    doc.text("• Schedule 8812 - Credits for Qualifying Children and Other Dependents (if applicable)");
+    doc.text("• Form 8995 or 8995-A - Qualified Business Income Deduction (if applicable)");
+    doc.text("• Form 6251 - Alternative Minimum Tax (if applicable)");
+    doc.text("• Form 8615 - Tax for Certain Children Who Have Unearned Income (if applicable)");
+    doc.text("• Form 1116 - Foreign Tax Credit (if applicable)");
+    doc.text("• Form 2441 - Child and Dependent Care Expenses (if applicable)");
+    doc.text("• Form 8863 - Education Credits (if applicable)");
+    doc.text("• Form 2210 - Underpayment of Estimated Tax (if applicable)");
+    doc.text("• Form 8889 - Health Savings Accounts (if applicable)");
+    doc.text("• Form 8606 - Nondeductible IRAs (if applicable)");
+    doc.text("• Form 8880 - Credit for Qualified Retirement Savings Contributions (if applicable)");
+    doc.text("• Form 5695 - Residential Energy Credits (if applicable)");
     doc.text("• Schedule D - Capital Gains and Losses (if applicable)");
     doc.text("• Form 8949 - Sales and Other Dispositions of Capital Assets (if applicable)");
+    doc.text("• Form 8959 - Additional Medicare Tax (if applicable)");
+    doc.text("• Form 8960 - Net Investment Income Tax (if applicable)");
+    doc.text("• Form 5329 - Additional Taxes on Qualified Plans (if applicable)");
     doc.text("• Filing instructions and next steps");
     doc.moveDown(1);
 
@@ -176,10 +394,35 @@ export class PDFService {
     doc.text(`2b. Taxable interest: $${interest.toFixed(2)}`);
     doc.text(`3a. Qualified dividends: $${qualifiedDividends.toFixed(2)}`);
     doc.text(`3b. Ordinary dividends: $${dividends.toFixed(2)}`);
+    doc.text(`4a. IRA distributions: $${parseFloat(form1040.iraDistributions || "0").toFixed(2)}`);
+    doc.text(`4b. Taxable amount: $${parseFloat(form1040.taxableIraDistributions || "0").toFixed(2)}`);
+    doc.text(`5a. Pensions and annuities: $${parseFloat(form1040.pensionsAnnuities || "0").toFixed(2)}`);
+    doc.text(`5b. Taxable amount: $${parseFloat(form1040.taxablePensionsAnnuities || "0").toFixed(2)}`);
+    doc.text(`6a. Social security benefits: $${parseFloat(form1040.socialSecurityBenefits || "0").toFixed(2)}`);
+    doc.text(`6b. Taxable amount: $${parseFloat(form1040.taxableSocialSecurityBenefits || "0").toFixed(2)}`);
     doc.text(`7. Capital gain or (loss): $${capitalGains.toFixed(2)}`);
+    doc.text(`8. Additional income from Schedule 1: $${parseFloat(form1040.additionalIncome || "0").toFixed(2)}`);
     doc.text(`9. Total income: $${totalIncome.toFixed(2)}`);
     doc.moveDown(1.5);
 
+    // W-2 retirement deferrals and pre-tax benefits (boxes 10, 12 and 13)
+    const w2Benefits = form1040.w2Benefits as W2BenefitsSummary | null;
+    if (w2Benefits && w2Benefits.employers.length > 0) {
+      doc.fontSize(14).text("W-2 Retirement Deferrals and Benefits", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11).text(`Pre-tax elective deferrals (box 12 D, E, F, G, H, S): $${w2Benefits.electiveDeferrals.toFixed(2)}`);
+      doc.text(`Roth deferrals (box 12 AA, BB, EE): $${w2Benefits.rothDeferrals.toFixed(2)}`);
+      doc.text(`Employer HSA contributions (box 12 W): $${w2Benefits.employerHsaContributions.toFixed(2)}`);
+      doc.text(`Dependent care benefits (box 10): $${w2Benefits.dependentCareBenefits.toFixed(2)}`);
+      doc.text(`1e. Taxable dependent care benefits: $${w2Benefits.taxableDependentCareBenefits.toFixed(2)}`);
+      doc.text(`Employer-sponsored health coverage (box 12 DD, not taxable): $${w2Benefits.employerHealthCoverage.toFixed(2)}`);
+      if (w2Benefits.uncollectedSocialSecurityMedicareTax > 0) {
+        doc.text(`Uncollected social security and Medicare tax (Schedule 2 line 13): $${w2Benefits.uncollectedSocialSecurityMedicareTax.toFixed(2)}`);
+      }
+      doc.text(`Covered by a workplace retirement plan (box 13): ${w2Benefits.retirementPlanCovered ? "Yes" : "No"}`);
+      doc.moveDown(1.5);
+    }
+
     // Adjusted Gross Income
     doc.fontSize(14).text("Adjusted Gross Income", { underline: true });
     doc.moveDown(0.5);
@@ -192,10 +435,19 @@ export class PDFService {
     doc.fontSize(14).text("Tax and Credits", { underline: true });
     doc.moveDown(0.5);
     doc.fontSize(11);
-    doc.text(`12. Standard deduction: $${parseFloat(form1040.standardDeduction || "0").toFixed(2)}`);
+    doc.text(`12. ${form1040.deductionType === "itemized" ? "Itemized deductions (Schedule A)" : "Standard deduction"}: $${parseFloat(form1040.standardDeduction || "0").toFixed(2)}`);
+    if (parseFloat(form1040.qbiDeduction || "0") > 0) {
+      doc.text(`13. Qualified business income deduction: $${parseFloat(form1040.qbiDeduction || "0").toFixed(2)}`);
+    }
     doc.text(`15. Taxable income: $${parseFloat(form1040.taxableIncome || "0").toFixed(2)}`);
     doc.text(`16. Tax: $${parseFloat(form1040.tax || "0").toFixed(2)}`);
-    doc.text(`19. Total tax: $${parseFloat(form1040.totalTax || "0").toFixed(2)}`);
+    const credits = form1040.creditsBreakdown as CreditsBreakdown | null;
+    doc.text(`17. Alternative minimum tax and excess advance premium tax credit repayment (Schedule 2): $${(parseFloat(form1040.alternativeMinimumTax || "0") + parseFloat(form1040.excessAdvancePremiumTaxCredit || "0")).toFixed(2)}`);
+    doc.text(`19. Child tax credit: $${(credits?.childTaxCredit || 0).toFixed(2)}`);
+    doc.text(`20. Schedule 3 credits (foreign tax, dependent care, education, saver's, energy): $${(credits?.scheduleThreeCredits ?? credits?.educationCredits ?? 0).toFixed(2)}`);
+    doc.text(`21. Total credits: $${(credits?.totalNonrefundableCredits || 0).toFixed(2)}`);
+    doc.text(`23. Other taxes (Schedule 2): $${parseFloat(form1040.otherTaxes || "0").toFixed(2)}`);
+    doc.text(`24. Total tax: $${parseFloat(form1040.totalTax || "0").toFixed(2)}`);
     doc.moveDown(1.5);
 
     // Payments
@@ -203,6 +455,12 @@ export class PDFService {
     doc.moveDown(0.5);
     doc.fontSize(11);
     doc.text(`25. Federal income tax withheld: $${parseFloat(form1040.federalWithheld || "0").toFixed(2)}`);
+    doc.text(`26. Estimated tax payments and amount applied from prior year: $${parseFloat(form1040.estimatedTaxPayments || "0").toFixed(2)}`);
+    doc.text(`27. Earned income credit (EIC): $${(credits?.earnedIncomeCredit || 0).toFixed(2)}`);
+    doc.text(`28. Additional child tax credit (Schedule 8812): $${(credits?.additionalChildTaxCredit || 0).toFixed(2)}`);
+    doc.text(`29. American opportunity credit (Form 8863): $${(credits?.americanOpportunityCredit || 0).toFixed(2)}`);
+    doc.text(`31. Net premium tax credit (Schedule 3 line 9, Form 8962): $${(credits?.netPremiumTaxCredit || 0).toFixed(2)}`);
+    doc.text(`32. Total other payments and refundable credits: $${(credits?.totalRefundableCredits || 0).toFixed(2)}`);
     doc.moveDown(1.5);
 
     // Refund or Amount Owed
@@ -215,6 +473,9 @@ export class PDFService {
         ? `34. Amount to be refunded: $${refundOrOwed.toFixed(2)}`
         : `37. Amount you owe: $${Math.abs(refundOrOwed).toFixed(2)}`
     );
+    if (parseFloat(form1040.estimatedTaxPenalty || "0") > 0) {
+      doc.text(`38. Estimated tax penalty (Form 2210): $${parseFloat(form1040.estimatedTaxPenalty || "0").toFixed(2)}`);
+    }
 
     doc.addPage();
   }
@@ -256,6 +517,749 @@ export class PDFService {
     doc.addPage();
   }
 
+  /**
+   * Add Form 8959 to PDF
+   */
+  private addForm8959(doc: typeof PDFDocument, form8959: Form8959): void {
+    doc.fontSize(16).text("Form 8959", { align: "center" });
+    doc.fontSize(12).text("Additional Medicare Tax", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part I - Additional Medicare Tax on Medicare Wages", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`1. Medicare wages and tips: $${parseFloat(form8959.medicareWages || "0").toFixed(2)}`);
+    doc.text(`4. Total: $${parseFloat(form8959.medicareWages || "0").toFixed(2)}`);
+    doc.text(`5. Threshold for filing status: $${parseFloat(form8959.threshold || "0").toFixed(2)}`);
+    doc.text(`6. Excess over threshold: $${parseFloat(form8959.excessWages || "0").toFixed(2)}`);
+    doc.text(`7. Additional Medicare Tax on Medicare wages (0.9%): $${parseFloat(form8959.wageAdditionalMedicareTax || "0").toFixed(2)}`);
+    doc.moveDown(1);
+
+    if (parseFloat(form8959.selfEmploymentIncome || "0") > 0) {
+      doc.fontSize(14).text("Part II - Additional Medicare Tax on Self-Employment Income", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11);
+      doc.text(`8. Self-employment income (Schedule SE, line 6): $${parseFloat(form8959.selfEmploymentIncome || "0").toFixed(2)}`);
+      doc.text(`9. Threshold for filing status: $${parseFloat(form8959.threshold || "0").toFixed(2)}`);
+      doc.text(`10. Medicare wages and tips (line 4): $${parseFloat(form8959.medicareWages || "0").toFixed(2)}`);
+      doc.text(`11. Remaining threshold: $${parseFloat(form8959.selfEmploymentThreshold || "0").toFixed(2)}`);
+      doc.text(`12. Excess over remaining threshold: $${parseFloat(form8959.excessSelfEmploymentIncome || "0").toFixed(2)}`);
+      doc.text(`13. Additional Medicare Tax on self-employment income (0.9%): $${parseFloat(form8959.selfEmploymentAdditionalMedicareTax || "0").toFixed(2)}`);
+      doc.moveDown(1);
+    }
+
+    doc.fontSize(14).text("Part IV - Total Additional Medicare Tax", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`18. Total Additional Medicare Tax: $${parseFloat(form8959.additionalMedicareTax || "0").toFixed(2)}`);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part V - Withholding Reconciliation", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`19. Medicare tax withheld: $${parseFloat(form8959.medicareWithheld || "0").toFixed(2)}`);
+    doc.text(`20. Medicare wages and tips: $${parseFloat(form8959.medicareWages || "0").toFixed(2)}`);
+    doc.text(`21. Regular Medicare tax withholding (1.45%): $${parseFloat(form8959.regularMedicareWithholding || "0").toFixed(2)}`);
+    doc.text(`24. Total Additional Medicare Tax withholding: $${parseFloat(form8959.additionalMedicareWithholding || "0").toFixed(2)}`);
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 8960 to PDF
+   */
+  private addForm8960(doc: typeof PDFDocument, form8960: Form8960): void {
+    doc.fontSize(16).text("Form 8960", { align: "center" });
+    doc.fontSize(12).text("Net Investment Income Tax - Individuals, Estates, and Trusts", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part I - Investment Income", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`1. Taxable interest: $${parseFloat(form8960.taxableInterest || "0").toFixed(2)}`);
+    doc.text(`2. Ordinary dividends: $${parseFloat(form8960.ordinaryDividends || "0").toFixed(2)}`);
+    doc.text(`5d. Net gain or loss from disposition of property: $${parseFloat(form8960.netGain || "0").toFixed(2)}`);
+    doc.text(`7. Other modifications to investment income: $${parseFloat(form8960.otherInvestmentIncome || "0").toFixed(2)}`);
+    doc.text(`8. Total investment income: $${parseFloat(form8960.totalInvestmentIncome || "0").toFixed(2)}`);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part II - Investment Expenses", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`11. Total deductions and modifications: $${parseFloat(form8960.investmentExpenses || "0").toFixed(2)}`);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part III - Tax Computation", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`12. Net investment income: $${parseFloat(form8960.netInvestmentIncome || "0").toFixed(2)}`);
+    doc.text(`13. Modified adjusted gross income: $${parseFloat(form8960.modifiedAgi || "0").toFixed(2)}`);
+    doc.text(`14. Threshold for filing status: $${parseFloat(form8960.threshold || "0").toFixed(2)}`);
+    doc.text(`15. Excess over threshold: $${parseFloat(form8960.excessMagi || "0").toFixed(2)}`);
+    doc.text(`17. Net investment income tax (3.8%): $${parseFloat(form8960.netInvestmentIncomeTax || "0").toFixed(2)}`);
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Schedule 1 to PDF
+   */
+  private addSchedule1(doc: typeof PDFDocument, schedule1: Schedule1): void {
+    doc.fontSize(16).text("Schedule 1 (Form 1040)", { align: "center" });
+    doc.fontSize(12).text("Additional Income and Adjustments to Income", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part I - Additional Income", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`1. Taxable refunds of state and local income taxes: $${parseFloat(schedule1.taxableRefunds || "0").toFixed(2)}`);
+    doc.text(`3. Business income or (loss) (Schedule C): $${parseFloat(schedule1.businessIncome || "0").toFixed(2)}`);
+    doc.text(`5. Rental real estate, royalties (Schedule E): $${parseFloat(schedule1.rentalRoyaltyIncome || "0").toFixed(2)}`);
+    doc.text(`7. Unemployment compensation: $${parseFloat(schedule1.unemploymentCompensation || "0").toFixed(2)}`);
+    doc.text(`8f. Taxable HSA distributions (Form 8889): $${parseFloat(schedule1.hsaDistributions || "0").toFixed(2)}`);
+    doc.text(`8z. Other income: $${parseFloat(schedule1.otherIncome || "0").toFixed(2)}`);
+    doc.text(`10. Total additional income: $${parseFloat(schedule1.totalAdditionalIncome || "0").toFixed(2)}`);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part II - Adjustments to Income", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`13. Health savings account deduction (Form 8889): $${parseFloat(schedule1.hsaDeduction || "0").toFixed(2)}`);
+    doc.text(`15. Deductible part of self-employment tax (Schedule SE): $${parseFloat(schedule1.selfEmploymentTaxDeduction || "0").toFixed(2)}`);
+    doc.text(`20. IRA deduction: $${parseFloat(schedule1.iraDeduction || "0").toFixed(2)}`);
+    doc.text(`21. Student loan interest deduction: $${parseFloat(schedule1.studentLoanInterestDeduction || "0").toFixed(2)}`);
+    doc.text(`26. Total adjustments to income: $${parseFloat(schedule1.totalAdjustments || "0").toFixed(2)}`);
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Schedule C to PDF
+   */
+  private addScheduleC(doc: typeof PDFDocument, scheduleC: ScheduleC): void {
+    doc.fontSize(16).text("Schedule C (Form 1040)", { align: "center" });
+    doc.fontSize(12).text("Profit or Loss From Business", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(11);
+    doc.text(`Business name: ${scheduleC.businessName || "N/A"}`);
+    doc.text(`B. Principal business code: ${scheduleC.principalBusinessCode || "N/A"}`);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part I - Income", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    const grossReceipts = parseFloat(scheduleC.grossReceipts || "0") + parseFloat(scheduleC.form1099Receipts || "0");
+    doc.text(`1. Gross receipts or sales: $${grossReceipts.toFixed(2)}`);
+    doc.text(`2. Returns and allowances: $${parseFloat(scheduleC.returnsAllowances || "0").toFixed(2)}`);
+    doc.text(`4. Cost of goods sold: $${parseFloat(scheduleC.costOfGoodsSold || "0").toFixed(2)}`);
+    doc.text(`6. Other income: $${parseFloat(scheduleC.otherBusinessIncome || "0").toFixed(2)}`);
+    doc.text(`7. Gross income: $${parseFloat(scheduleC.grossIncome || "0").toFixed(2)}`);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part II - Expenses", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`8. Advertising: $${parseFloat(scheduleC.advertising || "0").toFixed(2)}`);
+    doc.text(`9. Car and truck expenses (${scheduleC.businessMiles || 0} business miles): $${parseFloat(scheduleC.carTruckExpenses || "0").toFixed(2)}`);
+    doc.text(`11. Contract labor: $${parseFloat(scheduleC.contractLabor || "0").toFixed(2)}`);
+    doc.text(`15. Insurance (other than health): $${parseFloat(scheduleC.insurance || "0").toFixed(2)}`);
+    doc.text(`17. Legal and professional services: $${parseFloat(scheduleC.legalProfessional || "0").toFixed(2)}`);
+    doc.text(`18. Office expense: $${parseFloat(scheduleC.officeExpense || "0").toFixed(2)}`);
+    doc.text(`20b. Rent or lease (other business property): $${parseFloat(scheduleC.rentLease || "0").toFixed(2)}`);
+    doc.text(`22. Supplies: $${parseFloat(scheduleC.supplies || "0").toFixed(2)}`);
+    doc.text(`23. Taxes and licenses: $${parseFloat(scheduleC.taxesLicenses || "0").toFixed(2)}`);
+    doc.text(`24a. Travel: $${parseFloat(scheduleC.travel || "0").toFixed(2)}`);
+    doc.text(`24b. Deductible meals (50%): $${parseFloat(scheduleC.deductibleMeals || "0").toFixed(2)}`);
+    doc.text(`25. Utilities: $${parseFloat(scheduleC.utilities || "0").toFixed(2)}`);
+    doc.text(`27a. Other expenses: $${parseFloat(scheduleC.otherExpenses || "0").toFixed(2)}`);
+    doc.text(`28. Total expenses: $${parseFloat(scheduleC.totalExpenses || "0").toFixed(2)}`);
+    doc.text(`30. Business use of home (simplified method, ${scheduleC.homeOfficeSquareFeet || 0} sq. ft.): $${parseFloat(scheduleC.homeOfficeDeduction || "0").toFixed(2)}`);
+    doc.text(`31. Net profit or (loss): $${parseFloat(scheduleC.netProfit || "0").toFixed(2)}`);
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Schedule SE to PDF
+   */
+  private addScheduleSE(doc: typeof PDFDocument, scheduleSE: ScheduleSE): void {
+    doc.fontSize(16).text("Schedule SE (Form 1040)", { align: "center" });
+    doc.fontSize(12).text("Self-Employment Tax", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part I - Self-Employment Tax", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`2. Net profit from Schedule C: $${parseFloat(scheduleSE.netProfit || "0").toFixed(2)}`);
+    doc.text(`6. Net earnings from self-employment: $${parseFloat(scheduleSE.netEarnings || "0").toFixed(2)}`);
+    doc.text(`7. Maximum earnings subject to social security tax: $${parseFloat(scheduleSE.socialSecurityWageBase || "0").toFixed(2)}`);
+    doc.text(`8a. Social security wages (Form W-2): $${parseFloat(scheduleSE.socialSecurityWages || "0").toFixed(2)}`);
+    doc.text(`9. Remaining wage base: $${parseFloat(scheduleSE.remainingWageBase || "0").toFixed(2)}`);
+    doc.text(`10. Social security portion (12.4%): $${parseFloat(scheduleSE.socialSecurityTax || "0").toFixed(2)}`);
+    doc.text(`11. Medicare portion (2.9%): $${parseFloat(scheduleSE.medicareTax || "0").toFixed(2)}`);
+    doc.text(`12. Self-employment tax: $${parseFloat(scheduleSE.selfEmploymentTax || "0").toFixed(2)}`);
+    doc.text(`13. Deduction for one-half of self-employment tax: $${parseFloat(scheduleSE.deductibleHalf || "0").toFixed(2)}`);
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Schedule 8812 to PDF
+   */
+  private addSchedule8812(doc: typeof PDFDocument, schedule8812: Schedule8812): void {
+    doc.fontSize(16).text("Schedule 8812 (Form 1040)", { align: "center" });
+    doc.fontSize(12).text("Credits for Qualifying Children and Other Dependents", { align: "center" });
+    doc.moveDown(1);
+
+    // Lines 4 and 6 are numbers of dependents rather than dollar amounts
+    const countLines = ["4", "6"];
+    const lines = (schedule8812.lines as Schedule8812Line[] | null) || [];
+    const printLine = (line: Schedule8812Line) => {
+      const value = countLines.includes(line.line) ? `${line.amount}` : `$${line.amount.toFixed(2)}`;
+      doc.text(`${line.line}. ${line.description}: ${value}`);
+    };
+
+    doc.fontSize(14).text("Part I - Child Tax Credit and Credit for Other Dependents", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) <= 14).forEach(printLine);
+
+    const refundableLines = lines.filter((line) => parseInt(line.line) > 14);
+    if (refundableLines.length > 0) {
+      doc.moveDown(1);
+      doc.fontSize(14).text("Part II - Additional Child Tax Credit", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11);
+      refundableLines.forEach(printLine);
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 6251 to PDF
+   */
+  private addForm6251(doc: typeof PDFDocument, form6251: Form6251): void {
+    doc.fontSize(16).text("Form 6251", { align: "center" });
+    doc.fontSize(12).text("Alternative Minimum Tax - Individuals", { align: "center" });
+    doc.moveDown(1);
+
+    const lines = (form6251.lines as Form6251Line[] | null) || [];
+    const printLine = (line: Form6251Line) => doc.text(`${line.line}. ${line.description}: $${line.amount.toFixed(2)}`);
+    // Part III lines are numbered 12 and up
+    const partIIILines = lines.filter((line) => parseInt(line.line) >= 12);
+
+    doc.fontSize(14).text("Part I - Alternative Minimum Taxable Income", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) <= 4).forEach(printLine);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part II - Alternative Minimum Tax", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) > 4 && parseInt(line.line) < 12).forEach(printLine);
+
+    if (partIIILines.length > 0) {
+      doc.moveDown(1);
+      doc.fontSize(14).text("Part III - Tax Computation Using Maximum Capital Gains Rates", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11);
+      partIIILines.forEach(printLine);
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 8863 to PDF
+   */
+  private addForm8863(doc: typeof PDFDocument, form8863: Form8863): void {
+    doc.fontSize(16).text("Form 8863", { align: "center" });
+    doc.fontSize(12).text("Education Credits (American Opportunity and Lifetime Learning Credits)", { align: "center" });
+    doc.moveDown(1);
+
+    // Line 6 is the share of the credit allowed rather than a dollar amount
+    const lines = (form8863.lines as Form8863Line[] | null) || [];
+    const printLine = (line: Form8863Line) => {
+      const value = line.line === "6" ? line.amount.toFixed(3) : `$${line.amount.toFixed(2)}`;
+      doc.text(`${line.line}. ${line.description}: ${value}`);
+    };
+
+    doc.fontSize(14).text("Part I - Refundable American Opportunity Credit", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) <= 8).forEach(printLine);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part II - Nonrefundable Education Credits", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) > 8).forEach(printLine);
+
+    const students = (form8863.students as Form8863Student[] | null) || [];
+    if (students.length > 0) {
+      doc.moveDown(1);
+      doc.fontSize(14).text("Part III - Student and Educational Institution Information", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11);
+      students.forEach((student) => {
+        doc.text(`${student.studentName}: qualified expenses $${student.qualifiedExpenses.toFixed(2)}`);
+        doc.text(student.claimsAmericanOpportunityCredit
+          ? `   30. American opportunity credit: $${student.americanOpportunityCredit.toFixed(2)}`
+          : `   31. Lifetime learning credit expenses: $${student.lifetimeLearningExpenses.toFixed(2)}${student.ineligibleReason ? ` (${student.ineligibleReason})` : ""}`);
+      });
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 1116 to PDF
+   */
+  private addForm1116(doc: typeof PDFDocument, form1116: Form1116): void {
+    doc.fontSize(16).text("Form 1116", { align: "center" });
+    doc.fontSize(12).text("Foreign Tax Credit (Individual, Estate, or Trust)", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(11);
+    doc.text("Category of income: (c) Passive category income");
+    doc.moveDown(1);
+
+    // Lines 3f and 19 are ratios rather than dollar amounts
+    const lines = (form1116.lines as Form1116Line[] | null) || [];
+    const printLine = (line: Form1116Line) => {
+      const value = line.line === "3f" || line.line === "19" ? line.amount.toFixed(4) : `$${line.amount.toFixed(2)}`;
+      doc.text(`${line.line}. ${line.description}: ${value}`);
+    };
+
+    doc.fontSize(14).text("Part I - Taxable Income or Loss From Sources Outside the United States", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) <= 7).forEach(printLine);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part III - Figuring the Credit", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) > 7).forEach(printLine);
+
+    if (parseFloat(form1116.carryoverToNextYear || "0") > 0) {
+      doc.moveDown(1);
+      doc.text(`Foreign tax carryover to next year: $${parseFloat(form1116.carryoverToNextYear || "0").toFixed(2)}`);
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 2210 to PDF
+   */
+  private addForm2210(doc: typeof PDFDocument, form2210: Form2210): void {
+    doc.fontSize(16).text("Form 2210", { align: "center" });
+    doc.fontSize(12).text("Underpayment of Estimated Tax by Individuals, Estates, and Trusts", { align: "center" });
+    doc.moveDown(1);
+
+    const lines = (form2210.lines as Form2210Line[] | null) || [];
+    const printLine = (line: Form2210Line) => doc.text(`${line.line}. ${line.description}: $${line.amount.toFixed(2)}`);
+
+    doc.fontSize(14).text("Part I - Required Annual Payment", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) <= 9).forEach(printLine);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text(form2210.method === "regular" ? "Part IV - Regular Method" : "Part III - Short Method", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) > 9).forEach(printLine);
+
+    const installments = (form2210.installments as Form2210Installment[] | null) || [];
+    if (form2210.method === "regular" && installments.length > 0) {
+      doc.moveDown(1);
+      installments.forEach((installment) => {
+        doc.text(`Due ${installment.dueDate}: required $${installment.required.toFixed(2)}, paid $${installment.paid.toFixed(2)}, underpayment $${installment.underpayment.toFixed(2)}, penalty $${installment.penalty.toFixed(2)}`);
+      });
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 2441 to PDF
+   */
+  private addForm2441(doc: typeof PDFDocument, form2441: Form2441, providers: CareProvider[]): void {
+    doc.fontSize(16).text("Form 2441", { align: "center" });
+    doc.fontSize(12).text("Child and Dependent Care Expenses", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part I - Persons or Organizations Who Provided the Care", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    providers.forEach((provider) => {
+      const paid = ((provider.payments as CareProviderPayment[] | null) || [])
+        .reduce((sum, payment) => sum + parseFloat(payment.amount || "0"), 0);
+      doc.text(`${provider.name}${provider.householdEmployee ? " (household employee)" : ""}`);
+      doc.text(`  Address: ${provider.address || "Not provided"}`);
+      doc.text(`  Identifying number: ${provider.tin || "Not provided"}`);
+      doc.text(`  Amount paid: $${paid.toFixed(2)}`);
+    });
+    doc.moveDown(1);
+
+    // Line 8 is a rate rather than a dollar amount
+    const lines = (form2441.lines as Form2441Line[] | null) || [];
+    const printLine = (line: Form2441Line) => {
+      const value = line.line === "8" ? `${(line.amount * 100).toFixed(0)}%` : `$${line.amount.toFixed(2)}`;
+      doc.text(`${line.line}. ${line.description}: ${value}`);
+    };
+
+    doc.fontSize(14).text("Part II - Credit for Child and Dependent Care Expenses", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    ((form2441.persons as Form2441Person[] | null) || []).forEach((person) => {
+      doc.text(`${person.name}: $${person.expenses.toFixed(2)}${person.qualifies ? "" : ` (not counted - ${person.reason})`}`);
+    });
+    lines.filter((line) => parseInt(line.line) <= 11).forEach(printLine);
+
+    if (parseFloat(form2441.dependentCareBenefits || "0") > 0) {
+      doc.moveDown(1);
+      doc.fontSize(14).text("Part III - Dependent Care Benefits", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11);
+      lines.filter((line) => parseInt(line.line) >= 12).forEach(printLine);
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 8962 to PDF
+   */
+  private addForm8962(doc: typeof PDFDocument, form8962: Form8962): void {
+    doc.fontSize(16).text("Form 8962", { align: "center" });
+    doc.fontSize(12).text("Premium Tax Credit (PTC)", { align: "center" });
+    doc.moveDown(1);
+
+    if (!form8962.isEligible) {
+      doc.fontSize(11).text(`Not eligible for the premium tax credit: ${form8962.ineligibleReason}`);
+      doc.moveDown(1);
+    }
+
+    // Lines 1, 5 and 7 are a family size, a percentage and a rate rather than dollar amounts
+    const lines = (form8962.lines as Form8962Line[] | null) || [];
+    const printLine = (line: Form8962Line) => {
+      const value = line.line === "1" ? `${line.amount}`
+        : line.line === "5" ? `${line.amount}%`
+        : line.line === "7" ? line.amount.toFixed(4)
+        : `$${line.amount.toFixed(2)}`;
+      doc.text(`${line.line}. ${line.description}: ${value}`);
+    };
+
+    doc.fontSize(14).text("Part I - Annual and Monthly Contribution Amount", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) <= 8).forEach(printLine);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part II - Premium Tax Credit Claim and Reconciliation", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    const monthNames = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+    ((form8962.months as Form8962Month[] | null) || []).forEach((month) => {
+      doc.text(
+        `${monthNames[month.month - 1]}: premium $${month.premium.toFixed(2)}, SLCSP $${month.slcsp.toFixed(2)}, ` +
+        `contribution $${month.contribution.toFixed(2)}, PTC $${month.credit.toFixed(2)}, APTC $${month.advancePayment.toFixed(2)}`
+      );
+    });
+    lines.filter((line) => parseInt(line.line) >= 24 && parseInt(line.line) <= 26).forEach(printLine);
+
+    if (parseFloat(form8962.excessAdvancePayments || "0") > 0) {
+      doc.moveDown(1);
+      doc.fontSize(14).text("Part III - Repayment of Excess Advance Payment of the Premium Tax Credit", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11);
+      lines.filter((line) => parseInt(line.line) >= 27).forEach(printLine);
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add the Form 1040-ES worksheet and the four payment vouchers, two to a page
+   */
+  private addForm1040EsVouchers(doc: typeof PDFDocument, plan: Form1040Es, user: User): void {
+    doc.fontSize(16).text("Form 1040-ES", { align: "center" });
+    doc.fontSize(12).text(`Estimated Tax for Individuals ${plan.planYear}`, { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Estimated Tax Worksheet", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    ((plan.lines as Form2210Line[] | null) || []).forEach((line) => {
+      doc.text(`${line.line}. ${line.description}: $${line.amount.toFixed(2)}`);
+    });
+
+    const vouchers = ((plan.vouchers as Form1040EsVoucher[] | null) || []).filter((voucher) => voucher.amount > 0);
+    if (!plan.paymentsRequired || vouchers.length === 0) {
+      doc.moveDown(1);
+      doc.text("No estimated tax payments are required, so no vouchers are included.");
+      return;
+    }
+
+    doc.addPage();
+    vouchers.forEach((voucher, index) => {
+      if (index > 0 && index % 2 === 0) {
+        doc.addPage();
+      }
+      const top = index % 2 === 0 ? 50 : 400;
+
+      doc.fontSize(14).text(`Form 1040-ES  ${plan.planYear}  Payment Voucher ${voucher.voucher}`, 50, top);
+      doc.fontSize(11).text(`Due ${voucher.dueDate}`, 50, top + 25);
+      doc.moveDown(1);
+      doc.text(`Amount of estimated tax you are paying by check or money order: $${voucher.amount.toFixed(2)}`);
+      doc.moveDown(1);
+      doc.text(`Name: ${user.username}`);
+      doc.text("Social security number: ___________________");
+      doc.text("Spouse's name and SSN (if joint payment): _________________________________");
+      doc.text("Address: _______________________________________________________");
+      doc.moveDown(1);
+      doc.fontSize(9).fillColor("gray");
+      doc.text(`Make your check or money order payable to "United States Treasury". Write your SSN and "${plan.planYear} Form 1040-ES" on it. Mail it with this voucher to the address for your state in the Form 1040-ES instructions, or pay online at irs.gov/payments.`);
+      doc.fillColor("black");
+
+      if (index % 2 === 0 && index < vouchers.length - 1) {
+        doc.moveTo(50, 375).lineTo(562, 375).dash(5, { space: 5 }).stroke().undash();
+      }
+    });
+  }
+
+  /**
+   * Add Form 8606 to PDF
+   */
+  private addForm8606(doc: typeof PDFDocument, form8606: Form8606): void {
+    doc.fontSize(16).text("Form 8606", { align: "center" });
+    doc.fontSize(12).text("Nondeductible IRAs", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(11);
+    doc.text(`IRA owner: ${form8606.owner === "spouse" ? "Spouse" : "Taxpayer"}`);
+    doc.text(`IRA deduction (Schedule 1 line 20): $${parseFloat(form8606.iraDeduction || "0").toFixed(2)}`);
+    doc.moveDown(1);
+
+    const lines = (form8606.lines as Form8606Line[] | null) || [];
+    const printLine = (line: Form8606Line) => doc.text(line.line === "10"
+      ? `${line.line}. ${line.description}: ${line.amount.toFixed(3)}`
+      : `${line.line}. ${line.description}: $${line.amount.toFixed(2)}`);
+
+    doc.fontSize(14).text("Part I - Nondeductible Contributions to Traditional IRAs and Distributions", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) <= 15).forEach(printLine);
+
+    const conversionLines = lines.filter((line) => parseInt(line.line) > 15);
+    if (conversionLines.length > 0) {
+      doc.moveDown(1);
+      doc.fontSize(14).text("Part II - Conversions From Traditional IRAs to Roth IRAs", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11);
+      conversionLines.forEach(printLine);
+    }
+
+    if (parseFloat(form8606.excessContributions || "0") > 0) {
+      doc.moveDown(1);
+      doc.text(`Excess contributions (6% excise tax on Form 5329 Part III): $${parseFloat(form8606.excessContributions || "0").toFixed(2)}`);
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 8880 to PDF
+   */
+  private addForm8880(doc: typeof PDFDocument, form8880: Form8880): void {
+    doc.fontSize(16).text("Form 8880", { align: "center" });
+    doc.fontSize(12).text("Credit for Qualified Retirement Savings Contributions", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(11);
+    ((form8880.lines as Form8880Line[] | null) || []).forEach((line) => {
+      doc.text(line.line === "9"
+        ? `${line.line}. ${line.description}: ${(line.amount * 100).toFixed(0)}%`
+        : `${line.line}. ${line.description}: $${line.amount.toFixed(2)}`);
+    });
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 8995 (simplified) or Form 8995-A to PDF
+   */
+  private addForm8995(doc: typeof PDFDocument, form8995: Form8995): void {
+    const isSimplified = form8995.formType !== "8995-A";
+    doc.fontSize(16).text(`Form ${form8995.formType}`, { align: "center" });
+    doc.fontSize(12).text(isSimplified
+      ? "Qualified Business Income Deduction Simplified Computation"
+      : "Qualified Business Income Deduction", { align: "center" });
+    doc.moveDown(1);
+
+    const lines = (form8995.lines as Form8995Line[] | null) || [];
+    const printLine = (line: Form8995Line) => doc.text(`${line.line}. ${line.description}: $${line.amount.toFixed(2)}`);
+
+    if (isSimplified) {
+      doc.fontSize(11);
+      lines.forEach(printLine);
+      doc.addPage();
+      return;
+    }
+
+    doc.fontSize(14).text("Part II - Determine Your Adjusted Qualified Business Income", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    const businesses = (form8995.businesses as QbiBusinessResult[] | null) || [];
+    businesses.forEach((business) => {
+      doc.text(`${business.name}${business.ein ? ` (${business.ein})` : ""}${business.isSpecifiedService ? " - SSTB" : ""}`);
+      doc.text(`  Qualified business income: $${business.netQualifiedBusinessIncome.toFixed(2)}`);
+      doc.text(`  W-2 wages: $${business.w2Wages.toFixed(2)}`);
+      doc.text(`  UBIA of qualified property: $${business.ubia.toFixed(2)}`);
+      doc.text(`  Wage and UBIA limitation: $${business.wageLimitation.toFixed(2)}`);
+      doc.text(`  QBI component: $${business.qbiComponent.toFixed(2)}`);
+      doc.moveDown(0.5);
+    });
+    doc.moveDown(0.5);
+
+    doc.fontSize(14).text("Part IV - Determine Your Qualified Business Income Deduction", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.forEach(printLine);
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 8615 to PDF
+   */
+  private addForm8615(doc: typeof PDFDocument, form8615: Form8615): void {
+    doc.fontSize(16).text("Form 8615", { align: "center" });
+    doc.fontSize(12).text("Tax for Certain Children Who Have Unearned Income", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(11);
+    doc.text(`Parent: ${form8615.parentName || "Not provided"}`);
+    doc.text(`Parent's filing status: ${(form8615.parentFilingStatusUsed || "not provided").replace(/_/g, " ")}`);
+    doc.moveDown(1);
+
+    const lines = (form8615.lines as Form8615Line[] | null) || [];
+    const printLine = (line: Form8615Line) => doc.text(
+      line.line === "12b"
+        ? `${line.line}. ${line.description}: ${line.amount.toFixed(3)}`
+        : `${line.line}. ${line.description}: $${line.amount.toFixed(2)}`
+    );
+
+    doc.fontSize(14).text("Part I - Child's Net Unearned Income", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) <= 5).forEach(printLine);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part II - Tentative Tax Based on the Tax Rate of the Parent", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) > 5 && parseInt(line.line) <= 13).forEach(printLine);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part III - Child's Tax", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) > 13).forEach(printLine);
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 5695 to PDF
+   */
+  private addForm5695(doc: typeof PDFDocument, form5695: Form5695): void {
+    doc.fontSize(16).text("Form 5695", { align: "center" });
+    doc.fontSize(12).text("Residential Energy Credits", { align: "center" });
+    doc.moveDown(1);
+
+    const lines = (form5695.lines as Form5695Line[] | null) || [];
+    const printLine = (line: Form5695Line) => doc.text(`${line.line}. ${line.description}: $${line.amount.toFixed(2)}`);
+
+    if (parseFloat(form5695.totalCleanEnergyCredit || "0") > 0) {
+      doc.fontSize(14).text("Part I - Residential Clean Energy Credit", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11);
+      lines.filter((line) => parseInt(line.line) <= 16).forEach(printLine);
+      doc.moveDown(1);
+    }
+
+    if (parseFloat(form5695.homeImprovementCredit || "0") > 0) {
+      doc.fontSize(14).text("Part II - Energy Efficient Home Improvement Credit", { underline: true });
+      doc.moveDown(0.5);
+      doc.fontSize(11);
+      lines.filter((line) => parseInt(line.line) > 16).forEach(printLine);
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 8889 to PDF
+   */
+  private addForm8889(doc: typeof PDFDocument, form8889: Form8889): void {
+    doc.fontSize(16).text("Form 8889", { align: "center" });
+    doc.fontSize(12).text("Health Savings Accounts (HSAs)", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(11);
+    doc.text(`Account owner: ${form8889.owner === "spouse" ? "Spouse" : "Taxpayer"}`);
+    doc.text(`1. HDHP coverage: ${form8889.coverageType === "family" ? "Family" : form8889.coverageType === "none" ? "None" : "Self-only"} (${form8889.monthsCovered ?? 12} months)`);
+    doc.moveDown(1);
+
+    const lines = (form8889.lines as Form8889Line[] | null) || [];
+    const printLine = (line: Form8889Line) => doc.text(`${line.line}. ${line.description}: $${line.amount.toFixed(2)}`);
+
+    doc.fontSize(14).text("Part I - HSA Contributions and Deduction", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) <= 13).forEach(printLine);
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part II - HSA Distributions", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    lines.filter((line) => parseInt(line.line) > 13).forEach(printLine);
+
+    if (parseFloat(form8889.excessContributionTax || "0") > 0) {
+      doc.moveDown(1);
+      doc.text(`Excess contributions: $${parseFloat(form8889.excessContributions || "0").toFixed(2)}`);
+      doc.text(`6% excise tax (Form 5329 Part VII): $${parseFloat(form8889.excessContributionTax || "0").toFixed(2)}`);
+    }
+
+    doc.addPage();
+  }
+
+  /**
+   * Add Form 5329 to PDF
+   */
+  private addForm5329(doc: typeof PDFDocument, form5329: Form5329): void {
+    doc.fontSize(16).text("Form 5329", { align: "center" });
+    doc.fontSize(12).text("Additional Taxes on Qualified Plans (Including IRAs) and Other Tax-Favored Accounts", { align: "center" });
+    doc.moveDown(1);
+
+    doc.fontSize(14).text("Part I - Additional Tax on Early Distributions", { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(11);
+    doc.text(`1. Early distributions included in income: $${parseFloat(form5329.earlyDistributions || "0").toFixed(2)}`);
+    doc.text(`2. Early distributions not subject to additional tax: $${parseFloat(form5329.exceptionAmount || "0").toFixed(2)}`);
+    doc.text(`3. Amount subject to additional tax: $${parseFloat(form5329.amountSubjectToTax || "0").toFixed(2)}`);
+    doc.text(`4. Additional tax (10%): $${parseFloat(form5329.additionalTax || "0").toFixed(2)}`);
+
+    doc.addPage();
+  }
+
   /**
    * Add Form 8949 to PDF
    */
@@ -0,0 +1,245 @@
+import { taxConfigService } from "./taxConfigService";
+import type { Form1095A, Form1095AMonth, FederalPremiumTaxCredit } from "@shared/schema";
+
+export interface Form8962Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+// Lines 12-23, one row per month of Marketplace coverage
+export interface Form8962Month {
+  month: number;
+  premium: number; // Column (a): 1095-A column A
+  slcsp: number; // Column (b): 1095-A column B
+  contribution: number; // Column (c): line 8b
+  maxCredit: number; // Column (d): column (b) minus column (c)
+  credit: number; // Column (e): smaller of column (a) or (d)
+  advancePayment: number; // Column (f): 1095-A column C
+}
+
+export interface PremiumTaxCreditInput {
+  filingStatus: string;
+  dependents: unknown;
+  state: string | null | undefined; // Poverty lines are higher in Alaska and Hawaii
+  statements: Form1095A[];
+  adjustedGrossIncome: number;
+  taxExemptInterest: number; // Form 1040 line 2a
+  nontaxableSocialSecurity: number; // Line 6a minus line 6b
+}
+
+export interface Form8962Result {
+  familySize: number; // Line 1
+  householdIncome: number; // Line 3
+  povertyLine: number; // Line 4
+  fplPercentage: number; // Line 5
+  applicableFigure: number; // Line 7
+  annualContribution: number; // Line 8a
+  monthlyContribution: number; // Line 8b
+  totalPremiumTaxCredit: number; // Line 24
+  advancePayments: number; // Line 25
+  netPremiumTaxCredit: number; // Line 26: Schedule 3 line 9
+  excessAdvancePayments: number; // Line 27
+  repaymentLimit: number | null; // Line 28: null when there is no limit
+  excessAdvanceRepayment: number; // Line 29: Schedule 2 line 1a
+  isEligible: boolean;
+  ineligibleReason: string | null;
+  months: Form8962Month[];
+  lines: Form8962Line[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class PremiumTaxCreditService {
+  // Line 5 is entered as 401 for any household income over 400% of the poverty line
+  private readonly FPL_PERCENTAGE_CAP = 401;
+
+  /**
+   * Read a 1095-A's monthly amounts jsonb column
+   */
+  parseMonths(value: unknown): Form1095AMonth[] {
+    if (!Array.isArray(value)) return [];
+    return (value as Partial<Form1095AMonth>[])
+      .filter((month) => month && Number(month.month) >= 1 && Number(month.month) <= 12)
+      .map((month) => ({
+        month: Number(month.month),
+        premium: String(month.premium ?? "0"),
+        slcsp: String(month.slcsp ?? "0"),
+        advancePayment: String(month.advancePayment ?? "0"),
+      }));
+  }
+
+  /**
+   * Line 1: you, your spouse on a joint return and everyone claimed as a dependent
+   */
+  getFamilySize(filingStatus: string, dependents: unknown): number {
+    const dependentCount = Array.isArray(dependents) ? dependents.length : 0;
+    return 1 + (filingStatus === "married_joint" ? 1 : 0) + dependentCount;
+  }
+
+  /**
+   * Poverty line region for the taxpayer's state
+   */
+  getRegion(state: string | null | undefined): string {
+    const code = (state || "").trim().toUpperCase();
+    if (code === "AK" || code === "ALASKA") return "alaska";
+    if (code === "HI" || code === "HAWAII") return "hawaii";
+    return "contiguous";
+  }
+
+  /**
+   * Line 7: the applicable figure rises in a straight line across each income band
+   */
+  private getApplicableFigure(fplPercentage: number, band: FederalPremiumTaxCredit | undefined): number {
+    if (!band) return 0;
+    const initial = Number(band.initialApplicablePercentage);
+    const final = Number(band.finalApplicablePercentage);
+    if (band.maxFplPercent === null || final === initial) return initial;
+    const share = (fplPercentage - band.minFplPercent) / (band.maxFplPercent - band.minFplPercent);
+    return Math.round((initial + (final - initial) * Math.min(1, Math.max(0, share))) * 10000) / 10000;
+  }
+
+  /**
+   * Combine every 1095-A into one row per month. Policies that only report annual totals
+   * are spread evenly across the year when other policies report monthly amounts.
+   */
+  private combineMonths(statements: Form1095A[]): Map<number, { premium: number; slcsp: number; advancePayment: number }> {
+    const months = new Map<number, { premium: number; slcsp: number; advancePayment: number }>();
+    const add = (month: number, premium: number, slcsp: number, advancePayment: number) => {
+      const entry = months.get(month) || { premium: 0, slcsp: 0, advancePayment: 0 };
+      entry.premium = round(entry.premium + premium);
+      entry.slcsp = round(entry.slcsp + slcsp);
+      entry.advancePayment = round(entry.advancePayment + advancePayment);
+      months.set(month, entry);
+    };
+
+    for (const statement of statements) {
+      const monthlyAmounts = this.parseMonths(statement.monthlyAmounts);
+      if (monthlyAmounts.length > 0) {
+        for (const month of monthlyAmounts) {
+          add(month.month, amount(month.premium), amount(month.slcsp), amount(month.advancePayment));
+        }
+      } else {
+        for (let month = 1; month <= 12; month++) {
+          add(
+            month,
+            amount(statement.annualPremium) / 12,
+            amount(statement.annualSlcsp) / 12,
+            amount(statement.annualAdvancePayment) / 12
+          );
+        }
+      }
+    }
+    return months;
+  }
+
+  /**
+   * Form 8962, Premium Tax Credit. The credit for each month is the benchmark silver plan
+   * premium less the household's expected contribution, capped at the premium actually paid.
+   * The total is reconciled with the advance payments on Form 1095-A: a shortfall is a
+   * refundable credit, and an excess is repaid up to the limit for the household's income.
+   * Married filing separately can't take the credit, so all advance payments are excess.
+   */
+  async calculateForm8962(input: PremiumTaxCreditInput, year: number): Promise<Form8962Result> {
+    const region = this.getRegion(input.state);
+    const povertyLineParameters = await taxConfigService.getPovertyLine(year, region);
+    if (!povertyLineParameters) {
+      throw new Error(`Federal poverty lines not configured for ${year}`);
+    }
+    const bands = await taxConfigService.getPremiumTaxCreditBands(year);
+    if (bands.length === 0) {
+      throw new Error(`Premium tax credit parameters not configured for ${year}`);
+    }
+
+    const familySize = this.getFamilySize(input.filingStatus, input.dependents);
+    const modifiedAgi = round(input.adjustedGrossIncome + input.taxExemptInterest + Math.max(0, input.nontaxableSocialSecurity));
+    const householdIncome = Math.max(0, modifiedAgi);
+    const povertyLine = round(Number(povertyLineParameters.firstPerson) + Number(povertyLineParameters.additionalPerson) * (familySize - 1));
+    const fplPercentage = Math.min(this.FPL_PERCENTAGE_CAP, Math.floor((householdIncome / povertyLine) * 100));
+    const band = bands.find((entry) =>
+      fplPercentage >= entry.minFplPercent && (entry.maxFplPercent === null || fplPercentage < entry.maxFplPercent)
+    ) || bands[0];
+    const applicableFigure = this.getApplicableFigure(fplPercentage, band);
+    const annualContribution = Math.round(householdIncome * applicableFigure);
+    const monthlyContribution = Math.round(annualContribution / 12);
+
+    const combined = this.combineMonths(input.statements);
+    const advancePayments = round(Array.from(combined.values()).reduce((sum, month) => sum + month.advancePayment, 0));
+
+    let ineligibleReason: string | null = null;
+    if (input.filingStatus === "married_separate") {
+      ineligibleReason = "Married filing separately";
+    } else if (fplPercentage < 100 && advancePayments <= 0) {
+      ineligibleReason = "Household income is below 100% of the poverty line and no advance payments were made";
+    }
+    const isEligible = ineligibleReason === null;
+
+    const months: Form8962Month[] = Array.from(combined.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([month, totals]) => {
+        const maxCredit = round(Math.max(0, totals.slcsp - monthlyContribution));
+        const credit = isEligible ? round(Math.min(totals.premium, maxCredit)) : 0;
+        return {
+          month,
+          premium: totals.premium,
+          slcsp: totals.slcsp,
+          contribution: monthlyContribution,
+          maxCredit,
+          credit,
+          advancePayment: totals.advancePayment,
+        };
+      });
+
+    const totalPremiumTaxCredit = round(months.reduce((sum, month) => sum + month.credit, 0));
+    const netPremiumTaxCredit = round(Math.max(0, totalPremiumTaxCredit - advancePayments));
+    const excessAdvancePayments = round(Math.max(0, advancePayments - totalPremiumTaxCredit));
+    const limit = input.filingStatus === "single" ? band.repaymentLimitSingle : band.repaymentLimitOther;
+    const repaymentLimit = excessAdvancePayments > 0 && limit !== null ? Number(limit) : null;
+    const excessAdvanceRepayment = repaymentLimit !== null
+      ? round(Math.min(excessAdvancePayments, repaymentLimit))
+      : excessAdvancePayments;
+
+    const lines: Form8962Line[] = [
+      { line: "1", description: "Tax family size", amount: familySize },
+      { line: "2a", description: "Modified AGI: AGI plus tax-exempt interest and nontaxable Social Security", amount: modifiedAgi },
+      { line: "3", description: "Household income", amount: householdIncome },
+      { line: "4", description: `Federal poverty line (${region === "contiguous" ? "48 contiguous states and DC" : region === "alaska" ? "Alaska" : "Hawaii"})`, amount: povertyLine },
+      { line: "5", description: "Household income as a percentage of the federal poverty line", amount: fplPercentage },
+      { line: "7", description: "Applicable figure", amount: applicableFigure },
+      { line: "8a", description: "Annual contribution for health care: line 3 times line 7", amount: annualContribution },
+      { line: "8b", description: "Monthly contribution for health care", amount: monthlyContribution },
+      { line: "24", description: "Total premium tax credit", amount: totalPremiumTaxCredit },
+      { line: "25", description: "Advance payment of the premium tax credit (1095-A column C)", amount: advancePayments },
+      { line: "26", description: "Net premium tax credit (Schedule 3 line 9)", amount: netPremiumTaxCredit },
+      { line: "27", description: "Excess advance premium tax credit", amount: excessAdvancePayments },
+    ];
+    if (repaymentLimit !== null) {
+      lines.push({ line: "28", description: "Repayment limitation", amount: repaymentLimit });
+    }
+    lines.push({ line: "29", description: "Excess advance premium tax credit repayment (Schedule 2 line 1a)", amount: excessAdvanceRepayment });
+
+    return {
+      familySize,
+      householdIncome,
+      povertyLine,
+      fplPercentage,
+      applicableFigure,
+      annualContribution,
+      monthlyContribution,
+      totalPremiumTaxCredit,
+      advancePayments,
+      netPremiumTaxCredit,
+      excessAdvancePayments,
+      repaymentLimit,
+      excessAdvanceRepayment,
+      isEligible,
+      ineligibleReason,
+      months,
+      lines,
+    };
+  }
+}
+
+// Export singleton instance
+export const premiumTaxCreditService = new PremiumTaxCreditService();
@@ -0,0 +1,358 @@
+import { storage } from "../storage";
+import { taxConfigService } from "./taxConfigService";
+import { QBI_SOURCE_TYPES, type FederalQbiDeduction, type QbiBusiness, type QbiLossCarryover } from "@shared/schema";
+
+export interface Form8995Line {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface QbiLossCarryforward {
+  qbiLoss: number; // Positive amount of net QBI loss
+  reitPtpLoss: number; // Positive amount of net REIT dividend / PTP loss
+}
+
+export interface QbiInput {
+  filingStatus: string;
+  businesses: QbiBusiness[];
+  // Schedule C net profit less the deductible part of self-employment tax; null without a Schedule C
+  scheduleC: { name: string; qualifiedBusinessIncome: number } | null;
+  section199aDividends: number; // 1099-DIV box 5
+  carryforward: QbiLossCarryforward;
+  taxableIncomeBeforeQbi: number; // Form 1040 line 11 less line 12
+  netCapitalGain: number; // Qualified dividends plus net capital gain
+}
+
+// One column of Form 8995-A Part II (or a row of Form 8995 line 1)
+export interface QbiBusinessResult {
+  name: string;
+  sourceType: string;
+  ein: string | null;
+  isSpecifiedService: boolean;
+  qualifiedBusinessIncome: number; // Line 2 before the SSTB percentage and loss netting
+  applicablePercentage: number; // SSTB phase-out percentage (1 when fully included)
+  lossAllocation: number; // Share of other businesses' losses and the prior-year carryforward
+  netQualifiedBusinessIncome: number; // QBI after the percentage and loss netting
+  w2Wages: number; // Line 4
+  ubia: number; // Line 7
+  wageLimitation: number; // Line 10: greater of 50% of wages or 25% of wages plus 2.5% of UBIA
+  qbiComponent: number; // Line 15
+}
+
+export interface Form8995Result {
+  formType: "8995" | "8995-A";
+  taxableIncomeBeforeQbi: number;
+  threshold: number;
+  totalQbi: number;
+  qbiLossCarryforwardFromPriorYear: number;
+  qbiComponent: number;
+  reitPtpIncome: number;
+  reitPtpLossCarryforwardFromPriorYear: number;
+  reitPtpComponent: number;
+  deductionBeforeIncomeLimit: number;
+  netCapitalGain: number;
+  incomeLimitation: number;
+  qbiDeduction: number; // Form 1040 line 13
+  qbiLossCarryforward: number;
+  reitPtpLossCarryforward: number;
+  businesses: QbiBusinessResult[];
+  warnings: string[];
+  lines: Form8995Line[];
+}
+
+interface QbiSource {
+  name: string;
+  sourceType: string;
+  ein: string | null;
+  isSpecifiedService: boolean;
+  qualifiedBusinessIncome: number;
+  w2Wages: number;
+  ubia: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+// Form 8995 line 1 rows are numbered i-v
+const ROW_NUMERALS = ["i", "ii", "iii", "iv", "v"];
+
+export class QbiDeductionService {
+  // Form 8995-A line 5: 50% of W-2 wages
+  private readonly WAGE_LIMIT_RATE = 0.5;
+  // Line 6 and line 8: 25% of W-2 wages plus 2.5% of UBIA
+  private readonly WAGE_UBIA_WAGE_RATE = 0.25;
+  private readonly UBIA_RATE = 0.025;
+
+  /**
+   * Load the year's QBI deduction rate, threshold and phase-in range for a filing status
+   */
+  private async getParameters(year: number, filingStatus: string): Promise<FederalQbiDeduction> {
+    const parameters = await taxConfigService.getQbiDeductionParameters(year, filingStatus);
+    if (!parameters) {
+      throw new Error(`QBI deduction parameters not configured for ${year} (${filingStatus})`);
+    }
+    return parameters;
+  }
+
+  /**
+   * Get the QBI and REIT/PTP losses coming into a tax year (lines 16 and 17 of the prior
+   * year's Form 8995). They carry forward until absorbed by later income.
+   */
+  async getCarryforwardIntoYear(userId: string, year: number): Promise<QbiLossCarryforward> {
+    const prior = await storage.getQbiLossCarryover(userId, year - 1);
+    return {
+      qbiLoss: round(amount(prior?.qbiLoss)),
+      reitPtpLoss: round(amount(prior?.reitPtpLoss)),
+    };
+  }
+
+  /**
+   * Turn the ledger into trades or businesses and PTPs. Schedule C sources take their income
+   * from the return's Schedule C, which is included on its own when it has no ledger row.
+   */
+  private collectSources(input: QbiInput, warnings: string[]): { businesses: QbiSource[]; ptpIncome: number } {
+    const businesses: QbiSource[] = [];
+    let ptpIncome = 0;
+    let scheduleCUsed = false;
+
+    for (const business of input.businesses) {
+      if (business.sourceType === QBI_SOURCE_TYPES.PUBLICLY_TRADED_PARTNERSHIP) {
+        ptpIncome += amount(business.qualifiedBusinessIncome);
+        continue;
+      }
+
+      let qualifiedBusinessIncome = amount(business.qualifiedBusinessIncome);
+      if (business.sourceType === QBI_SOURCE_TYPES.SCHEDULE_C) {
+        if (!input.scheduleC) {
+          warnings.push(`${business.name} is marked as Schedule C income but the return has no Schedule C and is left out.`);
+          continue;
+        }
+        if (scheduleCUsed) {
+          warnings.push(`${business.name} repeats the Schedule C business and is left out.`);
+          continue;
+        }
+        scheduleCUsed = true;
+        qualifiedBusinessIncome = input.scheduleC.qualifiedBusinessIncome;
+      }
+
+      businesses.push({
+        name: business.name,
+        sourceType: business.sourceType,
+        ein: business.ein,
+        isSpecifiedService: !!business.isSpecifiedService,
+        qualifiedBusinessIncome: round(qualifiedBusinessIncome),
+        w2Wages: round(Math.max(0, amount(business.w2Wages))),
+        ubia: round(Math.max(0, amount(business.ubia))),
+      });
+    }
+
+    if (input.scheduleC && !scheduleCUsed) {
+      businesses.push({
+        name: input.scheduleC.name,
+        sourceType: QBI_SOURCE_TYPES.SCHEDULE_C,
+        ein: null,
+        isSpecifiedService: false,
+        qualifiedBusinessIncome: round(input.scheduleC.qualifiedBusinessIncome),
+        w2Wages: 0,
+        ubia: 0,
+      });
+    }
+
+    return { businesses, ptpIncome: round(ptpIncome) };
+  }
+
+  /**
+   * Calculate the Section 199A deduction. At or below the threshold this is the simplified
+   * Form 8995; above it, Form 8995-A applies the W-2 wage/UBIA limitation to each business
+   * and phases out specified service businesses over the phase-in range. Net losses carry
+   * forward to the next year.
+   */
+  async calculateForm8995(input: QbiInput, year: number): Promise<Form8995Result> {
+    const parameters = await this.getParameters(year, input.filingStatus);
+    const rate = amount(parameters.deductionRate);
+    const threshold = amount(parameters.threshold);
+    const phaseInRange = amount(parameters.phaseInRange);
+    const warnings: string[] = [];
+    const { businesses: sources, ptpIncome } = this.collectSources(input, warnings);
+
+    const taxableIncomeBeforeQbi = round(Math.max(0, input.taxableIncomeBeforeQbi));
+    const formType = taxableIncomeBeforeQbi <= threshold ? "8995" : "8995-A";
+    // Share of the phase-in range used up: 0 at the threshold, 1 at the top of the range
+    const phaseInFraction = formType === "8995"
+      ? 0
+      : Math.min(1, (taxableIncomeBeforeQbi - threshold) / phaseInRange);
+
+    // Specified service businesses only count for the applicable percentage of their
+    // QBI, wages and UBIA, and not at all above the phase-in range
+    const applicablePercentage = 1 - phaseInFraction;
+    const businesses: QbiBusinessResult[] = sources.map((source) => {
+      const percentage = source.isSpecifiedService ? applicablePercentage : 1;
+      if (source.isSpecifiedService && percentage === 0) {
+        warnings.push(`${source.name} is a specified service business and taxable income is above the phase-in range, so its income is left out.`);
+      }
+      return {
+        name: source.name,
+        sourceType: source.sourceType,
+        ein: source.ein,
+        isSpecifiedService: source.isSpecifiedService,
+        qualifiedBusinessIncome: source.qualifiedBusinessIncome,
+        applicablePercentage: Math.round(percentage * 10000) / 10000,
+        lossAllocation: 0,
+        netQualifiedBusinessIncome: round(source.qualifiedBusinessIncome * percentage),
+        w2Wages: round(source.w2Wages * percentage),
+        ubia: round(source.ubia * percentage),
+        wageLimitation: 0,
+        qbiComponent: 0,
+      };
+    });
+
+    const totalQbi = round(businesses.reduce((sum, business) => sum + business.netQualifiedBusinessIncome, 0));
+    const qbiLossCarryforwardFromPriorYear = round(input.carryforward.qbiLoss);
+    const netQbi = round(totalQbi - qbiLossCarryforwardFromPriorYear);
+    const qbiLossCarryforward = netQbi < 0 ? -netQbi : 0;
+
+    // Net losses from other businesses and the prior-year carryforward against the
+    // businesses with income, in proportion to that income
+    const positiveQbi = businesses.reduce((sum, business) => sum + Math.max(0, business.netQualifiedBusinessIncome), 0);
+    const losses = round(netQbi - positiveQbi);
+    for (const business of businesses) {
+      if (netQbi <= 0 || business.netQualifiedBusinessIncome <= 0) {
+        business.lossAllocation = -business.netQualifiedBusinessIncome;
+        business.netQualifiedBusinessIncome = 0;
+      } else if (losses < 0) {
+        business.lossAllocation = round(losses * (business.netQualifiedBusinessIncome / positiveQbi));
+        business.netQualifiedBusinessIncome = round(business.netQualifiedBusinessIncome + business.lossAllocation);
+      }
+    }
+
+    for (const business of businesses) {
+      const tentativeComponent = round(business.netQualifiedBusinessIncome * rate); // Line 3
+      if (formType === "8995") {
+        business.qbiComponent = tentativeComponent;
+        continue;
+      }
+      const wageLimit = business.w2Wages * this.WAGE_LIMIT_RATE; // Line 5
+      const wageUbiaLimit = business.w2Wages * this.WAGE_UBIA_WAGE_RATE + business.ubia * this.UBIA_RATE; // Line 9
+      business.wageLimitation = round(Math.max(wageLimit, wageUbiaLimit)); // Line 10
+      const limitedComponent = Math.min(tentativeComponent, business.wageLimitation); // Line 11
+      // Part III: within the phase-in range the limitation only takes away part of the
+      // excess over the wage limit
+      const phasedInComponent = phaseInFraction < 1
+        ? round(tentativeComponent - (tentativeComponent - limitedComponent) * phaseInFraction) // Line 26
+        : 0;
+      business.qbiComponent = round(Math.max(limitedComponent, phasedInComponent)); // Lines 13 and 15
+      if (business.qbiComponent < tentativeComponent) {
+        warnings.push(`${business.name}'s QBI component is limited by W-2 wages and UBIA.`);
+      }
+    }
+
+    const qbiComponent = formType === "8995"
+      ? round(Math.max(0, netQbi) * rate)
+      : round(businesses.reduce((sum, business) => sum + business.qbiComponent, 0));
+
+    // Qualified REIT dividends and PTP income are not subject to the wage limitation
+    const reitPtpIncome = round(Math.max(0, input.section199aDividends) + ptpIncome);
+    const reitPtpLossCarryforwardFromPriorYear = round(input.carryforward.reitPtpLoss);
+    const netReitPtp = round(reitPtpIncome - reitPtpLossCarryforwardFromPriorYear);
+    const reitPtpComponent = round(Math.max(0, netReitPtp) * rate);
+    const reitPtpLossCarryforward = netReitPtp < 0 ? -netReitPtp : 0;
+
+    const deductionBeforeIncomeLimit = round(qbiComponent + reitPtpComponent);
+    const netCapitalGain = round(Math.max(0, input.netCapitalGain));
+    const incomeLimitBase = round(Math.max(0, taxableIncomeBeforeQbi - netCapitalGain));
+    const incomeLimitation = round(incomeLimitBase * rate);
+    const qbiDeduction = Math.min(deductionBeforeIncomeLimit, incomeLimitation);
+
+    const lines: Form8995Line[] = [];
+    if (formType === "8995") {
+      businesses.forEach((business, index) => {
+        lines.push({
+          line: `1${ROW_NUMERALS[index] ?? `(${index + 1})`}`,
+          description: `Qualified business income: ${business.name}`,
+          amount: business.qualifiedBusinessIncome,
+        });
+      });
+      lines.push(
+        { line: "2", description: "Total qualified business income or (loss)", amount: totalQbi },
+        { line: "3", description: "Qualified business net (loss) carryforward from the prior year", amount: -qbiLossCarryforwardFromPriorYear },
+        { line: "4", description: "Total qualified business income (if zero or less, enter 0)", amount: Math.max(0, netQbi) },
+        { line: "5", description: "Qualified business income component (20% of line 4)", amount: qbiComponent },
+        { line: "6", description: "Qualified REIT dividends and publicly traded partnership income or (loss)", amount: reitPtpIncome },
+        { line: "7", description: "Qualified REIT dividends and PTP (loss) carryforward from the prior year", amount: -reitPtpLossCarryforwardFromPriorYear },
+        { line: "8", description: "Total qualified REIT dividends and PTP income (if zero or less, enter 0)", amount: Math.max(0, netReitPtp) },
+        { line: "9", description: "REIT and PTP component (20% of line 8)", amount: reitPtpComponent },
+        { line: "10", description: "Qualified business income deduction before the income limitation", amount: deductionBeforeIncomeLimit },
+        { line: "11", description: "Taxable income before qualified business income deduction", amount: taxableIncomeBeforeQbi },
+        { line: "12", description: "Net capital gain", amount: netCapitalGain },
+        { line: "13", description: "Subtract line 12 from line 11", amount: incomeLimitBase },
+        { line: "14", description: "Income limitation (20% of line 13)", amount: incomeLimitation },
+        { line: "15", description: "Qualified business income deduction (smaller of line 10 or line 14)", amount: qbiDeduction },
+        { line: "16", description: "Total qualified business (loss) carryforward", amount: -qbiLossCarryforward },
+        { line: "17", description: "Total qualified REIT dividends and PTP (loss) carryforward", amount: -reitPtpLossCarryforward },
+      );
+    } else {
+      lines.push(
+        { line: "27", description: "Total qualified business income component", amount: qbiComponent },
+        { line: "28", description: "Qualified REIT dividends and publicly traded partnership income or (loss)", amount: reitPtpIncome },
+        { line: "29", description: "Qualified REIT dividends and PTP (loss) carryforward from the prior year", amount: -reitPtpLossCarryforwardFromPriorYear },
+        { line: "30", description: "Total qualified REIT dividends and PTP income (if zero or less, enter 0)", amount: Math.max(0, netReitPtp) },
+        { line: "31", description: "REIT and PTP component (20% of line 30)", amount: reitPtpComponent },
+        { line: "32", description: "Qualified business income deduction before the income limitation", amount: deductionBeforeIncomeLimit },
+        { line: "33", description: "Taxable income before qualified business income deduction", amount: taxableIncomeBeforeQbi },
+        { line: "34", description: "Net capital gain", amount: netCapitalGain },
+        { line: "35", description: "Subtract line 34 from line 33", amount: incomeLimitBase },
+        { line: "36", description: "Income limitation (20% of line 35)", amount: incomeLimitation },
+        { line: "37", description: "Qualified business income deduction (smaller of line 32 or line 36)", amount: qbiDeduction },
+        { line: "39", description: "Total qualified business income deduction", amount: qbiDeduction },
+        { line: "40", description: "Total qualified REIT dividends and PTP (loss) carryforward", amount: -reitPtpLossCarryforward },
+      );
+      if (qbiLossCarryforward > 0) {
+        warnings.push("Net qualified business losses carry forward to next year (Schedule C of Form 8995-A).");
+      }
+    }
+
+    return {
+      formType,
+      taxableIncomeBeforeQbi,
+      threshold,
+      totalQbi,
+      qbiLossCarryforwardFromPriorYear,
+      qbiComponent,
+      reitPtpIncome,
+      reitPtpLossCarryforwardFromPriorYear,
+      reitPtpComponent,
+      deductionBeforeIncomeLimit,
+      netCapitalGain,
+      incomeLimitation,
+      qbiDeduction,
+      qbiLossCarryforward,
+      reitPtpLossCarryforward,
+      businesses,
+      warnings,
+      lines,
+    };
+  }
+
+  /**
+   * Persist the losses carried into the next year, replacing any earlier values
+   */
+  async saveCarryforward(userId: string, taxYear: number, carryforward: QbiLossCarryforward): Promise<QbiLossCarryover> {
+    const carryoverData = {
+      userId,
+      taxYear,
+      qbiLoss: round(carryforward.qbiLoss).toString(),
+      reitPtpLoss: round(carryforward.reitPtpLoss).toString(),
+      isManualEntry: false,
+    };
+
+    const existing = await storage.getQbiLossCarryover(userId, taxYear);
+    if (existing) {
+      return await storage.updateQbiLossCarryover(existing.id, carryoverData);
+    }
+    return await storage.createQbiLossCarryover(carryoverData);
+  }
+}
+
+// Export singleton instance
+export const qbiDeductionService = new QbiDeductionService();
@@ -0,0 +1,136 @@
+import type { Form1099R } from "@shared/schema";
+
+export interface DistributionResult {
+  id: string;
+  payerName: string | null;
+  distributionCodes: string[];
+  isIra: boolean;
+  grossDistribution: number;
+  taxableAmount: number;
+  rolloverAmount: number;
+  earlyDistribution: number;
+  federalWithheld: number;
+}
+
+export interface RetirementDistributionSummary {
+  iraDistributions: number;
+  taxableIraDistributions: number;
+  pensionsAnnuities: number;
+  taxablePensionsAnnuities: number;
+  totalTaxable: number;
+  rolloverAmount: number;
+  earlyDistributions: number;
+  federalWithheld: number;
+  distributions: DistributionResult[];
+}
+
+export interface Form5329Result {
+  earlyDistributions: number;
+  exceptionAmount: number;
+  amountSubjectToTax: number;
+  additionalTax: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class RetirementDistributionService {
+  // Box 7 codes for direct rollovers, which are not taxable
+  private readonly ROLLOVER_CODES = ["G", "H"];
+  // Box 7 codes for qualified Roth distributions, which are not taxable
+  private readonly QUALIFIED_ROTH_CODES = ["Q"];
+  // Box 7 code for an early distribution with no known exception
+  private readonly EARLY_NO_EXCEPTION_CODE = "1";
+
+  private readonly ADDITIONAL_TAX_RATE = 0.10;
+
+  /**
+   * Split a box 7 entry such as "1B" or "7, G" into individual codes
+   */
+  parseDistributionCodes(distributionCode: string | null | undefined): string[] {
+    if (!distributionCode) return [];
+    return distributionCode.toUpperCase().replace(/[^0-9A-Z]/g, "").split("");
+  }
+
+  /**
+   * Work out the taxable portion of a single 1099-R
+   */
+  calculateDistribution(form: Form1099R): DistributionResult {
+    const codes = this.parseDistributionCodes(form.distributionCode);
+    const grossDistribution = amount(form.grossDistribution);
+
+    let taxableAmount: number;
+    let rolloverAmount: number;
+    if (codes.some((code) => this.ROLLOVER_CODES.includes(code))) {
+      // Direct rollover: the whole distribution went to another plan or IRA
+      taxableAmount = 0;
+      rolloverAmount = grossDistribution;
+    } else if (codes.some((code) => this.QUALIFIED_ROTH_CODES.includes(code))) {
+      taxableAmount = 0;
+      rolloverAmount = 0;
+    } else {
+      // Fall back to gross less after-tax contributions when box 2a is blank or not determined
+      const reportedTaxable = form.taxableAmountNotDetermined || form.taxableAmount === null || form.taxableAmount === ""
+        ? grossDistribution - amount(form.employeeContributions)
+        : amount(form.taxableAmount);
+
+      // Indirect (60-day) rollovers are excluded from income
+      rolloverAmount = Math.min(amount(form.rolloverAmount), Math.max(0, reportedTaxable));
+      taxableAmount = Math.max(0, reportedTaxable - rolloverAmount);
+    }
+
+    const earlyDistribution = codes.includes(this.EARLY_NO_EXCEPTION_CODE) ? taxableAmount : 0;
+
+    return {
+      id: form.id,
+      payerName: form.payerName,
+      distributionCodes: codes,
+      isIra: !!form.isIra,
+      grossDistribution: round(grossDistribution),
+      taxableAmount: round(taxableAmount),
+      rolloverAmount: round(rolloverAmount),
+      earlyDistribution: round(earlyDistribution),
+      federalWithheld: round(amount(form.federalWithheld)),
+    };
+  }
+
+  /**
+   * Total 1099-R distributions into Form 1040 lines 4a/4b (IRAs) and 5a/5b (pensions and annuities)
+   */
+  summarizeDistributions(forms: Form1099R[]): RetirementDistributionSummary {
+    const distributions = forms.map((form) => this.calculateDistribution(form));
+    const sum = (items: DistributionResult[], key: keyof DistributionResult) =>
+      round(items.reduce((total, item) => total + (item[key] as number), 0));
+
+    const ira = distributions.filter((d) => d.isIra);
+    const pensions = distributions.filter((d) => !d.isIra);
+
+    return {
+      iraDistributions: sum(ira, "grossDistribution"),
+      taxableIraDistributions: sum(ira, "taxableAmount"),
+      pensionsAnnuities: sum(pensions, "grossDistribution"),
+      taxablePensionsAnnuities: sum(pensions, "taxableAmount"),
+      totalTaxable: sum(distributions, "taxableAmount"),
+      rolloverAmount: sum(distributions, "rolloverAmount"),
+      earlyDistributions: sum(distributions, "earlyDistribution"),
+      federalWithheld: sum(distributions, "federalWithheld"),
+      distributions,
+    };
+  }
+
+  /**
+   * Form 5329 Part I additional tax on early distributions (code 1)
+   */
+  calculateForm5329(earlyDistributions: number, exceptionAmount: number = 0): Form5329Result {
+    const amountSubjectToTax = Math.max(0, earlyDistributions - exceptionAmount);
+    return {
+      earlyDistributions,
+      exceptionAmount,
+      amountSubjectToTax,
+      additionalTax: round(amountSubjectToTax * this.ADDITIONAL_TAX_RATE),
+    };
+  }
+}
+
+// Export singleton instance
+export const retirementDistributionService = new RetirementDistributionService();
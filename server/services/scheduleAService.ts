@@ -0,0 +1,104 @@
+import { taxConfigService } from "./taxConfigService";
+import type { ScheduleA } from "@shared/schema";
+
+export interface ScheduleAResult {
+  medicalDeduction: number;
+  saltDeduction: number;
+  interestDeduction: number;
+  charitableDeduction: number;
+  otherDeductions: number;
+  totalItemizedDeductions: number;
+  saltCap: number;
+  medicalFloor: number;
+}
+
+export interface DeductionChoice {
+  deductionType: "standard" | "itemized";
+  deduction: number;
+  standardDeduction: number;
+  itemizedDeductions: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class ScheduleAService {
+  /**
+   * Compute Schedule A itemized deductions using the year's configured limits
+   */
+  async calculateScheduleA(
+    scheduleA: ScheduleA,
+    adjustedGrossIncome: number,
+    filingStatus: string,
+    year: number
+  ): Promise<ScheduleAResult> {
+    const limits = await taxConfigService.getItemizedDeductionLimits(year, filingStatus);
+    if (!limits) {
+      throw new Error(`Itemized deduction limits not configured for ${year} (${filingStatus})`);
+    }
+
+    // Lines 1-4: medical expenses above the AGI floor
+    const medicalFloor = round(adjustedGrossIncome * Number(limits.medicalExpenseFloorRate));
+    const medicalDeduction = Math.max(0, amount(scheduleA.medicalExpenses) - medicalFloor);
+
+    // Lines 5-7: state and local taxes, limited to the SALT cap
+    let saltCap = Number(limits.saltCap);
+    if (limits.saltCapPhaseoutThreshold && limits.saltCapPhaseoutRate) {
+      const excessIncome = Math.max(0, adjustedGrossIncome - Number(limits.saltCapPhaseoutThreshold));
+      const floor = Number(limits.saltCapFloor || 0);
+      saltCap = Math.max(floor, saltCap - excessIncome * Number(limits.saltCapPhaseoutRate));
+    }
+    const incomeOrSalesTax = scheduleA.useSalesTax
+      ? amount(scheduleA.stateLocalSalesTax)
+      : amount(scheduleA.stateLocalIncomeTax);
+    const cappedTaxes = Math.min(
+      incomeOrSalesTax + amount(scheduleA.realEstateTaxes) + amount(scheduleA.personalPropertyTaxes),
+      saltCap
+    );
+    const saltDeduction = cappedTaxes + amount(scheduleA.otherTaxes);
+
+    // Lines 8-10: home mortgage and investment interest
+    const interestDeduction =
+      amount(scheduleA.mortgageInterest) + amount(scheduleA.mortgagePoints) + amount(scheduleA.investmentInterest);
+
+    // Lines 11-14: gifts to charity, cash gifts limited to a share of AGI
+    const cashLimit = adjustedGrossIncome * Number(limits.charitableCashAgiLimitRate);
+    const charitableDeduction = Math.min(amount(scheduleA.charitableCash), cashLimit) +
+      amount(scheduleA.charitableNonCash) +
+      amount(scheduleA.charitableCarryover);
+
+    // Lines 15-16
+    const otherDeductions = amount(scheduleA.casualtyLosses) + amount(scheduleA.otherItemizedDeductions);
+
+    const totalItemizedDeductions = round(
+      medicalDeduction + saltDeduction + interestDeduction + charitableDeduction + otherDeductions
+    );
+
+    return {
+      medicalDeduction: round(medicalDeduction),
+      saltDeduction: round(saltDeduction),
+      interestDeduction: round(interestDeduction),
+      charitableDeduction: round(charitableDeduction),
+      otherDeductions: round(otherDeductions),
+      totalItemizedDeductions,
+      saltCap: round(saltCap),
+      medicalFloor,
+    };
+  }
+
+  /**
+   * Pick the larger of the standard deduction and itemized deductions
+   */
+  chooseDeduction(standardDeduction: number, itemizedDeductions: number, forceItemize: boolean = false): DeductionChoice {
+    const itemize = forceItemize || itemizedDeductions > standardDeduction;
+    return {
+      deductionType: itemize ? "itemized" : "standard",
+      deduction: itemize ? itemizedDeductions : standardDeduction,
+      standardDeduction,
+      itemizedDeductions,
+    };
+  }
+}
+
+// Export singleton instance
+export const scheduleAService = new ScheduleAService();
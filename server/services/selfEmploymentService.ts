@@ -0,0 +1,141 @@
+import { taxConfigService } from "./taxConfigService";
+import type { FederalSelfEmploymentParameter, ScheduleC } from "@shared/schema";
+
+export interface ScheduleCResult {
+  grossReceipts: number;
+  form1099Receipts: number;
+  grossIncome: number;
+  carTruckExpenses: number;
+  deductibleMeals: number;
+  totalExpenses: number;
+  tentativeProfit: number;
+  homeOfficeDeduction: number;
+  netProfit: number;
+}
+
+export interface ScheduleSEResult {
+  netProfit: number;
+  netEarnings: number;
+  socialSecurityWageBase: number;
+  socialSecurityWages: number;
+  remainingWageBase: number;
+  socialSecurityTax: number;
+  medicareTax: number;
+  selfEmploymentTax: number;
+  deductibleHalf: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class SelfEmploymentService {
+  // Only 50% of business meals are deductible (line 24b)
+  private readonly MEALS_DEDUCTIBLE_RATE = 0.5;
+
+  /**
+   * Load the year's Schedule SE / Schedule C parameters
+   */
+  async getParameters(year: number, filingStatus: string): Promise<FederalSelfEmploymentParameter> {
+    const parameters = await taxConfigService.getSelfEmploymentParameters(year, filingStatus);
+    if (!parameters) {
+      throw new Error(`Self-employment parameters not configured for ${year} (${filingStatus})`);
+    }
+    return parameters;
+  }
+
+  /**
+   * Schedule C net profit (line 31). 1099-NEC / MISC receipts are added to line 1 unless
+   * the taxpayer has already included them in their own gross receipts.
+   * Without a Schedule C the 1099 receipts are reported with no expenses.
+   */
+  calculateScheduleC(
+    scheduleC: ScheduleC | undefined,
+    form1099Receipts: number,
+    parameters: FederalSelfEmploymentParameter
+  ): ScheduleCResult {
+    const includedReceipts = !scheduleC || scheduleC.includeForm1099Income !== false ? form1099Receipts : 0;
+    const grossReceipts = round(amount(scheduleC?.grossReceipts) + includedReceipts);
+
+    // Lines 3-7: gross income after returns, cost of goods sold and other income
+    const grossIncome = round(
+      grossReceipts - amount(scheduleC?.returnsAllowances) - amount(scheduleC?.costOfGoodsSold) +
+        amount(scheduleC?.otherBusinessIncome)
+    );
+
+    // Line 9: standard mileage rate times business miles
+    const carTruckExpenses = round((scheduleC?.businessMiles || 0) * Number(parameters.standardMileageRate));
+    const deductibleMeals = round(amount(scheduleC?.meals) * this.MEALS_DEDUCTIBLE_RATE);
+
+    const totalExpenses = round(
+      amount(scheduleC?.advertising) +
+        carTruckExpenses +
+        amount(scheduleC?.contractLabor) +
+        amount(scheduleC?.insurance) +
+        amount(scheduleC?.legalProfessional) +
+        amount(scheduleC?.officeExpense) +
+        amount(scheduleC?.rentLease) +
+        amount(scheduleC?.supplies) +
+        amount(scheduleC?.taxesLicenses) +
+        amount(scheduleC?.travel) +
+        deductibleMeals +
+        amount(scheduleC?.utilities) +
+        amount(scheduleC?.otherExpenses)
+    );
+    const tentativeProfit = round(grossIncome - totalExpenses);
+
+    // Line 30: simplified method, capped at the allowed square footage and
+    // never more than the tentative profit
+    const squareFeet = Math.min(scheduleC?.homeOfficeSquareFeet || 0, parameters.homeOfficeMaxSquareFeet);
+    const homeOfficeDeduction = round(
+      Math.min(squareFeet * Number(parameters.homeOfficeRate), Math.max(0, tentativeProfit))
+    );
+
+    return {
+      grossReceipts,
+      form1099Receipts: includedReceipts,
+      grossIncome,
+      carTruckExpenses,
+      deductibleMeals,
+      totalExpenses,
+      tentativeProfit,
+      homeOfficeDeduction,
+      netProfit: round(tentativeProfit - homeOfficeDeduction),
+    };
+  }
+
+  /**
+   * Schedule SE Part I. W-2 Social Security wages use up the wage base first,
+   * so only the remainder of net earnings is subject to the 12.4% portion.
+   */
+  calculateScheduleSE(
+    netProfit: number,
+    socialSecurityWages: number,
+    parameters: FederalSelfEmploymentParameter
+  ): ScheduleSEResult {
+    const socialSecurityWageBase = Number(parameters.socialSecurityWageBase);
+    let netEarnings = round(Math.max(0, netProfit) * Number(parameters.netEarningsRate));
+    if (netEarnings < Number(parameters.minimumNetEarnings)) {
+      netEarnings = 0;
+    }
+
+    const remainingWageBase = Math.max(0, socialSecurityWageBase - socialSecurityWages);
+    const socialSecurityTax = round(Math.min(netEarnings, remainingWageBase) * Number(parameters.socialSecurityRate));
+    const medicareTax = round(netEarnings * Number(parameters.medicareRate));
+    const selfEmploymentTax = round(socialSecurityTax + medicareTax);
+
+    return {
+      netProfit,
+      netEarnings,
+      socialSecurityWageBase,
+      socialSecurityWages: round(socialSecurityWages),
+      remainingWageBase: round(remainingWageBase),
+      socialSecurityTax,
+      medicareTax,
+      selfEmploymentTax,
+      deductibleHalf: round(selfEmploymentTax / 2),
+    };
+  }
+}
+
+// Export singleton instance
+export const selfEmploymentService = new SelfEmploymentService();
@@ -0,0 +1,120 @@
+import type { FormSsa1099 } from "@shared/schema";
+
+export interface SocialSecurityWorksheetLine {
+  line: string;
+  description: string;
+  amount: number;
+}
+
+export interface SocialSecurityBenefitsInput {
+  filingStatus: string;
+  livedApartAllYear: boolean; // Married filing separately only
+  statements: FormSsa1099[];
+  otherIncome: number; // Form 1040 lines 1z, 2b, 3b, 4b, 5b, 7 and 8
+  taxExemptInterest: number; // Form 1040 line 2a
+  adjustments: number; // Schedule 1 lines 11 through 20, 23 and 25
+}
+
+export interface SocialSecurityBenefitsResult {
+  netBenefits: number; // Line 6a
+  federalWithheld: number; // SSA-1099 box 6, Form 1040 line 25b
+  provisionalIncome: number; // Worksheet line 7
+  baseAmount: number; // Worksheet line 8
+  additionalAmount: number; // Worksheet line 10
+  taxableBenefits: number; // Line 6b
+  taxablePercentage: number;
+  lines: SocialSecurityWorksheetLine[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class SocialSecurityService {
+  // Base and additional amounts are set by statute and not indexed for inflation
+  private readonly BASE_AMOUNT = 25000;
+  private readonly BASE_AMOUNT_JOINT = 32000;
+  private readonly ADDITIONAL_AMOUNT = 9000;
+  private readonly ADDITIONAL_AMOUNT_JOINT = 12000;
+  private readonly FIRST_TIER_RATE = 0.5;
+  private readonly SECOND_TIER_RATE = 0.85;
+
+  /**
+   * Net benefits (box 5) and voluntary withholding (box 6) across all SSA-1099s. Box 5 is
+   * box 3 less box 4 when it wasn't captured.
+   */
+  summarizeStatements(statements: FormSsa1099[]): { netBenefits: number; federalWithheld: number } {
+    const netBenefits = statements.reduce((sum, statement) => {
+      const net = statement.netBenefits !== null && statement.netBenefits !== undefined && statement.netBenefits !== ""
+        ? amount(statement.netBenefits)
+        : amount(statement.benefitsPaid) - amount(statement.benefitsRepaid);
+      return sum + net;
+    }, 0);
+    const federalWithheld = statements.reduce((sum, statement) => sum + amount(statement.federalWithheld), 0);
+    return { netBenefits: round(netBenefits), federalWithheld: round(federalWithheld) };
+  }
+
+  /**
+   * Social Security Benefits Worksheet (Form 1040 instructions, lines 6a and 6b). Up to 50%
+   * of the benefits are taxable once provisional income passes the base amount, and up to
+   * 85% once it passes the base plus the additional amount. Married filing separately and
+   * living with your spouse at any time in the year has no base amount.
+   */
+  calculateTaxableBenefits(input: SocialSecurityBenefitsInput): SocialSecurityBenefitsResult {
+    const { netBenefits, federalWithheld } = this.summarizeStatements(input.statements);
+
+    const isJoint = input.filingStatus === "married_joint";
+    const noBaseAmount = input.filingStatus === "married_separate" && !input.livedApartAllYear;
+    const baseAmount = noBaseAmount ? 0 : isJoint ? this.BASE_AMOUNT_JOINT : this.BASE_AMOUNT;
+    const additionalAmount = noBaseAmount ? 0 : isJoint ? this.ADDITIONAL_AMOUNT_JOINT : this.ADDITIONAL_AMOUNT;
+
+    const line1 = Math.max(0, netBenefits);
+    const line2 = round(line1 * this.FIRST_TIER_RATE);
+    const line3 = round(input.otherIncome);
+    const line4 = round(input.taxExemptInterest);
+    const line5 = round(line2 + line3 + line4);
+    const line6 = round(input.adjustments);
+    const line7 = round(Math.max(0, line5 - line6));
+    const line9 = round(Math.max(0, line7 - baseAmount));
+    const line11 = round(Math.max(0, line9 - additionalAmount));
+    const line12 = Math.min(line9, additionalAmount);
+    const line13 = round(line12 * this.FIRST_TIER_RATE);
+    const line14 = Math.min(line2, line13);
+    const line15 = round(line11 * this.SECOND_TIER_RATE);
+    const line16 = round(line14 + line15);
+    const line17 = round(line1 * this.SECOND_TIER_RATE);
+    const line18 = line1 > 0 && line9 > 0 ? round(Math.min(line16, line17)) : 0;
+
+    return {
+      netBenefits: line1,
+      federalWithheld,
+      provisionalIncome: line7,
+      baseAmount,
+      additionalAmount,
+      taxableBenefits: line18,
+      taxablePercentage: line1 > 0 ? Math.round((line18 / line1) * 10000) / 10000 : 0,
+      lines: [
+        { line: "1", description: "Net benefits (SSA-1099 box 5)", amount: line1 },
+        { line: "2", description: "Multiply line 1 by 50%", amount: line2 },
+        { line: "3", description: "Other income (Form 1040 lines 1z, 2b, 3b, 4b, 5b, 7 and 8)", amount: line3 },
+        { line: "4", description: "Tax-exempt interest (Form 1040 line 2a)", amount: line4 },
+        { line: "5", description: "Add lines 2, 3 and 4", amount: line5 },
+        { line: "6", description: "Adjustments (Schedule 1 lines 11 through 20, 23 and 25)", amount: line6 },
+        { line: "7", description: "Line 5 minus line 6", amount: line7 },
+        { line: "8", description: noBaseAmount ? "Base amount (married filing separately, lived with spouse)" : "Base amount", amount: baseAmount },
+        { line: "9", description: "Line 7 minus line 8 (none of the benefits are taxable if zero)", amount: line9 },
+        { line: "10", description: "Additional amount", amount: additionalAmount },
+        { line: "11", description: "Line 9 minus line 10", amount: line11 },
+        { line: "12", description: "Smaller of line 9 or line 10", amount: round(line12) },
+        { line: "13", description: "Multiply line 12 by 50%", amount: line13 },
+        { line: "14", description: "Smaller of line 2 or line 13", amount: round(line14) },
+        { line: "15", description: "Multiply line 11 by 85%", amount: line15 },
+        { line: "16", description: "Add lines 14 and 15", amount: line16 },
+        { line: "17", description: "Multiply line 1 by 85%", amount: line17 },
+        { line: "18", description: "Taxable benefits, smaller of line 16 or line 17 (Form 1040 line 6b)", amount: line18 },
+      ],
+    };
+  }
+}
+
+// Export singleton instance
+export const socialSecurityService = new SocialSecurityService();
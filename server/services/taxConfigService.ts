@@ -4,6 +4,22 @@ import type {
   TaxYear, 
   FederalTaxBracket, 
   FederalStandardDeduction,
+  FederalCapitalGainBracket,
+  FederalItemizedDeductionLimit,
+  FederalSelfEmploymentParameter,
+  FederalEarnedIncomeCredit,
+  FederalChildTaxCredit,
+  FederalAlternativeMinimumTax,
+  FederalEducationBenefits,
+  FederalHsaLimits,
+  FederalDependentCareCredit,
+  FederalPovertyLine,
+  FederalPremiumTaxCredit,
+  FederalRetirementSavings,
+  FederalEnergyCredits,
+  FederalKiddieTax,
+  FederalQbiDeduction,
+  FederalUnderpaymentRate,
   StateTaxBracket,
   StateStandardDeduction,
   FormSchema,
@@ -22,6 +38,7 @@ import type {
 export interface TaxCalculationData {
   federalBrackets: FederalTaxBracket[];
   federalStandardDeduction: FederalStandardDeduction | null;
+  capitalGainBrackets: FederalCapitalGainBracket[];
   stateBrackets: StateTaxBracket[];
   stateStandardDeduction: StateStandardDeduction | null;
 }
@@ -118,6 +135,18 @@ export class TaxConfigurationService {
       )
       .limit(1);
 
+    // Get qualified dividend / long-term capital gain rate thresholds
+    const capitalGainBrackets = await storage.db
+      .select()
+      .from(storage.federalCapitalGainBrackets)
+      .where(
+        and(
+          eq(storage.federalCapitalGainBrackets.taxYearId, taxYear.id),
+          eq(storage.federalCapitalGainBrackets.filingStatus, filingStatus)
+        )
+      )
+      .orderBy(storage.federalCapitalGainBrackets.minIncome);
+
     // Get state tax brackets if state code provided
     let stateBrackets: StateTaxBracket[] = [];
     let stateStandardDeduction: StateStandardDeduction | null = null;
@@ -153,11 +182,370 @@ export class TaxConfigurationService {
     return {
       federalBrackets,
       federalStandardDeduction: federalStandardDeduction[0] || null,
+      capitalGainBrackets,
       stateBrackets,
       stateStandardDeduction,
     };
   }
 
+  /**
+   * Get tax calculation data for a year that may not be configured yet, such as the year
+   * a 1040-ES plan is for. A configured year is returned as is; otherwise the latest earlier
+   * year's brackets, standard deduction and capital gain thresholds are indexed by
+   * inflationRate for each year in between. Nothing is saved.
+   */
+  async getProjectedTaxCalculationData(
+    year: number,
+    filingStatus: string,
+    inflationRate: number
+  ): Promise<TaxCalculationData> {
+    if (await this.getTaxYear(year)) {
+      return await this.getTaxCalculationData(year, filingStatus);
+    }
+
+    const baseYear = (await this.getAllTaxYears()).find((taxYear) => taxYear.year < year);
+    if (!baseYear) {
+      throw new Error(`No tax year before ${year} to project from`);
+    }
+
+    const base = await this.getTaxCalculationData(baseYear.year, filingStatus);
+    const factor = Math.pow(1 + inflationRate, year - baseYear.year);
+    // Inflation-adjusted amounts are rounded to the nearest $50
+    const index = (value: string) => (Math.round(Number(value) * factor / 50) * 50).toString();
+    const indexBracket = <T extends { minIncome: string; maxIncome: string | null }>(bracket: T): T => ({
+      ...bracket,
+      minIncome: index(bracket.minIncome),
+      maxIncome: bracket.maxIncome ? index(bracket.maxIncome) : null,
+    });
+
+    return {
+      federalBrackets: base.federalBrackets.map(indexBracket),
+      federalStandardDeduction: base.federalStandardDeduction && {
+        ...base.federalStandardDeduction,
+        amount: index(base.federalStandardDeduction.amount),
+      },
+      capitalGainBrackets: base.capitalGainBrackets.map(indexBracket),
+      stateBrackets: [],
+      stateStandardDeduction: null,
+    };
+  }
+
+  /**
+   * Get Schedule A limits (SALT cap, medical floor, charitable AGI limit) for a year and filing status
+   */
+  async getItemizedDeductionLimits(year: number, filingStatus: string): Promise<FederalItemizedDeductionLimit | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalItemizedDeductionLimits)
+      .where(
+        and(
+          eq(storage.federalItemizedDeductionLimits.taxYearId, taxYear.id),
+          eq(storage.federalItemizedDeductionLimits.filingStatus, filingStatus)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get Schedule SE / Schedule C parameters (wage base, SE rates, mileage and home office rates) for a year and filing status
+   */
+  async getSelfEmploymentParameters(year: number, filingStatus: string): Promise<FederalSelfEmploymentParameter | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalSelfEmploymentParameters)
+      .where(
+        and(
+          eq(storage.federalSelfEmploymentParameters.taxYearId, taxYear.id),
+          eq(storage.federalSelfEmploymentParameters.filingStatus, filingStatus)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get earned income credit parameters for a year, filing status and number of qualifying children (capped at 3)
+   */
+  async getEarnedIncomeCreditParameters(
+    year: number,
+    filingStatus: string,
+    qualifyingChildren: number
+  ): Promise<FederalEarnedIncomeCredit | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalEarnedIncomeCredits)
+      .where(
+        and(
+          eq(storage.federalEarnedIncomeCredits.taxYearId, taxYear.id),
+          eq(storage.federalEarnedIncomeCredits.filingStatus, filingStatus),
+          eq(storage.federalEarnedIncomeCredits.qualifyingChildren, Math.min(qualifyingChildren, 3))
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get child tax credit / credit for other dependents parameters for a year and filing status
+   */
+  async getChildTaxCreditParameters(year: number, filingStatus: string): Promise<FederalChildTaxCredit | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalChildTaxCredits)
+      .where(
+        and(
+          eq(storage.federalChildTaxCredits.taxYearId, taxYear.id),
+          eq(storage.federalChildTaxCredits.filingStatus, filingStatus)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get alternative minimum tax (Form 6251) parameters for a year and filing status
+   */
+  async getAlternativeMinimumTaxParameters(year: number, filingStatus: string): Promise<FederalAlternativeMinimumTax | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalAlternativeMinimumTax)
+      .where(
+        and(
+          eq(storage.federalAlternativeMinimumTax.taxYearId, taxYear.id),
+          eq(storage.federalAlternativeMinimumTax.filingStatus, filingStatus)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get education credit and student loan interest phase-outs for a year and filing status
+   */
+  async getEducationBenefitParameters(year: number, filingStatus: string): Promise<FederalEducationBenefits | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalEducationBenefits)
+      .where(
+        and(
+          eq(storage.federalEducationBenefits.taxYearId, taxYear.id),
+          eq(storage.federalEducationBenefits.filingStatus, filingStatus)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get HSA contribution limits and the catch-up amount for a year
+   */
+  async getHsaLimits(year: number): Promise<FederalHsaLimits | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalHsaLimits)
+      .where(eq(storage.federalHsaLimits.taxYearId, taxYear.id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get the child and dependent care credit limits, rates and benefit exclusion for a year
+   */
+  async getDependentCareCreditParameters(year: number): Promise<FederalDependentCareCredit | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalDependentCareCredit)
+      .where(eq(storage.federalDependentCareCredit.taxYearId, taxYear.id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get the federal poverty line used by Form 8962 for a year and region (contiguous, alaska, hawaii)
+   */
+  async getPovertyLine(year: number, region: string): Promise<FederalPovertyLine | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalPovertyLines)
+      .where(
+        and(
+          eq(storage.federalPovertyLines.taxYearId, taxYear.id),
+          eq(storage.federalPovertyLines.region, region)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get premium tax credit applicable percentage and repayment limit bands, lowest first
+   */
+  async getPremiumTaxCreditBands(year: number): Promise<FederalPremiumTaxCredit[]> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    return await storage.db
+      .select()
+      .from(storage.federalPremiumTaxCredit)
+      .where(eq(storage.federalPremiumTaxCredit.taxYearId, taxYear.id))
+      .orderBy(storage.federalPremiumTaxCredit.minFplPercent);
+  }
+
+  /**
+   * Get IRA contribution limits, deduction and Roth phase-outs and Saver's Credit limits for a year and filing status
+   */
+  async getRetirementSavingsParameters(year: number, filingStatus: string): Promise<FederalRetirementSavings | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalRetirementSavings)
+      .where(
+        and(
+          eq(storage.federalRetirementSavings.taxYearId, taxYear.id),
+          eq(storage.federalRetirementSavings.filingStatus, filingStatus)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get the residential clean energy and home improvement credit rates and limits (Form 5695) for a year
+   */
+  async getEnergyCreditParameters(year: number): Promise<FederalEnergyCredits | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalEnergyCredits)
+      .where(eq(storage.federalEnergyCredits.taxYearId, taxYear.id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get the qualified business income deduction rate, threshold and phase-in range (Forms 8995 and 8995-A) for a year and filing status
+   */
+  async getQbiDeductionParameters(year: number, filingStatus: string): Promise<FederalQbiDeduction | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalQbiDeduction)
+      .where(
+        and(
+          eq(storage.federalQbiDeduction.taxYearId, taxYear.id),
+          eq(storage.federalQbiDeduction.filingStatus, filingStatus)
+        )
+      )
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get the unearned income amounts for the tax on a child's unearned income (Form 8615) for a year
+   */
+  async getKiddieTaxParameters(year: number): Promise<FederalKiddieTax | null> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    const result = await storage.db
+      .select()
+      .from(storage.federalKiddieTax)
+      .where(eq(storage.federalKiddieTax.taxYearId, taxYear.id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  /**
+   * Get underpayment interest rate periods for the Form 2210 penalty, earliest first
+   */
+  async getUnderpaymentRates(year: number): Promise<FederalUnderpaymentRate[]> {
+    const taxYear = await this.getTaxYear(year);
+    if (!taxYear) {
+      throw new Error(`Tax year ${year} not found`);
+    }
+
+    return await storage.db
+      .select()
+      .from(storage.federalUnderpaymentRates)
+      .where(eq(storage.federalUnderpaymentRates.taxYearId, taxYear.id))
+      .orderBy(storage.federalUnderpaymentRates.startDate);
+  }
+
   /**
    * Calculate federal tax using database brackets
    */
@@ -167,7 +555,13 @@ export class TaxConfigurationService {
     year: number = new Date().getFullYear()
   ): Promise<number> {
     const { federalBrackets } = await this.getTaxCalculationData(year, filingStatus);
-    
+    return this.calculateTaxFromBrackets(taxableIncome, federalBrackets);
+  }
+
+  /**
+   * Calculate federal tax on a set of brackets already loaded (or projected)
+   */
+  calculateTaxFromBrackets(taxableIncome: number, federalBrackets: FederalTaxBracket[]): number {
     let tax = 0;
     for (const bracket of federalBrackets) {
       if (taxableIncome > Number(bracket.minIncome)) {
@@ -385,6 +779,9 @@ export class TaxConfigurationService {
       ]},
     ];
 
+    // A qualifying surviving spouse is taxed at the married filing jointly rates
+    federalBrackets.push({ ...federalBrackets[1], filingStatus: 'qualifying_widow' });
+
     // Insert federal tax brackets
     for (const statusData of federalBrackets) {
       for (const bracket of statusData.brackets) {
@@ -404,6 +801,7 @@ export class TaxConfigurationService {
       { filingStatus: 'married_joint', amount: 29200 },
       { filingStatus: 'married_separate', amount: 14600 },
       { filingStatus: 'head_of_household', amount: 21900 },
+      { filingStatus: 'qualifying_widow', amount: 29200 },
     ];
 
     for (const deduction of standardDeductions) {
@@ -416,6 +814,283 @@ export class TaxConfigurationService {
       });
     }
 
+    // Insert qualified dividend / long-term capital gain rate thresholds
+    const capitalGainBrackets = [
+      { filingStatus: 'single', zeroMax: 47025, fifteenMax: 518900 },
+      { filingStatus: 'married_joint', zeroMax: 94050, fifteenMax: 583750 },
+      { filingStatus: 'married_separate', zeroMax: 47025, fifteenMax: 291850 },
+      { filingStatus: 'head_of_household', zeroMax: 63000, fifteenMax: 551350 },
+      { filingStatus: 'qualifying_widow', zeroMax: 94050, fifteenMax: 583750 },
+    ];
+
+    for (const thresholds of capitalGainBrackets) {
+      const brackets = [
+        { min: 0, max: thresholds.zeroMax, rate: 0 },
+        { min: thresholds.zeroMax, max: thresholds.fifteenMax, rate: 0.15 },
+        { min: thresholds.fifteenMax, max: null, rate: 0.20 },
+      ];
+
+      for (const bracket of brackets) {
+        await storage.db.insert(storage.federalCapitalGainBrackets).values({
+          taxYearId: taxYear.id,
+          filingStatus: thresholds.filingStatus,
+          minIncome: bracket.min.toString(),
+          maxIncome: bracket.max ? bracket.max.toString() : null,
+          taxRate: bracket.rate.toString(),
+        });
+      }
+    }
+
+    // Insert itemized deduction limits
+    const itemizedDeductionLimits = [
+      { filingStatus: 'single', saltCap: 10000 },
+      { filingStatus: 'married_joint', saltCap: 10000 },
+      { filingStatus: 'married_separate', saltCap: 5000 },
+      { filingStatus: 'head_of_household', saltCap: 10000 },
+      { filingStatus: 'qualifying_widow', saltCap: 10000 },
+    ];
+
+    for (const limits of itemizedDeductionLimits) {
+      await storage.db.insert(storage.federalItemizedDeductionLimits).values({
+        taxYearId: taxYear.id,
+        filingStatus: limits.filingStatus,
+        saltCap: limits.saltCap.toString(),
+        medicalExpenseFloorRate: "0.075",
+        charitableCashAgiLimitRate: "0.60",
+      });
+    }
+
+    // Insert earned income credit parameters (no credit for married filing separately)
+    const earnedIncomeCredits = [
+      { qualifyingChildren: 0, creditRate: 0.0765, earnedIncomeAmount: 8260, maxCredit: 632, phaseoutThreshold: 10330, jointPhaseoutThreshold: 17250, phaseoutRate: 0.0765 },
+      { qualifyingChildren: 1, creditRate: 0.34, earnedIncomeAmount: 12390, maxCredit: 4213, phaseoutThreshold: 22720, jointPhaseoutThreshold: 29640, phaseoutRate: 0.1598 },
+      { qualifyingChildren: 2, creditRate: 0.40, earnedIncomeAmount: 17400, maxCredit: 6960, phaseoutThreshold: 22720, jointPhaseoutThreshold: 29640, phaseoutRate: 0.2106 },
+      { qualifyingChildren: 3, creditRate: 0.45, earnedIncomeAmount: 17400, maxCredit: 7830, phaseoutThreshold: 22720, jointPhaseoutThreshold: 29640, phaseoutRate: 0.2106 },
+    ];
+
+    for (const filingStatus of ['single', 'married_joint', 'head_of_household', 'qualifying_widow']) {
+      for (const credit of earnedIncomeCredits) {
+        await storage.db.insert(storage.federalEarnedIncomeCredits).values({
+          taxYearId: taxYear.id,
+          filingStatus,
+          qualifyingChildren: credit.qualifyingChildren,
+          creditRate: credit.creditRate.toString(),
+          earnedIncomeAmount: credit.earnedIncomeAmount.toString(),
+          maxCredit: credit.maxCredit.toString(),
+          phaseoutThreshold: (filingStatus === 'married_joint' ? credit.jointPhaseoutThreshold : credit.phaseoutThreshold).toString(),
+          phaseoutRate: credit.phaseoutRate.toString(),
+          investmentIncomeLimit: "11600",
+        });
+      }
+    }
+
+    // Insert child tax credit parameters
+    for (const filingStatus of ['single', 'married_joint', 'married_separate', 'head_of_household', 'qualifying_widow']) {
+      await storage.db.insert(storage.federalChildTaxCredits).values({
+        taxYearId: taxYear.id,
+        filingStatus,
+        creditPerChild: "2000",
+        creditPerOtherDependent: "500",
+        phaseoutThreshold: filingStatus === 'married_joint' ? "400000" : "200000",
+        phaseoutRate: "0.05",
+        refundableLimitPerChild: "1700",
+        refundableEarnedIncomeThreshold: "2500",
+        refundableRate: "0.15",
+      });
+    }
+
+    // Insert alternative minimum tax parameters
+    const alternativeMinimumTax = [
+      { filingStatus: 'single', exemption: 85700, phaseoutThreshold: 609350, rateBreakpoint: 232600 },
+      { filingStatus: 'married_joint', exemption: 133300, phaseoutThreshold: 1218700, rateBreakpoint: 232600 },
+      { filingStatus: 'married_separate', exemption: 66650, phaseoutThreshold: 609350, rateBreakpoint: 116300 },
+      { filingStatus: 'head_of_household', exemption: 85700, phaseoutThreshold: 609350, rateBreakpoint: 232600 },
+      { filingStatus: 'qualifying_widow', exemption: 133300, phaseoutThreshold: 1218700, rateBreakpoint: 232600 },
+    ];
+
+    for (const amt of alternativeMinimumTax) {
+      await storage.db.insert(storage.federalAlternativeMinimumTax).values({
+        taxYearId: taxYear.id,
+        filingStatus: amt.filingStatus,
+        exemptionAmount: amt.exemption.toString(),
+        phaseoutThreshold: amt.phaseoutThreshold.toString(),
+        phaseoutRate: "0.25",
+        rateBreakpoint: amt.rateBreakpoint.toString(),
+        lowerRate: "0.26",
+        upperRate: "0.28",
+      });
+    }
+
+    // Insert education credit and student loan interest phase-outs (none for married filing separately)
+    const educationBenefits = [
+      { filingStatus: 'single', creditStart: 80000, creditEnd: 90000, loanStart: 80000, loanEnd: 95000 },
+      { filingStatus: 'married_joint', creditStart: 160000, creditEnd: 180000, loanStart: 165000, loanEnd: 195000 },
+      { filingStatus: 'head_of_household', creditStart: 80000, creditEnd: 90000, loanStart: 80000, loanEnd: 95000 },
+      { filingStatus: 'qualifying_widow', creditStart: 80000, creditEnd: 90000, loanStart: 80000, loanEnd: 95000 },
+    ];
+
+    for (const benefit of educationBenefits) {
+      await storage.db.insert(storage.federalEducationBenefits).values({
+        taxYearId: taxYear.id,
+        filingStatus: benefit.filingStatus,
+        creditPhaseoutStart: benefit.creditStart.toString(),
+        creditPhaseoutEnd: benefit.creditEnd.toString(),
+        studentLoanInterestMax: "2500",
+        studentLoanInterestPhaseoutStart: benefit.loanStart.toString(),
+        studentLoanInterestPhaseoutEnd: benefit.loanEnd.toString(),
+      });
+    }
+
+    // Insert HSA contribution limits
+    await storage.db.insert(storage.federalHsaLimits).values({
+      taxYearId: taxYear.id,
+      selfOnlyLimit: "4150",
+      familyLimit: "8300",
+      catchUpAmount: "1000",
+      catchUpAge: 55,
+    });
+
+    // Insert underpayment interest rates (from the first due date to the next April 15)
+    await storage.db.insert(storage.federalUnderpaymentRates).values({
+      taxYearId: taxYear.id,
+      startDate: `${year}-04-15`,
+      endDate: `${year + 1}-04-15`,
+      rate: "0.08",
+    });
+
+    // Insert child and dependent care credit parameters
+    await storage.db.insert(storage.federalDependentCareCredit).values({
+      taxYearId: taxYear.id,
+      expenseLimitOne: "3000",
+      expenseLimitTwoOrMore: "6000",
+      maxCreditRate: "0.35",
+      minCreditRate: "0.20",
+      phaseoutStart: "15000",
+      phaseoutStep: "2000",
+      benefitExclusion: "5000",
+      benefitExclusionMarriedSeparate: "2500",
+      qualifyingChildAge: 13,
+      deemedMonthlyIncomeOne: "250",
+      deemedMonthlyIncomeTwoOrMore: "500",
+    });
+
+    // Insert federal poverty lines (the prior calendar year's guidelines)
+    const povertyLines = [
+      { region: 'contiguous', firstPerson: 14580, additionalPerson: 5140 },
+      { region: 'alaska', firstPerson: 18210, additionalPerson: 6430 },
+      { region: 'hawaii', firstPerson: 16770, additionalPerson: 5910 },
+    ];
+
+    for (const povertyLine of povertyLines) {
+      await storage.db.insert(storage.federalPovertyLines).values({
+        taxYearId: taxYear.id,
+        region: povertyLine.region,
+        firstPerson: povertyLine.firstPerson.toString(),
+        additionalPerson: povertyLine.additionalPerson.toString(),
+      });
+    }
+
+    // Insert premium tax credit applicable percentages and excess advance payment repayment limits
+    const premiumTaxCreditBands = [
+      { min: 0, max: 150, initial: "0", final: "0", single: "375", other: "750" },
+      { min: 150, max: 200, initial: "0", final: "0.02", single: "375", other: "750" },
+      { min: 200, max: 250, initial: "0.02", final: "0.04", single: "950", other: "1900" },
+      { min: 250, max: 300, initial: "0.04", final: "0.06", single: "950", other: "1900" },
+      { min: 300, max: 400, initial: "0.06", final: "0.085", single: "1575", other: "3150" },
+      { min: 400, max: null, initial: "0.085", final: "0.085", single: null, other: null },
+    ];
+
+    for (const band of premiumTaxCreditBands) {
+      await storage.db.insert(storage.federalPremiumTaxCredit).values({
+        taxYearId: taxYear.id,
+        minFplPercent: band.min,
+        maxFplPercent: band.max,
+        initialApplicablePercentage: band.initial,
+        finalApplicablePercentage: band.final,
+        repaymentLimitSingle: band.single,
+        repaymentLimitOther: band.other,
+      });
+    }
+
+    // Insert IRA limits and phase-outs and Saver's Credit AGI limits (married filing separately phases out between $0 and $10,000)
+    const retirementSavings = [
+      { filingStatus: 'single', coveredStart: 77000, coveredEnd: 87000, spouseStart: null, spouseEnd: null, rothStart: 146000, rothEnd: 161000, fifty: 23000, twenty: 25000, ten: 38250 },
+      { filingStatus: 'married_joint', coveredStart: 123000, coveredEnd: 143000, spouseStart: 230000, spouseEnd: 240000, rothStart: 230000, rothEnd: 240000, fifty: 46000, twenty: 50000, ten: 76500 },
+      { filingStatus: 'married_separate', coveredStart: 0, coveredEnd: 10000, spouseStart: 0, spouseEnd: 10000, rothStart: 0, rothEnd: 10000, fifty: 23000, twenty: 25000, ten: 38250 },
+      { filingStatus: 'head_of_household', coveredStart: 77000, coveredEnd: 87000, spouseStart: null, spouseEnd: null, rothStart: 146000, rothEnd: 161000, fifty: 34500, twenty: 37500, ten: 57375 },
+      { filingStatus: 'qualifying_widow', coveredStart: 123000, coveredEnd: 143000, spouseStart: null, spouseEnd: null, rothStart: 230000, rothEnd: 240000, fifty: 23000, twenty: 25000, ten: 38250 },
+    ];
+
+    for (const savings of retirementSavings) {
+      await storage.db.insert(storage.federalRetirementSavings).values({
+        taxYearId: taxYear.id,
+        filingStatus: savings.filingStatus,
+        iraContributionLimit: "7000",
+        iraCatchUpAmount: "1000",
+        iraCatchUpAge: 50,
+        coveredPhaseoutStart: savings.coveredStart.toString(),
+        coveredPhaseoutEnd: savings.coveredEnd.toString(),
+        spouseCoveredPhaseoutStart: savings.spouseStart !== null ? savings.spouseStart.toString() : null,
+        spouseCoveredPhaseoutEnd: savings.spouseEnd !== null ? savings.spouseEnd.toString() : null,
+        rothPhaseoutStart: savings.rothStart.toString(),
+        rothPhaseoutEnd: savings.rothEnd.toString(),
+        saversCreditMaxContribution: "2000",
+        saversCreditFiftyPercentLimit: savings.fifty.toString(),
+        saversCreditTwentyPercentLimit: savings.twenty.toString(),
+        saversCreditTenPercentLimit: savings.ten.toString(),
+      });
+    }
+
+    // Insert Form 5695 residential clean energy and home improvement credit limits
+    await storage.db.insert(storage.federalEnergyCredits).values({
+      taxYearId: taxYear.id,
+      cleanEnergyRate: "0.30",
+      batteryMinimumCapacity: "3",
+      fuelCellLimitPerKilowatt: "1000",
+      homeImprovementRate: "0.30",
+      homeImprovementAnnualLimit: "1200",
+      heatPumpAnnualLimit: "2000",
+      exteriorDoorLimit: "250",
+      exteriorDoorsAnnualLimit: "500",
+      windowsAnnualLimit: "600",
+      energyPropertyItemLimit: "600",
+      homeEnergyAuditLimit: "150",
+    });
+
+    // Insert Form 8615 unearned income amounts
+    await storage.db.insert(storage.federalKiddieTax).values({
+      taxYearId: taxYear.id,
+      unearnedIncomeBaseAmount: "1300",
+      unearnedIncomeThreshold: "2600",
+    });
+
+    // Insert Form 8995 / 8995-A thresholds and phase-in ranges
+    for (const filingStatus of ['single', 'married_joint', 'married_separate', 'head_of_household', 'qualifying_widow']) {
+      await storage.db.insert(storage.federalQbiDeduction).values({
+        taxYearId: taxYear.id,
+        filingStatus,
+        deductionRate: "0.20",
+        threshold: filingStatus === 'married_joint' ? "383900" : "191950",
+        phaseInRange: filingStatus === 'married_joint' ? "100000" : "50000",
+      });
+    }
+
+    // Insert self-employment parameters
+    for (const filingStatus of ['single', 'married_joint', 'married_separate', 'head_of_household', 'qualifying_widow']) {
+      await storage.db.insert(storage.federalSelfEmploymentParameters).values({
+        taxYearId: taxYear.id,
+        filingStatus,
+        socialSecurityWageBase: "168600",
+        socialSecurityRate: "0.124",
+        medicareRate: "0.029",
+        netEarningsRate: "0.9235",
+        minimumNetEarnings: "400",
+        standardMileageRate: "0.67",
+        homeOfficeRate: "5",
+        homeOfficeMaxSquareFeet: 300,
+      });
+    }
+
     console.log(`Tax year ${year} data created successfully`);
     return taxYear;
   }
@@ -0,0 +1,152 @@
+import { TAXPAYER_OWNERS, W2_BOX_12_CODES, type W2Data, type W2CodeAmount } from "@shared/schema";
+
+export interface W2Box12Entry {
+  code: string;
+  description: string;
+  amount: number;
+}
+
+export interface W2BenefitsResult {
+  id: string;
+  employerName: string | null;
+  owner: string; // TAXPAYER_OWNERS; a W-2 with no employee assigned is the taxpayer's
+  box12: W2Box12Entry[];
+  box14: { code: string; amount: number }[];
+  dependentCareBenefits: number;
+  statutoryEmployee: boolean;
+  retirementPlan: boolean;
+  thirdPartySickPay: boolean;
+}
+
+// One spouse's share of the W-2 amounts that are figured per person
+export interface W2OwnerBenefits {
+  electiveDeferrals: number;
+  rothDeferrals: number;
+  employerHsaContributions: number;
+  retirementPlanCovered: boolean;
+}
+
+// Stored on Form 1040 as w2Benefits
+export interface W2BenefitsSummary {
+  electiveDeferrals: number; // Box 12 D, E, F, G, H, S: pre-tax retirement deferrals
+  rothDeferrals: number; // Box 12 AA, BB, EE
+  employerHsaContributions: number; // Box 12 W (Form 8889)
+  employerHealthCoverage: number; // Box 12 DD, informational only
+  nontaxableCombatPay: number; // Box 12 Q
+  dependentCareBenefits: number; // Box 10
+  taxableDependentCareBenefits: number; // Line 1e: box 10 not excluded on Form 2441
+  uncollectedSocialSecurityMedicareTax: number; // Box 12 A, B, M, N (Schedule 2 line 13)
+  retirementPlanCovered: boolean; // Box 13 on any W-2 (IRA deduction phase-out)
+  statutoryEmployee: boolean;
+  byOwner: Record<string, W2OwnerBenefits>; // Keyed by TAXPAYER_OWNERS
+  totalsByCode: Record<string, number>;
+  employers: W2BenefitsResult[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const amount = (value: string | null | undefined) => parseFloat(value || "0");
+
+export class W2BenefitsService {
+  // Box 12 codes for pre-tax elective deferrals to retirement plans
+  private readonly ELECTIVE_DEFERRAL_CODES = ["D", "E", "F", "G", "H", "S"];
+  // Box 12 codes for designated Roth contributions, already included in box 1
+  private readonly ROTH_DEFERRAL_CODES = ["AA", "BB", "EE"];
+  // Box 12 codes for social security and Medicare tax the employer could not collect
+  private readonly UNCOLLECTED_TAX_CODES = ["A", "B", "M", "N"];
+  // Dependent care benefits excluded from wages (Form 2441 Part III)
+  private readonly DEPENDENT_CARE_EXCLUSION = 5000;
+  private readonly DEPENDENT_CARE_EXCLUSION_MARRIED_SEPARATE = 2500;
+
+  /**
+   * Read a box 12 or box 14 jsonb column, dropping entries without a code or amount
+   */
+  parseCodeAmounts(value: unknown): W2CodeAmount[] {
+    if (!Array.isArray(value)) return [];
+    return (value as Partial<W2CodeAmount>[])
+      .filter((entry) => entry && entry.code && entry.amount)
+      .map((entry) => ({ code: String(entry.code).trim().toUpperCase(), amount: String(entry.amount) }));
+  }
+
+  /**
+   * Boxes 10, 12, 13 and 14 for a single W-2
+   */
+  calculateW2(w2: W2Data): W2BenefitsResult {
+    return {
+      id: w2.id,
+      employerName: w2.employerName,
+      owner: w2.owner || TAXPAYER_OWNERS.TAXPAYER,
+      box12: this.parseCodeAmounts(w2.box12).map((entry) => ({
+        code: entry.code,
+        description: W2_BOX_12_CODES[entry.code as keyof typeof W2_BOX_12_CODES] || "Unknown code",
+        amount: round(amount(entry.amount)),
+      })),
+      box14: this.parseCodeAmounts(w2.box14).map((entry) => ({
+        code: entry.code,
+        amount: round(amount(entry.amount)),
+      })),
+      dependentCareBenefits: round(amount(w2.dependentCareBenefits)),
+      statutoryEmployee: !!w2.statutoryEmployee,
+      retirementPlan: !!w2.retirementPlan,
+      thirdPartySickPay: !!w2.thirdPartySickPay,
+    };
+  }
+
+  /**
+   * Total retirement deferrals and pre-tax benefits across all W-2s. Employers already
+   * leave up to $5,000 of box 10 out of box 1, so only the part of that not excluded on
+   * Form 2441 is added back as taxable wages. Without a Form 2441 the full exclusion for
+   * the filing status is assumed.
+   */
+  summarizeBenefits(w2Data: W2Data[], filingStatus: string, excludedDependentCareBenefits?: number): W2BenefitsSummary {
+    const employers = w2Data.map((w2) => this.calculateW2(w2));
+
+    const totalsByCode: Record<string, number> = {};
+    for (const entry of employers.flatMap((employer) => employer.box12)) {
+      totalsByCode[entry.code] = round((totalsByCode[entry.code] || 0) + entry.amount);
+    }
+    const sumCodes = (codes: string[]) => round(codes.reduce((sum, code) => sum + (totalsByCode[code] || 0), 0));
+
+    // Deferrals, code W and box 13 belong to the employee, so each spouse gets their own
+    const byOwner: Record<string, W2OwnerBenefits> = {};
+    for (const owner of Object.values(TAXPAYER_OWNERS)) {
+      const owned = employers.filter((employer) => employer.owner === owner);
+      const sumOwned = (codes: string[]) => round(owned
+        .flatMap((employer) => employer.box12)
+        .filter((entry) => codes.includes(entry.code))
+        .reduce((sum, entry) => sum + entry.amount, 0));
+      byOwner[owner] = {
+        electiveDeferrals: sumOwned(this.ELECTIVE_DEFERRAL_CODES),
+        rothDeferrals: sumOwned(this.ROTH_DEFERRAL_CODES),
+        employerHsaContributions: sumOwned(["W"]),
+        retirementPlanCovered: owned.some((employer) => employer.retirementPlan),
+      };
+    }
+
+    const dependentCareBenefits = round(employers.reduce((sum, employer) => sum + employer.dependentCareBenefits, 0));
+    const exclusion = excludedDependentCareBenefits ?? (filingStatus === "married_separate"
+      ? this.DEPENDENT_CARE_EXCLUSION_MARRIED_SEPARATE
+      : this.DEPENDENT_CARE_EXCLUSION);
+    const taxableDependentCareBenefits = round(
+      Math.max(0, Math.min(dependentCareBenefits, this.DEPENDENT_CARE_EXCLUSION) - exclusion)
+    );
+
+    return {
+      electiveDeferrals: sumCodes(this.ELECTIVE_DEFERRAL_CODES),
+      rothDeferrals: sumCodes(this.ROTH_DEFERRAL_CODES),
+      employerHsaContributions: sumCodes(["W"]),
+      employerHealthCoverage: sumCodes(["DD"]),
+      nontaxableCombatPay: sumCodes(["Q"]),
+      dependentCareBenefits,
+      taxableDependentCareBenefits,
+      uncollectedSocialSecurityMedicareTax: sumCodes(this.UNCOLLECTED_TAX_CODES),
+      retirementPlanCovered: employers.some((employer) => employer.retirementPlan),
+      statutoryEmployee: employers.some((employer) => employer.statutoryEmployee),
+      byOwner,
+      totalsByCode,
+      employers,
+    };
+  }
+}
+
+// Export singleton instance
+export const w2BenefitsService = new W2BenefitsService();
@@ -23,6 +23,98 @@ import {
   type Insert8949,
   type ScheduleD,
   type InsertScheduleD,
+  type CapitalLossCarryover,
+  type InsertCapitalLossCarryover,
+  type ForeignTaxCarryover,
+  type InsertForeignTaxCarryover,
+  type EnergyCreditCarryover,
+  type InsertEnergyCreditCarryover,
+  type QbiLossCarryover,
+  type InsertQbiLossCarryover,
+  type QualifiedDividendsWorksheet,
+  type InsertQualifiedDividendsWorksheet,
+  type Form8959,
+  type InsertForm8959,
+  type Form8960,
+  type InsertForm8960,
+  type ScheduleA,
+  type InsertScheduleA,
+  type Form1098,
+  type Insert1098,
+  type Form1099R,
+  type Insert1099R,
+  type Form5329,
+  type InsertForm5329,
+  type Form1099Misc,
+  type Insert1099Misc,
+  type Form1099Nec,
+  type Insert1099Nec,
+  type Schedule1,
+  type InsertSchedule1,
+  type ScheduleC,
+  type InsertScheduleC,
+  type ScheduleSE,
+  type InsertScheduleSE,
+  type EarnedIncomeCredit,
+  type InsertEarnedIncomeCredit,
+  type Schedule8812,
+  type InsertSchedule8812,
+  type Form6251,
+  type InsertForm6251,
+  type Form1098T,
+  type Insert1098T,
+  type Form1098E,
+  type Insert1098E,
+  type Form8863,
+  type InsertForm8863,
+  type Form1099Sa,
+  type Insert1099Sa,
+  type Form5498Sa,
+  type Insert5498Sa,
+  type HsaContribution,
+  type InsertHsaContribution,
+  type Form8889,
+  type InsertForm8889,
+  type Form1116,
+  type InsertForm1116,
+  type EstimatedTaxPayment,
+  type InsertEstimatedTaxPayment,
+  type Form2210,
+  type InsertForm2210,
+  type Form1040Es,
+  type InsertForm1040Es,
+  type CareProvider,
+  type InsertCareProvider,
+  type Form2441,
+  type InsertForm2441,
+  type FormSsa1099,
+  type InsertSsa1099,
+  type SocialSecurityBenefitsWorksheet,
+  type InsertSocialSecurityBenefitsWorksheet,
+  type Form1099G,
+  type Insert1099G,
+  type StateRefundWorksheet,
+  type InsertStateRefundWorksheet,
+  type Form1095A,
+  type Insert1095A,
+  type Form8962,
+  type InsertForm8962,
+  type IraContribution,
+  type InsertIraContribution,
+  type Form8606,
+  type InsertForm8606,
+  type Form8880,
+  type InsertForm8880,
+  type EnergyImprovement,
+  type InsertEnergyImprovement,
+  type Form5695,
+  type InsertForm5695,
+  type Form8615,
+  type InsertForm8615,
+  type QbiBusiness,
+  type InsertQbiBusiness,
+  type Form8995,
+  type InsertForm8995,
   type ParsingAttempt,
   type InsertParsingAttempt,
   type AiInsight,
@@ -45,6 +137,8 @@ import {
   type InsertFederalTaxBracket,
   type FederalStandardDeduction,
   type InsertFederalStandardDeduction,
+  type FederalCapitalGainBracket,
+  type InsertFederalCapitalGainBracket,
   type StateTaxBracket,
   type InsertStateTaxBracket,
   type StateStandardDeduction,
@@ -67,6 +161,22 @@ import {
   taxYears,
   federalTaxBrackets,
   federalStandardDeductions,
+  federalCapitalGainBrackets,
+  federalItemizedDeductionLimits,
+  federalSelfEmploymentParameters,
+  federalEarnedIncomeCredits,
+  federalChildTaxCredits,
+  federalAlternativeMinimumTax,
+  federalEducationBenefits,
+  federalHsaLimits,
+  federalUnderpaymentRates,
+  federalDependentCareCredit,
+  federalPovertyLines,
+  federalPremiumTaxCredit,
+  federalRetirementSavings,
+  federalEnergyCredits,
+  federalKiddieTax,
+  federalQbiDeduction,
   stateTaxBrackets,
   stateStandardDeductions,
   formSchemas,
@@ -75,6 +185,52 @@ import {
   form1040,
   form8949,
   scheduleD,
+  capitalLossCarryovers,
+  foreignTaxCarryovers,
+  energyCreditCarryovers,
+  qbiLossCarryovers,
+  qualifiedDividendsWorksheets,
+  form8959,
+  form8960,
+  scheduleA,
+  form1098,
+  form1099R,
+  form5329,
+  form1099Misc,
+  form1099Nec,
+  schedule1,
+  scheduleC,
+  scheduleSE,
+  earnedIncomeCredits,
+  schedule8812,
+  form6251,
+  form1098T,
+  form1098E,
+  form8863,
+  form1099Sa,
+  form5498Sa,
+  hsaContributions,
+  form8889,
+  form1116,
+  estimatedTaxPayments,
+  form2210,
+  form1040Es,
+  careProviders,
+  form2441,
+  formSsa1099,
+  socialSecurityBenefitsWorksheets,
+  form1099G,
+  stateRefundWorksheets,
+  form1095A,
+  form8962,
+  iraContributions,
+  form8606,
+  form8880,
+  energyImprovements,
+  form5695,
+  form8615,
+  qbiBusinesses,
+  form8995,
   parsingAttempts,
   aiInsights,
   processingHistory,
@@ -87,7 +243,7 @@ import {
 import { randomUUID } from "crypto";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
-import { eq, and, inArray } from "drizzle-orm";
+import { eq, and, inArray, desc } from "drizzle-orm";
 
 export interface IStorage {
   // User methods
@@ -157,6 +313,248 @@ export interface IStorage {
   createScheduleD(data: InsertScheduleD): Promise<ScheduleD>;
   updateScheduleD(id: string, data: Partial<ScheduleD>): Promise<ScheduleD>;
 
+  // Capital Loss Carryover methods
+  getCapitalLossCarryoversByUserId(userId: string): Promise<CapitalLossCarryover[]>;
+  getCapitalLossCarryover(userId: string, taxYear: number): Promise<CapitalLossCarryover | undefined>;
+  createCapitalLossCarryover(data: InsertCapitalLossCarryover): Promise<CapitalLossCarryover>;
+  updateCapitalLossCarryover(id: string, data: Partial<CapitalLossCarryover>): Promise<CapitalLossCarryover>;
+
+  // Foreign Tax Credit Carryover methods
+  getForeignTaxCarryoversByUserId(userId: string): Promise<ForeignTaxCarryover[]>;
+  getForeignTaxCarryover(userId: string, taxYear: number): Promise<ForeignTaxCarryover | undefined>;
+  createForeignTaxCarryover(data: InsertForeignTaxCarryover): Promise<ForeignTaxCarryover>;
+  updateForeignTaxCarryover(id: string, data: Partial<ForeignTaxCarryover>): Promise<ForeignTaxCarryover>;
+
+  // Residential Energy Credit Carryover methods
+  getEnergyCreditCarryoversByUserId(userId: string): Promise<EnergyCreditCarryover[]>;
+  getEnergyCreditCarryover(userId: string, taxYear: number): Promise<EnergyCreditCarryover | undefined>;
+  createEnergyCreditCarryover(data: InsertEnergyCreditCarryover): Promise<EnergyCreditCarryover>;
+  updateEnergyCreditCarryover(id: string, data: Partial<EnergyCreditCarryover>): Promise<EnergyCreditCarryover>;
+
+  // Qualified Business Income Loss Carryover methods
+  getQbiLossCarryoversByUserId(userId: string): Promise<QbiLossCarryover[]>;
+  getQbiLossCarryover(userId: string, taxYear: number): Promise<QbiLossCarryover | undefined>;
+  createQbiLossCarryover(data: InsertQbiLossCarryover): Promise<QbiLossCarryover>;
+  updateQbiLossCarryover(id: string, data: Partial<QbiLossCarryover>): Promise<QbiLossCarryover>;
+
+  // Qualified Dividends and Capital Gain Tax Worksheet methods
+  getQualifiedDividendsWorksheetByTaxReturnId(taxReturnId: string): Promise<QualifiedDividendsWorksheet | undefined>;
+  createQualifiedDividendsWorksheet(data: InsertQualifiedDividendsWorksheet): Promise<QualifiedDividendsWorksheet>;
+  updateQualifiedDividendsWorksheet(id: string, data: Partial<QualifiedDividendsWorksheet>): Promise<QualifiedDividendsWorksheet>;
+
+  // Form 8959 methods
+  getForm8959ByTaxReturnId(taxReturnId: string): Promise<Form8959 | undefined>;
+  createForm8959(data: InsertForm8959): Promise<Form8959>;
+  updateForm8959(id: string, data: Partial<Form8959>): Promise<Form8959>;
+
+  // Form 8960 methods
+  getForm8960ByTaxReturnId(taxReturnId: string): Promise<Form8960 | undefined>;
+  createForm8960(data: InsertForm8960): Promise<Form8960>;
+  updateForm8960(id: string, data: Partial<Form8960>): Promise<Form8960>;
+
+  // Schedule A methods
+  getScheduleAByTaxReturnId(taxReturnId: string): Promise<ScheduleA | undefined>;
+  createScheduleA(data: InsertScheduleA): Promise<ScheduleA>;
+  updateScheduleA(id: string, data: Partial<ScheduleA>): Promise<ScheduleA>;
+  deleteScheduleA(id: string): Promise<void>;
+
+  // 1098 methods
+  get1098ByTaxReturnId(taxReturnId: string): Promise<Form1098[]>;
+  create1098(data: Insert1098): Promise<Form1098>;
+  update1098(id: string, data: Partial<Form1098>): Promise<Form1098>;
+
+  // 1099-R methods
+  get1099RByTaxReturnId(taxReturnId: string): Promise<Form1099R[]>;
+  create1099R(data: Insert1099R): Promise<Form1099R>;
+  update1099R(id: string, data: Partial<Form1099R>): Promise<Form1099R>;
+
+  // Form 5329 methods
+  getForm5329ByTaxReturnId(taxReturnId: string): Promise<Form5329 | undefined>;
+  createForm5329(data: InsertForm5329): Promise<Form5329>;
+  updateForm5329(id: string, data: Partial<Form5329>): Promise<Form5329>;
+
+  // 1099-MISC methods
+  get1099MiscByTaxReturnId(taxReturnId: string): Promise<Form1099Misc[]>;
+  create1099Misc(data: Insert1099Misc): Promise<Form1099Misc>;
+  update1099Misc(id: string, data: Partial<Form1099Misc>): Promise<Form1099Misc>;
+
+  // 1099-NEC methods
+  get1099NecByTaxReturnId(taxReturnId: string): Promise<Form1099Nec[]>;
+  create1099Nec(data: Insert1099Nec): Promise<Form1099Nec>;
+  update1099Nec(id: string, data: Partial<Form1099Nec>): Promise<Form1099Nec>;
+
+  // Schedule 1 methods
+  getSchedule1ByTaxReturnId(taxReturnId: string): Promise<Schedule1 | undefined>;
+  createSchedule1(data: InsertSchedule1): Promise<Schedule1>;
+  updateSchedule1(id: string, data: Partial<Schedule1>): Promise<Schedule1>;
+
+  // Schedule C methods
+  getScheduleCByTaxReturnId(taxReturnId: string): Promise<ScheduleC | undefined>;
+  createScheduleC(data: InsertScheduleC): Promise<ScheduleC>;
+  updateScheduleC(id: string, data: Partial<ScheduleC>): Promise<ScheduleC>;
+  deleteScheduleC(id: string): Promise<void>;
+
+  // Schedule SE methods
+  getScheduleSEByTaxReturnId(taxReturnId: string): Promise<ScheduleSE | undefined>;
+  createScheduleSE(data: InsertScheduleSE): Promise<ScheduleSE>;
+  updateScheduleSE(id: string, data: Partial<ScheduleSE>): Promise<ScheduleSE>;
+
+  // Earned Income Credit methods
+  getEarnedIncomeCreditByTaxReturnId(taxReturnId: string): Promise<EarnedIncomeCredit | undefined>;
+  createEarnedIncomeCredit(data: InsertEarnedIncomeCredit): Promise<EarnedIncomeCredit>;
+  updateEarnedIncomeCredit(id: string, data: Partial<EarnedIncomeCredit>): Promise<EarnedIncomeCredit>;
+
+  // Schedule 8812 methods
+  getSchedule8812ByTaxReturnId(taxReturnId: string): Promise<Schedule8812 | undefined>;
+  createSchedule8812(data: InsertSchedule8812): Promise<Schedule8812>;
+  updateSchedule8812(id: string, data: Partial<Schedule8812>): Promise<Schedule8812>;
+
+  // Form 6251 methods
+  getForm6251ByTaxReturnId(taxReturnId: string): Promise<Form6251 | undefined>;
+  createForm6251(data: InsertForm6251): Promise<Form6251>;
+  updateForm6251(id: string, data: Partial<Form6251>): Promise<Form6251>;
+
+  // 1098-T methods
+  get1098TByTaxReturnId(taxReturnId: string): Promise<Form1098T[]>;
+  create1098T(data: Insert1098T): Promise<Form1098T>;
+  update1098T(id: string, data: Partial<Form1098T>): Promise<Form1098T>;
+
+  // 1098-E methods
+  get1098EByTaxReturnId(taxReturnId: string): Promise<Form1098E[]>;
+  create1098E(data: Insert1098E): Promise<Form1098E>;
+  update1098E(id: string, data: Partial<Form1098E>): Promise<Form1098E>;
+
+  // Form 8863 methods
+  getForm8863ByTaxReturnId(taxReturnId: string): Promise<Form8863 | undefined>;
+  createForm8863(data: InsertForm8863): Promise<Form8863>;
+  updateForm8863(id: string, data: Partial<Form8863>): Promise<Form8863>;
+
+  // 1099-SA methods
+  get1099SaByTaxReturnId(taxReturnId: string): Promise<Form1099Sa[]>;
+  create1099Sa(data: Insert1099Sa): Promise<Form1099Sa>;
+  update1099Sa(id: string, data: Partial<Form1099Sa>): Promise<Form1099Sa>;
+
+  // 5498-SA methods
+  get5498SaByTaxReturnId(taxReturnId: string): Promise<Form5498Sa[]>;
+  create5498Sa(data: Insert5498Sa): Promise<Form5498Sa>;
+  update5498Sa(id: string, data: Partial<Form5498Sa>): Promise<Form5498Sa>;
+
+  // HSA contribution methods
+  getHsaContributionsByTaxReturnId(taxReturnId: string): Promise<HsaContribution[]>;
+  createHsaContribution(data: InsertHsaContribution): Promise<HsaContribution>;
+  updateHsaContribution(id: string, data: Partial<HsaContribution>): Promise<HsaContribution>;
+  deleteHsaContribution(id: string): Promise<void>;
+
+  // Form 8889 methods
+  getForm8889ByTaxReturnId(taxReturnId: string): Promise<Form8889[]>;
+  createForm8889(data: InsertForm8889): Promise<Form8889>;
+  updateForm8889(id: string, data: Partial<Form8889>): Promise<Form8889>;
+
+  // Form 1116 methods
+  getForm1116ByTaxReturnId(taxReturnId: string): Promise<Form1116 | undefined>;
+  createForm1116(data: InsertForm1116): Promise<Form1116>;
+  updateForm1116(id: string, data: Partial<Form1116>): Promise<Form1116>;
+
+  // Estimated tax payment methods
+  getEstimatedTaxPaymentsByTaxReturnId(taxReturnId: string): Promise<EstimatedTaxPayment[]>;
+  createEstimatedTaxPayment(data: InsertEstimatedTaxPayment): Promise<EstimatedTaxPayment>;
+  updateEstimatedTaxPayment(id: string, data: Partial<EstimatedTaxPayment>): Promise<EstimatedTaxPayment>;
+  deleteEstimatedTaxPayment(id: string): Promise<void>;
+
+  // Form 2210 methods
+  getForm2210ByTaxReturnId(taxReturnId: string): Promise<Form2210 | undefined>;
+  createForm2210(data: InsertForm2210): Promise<Form2210>;
+  updateForm2210(id: string, data: Partial<Form2210>): Promise<Form2210>;
+
+  // Form 1040-ES methods
+  getForm1040EsByTaxReturnId(taxReturnId: string): Promise<Form1040Es | undefined>;
+  createForm1040Es(data: InsertForm1040Es): Promise<Form1040Es>;
+  updateForm1040Es(id: string, data: Partial<Form1040Es>): Promise<Form1040Es>;
+
+  // Care provider methods
+  getCareProvidersByTaxReturnId(taxReturnId: string): Promise<CareProvider[]>;
+  createCareProvider(data: InsertCareProvider): Promise<CareProvider>;
+  updateCareProvider(id: string, data: Partial<CareProvider>): Promise<CareProvider>;
+  deleteCareProvider(id: string): Promise<void>;
+
+  // Form 2441 methods
+  getForm2441ByTaxReturnId(taxReturnId: string): Promise<Form2441 | undefined>;
+  createForm2441(data: InsertForm2441): Promise<Form2441>;
+  updateForm2441(id: string, data: Partial<Form2441>): Promise<Form2441>;
+
+  // SSA-1099 methods
+  getSsa1099ByTaxReturnId(taxReturnId: string): Promise<FormSsa1099[]>;
+  createSsa1099(data: InsertSsa1099): Promise<FormSsa1099>;
+  updateSsa1099(id: string, data: Partial<FormSsa1099>): Promise<FormSsa1099>;
+
+  // Social Security Benefits Worksheet methods
+  getSocialSecurityBenefitsWorksheetByTaxReturnId(taxReturnId: string): Promise<SocialSecurityBenefitsWorksheet | undefined>;
+  createSocialSecurityBenefitsWorksheet(data: InsertSocialSecurityBenefitsWorksheet): Promise<SocialSecurityBenefitsWorksheet>;
+  updateSocialSecurityBenefitsWorksheet(id: string, data: Partial<SocialSecurityBenefitsWorksheet>): Promise<SocialSecurityBenefitsWorksheet>;
+
+  // 1099-G methods
+  get1099GByTaxReturnId(taxReturnId: string): Promise<Form1099G[]>;
+  create1099G(data: Insert1099G): Promise<Form1099G>;
+  update1099G(id: string, data: Partial<Form1099G>): Promise<Form1099G>;
+
+  // State Refund Worksheet methods
+  getStateRefundWorksheetByTaxReturnId(taxReturnId: string): Promise<StateRefundWorksheet | undefined>;
+  createStateRefundWorksheet(data: InsertStateRefundWorksheet): Promise<StateRefundWorksheet>;
+  updateStateRefundWorksheet(id: string, data: Partial<StateRefundWorksheet>): Promise<StateRefundWorksheet>;
+
+  // 1095-A methods
+  get1095AByTaxReturnId(taxReturnId: string): Promise<Form1095A[]>;
+  create1095A(data: Insert1095A): Promise<Form1095A>;
+  update1095A(id: string, data: Partial<Form1095A>): Promise<Form1095A>;
+
+  // Form 8962 methods
+  getForm8962ByTaxReturnId(taxReturnId: string): Promise<Form8962 | undefined>;
+  createForm8962(data: InsertForm8962): Promise<Form8962>;
+  updateForm8962(id: string, data: Partial<Form8962>): Promise<Form8962>;
+
+  // IRA contribution methods
+  getIraContributionsByTaxReturnId(taxReturnId: string): Promise<IraContribution[]>;
+  createIraContribution(data: InsertIraContribution): Promise<IraContribution>;
+  updateIraContribution(id: string, data: Partial<IraContribution>): Promise<IraContribution>;
+  deleteIraContribution(id: string): Promise<void>;
+
+  // Form 8606 methods
+  getForm8606ByTaxReturnId(taxReturnId: string): Promise<Form8606[]>;
+  createForm8606(data: InsertForm8606): Promise<Form8606>;
+  updateForm8606(id: string, data: Partial<Form8606>): Promise<Form8606>;
+
+  // Form 8880 methods
+  getForm8880ByTaxReturnId(taxReturnId: string): Promise<Form8880 | undefined>;
+  createForm8880(data: InsertForm8880): Promise<Form8880>;
+  updateForm8880(id: string, data: Partial<Form8880>): Promise<Form8880>;
+
+  // Energy improvement methods
+  getEnergyImprovementsByTaxReturnId(taxReturnId: string): Promise<EnergyImprovement[]>;
+  createEnergyImprovement(data: InsertEnergyImprovement): Promise<EnergyImprovement>;
+  updateEnergyImprovement(id: string, data: Partial<EnergyImprovement>): Promise<EnergyImprovement>;
+  deleteEnergyImprovement(id: string): Promise<void>;
+
+  // Form 5695 methods
+  getForm5695ByTaxReturnId(taxReturnId: string): Promise<Form5695 | undefined>;
+  createForm5695(data: InsertForm5695): Promise<Form5695>;
+  updateForm5695(id: string, data: Partial<Form5695>): Promise<Form5695>;
+
+  // Form 8615 methods
+  getForm8615ByTaxReturnId(taxReturnId: string): Promise<Form8615 | undefined>;
+  createForm8615(data: InsertForm8615): Promise<Form8615>;
+  updateForm8615(id: string, data: Partial<Form8615>): Promise<Form8615>;
+
+  // QBI business methods
+  getQbiBusinessesByTaxReturnId(taxReturnId: string): Promise<QbiBusiness[]>;
+  createQbiBusiness(data: InsertQbiBusiness): Promise<QbiBusiness>;
+  updateQbiBusiness(id: string, data: Partial<QbiBusiness>): Promise<QbiBusiness>;
+  deleteQbiBusiness(id: string): Promise<void>;
+
+  // Form 8995 methods
+  getForm8995ByTaxReturnId(taxReturnId: string): Promise<Form8995 | undefined>;
+  createForm8995(data: InsertForm8995): Promise<Form8995>;
+  updateForm8995(id: string, data: Partial<Form8995>): Promise<Form8995>;
+
   // Parsing Attempts methods
   createParsingAttempt(data: InsertParsingAttempt): Promise<ParsingAttempt>;
   getParsingAttemptsByDocumentId(documentId: string): Promise<ParsingAttempt[]>;
@@ -209,6 +607,52 @@ export class MemStorage implements IStorage {
   private form1040: Map<string, Form1040>;
   private form8949: Map<string, Form8949>;
   private scheduleD: Map<string, ScheduleD>;
+  private capitalLossCarryovers: Map<string, CapitalLossCarryover>;
+  private foreignTaxCarryovers: Map<string, ForeignTaxCarryover>;
+  private energyCreditCarryovers: Map<string, EnergyCreditCarryover>;
+  private qbiLossCarryovers: Map<string, QbiLossCarryover>;
+  private qualifiedDividendsWorksheets: Map<string, QualifiedDividendsWorksheet>;
+  private form8959: Map<string, Form8959>;
+  private form8960: Map<string, Form8960>;
+  private scheduleA: Map<string, ScheduleA>;
+  private form1098: Map<string, Form1098>;
+  private form1099R: Map<string, Form1099R>;
+  private form5329: Map<string, Form5329>;
+  private form1099Misc: Map<string, Form1099Misc>;
+  private form1099Nec: Map<string, Form1099Nec>;
+  private schedule1: Map<string, Schedule1>;
+  private scheduleC: Map<string, ScheduleC>;
+  private scheduleSE: Map<string, ScheduleSE>;
+  private earnedIncomeCredits: Map<string, EarnedIncomeCredit>;
+  private schedule8812: Map<string, Schedule8812>;
+  private form6251: Map<string, Form6251>;
+  private form1098T: Map<string, Form1098T>;
+  private form1098E: Map<string, Form1098E>;
+  private form8863: Map<string, Form8863>;
+  private form1099Sa: Map<string, Form1099Sa>;
+  private form5498Sa: Map<string, Form5498Sa>;
+  private hsaContributions: Map<string, HsaContribution>;
+  private form8889: Map<string, Form8889>;
+  private form1116: Map<string, Form1116>;
+  private estimatedTaxPayments: Map<string, EstimatedTaxPayment>;
+  private form2210: Map<string, Form2210>;
+  private form1040Es: Map<string, Form1040Es>;
+  private careProviders: Map<string, CareProvider>;
+  private form2441: Map<string, Form2441>;
+  private formSsa1099: Map<string, FormSsa1099>;
+  private socialSecurityBenefitsWorksheets: Map<string, SocialSecurityBenefitsWorksheet>;
+  private form1099G: Map<string, Form1099G>;
+  private stateRefundWorksheets: Map<string, StateRefundWorksheet>;
+  private form1095A: Map<string, Form1095A>;
+  private form8962: Map<string, Form8962>;
+  private iraContributions: Map<string, IraContribution>;
+  private form8606: Map<string, Form8606>;
+  private form8880: Map<string, Form8880>;
+  private energyImprovements: Map<string, EnergyImprovement>;
+  private form5695: Map<string, Form5695>;
+  private form8615: Map<string, Form8615>;
+  private qbiBusinesses: Map<string, QbiBusiness>;
+  private form8995: Map<string, Form8995>;
   private parsingAttempts: Map<string, ParsingAttempt>;
   private aiInsights: Map<string, AiInsight>;
   private processingHistory: Map<string, ProcessingHistory>;
@@ -231,6 +675,52 @@ export class MemStorage implements IStorage {
     this.form1040 = new Map();
     this.form8949 = new Map();
     this.scheduleD = new Map();
+    this.capitalLossCarryovers = new Map();
+    this.foreignTaxCarryovers = new Map();
+    this.energyCreditCarryovers = new Map();
+    this.qbiLossCarryovers = new Map();
+    this.qualifiedDividendsWorksheets = new Map();
+    this.form8959 = new Map();
+    this.form8960 = new Map();
+    this.scheduleA = new Map();
+    this.form1098 = new Map();
+    this.form1099R = new Map();
+    this.form5329 = new Map();
+    this.form1099Misc = new Map();
+    this.form1099Nec = new Map();
+    this.schedule1 = new Map();
+    this.scheduleC = new Map();
+    this.scheduleSE = new Map();
+    this.earnedIncomeCredits = new Map();
+    this.schedule8812 = new Map();
+    this.form6251 = new Map();
+    this.form1098T = new Map();
+    this.form1098E = new Map();
+    this.form8863 = new Map();
+    this.form1099Sa = new Map();
+    this.form5498Sa = new Map();
+    this.hsaContributions = new Map();
+    this.form8889 = new Map();
+    this.form1116 = new Map();
+    this.estimatedTaxPayments = new Map();
+    this.form2210 = new Map();
+    this.form1040Es = new Map();
+    this.careProviders = new Map();
+    this.form2441 = new Map();
+    this.formSsa1099 = new Map();
+    this.socialSecurityBenefitsWorksheets = new Map();
+    this.form1099G = new Map();
+    this.stateRefundWorksheets = new Map();
+    this.form1095A = new Map();
+    this.form8962 = new Map();
+    this.iraContributions = new Map();
+    this.form8606 = new Map();
+    this.form8880 = new Map();
+    this.energyImprovements = new Map();
+    this.form5695 = new Map();
+    this.form8615 = new Map();
+    this.qbiBusinesses = new Map();
+    this.form8995 = new Map();
     this.parsingAttempts = new Map();
     this.aiInsights = new Map();
     this.processingHistory = new Map();
@@ -433,6 +923,17 @@ export class MemStorage implements IStorage {
     this.form1099Int.clear();
     this.form1099B.clear();
     this.form1099BEntries.clear();
+    this.form1098.clear();
+    this.form1099R.clear();
+    this.form1099Misc.clear();
+    this.form1099Nec.clear();
+    this.form1098T.clear();
+    this.form1098E.clear();
+    this.form1099Sa.clear();
+    this.form5498Sa.clear();
+    this.formSsa1099.clear();
+    this.form1099G.clear();
+    this.form1095A.clear();
     this.parsingAttempts.clear();
     this.processingHistory.clear();
     this.aiInsights.clear();
@@ -464,6 +965,13 @@ export class MemStorage implements IStorage {
       medicareWithheld: insertW2.medicareWithheld || null,
       stateWages: insertW2.stateWages || null,
       stateWithheld: insertW2.stateWithheld || null,
+      dependentCareBenefits: insertW2.dependentCareBenefits || null,
+      box12: insertW2.box12 || null,
+      statutoryEmployee: insertW2.statutoryEmployee || false,
+      retirementPlan: insertW2.retirementPlan || false,
+      thirdPartySickPay: insertW2.thirdPartySickPay || false,
+      box14: insertW2.box14 || null,
+      owner: insertW2.owner || null,
     };
     this.w2Data.set(id, w2);
     return w2;
@@ -498,6 +1006,7 @@ export class MemStorage implements IStorage {
       totalCapitalGain: insert1099Div.totalCapitalGain || null,
       section1202Gain: insert1099Div.section1202Gain || null,
       foreignTaxPaid: insert1099Div.foreignTaxPaid || null,
+      section199aDividends: insert1099Div.section199aDividends || null,
     };
     this.form1099Div.set(id, div);
     return div;
@@ -653,16 +1162,32 @@ export class MemStorage implements IStorage {
       interestIncome: insert1040.interestIncome || null,
       dividendIncome: insert1040.dividendIncome || null,
       qualifiedDividends: insert1040.qualifiedDividends || null,
+      iraDistributions: insert1040.iraDistributions || null,
+      taxableIraDistributions: insert1040.taxableIraDistributions || null,
+      pensionsAnnuities: insert1040.pensionsAnnuities || null,
+      taxablePensionsAnnuities: insert1040.taxablePensionsAnnuities || null,
+      socialSecurityBenefits: insert1040.socialSecurityBenefits || null,
+      taxableSocialSecurityBenefits: insert1040.taxableSocialSecurityBenefits || null,
       capitalGains: insert1040.capitalGains || null,
+      additionalIncome: insert1040.additionalIncome || null,
       totalIncome: insert1040.totalIncome || null,
       adjustments: insert1040.adjustments || null,
       adjustedGrossIncome: insert1040.adjustedGrossIncome || null,
       standardDeduction: insert1040.standardDeduction || null,
       taxableIncome: insert1040.taxableIncome || null,
       tax: insert1040.tax || null,
-      credits: insert1040.credits || null,
+      deductionType: insert1040.deductionType || "standard",
+      itemizedDeductions: insert1040.itemizedDeductions || null,
+      qbiDeduction: insert1040.qbiDeduction || null,
+      alternativeMinimumTax: insert1040.alternativeMinimumTax || null,
+      excessAdvancePremiumTaxCredit: insert1040.excessAdvancePremiumTaxCredit || null,
+      creditsBreakdown: insert1040.creditsBreakdown || null,
+      w2Benefits: insert1040.w2Benefits || null,
+      otherTaxes: insert1040.otherTaxes || null,
       totalTax: insert1040.totalTax || null,
       federalWithheld: insert1040.federalWithheld || null,
+      estimatedTaxPayments: insert1040.estimatedTaxPayments || null,
+      estimatedTaxPenalty: insert1040.estimatedTaxPenalty || null,
       refundOrOwed: insert1040.refundOrOwed || null,
     };
     this.form1040.set(id, form);
@@ -735,6 +1260,9 @@ export class MemStorage implements IStorage {
       netShortTermGainLoss: insertScheduleD.netShortTermGainLoss || null,
       netLongTermGainLoss: insertScheduleD.netLongTermGainLoss || null,
       totalCapitalGainLoss: insertScheduleD.totalCapitalGainLoss || null,
+      shortTermCarryover: insertScheduleD.shortTermCarryover || null,
+      longTermCarryover: insertScheduleD.longTermCarryover || null,
+      allowableCapitalLoss: insertScheduleD.allowableCapitalLoss || null,
     };
     this.scheduleD.set(id, schedule);
     return schedule;
@@ -749,297 +1277,2107 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  // Parsing Attempts methods
-  async createParsingAttempt(data: InsertParsingAttempt): Promise<ParsingAttempt> {
-    const id = randomUUID();
-    const parsingAttempt: ParsingAttempt = {
-      id,
-      createdAt: new Date(),
-      parsingMethod: data.parsingMethod,
-      documentId: data.documentId,
-      confidenceScore: data.confidenceScore || null,
-      rawText: data.rawText || null,
-      extractedData: data.extractedData || null,
-      processingTimeMs: data.processingTimeMs || null,
-      errorMessage: data.errorMessage || null,
-    };
-    this.parsingAttempts.set(id, parsingAttempt);
-    return parsingAttempt;
+  // Capital Loss Carryover methods
+  async getCapitalLossCarryoversByUserId(userId: string): Promise<CapitalLossCarryover[]> {
+    return Array.from(this.capitalLossCarryovers.values())
+      .filter((carryover) => carryover.userId === userId)
+      .sort((a, b) => b.taxYear - a.taxYear);
   }
 
-  async getParsingAttemptsByDocumentId(documentId: string): Promise<ParsingAttempt[]> {
-    return Array.from(this.parsingAttempts.values()).filter(pa => pa.documentId === documentId);
+  async getCapitalLossCarryover(userId: string, taxYear: number): Promise<CapitalLossCarryover | undefined> {
+    return Array.from(this.capitalLossCarryovers.values()).find(
+      (carryover) => carryover.userId === userId && carryover.taxYear === taxYear
+    );
   }
 
-  // AI Insights methods
-  async createAiInsight(data: InsertAiInsight): Promise<AiInsight> {
+  async createCapitalLossCarryover(data: InsertCapitalLossCarryover): Promise<CapitalLossCarryover> {
     const id = randomUUID();
-    const insight: AiInsight = {
+    const carryover: CapitalLossCarryover = {
       id,
       createdAt: new Date(),
-      status: data.status || "active",
-      taxReturnId: data.taxReturnId || null,
-      documentId: data.documentId || null,
-      insightType: data.insightType,
-      category: data.category,
-      title: data.title,
-      description: data.description,
-      potentialSavings: data.potentialSavings || null,
-      priority: data.priority,
-      metadata: data.metadata || null,
+      updatedAt: new Date(),
+      userId: data.userId,
+      taxYear: data.taxYear,
+      taxableIncome: data.taxableIncome || null,
+      netShortTermGainLoss: data.netShortTermGainLoss || null,
+      netLongTermGainLoss: data.netLongTermGainLoss || null,
+      allowableCapitalLoss: data.allowableCapitalLoss || null,
+      shortTermCarryover: data.shortTermCarryover || null,
+      longTermCarryover: data.longTermCarryover || null,
+      isManualEntry: data.isManualEntry || false,
+      worksheetLines: data.worksheetLines || null,
     };
-    this.aiInsights.set(id, insight);
-    return insight;
+    this.capitalLossCarryovers.set(id, carryover);
+    return carryover;
   }
 
-  async getAiInsightsByTaxReturnId(taxReturnId: string): Promise<AiInsight[]> {
-    return Array.from(this.aiInsights.values()).filter(ai => ai.taxReturnId === taxReturnId);
+  async updateCapitalLossCarryover(id: string, data: Partial<CapitalLossCarryover>): Promise<CapitalLossCarryover> {
+    const existing = this.capitalLossCarryovers.get(id);
+    if (!existing) throw new Error("Capital loss carryover not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.capitalLossCarryovers.set(id, updated);
+    return updated;
   }
 
-  async updateAiInsight(id: string, data: Partial<AiInsight>): Promise<AiInsight> {
-    const existing = this.aiInsights.get(id);
-    if (!existing) throw new Error("AI Insight not found");
+  // Foreign Tax Credit Carryover methods
+  async getForeignTaxCarryoversByUserId(userId: string): Promise<ForeignTaxCarryover[]> {
+    return Array.from(this.foreignTaxCarryovers.values())
+      .filter((carryover) => carryover.userId === userId)
+      .sort((a, b) => b.taxYear - a.taxYear);
+  }
 
-    const updated = { ...existing, ...data };
-    this.aiInsights.set(id, updated);
-    return updated;
+  async getForeignTaxCarryover(userId: string, taxYear: number): Promise<ForeignTaxCarryover | undefined> {
+    return Array.from(this.foreignTaxCarryovers.values()).find(
+      (carryover) => carryover.userId === userId && carryover.taxYear === taxYear
+    );
   }
 
-  // Processing History methods
-  async createProcessingHistory(data: InsertProcessingHistory): Promise<ProcessingHistory> {
+  async createForeignTaxCarryover(data: InsertForeignTaxCarryover): Promise<ForeignTaxCarryover> {
     const id = randomUUID();
-    const history: ProcessingHistory = {
+    const carryover: ForeignTaxCarryover = {
       id,
       createdAt: new Date(),
-      status: data.status,
-      documentId: data.documentId,
-      step: data.step,
-      method: data.method,
-      confidenceScore: data.confidenceScore || null,
-      processingTimeMs: data.processingTimeMs || null,
-      errorMessage: data.errorMessage || null,
-      metadata: data.metadata || null,
+      updatedAt: new Date(),
+      userId: data.userId,
+      taxYear: data.taxYear,
+      carryovers: data.carryovers || null,
+      totalCarryover: data.totalCarryover || null,
+      isManualEntry: data.isManualEntry || false,
     };
-    this.processingHistory.set(id, history);
-    return history;
+    this.foreignTaxCarryovers.set(id, carryover);
+    return carryover;
   }
 
-  async getProcessingHistoryByDocumentId(documentId: string): Promise<ProcessingHistory[]> {
-    return Array.from(this.processingHistory.values()).filter(ph => ph.documentId === documentId);
+  async updateForeignTaxCarryover(id: string, data: Partial<ForeignTaxCarryover>): Promise<ForeignTaxCarryover> {
+    const existing = this.foreignTaxCarryovers.get(id);
+    if (!existing) throw new Error("Foreign tax carryover not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.foreignTaxCarryovers.set(id, updated);
+    return updated;
   }
 
-  // User Preferences methods
-  async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
-    return Array.from(this.userPreferences.values()).find(up => up.userId === userId);
+  // Residential Energy Credit Carryover methods
+  async getEnergyCreditCarryoversByUserId(userId: string): Promise<EnergyCreditCarryover[]> {
+    return Array.from(this.energyCreditCarryovers.values())
+      .filter((carryover) => carryover.userId === userId)
+      .sort((a, b) => b.taxYear - a.taxYear);
   }
 
-  async createUserPreferences(data: InsertUserPreferences): Promise<UserPreferences> {
+  async getEnergyCreditCarryover(userId: string, taxYear: number): Promise<EnergyCreditCarryover | undefined> {
+    return Array.from(this.energyCreditCarryovers.values()).find(
+      (carryover) => carryover.userId === userId && carryover.taxYear === taxYear
+    );
+  }
+
+  async createEnergyCreditCarryover(data: InsertEnergyCreditCarryover): Promise<EnergyCreditCarryover> {
     const id = randomUUID();
-    const preferences: UserPreferences = {
+    const carryover: EnergyCreditCarryover = {
       id,
       createdAt: new Date(),
-      userId: data.userId,
       updatedAt: new Date(),
-      subscriptionTier: data.subscriptionTier || "free",
-      aiFeaturesEnabled: data.aiFeaturesEnabled || null,
-      autoEfileEnabled: data.autoEfileEnabled || null,
-      notificationsEnabled: data.notificationsEnabled || null,
-      preferences: data.preferences || null,
+      userId: data.userId,
+      taxYear: data.taxYear,
+      carryforward: data.carryforward || null,
+      isManualEntry: data.isManualEntry || false,
     };
-    this.userPreferences.set(id, preferences);
-    return preferences;
+    this.energyCreditCarryovers.set(id, carryover);
+    return carryover;
   }
 
-  async updateUserPreferences(id: string, data: Partial<UserPreferences>): Promise<UserPreferences> {
-    const existing = this.userPreferences.get(id);
-    if (!existing) throw new Error("User Preferences not found");
+  async updateEnergyCreditCarryover(id: string, data: Partial<EnergyCreditCarryover>): Promise<EnergyCreditCarryover> {
+    const existing = this.energyCreditCarryovers.get(id);
+    if (!existing) throw new Error("Energy credit carryover not found");
 
     const updated = { ...existing, ...data, updatedAt: new Date() };
-    this.userPreferences.set(id, updated);
+    this.energyCreditCarryovers.set(id, updated);
     return updated;
   }
 
-  // Subscription methods
-  async getSubscriptionByUserId(userId: string): Promise<Subscription | undefined> {
-    return Array.from(this.subscriptions.values()).find(s => s.userId === userId);
+  // Qualified Business Income Loss Carryover methods
+  async getQbiLossCarryoversByUserId(userId: string): Promise<QbiLossCarryover[]> {
+    return Array.from(this.qbiLossCarryovers.values())
+      .filter((carryover) => carryover.userId === userId)
+      .sort((a, b) => b.taxYear - a.taxYear);
   }
 
-  async getActiveSubscription(userId: string): Promise<Subscription | undefined> {
-    return Array.from(this.subscriptions.values()).find(s => s.userId === userId && s.status === "active");
+  async getQbiLossCarryover(userId: string, taxYear: number): Promise<QbiLossCarryover | undefined> {
+    return Array.from(this.qbiLossCarryovers.values()).find(
+      (carryover) => carryover.userId === userId && carryover.taxYear === taxYear
+    );
   }
 
-  async createSubscription(data: InsertSubscription): Promise<Subscription> {
+  async createQbiLossCarryover(data: InsertQbiLossCarryover): Promise<QbiLossCarryover> {
     const id = randomUUID();
-    const subscription: Subscription = {
+    const carryover: QbiLossCarryover = {
       id,
       createdAt: new Date(),
+      updatedAt: new Date(),
       userId: data.userId,
-      status: data.status,
-      tier: data.tier,
-      startDate: data.startDate,
-      renewalDate: data.renewalDate || null,
-      cancelledAt: data.cancelledAt || null,
-      stripeSubscriptionId: data.stripeSubscriptionId || null,
+      taxYear: data.taxYear,
+      qbiLoss: data.qbiLoss || null,
+      reitPtpLoss: data.reitPtpLoss || null,
+      isManualEntry: data.isManualEntry || false,
     };
-    this.subscriptions.set(id, subscription);
-    return subscription;
+    this.qbiLossCarryovers.set(id, carryover);
+    return carryover;
   }
 
-  async updateSubscription(id: string, data: Partial<Subscription>): Promise<Subscription> {
-    const existing = this.subscriptions.get(id);
-    if (!existing) throw new Error("Subscription not found");
+  async updateQbiLossCarryover(id: string, data: Partial<QbiLossCarryover>): Promise<QbiLossCarryover> {
+    const existing = this.qbiLossCarryovers.get(id);
+    if (!existing) throw new Error("QBI loss carryover not found");
 
-    const updated = { ...existing, ...data };
-    this.subscriptions.set(id, updated);
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.qbiLossCarryovers.set(id, updated);
     return updated;
   }
 
-  // API Usage methods
-  async createApiUsage(data: InsertApiUsage): Promise<ApiUsage> {
+  // Qualified Dividends and Capital Gain Tax Worksheet methods
+  async getQualifiedDividendsWorksheetByTaxReturnId(taxReturnId: string): Promise<QualifiedDividendsWorksheet | undefined> {
+    return Array.from(this.qualifiedDividendsWorksheets.values()).find(
+      (worksheet) => worksheet.taxReturnId === taxReturnId
+    );
+  }
+
+  async createQualifiedDividendsWorksheet(data: InsertQualifiedDividendsWorksheet): Promise<QualifiedDividendsWorksheet> {
     const id = randomUUID();
-    const usage: ApiUsage = {
+    const worksheet: QualifiedDividendsWorksheet = {
       id,
-      createdAt: new Date(),
-      userId: data.userId,
-      metadata: data.metadata || null,
-      service: data.service,
-      endpoint: data.endpoint,
-      requestCount: data.requestCount || 1,
-      costUsd: data.costUsd || null,
-      tokensUsed: data.tokensUsed || null,
+      taxReturnId: data.taxReturnId,
+      taxableIncome: data.taxableIncome || null,
+      qualifiedDividends: data.qualifiedDividends || null,
+      netCapitalGain: data.netCapitalGain || null,
+      ordinaryIncome: data.ordinaryIncome || null,
+      zeroRateAmount: data.zeroRateAmount || null,
+      fifteenRateAmount: data.fifteenRateAmount || null,
+      twentyRateAmount: data.twentyRateAmount || null,
+      ordinaryTax: data.ordinaryTax || null,
+      regularTax: data.regularTax || null,
+      tax: data.tax || null,
+      lines: data.lines || null,
     };
-    this.apiUsage.set(id, usage);
-    return usage;
+    this.qualifiedDividendsWorksheets.set(id, worksheet);
+    return worksheet;
   }
 
-  async getApiUsageByUserId(userId: string): Promise<ApiUsage[]> {
-    return Array.from(this.apiUsage.values()).filter(au => au.userId === userId);
+  async updateQualifiedDividendsWorksheet(id: string, data: Partial<QualifiedDividendsWorksheet>): Promise<QualifiedDividendsWorksheet> {
+    const existing = this.qualifiedDividendsWorksheets.get(id);
+    if (!existing) throw new Error("Qualified dividends worksheet not found");
+
+    const updated = { ...existing, ...data };
+    this.qualifiedDividendsWorksheets.set(id, updated);
+    return updated;
   }
 
-  // E-file Submission methods
-  async createEfileSubmission(data: InsertEfileSubmission): Promise<EfileSubmission> {
+  // Form 8959 methods
+  async getForm8959ByTaxReturnId(taxReturnId: string): Promise<Form8959 | undefined> {
+    return Array.from(this.form8959.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm8959(data: InsertForm8959): Promise<Form8959> {
     const id = randomUUID();
-    const submission: EfileSubmission = {
+    const form: Form8959 = {
       id,
-      createdAt: new Date(),
-      status: data.status,
       taxReturnId: data.taxReturnId,
-      errorMessage: data.errorMessage || null,
-      submissionType: data.submissionType,
-      irsSubmissionId: data.irsSubmissionId || null,
-      acknowledgmentNumber: data.acknowledgmentNumber || null,
-      errorCode: data.errorCode || null,
-      submittedAt: data.submittedAt || null,
-      processedAt: data.processedAt || null,
+      medicareWages: data.medicareWages || null,
+      threshold: data.threshold || null,
+      excessWages: data.excessWages || null,
+      wageAdditionalMedicareTax: data.wageAdditionalMedicareTax || null,
+      selfEmploymentIncome: data.selfEmploymentIncome || null,
+      selfEmploymentThreshold: data.selfEmploymentThreshold || null,
+      excessSelfEmploymentIncome: data.excessSelfEmploymentIncome || null,
+      selfEmploymentAdditionalMedicareTax: data.selfEmploymentAdditionalMedicareTax || null,
+      additionalMedicareTax: data.additionalMedicareTax || null,
+      medicareWithheld: data.medicareWithheld || null,
+      regularMedicareWithholding: data.regularMedicareWithholding || null,
+      additionalMedicareWithholding: data.additionalMedicareWithholding || null,
     };
-    this.efileSubmissions.set(id, submission);
-    return submission;
-  }
-
-  async getEfileSubmissionsByTaxReturnId(taxReturnId: string): Promise<EfileSubmission[]> {
-    return Array.from(this.efileSubmissions.values()).filter(es => es.taxReturnId === taxReturnId);
+    this.form8959.set(id, form);
+    return form;
   }
 
-  async updateEfileSubmission(id: string, data: Partial<EfileSubmission>): Promise<EfileSubmission> {
-    const existing = this.efileSubmissions.get(id);
-    if (!existing) throw new Error("E-file Submission not found");
+  async updateForm8959(id: string, data: Partial<Form8959>): Promise<Form8959> {
+    const existing = this.form8959.get(id);
+    if (!existing) throw new Error("Form 8959 not found");
 
     const updated = { ...existing, ...data };
-    this.efileSubmissions.set(id, updated);
+    this.form8959.set(id, updated);
     return updated;
   }
 
-  // State Tax Return methods
-  async createStateTaxReturn(data: InsertStateTaxReturn): Promise<StateTaxReturn> {
+  // Form 8960 methods
+  async getForm8960ByTaxReturnId(taxReturnId: string): Promise<Form8960 | undefined> {
+    return Array.from(this.form8960.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm8960(data: InsertForm8960): Promise<Form8960> {
     const id = randomUUID();
-    const stateReturn: StateTaxReturn = {
+    const form: Form8960 = {
       id,
-      createdAt: new Date(),
-      status: data.status || "draft",
       taxReturnId: data.taxReturnId,
-      stateWithheld: data.stateWithheld || null,
-      state: data.state,
-      stateIncome: data.stateIncome || null,
-      stateTax: data.stateTax || null,
-      stateRefundOrOwed: data.stateRefundOrOwed || null,
+      taxableInterest: data.taxableInterest || null,
+      ordinaryDividends: data.ordinaryDividends || null,
+      netGain: data.netGain || null,
+      otherInvestmentIncome: data.otherInvestmentIncome || null,
+      totalInvestmentIncome: data.totalInvestmentIncome || null,
+      investmentExpenses: data.investmentExpenses || null,
+      netInvestmentIncome: data.netInvestmentIncome || null,
+      modifiedAgi: data.modifiedAgi || null,
+      threshold: data.threshold || null,
+      excessMagi: data.excessMagi || null,
+      netInvestmentIncomeTax: data.netInvestmentIncomeTax || null,
     };
-    this.stateTaxReturns.set(id, stateReturn);
-    return stateReturn;
-  }
-
-  async getStateTaxReturnsByTaxReturnId(taxReturnId: string): Promise<StateTaxReturn[]> {
-    return Array.from(this.stateTaxReturns.values()).filter(str => str.taxReturnId === taxReturnId);
+    this.form8960.set(id, form);
+    return form;
   }
 
-  async updateStateTaxReturn(id: string, data: Partial<StateTaxReturn>): Promise<StateTaxReturn> {
-    const existing = this.stateTaxReturns.get(id);
-    if (!existing) throw new Error("State Tax Return not found");
+  async updateForm8960(id: string, data: Partial<Form8960>): Promise<Form8960> {
+    const existing = this.form8960.get(id);
+    if (!existing) throw new Error("Form 8960 not found");
 
     const updated = { ...existing, ...data };
-    this.stateTaxReturns.set(id, updated);
+    this.form8960.set(id, updated);
     return updated;
   }
-}
 
-export class DbStorage implements IStorage {
-  public db;
-  public readonly taxYears = taxYears;
-  public readonly federalTaxBrackets = federalTaxBrackets;
-  public readonly federalStandardDeductions = federalStandardDeductions;
-  public readonly stateTaxBrackets = stateTaxBrackets;
-  public readonly stateStandardDeductions = stateStandardDeductions;
-  public readonly formSchemas = formSchemas;
-  public readonly formFieldDefinitions = formFieldDefinitions;
-  public readonly appConfigurations = appConfigurations;
+  // Schedule A methods
+  async getScheduleAByTaxReturnId(taxReturnId: string): Promise<ScheduleA | undefined> {
+    return Array.from(this.scheduleA.values()).find(
+      (schedule) => schedule.taxReturnId === taxReturnId
+    );
+  }
 
-  constructor() {
-    if (!process.env.DATABASE_URL) {
-      throw new Error("DATABASE_URL is required");
-    }
-    const sql = postgres(process.env.DATABASE_URL);
-    this.db = drizzle(sql);
+  async createScheduleA(data: InsertScheduleA): Promise<ScheduleA> {
+    const id = randomUUID();
+    const schedule: ScheduleA = {
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      taxReturnId: data.taxReturnId,
+      medicalExpenses: data.medicalExpenses || null,
+      stateLocalIncomeTax: data.stateLocalIncomeTax || null,
+      stateLocalSalesTax: data.stateLocalSalesTax || null,
+      useSalesTax: data.useSalesTax || false,
+      realEstateTaxes: data.realEstateTaxes || null,
+      personalPropertyTaxes: data.personalPropertyTaxes || null,
+      otherTaxes: data.otherTaxes || null,
+      mortgageInterest: data.mortgageInterest || null,
+      mortgagePoints: data.mortgagePoints || null,
+      investmentInterest: data.investmentInterest || null,
+      charitableCash: data.charitableCash || null,
+      charitableNonCash: data.charitableNonCash || null,
+      charitableCarryover: data.charitableCarryover || null,
+      casualtyLosses: data.casualtyLosses || null,
+      otherItemizedDeductions: data.otherItemizedDeductions || null,
+      forceItemize: data.forceItemize || false,
+      medicalDeduction: data.medicalDeduction || null,
+      saltDeduction: data.saltDeduction || null,
+      interestDeduction: data.interestDeduction || null,
+      charitableDeduction: data.charitableDeduction || null,
+      totalItemizedDeductions: data.totalItemizedDeductions || null,
+    };
+    this.scheduleA.set(id, schedule);
+    return schedule;
   }
 
-  // User methods
-  async getUser(id: string): Promise<User | undefined> {
-    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
-    return result[0];
+  async updateScheduleA(id: string, data: Partial<ScheduleA>): Promise<ScheduleA> {
+    const existing = this.scheduleA.get(id);
+    if (!existing) throw new Error("Schedule A not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.scheduleA.set(id, updated);
+    return updated;
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const result = await this.db.select().from(users).where(eq(users.username, username)).limit(1);
-    return result[0];
+  async deleteScheduleA(id: string): Promise<void> {
+    this.scheduleA.delete(id);
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const result = await this.db.insert(users).values(insertUser).returning();
-    return result[0];
+  // 1098 methods
+  async get1098ByTaxReturnId(taxReturnId: string): Promise<Form1098[]> {
+    return Array.from(this.form1098.values()).filter(
+      (mortgage) => mortgage.taxReturnId === taxReturnId
+    );
   }
 
-  // Profile methods
-  async getUserProfile(userId: string): Promise<UserProfile | undefined> {
-    const result = await this.db.select().from(userProfiles).where(eq(userProfiles.userId, userId)).limit(1);
-    return result[0];
+  async create1098(insert1098: Insert1098): Promise<Form1098> {
+    const id = randomUUID();
+    const mortgage: Form1098 = {
+      id,
+      taxReturnId: insert1098.taxReturnId,
+      documentId: insert1098.documentId,
+      lenderName: insert1098.lenderName || null,
+      lenderTin: insert1098.lenderTin || null,
+      mortgageInterest: insert1098.mortgageInterest || null,
+      outstandingPrincipal: insert1098.outstandingPrincipal || null,
+      mortgageInsurancePremiums: insert1098.mortgageInsurancePremiums || null,
+      pointsPaid: insert1098.pointsPaid || null,
+      propertyAddress: insert1098.propertyAddress || null,
+    };
+    this.form1098.set(id, mortgage);
+    return mortgage;
   }
 
-  async createUserProfile(data: InsertUserProfile): Promise<UserProfile> {
-    const result = await this.db.insert(userProfiles).values(data).returning();
-    return result[0];
+  async update1098(id: string, data: Partial<Form1098>): Promise<Form1098> {
+    const existing = this.form1098.get(id);
+    if (!existing) throw new Error("1098 data not found");
+
+    const updated = { ...existing, ...data };
+    this.form1098.set(id, updated);
+    return updated;
   }
 
-  async updateUserProfile(userId: string, data: Partial<InsertUserProfile>): Promise<UserProfile> {
-    const existing = await this.getUserProfile(userId);
-    if (!existing) {
-      // Create new profile if it doesn't exist
-      return this.createUserProfile({ ...data, userId } as InsertUserProfile);
-    }
-    
-    const result = await this.db
-      .update(userProfiles)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(userProfiles.userId, userId))
-      .returning();
-    return result[0];
+  // 1099-R methods
+  async get1099RByTaxReturnId(taxReturnId: string): Promise<Form1099R[]> {
+    return Array.from(this.form1099R.values()).filter(
+      (distribution) => distribution.taxReturnId === taxReturnId
+    );
+  }
+
+  async create1099R(insert1099R: Insert1099R): Promise<Form1099R> {
+    const id = randomUUID();
+    const distribution: Form1099R = {
+      id,
+      taxReturnId: insert1099R.taxReturnId,
+      documentId: insert1099R.documentId,
+      payerName: insert1099R.payerName || null,
+      payerTin: insert1099R.payerTin || null,
+      grossDistribution: insert1099R.grossDistribution || null,
+      taxableAmount: insert1099R.taxableAmount || null,
+      taxableAmountNotDetermined: insert1099R.taxableAmountNotDetermined || false,
+      federalWithheld: insert1099R.federalWithheld || null,
+      employeeContributions: insert1099R.employeeContributions || null,
+      distributionCode: insert1099R.distributionCode || null,
+      isIra: insert1099R.isIra || false,
+      rolloverAmount: insert1099R.rolloverAmount || null,
+    };
+    this.form1099R.set(id, distribution);
+    return distribution;
+  }
+
+  async update1099R(id: string, data: Partial<Form1099R>): Promise<Form1099R> {
+    const existing = this.form1099R.get(id);
+    if (!existing) throw new Error("1099-R data not found");
+
+    const updated = { ...existing, ...data };
+    this.form1099R.set(id, updated);
+    return updated;
+  }
+
+  // Form 5329 methods
+  async getForm5329ByTaxReturnId(taxReturnId: string): Promise<Form5329 | undefined> {
+    return Array.from(this.form5329.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm5329(data: InsertForm5329): Promise<Form5329> {
+    const id = randomUUID();
+    const form: Form5329 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      earlyDistributions: data.earlyDistributions || null,
+      exceptionAmount: data.exceptionAmount || null,
+      amountSubjectToTax: data.amountSubjectToTax || null,
+      additionalTax: data.additionalTax || null,
+    };
+    this.form5329.set(id, form);
+    return form;
+  }
+
+  async updateForm5329(id: string, data: Partial<Form5329>): Promise<Form5329> {
+    const existing = this.form5329.get(id);
+    if (!existing) throw new Error("Form 5329 not found");
+
+    const updated = { ...existing, ...data };
+    this.form5329.set(id, updated);
+    return updated;
+  }
+
+  // 1099-MISC methods
+  async get1099MiscByTaxReturnId(taxReturnId: string): Promise<Form1099Misc[]> {
+    return Array.from(this.form1099Misc.values()).filter(
+      (misc) => misc.taxReturnId === taxReturnId
+    );
+  }
+
+  async create1099Misc(insert1099Misc: Insert1099Misc): Promise<Form1099Misc> {
+    const id = randomUUID();
+    const misc: Form1099Misc = {
+      id,
+      taxReturnId: insert1099Misc.taxReturnId,
+      documentId: insert1099Misc.documentId,
+      payerName: insert1099Misc.payerName || null,
+      payerTin: insert1099Misc.payerTin || null,
+      rents: insert1099Misc.rents || null,
+      royalties: insert1099Misc.royalties || null,
+      otherIncome: insert1099Misc.otherIncome || null,
+      federalWithheld: insert1099Misc.federalWithheld || null,
+      fishingBoatProceeds: insert1099Misc.fishingBoatProceeds || null,
+      medicalPayments: insert1099Misc.medicalPayments || null,
+    };
+    this.form1099Misc.set(id, misc);
+    return misc;
+  }
+
+  async update1099Misc(id: string, data: Partial<Form1099Misc>): Promise<Form1099Misc> {
+    const existing = this.form1099Misc.get(id);
+    if (!existing) throw new Error("1099-MISC data not found");
+
+    const updated = { ...existing, ...data };
+    this.form1099Misc.set(id, updated);
+    return updated;
+  }
+
+  // 1099-NEC methods
+  async get1099NecByTaxReturnId(taxReturnId: string): Promise<Form1099Nec[]> {
+    return Array.from(this.form1099Nec.values()).filter(
+      (nec) => nec.taxReturnId === taxReturnId
+    );
+  }
+
+  async create1099Nec(insert1099Nec: Insert1099Nec): Promise<Form1099Nec> {
+    const id = randomUUID();
+    const nec: Form1099Nec = {
+      id,
+      taxReturnId: insert1099Nec.taxReturnId,
+      documentId: insert1099Nec.documentId,
+      payerName: insert1099Nec.payerName || null,
+      payerTin: insert1099Nec.payerTin || null,
+      nonemployeeCompensation: insert1099Nec.nonemployeeCompensation || null,
+      federalWithheld: insert1099Nec.federalWithheld || null,
+    };
+    this.form1099Nec.set(id, nec);
+    return nec;
+  }
+
+  async update1099Nec(id: string, data: Partial<Form1099Nec>): Promise<Form1099Nec> {
+    const existing = this.form1099Nec.get(id);
+    if (!existing) throw new Error("1099-NEC data not found");
+
+    const updated = { ...existing, ...data };
+    this.form1099Nec.set(id, updated);
+    return updated;
+  }
+
+  // Schedule 1 methods
+  async getSchedule1ByTaxReturnId(taxReturnId: string): Promise<Schedule1 | undefined> {
+    return Array.from(this.schedule1.values()).find(
+      (schedule) => schedule.taxReturnId === taxReturnId
+    );
+  }
+
+  async createSchedule1(data: InsertSchedule1): Promise<Schedule1> {
+    const id = randomUUID();
+    const schedule: Schedule1 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      taxableRefunds: data.taxableRefunds || null,
+      businessIncome: data.businessIncome || null,
+      rentalRoyaltyIncome: data.rentalRoyaltyIncome || null,
+      unemploymentCompensation: data.unemploymentCompensation || null,
+      hsaDistributions: data.hsaDistributions || null,
+      otherIncome: data.otherIncome || null,
+      totalAdditionalIncome: data.totalAdditionalIncome || null,
+      hsaDeduction: data.hsaDeduction || null,
+      selfEmploymentTaxDeduction: data.selfEmploymentTaxDeduction || null,
+      iraDeduction: data.iraDeduction || null,
+      studentLoanInterestDeduction: data.studentLoanInterestDeduction || null,
+      totalAdjustments: data.totalAdjustments || null,
+    };
+    this.schedule1.set(id, schedule);
+    return schedule;
+  }
+
+  async updateSchedule1(id: string, data: Partial<Schedule1>): Promise<Schedule1> {
+    const existing = this.schedule1.get(id);
+    if (!existing) throw new Error("Schedule 1 not found");
+
+    const updated = { ...existing, ...data };
+    this.schedule1.set(id, updated);
+    return updated;
+  }
+
+  // Schedule C methods
+  async getScheduleCByTaxReturnId(taxReturnId: string): Promise<ScheduleC | undefined> {
+    return Array.from(this.scheduleC.values()).find(
+      (schedule) => schedule.taxReturnId === taxReturnId
+    );
+  }
+
+  async createScheduleC(data: InsertScheduleC): Promise<ScheduleC> {
+    const id = randomUUID();
+    const schedule: ScheduleC = {
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      taxReturnId: data.taxReturnId,
+      businessName: data.businessName || null,
+      owner: data.owner || "taxpayer",
+      principalBusinessCode: data.principalBusinessCode || null,
+      grossReceipts: data.grossReceipts || null,
+      includeForm1099Income: data.includeForm1099Income ?? true,
+      returnsAllowances: data.returnsAllowances || null,
+      costOfGoodsSold: data.costOfGoodsSold || null,
+      otherBusinessIncome: data.otherBusinessIncome || null,
+      advertising: data.advertising || null,
+      businessMiles: data.businessMiles || null,
+      contractLabor: data.contractLabor || null,
+      insurance: data.insurance || null,
+      legalProfessional: data.legalProfessional || null,
+      officeExpense: data.officeExpense || null,
+      rentLease: data.rentLease || null,
+      supplies: data.supplies || null,
+      taxesLicenses: data.taxesLicenses || null,
+      travel: data.travel || null,
+      meals: data.meals || null,
+      utilities: data.utilities || null,
+      otherExpenses: data.otherExpenses || null,
+      homeOfficeSquareFeet: data.homeOfficeSquareFeet || null,
+      form1099Receipts: data.form1099Receipts || null,
+      grossIncome: data.grossIncome || null,
+      carTruckExpenses: data.carTruckExpenses || null,
+      deductibleMeals: data.deductibleMeals || null,
+      totalExpenses: data.totalExpenses || null,
+      homeOfficeDeduction: data.homeOfficeDeduction || null,
+      netProfit: data.netProfit || null,
+    };
+    this.scheduleC.set(id, schedule);
+    return schedule;
+  }
+
+  async updateScheduleC(id: string, data: Partial<ScheduleC>): Promise<ScheduleC> {
+    const existing = this.scheduleC.get(id);
+    if (!existing) throw new Error("Schedule C not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.scheduleC.set(id, updated);
+    return updated;
+  }
+
+  async deleteScheduleC(id: string): Promise<void> {
+    this.scheduleC.delete(id);
+  }
+
+  // Schedule SE methods
+  async getScheduleSEByTaxReturnId(taxReturnId: string): Promise<ScheduleSE | undefined> {
+    return Array.from(this.scheduleSE.values()).find(
+      (schedule) => schedule.taxReturnId === taxReturnId
+    );
+  }
+
+  async createScheduleSE(data: InsertScheduleSE): Promise<ScheduleSE> {
+    const id = randomUUID();
+    const schedule: ScheduleSE = {
+      id,
+      taxReturnId: data.taxReturnId,
+      netProfit: data.netProfit || null,
+      netEarnings: data.netEarnings || null,
+      socialSecurityWageBase: data.socialSecurityWageBase || null,
+      socialSecurityWages: data.socialSecurityWages || null,
+      remainingWageBase: data.remainingWageBase || null,
+      socialSecurityTax: data.socialSecurityTax || null,
+      medicareTax: data.medicareTax || null,
+      selfEmploymentTax: data.selfEmploymentTax || null,
+      deductibleHalf: data.deductibleHalf || null,
+      warnings: data.warnings || null,
+    };
+    this.scheduleSE.set(id, schedule);
+    return schedule;
+  }
+
+  async updateScheduleSE(id: string, data: Partial<ScheduleSE>): Promise<ScheduleSE> {
+    const existing = this.scheduleSE.get(id);
+    if (!existing) throw new Error("Schedule SE not found");
+
+    const updated = { ...existing, ...data };
+    this.scheduleSE.set(id, updated);
+    return updated;
+  }
+
+  // Earned Income Credit methods
+  async getEarnedIncomeCreditByTaxReturnId(taxReturnId: string): Promise<EarnedIncomeCredit | undefined> {
+    return Array.from(this.earnedIncomeCredits.values()).find(
+      (credit) => credit.taxReturnId === taxReturnId
+    );
+  }
+
+  async createEarnedIncomeCredit(data: InsertEarnedIncomeCredit): Promise<EarnedIncomeCredit> {
+    const id = randomUUID();
+    const credit: EarnedIncomeCredit = {
+      id,
+      taxReturnId: data.taxReturnId,
+      qualifyingChildren: data.qualifyingChildren || null,
+      earnedIncome: data.earnedIncome || null,
+      adjustedGrossIncome: data.adjustedGrossIncome || null,
+      investmentIncome: data.investmentIncome || null,
+      investmentIncomeLimit: data.investmentIncomeLimit || null,
+      creditFromEarnedIncome: data.creditFromEarnedIncome || null,
+      creditFromAgi: data.creditFromAgi || null,
+      isEligible: data.isEligible || false,
+      ineligibleReason: data.ineligibleReason || null,
+      earnedIncomeCredit: data.earnedIncomeCredit || null,
+    };
+    this.earnedIncomeCredits.set(id, credit);
+    return credit;
+  }
+
+  async updateEarnedIncomeCredit(id: string, data: Partial<EarnedIncomeCredit>): Promise<EarnedIncomeCredit> {
+    const existing = this.earnedIncomeCredits.get(id);
+    if (!existing) throw new Error("Earned income credit not found");
+
+    const updated = { ...existing, ...data };
+    this.earnedIncomeCredits.set(id, updated);
+    return updated;
+  }
+
+  // Schedule 8812 methods
+  async getSchedule8812ByTaxReturnId(taxReturnId: string): Promise<Schedule8812 | undefined> {
+    return Array.from(this.schedule8812.values()).find(
+      (schedule) => schedule.taxReturnId === taxReturnId
+    );
+  }
+
+  async createSchedule8812(data: InsertSchedule8812): Promise<Schedule8812> {
+    const id = randomUUID();
+    const schedule: Schedule8812 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      qualifyingChildren: data.qualifyingChildren || null,
+      otherDependents: data.otherDependents || null,
+      modifiedAgi: data.modifiedAgi || null,
+      initialCredit: data.initialCredit || null,
+      phaseoutThreshold: data.phaseoutThreshold || null,
+      phaseoutReduction: data.phaseoutReduction || null,
+      creditAfterPhaseout: data.creditAfterPhaseout || null,
+      creditLimit: data.creditLimit || null,
+      nonrefundableCredit: data.nonrefundableCredit || null,
+      earnedIncome: data.earnedIncome || null,
+      additionalChildTaxCredit: data.additionalChildTaxCredit || null,
+      lines: data.lines || null,
+    };
+    this.schedule8812.set(id, schedule);
+    return schedule;
+  }
+
+  async updateSchedule8812(id: string, data: Partial<Schedule8812>): Promise<Schedule8812> {
+    const existing = this.schedule8812.get(id);
+    if (!existing) throw new Error("Schedule 8812 not found");
+
+    const updated = { ...existing, ...data };
+    this.schedule8812.set(id, updated);
+    return updated;
+  }
+
+  // Form 6251 methods
+  async getForm6251ByTaxReturnId(taxReturnId: string): Promise<Form6251 | undefined> {
+    return Array.from(this.form6251.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm6251(data: InsertForm6251): Promise<Form6251> {
+    const id = randomUUID();
+    const form: Form6251 = {
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      taxReturnId: data.taxReturnId,
+      isoBargainElement: data.isoBargainElement || null,
+      privateActivityBondInterest: data.privateActivityBondInterest || null,
+      taxableIncome: data.taxableIncome || null,
+      taxesAddBack: data.taxesAddBack || null,
+      alternativeMinimumTaxableIncome: data.alternativeMinimumTaxableIncome || null,
+      exemption: data.exemption || null,
+      amtBase: data.amtBase || null,
+      amtForeignTaxCredit: data.amtForeignTaxCredit || null,
+      tentativeMinimumTax: data.tentativeMinimumTax || null,
+      regularTax: data.regularTax || null,
+      alternativeMinimumTax: data.alternativeMinimumTax || null,
+      lines: data.lines || null,
+    };
+    this.form6251.set(id, form);
+    return form;
+  }
+
+  async updateForm6251(id: string, data: Partial<Form6251>): Promise<Form6251> {
+    const existing = this.form6251.get(id);
+    if (!existing) throw new Error("Form 6251 not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form6251.set(id, updated);
+    return updated;
+  }
+
+  // 1098-T methods
+  async get1098TByTaxReturnId(taxReturnId: string): Promise<Form1098T[]> {
+    return Array.from(this.form1098T.values()).filter(
+      (tuition) => tuition.taxReturnId === taxReturnId
+    );
+  }
+
+  async create1098T(insert1098T: Insert1098T): Promise<Form1098T> {
+    const id = randomUUID();
+    const tuition: Form1098T = {
+      id,
+      taxReturnId: insert1098T.taxReturnId,
+      documentId: insert1098T.documentId,
+      institutionName: insert1098T.institutionName || null,
+      institutionTin: insert1098T.institutionTin || null,
+      studentName: insert1098T.studentName || null,
+      paymentsReceived: insert1098T.paymentsReceived || null,
+      scholarships: insert1098T.scholarships || null,
+      halfTimeStudent: insert1098T.halfTimeStudent || false,
+      graduateStudent: insert1098T.graduateStudent || false,
+      additionalExpenses: insert1098T.additionalExpenses || null,
+      aotcYearsClaimed: insert1098T.aotcYearsClaimed || 0,
+    };
+    this.form1098T.set(id, tuition);
+    return tuition;
+  }
+
+  async update1098T(id: string, data: Partial<Form1098T>): Promise<Form1098T> {
+    const existing = this.form1098T.get(id);
+    if (!existing) throw new Error("1098-T data not found");
+
+    const updated = { ...existing, ...data };
+    this.form1098T.set(id, updated);
+    return updated;
+  }
+
+  // 1098-E methods
+  async get1098EByTaxReturnId(taxReturnId: string): Promise<Form1098E[]> {
+    return Array.from(this.form1098E.values()).filter(
+      (loan) => loan.taxReturnId === taxReturnId
+    );
+  }
+
+  async create1098E(insert1098E: Insert1098E): Promise<Form1098E> {
+    const id = randomUUID();
+    const loan: Form1098E = {
+      id,
+      taxReturnId: insert1098E.taxReturnId,
+      documentId: insert1098E.documentId,
+      lenderName: insert1098E.lenderName || null,
+      lenderTin: insert1098E.lenderTin || null,
+      studentLoanInterest: insert1098E.studentLoanInterest || null,
+      originationFeesIncluded: insert1098E.originationFeesIncluded || false,
+    };
+    this.form1098E.set(id, loan);
+    return loan;
+  }
+
+  async update1098E(id: string, data: Partial<Form1098E>): Promise<Form1098E> {
+    const existing = this.form1098E.get(id);
+    if (!existing) throw new Error("1098-E data not found");
+
+    const updated = { ...existing, ...data };
+    this.form1098E.set(id, updated);
+    return updated;
+  }
+
+  // Form 8863 methods
+  async getForm8863ByTaxReturnId(taxReturnId: string): Promise<Form8863 | undefined> {
+    return Array.from(this.form8863.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm8863(data: InsertForm8863): Promise<Form8863> {
+    const id = randomUUID();
+    const form: Form8863 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      modifiedAgi: data.modifiedAgi || null,
+      tentativeAmericanOpportunityCredit: data.tentativeAmericanOpportunityCredit || null,
+      americanOpportunityCredit: data.americanOpportunityCredit || null,
+      refundableAmericanOpportunityCredit: data.refundableAmericanOpportunityCredit || null,
+      nonrefundableAmericanOpportunityCredit: data.nonrefundableAmericanOpportunityCredit || null,
+      lifetimeLearningExpenses: data.lifetimeLearningExpenses || null,
+      lifetimeLearningCredit: data.lifetimeLearningCredit || null,
+      nonrefundableEducationCredits: data.nonrefundableEducationCredits || null,
+      students: data.students || null,
+      lines: data.lines || null,
+    };
+    this.form8863.set(id, form);
+    return form;
+  }
+
+  async updateForm8863(id: string, data: Partial<Form8863>): Promise<Form8863> {
+    const existing = this.form8863.get(id);
+    if (!existing) throw new Error("Form 8863 not found");
+
+    const updated = { ...existing, ...data };
+    this.form8863.set(id, updated);
+    return updated;
+  }
+
+  // 1099-SA methods
+  async get1099SaByTaxReturnId(taxReturnId: string): Promise<Form1099Sa[]> {
+    return Array.from(this.form1099Sa.values()).filter(
+      (distribution) => distribution.taxReturnId === taxReturnId
+    );
+  }
+
+  async create1099Sa(insert1099Sa: Insert1099Sa): Promise<Form1099Sa> {
+    const id = randomUUID();
+    const distribution: Form1099Sa = {
+      id,
+      taxReturnId: insert1099Sa.taxReturnId,
+      documentId: insert1099Sa.documentId,
+      payerName: insert1099Sa.payerName || null,
+      payerTin: insert1099Sa.payerTin || null,
+      owner: insert1099Sa.owner || "taxpayer",
+      grossDistribution: insert1099Sa.grossDistribution || null,
+      earningsOnExcess: insert1099Sa.earningsOnExcess || null,
+      distributionCode: insert1099Sa.distributionCode || null,
+      fairMarketValueOnDeath: insert1099Sa.fairMarketValueOnDeath || null,
+    };
+    this.form1099Sa.set(id, distribution);
+    return distribution;
+  }
+
+  async update1099Sa(id: string, data: Partial<Form1099Sa>): Promise<Form1099Sa> {
+    const existing = this.form1099Sa.get(id);
+    if (!existing) throw new Error("1099-SA data not found");
+
+    const updated = { ...existing, ...data };
+    this.form1099Sa.set(id, updated);
+    return updated;
+  }
+
+  // 5498-SA methods
+  async get5498SaByTaxReturnId(taxReturnId: string): Promise<Form5498Sa[]> {
+    return Array.from(this.form5498Sa.values()).filter(
+      (account) => account.taxReturnId === taxReturnId
+    );
+  }
+
+  async create5498Sa(insert5498Sa: Insert5498Sa): Promise<Form5498Sa> {
+    const id = randomUUID();
+    const account: Form5498Sa = {
+      id,
+      taxReturnId: insert5498Sa.taxReturnId,
+      documentId: insert5498Sa.documentId,
+      trusteeName: insert5498Sa.trusteeName || null,
+      trusteeTin: insert5498Sa.trusteeTin || null,
+      owner: insert5498Sa.owner || "taxpayer",
+      totalContributions: insert5498Sa.totalContributions || null,
+      followingYearContributions: insert5498Sa.followingYearContributions || null,
+      rolloverContributions: insert5498Sa.rolloverContributions || null,
+      fairMarketValue: insert5498Sa.fairMarketValue || null,
+    };
+    this.form5498Sa.set(id, account);
+    return account;
+  }
+
+  async update5498Sa(id: string, data: Partial<Form5498Sa>): Promise<Form5498Sa> {
+    const existing = this.form5498Sa.get(id);
+    if (!existing) throw new Error("5498-SA data not found");
+
+    const updated = { ...existing, ...data };
+    this.form5498Sa.set(id, updated);
+    return updated;
+  }
+
+  // HSA contribution methods
+  async getHsaContributionsByTaxReturnId(taxReturnId: string): Promise<HsaContribution[]> {
+    return Array.from(this.hsaContributions.values()).filter(
+      (contribution) => contribution.taxReturnId === taxReturnId
+    );
+  }
+
+  async createHsaContribution(data: InsertHsaContribution): Promise<HsaContribution> {
+    const id = randomUUID();
+    const contribution: HsaContribution = {
+      id,
+      taxReturnId: data.taxReturnId,
+      owner: data.owner || "taxpayer",
+      contributionDate: data.contributionDate,
+      amount: data.amount,
+      source: data.source || "personal",
+      description: data.description || null,
+      createdAt: new Date(),
+    };
+    this.hsaContributions.set(id, contribution);
+    return contribution;
+  }
+
+  async updateHsaContribution(id: string, data: Partial<HsaContribution>): Promise<HsaContribution> {
+    const existing = this.hsaContributions.get(id);
+    if (!existing) throw new Error("HSA contribution not found");
+
+    const updated = { ...existing, ...data };
+    this.hsaContributions.set(id, updated);
+    return updated;
+  }
+
+  async deleteHsaContribution(id: string): Promise<void> {
+    this.hsaContributions.delete(id);
+  }
+
+  // Form 8889 methods
+  async getForm8889ByTaxReturnId(taxReturnId: string): Promise<Form8889[]> {
+    return Array.from(this.form8889.values()).filter(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm8889(data: InsertForm8889): Promise<Form8889> {
+    const id = randomUUID();
+    const form: Form8889 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      owner: data.owner || "taxpayer",
+      coverageType: data.coverageType || "self_only",
+      monthsCovered: data.monthsCovered || 12,
+      qualifiedMedicalExpenses: data.qualifiedMedicalExpenses || null,
+      personalContributions: data.personalContributions || null,
+      contributionLimit: data.contributionLimit || null,
+      catchUpContribution: data.catchUpContribution || null,
+      employerContributions: data.employerContributions || null,
+      hsaDeduction: data.hsaDeduction || null,
+      excessContributions: data.excessContributions || null,
+      excessContributionTax: data.excessContributionTax || null,
+      totalDistributions: data.totalDistributions || null,
+      excessWithdrawn: data.excessWithdrawn || null,
+      taxableDistributions: data.taxableDistributions || null,
+      additionalTax: data.additionalTax || null,
+      warnings: data.warnings || null,
+      lines: data.lines || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.form8889.set(id, form);
+    return form;
+  }
+
+  async updateForm8889(id: string, data: Partial<Form8889>): Promise<Form8889> {
+    const existing = this.form8889.get(id);
+    if (!existing) throw new Error("Form 8889 not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form8889.set(id, updated);
+    return updated;
+  }
+
+  // Form 1116 methods
+  async getForm1116ByTaxReturnId(taxReturnId: string): Promise<Form1116 | undefined> {
+    return Array.from(this.form1116.values()).find(
+      (record) => record.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm1116(data: InsertForm1116): Promise<Form1116> {
+    const id = randomUUID();
+    const record: Form1116 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      foreignSourceIncome: data.foreignSourceIncome || null,
+      method: data.method || "none",
+      foreignTaxPaid: data.foreignTaxPaid || null,
+      grossForeignIncome: data.grossForeignIncome || null,
+      apportionedDeductions: data.apportionedDeductions || null,
+      netForeignIncome: data.netForeignIncome || null,
+      carryoverFromPriorYears: data.carryoverFromPriorYears || null,
+      taxableIncome: data.taxableIncome || null,
+      taxBeforeCredits: data.taxBeforeCredits || null,
+      creditLimitation: data.creditLimitation || null,
+      foreignTaxCredit: data.foreignTaxCredit || null,
+      carryoverToNextYear: data.carryoverToNextYear || null,
+      lines: data.lines || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.form1116.set(id, record);
+    return record;
+  }
+
+  async updateForm1116(id: string, data: Partial<Form1116>): Promise<Form1116> {
+    const existing = this.form1116.get(id);
+    if (!existing) throw new Error("Form 1116 not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form1116.set(id, updated);
+    return updated;
+  }
+
+  // Estimated tax payment methods
+  async getEstimatedTaxPaymentsByTaxReturnId(taxReturnId: string): Promise<EstimatedTaxPayment[]> {
+    return Array.from(this.estimatedTaxPayments.values()).filter(
+      (payment) => payment.taxReturnId === taxReturnId
+    );
+  }
+
+  async createEstimatedTaxPayment(data: InsertEstimatedTaxPayment): Promise<EstimatedTaxPayment> {
+    const id = randomUUID();
+    const payment: EstimatedTaxPayment = {
+      id,
+      taxReturnId: data.taxReturnId,
+      paymentDate: data.paymentDate,
+      amount: data.amount,
+      jurisdiction: data.jurisdiction || "federal",
+      state: data.state || null,
+      appliedFromPriorYear: data.appliedFromPriorYear || false,
+      description: data.description || null,
+      createdAt: new Date(),
+    };
+    this.estimatedTaxPayments.set(id, payment);
+    return payment;
+  }
+
+  async updateEstimatedTaxPayment(id: string, data: Partial<EstimatedTaxPayment>): Promise<EstimatedTaxPayment> {
+    const existing = this.estimatedTaxPayments.get(id);
+    if (!existing) throw new Error("Estimated tax payment not found");
+
+    const updated = { ...existing, ...data };
+    this.estimatedTaxPayments.set(id, updated);
+    return updated;
+  }
+
+  async deleteEstimatedTaxPayment(id: string): Promise<void> {
+    this.estimatedTaxPayments.delete(id);
+  }
+
+  // Form 2210 methods
+  async getForm2210ByTaxReturnId(taxReturnId: string): Promise<Form2210 | undefined> {
+    return Array.from(this.form2210.values()).find(
+      (record) => record.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm2210(data: InsertForm2210): Promise<Form2210> {
+    const id = randomUUID();
+    const record: Form2210 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      priorYearTax: data.priorYearTax || null,
+      priorYearAgi: data.priorYearAgi || null,
+      currentYearTax: data.currentYearTax || null,
+      currentYearSafeHarbor: data.currentYearSafeHarbor || null,
+      withholding: data.withholding || null,
+      priorYearSafeHarbor: data.priorYearSafeHarbor || null,
+      requiredAnnualPayment: data.requiredAnnualPayment || null,
+      estimatedPayments: data.estimatedPayments || null,
+      underpayment: data.underpayment || null,
+      penalty: data.penalty || null,
+      method: data.method || "none",
+      exceptionReason: data.exceptionReason || null,
+      installments: data.installments || null,
+      lines: data.lines || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.form2210.set(id, record);
+    return record;
+  }
+
+  async updateForm2210(id: string, data: Partial<Form2210>): Promise<Form2210> {
+    const existing = this.form2210.get(id);
+    if (!existing) throw new Error("Form 2210 not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form2210.set(id, updated);
+    return updated;
+  }
+
+  // Form 1040-ES methods
+  async getForm1040EsByTaxReturnId(taxReturnId: string): Promise<Form1040Es | undefined> {
+    return Array.from(this.form1040Es.values()).find(
+      (record) => record.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm1040Es(data: InsertForm1040Es): Promise<Form1040Es> {
+    const id = randomUUID();
+    const record: Form1040Es = {
+      id,
+      taxReturnId: data.taxReturnId,
+      planYear: data.planYear,
+      expectedAgi: data.expectedAgi || null,
+      expectedWithholding: data.expectedWithholding || null,
+      overpaymentApplied: data.overpaymentApplied || null,
+      projectedAgi: data.projectedAgi || null,
+      deduction: data.deduction || null,
+      taxableIncome: data.taxableIncome || null,
+      tax: data.tax || null,
+      credits: data.credits || null,
+      otherTaxes: data.otherTaxes || null,
+      estimatedTax: data.estimatedTax || null,
+      currentYearSafeHarbor: data.currentYearSafeHarbor || null,
+      priorYearSafeHarbor: data.priorYearSafeHarbor || null,
+      requiredAnnualPayment: data.requiredAnnualPayment || null,
+      withholding: data.withholding || null,
+      annualPaymentDue: data.annualPaymentDue || null,
+      quarterlyPayment: data.quarterlyPayment || null,
+      paymentsRequired: data.paymentsRequired || false,
+      vouchers: data.vouchers || null,
+      lines: data.lines || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.form1040Es.set(id, record);
+    return record;
+  }
+
+  async updateForm1040Es(id: string, data: Partial<Form1040Es>): Promise<Form1040Es> {
+    const existing = this.form1040Es.get(id);
+    if (!existing) throw new Error("Form 1040-ES plan not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form1040Es.set(id, updated);
+    return updated;
+  }
+
+  // Care provider methods
+  async getCareProvidersByTaxReturnId(taxReturnId: string): Promise<CareProvider[]> {
+    return Array.from(this.careProviders.values()).filter(
+      (provider) => provider.taxReturnId === taxReturnId
+    );
+  }
+
+  async createCareProvider(data: InsertCareProvider): Promise<CareProvider> {
+    const id = randomUUID();
+    const provider: CareProvider = {
+      id,
+      taxReturnId: data.taxReturnId,
+      name: data.name,
+      tin: data.tin || null,
+      address: data.address || null,
+      householdEmployee: data.householdEmployee || false,
+      payments: data.payments || null,
+      createdAt: new Date(),
+    };
+    this.careProviders.set(id, provider);
+    return provider;
+  }
+
+  async updateCareProvider(id: string, data: Partial<CareProvider>): Promise<CareProvider> {
+    const existing = this.careProviders.get(id);
+    if (!existing) throw new Error("Care provider not found");
+
+    const updated = { ...existing, ...data };
+    this.careProviders.set(id, updated);
+    return updated;
+  }
+
+  async deleteCareProvider(id: string): Promise<void> {
+    this.careProviders.delete(id);
+  }
+
+  // Form 2441 methods
+  async getForm2441ByTaxReturnId(taxReturnId: string): Promise<Form2441 | undefined> {
+    return Array.from(this.form2441.values()).find(
+      (record) => record.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm2441(data: InsertForm2441): Promise<Form2441> {
+    const id = randomUUID();
+    const record: Form2441 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      spouseEarnedIncome: data.spouseEarnedIncome || null,
+      spouseStudentOrDisabled: data.spouseStudentOrDisabled || false,
+      qualifyingPersons: data.qualifyingPersons || 0,
+      qualifiedExpenses: data.qualifiedExpenses || null,
+      expenseLimit: data.expenseLimit || null,
+      earnedIncome: data.earnedIncome || null,
+      spouseEarnedIncomeUsed: data.spouseEarnedIncomeUsed || null,
+      creditRate: data.creditRate || null,
+      tentativeCredit: data.tentativeCredit || null,
+      creditLimit: data.creditLimit || null,
+      dependentCareCredit: data.dependentCareCredit || null,
+      dependentCareBenefits: data.dependentCareBenefits || null,
+      excludedBenefits: data.excludedBenefits || null,
+      taxableBenefits: data.taxableBenefits || null,
+      persons: data.persons || null,
+      warnings: data.warnings || null,
+      lines: data.lines || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.form2441.set(id, record);
+    return record;
+  }
+
+  async updateForm2441(id: string, data: Partial<Form2441>): Promise<Form2441> {
+    const existing = this.form2441.get(id);
+    if (!existing) throw new Error("Form 2441 not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form2441.set(id, updated);
+    return updated;
+  }
+
+  // SSA-1099 methods
+  async getSsa1099ByTaxReturnId(taxReturnId: string): Promise<FormSsa1099[]> {
+    return Array.from(this.formSsa1099.values()).filter(
+      (statement) => statement.taxReturnId === taxReturnId
+    );
+  }
+
+  async createSsa1099(insertSsa1099: InsertSsa1099): Promise<FormSsa1099> {
+    const id = randomUUID();
+    const statement: FormSsa1099 = {
+      id,
+      taxReturnId: insertSsa1099.taxReturnId,
+      documentId: insertSsa1099.documentId,
+      beneficiaryName: insertSsa1099.beneficiaryName || null,
+      beneficiarySsn: insertSsa1099.beneficiarySsn || null,
+      benefitsPaid: insertSsa1099.benefitsPaid || null,
+      benefitsRepaid: insertSsa1099.benefitsRepaid || null,
+      netBenefits: insertSsa1099.netBenefits || null,
+      federalWithheld: insertSsa1099.federalWithheld || null,
+    };
+    this.formSsa1099.set(id, statement);
+    return statement;
+  }
+
+  async updateSsa1099(id: string, data: Partial<FormSsa1099>): Promise<FormSsa1099> {
+    const existing = this.formSsa1099.get(id);
+    if (!existing) throw new Error("SSA-1099 data not found");
+
+    const updated = { ...existing, ...data };
+    this.formSsa1099.set(id, updated);
+    return updated;
+  }
+
+  // Social Security Benefits Worksheet methods
+  async getSocialSecurityBenefitsWorksheetByTaxReturnId(taxReturnId: string): Promise<SocialSecurityBenefitsWorksheet | undefined> {
+    return Array.from(this.socialSecurityBenefitsWorksheets.values()).find(
+      (worksheet) => worksheet.taxReturnId === taxReturnId
+    );
+  }
+
+  async createSocialSecurityBenefitsWorksheet(data: InsertSocialSecurityBenefitsWorksheet): Promise<SocialSecurityBenefitsWorksheet> {
+    const id = randomUUID();
+    const worksheet: SocialSecurityBenefitsWorksheet = {
+      id,
+      taxReturnId: data.taxReturnId,
+      livedApartAllYear: data.livedApartAllYear || false,
+      netBenefits: data.netBenefits || null,
+      provisionalIncome: data.provisionalIncome || null,
+      baseAmount: data.baseAmount || null,
+      additionalAmount: data.additionalAmount || null,
+      taxablePercentage: data.taxablePercentage || null,
+      taxableBenefits: data.taxableBenefits || null,
+      lines: data.lines || null,
+    };
+    this.socialSecurityBenefitsWorksheets.set(id, worksheet);
+    return worksheet;
+  }
+
+  async updateSocialSecurityBenefitsWorksheet(id: string, data: Partial<SocialSecurityBenefitsWorksheet>): Promise<SocialSecurityBenefitsWorksheet> {
+    const existing = this.socialSecurityBenefitsWorksheets.get(id);
+    if (!existing) throw new Error("Social Security benefits worksheet not found");
+
+    const updated = { ...existing, ...data };
+    this.socialSecurityBenefitsWorksheets.set(id, updated);
+    return updated;
+  }
+
+  // 1099-G methods
+  async get1099GByTaxReturnId(taxReturnId: string): Promise<Form1099G[]> {
+    return Array.from(this.form1099G.values()).filter(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async create1099G(insert1099G: Insert1099G): Promise<Form1099G> {
+    const id = randomUUID();
+    const form: Form1099G = {
+      id,
+      taxReturnId: insert1099G.taxReturnId,
+      documentId: insert1099G.documentId,
+      payerName: insert1099G.payerName || null,
+      payerTin: insert1099G.payerTin || null,
+      unemploymentCompensation: insert1099G.unemploymentCompensation || null,
+      stateLocalRefund: insert1099G.stateLocalRefund || null,
+      refundTaxYear: insert1099G.refundTaxYear || null,
+      federalWithheld: insert1099G.federalWithheld || null,
+      taxableGrants: insert1099G.taxableGrants || null,
+      agriculturePayments: insert1099G.agriculturePayments || null,
+      tradeOrBusiness: insert1099G.tradeOrBusiness || false,
+      stateWithheld: insert1099G.stateWithheld || null,
+    };
+    this.form1099G.set(id, form);
+    return form;
+  }
+
+  async update1099G(id: string, data: Partial<Form1099G>): Promise<Form1099G> {
+    const existing = this.form1099G.get(id);
+    if (!existing) throw new Error("1099-G data not found");
+
+    const updated = { ...existing, ...data };
+    this.form1099G.set(id, updated);
+    return updated;
+  }
+
+  // State Refund Worksheet methods
+  async getStateRefundWorksheetByTaxReturnId(taxReturnId: string): Promise<StateRefundWorksheet | undefined> {
+    return Array.from(this.stateRefundWorksheets.values()).find(
+      (worksheet) => worksheet.taxReturnId === taxReturnId
+    );
+  }
+
+  async createStateRefundWorksheet(data: InsertStateRefundWorksheet): Promise<StateRefundWorksheet> {
+    const id = randomUUID();
+    const worksheet: StateRefundWorksheet = {
+      id,
+      taxReturnId: data.taxReturnId,
+      priorYearItemized: data.priorYearItemized ?? null,
+      priorYearItemizedDeductions: data.priorYearItemizedDeductions || null,
+      priorYearStandardDeduction: data.priorYearStandardDeduction || null,
+      priorYearStateLocalTaxes: data.priorYearStateLocalTaxes || null,
+      priorYearSaltDeduction: data.priorYearSaltDeduction || null,
+      priorYearSource: data.priorYearSource || null,
+      refunds: data.refunds || null,
+      taxableRefunds: data.taxableRefunds || null,
+      lines: data.lines || null,
+    };
+    this.stateRefundWorksheets.set(id, worksheet);
+    return worksheet;
+  }
+
+  async updateStateRefundWorksheet(id: string, data: Partial<StateRefundWorksheet>): Promise<StateRefundWorksheet> {
+    const existing = this.stateRefundWorksheets.get(id);
+    if (!existing) throw new Error("State refund worksheet not found");
+
+    const updated = { ...existing, ...data };
+    this.stateRefundWorksheets.set(id, updated);
+    return updated;
+  }
+
+  // 1095-A methods
+  async get1095AByTaxReturnId(taxReturnId: string): Promise<Form1095A[]> {
+    return Array.from(this.form1095A.values()).filter(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async create1095A(insert1095A: Insert1095A): Promise<Form1095A> {
+    const id = randomUUID();
+    const form: Form1095A = {
+      id,
+      taxReturnId: insert1095A.taxReturnId,
+      documentId: insert1095A.documentId,
+      marketplaceId: insert1095A.marketplaceId || null,
+      policyNumber: insert1095A.policyNumber || null,
+      issuerName: insert1095A.issuerName || null,
+      recipientName: insert1095A.recipientName || null,
+      policyStartDate: insert1095A.policyStartDate || null,
+      policyEndDate: insert1095A.policyEndDate || null,
+      monthlyAmounts: insert1095A.monthlyAmounts || null,
+      annualPremium: insert1095A.annualPremium || null,
+      annualSlcsp: insert1095A.annualSlcsp || null,
+      annualAdvancePayment: insert1095A.annualAdvancePayment || null,
+    };
+    this.form1095A.set(id, form);
+    return form;
+  }
+
+  async update1095A(id: string, data: Partial<Form1095A>): Promise<Form1095A> {
+    const existing = this.form1095A.get(id);
+    if (!existing) throw new Error("1095-A data not found");
+
+    const updated = { ...existing, ...data };
+    this.form1095A.set(id, updated);
+    return updated;
+  }
+
+  // Form 8962 methods
+  async getForm8962ByTaxReturnId(taxReturnId: string): Promise<Form8962 | undefined> {
+    return Array.from(this.form8962.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm8962(data: InsertForm8962): Promise<Form8962> {
+    const id = randomUUID();
+    const form: Form8962 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      familySize: data.familySize || null,
+      householdIncome: data.householdIncome || null,
+      povertyLine: data.povertyLine || null,
+      fplPercentage: data.fplPercentage || null,
+      applicableFigure: data.applicableFigure || null,
+      annualContribution: data.annualContribution || null,
+      totalPremiumTaxCredit: data.totalPremiumTaxCredit || null,
+      advancePayments: data.advancePayments || null,
+      netPremiumTaxCredit: data.netPremiumTaxCredit || null,
+      excessAdvancePayments: data.excessAdvancePayments || null,
+      repaymentLimit: data.repaymentLimit || null,
+      excessAdvanceRepayment: data.excessAdvanceRepayment || null,
+      isEligible: data.isEligible || false,
+      ineligibleReason: data.ineligibleReason || null,
+      months: data.months || null,
+      lines: data.lines || null,
+    };
+    this.form8962.set(id, form);
+    return form;
+  }
+
+  async updateForm8962(id: string, data: Partial<Form8962>): Promise<Form8962> {
+    const existing = this.form8962.get(id);
+    if (!existing) throw new Error("Form 8962 not found");
+
+    const updated = { ...existing, ...data };
+    this.form8962.set(id, updated);
+    return updated;
+  }
+
+  // IRA contribution methods
+  async getIraContributionsByTaxReturnId(taxReturnId: string): Promise<IraContribution[]> {
+    return Array.from(this.iraContributions.values()).filter(
+      (contribution) => contribution.taxReturnId === taxReturnId
+    );
+  }
+
+  async createIraContribution(data: InsertIraContribution): Promise<IraContribution> {
+    const id = randomUUID();
+    const contribution: IraContribution = {
+      id,
+      taxReturnId: data.taxReturnId,
+      owner: data.owner || "taxpayer",
+      accountType: data.accountType || "traditional",
+      contributionDate: data.contributionDate,
+      amount: data.amount,
+      description: data.description || null,
+      createdAt: new Date(),
+    };
+    this.iraContributions.set(id, contribution);
+    return contribution;
+  }
+
+  async updateIraContribution(id: string, data: Partial<IraContribution>): Promise<IraContribution> {
+    const existing = this.iraContributions.get(id);
+    if (!existing) throw new Error("IRA contribution not found");
+
+    const updated = { ...existing, ...data };
+    this.iraContributions.set(id, updated);
+    return updated;
+  }
+
+  async deleteIraContribution(id: string): Promise<void> {
+    this.iraContributions.delete(id);
+  }
+
+  // Form 8606 methods
+  async getForm8606ByTaxReturnId(taxReturnId: string): Promise<Form8606[]> {
+    return Array.from(this.form8606.values()).filter(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm8606(data: InsertForm8606): Promise<Form8606> {
+    const id = randomUUID();
+    const form: Form8606 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      owner: data.owner || "taxpayer",
+      coveredByWorkplacePlan: data.coveredByWorkplacePlan ?? null,
+      fullTimeStudent: data.fullTimeStudent || false,
+      priorYearBasis: data.priorYearBasis || null,
+      yearEndValue: data.yearEndValue || null,
+      distributions: data.distributions || null,
+      rothConversions: data.rothConversions || null,
+      traditionalContributions: data.traditionalContributions || null,
+      rothContributions: data.rothContributions || null,
+      contributionLimit: data.contributionLimit || null,
+      deductionLimit: data.deductionLimit || null,
+      iraDeduction: data.iraDeduction || null,
+      rothLimit: data.rothLimit || null,
+      excessContributions: data.excessContributions || null,
+      nondeductibleContributions: data.nondeductibleContributions || null,
+      totalBasis: data.totalBasis || null,
+      nontaxableDistributions: data.nontaxableDistributions || null,
+      basisCarryforward: data.basisCarryforward || null,
+      taxableDistributions: data.taxableDistributions || null,
+      taxableConversions: data.taxableConversions || null,
+      warnings: data.warnings || null,
+      lines: data.lines || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.form8606.set(id, form);
+    return form;
+  }
+
+  async updateForm8606(id: string, data: Partial<Form8606>): Promise<Form8606> {
+    const existing = this.form8606.get(id);
+    if (!existing) throw new Error("Form 8606 not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form8606.set(id, updated);
+    return updated;
+  }
+
+  // Form 8880 methods
+  async getForm8880ByTaxReturnId(taxReturnId: string): Promise<Form8880 | undefined> {
+    return Array.from(this.form8880.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm8880(data: InsertForm8880): Promise<Form8880> {
+    const id = randomUUID();
+    const form: Form8880 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      taxpayerContributions: data.taxpayerContributions || null,
+      spouseContributions: data.spouseContributions || null,
+      taxpayerDistributions: data.taxpayerDistributions || null,
+      spouseDistributions: data.spouseDistributions || null,
+      eligibleContributions: data.eligibleContributions || null,
+      adjustedGrossIncome: data.adjustedGrossIncome || null,
+      creditRate: data.creditRate || null,
+      tentativeCredit: data.tentativeCredit || null,
+      creditLimit: data.creditLimit || null,
+      retirementSavingsCredit: data.retirementSavingsCredit || null,
+      lines: data.lines || null,
+    };
+    this.form8880.set(id, form);
+    return form;
+  }
+
+  async updateForm8880(id: string, data: Partial<Form8880>): Promise<Form8880> {
+    const existing = this.form8880.get(id);
+    if (!existing) throw new Error("Form 8880 not found");
+
+    const updated = { ...existing, ...data };
+    this.form8880.set(id, updated);
+    return updated;
+  }
+
+  // Energy improvement methods
+  async getEnergyImprovementsByTaxReturnId(taxReturnId: string): Promise<EnergyImprovement[]> {
+    return Array.from(this.energyImprovements.values()).filter(
+      (improvement) => improvement.taxReturnId === taxReturnId
+    );
+  }
+
+  async createEnergyImprovement(data: InsertEnergyImprovement): Promise<EnergyImprovement> {
+    const id = randomUUID();
+    const improvement: EnergyImprovement = {
+      id,
+      taxReturnId: data.taxReturnId,
+      category: data.category,
+      description: data.description || null,
+      cost: data.cost,
+      capacity: data.capacity || null,
+      placedInServiceDate: data.placedInServiceDate || null,
+      isMainHome: data.isMainHome ?? true,
+      createdAt: new Date(),
+    };
+    this.energyImprovements.set(id, improvement);
+    return improvement;
+  }
+
+  async updateEnergyImprovement(id: string, data: Partial<EnergyImprovement>): Promise<EnergyImprovement> {
+    const existing = this.energyImprovements.get(id);
+    if (!existing) throw new Error("Energy improvement not found");
+
+    const updated = { ...existing, ...data };
+    this.energyImprovements.set(id, updated);
+    return updated;
+  }
+
+  async deleteEnergyImprovement(id: string): Promise<void> {
+    this.energyImprovements.delete(id);
+  }
+
+  // Form 5695 methods
+  async getForm5695ByTaxReturnId(taxReturnId: string): Promise<Form5695 | undefined> {
+    return Array.from(this.form5695.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm5695(data: InsertForm5695): Promise<Form5695> {
+    const id = randomUUID();
+    const form: Form5695 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      cleanEnergyCosts: data.cleanEnergyCosts || null,
+      cleanEnergyCredit: data.cleanEnergyCredit || null,
+      fuelCellCosts: data.fuelCellCosts || null,
+      fuelCellCredit: data.fuelCellCredit || null,
+      carryforwardFromPriorYear: data.carryforwardFromPriorYear || null,
+      totalCleanEnergyCredit: data.totalCleanEnergyCredit || null,
+      cleanEnergyCreditLimit: data.cleanEnergyCreditLimit || null,
+      residentialCleanEnergyCredit: data.residentialCleanEnergyCredit || null,
+      carryforwardToNextYear: data.carryforwardToNextYear || null,
+      efficiencyImprovementCredit: data.efficiencyImprovementCredit || null,
+      heatPumpCredit: data.heatPumpCredit || null,
+      homeImprovementCreditLimit: data.homeImprovementCreditLimit || null,
+      homeImprovementCredit: data.homeImprovementCredit || null,
+      warnings: data.warnings || null,
+      lines: data.lines || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.form5695.set(id, form);
+    return form;
+  }
+
+  async updateForm5695(id: string, data: Partial<Form5695>): Promise<Form5695> {
+    const existing = this.form5695.get(id);
+    if (!existing) throw new Error("Form 5695 not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form5695.set(id, updated);
+    return updated;
+  }
+
+  // Form 8615 methods
+  async getForm8615ByTaxReturnId(taxReturnId: string): Promise<Form8615 | undefined> {
+    return Array.from(this.form8615.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm8615(data: InsertForm8615): Promise<Form8615> {
+    const id = randomUUID();
+    const form: Form8615 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      parentTaxReturnId: data.parentTaxReturnId || null,
+      parentName: data.parentName || null,
+      parentTaxableIncome: data.parentTaxableIncome || null,
+      parentFilingStatus: data.parentFilingStatus || null,
+      otherChildrenNetUnearnedIncome: data.otherChildrenNetUnearnedIncome || null,
+      directlyConnectedDeductions: data.directlyConnectedDeductions || null,
+      isFullTimeStudent: data.isFullTimeStudent || false,
+      earnedIncomeExceedsHalfSupport: data.earnedIncomeExceedsHalfSupport || false,
+      isRequired: data.isRequired || false,
+      notRequiredReason: data.notRequiredReason || null,
+      unearnedIncome: data.unearnedIncome || null,
+      unearnedIncomeThreshold: data.unearnedIncomeThreshold || null,
+      netUnearnedIncome: data.netUnearnedIncome || null,
+      parentTaxableIncomeUsed: data.parentTaxableIncomeUsed || null,
+      parentFilingStatusUsed: data.parentFilingStatusUsed || null,
+      parentTaxWithChildIncome: data.parentTaxWithChildIncome || null,
+      parentTax: data.parentTax || null,
+      tentativeTax: data.tentativeTax || null,
+      childTaxOnRemainingIncome: data.childTaxOnRemainingIncome || null,
+      taxWithoutForm8615: data.taxWithoutForm8615 || null,
+      tax: data.tax || null,
+      warnings: data.warnings || null,
+      lines: data.lines || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.form8615.set(id, form);
+    return form;
+  }
+
+  async updateForm8615(id: string, data: Partial<Form8615>): Promise<Form8615> {
+    const existing = this.form8615.get(id);
+    if (!existing) throw new Error("Form 8615 not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form8615.set(id, updated);
+    return updated;
+  }
+
+  // QBI business methods
+  async getQbiBusinessesByTaxReturnId(taxReturnId: string): Promise<QbiBusiness[]> {
+    return Array.from(this.qbiBusinesses.values()).filter(
+      (business) => business.taxReturnId === taxReturnId
+    );
+  }
+
+  async createQbiBusiness(data: InsertQbiBusiness): Promise<QbiBusiness> {
+    const id = randomUUID();
+    const business: QbiBusiness = {
+      id,
+      taxReturnId: data.taxReturnId,
+      sourceType: data.sourceType,
+      name: data.name,
+      ein: data.ein || null,
+      qualifiedBusinessIncome: data.qualifiedBusinessIncome || null,
+      w2Wages: data.w2Wages || null,
+      ubia: data.ubia || null,
+      isSpecifiedService: data.isSpecifiedService || false,
+      createdAt: new Date(),
+    };
+    this.qbiBusinesses.set(id, business);
+    return business;
+  }
+
+  async updateQbiBusiness(id: string, data: Partial<QbiBusiness>): Promise<QbiBusiness> {
+    const existing = this.qbiBusinesses.get(id);
+    if (!existing) throw new Error("QBI business not found");
+
+    const updated = { ...existing, ...data };
+    this.qbiBusinesses.set(id, updated);
+    return updated;
+  }
+
+  async deleteQbiBusiness(id: string): Promise<void> {
+    this.qbiBusinesses.delete(id);
+  }
+
+  // Form 8995 methods
+  async getForm8995ByTaxReturnId(taxReturnId: string): Promise<Form8995 | undefined> {
+    return Array.from(this.form8995.values()).find(
+      (form) => form.taxReturnId === taxReturnId
+    );
+  }
+
+  async createForm8995(data: InsertForm8995): Promise<Form8995> {
+    const id = randomUUID();
+    const form: Form8995 = {
+      id,
+      taxReturnId: data.taxReturnId,
+      formType: data.formType || "8995",
+      taxableIncomeBeforeQbi: data.taxableIncomeBeforeQbi || null,
+      threshold: data.threshold || null,
+      totalQbi: data.totalQbi || null,
+      qbiLossCarryforwardFromPriorYear: data.qbiLossCarryforwardFromPriorYear || null,
+      qbiComponent: data.qbiComponent || null,
+      reitPtpIncome: data.reitPtpIncome || null,
+      reitPtpLossCarryforwardFromPriorYear: data.reitPtpLossCarryforwardFromPriorYear || null,
+      reitPtpComponent: data.reitPtpComponent || null,
+      deductionBeforeIncomeLimit: data.deductionBeforeIncomeLimit || null,
+      netCapitalGain: data.netCapitalGain || null,
+      incomeLimitation: data.incomeLimitation || null,
+      qbiDeduction: data.qbiDeduction || null,
+      qbiLossCarryforward: data.qbiLossCarryforward || null,
+      reitPtpLossCarryforward: data.reitPtpLossCarryforward || null,
+      businesses: data.businesses || null,
+      warnings: data.warnings || null,
+      lines: data.lines || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.form8995.set(id, form);
+    return form;
+  }
+
+  async updateForm8995(id: string, data: Partial<Form8995>): Promise<Form8995> {
+    const existing = this.form8995.get(id);
+    if (!existing) throw new Error("Form 8995 not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.form8995.set(id, updated);
+    return updated;
+  }
+
+  // Parsing Attempts methods
+  async createParsingAttempt(data: InsertParsingAttempt): Promise<ParsingAttempt> {
+    const id = randomUUID();
+    const parsingAttempt: ParsingAttempt = {
+      id,
+      createdAt: new Date(),
+      parsingMethod: data.parsingMethod,
+      documentId: data.documentId,
+      confidenceScore: data.confidenceScore || null,
+      rawText: data.rawText || null,
+      extractedData: data.extractedData || null,
+      processingTimeMs: data.processingTimeMs || null,
+      errorMessage: data.errorMessage || null,
+    };
+    this.parsingAttempts.set(id, parsingAttempt);
+    return parsingAttempt;
+  }
+
+  async getParsingAttemptsByDocumentId(documentId: string): Promise<ParsingAttempt[]> {
+    return Array.from(this.parsingAttempts.values()).filter(pa => pa.documentId === documentId);
+  }
+
+  // AI Insights methods
+  async createAiInsight(data: InsertAiInsight): Promise<AiInsight> {
+    const id = randomUUID();
+    const insight: AiInsight = {
+      id,
+      createdAt: new Date(),
+      status: data.status || "active",
+      taxReturnId: data.taxReturnId || null,
+      documentId: data.documentId || null,
+      insightType: data.insightType,
+      category: data.category,
+      title: data.title,
+      description: data.description,
+      potentialSavings: data.potentialSavings || null,
+      priority: data.priority,
+      metadata: data.metadata || null,
+    };
+    this.aiInsights.set(id, insight);
+    return insight;
+  }
+
+  async getAiInsightsByTaxReturnId(taxReturnId: string): Promise<AiInsight[]> {
+    return Array.from(this.aiInsights.values()).filter(ai => ai.taxReturnId === taxReturnId);
+  }
+
+  async updateAiInsight(id: string, data: Partial<AiInsight>): Promise<AiInsight> {
+    const existing = this.aiInsights.get(id);
+    if (!existing) throw new Error("AI Insight not found");
+
+    const updated = { ...existing, ...data };
+    this.aiInsights.set(id, updated);
+    return updated;
+  }
+
+  // Processing History methods
+  async createProcessingHistory(data: InsertProcessingHistory): Promise<ProcessingHistory> {
+    const id = randomUUID();
+    const history: ProcessingHistory = {
+      id,
+      createdAt: new Date(),
+      status: data.status,
+      documentId: data.documentId,
+      step: data.step,
+      method: data.method,
+      confidenceScore: data.confidenceScore || null,
+      processingTimeMs: data.processingTimeMs || null,
+      errorMessage: data.errorMessage || null,
+      metadata: data.metadata || null,
+    };
+    this.processingHistory.set(id, history);
+    return history;
+  }
+
+  async getProcessingHistoryByDocumentId(documentId: string): Promise<ProcessingHistory[]> {
+    return Array.from(this.processingHistory.values()).filter(ph => ph.documentId === documentId);
+  }
+
+  // User Preferences methods
+  async getUserPreferences(userId: string): Promise<UserPreferences | undefined> {
+    return Array.from(this.userPreferences.values()).find(up => up.userId === userId);
+  }
+
+  async createUserPreferences(data: InsertUserPreferences): Promise<UserPreferences> {
+    const id = randomUUID();
+    const preferences: UserPreferences = {
+      id,
+      createdAt: new Date(),
+      userId: data.userId,
+      updatedAt: new Date(),
+      subscriptionTier: data.subscriptionTier || "free",
+      aiFeaturesEnabled: data.aiFeaturesEnabled || null,
+      autoEfileEnabled: data.autoEfileEnabled || null,
+      notificationsEnabled: data.notificationsEnabled || null,
+      preferences: data.preferences || null,
+    };
+    this.userPreferences.set(id, preferences);
+    return preferences;
+  }
+
+  async updateUserPreferences(id: string, data: Partial<UserPreferences>): Promise<UserPreferences> {
+    const existing = this.userPreferences.get(id);
+    if (!existing) throw new Error("User Preferences not found");
+
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.userPreferences.set(id, updated);
+    return updated;
+  }
+
+  // Subscription methods
+  async getSubscriptionByUserId(userId: string): Promise<Subscription | undefined> {
+    return Array.from(this.subscriptions.values()).find(s => s.userId === userId);
+  }
+
+  async getActiveSubscription(userId: string): Promise<Subscription | undefined> {
+    return Array.from(this.subscriptions.values()).find(s => s.userId === userId && s.status === "active");
+  }
+
+  async createSubscription(data: InsertSubscription): Promise<Subscription> {
+    const id = randomUUID();
+    const subscription: Subscription = {
+      id,
+      createdAt: new Date(),
+      userId: data.userId,
+      status: data.status,
+      tier: data.tier,
+      startDate: data.startDate,
+      renewalDate: data.renewalDate || null,
+      cancelledAt: data.cancelledAt || null,
+      stripeSubscriptionId: data.stripeSubscriptionId || null,
+    };
+    this.subscriptions.set(id, subscription);
+    return subscription;
+  }
+
+  async updateSubscription(id: string, data: Partial<Subscription>): Promise<Subscription> {
+    const existing = this.subscriptions.get(id);
+    if (!existing) throw new Error("Subscription not found");
+
+    const updated = { ...existing, ...data };
+    this.subscriptions.set(id, updated);
+    return updated;
+  }
+
+  // API Usage methods
+  async createApiUsage(data: InsertApiUsage): Promise<ApiUsage> {
+    const id = randomUUID();
+    const usage: ApiUsage = {
+      id,
+      createdAt: new Date(),
+      userId: data.userId,
+      metadata: data.metadata || null,
+      service: data.service,
+      endpoint: data.endpoint,
+      requestCount: data.requestCount || 1,
+      costUsd: data.costUsd || null,
+      tokensUsed: data.tokensUsed || null,
+    };
+    this.apiUsage.set(id, usage);
+    return usage;
+  }
+
+  async getApiUsageByUserId(userId: string): Promise<ApiUsage[]> {
+    return Array.from(this.apiUsage.values()).filter(au => au.userId === userId);
+  }
+
+  // E-file Submission methods
+  async createEfileSubmission(data: InsertEfileSubmission): Promise<EfileSubmission> {
+    const id = randomUUID();
+    const submission: EfileSubmission = {
+      id,
+      createdAt: new Date(),
+      status: data.status,
+      taxReturnId: data.taxReturnId,
+      errorMessage: data.errorMessage || null,
+      submissionType: data.submissionType,
+      irsSubmissionId: data.irsSubmissionId || null,
+      acknowledgmentNumber: data.acknowledgmentNumber || null,
+      errorCode: data.errorCode || null,
+      submittedAt: data.submittedAt || null,
+      processedAt: data.processedAt || null,
+    };
+    this.efileSubmissions.set(id, submission);
+    return submission;
+  }
+
+  async getEfileSubmissionsByTaxReturnId(taxReturnId: string): Promise<EfileSubmission[]> {
+    return Array.from(this.efileSubmissions.values()).filter(es => es.taxReturnId === taxReturnId);
+  }
+
+  async updateEfileSubmission(id: string, data: Partial<EfileSubmission>): Promise<EfileSubmission> {
+    const existing = this.efileSubmissions.get(id);
+    if (!existing) throw new Error("E-file Submission not found");
+
+    const updated = { ...existing, ...data };
+    this.efileSubmissions.set(id, updated);
+    return updated;
+  }
+
+  // State Tax Return methods
+  async createStateTaxReturn(data: InsertStateTaxReturn): Promise<StateTaxReturn> {
+    const id = randomUUID();
+    const stateReturn: StateTaxReturn = {
+      id,
+      createdAt: new Date(),
+      status: data.status || "draft",
+      taxReturnId: data.taxReturnId,
+      stateWithheld: data.stateWithheld || null,
+      state: data.state,
+      stateIncome: data.stateIncome || null,
+      stateTax: data.stateTax || null,
+      stateRefundOrOwed: data.stateRefundOrOwed || null,
+    };
+    this.stateTaxReturns.set(id, stateReturn);
+    return stateReturn;
+  }
+
+  async getStateTaxReturnsByTaxReturnId(taxReturnId: string): Promise<StateTaxReturn[]> {
+    return Array.from(this.stateTaxReturns.values()).filter(str => str.taxReturnId === taxReturnId);
+  }
+
+  async updateStateTaxReturn(id: string, data: Partial<StateTaxReturn>): Promise<StateTaxReturn> {
+    const existing = this.stateTaxReturns.get(id);
+    if (!existing) throw new Error("State Tax Return not found");
+
+    const updated = { ...existing, ...data };
+    this.stateTaxReturns.set(id, updated);
+    return updated;
+  }
+}
+
+export class DbStorage implements IStorage {
+  public db;
+  public readonly taxYears = taxYears;
+  public readonly federalTaxBrackets = federalTaxBrackets;
+  public readonly federalStandardDeductions = federalStandardDeductions;
+  public readonly federalCapitalGainBrackets = federalCapitalGainBrackets;
+  public readonly federalItemizedDeductionLimits = federalItemizedDeductionLimits;
+  public readonly federalSelfEmploymentParameters = federalSelfEmploymentParameters;
+  public readonly federalEarnedIncomeCredits = federalEarnedIncomeCredits;
+  public readonly federalChildTaxCredits = federalChildTaxCredits;
+  public readonly federalAlternativeMinimumTax = federalAlternativeMinimumTax;
+  public readonly federalEducationBenefits = federalEducationBenefits;
+  public readonly federalHsaLimits = federalHsaLimits;
+  public readonly federalUnderpaymentRates = federalUnderpaymentRates;
+  public readonly federalDependentCareCredit = federalDependentCareCredit;
+  public readonly federalPovertyLines = federalPovertyLines;
+  public readonly federalPremiumTaxCredit = federalPremiumTaxCredit;
+  public readonly federalRetirementSavings = federalRetirementSavings;
+  public readonly federalEnergyCredits = federalEnergyCredits;
+  public readonly federalKiddieTax = federalKiddieTax;
+  public readonly federalQbiDeduction = federalQbiDeduction;
+  public readonly stateTaxBrackets = stateTaxBrackets;
+  public readonly stateStandardDeductions = stateStandardDeductions;
+  public readonly formSchemas = formSchemas;
+  public readonly formFieldDefinitions = formFieldDefinitions;
+  public readonly appConfigurations = appConfigurations;
+
+  constructor() {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL is required");
+    }
+    const sql = postgres(process.env.DATABASE_URL);
+    this.db = drizzle(sql);
+  }
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const result = await this.db.select().from(users).where(eq(users.username, username)).limit(1);
+    return result[0];
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const result = await this.db.insert(users).values(insertUser).returning();
+    return result[0];
+  }
+
+  // Profile methods
+  async getUserProfile(userId: string): Promise<UserProfile | undefined> {
+    const result = await this.db.select().from(userProfiles).where(eq(userProfiles.userId, userId)).limit(1);
+    return result[0];
+  }
+
+  async createUserProfile(data: InsertUserProfile): Promise<UserProfile> {
+    const result = await this.db.insert(userProfiles).values(data).returning();
+    return result[0];
+  }
+
+  async updateUserProfile(userId: string, data: Partial<InsertUserProfile>): Promise<UserProfile> {
+    const existing = await this.getUserProfile(userId);
+    if (!existing) {
+      // Create new profile if it doesn't exist
+      return this.createUserProfile({ ...data, userId } as InsertUserProfile);
+    }
+    
+    const result = await this.db
+      .update(userProfiles)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(userProfiles.userId, userId))
+      .returning();
+    return result[0];
   }
 
   // Tax Return methods
@@ -1048,279 +3386,1367 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
-  async getTaxReturnsByUserId(userId: string): Promise<TaxReturn[]> {
-    return await this.db.select().from(taxReturns).where(eq(taxReturns.userId, userId));
+  async getTaxReturnsByUserId(userId: string): Promise<TaxReturn[]> {
+    return await this.db.select().from(taxReturns).where(eq(taxReturns.userId, userId));
+  }
+
+  async getTaxReturnsByUserIdAndYear(userId: string, year: number): Promise<TaxReturn[]> {
+    return await this.db
+      .select()
+      .from(taxReturns)
+      .where(and(eq(taxReturns.userId, userId), eq(taxReturns.taxYear, year)));
+  }
+
+  async createTaxReturn(insertTaxReturn: InsertTaxReturn): Promise<TaxReturn> {
+    const result = await this.db.insert(taxReturns).values(insertTaxReturn).returning();
+    return result[0];
+  }
+
+  async updateTaxReturn(id: string, data: Partial<TaxReturn>): Promise<TaxReturn> {
+    const result = await this.db
+      .update(taxReturns)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(taxReturns.id, id))
+      .returning();
+    
+    if (!result[0]) throw new Error("Tax return not found");
+    return result[0];
+  }
+
+  // Document methods
+  async getDocument(id: string): Promise<Document | undefined> {
+    const result = await this.db.select().from(documents).where(eq(documents.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getDocumentsByTaxReturnId(taxReturnId: string): Promise<Document[]> {
+    return await this.db.select().from(documents).where(eq(documents.taxReturnId, taxReturnId));
+  }
+
+  async getDocumentCountForUser(userId: string): Promise<number> {
+    const taxReturns = await this.getTaxReturnsByUserId(userId);
+    if (taxReturns.length === 0) return 0;
+    
+    let totalCount = 0;
+    for (const taxReturn of taxReturns) {
+      const documents = await this.getDocumentsByTaxReturnId(taxReturn.id);
+      totalCount += documents.length;
+    }
+    return totalCount;
+  }
+
+  async createDocument(insertDocument: InsertDocument): Promise<Document> {
+    const result = await this.db.insert(documents).values(insertDocument).returning();
+    return result[0];
+  }
+
+  async updateDocument(id: string, data: Partial<Document>): Promise<Document> {
+    const result = await this.db
+      .update(documents)
+      .set(data)
+      .where(eq(documents.id, id))
+      .returning();
+    
+    if (!result[0]) throw new Error("Document not found");
+    return result[0];
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    await this.db.delete(documents).where(eq(documents.id, id));
+  }
+
+  async clearAllDocuments(): Promise<void> {
+    // Clear all related data first (in order of dependencies)
+    await this.db.delete(w2Data);
+    await this.db.delete(form1099Div);
+    await this.db.delete(form1099Int);
+    await this.db.delete(form1099B);
+    await this.db.delete(form1098);
+    await this.db.delete(form1099R);
+    await this.db.delete(form1099Misc);
+    await this.db.delete(form1099Nec);
+    await this.db.delete(form1098T);
+    await this.db.delete(form1098E);
+    await this.db.delete(form1099Sa);
+    await this.db.delete(form5498Sa);
+    await this.db.delete(formSsa1099);
+    await this.db.delete(form1099G);
+    await this.db.delete(form1095A);
+    await this.db.delete(parsingAttempts);
+    await this.db.delete(processingHistory);
+    await this.db.delete(aiInsights);
+    
+    // Clear documents last
+    await this.db.delete(documents);
+  }
+
+  // W-2 Data methods
+  async getW2DataByTaxReturnId(taxReturnId: string): Promise<W2Data[]> {
+    return await this.db.select().from(w2Data).where(eq(w2Data.taxReturnId, taxReturnId));
+  }
+
+  async createW2Data(insertW2: InsertW2): Promise<W2Data> {
+    const result = await this.db.insert(w2Data).values(insertW2).returning();
+    return result[0];
+  }
+
+  async updateW2Data(id: string, data: Partial<W2Data>): Promise<W2Data> {
+    const result = await this.db
+      .update(w2Data)
+      .set(data)
+      .where(eq(w2Data.id, id))
+      .returning();
+    
+    if (!result[0]) throw new Error("W-2 data not found");
+    return result[0];
+  }
+
+  // 1099-DIV methods
+  async get1099DivByTaxReturnId(taxReturnId: string): Promise<Form1099Div[]> {
+    return await this.db.select().from(form1099Div).where(eq(form1099Div.taxReturnId, taxReturnId));
+  }
+
+  async create1099Div(insert1099Div: Insert1099Div): Promise<Form1099Div> {
+    const result = await this.db.insert(form1099Div).values(insert1099Div).returning();
+    return result[0];
+  }
+
+  async update1099Div(id: string, data: Partial<Form1099Div>): Promise<Form1099Div> {
+    const result = await this.db
+      .update(form1099Div)
+      .set(data)
+      .where(eq(form1099Div.id, id))
+      .returning();
+    
+    if (!result[0]) throw new Error("1099-DIV data not found");
+    return result[0];
+  }
+
+  // 1099-INT methods
+  async get1099IntByTaxReturnId(taxReturnId: string): Promise<Form1099Int[]> {
+    return await this.db.select().from(form1099Int).where(eq(form1099Int.taxReturnId, taxReturnId));
+  }
+
+  async create1099Int(insert1099Int: Insert1099Int): Promise<Form1099Int> {
+    const result = await this.db.insert(form1099Int).values(insert1099Int).returning();
+    return result[0];
+  }
+
+  async update1099Int(id: string, data: Partial<Form1099Int>): Promise<Form1099Int> {
+    const result = await this.db
+      .update(form1099Int)
+      .set(data)
+      .where(eq(form1099Int.id, id))
+      .returning();
+    
+    if (!result[0]) throw new Error("1099-INT data not found");
+    return result[0];
+  }
+
+  // 1099-B methods
+  async get1099BByTaxReturnId(taxReturnId: string): Promise<Form1099B[]> {
+    return await this.db.select().from(form1099B).where(eq(form1099B.taxReturnId, taxReturnId));
+  }
+
+  async create1099B(insert1099B: Insert1099B): Promise<Form1099B> {
+    const result = await this.db.insert(form1099B).values(insert1099B).returning();
+    return result[0];
+  }
+
+  async update1099B(id: string, data: Partial<Form1099B>): Promise<Form1099B> {
+    const result = await this.db
+      .update(form1099B)
+      .set(data)
+      .where(eq(form1099B.id, id))
+      .returning();
+    
+    if (!result[0]) throw new Error("1099-B data not found");
+    return result[0];
+  }
+
+  // 1099-B Entries methods
+  async get1099BEntriesByTaxReturnId(taxReturnId: string): Promise<Form1099BEntry[]> {
+    // Get all 1099-B forms for this tax return
+    const bForms = await this.db.select().from(form1099B).where(eq(form1099B.taxReturnId, taxReturnId));
+    
+    if (bForms.length === 0) return [];
+    
+    // Get all entries for these forms
+    const formIds = bForms.map(form => form.id);
+    return await this.db.select().from(form1099BEntries).where(inArray(form1099BEntries.form1099BId, formIds));
+  }
+
+  async create1099BEntry(form1099BId: string, data: Omit<Form1099BEntry, "id" | "form1099BId">): Promise<Form1099BEntry> {
+    const insertData: InsertForm1099BEntry = {
+      form1099BId,
+      description: data.description || null,
+      dateAcquired: data.dateAcquired || null,
+      dateSold: data.dateSold || null,
+      proceeds: data.proceeds || null,
+      costBasis: data.costBasis || null,
+      gainLoss: data.gainLoss || null,
+      isShortTerm: data.isShortTerm || false,
+      reportedToIrs: data.reportedToIrs || false,
+      washSale: data.washSale || false,
+      washSaleAmount: data.washSaleAmount || null,
+    };
+    
+    const result = await this.db.insert(form1099BEntries).values(insertData).returning();
+    return result[0];
+  }
+
+  async update1099BEntry(id: string, data: Partial<Form1099BEntry>): Promise<Form1099BEntry> {
+    console.log("DbStorage.update1099BEntry called with:", { id, data });
+    const result = await this.db
+      .update(form1099BEntries)
+      .set(data)
+      .where(eq(form1099BEntries.id, id))
+      .returning();
+    
+    console.log("Database update result:", result);
+    if (!result[0]) throw new Error("1099-B entry not found");
+    return result[0];
+  }
+
+  async delete1099BEntry(id: string): Promise<void> {
+    const result = await this.db.delete(form1099BEntries).where(eq(form1099BEntries.id, id));
+    if (result.length === 0) {
+      throw new Error("1099-B entry not found");
+    }
+  }
+
+  // Form 1040 methods
+  async getForm1040ByTaxReturnId(taxReturnId: string): Promise<Form1040 | undefined> {
+    const result = await this.db.select().from(form1040).where(eq(form1040.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm1040(insert1040: Insert1040): Promise<Form1040> {
+    const result = await this.db.insert(form1040).values(insert1040).returning();
+    return result[0];
+  }
+
+  async updateForm1040(id: string, data: Partial<Form1040>): Promise<Form1040> {
+    const result = await this.db
+      .update(form1040)
+      .set(data)
+      .where(eq(form1040.id, id))
+      .returning();
+    
+    if (!result[0]) throw new Error("Form 1040 not found");
+    return result[0];
+  }
+
+  // Form 8949 methods
+  async get8949ByTaxReturnId(taxReturnId: string): Promise<Form8949[]> {
+    return await this.db.select().from(form8949).where(eq(form8949.taxReturnId, taxReturnId));
+  }
+
+  async create8949(insert8949: Insert8949): Promise<Form8949> {
+    const result = await this.db.insert(form8949).values(insert8949).returning();
+    return result[0];
+  }
+
+  async delete8949ByTaxReturnId(taxReturnId: string): Promise<void> {
+    await this.db.delete(form8949).where(eq(form8949.taxReturnId, taxReturnId));
+  }
+
+  // Schedule D methods
+  async getScheduleDByTaxReturnId(taxReturnId: string): Promise<ScheduleD | undefined> {
+    const result = await this.db.select().from(scheduleD).where(eq(scheduleD.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createScheduleD(insertScheduleD: InsertScheduleD): Promise<ScheduleD> {
+    const result = await this.db.insert(scheduleD).values(insertScheduleD).returning();
+    return result[0];
+  }
+
+  async updateScheduleD(id: string, data: Partial<ScheduleD>): Promise<ScheduleD> {
+    const result = await this.db
+      .update(scheduleD)
+      .set(data)
+      .where(eq(scheduleD.id, id))
+      .returning();
+    
+    if (!result[0]) throw new Error("Schedule D not found");
+    return result[0];
+  }
+
+  // Capital Loss Carryover methods
+  async getCapitalLossCarryoversByUserId(userId: string): Promise<CapitalLossCarryover[]> {
+    return await this.db
+      .select()
+      .from(capitalLossCarryovers)
+      .where(eq(capitalLossCarryovers.userId, userId))
+      .orderBy(desc(capitalLossCarryovers.taxYear));
+  }
+
+  async getCapitalLossCarryover(userId: string, taxYear: number): Promise<CapitalLossCarryover | undefined> {
+    const result = await this.db
+      .select()
+      .from(capitalLossCarryovers)
+      .where(and(eq(capitalLossCarryovers.userId, userId), eq(capitalLossCarryovers.taxYear, taxYear)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createCapitalLossCarryover(data: InsertCapitalLossCarryover): Promise<CapitalLossCarryover> {
+    const result = await this.db.insert(capitalLossCarryovers).values(data).returning();
+    return result[0];
+  }
+
+  async updateCapitalLossCarryover(id: string, data: Partial<CapitalLossCarryover>): Promise<CapitalLossCarryover> {
+    const result = await this.db
+      .update(capitalLossCarryovers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(capitalLossCarryovers.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Capital loss carryover not found");
+    return result[0];
+  }
+
+  // Foreign Tax Credit Carryover methods
+  async getForeignTaxCarryoversByUserId(userId: string): Promise<ForeignTaxCarryover[]> {
+    return await this.db
+      .select()
+      .from(foreignTaxCarryovers)
+      .where(eq(foreignTaxCarryovers.userId, userId))
+      .orderBy(desc(foreignTaxCarryovers.taxYear));
+  }
+
+  async getForeignTaxCarryover(userId: string, taxYear: number): Promise<ForeignTaxCarryover | undefined> {
+    const result = await this.db
+      .select()
+      .from(foreignTaxCarryovers)
+      .where(and(eq(foreignTaxCarryovers.userId, userId), eq(foreignTaxCarryovers.taxYear, taxYear)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createForeignTaxCarryover(data: InsertForeignTaxCarryover): Promise<ForeignTaxCarryover> {
+    const result = await this.db.insert(foreignTaxCarryovers).values(data).returning();
+    return result[0];
+  }
+
+  async updateForeignTaxCarryover(id: string, data: Partial<ForeignTaxCarryover>): Promise<ForeignTaxCarryover> {
+    const result = await this.db
+      .update(foreignTaxCarryovers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(foreignTaxCarryovers.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Foreign tax carryover not found");
+    return result[0];
+  }
+
+  // Residential Energy Credit Carryover methods
+  async getEnergyCreditCarryoversByUserId(userId: string): Promise<EnergyCreditCarryover[]> {
+    return await this.db
+      .select()
+      .from(energyCreditCarryovers)
+      .where(eq(energyCreditCarryovers.userId, userId))
+      .orderBy(desc(energyCreditCarryovers.taxYear));
+  }
+
+  async getEnergyCreditCarryover(userId: string, taxYear: number): Promise<EnergyCreditCarryover | undefined> {
+    const result = await this.db
+      .select()
+      .from(energyCreditCarryovers)
+      .where(and(eq(energyCreditCarryovers.userId, userId), eq(energyCreditCarryovers.taxYear, taxYear)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createEnergyCreditCarryover(data: InsertEnergyCreditCarryover): Promise<EnergyCreditCarryover> {
+    const result = await this.db.insert(energyCreditCarryovers).values(data).returning();
+    return result[0];
+  }
+
+  async updateEnergyCreditCarryover(id: string, data: Partial<EnergyCreditCarryover>): Promise<EnergyCreditCarryover> {
+    const result = await this.db
+      .update(energyCreditCarryovers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(energyCreditCarryovers.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Energy credit carryover not found");
+    return result[0];
+  }
+
+  // Qualified Business Income Loss Carryover methods
+  async getQbiLossCarryoversByUserId(userId: string): Promise<QbiLossCarryover[]> {
+    return await this.db
+      .select()
+      .from(qbiLossCarryovers)
+      .where(eq(qbiLossCarryovers.userId, userId))
+      .orderBy(desc(qbiLossCarryovers.taxYear));
+  }
+
+  async getQbiLossCarryover(userId: string, taxYear: number): Promise<QbiLossCarryover | undefined> {
+    const result = await this.db
+      .select()
+      .from(qbiLossCarryovers)
+      .where(and(eq(qbiLossCarryovers.userId, userId), eq(qbiLossCarryovers.taxYear, taxYear)))
+      .limit(1);
+    return result[0];
+  }
+
+  async createQbiLossCarryover(data: InsertQbiLossCarryover): Promise<QbiLossCarryover> {
+    const result = await this.db.insert(qbiLossCarryovers).values(data).returning();
+    return result[0];
+  }
+
+  async updateQbiLossCarryover(id: string, data: Partial<QbiLossCarryover>): Promise<QbiLossCarryover> {
+    const result = await this.db
+      .update(qbiLossCarryovers)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(qbiLossCarryovers.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("QBI loss carryover not found");
+    return result[0];
+  }
+
+  // Qualified Dividends and Capital Gain Tax Worksheet methods
+  async getQualifiedDividendsWorksheetByTaxReturnId(taxReturnId: string): Promise<QualifiedDividendsWorksheet | undefined> {
+    const result = await this.db
+      .select()
+      .from(qualifiedDividendsWorksheets)
+      .where(eq(qualifiedDividendsWorksheets.taxReturnId, taxReturnId))
+      .limit(1);
+    return result[0];
+  }
+
+  async createQualifiedDividendsWorksheet(data: InsertQualifiedDividendsWorksheet): Promise<QualifiedDividendsWorksheet> {
+    const result = await this.db.insert(qualifiedDividendsWorksheets).values(data).returning();
+    return result[0];
+  }
+
+  async updateQualifiedDividendsWorksheet(id: string, data: Partial<QualifiedDividendsWorksheet>): Promise<QualifiedDividendsWorksheet> {
+    const result = await this.db
+      .update(qualifiedDividendsWorksheets)
+      .set(data)
+      .where(eq(qualifiedDividendsWorksheets.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Qualified dividends worksheet not found");
+    return result[0];
+  }
+
+  // Form 8959 methods
+  async getForm8959ByTaxReturnId(taxReturnId: string): Promise<Form8959 | undefined> {
+    const result = await this.db.select().from(form8959).where(eq(form8959.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm8959(data: InsertForm8959): Promise<Form8959> {
+    const result = await this.db.insert(form8959).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm8959(id: string, data: Partial<Form8959>): Promise<Form8959> {
+    const result = await this.db
+      .update(form8959)
+      .set(data)
+      .where(eq(form8959.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 8959 not found");
+    return result[0];
+  }
+
+  // Form 8960 methods
+  async getForm8960ByTaxReturnId(taxReturnId: string): Promise<Form8960 | undefined> {
+    const result = await this.db.select().from(form8960).where(eq(form8960.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm8960(data: InsertForm8960): Promise<Form8960> {
+    const result = await this.db.insert(form8960).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm8960(id: string, data: Partial<Form8960>): Promise<Form8960> {
+    const result = await this.db
+      .update(form8960)
+      .set(data)
+      .where(eq(form8960.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 8960 not found");
+    return result[0];
+  }
+
+  // Schedule A methods
+  async getScheduleAByTaxReturnId(taxReturnId: string): Promise<ScheduleA | undefined> {
+    const result = await this.db.select().from(scheduleA).where(eq(scheduleA.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createScheduleA(data: InsertScheduleA): Promise<ScheduleA> {
+    const result = await this.db.insert(scheduleA).values(data).returning();
+    return result[0];
+  }
+
+  async updateScheduleA(id: string, data: Partial<ScheduleA>): Promise<ScheduleA> {
+    const result = await this.db
+      .update(scheduleA)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(scheduleA.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Schedule A not found");
+    return result[0];
+  }
+
+  async deleteScheduleA(id: string): Promise<void> {
+    await this.db.delete(scheduleA).where(eq(scheduleA.id, id));
+  }
+
+  // 1098 methods
+  async get1098ByTaxReturnId(taxReturnId: string): Promise<Form1098[]> {
+    return await this.db.select().from(form1098).where(eq(form1098.taxReturnId, taxReturnId));
+  }
+
+  async create1098(insert1098: Insert1098): Promise<Form1098> {
+    const result = await this.db.insert(form1098).values(insert1098).returning();
+    return result[0];
+  }
+
+  async update1098(id: string, data: Partial<Form1098>): Promise<Form1098> {
+    const result = await this.db
+      .update(form1098)
+      .set(data)
+      .where(eq(form1098.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("1098 data not found");
+    return result[0];
+  }
+
+  // 1099-R methods
+  async get1099RByTaxReturnId(taxReturnId: string): Promise<Form1099R[]> {
+    return await this.db.select().from(form1099R).where(eq(form1099R.taxReturnId, taxReturnId));
+  }
+
+  async create1099R(insert1099R: Insert1099R): Promise<Form1099R> {
+    const result = await this.db.insert(form1099R).values(insert1099R).returning();
+    return result[0];
+  }
+
+  async update1099R(id: string, data: Partial<Form1099R>): Promise<Form1099R> {
+    const result = await this.db
+      .update(form1099R)
+      .set(data)
+      .where(eq(form1099R.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("1099-R data not found");
+    return result[0];
+  }
+
+  // Form 5329 methods
+  async getForm5329ByTaxReturnId(taxReturnId: string): Promise<Form5329 | undefined> {
+    const result = await this.db.select().from(form5329).where(eq(form5329.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm5329(data: InsertForm5329): Promise<Form5329> {
+    const result = await this.db.insert(form5329).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm5329(id: string, data: Partial<Form5329>): Promise<Form5329> {
+    const result = await this.db
+      .update(form5329)
+      .set(data)
+      .where(eq(form5329.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 5329 not found");
+    return result[0];
+  }
+
+  // 1099-MISC methods
+  async get1099MiscByTaxReturnId(taxReturnId: string): Promise<Form1099Misc[]> {
+    return await this.db.select().from(form1099Misc).where(eq(form1099Misc.taxReturnId, taxReturnId));
+  }
+
+  async create1099Misc(insert1099Misc: Insert1099Misc): Promise<Form1099Misc> {
+    const result = await this.db.insert(form1099Misc).values(insert1099Misc).returning();
+    return result[0];
+  }
+
+  async update1099Misc(id: string, data: Partial<Form1099Misc>): Promise<Form1099Misc> {
+    const result = await this.db
+      .update(form1099Misc)
+      .set(data)
+      .where(eq(form1099Misc.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("1099-MISC data not found");
+    return result[0];
+  }
+
+  // 1099-NEC methods
+  async get1099NecByTaxReturnId(taxReturnId: string): Promise<Form1099Nec[]> {
+    return await this.db.select().from(form1099Nec).where(eq(form1099Nec.taxReturnId, taxReturnId));
+  }
+
+  async create1099Nec(insert1099Nec: Insert1099Nec): Promise<Form1099Nec> {
+    const result = await this.db.insert(form1099Nec).values(insert1099Nec).returning();
+    return result[0];
+  }
+
+  async update1099Nec(id: string, data: Partial<Form1099Nec>): Promise<Form1099Nec> {
+    const result = await this.db
+      .update(form1099Nec)
+      .set(data)
+      .where(eq(form1099Nec.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("1099-NEC data not found");
+    return result[0];
+  }
+
+  // Schedule 1 methods
+  async getSchedule1ByTaxReturnId(taxReturnId: string): Promise<Schedule1 | undefined> {
+    const result = await this.db.select().from(schedule1).where(eq(schedule1.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createSchedule1(data: InsertSchedule1): Promise<Schedule1> {
+    const result = await this.db.insert(schedule1).values(data).returning();
+    return result[0];
+  }
+
+  async updateSchedule1(id: string, data: Partial<Schedule1>): Promise<Schedule1> {
+    const result = await this.db
+      .update(schedule1)
+      .set(data)
+      .where(eq(schedule1.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Schedule 1 not found");
+    return result[0];
+  }
+
+  // Schedule C methods
+  async getScheduleCByTaxReturnId(taxReturnId: string): Promise<ScheduleC | undefined> {
+    const result = await this.db.select().from(scheduleC).where(eq(scheduleC.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createScheduleC(data: InsertScheduleC): Promise<ScheduleC> {
+    const result = await this.db.insert(scheduleC).values(data).returning();
+    return result[0];
+  }
+
+  async updateScheduleC(id: string, data: Partial<ScheduleC>): Promise<ScheduleC> {
+    const result = await this.db
+      .update(scheduleC)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(scheduleC.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Schedule C not found");
+    return result[0];
+  }
+
+  async deleteScheduleC(id: string): Promise<void> {
+    await this.db.delete(scheduleC).where(eq(scheduleC.id, id));
+  }
+
+  // Schedule SE methods
+  async getScheduleSEByTaxReturnId(taxReturnId: string): Promise<ScheduleSE | undefined> {
+    const result = await this.db.select().from(scheduleSE).where(eq(scheduleSE.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createScheduleSE(data: InsertScheduleSE): Promise<ScheduleSE> {
+    const result = await this.db.insert(scheduleSE).values(data).returning();
+    return result[0];
+  }
+
+  async updateScheduleSE(id: string, data: Partial<ScheduleSE>): Promise<ScheduleSE> {
+    const result = await this.db
+      .update(scheduleSE)
+      .set(data)
+      .where(eq(scheduleSE.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Schedule SE not found");
+    return result[0];
+  }
+
+  // Earned Income Credit methods
+  async getEarnedIncomeCreditByTaxReturnId(taxReturnId: string): Promise<EarnedIncomeCredit | undefined> {
+    const result = await this.db.select().from(earnedIncomeCredits).where(eq(earnedIncomeCredits.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createEarnedIncomeCredit(data: InsertEarnedIncomeCredit): Promise<EarnedIncomeCredit> {
+    const result = await this.db.insert(earnedIncomeCredits).values(data).returning();
+    return result[0];
+  }
+
+  async updateEarnedIncomeCredit(id: string, data: Partial<EarnedIncomeCredit>): Promise<EarnedIncomeCredit> {
+    const result = await this.db
+      .update(earnedIncomeCredits)
+      .set(data)
+      .where(eq(earnedIncomeCredits.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Earned income credit not found");
+    return result[0];
+  }
+
+  // Schedule 8812 methods
+  async getSchedule8812ByTaxReturnId(taxReturnId: string): Promise<Schedule8812 | undefined> {
+    const result = await this.db.select().from(schedule8812).where(eq(schedule8812.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createSchedule8812(data: InsertSchedule8812): Promise<Schedule8812> {
+    const result = await this.db.insert(schedule8812).values(data).returning();
+    return result[0];
+  }
+
+  async updateSchedule8812(id: string, data: Partial<Schedule8812>): Promise<Schedule8812> {
+    const result = await this.db
+      .update(schedule8812)
+      .set(data)
+      .where(eq(schedule8812.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Schedule 8812 not found");
+    return result[0];
+  }
+
+  // Form 6251 methods
+  async getForm6251ByTaxReturnId(taxReturnId: string): Promise<Form6251 | undefined> {
+    const result = await this.db.select().from(form6251).where(eq(form6251.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm6251(data: InsertForm6251): Promise<Form6251> {
+    const result = await this.db.insert(form6251).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm6251(id: string, data: Partial<Form6251>): Promise<Form6251> {
+    const result = await this.db
+      .update(form6251)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form6251.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 6251 not found");
+    return result[0];
+  }
+
+  // 1098-T methods
+  async get1098TByTaxReturnId(taxReturnId: string): Promise<Form1098T[]> {
+    return await this.db.select().from(form1098T).where(eq(form1098T.taxReturnId, taxReturnId));
+  }
+
+  async create1098T(insert1098T: Insert1098T): Promise<Form1098T> {
+    const result = await this.db.insert(form1098T).values(insert1098T).returning();
+    return result[0];
+  }
+
+  async update1098T(id: string, data: Partial<Form1098T>): Promise<Form1098T> {
+    const result = await this.db
+      .update(form1098T)
+      .set(data)
+      .where(eq(form1098T.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("1098-T data not found");
+    return result[0];
+  }
+
+  // 1098-E methods
+  async get1098EByTaxReturnId(taxReturnId: string): Promise<Form1098E[]> {
+    return await this.db.select().from(form1098E).where(eq(form1098E.taxReturnId, taxReturnId));
+  }
+
+  async create1098E(insert1098E: Insert1098E): Promise<Form1098E> {
+    const result = await this.db.insert(form1098E).values(insert1098E).returning();
+    return result[0];
+  }
+
+  async update1098E(id: string, data: Partial<Form1098E>): Promise<Form1098E> {
+    const result = await this.db
+      .update(form1098E)
+      .set(data)
+      .where(eq(form1098E.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("1098-E data not found");
+    return result[0];
+  }
+
+  // Form 8863 methods
+  async getForm8863ByTaxReturnId(taxReturnId: string): Promise<Form8863 | undefined> {
+    const result = await this.db.select().from(form8863).where(eq(form8863.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm8863(data: InsertForm8863): Promise<Form8863> {
+    const result = await this.db.insert(form8863).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm8863(id: string, data: Partial<Form8863>): Promise<Form8863> {
+    const result = await this.db
+      .update(form8863)
+      .set(data)
+      .where(eq(form8863.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 8863 not found");
+    return result[0];
+  }
+
+  // 1099-SA methods
+  async get1099SaByTaxReturnId(taxReturnId: string): Promise<Form1099Sa[]> {
+    return await this.db.select().from(form1099Sa).where(eq(form1099Sa.taxReturnId, taxReturnId));
+  }
+
+  async create1099Sa(insert1099Sa: Insert1099Sa): Promise<Form1099Sa> {
+    const result = await this.db.insert(form1099Sa).values(insert1099Sa).returning();
+    return result[0];
+  }
+
+  async update1099Sa(id: string, data: Partial<Form1099Sa>): Promise<Form1099Sa> {
+    const result = await this.db
+      .update(form1099Sa)
+      .set(data)
+      .where(eq(form1099Sa.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("1099-SA data not found");
+    return result[0];
+  }
+
+  // 5498-SA methods
+  async get5498SaByTaxReturnId(taxReturnId: string): Promise<Form5498Sa[]> {
+    return await this.db.select().from(form5498Sa).where(eq(form5498Sa.taxReturnId, taxReturnId));
+  }
+
+  async create5498Sa(insert5498Sa: Insert5498Sa): Promise<Form5498Sa> {
+    const result = await this.db.insert(form5498Sa).values(insert5498Sa).returning();
+    return result[0];
+  }
+
+  async update5498Sa(id: string, data: Partial<Form5498Sa>): Promise<Form5498Sa> {
+    const result = await this.db
+      .update(form5498Sa)
+      .set(data)
+      .where(eq(form5498Sa.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("5498-SA data not found");
+    return result[0];
+  }
+
+  // HSA contribution methods
+  async getHsaContributionsByTaxReturnId(taxReturnId: string): Promise<HsaContribution[]> {
+    return await this.db.select().from(hsaContributions).where(eq(hsaContributions.taxReturnId, taxReturnId));
+  }
+
+  async createHsaContribution(data: InsertHsaContribution): Promise<HsaContribution> {
+    const result = await this.db.insert(hsaContributions).values(data).returning();
+    return result[0];
+  }
+
+  async updateHsaContribution(id: string, data: Partial<HsaContribution>): Promise<HsaContribution> {
+    const result = await this.db
+      .update(hsaContributions)
+      .set(data)
+      .where(eq(hsaContributions.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("HSA contribution not found");
+    return result[0];
+  }
+
+  async deleteHsaContribution(id: string): Promise<void> {
+    await this.db.delete(hsaContributions).where(eq(hsaContributions.id, id));
+  }
+
+  // Form 8889 methods
+  async getForm8889ByTaxReturnId(taxReturnId: string): Promise<Form8889[]> {
+    return await this.db.select().from(form8889).where(eq(form8889.taxReturnId, taxReturnId));
+  }
+
+  async createForm8889(data: InsertForm8889): Promise<Form8889> {
+    const result = await this.db.insert(form8889).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm8889(id: string, data: Partial<Form8889>): Promise<Form8889> {
+    const result = await this.db
+      .update(form8889)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form8889.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 8889 not found");
+    return result[0];
+  }
+
+  // Form 1116 methods
+  async getForm1116ByTaxReturnId(taxReturnId: string): Promise<Form1116 | undefined> {
+    const result = await this.db.select().from(form1116).where(eq(form1116.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm1116(data: InsertForm1116): Promise<Form1116> {
+    const result = await this.db.insert(form1116).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm1116(id: string, data: Partial<Form1116>): Promise<Form1116> {
+    const result = await this.db
+      .update(form1116)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form1116.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 1116 not found");
+    return result[0];
+  }
+
+  // Estimated tax payment methods
+  async getEstimatedTaxPaymentsByTaxReturnId(taxReturnId: string): Promise<EstimatedTaxPayment[]> {
+    return await this.db.select().from(estimatedTaxPayments).where(eq(estimatedTaxPayments.taxReturnId, taxReturnId));
+  }
+
+  async createEstimatedTaxPayment(data: InsertEstimatedTaxPayment): Promise<EstimatedTaxPayment> {
+    const result = await this.db.insert(estimatedTaxPayments).values(data).returning();
+    return result[0];
+  }
+
+  async updateEstimatedTaxPayment(id: string, data: Partial<EstimatedTaxPayment>): Promise<EstimatedTaxPayment> {
+    const result = await this.db
+      .update(estimatedTaxPayments)
+      .set(data)
+      .where(eq(estimatedTaxPayments.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Estimated tax payment not found");
+    return result[0];
+  }
+
+  async deleteEstimatedTaxPayment(id: string): Promise<void> {
+    await this.db.delete(estimatedTaxPayments).where(eq(estimatedTaxPayments.id, id));
+  }
+
+  // Form 2210 methods
+  async getForm2210ByTaxReturnId(taxReturnId: string): Promise<Form2210 | undefined> {
+    const result = await this.db.select().from(form2210).where(eq(form2210.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm2210(data: InsertForm2210): Promise<Form2210> {
+    const result = await this.db.insert(form2210).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm2210(id: string, data: Partial<Form2210>): Promise<Form2210> {
+    const result = await this.db
+      .update(form2210)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form2210.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 2210 not found");
+    return result[0];
+  }
+
+  // Form 1040-ES methods
+  async getForm1040EsByTaxReturnId(taxReturnId: string): Promise<Form1040Es | undefined> {
+    const result = await this.db.select().from(form1040Es).where(eq(form1040Es.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm1040Es(data: InsertForm1040Es): Promise<Form1040Es> {
+    const result = await this.db.insert(form1040Es).values(data).returning();
+    return result[0];
   }
 
-  async getTaxReturnsByUserIdAndYear(userId: string, year: number): Promise<TaxReturn[]> {
-    return await this.db
-      .select()
-      .from(taxReturns)
-      .where(and(eq(taxReturns.userId, userId), eq(taxReturns.taxYear, year)));
+  async updateForm1040Es(id: string, data: Partial<Form1040Es>): Promise<Form1040Es> {
+    const result = await this.db
+      .update(form1040Es)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form1040Es.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 1040-ES plan not found");
+    return result[0];
   }
 
-  async createTaxReturn(insertTaxReturn: InsertTaxReturn): Promise<TaxReturn> {
-    const result = await this.db.insert(taxReturns).values(insertTaxReturn).returning();
+  // Care provider methods
+  async getCareProvidersByTaxReturnId(taxReturnId: string): Promise<CareProvider[]> {
+    return await this.db.select().from(careProviders).where(eq(careProviders.taxReturnId, taxReturnId));
+  }
+
+  async createCareProvider(data: InsertCareProvider): Promise<CareProvider> {
+    const result = await this.db.insert(careProviders).values(data).returning();
     return result[0];
   }
 
-  async updateTaxReturn(id: string, data: Partial<TaxReturn>): Promise<TaxReturn> {
+  async updateCareProvider(id: string, data: Partial<CareProvider>): Promise<CareProvider> {
     const result = await this.db
-      .update(taxReturns)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(taxReturns.id, id))
+      .update(careProviders)
+      .set(data)
+      .where(eq(careProviders.id, id))
       .returning();
-    
-    if (!result[0]) throw new Error("Tax return not found");
+
+    if (!result[0]) throw new Error("Care provider not found");
     return result[0];
   }
 
-  // Document methods
-  async getDocument(id: string): Promise<Document | undefined> {
-    const result = await this.db.select().from(documents).where(eq(documents.id, id)).limit(1);
+  async deleteCareProvider(id: string): Promise<void> {
+    await this.db.delete(careProviders).where(eq(careProviders.id, id));
+  }
+
+  // Form 2441 methods
+  async getForm2441ByTaxReturnId(taxReturnId: string): Promise<Form2441 | undefined> {
+    const result = await this.db.select().from(form2441).where(eq(form2441.taxReturnId, taxReturnId)).limit(1);
     return result[0];
   }
 
-  async getDocumentsByTaxReturnId(taxReturnId: string): Promise<Document[]> {
-    return await this.db.select().from(documents).where(eq(documents.taxReturnId, taxReturnId));
+  async createForm2441(data: InsertForm2441): Promise<Form2441> {
+    const result = await this.db.insert(form2441).values(data).returning();
+    return result[0];
   }
 
-  async getDocumentCountForUser(userId: string): Promise<number> {
-    const taxReturns = await this.getTaxReturnsByUserId(userId);
-    if (taxReturns.length === 0) return 0;
-    
-    let totalCount = 0;
-    for (const taxReturn of taxReturns) {
-      const documents = await this.getDocumentsByTaxReturnId(taxReturn.id);
-      totalCount += documents.length;
-    }
-    return totalCount;
+  async updateForm2441(id: string, data: Partial<Form2441>): Promise<Form2441> {
+    const result = await this.db
+      .update(form2441)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form2441.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 2441 not found");
+    return result[0];
   }
 
-  async createDocument(insertDocument: InsertDocument): Promise<Document> {
-    const result = await this.db.insert(documents).values(insertDocument).returning();
+  // SSA-1099 methods
+  async getSsa1099ByTaxReturnId(taxReturnId: string): Promise<FormSsa1099[]> {
+    return await this.db.select().from(formSsa1099).where(eq(formSsa1099.taxReturnId, taxReturnId));
+  }
+
+  async createSsa1099(insertSsa1099: InsertSsa1099): Promise<FormSsa1099> {
+    const result = await this.db.insert(formSsa1099).values(insertSsa1099).returning();
     return result[0];
   }
 
-  async updateDocument(id: string, data: Partial<Document>): Promise<Document> {
+  async updateSsa1099(id: string, data: Partial<FormSsa1099>): Promise<FormSsa1099> {
     const result = await this.db
-      .update(documents)
+      .update(formSsa1099)
       .set(data)
-      .where(eq(documents.id, id))
+      .where(eq(formSsa1099.id, id))
       .returning();
-    
-    if (!result[0]) throw new Error("Document not found");
+
+    if (!result[0]) throw new Error("SSA-1099 data not found");
     return result[0];
   }
 
-  async deleteDocument(id: string): Promise<void> {
-    await this.db.delete(documents).where(eq(documents.id, id));
+  // Social Security Benefits Worksheet methods
+  async getSocialSecurityBenefitsWorksheetByTaxReturnId(taxReturnId: string): Promise<SocialSecurityBenefitsWorksheet | undefined> {
+    const result = await this.db.select().from(socialSecurityBenefitsWorksheets).where(eq(socialSecurityBenefitsWorksheets.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
   }
 
-  async clearAllDocuments(): Promise<void> {
-    // Clear all related data first (in order of dependencies)
-    await this.db.delete(w2Data);
-    await this.db.delete(form1099Div);
-    await this.db.delete(form1099Int);
-    await this.db.delete(form1099B);
-    await this.db.delete(parsingAttempts);
-    await this.db.delete(processingHistory);
-    await this.db.delete(aiInsights);
-    
-    // Clear documents last
-    await this.db.delete(documents);
+  async createSocialSecurityBenefitsWorksheet(data: InsertSocialSecurityBenefitsWorksheet): Promise<SocialSecurityBenefitsWorksheet> {
+    const result = await this.db.insert(socialSecurityBenefitsWorksheets).values(data).returning();
+    return result[0];
   }
 
-  // W-2 Data methods
-  async getW2DataByTaxReturnId(taxReturnId: string): Promise<W2Data[]> {
-    return await this.db.select().from(w2Data).where(eq(w2Data.taxReturnId, taxReturnId));
+  async updateSocialSecurityBenefitsWorksheet(id: string, data: Partial<SocialSecurityBenefitsWorksheet>): Promise<SocialSecurityBenefitsWorksheet> {
+    const result = await this.db
+      .update(socialSecurityBenefitsWorksheets)
+      .set(data)
+      .where(eq(socialSecurityBenefitsWorksheets.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Social Security benefits worksheet not found");
+    return result[0];
   }
 
-  async createW2Data(insertW2: InsertW2): Promise<W2Data> {
-    const result = await this.db.insert(w2Data).values(insertW2).returning();
+  // 1099-G methods
+  async get1099GByTaxReturnId(taxReturnId: string): Promise<Form1099G[]> {
+    return await this.db.select().from(form1099G).where(eq(form1099G.taxReturnId, taxReturnId));
+  }
+
+  async create1099G(insert1099G: Insert1099G): Promise<Form1099G> {
+    const result = await this.db.insert(form1099G).values(insert1099G).returning();
     return result[0];
   }
 
-  async updateW2Data(id: string, data: Partial<W2Data>): Promise<W2Data> {
+  async update1099G(id: string, data: Partial<Form1099G>): Promise<Form1099G> {
     const result = await this.db
-      .update(w2Data)
+      .update(form1099G)
       .set(data)
-      .where(eq(w2Data.id, id))
+      .where(eq(form1099G.id, id))
       .returning();
-    
-    if (!result[0]) throw new Error("W-2 data not found");
+
+    if (!result[0]) throw new Error("1099-G data not found");
     return result[0];
   }
 
-  // 1099-DIV methods
-  async get1099DivByTaxReturnId(taxReturnId: string): Promise<Form1099Div[]> {
-    return await this.db.select().from(form1099Div).where(eq(form1099Div.taxReturnId, taxReturnId));
+  // State Refund Worksheet methods
+  async getStateRefundWorksheetByTaxReturnId(taxReturnId: string): Promise<StateRefundWorksheet | undefined> {
+    const result = await this.db.select().from(stateRefundWorksheets).where(eq(stateRefundWorksheets.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
   }
 
-  async create1099Div(insert1099Div: Insert1099Div): Promise<Form1099Div> {
-    const result = await this.db.insert(form1099Div).values(insert1099Div).returning();
+  async createStateRefundWorksheet(data: InsertStateRefundWorksheet): Promise<StateRefundWorksheet> {
+    const result = await this.db.insert(stateRefundWorksheets).values(data).returning();
     return result[0];
   }
 
-  async update1099Div(id: string, data: Partial<Form1099Div>): Promise<Form1099Div> {
+  async updateStateRefundWorksheet(id: string, data: Partial<StateRefundWorksheet>): Promise<StateRefundWorksheet> {
     const result = await this.db
-      .update(form1099Div)
+      .update(stateRefundWorksheets)
       .set(data)
-      .where(eq(form1099Div.id, id))
+      .where(eq(stateRefundWorksheets.id, id))
       .returning();
-    
-    if (!result[0]) throw new Error("1099-DIV data not found");
+
+    if (!result[0]) throw new Error("State refund worksheet not found");
     return result[0];
   }
 
-  // 1099-INT methods
-  async get1099IntByTaxReturnId(taxReturnId: string): Promise<Form1099Int[]> {
-    return await this.db.select().from(form1099Int).where(eq(form1099Int.taxReturnId, taxReturnId));
+  // 1095-A methods
+  async get1095AByTaxReturnId(taxReturnId: string): Promise<Form1095A[]> {
+    return await this.db.select().from(form1095A).where(eq(form1095A.taxReturnId, taxReturnId));
   }
 
-  async create1099Int(insert1099Int: Insert1099Int): Promise<Form1099Int> {
-    const result = await this.db.insert(form1099Int).values(insert1099Int).returning();
+  async create1095A(insert1095A: Insert1095A): Promise<Form1095A> {
+    const result = await this.db.insert(form1095A).values(insert1095A).returning();
     return result[0];
   }
 
-  async update1099Int(id: string, data: Partial<Form1099Int>): Promise<Form1099Int> {
+  async update1095A(id: string, data: Partial<Form1095A>): Promise<Form1095A> {
     const result = await this.db
-      .update(form1099Int)
+      .update(form1095A)
       .set(data)
-      .where(eq(form1099Int.id, id))
+      .where(eq(form1095A.id, id))
       .returning();
-    
-    if (!result[0]) throw new Error("1099-INT data not found");
+
+    if (!result[0]) throw new Error("1095-A data not found");
     return result[0];
   }
 
-  // 1099-B methods
-  async get1099BByTaxReturnId(taxReturnId: string): Promise<Form1099B[]> {
-    return await this.db.select().from(form1099B).where(eq(form1099B.taxReturnId, taxReturnId));
+  // Form 8962 methods
+  async getForm8962ByTaxReturnId(taxReturnId: string): Promise<Form8962 | undefined> {
+    const result = await this.db.select().from(form8962).where(eq(form8962.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
   }
 
-  async create1099B(insert1099B: Insert1099B): Promise<Form1099B> {
-    const result = await this.db.insert(form1099B).values(insert1099B).returning();
+  async createForm8962(data: InsertForm8962): Promise<Form8962> {
+    const result = await this.db.insert(form8962).values(data).returning();
     return result[0];
   }
 
-  async update1099B(id: string, data: Partial<Form1099B>): Promise<Form1099B> {
+  async updateForm8962(id: string, data: Partial<Form8962>): Promise<Form8962> {
     const result = await this.db
-      .update(form1099B)
+      .update(form8962)
       .set(data)
-      .where(eq(form1099B.id, id))
+      .where(eq(form8962.id, id))
       .returning();
-    
-    if (!result[0]) throw new Error("1099-B data not found");
+
+    if (!result[0]) throw new Error("Form 8962 not found");
     return result[0];
   }
 
-  // 1099-B Entries methods
-  async get1099BEntriesByTaxReturnId(taxReturnId: string): Promise<Form1099BEntry[]> {
-    // Get all 1099-B forms for this tax return
-    const bForms = await this.db.select().from(form1099B).where(eq(form1099B.taxReturnId, taxReturnId));
-    
-    if (bForms.length === 0) return [];
-    
-    // Get all entries for these forms
-    const formIds = bForms.map(form => form.id);
-    return await this.db.select().from(form1099BEntries).where(inArray(form1099BEntries.form1099BId, formIds));
+  // IRA contribution methods
+  async getIraContributionsByTaxReturnId(taxReturnId: string): Promise<IraContribution[]> {
+    return await this.db.select().from(iraContributions).where(eq(iraContributions.taxReturnId, taxReturnId));
   }
 
-  async create1099BEntry(form1099BId: string, data: Omit<Form1099BEntry, "id" | "form1099BId">): Promise<Form1099BEntry> {
-    const insertData: InsertForm1099BEntry = {
-      form1099BId,
-      description: data.description || null,
-      dateAcquired: data.dateAcquired || null,
-      dateSold: data.dateSold || null,
-      proceeds: data.proceeds || null,
-      costBasis: data.costBasis || null,
-      gainLoss: data.gainLoss || null,
-      isShortTerm: data.isShortTerm || false,
-      reportedToIrs: data.reportedToIrs || false,
-      washSale: data.washSale || false,
-      washSaleAmount: data.washSaleAmount || null,
-    };
-    
-    const result = await this.db.insert(form1099BEntries).values(insertData).returning();
+  async createIraContribution(data: InsertIraContribution): Promise<IraContribution> {
+    const result = await this.db.insert(iraContributions).values(data).returning();
     return result[0];
   }
 
-  async update1099BEntry(id: string, data: Partial<Form1099BEntry>): Promise<Form1099BEntry> {
-    console.log("DbStorage.update1099BEntry called with:", { id, data });
+  async updateIraContribution(id: string, data: Partial<IraContribution>): Promise<IraContribution> {
     const result = await this.db
-      .update(form1099BEntries)
+      .update(iraContributions)
       .set(data)
-      .where(eq(form1099BEntries.id, id))
+      .where(eq(iraContributions.id, id))
       .returning();
-    
-    console.log("Database update result:", result);
-    if (!result[0]) throw new Error("1099-B entry not found");
+
+    if (!result[0]) throw new Error("IRA contribution not found");
     return result[0];
   }
 
-  async delete1099BEntry(id: string): Promise<void> {
-    const result = await this.db.delete(form1099BEntries).where(eq(form1099BEntries.id, id));
-    if (result.length === 0) {
-      throw new Error("1099-B entry not found");
-    }
+  async deleteIraContribution(id: string): Promise<void> {
+    await this.db.delete(iraContributions).where(eq(iraContributions.id, id));
   }
 
-  // Form 1040 methods
-  async getForm1040ByTaxReturnId(taxReturnId: string): Promise<Form1040 | undefined> {
-    const result = await this.db.select().from(form1040).where(eq(form1040.taxReturnId, taxReturnId)).limit(1);
+  // Form 8606 methods
+  async getForm8606ByTaxReturnId(taxReturnId: string): Promise<Form8606[]> {
+    return await this.db.select().from(form8606).where(eq(form8606.taxReturnId, taxReturnId));
+  }
+
+  async createForm8606(data: InsertForm8606): Promise<Form8606> {
+    const result = await this.db.insert(form8606).values(data).returning();
     return result[0];
   }
 
-  async createForm1040(insert1040: Insert1040): Promise<Form1040> {
-    const result = await this.db.insert(form1040).values(insert1040).returning();
+  async updateForm8606(id: string, data: Partial<Form8606>): Promise<Form8606> {
+    const result = await this.db
+      .update(form8606)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form8606.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 8606 not found");
     return result[0];
   }
 
-  async updateForm1040(id: string, data: Partial<Form1040>): Promise<Form1040> {
+  // Form 8880 methods
+  async getForm8880ByTaxReturnId(taxReturnId: string): Promise<Form8880 | undefined> {
+    const result = await this.db.select().from(form8880).where(eq(form8880.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm8880(data: InsertForm8880): Promise<Form8880> {
+    const result = await this.db.insert(form8880).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm8880(id: string, data: Partial<Form8880>): Promise<Form8880> {
     const result = await this.db
-      .update(form1040)
+      .update(form8880)
       .set(data)
-      .where(eq(form1040.id, id))
+      .where(eq(form8880.id, id))
       .returning();
-    
-    if (!result[0]) throw new Error("Form 1040 not found");
+
+    if (!result[0]) throw new Error("Form 8880 not found");
     return result[0];
   }
 
-  // Form 8949 methods
-  async get8949ByTaxReturnId(taxReturnId: string): Promise<Form8949[]> {
-    return await this.db.select().from(form8949).where(eq(form8949.taxReturnId, taxReturnId));
+  // Energy improvement methods
+  async getEnergyImprovementsByTaxReturnId(taxReturnId: string): Promise<EnergyImprovement[]> {
+    return await this.db.select().from(energyImprovements).where(eq(energyImprovements.taxReturnId, taxReturnId));
   }
 
-  async create8949(insert8949: Insert8949): Promise<Form8949> {
-    const result = await this.db.insert(form8949).values(insert8949).returning();
+  async createEnergyImprovement(data: InsertEnergyImprovement): Promise<EnergyImprovement> {
+    const result = await this.db.insert(energyImprovements).values(data).returning();
     return result[0];
   }
 
-  async delete8949ByTaxReturnId(taxReturnId: string): Promise<void> {
-    await this.db.delete(form8949).where(eq(form8949.taxReturnId, taxReturnId));
+  async updateEnergyImprovement(id: string, data: Partial<EnergyImprovement>): Promise<EnergyImprovement> {
+    const result = await this.db
+      .update(energyImprovements)
+      .set(data)
+      .where(eq(energyImprovements.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Energy improvement not found");
+    return result[0];
   }
 
-  // Schedule D methods
-  async getScheduleDByTaxReturnId(taxReturnId: string): Promise<ScheduleD | undefined> {
-    const result = await this.db.select().from(scheduleD).where(eq(scheduleD.taxReturnId, taxReturnId)).limit(1);
+  async deleteEnergyImprovement(id: string): Promise<void> {
+    await this.db.delete(energyImprovements).where(eq(energyImprovements.id, id));
+  }
+
+  // Form 5695 methods
+  async getForm5695ByTaxReturnId(taxReturnId: string): Promise<Form5695 | undefined> {
+    const result = await this.db.select().from(form5695).where(eq(form5695.taxReturnId, taxReturnId)).limit(1);
     return result[0];
   }
 
-  async createScheduleD(insertScheduleD: InsertScheduleD): Promise<ScheduleD> {
-    const result = await this.db.insert(scheduleD).values(insertScheduleD).returning();
+  async createForm5695(data: InsertForm5695): Promise<Form5695> {
+    const result = await this.db.insert(form5695).values(data).returning();
     return result[0];
   }
 
-  async updateScheduleD(id: string, data: Partial<ScheduleD>): Promise<ScheduleD> {
+  async updateForm5695(id: string, data: Partial<Form5695>): Promise<Form5695> {
     const result = await this.db
-      .update(scheduleD)
+      .update(form5695)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form5695.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 5695 not found");
+    return result[0];
+  }
+
+  // Form 8615 methods
+  async getForm8615ByTaxReturnId(taxReturnId: string): Promise<Form8615 | undefined> {
+    const result = await this.db.select().from(form8615).where(eq(form8615.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm8615(data: InsertForm8615): Promise<Form8615> {
+    const result = await this.db.insert(form8615).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm8615(id: string, data: Partial<Form8615>): Promise<Form8615> {
+    const result = await this.db
+      .update(form8615)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form8615.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 8615 not found");
+    return result[0];
+  }
+
+  // QBI business methods
+  async getQbiBusinessesByTaxReturnId(taxReturnId: string): Promise<QbiBusiness[]> {
+    return await this.db.select().from(qbiBusinesses).where(eq(qbiBusinesses.taxReturnId, taxReturnId));
+  }
+
+  async createQbiBusiness(data: InsertQbiBusiness): Promise<QbiBusiness> {
+    const result = await this.db.insert(qbiBusinesses).values(data).returning();
+    return result[0];
+  }
+
+  async updateQbiBusiness(id: string, data: Partial<QbiBusiness>): Promise<QbiBusiness> {
+    const result = await this.db
+      .update(qbiBusinesses)
       .set(data)
-      .where(eq(scheduleD.id, id))
+      .where(eq(qbiBusinesses.id, id))
       .returning();
-    
-    if (!result[0]) throw new Error("Schedule D not found");
+
+    if (!result[0]) throw new Error("QBI business not found");
+    return result[0];
+  }
+
+  async deleteQbiBusiness(id: string): Promise<void> {
+    await this.db.delete(qbiBusinesses).where(eq(qbiBusinesses.id, id));
+  }
+
+  // Form 8995 methods
+  async getForm8995ByTaxReturnId(taxReturnId: string): Promise<Form8995 | undefined> {
+    const result = await this.db.select().from(form8995).where(eq(form8995.taxReturnId, taxReturnId)).limit(1);
+    return result[0];
+  }
+
+  async createForm8995(data: InsertForm8995): Promise<Form8995> {
+    const result = await this.db.insert(form8995).values(data).returning();
+    return result[0];
+  }
+
+  async updateForm8995(id: string, data: Partial<Form8995>): Promise<Form8995> {
+    const result = await this.db
+      .update(form8995)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(form8995.id, id))
+      .returning();
+
+    if (!result[0]) throw new Error("Form 8995 not found");
     return result[0];
   }
 
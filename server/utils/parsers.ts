@@ -3,6 +3,7 @@ import { createReadStream, readFileSync } from "fs";
 import csvParser from "csv-parser";
 import { createWorker } from "tesseract.js";
 import { PDFParse } from 'pdf-parse';
+import { W2_BOX_12_CODES, type W2CodeAmount, type Form1095AMonth } from "@shared/schema";
 
 export interface ParsedW2 {
   employerName?: string;
@@ -13,6 +14,12 @@ export interface ParsedW2 {
   socialSecurityWithheld?: string;
   medicareWages?: string;
   medicareWithheld?: string;
+  dependentCareBenefits?: string;
+  box12?: W2CodeAmount[];
+  statutoryEmployee?: boolean;
+  retirementPlan?: boolean;
+  thirdPartySickPay?: boolean;
+  box14?: W2CodeAmount[];
 }
 
 export interface Parsed1099Div {
@@ -21,6 +28,7 @@ export interface Parsed1099Div {
   ordinaryDividends?: string;
   qualifiedDividends?: string;
   totalCapitalGain?: string;
+  section199aDividends?: string;
   foreignTaxPaid?: string;
 }
 
@@ -65,6 +73,107 @@ export interface Parsed1099Misc {
   royalties?: string;
   otherIncome?: string;
   federalWithheld?: string;
+  fishingBoatProceeds?: string;
+  medicalPayments?: string;
+}
+
+export interface Parsed1099Nec {
+  payerName?: string;
+  payerTin?: string;
+  nonemployeeCompensation?: string;
+  federalWithheld?: string;
+}
+
+export interface Parsed1099R {
+  payerName?: string;
+  payerTin?: string;
+  grossDistribution?: string;
+  taxableAmount?: string;
+  taxableAmountNotDetermined?: boolean;
+  federalWithheld?: string;
+  employeeContributions?: string;
+  distributionCode?: string;
+  isIra?: boolean;
+}
+
+export interface Parsed1098 {
+  lenderName?: string;
+  lenderTin?: string;
+  mortgageInterest?: string;
+  outstandingPrincipal?: string;
+  mortgageInsurancePremiums?: string;
+  pointsPaid?: string;
+  propertyAddress?: string;
+}
+
+export interface Parsed1098T {
+  institutionName?: string;
+  institutionTin?: string;
+  studentName?: string;
+  paymentsReceived?: string;
+  scholarships?: string;
+  halfTimeStudent?: boolean;
+  graduateStudent?: boolean;
+}
+
+export interface Parsed1098E {
+  lenderName?: string;
+  lenderTin?: string;
+  studentLoanInterest?: string;
+  originationFeesIncluded?: boolean;
+}
+
+export interface Parsed1099Sa {
+  payerName?: string;
+  payerTin?: string;
+  grossDistribution?: string;
+  earningsOnExcess?: string;
+  distributionCode?: string;
+  fairMarketValueOnDeath?: string;
+}
+
+export interface ParsedSsa1099 {
+  beneficiaryName?: string;
+  beneficiarySsn?: string;
+  benefitsPaid?: string;
+  benefitsRepaid?: string;
+  netBenefits?: string;
+  federalWithheld?: string;
+}
+
+export interface Parsed1099G {
+  payerName?: string;
+  payerTin?: string;
+  unemploymentCompensation?: string;
+  stateLocalRefund?: string;
+  refundTaxYear?: string;
+  federalWithheld?: string;
+  taxableGrants?: string;
+  agriculturePayments?: string;
+  tradeOrBusiness?: boolean;
+  stateWithheld?: string;
+}
+
+export interface Parsed1095A {
+  marketplaceId?: string;
+  policyNumber?: string;
+  issuerName?: string;
+  recipientName?: string;
+  policyStartDate?: string;
+  policyEndDate?: string;
+  monthlyAmounts?: Form1095AMonth[];
+  annualPremium?: string;
+  annualSlcsp?: string;
+  annualAdvancePayment?: string;
+}
+
+export interface Parsed5498Sa {
+  trusteeName?: string;
+  trusteeTin?: string;
+  totalContributions?: string;
+  followingYearContributions?: string;
+  rolloverContributions?: string;
+  fairMarketValue?: string;
 }
 
 export interface ConsolidatedBrokerageStatement {
@@ -197,6 +306,58 @@ export function detectDocumentType(text: string): string {
     return "CONSOLIDATED-BROKERAGE";
   }
   
+  // 1099-R detection - must run before W-2, which matches "FEDERAL INCOME TAX WITHHELD"
+  if (upperText.includes("FORM 1099-R") ||
+      upperText.includes("1099-R") ||
+      upperText.includes("DISTRIBUTIONS FROM PENSIONS")) {
+    return "1099-R";
+  }
+  
+  // 1098-T / 1098-E detection - must run before W-2, which matches the student's SSN,
+  // and before the generic 1098 check
+  if (upperText.includes("1098-T") || upperText.includes("TUITION STATEMENT")) {
+    return "1098-T";
+  }
+  
+  if (upperText.includes("1098-E") || upperText.includes("STUDENT LOAN INTEREST STATEMENT")) {
+    return "1098-E";
+  }
+  
+  // 1099-SA / 5498-SA detection - must run before W-2, which matches the account holder's SSN
+  if (upperText.includes("1099-SA") || upperText.includes("DISTRIBUTIONS FROM AN HSA")) {
+    return "1099-SA";
+  }
+  
+  if (upperText.includes("5498-SA") || upperText.includes("HSA, ARCHER MSA, OR MEDICARE ADVANTAGE MSA INFORMATION")) {
+    return "5498-SA";
+  }
+  
+  // SSA-1099 detection - must run before W-2, which matches the beneficiary's SSN
+  if (upperText.includes("SSA-1099") || upperText.includes("SOCIAL SECURITY BENEFIT STATEMENT")) {
+    return "SSA-1099";
+  }
+  
+  // 1099-G detection - must run before W-2, which matches "FEDERAL INCOME TAX WITHHELD"
+  if (upperText.includes("1099-G") || upperText.includes("CERTAIN GOVERNMENT PAYMENTS")) {
+    return "1099-G";
+  }
+  
+  // 1095-A detection - must run before W-2, which matches the recipient's SSN
+  if (upperText.includes("1095-A") || upperText.includes("HEALTH INSURANCE MARKETPLACE STATEMENT")) {
+    return "1095-A";
+  }
+  
+  // 1099-NEC / 1099-MISC detection - must run before W-2, which matches "FEDERAL INCOME TAX WITHHELD"
+  if (upperText.includes("FORM 1099-NEC") ||
+      upperText.includes("1099-NEC") ||
+      upperText.includes("NONEMPLOYEE COMPENSATION")) {
+    return "1099-NEC";
+  }
+  
+  if (upperText.includes("FORM 1099-MISC") || upperText.includes("1099-MISC")) {
+    return "1099-MISC";
+  }
+  
   // More comprehensive W-2 detection - look for patterns typical of W-2 forms
   if (upperText.includes("FORM W-2") || 
       upperText.includes("WAGE AND TAX STATEMENT") ||
@@ -216,6 +377,13 @@ export function detectDocumentType(text: string): string {
     return "W-2";
   }
   
+  // 1098 detection - must run before 1099-INT, which matches any "INTEREST"
+  if (upperText.includes("FORM 1098") ||
+      upperText.includes("MORTGAGE INTEREST STATEMENT") ||
+      upperText.includes("MORTGAGE INTEREST RECEIVED")) {
+    return "1098";
+  }
+  
   // More comprehensive 1099-DIV detection
   if (upperText.includes("FORM 1099-DIV") || 
       upperText.includes("DIVIDENDS AND DISTRIBUTIONS") ||
@@ -246,19 +414,6 @@ export function detectDocumentType(text: string): string {
     return "1099-B";
   }
   
-  // Additional document types
-  if (upperText.includes("FORM 1099-MISC") || upperText.includes("1099-MISC")) {
-    return "1099-MISC";
-  }
-  
-  if (upperText.includes("FORM 1099-R") || upperText.includes("1099-R")) {
-    return "1099-R";
-  }
-  
-  if (upperText.includes("FORM 1098") || upperText.includes("MORTGAGE INTEREST")) {
-    return "1098";
-  }
-  
   return "Unknown";
 }
 
@@ -336,6 +491,34 @@ export function parseW2Data(text: string): ParsedW2 {
     const medicareWithheldMatch = text.match(/(?:medicare.*withheld|box 6)[:\s]+\$?([\d,]+\.?\d*)/i);
     if (medicareWithheldMatch) data.medicareWithheld = medicareWithheldMatch[1].replace(/,/g, "");
   }
+
+  const dependentCareMatch = text.match(/(?:dependent care benefits|box 10)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (dependentCareMatch) data.dependentCareBenefits = dependentCareMatch[1].replace(/,/g, "");
+
+  // Box 12a-12d: a one or two letter code followed by an amount, e.g. "12a D 19,500.00"
+  const box12: W2CodeAmount[] = [];
+  const box12Pattern = /(?:box\s*)?12[a-d]\b[:\s]*(?:code\s*)?([A-Z]{1,2})\b[:\s]*\$?([\d,]+\.\d{2})/gi;
+  for (const match of Array.from(text.matchAll(box12Pattern))) {
+    const code = match[1].toUpperCase();
+    if (code in W2_BOX_12_CODES) {
+      box12.push({ code, amount: match[2].replace(/,/g, "") });
+    }
+  }
+  if (box12.length > 0) data.box12 = box12;
+
+  // Box 13 checkboxes: the mark has to follow its own label directly, so a mark next to
+  // another label (or the X's of a masked SSN) doesn't check the box
+  data.statutoryEmployee = /\bstatutory employee[:\s]*(?:\[x\]|☒|(?:x|yes)\b)/i.test(text);
+  data.retirementPlan = /\bretirement plan[:\s]*(?:\[x\]|☒|(?:x|yes)\b)/i.test(text);
+  data.thirdPartySickPay = /\bthird[- ]party sick pay[:\s]*(?:\[x\]|☒|(?:x|yes)\b)/i.test(text);
+
+  // Box 14 "Other": employer-chosen labels such as SDI or UNION DUES
+  const box14: W2CodeAmount[] = [];
+  const box14Pattern = /(?:box\s*14|\b14\s+other)[:\s]+([A-Za-z][A-Za-z0-9 .\/-]{0,19}?)[:\s]+\$?([\d,]+\.\d{2})/gi;
+  for (const match of Array.from(text.matchAll(box14Pattern))) {
+    box14.push({ code: match[1].trim().toUpperCase(), amount: match[2].replace(/,/g, "") });
+  }
+  if (box14.length > 0) data.box14 = box14;
   
   return data;
 }
@@ -368,6 +551,9 @@ export function parse1099DivData(text: string, fileName?: string): Parsed1099Div
   const capitalGainMatch = text.match(/(?:total capital gain|box 2a)[:\s]+\$?([\d,]+\.?\d*)/i);
   if (capitalGainMatch) data.totalCapitalGain = capitalGainMatch[1].replace(/,/g, "");
   
+  const section199aMatch = text.match(/(?:section 199a dividends|box 5)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (section199aMatch) data.section199aDividends = section199aMatch[1].replace(/,/g, "");
+  
   return data;
 }
 
@@ -399,6 +585,247 @@ export function parse1099IntData(text: string, fileName?: string): Parsed1099Int
   return data;
 }
 
+export function parse1099RData(text: string, fileName?: string): Parsed1099R {
+  const data: Parsed1099R = {};
+  
+  // Extract basic form information
+  const payerNameMatch = text.match(/(?:payer|plan|trustee)[:\s]+([^\n\r]+)/i);
+  if (payerNameMatch) data.payerName = payerNameMatch[1].trim();
+  
+  const payerTinMatch = text.match(/(?:tin|tax.*id)[:\s]+(\d{2}-\d{7})/i);
+  if (payerTinMatch) data.payerTin = payerTinMatch[1];
+  
+  // If payer info not found in text, try to extract from filename
+  if (!data.payerName && fileName) {
+    data.payerName = extractPayerNameFromFilename(fileName);
+  }
+  
+  if (!data.payerTin && fileName) {
+    data.payerTin = extractTinFromFilename(fileName) || undefined;
+  }
+  
+  const grossMatch = text.match(/(?:gross distribution|box 1)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (grossMatch) data.grossDistribution = grossMatch[1].replace(/,/g, "");
+  
+  const taxableMatch = text.match(/(?:taxable amount|box 2a)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (taxableMatch) data.taxableAmount = taxableMatch[1].replace(/,/g, "");
+  
+  data.taxableAmountNotDetermined = /taxable amount not determined[:\s]+(?:x|yes|true)\b/i.test(text);
+  
+  const federalWithheldMatch = text.match(/(?:federal.*withheld|box 4)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (federalWithheldMatch) data.federalWithheld = federalWithheldMatch[1].replace(/,/g, "");
+  
+  const contributionsMatch = text.match(/(?:employee contributions|box 5)[^:\n\r$\d]*[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (contributionsMatch) data.employeeContributions = contributionsMatch[1].replace(/,/g, "");
+  
+  const codeMatch = text.match(/(?:distribution code(?:\(s\)|s)?|box 7)[:\s]+([0-9A-Z]{1,2})\b/i);
+  if (codeMatch) data.distributionCode = codeMatch[1].toUpperCase();
+  
+  data.isIra = /IRA\/SEP\/SIMPLE[:\s]+(?:x|yes|true)\b/i.test(text);
+  
+  return data;
+}
+
+export function parse1098Data(text: string, fileName?: string): Parsed1098 {
+  const data: Parsed1098 = {};
+  
+  // Extract lender information
+  const lenderNameMatch = text.match(/(?:recipient|lender|mortgagee)(?:'s)?(?: name)?[:\s]+([^\n\r]+)/i);
+  if (lenderNameMatch) data.lenderName = lenderNameMatch[1].trim();
+  
+  const lenderTinMatch = text.match(/(?:tin|tax.*id)[:\s]+(\d{2}-\d{7})/i);
+  if (lenderTinMatch) data.lenderTin = lenderTinMatch[1];
+  
+  // If lender info not found in text, try to extract from filename
+  if (!data.lenderName && fileName) {
+    data.lenderName = extractPayerNameFromFilename(fileName);
+  }
+  
+  if (!data.lenderTin && fileName) {
+    data.lenderTin = extractTinFromFilename(fileName) || undefined;
+  }
+  
+  const interestMatch = text.match(/(?:mortgage interest received|box 1)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (interestMatch) data.mortgageInterest = interestMatch[1].replace(/,/g, "");
+  
+  const principalMatch = text.match(/(?:outstanding mortgage principal|box 2)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (principalMatch) data.outstandingPrincipal = principalMatch[1].replace(/,/g, "");
+  
+  const insuranceMatch = text.match(/(?:mortgage insurance premiums|box 5)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (insuranceMatch) data.mortgageInsurancePremiums = insuranceMatch[1].replace(/,/g, "");
+  
+  const pointsMatch = text.match(/(?:points paid on purchase|box 6)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (pointsMatch) data.pointsPaid = pointsMatch[1].replace(/,/g, "");
+  
+  // Box 8: address of the property securing the mortgage
+  const addressMatch = text.match(/(?:address.*property securing|property address|box 8)[^:\n\r]*[:\s]+([^\n\r]+)/i);
+  if (addressMatch) data.propertyAddress = addressMatch[1].trim();
+  
+  return data;
+}
+
+export function parse1098TData(text: string, fileName?: string): Parsed1098T {
+  const data: Parsed1098T = {};
+  
+  // Extract institution (filer) information
+  const institutionNameMatch = text.match(/(?:filer|institution|school)(?:'s)?(?: name)?[:\s]+([^\n\r]+)/i);
+  if (institutionNameMatch) data.institutionName = institutionNameMatch[1].trim();
+  
+  const institutionTinMatch = text.match(/(?:filer'?s? (?:employer identification number|tin|ein)|tin|tax.*id)[:\s]+(\d{2}-\d{7})/i);
+  if (institutionTinMatch) data.institutionTin = institutionTinMatch[1];
+  
+  // If institution info not found in text, try to extract from filename
+  if (!data.institutionName && fileName) {
+    data.institutionName = extractPayerNameFromFilename(fileName);
+  }
+  
+  if (!data.institutionTin && fileName) {
+    data.institutionTin = extractTinFromFilename(fileName) || undefined;
+  }
+  
+  const studentNameMatch = text.match(/student(?:'s)? name[:\s]+([^\n\r]+)/i);
+  if (studentNameMatch) data.studentName = studentNameMatch[1].trim();
+  
+  const paymentsMatch = text.match(/(?:payments received for qualified tuition|box 1)[^:\n\r\d$]*[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (paymentsMatch) data.paymentsReceived = paymentsMatch[1].replace(/,/g, "");
+  
+  const scholarshipsMatch = text.match(/(?:scholarships or grants|box 5)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (scholarshipsMatch) data.scholarships = scholarshipsMatch[1].replace(/,/g, "");
+  
+  // Boxes 8 and 9 are checkboxes; treat an "X" or "yes" after the label as checked
+  data.halfTimeStudent = /at least half-time student[^\n\r]*?[:\s]+(?:x|yes|\[x\]|☒)/i.test(text);
+  data.graduateStudent = /graduate student[^\n\r]*?[:\s]+(?:x|yes|\[x\]|☒)/i.test(text);
+  
+  return data;
+}
+
+export function parse1098EData(text: string, fileName?: string): Parsed1098E {
+  const data: Parsed1098E = {};
+  
+  // Extract lender information
+  const lenderNameMatch = text.match(/(?:recipient|lender)(?:'s)?(?: name)?[:\s]+([^\n\r]+)/i);
+  if (lenderNameMatch) data.lenderName = lenderNameMatch[1].trim();
+  
+  const lenderTinMatch = text.match(/(?:tin|tax.*id)[:\s]+(\d{2}-\d{7})/i);
+  if (lenderTinMatch) data.lenderTin = lenderTinMatch[1];
+  
+  // If lender info not found in text, try to extract from filename
+  if (!data.lenderName && fileName) {
+    data.lenderName = extractPayerNameFromFilename(fileName);
+  }
+  
+  if (!data.lenderTin && fileName) {
+    data.lenderTin = extractTinFromFilename(fileName) || undefined;
+  }
+  
+  const interestMatch = text.match(/(?:student loan interest received by lender|box 1)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (interestMatch) data.studentLoanInterest = interestMatch[1].replace(/,/g, "");
+  
+  // Box 2 is checked when box 1 includes loan origination fees or capitalized interest
+  data.originationFeesIncluded = /(?:origination fees|capitalized interest)[^\n\r]*?[:\s]+(?:x|yes|\[x\]|☒)/i.test(text);
+  
+  return data;
+}
+
+export function parse1099SaData(text: string, fileName?: string): Parsed1099Sa {
+  const data: Parsed1099Sa = {};
+  
+  // Extract payer (HSA trustee) information
+  const payerNameMatch = text.match(/(?:payer|trustee)(?:'s)?(?: name)?[:\s]+([^\n\r]+)/i);
+  if (payerNameMatch) data.payerName = payerNameMatch[1].trim();
+  
+  const payerTinMatch = text.match(/(?:tin|tax.*id)[:\s]+(\d{2}-\d{7})/i);
+  if (payerTinMatch) data.payerTin = payerTinMatch[1];
+  
+  // If payer info not found in text, try to extract from filename
+  if (!data.payerName && fileName) {
+    data.payerName = extractPayerNameFromFilename(fileName);
+  }
+  
+  if (!data.payerTin && fileName) {
+    data.payerTin = extractTinFromFilename(fileName) || undefined;
+  }
+  
+  const grossMatch = text.match(/(?:gross distribution|box 1)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (grossMatch) data.grossDistribution = grossMatch[1].replace(/,/g, "");
+  
+  const earningsMatch = text.match(/(?:earnings on excess cont(?:ributions|\.)?|box 2)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (earningsMatch) data.earningsOnExcess = earningsMatch[1].replace(/,/g, "");
+  
+  const codeMatch = text.match(/(?:distribution code|box 3)[:\s]+([1-6])\b/i);
+  if (codeMatch) data.distributionCode = codeMatch[1];
+  
+  const fmvMatch = text.match(/(?:fmv on date of death|box 4)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (fmvMatch) data.fairMarketValueOnDeath = fmvMatch[1].replace(/,/g, "");
+  
+  return data;
+}
+
+export function parseSsa1099Data(text: string): ParsedSsa1099 {
+  const data: ParsedSsa1099 = {};
+  
+  // Extract beneficiary information
+  const nameMatch = text.match(/(?:name of beneficiary|beneficiary(?:'s)? name|box 1)[:\s]+([^\n\r]+)/i);
+  if (nameMatch) data.beneficiaryName = nameMatch[1].trim();
+  
+  const ssnMatch = text.match(/(\d{3}-\d{2}-\d{4})/);
+  if (ssnMatch) data.beneficiarySsn = ssnMatch[1];
+  
+  const paidMatch = text.match(/(?:benefits paid in \d{4}|box 3)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (paidMatch) data.benefitsPaid = paidMatch[1].replace(/,/g, "");
+  
+  const repaidMatch = text.match(/(?:benefits repaid to ssa in \d{4}|box 4)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (repaidMatch) data.benefitsRepaid = repaidMatch[1].replace(/,/g, "");
+  
+  const netMatch = text.match(/(?:net benefits for \d{4}|box 5)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (netMatch) data.netBenefits = netMatch[1].replace(/,/g, "");
+  
+  const withheldMatch = text.match(/(?:voluntary federal income tax withheld|box 6)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (withheldMatch) data.federalWithheld = withheldMatch[1].replace(/,/g, "");
+  
+  // Box 5 is box 3 less box 4 when the statement doesn't print it separately
+  if (!data.netBenefits && data.benefitsPaid) {
+    const net = parseFloat(data.benefitsPaid) - parseFloat(data.benefitsRepaid || "0");
+    data.netBenefits = net.toFixed(2);
+  }
+  
+  return data;
+}
+
+export function parse5498SaData(text: string, fileName?: string): Parsed5498Sa {
+  const data: Parsed5498Sa = {};
+  
+  // Extract trustee information
+  const trusteeNameMatch = text.match(/trustee(?:'s)?(?: name)?[:\s]+([^\n\r]+)/i);
+  if (trusteeNameMatch) data.trusteeName = trusteeNameMatch[1].trim();
+  
+  const trusteeTinMatch = text.match(/(?:tin|tax.*id)[:\s]+(\d{2}-\d{7})/i);
+  if (trusteeTinMatch) data.trusteeTin = trusteeTinMatch[1];
+  
+  // If trustee info not found in text, try to extract from filename
+  if (!data.trusteeName && fileName) {
+    data.trusteeName = extractPayerNameFromFilename(fileName);
+  }
+  
+  if (!data.trusteeTin && fileName) {
+    data.trusteeTin = extractTinFromFilename(fileName) || undefined;
+  }
+  
+  const totalMatch = text.match(/(?:total contributions made in \d{4}|box 2)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (totalMatch) data.totalContributions = totalMatch[1].replace(/,/g, "");
+  
+  const followingYearMatch = text.match(/(?:contributions made in \d{4} for \d{4}|box 3)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (followingYearMatch) data.followingYearContributions = followingYearMatch[1].replace(/,/g, "");
+  
+  const rolloverMatch = text.match(/(?:rollover contributions|box 4)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (rolloverMatch) data.rolloverContributions = rolloverMatch[1].replace(/,/g, "");
+  
+  const fmvMatch = text.match(/(?:fair market value of (?:hsa|account)|box 5)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (fmvMatch) data.fairMarketValue = fmvMatch[1].replace(/,/g, "");
+  
+  return data;
+}
+
 export function parse1099BData(text: string, fileName?: string): Parsed1099B {
   const data: Parsed1099B = {};
   
@@ -508,6 +935,146 @@ export function parse1099MiscData(text: string, fileName?: string): Parsed1099Mi
   const federalWithheldMatch = text.match(/(?:federal.*withheld|box 4)[:\s]+\$?([\d,]+\.?\d*)/i);
   if (federalWithheldMatch) data.federalWithheld = federalWithheldMatch[1].replace(/,/g, "");
   
+  const fishingMatch = text.match(/(?:fishing boat proceeds|box 5)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (fishingMatch) data.fishingBoatProceeds = fishingMatch[1].replace(/,/g, "");
+  
+  const medicalMatch = text.match(/(?:medical and health care payments|box 6)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (medicalMatch) data.medicalPayments = medicalMatch[1].replace(/,/g, "");
+  
+  return data;
+}
+
+export function parse1099NecData(text: string, fileName?: string): Parsed1099Nec {
+  const data: Parsed1099Nec = {};
+  
+  // Extract basic form information
+  const payerNameMatch = text.match(/(?:payer|company)[:\s]+([^\n\r]+)/i);
+  if (payerNameMatch) data.payerName = payerNameMatch[1].trim();
+  
+  const payerTinMatch = text.match(/(?:tin|tax.*id)[:\s]+(\d{2}-\d{7})/i);
+  if (payerTinMatch) data.payerTin = payerTinMatch[1];
+  
+  // If payer info not found in text, try to extract from filename
+  if (!data.payerName && fileName) {
+    data.payerName = extractPayerNameFromFilename(fileName);
+  }
+  
+  if (!data.payerTin && fileName) {
+    data.payerTin = extractTinFromFilename(fileName) || undefined;
+  }
+  
+  const compensationMatch = text.match(/(?:nonemployee compensation|box 1)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (compensationMatch) data.nonemployeeCompensation = compensationMatch[1].replace(/,/g, "");
+  
+  const federalWithheldMatch = text.match(/(?:federal.*withheld|box 4)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (federalWithheldMatch) data.federalWithheld = federalWithheldMatch[1].replace(/,/g, "");
+  
+  return data;
+}
+
+export function parse1099GData(text: string, fileName?: string): Parsed1099G {
+  const data: Parsed1099G = {};
+  
+  // Extract basic form information
+  const payerNameMatch = text.match(/(?:payer|agency)[:\s]+([^\n\r]+)/i);
+  if (payerNameMatch) data.payerName = payerNameMatch[1].trim();
+  
+  const payerTinMatch = text.match(/(?:tin|tax.*id)[:\s]+(\d{2}-\d{7})/i);
+  if (payerTinMatch) data.payerTin = payerTinMatch[1];
+  
+  // If payer info not found in text, try to extract from filename
+  if (!data.payerName && fileName) {
+    data.payerName = extractPayerNameFromFilename(fileName);
+  }
+  
+  if (!data.payerTin && fileName) {
+    data.payerTin = extractTinFromFilename(fileName) || undefined;
+  }
+  
+  const unemploymentMatch = text.match(/(?:unemployment compensation|box 1)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (unemploymentMatch) data.unemploymentCompensation = unemploymentMatch[1].replace(/,/g, "");
+  
+  const refundMatch = text.match(/(?:state or local income tax refunds, credits, or offsets|box 2)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (refundMatch) data.stateLocalRefund = refundMatch[1].replace(/,/g, "");
+  
+  const refundYearMatch = text.match(/(?:box 2 amount is for tax year|box 3)[:\s]+(\d{4})/i);
+  if (refundYearMatch) data.refundTaxYear = refundYearMatch[1];
+  
+  const federalWithheldMatch = text.match(/(?:federal.*withheld|box 4)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (federalWithheldMatch) data.federalWithheld = federalWithheldMatch[1].replace(/,/g, "");
+  
+  const grantsMatch = text.match(/(?:taxable grants|box 6)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (grantsMatch) data.taxableGrants = grantsMatch[1].replace(/,/g, "");
+  
+  const agricultureMatch = text.match(/(?:agriculture payments|box 7)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (agricultureMatch) data.agriculturePayments = agricultureMatch[1].replace(/,/g, "");
+  
+  // Box 8 is a checkbox: the box 2 refund is attributable to a trade or business
+  if (/(?:box 8|trade or business)[:\s]+(?:x|yes|checked)/i.test(text)) data.tradeOrBusiness = true;
+  
+  const stateWithheldMatch = text.match(/(?:state income tax withheld|box 11)[:\s]+\$?([\d,]+\.?\d*)/i);
+  if (stateWithheldMatch) data.stateWithheld = stateWithheldMatch[1].replace(/,/g, "");
+  
+  return data;
+}
+
+const MARKETPLACE_MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+export function parse1095AData(text: string): Parsed1095A {
+  const data: Parsed1095A = {};
+  
+  // Part I: recipient and policy information
+  const marketplaceMatch = text.match(/(?:marketplace identifier|line 1)[:\s]+([^\n\r]+)/i);
+  if (marketplaceMatch) data.marketplaceId = marketplaceMatch[1].trim();
+  
+  const policyMatch = text.match(/(?:marketplace-assigned policy number|policy number|line 2)[:\s#]+([^\s]+)/i);
+  if (policyMatch) data.policyNumber = policyMatch[1].trim();
+  
+  const issuerMatch = text.match(/(?:policy issuer(?:'s)? name|line 3)[:\s]+([^\n\r]+)/i);
+  if (issuerMatch) data.issuerName = issuerMatch[1].trim();
+  
+  const recipientMatch = text.match(/(?:recipient(?:'s)? name|line 4)[:\s]+([^\n\r]+)/i);
+  if (recipientMatch) data.recipientName = recipientMatch[1].trim();
+  
+  const startMatch = text.match(/(?:policy start date|line 10)[:\s]+(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})/i);
+  if (startMatch) data.policyStartDate = startMatch[1];
+  
+  const endMatch = text.match(/(?:policy termination date|line 11)[:\s]+(\d{1,2}\/\d{1,2}\/\d{4}|\d{4}-\d{2}-\d{2})/i);
+  if (endMatch) data.policyEndDate = endMatch[1];
+  
+  // Part III lines 21-32: one row per month with columns A (premium), B (SLCSP) and C (advance payment)
+  const amountPattern = "\\$?([\\d,]+\\.?\\d*)";
+  const monthlyAmounts: Form1095AMonth[] = [];
+  MARKETPLACE_MONTHS.forEach((monthName, index) => {
+    const rowMatch = text.match(new RegExp(`${monthName}[:\\s]+${amountPattern}\\s+${amountPattern}\\s+${amountPattern}`, "i"));
+    if (rowMatch) {
+      monthlyAmounts.push({
+        month: index + 1,
+        premium: rowMatch[1].replace(/,/g, ""),
+        slcsp: rowMatch[2].replace(/,/g, ""),
+        advancePayment: rowMatch[3].replace(/,/g, ""),
+      });
+    }
+  });
+  if (monthlyAmounts.length > 0) data.monthlyAmounts = monthlyAmounts;
+  
+  // Line 33: annual totals
+  const totalsMatch = text.match(/(?:annual totals?|line 33)[:\s]+\$?([\d,]+\.?\d*)\s+\$?([\d,]+\.?\d*)\s+\$?([\d,]+\.?\d*)/i);
+  if (totalsMatch) {
+    data.annualPremium = totalsMatch[1].replace(/,/g, "");
+    data.annualSlcsp = totalsMatch[2].replace(/,/g, "");
+    data.annualAdvancePayment = totalsMatch[3].replace(/,/g, "");
+  } else if (monthlyAmounts.length > 0) {
+    const total = (key: "premium" | "slcsp" | "advancePayment") =>
+      monthlyAmounts.reduce((sum, month) => sum + parseFloat(month[key] || "0"), 0).toFixed(2);
+    data.annualPremium = total("premium");
+    data.annualSlcsp = total("slcsp");
+    data.annualAdvancePayment = total("advancePayment");
+  }
+  
   return data;
 }
 
@@ -0,0 +1,6 @@
+/**
+ * Check that a request value is one of a constant object's values, e.g. isOneOf(FILING_STATUS, status)
+ */
+export function isOneOf<T extends Record<string, string>>(values: T, value: unknown): value is T[keyof T] {
+  return typeof value === "string" && Object.values(values).includes(value);
+}
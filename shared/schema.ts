@@ -86,6 +86,13 @@ export const w2Data = pgTable("w2_data", {
   medicareWithheld: decimal("medicare_withheld", { precision: 12, scale: 2 }),
   stateWages: decimal("state_wages", { precision: 12, scale: 2 }),
   stateWithheld: decimal("state_withheld", { precision: 12, scale: 2 }),
+  dependentCareBenefits: decimal("dependent_care_benefits", { precision: 12, scale: 2 }), // Box 10
+  box12: jsonb("box_12"), // Array of { code, amount } (codes in W2_BOX_12_CODES)
+  statutoryEmployee: boolean("statutory_employee").default(false), // Box 13
+  retirementPlan: boolean("retirement_plan").default(false), // Box 13
+  thirdPartySickPay: boolean("third_party_sick_pay").default(false), // Box 13
+  box14: jsonb("box_14"), // Array of { code, amount } with employer-chosen labels
+  owner: text("owner"), // TAXPAYER_OWNERS: the employee; null when not assigned
 });
 
 export const form1099Div = pgTable("form_1099_div", {
@@ -99,6 +106,7 @@ export const form1099Div = pgTable("form_1099_div", {
   totalCapitalGain: decimal("total_capital_gain", { precision: 12, scale: 2 }),
   section1202Gain: decimal("section_1202_gain", { precision: 12, scale: 2 }),
   foreignTaxPaid: decimal("foreign_tax_paid", { precision: 12, scale: 2 }),
+  section199aDividends: decimal("section_199a_dividends", { precision: 12, scale: 2 }), // Box 5: qualified REIT dividends for the QBI deduction
 });
 
 export const form1099Int = pgTable("form_1099_int", {
@@ -113,6 +121,176 @@ export const form1099Int = pgTable("form_1099_int", {
   federalWithheld: decimal("federal_withheld", { precision: 12, scale: 2 }),
 });
 
+export const form1099Misc = pgTable("form_1099_misc", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  payerName: text("payer_name"),
+  payerTin: text("payer_tin"),
+  rents: decimal("rents", { precision: 12, scale: 2 }), // Box 1
+  royalties: decimal("royalties", { precision: 12, scale: 2 }), // Box 2
+  otherIncome: decimal("other_income", { precision: 12, scale: 2 }), // Box 3
+  federalWithheld: decimal("federal_withheld", { precision: 12, scale: 2 }), // Box 4
+  fishingBoatProceeds: decimal("fishing_boat_proceeds", { precision: 12, scale: 2 }), // Box 5
+  medicalPayments: decimal("medical_payments", { precision: 12, scale: 2 }), // Box 6
+});
+
+export const form1099Nec = pgTable("form_1099_nec", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  payerName: text("payer_name"),
+  payerTin: text("payer_tin"),
+  nonemployeeCompensation: decimal("nonemployee_compensation", { precision: 12, scale: 2 }), // Box 1
+  federalWithheld: decimal("federal_withheld", { precision: 12, scale: 2 }), // Box 4
+});
+
+export const form1099R = pgTable("form_1099_r", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  payerName: text("payer_name"),
+  payerTin: text("payer_tin"),
+  grossDistribution: decimal("gross_distribution", { precision: 12, scale: 2 }), // Box 1
+  taxableAmount: decimal("taxable_amount", { precision: 12, scale: 2 }), // Box 2a
+  taxableAmountNotDetermined: boolean("taxable_amount_not_determined").default(false), // Box 2b
+  federalWithheld: decimal("federal_withheld", { precision: 12, scale: 2 }), // Box 4
+  employeeContributions: decimal("employee_contributions", { precision: 12, scale: 2 }), // Box 5
+  distributionCode: text("distribution_code"), // Box 7, e.g. "1", "7", "G", "1B"
+  isIra: boolean("is_ira").default(false), // Box 7 IRA/SEP/SIMPLE checkbox
+  rolloverAmount: decimal("rollover_amount", { precision: 12, scale: 2 }), // Amount rolled over within 60 days
+});
+
+export const form1098 = pgTable("form_1098", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  lenderName: text("lender_name"),
+  lenderTin: text("lender_tin"),
+  mortgageInterest: decimal("mortgage_interest", { precision: 12, scale: 2 }),
+  outstandingPrincipal: decimal("outstanding_principal", { precision: 12, scale: 2 }),
+  mortgageInsurancePremiums: decimal("mortgage_insurance_premiums", { precision: 12, scale: 2 }),
+  pointsPaid: decimal("points_paid", { precision: 12, scale: 2 }),
+  propertyAddress: text("property_address"),
+});
+
+export const form1098T = pgTable("form_1098_t", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  institutionName: text("institution_name"),
+  institutionTin: text("institution_tin"),
+  studentName: text("student_name"),
+  paymentsReceived: decimal("payments_received", { precision: 12, scale: 2 }), // Box 1
+  scholarships: decimal("scholarships", { precision: 12, scale: 2 }), // Box 5
+  halfTimeStudent: boolean("half_time_student").default(false), // Box 8
+  graduateStudent: boolean("graduate_student").default(false), // Box 9
+  additionalExpenses: decimal("additional_expenses", { precision: 12, scale: 2 }), // Required books and course materials not in box 1
+  aotcYearsClaimed: integer("aotc_years_claimed").default(0), // Prior years the American opportunity credit was claimed for this student
+});
+
+export const form1098E = pgTable("form_1098_e", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  lenderName: text("lender_name"),
+  lenderTin: text("lender_tin"),
+  studentLoanInterest: decimal("student_loan_interest", { precision: 12, scale: 2 }), // Box 1
+  originationFeesIncluded: boolean("origination_fees_included").default(false), // Box 2
+});
+
+export const form1099Sa = pgTable("form_1099_sa", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  payerName: text("payer_name"),
+  payerTin: text("payer_tin"),
+  owner: text("owner").notNull().default("taxpayer"), // HSA_OWNERS: whose account made the distribution
+  grossDistribution: decimal("gross_distribution", { precision: 12, scale: 2 }), // Box 1
+  earningsOnExcess: decimal("earnings_on_excess", { precision: 12, scale: 2 }), // Box 2
+  distributionCode: text("distribution_code"), // Box 3: 1 normal, 2 excess contributions, 3 disability, 4 death, 5 prohibited transaction, 6 death (spouse)
+  fairMarketValueOnDeath: decimal("fair_market_value_on_death", { precision: 12, scale: 2 }), // Box 4
+});
+
+export const form5498Sa = pgTable("form_5498_sa", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  trusteeName: text("trustee_name"),
+  trusteeTin: text("trustee_tin"),
+  owner: text("owner").notNull().default("taxpayer"), // HSA_OWNERS
+  totalContributions: decimal("total_contributions", { precision: 12, scale: 2 }), // Box 2: made during the year, including employer contributions
+  followingYearContributions: decimal("following_year_contributions", { precision: 12, scale: 2 }), // Box 3: made next year for this year
+  rolloverContributions: decimal("rollover_contributions", { precision: 12, scale: 2 }), // Box 4
+  fairMarketValue: decimal("fair_market_value", { precision: 12, scale: 2 }), // Box 5: account value at year end
+});
+
+export const hsaContributions = pgTable("hsa_contributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  owner: text("owner").notNull().default("taxpayer"), // HSA_OWNERS
+  contributionDate: text("contribution_date").notNull(), // YYYY-MM-DD; contributions up to the filing deadline count for the year
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  source: text("source").notNull().default("personal"), // "personal" (deductible) or "employer" (not on a W-2 box 12 code W)
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const iraContributions = pgTable("ira_contributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  owner: text("owner").notNull().default("taxpayer"), // HSA_OWNERS: whose IRA received the contribution
+  accountType: text("account_type").notNull().default("traditional"), // IRA_ACCOUNT_TYPES
+  contributionDate: text("contribution_date").notNull(), // YYYY-MM-DD; contributions up to the filing deadline count for the year
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const formSsa1099 = pgTable("form_ssa_1099", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  beneficiaryName: text("beneficiary_name"), // Box 1
+  beneficiarySsn: text("beneficiary_ssn"), // Box 2
+  benefitsPaid: decimal("benefits_paid", { precision: 12, scale: 2 }), // Box 3
+  benefitsRepaid: decimal("benefits_repaid", { precision: 12, scale: 2 }), // Box 4: repaid to SSA during the year
+  netBenefits: decimal("net_benefits", { precision: 12, scale: 2 }), // Box 5: box 3 minus box 4, Form 1040 line 6a
+  federalWithheld: decimal("federal_withheld", { precision: 12, scale: 2 }), // Box 6: voluntary withholding (Form W-4V)
+});
+
+export const form1099G = pgTable("form_1099_g", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  payerName: text("payer_name"),
+  payerTin: text("payer_tin"),
+  unemploymentCompensation: decimal("unemployment_compensation", { precision: 12, scale: 2 }), // Box 1: Schedule 1 line 7
+  stateLocalRefund: decimal("state_local_refund", { precision: 12, scale: 2 }), // Box 2: state or local income tax refunds, credits or offsets
+  refundTaxYear: integer("refund_tax_year"), // Box 3: the year the box 2 refund is for
+  federalWithheld: decimal("federal_withheld", { precision: 12, scale: 2 }), // Box 4
+  taxableGrants: decimal("taxable_grants", { precision: 12, scale: 2 }), // Box 6
+  agriculturePayments: decimal("agriculture_payments", { precision: 12, scale: 2 }), // Box 7
+  tradeOrBusiness: boolean("trade_or_business").default(false), // Box 8: box 2 is attributable to a trade or business
+  stateWithheld: decimal("state_withheld", { precision: 12, scale: 2 }), // Box 11
+});
+
+export const form1095A = pgTable("form_1095_a", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => documents.id),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  marketplaceId: text("marketplace_id"), // Line 1
+  policyNumber: text("policy_number"), // Line 2
+  issuerName: text("issuer_name"), // Line 3
+  recipientName: text("recipient_name"), // Line 4
+  policyStartDate: text("policy_start_date"), // Line 10
+  policyEndDate: text("policy_end_date"), // Line 11
+  monthlyAmounts: jsonb("monthly_amounts"), // Lines 21-32: array of { month, premium, slcsp, advancePayment }
+  annualPremium: decimal("annual_premium", { precision: 12, scale: 2 }), // Line 33A: enrollment premiums
+  annualSlcsp: decimal("annual_slcsp", { precision: 12, scale: 2 }), // Line 33B: second lowest cost silver plan premium
+  annualAdvancePayment: decimal("annual_advance_payment", { precision: 12, scale: 2 }), // Line 33C: advance payment of the premium tax credit
+});
+
 export const form1099B = pgTable("form_1099_b", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   documentId: varchar("document_id").notNull().references(() => documents.id),
@@ -151,16 +329,32 @@ export const form1040 = pgTable("form_1040", {
   interestIncome: decimal("interest_income", { precision: 12, scale: 2 }),
   dividendIncome: decimal("dividend_income", { precision: 12, scale: 2 }),
   qualifiedDividends: decimal("qualified_dividends", { precision: 12, scale: 2 }),
+  iraDistributions: decimal("ira_distributions", { precision: 12, scale: 2 }), // Line 4a
+  taxableIraDistributions: decimal("taxable_ira_distributions", { precision: 12, scale: 2 }), // Line 4b
+  pensionsAnnuities: decimal("pensions_annuities", { precision: 12, scale: 2 }), // Line 5a
+  taxablePensionsAnnuities: decimal("taxable_pensions_annuities", { precision: 12, scale: 2 }), // Line 5b
+  socialSecurityBenefits: decimal("social_security_benefits", { precision: 12, scale: 2 }).default("0"), // Line 6a: SSA-1099 box 5
+  taxableSocialSecurityBenefits: decimal("taxable_social_security_benefits", { precision: 12, scale: 2 }).default("0"), // Line 6b
   capitalGains: decimal("capital_gains", { precision: 12, scale: 2 }),
+  additionalIncome: decimal("additional_income", { precision: 12, scale: 2 }), // Line 8: Schedule 1, line 10
   totalIncome: decimal("total_income", { precision: 12, scale: 2 }),
   adjustments: decimal("adjustments", { precision: 12, scale: 2 }),
   adjustedGrossIncome: decimal("adjusted_gross_income", { precision: 12, scale: 2 }),
   standardDeduction: decimal("standard_deduction", { precision: 12, scale: 2 }),
   taxableIncome: decimal("taxable_income", { precision: 12, scale: 2 }),
   tax: decimal("tax", { precision: 12, scale: 2 }),
-  credits: decimal("credits", { precision: 12, scale: 2 }),
+  deductionType: text("deduction_type").default("standard"), // "standard" or "itemized" (line 12)
+  itemizedDeductions: decimal("itemized_deductions", { precision: 12, scale: 2 }),
+  qbiDeduction: decimal("qbi_deduction", { precision: 12, scale: 2 }).default("0"), // Line 13: Form 8995 or 8995-A
+  alternativeMinimumTax: decimal("alternative_minimum_tax", { precision: 12, scale: 2 }).default("0"), // Line 17: Schedule 2 line 2 (Form 6251)
+  excessAdvancePremiumTaxCredit: decimal("excess_advance_premium_tax_credit", { precision: 12, scale: 2 }).default("0"), // Line 17: Schedule 2 line 1a (Form 8962)
+  creditsBreakdown: jsonb("credits_breakdown"), // Lines 19-21 nonrefundable and 27-32 refundable credits by name
+  w2Benefits: jsonb("w2_benefits"), // W-2 boxes 10, 12 and 13 summary (retirement deferrals, pre-tax benefits)
+  otherTaxes: decimal("other_taxes", { precision: 12, scale: 2 }), // Line 23: Schedule 2 (NIIT, Additional Medicare Tax, etc.)
   totalTax: decimal("total_tax", { precision: 12, scale: 2 }),
   federalWithheld: decimal("federal_withheld", { precision: 12, scale: 2 }),
+  estimatedTaxPayments: decimal("estimated_tax_payments", { precision: 12, scale: 2 }).default("0"), // Line 26: including the prior-year overpayment applied
+  estimatedTaxPenalty: decimal("estimated_tax_penalty", { precision: 12, scale: 2 }).default("0"), // Line 38: Form 2210
   refundOrOwed: decimal("refund_or_owed", { precision: 12, scale: 2 }),
 });
 
@@ -192,6 +386,651 @@ export const scheduleD = pgTable("schedule_d", {
   netShortTermGainLoss: decimal("net_short_term_gain_loss", { precision: 12, scale: 2 }).default("0"),
   netLongTermGainLoss: decimal("net_long_term_gain_loss", { precision: 12, scale: 2 }).default("0"),
   totalCapitalGainLoss: decimal("total_capital_gain_loss", { precision: 12, scale: 2 }).default("0"),
+  shortTermCarryover: decimal("short_term_carryover", { precision: 12, scale: 2 }).default("0"), // Line 6: prior-year short-term loss carryover
+  longTermCarryover: decimal("long_term_carryover", { precision: 12, scale: 2 }).default("0"), // Line 14: prior-year long-term loss carryover
+  allowableCapitalLoss: decimal("allowable_capital_loss", { precision: 12, scale: 2 }).default("0"), // Line 21: loss limited to $3,000 ($1,500 MFS)
+});
+
+export const scheduleA = pgTable("schedule_a", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  // Medical and dental expenses
+  medicalExpenses: decimal("medical_expenses", { precision: 12, scale: 2 }).default("0"), // Line 1
+  // Taxes you paid
+  stateLocalIncomeTax: decimal("state_local_income_tax", { precision: 12, scale: 2 }).default("0"), // Line 5a
+  stateLocalSalesTax: decimal("state_local_sales_tax", { precision: 12, scale: 2 }).default("0"), // Line 5a (alternative)
+  useSalesTax: boolean("use_sales_tax").default(false),
+  realEstateTaxes: decimal("real_estate_taxes", { precision: 12, scale: 2 }).default("0"), // Line 5b
+  personalPropertyTaxes: decimal("personal_property_taxes", { precision: 12, scale: 2 }).default("0"), // Line 5c
+  otherTaxes: decimal("other_taxes", { precision: 12, scale: 2 }).default("0"), // Line 6
+  // Interest you paid
+  mortgageInterest: decimal("mortgage_interest", { precision: 12, scale: 2 }).default("0"), // Line 8a
+  mortgagePoints: decimal("mortgage_points", { precision: 12, scale: 2 }).default("0"), // Line 8c
+  investmentInterest: decimal("investment_interest", { precision: 12, scale: 2 }).default("0"), // Line 9
+  // Gifts to charity
+  charitableCash: decimal("charitable_cash", { precision: 12, scale: 2 }).default("0"), // Line 11
+  charitableNonCash: decimal("charitable_non_cash", { precision: 12, scale: 2 }).default("0"), // Line 12
+  charitableCarryover: decimal("charitable_carryover", { precision: 12, scale: 2 }).default("0"), // Line 13
+  casualtyLosses: decimal("casualty_losses", { precision: 12, scale: 2 }).default("0"), // Line 15
+  otherItemizedDeductions: decimal("other_itemized_deductions", { precision: 12, scale: 2 }).default("0"), // Line 16
+  forceItemize: boolean("force_itemize").default(false), // Line 18: itemize even if less than standard deduction
+  // Calculated amounts
+  medicalDeduction: decimal("medical_deduction", { precision: 12, scale: 2 }).default("0"), // Line 4
+  saltDeduction: decimal("salt_deduction", { precision: 12, scale: 2 }).default("0"), // Line 5e + 6 (line 7)
+  interestDeduction: decimal("interest_deduction", { precision: 12, scale: 2 }).default("0"), // Line 10
+  charitableDeduction: decimal("charitable_deduction", { precision: 12, scale: 2 }).default("0"), // Line 14
+  totalItemizedDeductions: decimal("total_itemized_deductions", { precision: 12, scale: 2 }).default("0"), // Line 17
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const schedule1 = pgTable("schedule_1", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  taxableRefunds: decimal("taxable_refunds", { precision: 12, scale: 2 }).default("0"), // Line 1: state and local income tax refunds (State Refund Worksheet)
+  businessIncome: decimal("business_income", { precision: 12, scale: 2 }).default("0"), // Line 3: Schedule C
+  rentalRoyaltyIncome: decimal("rental_royalty_income", { precision: 12, scale: 2 }).default("0"), // Line 5: Schedule E
+  unemploymentCompensation: decimal("unemployment_compensation", { precision: 12, scale: 2 }).default("0"), // Line 7: 1099-G box 1
+  hsaDistributions: decimal("hsa_distributions", { precision: 12, scale: 2 }).default("0"), // Line 8f: taxable HSA distributions (Form 8889 line 16)
+  otherIncome: decimal("other_income", { precision: 12, scale: 2 }).default("0"), // Line 8z
+  totalAdditionalIncome: decimal("total_additional_income", { precision: 12, scale: 2 }).default("0"), // Line 10
+  hsaDeduction: decimal("hsa_deduction", { precision: 12, scale: 2 }).default("0"), // Line 13: Form 8889 line 13
+  selfEmploymentTaxDeduction: decimal("self_employment_tax_deduction", { precision: 12, scale: 2 }).default("0"), // Line 15: deductible part of SE tax
+  iraDeduction: decimal("ira_deduction", { precision: 12, scale: 2 }).default("0"), // Line 20: IRA deduction worksheet
+  studentLoanInterestDeduction: decimal("student_loan_interest_deduction", { precision: 12, scale: 2 }).default("0"), // Line 21: from Form 1098-E after the phase-out
+  totalAdjustments: decimal("total_adjustments", { precision: 12, scale: 2 }).default("0"), // Line 26: flows to Form 1040 line 10
+});
+
+export const earnedIncomeCredits = pgTable("earned_income_credit", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  qualifyingChildren: integer("qualifying_children").default(0), // Counted up to 3
+  earnedIncome: decimal("earned_income", { precision: 12, scale: 2 }).default("0"),
+  adjustedGrossIncome: decimal("adjusted_gross_income", { precision: 12, scale: 2 }).default("0"),
+  investmentIncome: decimal("investment_income", { precision: 12, scale: 2 }).default("0"),
+  investmentIncomeLimit: decimal("investment_income_limit", { precision: 12, scale: 2 }).default("0"),
+  creditFromEarnedIncome: decimal("credit_from_earned_income", { precision: 12, scale: 2 }).default("0"),
+  creditFromAgi: decimal("credit_from_agi", { precision: 12, scale: 2 }), // Only when AGI is in the phase-out range
+  isEligible: boolean("is_eligible").default(false),
+  ineligibleReason: text("ineligible_reason"),
+  earnedIncomeCredit: decimal("earned_income_credit", { precision: 12, scale: 2 }).default("0"), // Form 1040 line 27
+});
+
+export const schedule8812 = pgTable("schedule_8812", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  qualifyingChildren: integer("qualifying_children").default(0), // Line 4: under 17 at year end
+  otherDependents: integer("other_dependents").default(0), // Line 6
+  modifiedAgi: decimal("modified_agi", { precision: 12, scale: 2 }).default("0"), // Line 3
+  initialCredit: decimal("initial_credit", { precision: 12, scale: 2 }).default("0"), // Line 8
+  phaseoutThreshold: decimal("phaseout_threshold", { precision: 12, scale: 2 }).default("0"), // Line 9
+  phaseoutReduction: decimal("phaseout_reduction", { precision: 12, scale: 2 }).default("0"), // Line 11
+  creditAfterPhaseout: decimal("credit_after_phaseout", { precision: 12, scale: 2 }).default("0"), // Line 12
+  creditLimit: decimal("credit_limit", { precision: 12, scale: 2 }).default("0"), // Line 13: Credit Limit Worksheet A
+  nonrefundableCredit: decimal("nonrefundable_credit", { precision: 12, scale: 2 }).default("0"), // Line 14: Form 1040 line 19
+  earnedIncome: decimal("earned_income", { precision: 12, scale: 2 }).default("0"), // Line 18a
+  additionalChildTaxCredit: decimal("additional_child_tax_credit", { precision: 12, scale: 2 }).default("0"), // Line 27: Form 1040 line 28
+  lines: jsonb("lines"), // Array of {line, description, amount}
+});
+
+export const form6251 = pgTable("form_6251", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  // Adjustments entered by the taxpayer
+  isoBargainElement: decimal("iso_bargain_element", { precision: 12, scale: 2 }).default("0"), // Line 2i: incentive stock options exercised and held
+  privateActivityBondInterest: decimal("private_activity_bond_interest", { precision: 12, scale: 2 }).default("0"), // Line 2g: 1099-INT box 9
+  // Calculated amounts
+  taxableIncome: decimal("taxable_income", { precision: 12, scale: 2 }).default("0"), // Line 1
+  taxesAddBack: decimal("taxes_add_back", { precision: 12, scale: 2 }).default("0"), // Line 2a: Schedule A taxes or the standard deduction
+  alternativeMinimumTaxableIncome: decimal("alternative_minimum_taxable_income", { precision: 12, scale: 2 }).default("0"), // Line 4
+  exemption: decimal("exemption", { precision: 12, scale: 2 }).default("0"), // Line 5: after the phase-out
+  amtBase: decimal("amt_base", { precision: 12, scale: 2 }).default("0"), // Line 6
+  amtForeignTaxCredit: decimal("amt_foreign_tax_credit", { precision: 12, scale: 2 }).default("0"), // Line 8
+  tentativeMinimumTax: decimal("tentative_minimum_tax", { precision: 12, scale: 2 }).default("0"), // Line 9
+  regularTax: decimal("regular_tax", { precision: 12, scale: 2 }).default("0"), // Line 10: less Schedule 3 line 1
+  alternativeMinimumTax: decimal("alternative_minimum_tax", { precision: 12, scale: 2 }).default("0"), // Line 11: Schedule 2 line 2
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const form8863 = pgTable("form_8863", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  modifiedAgi: decimal("modified_agi", { precision: 12, scale: 2 }).default("0"), // Lines 3 and 14
+  tentativeAmericanOpportunityCredit: decimal("tentative_american_opportunity_credit", { precision: 12, scale: 2 }).default("0"), // Line 1: Part III line 30 totals
+  americanOpportunityCredit: decimal("american_opportunity_credit", { precision: 12, scale: 2 }).default("0"), // Line 7: after the phase-out
+  refundableAmericanOpportunityCredit: decimal("refundable_american_opportunity_credit", { precision: 12, scale: 2 }).default("0"), // Line 8: Form 1040 line 29
+  nonrefundableAmericanOpportunityCredit: decimal("nonrefundable_american_opportunity_credit", { precision: 12, scale: 2 }).default("0"), // Line 9
+  lifetimeLearningExpenses: decimal("lifetime_learning_expenses", { precision: 12, scale: 2 }).default("0"), // Line 11: capped at $10,000
+  lifetimeLearningCredit: decimal("lifetime_learning_credit", { precision: 12, scale: 2 }).default("0"), // Line 18: after the phase-out
+  nonrefundableEducationCredits: decimal("nonrefundable_education_credits", { precision: 12, scale: 2 }).default("0"), // Line 19: Schedule 3 line 3
+  students: jsonb("students"), // Part III: array of {studentName, qualifiedExpenses, credit, ...}
+  lines: jsonb("lines"), // Array of {line, description, amount}
+});
+
+// Child and dependent care providers (Form 2441 Part I)
+export const careProviders = pgTable("care_providers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  name: text("name").notNull(), // Column (a)
+  tin: text("tin"), // Column (c): SSN or EIN
+  address: text("address"), // Column (b)
+  householdEmployee: boolean("household_employee").default(false), // Column (d)
+  payments: jsonb("payments"), // Array of {dependentName, amount}: column (e) by qualifying person
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const form2441 = pgTable("form_2441", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  // Entered by the taxpayer on a joint return
+  spouseEarnedIncome: decimal("spouse_earned_income", { precision: 12, scale: 2 }), // Blank to use the spouse's W-2s and Schedule C
+  spouseStudentOrDisabled: boolean("spouse_student_or_disabled").default(false), // Deemed earned income of $250 or $500 a month
+  // Part II - credit
+  qualifyingPersons: integer("qualifying_persons").default(0), // Line 2
+  qualifiedExpenses: decimal("qualified_expenses", { precision: 12, scale: 2 }).default("0"), // Line 2 column (c)
+  expenseLimit: decimal("expense_limit", { precision: 12, scale: 2 }).default("0"), // Line 3: after excluded benefits
+  earnedIncome: decimal("earned_income", { precision: 12, scale: 2 }).default("0"), // Line 4
+  spouseEarnedIncomeUsed: decimal("spouse_earned_income_used", { precision: 12, scale: 2 }).default("0"), // Line 5
+  creditRate: decimal("credit_rate", { precision: 5, scale: 4 }).default("0"), // Line 8
+  tentativeCredit: decimal("tentative_credit", { precision: 12, scale: 2 }).default("0"), // Line 9
+  creditLimit: decimal("credit_limit", { precision: 12, scale: 2 }).default("0"), // Line 10
+  dependentCareCredit: decimal("dependent_care_credit", { precision: 12, scale: 2 }).default("0"), // Line 11: Schedule 3 line 2
+  // Part III - dependent care benefits
+  dependentCareBenefits: decimal("dependent_care_benefits", { precision: 12, scale: 2 }).default("0"), // Line 12: W-2 box 10
+  excludedBenefits: decimal("excluded_benefits", { precision: 12, scale: 2 }).default("0"), // Line 25
+  taxableBenefits: decimal("taxable_benefits", { precision: 12, scale: 2 }).default("0"), // Line 26: Form 1040 line 1e
+  persons: jsonb("persons"), // Array of {name, age, expenses, qualifies}
+  warnings: jsonb("warnings"), // Array of strings
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const form8889 = pgTable("form_8889", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  owner: text("owner").notNull().default("taxpayer"), // HSA_OWNERS: one Form 8889 per spouse with an HSA
+  // Entered by the taxpayer
+  coverageType: text("coverage_type").notNull().default("self_only"), // Line 1: HSA_COVERAGE_TYPES
+  monthsCovered: integer("months_covered").default(12), // Months with HDHP coverage on the first day of the month
+  qualifiedMedicalExpenses: decimal("qualified_medical_expenses", { precision: 12, scale: 2 }), // Line 15: null until entered
+  // Part I - HSA contributions and deduction
+  personalContributions: decimal("personal_contributions", { precision: 12, scale: 2 }).default("0"), // Line 2
+  contributionLimit: decimal("contribution_limit", { precision: 12, scale: 2 }).default("0"), // Line 6: after proration and the spouse split
+  catchUpContribution: decimal("catch_up_contribution", { precision: 12, scale: 2 }).default("0"), // Line 7
+  employerContributions: decimal("employer_contributions", { precision: 12, scale: 2 }).default("0"), // Line 9: W-2 box 12 code W
+  hsaDeduction: decimal("hsa_deduction", { precision: 12, scale: 2 }).default("0"), // Line 13: Schedule 1 line 13
+  excessContributions: decimal("excess_contributions", { precision: 12, scale: 2 }).default("0"), // Form 5329 line 47
+  excessContributionTax: decimal("excess_contribution_tax", { precision: 12, scale: 2 }).default("0"), // Form 5329 line 49: Schedule 2 line 8
+  // Part II - HSA distributions
+  totalDistributions: decimal("total_distributions", { precision: 12, scale: 2 }).default("0"), // Line 14a
+  excessWithdrawn: decimal("excess_withdrawn", { precision: 12, scale: 2 }).default("0"), // Line 14b: code 2 distributions
+  taxableDistributions: decimal("taxable_distributions", { precision: 12, scale: 2 }).default("0"), // Line 16: Schedule 1 line 8f
+  additionalTax: decimal("additional_tax", { precision: 12, scale: 2 }).default("0"), // Line 17b: Schedule 2 line 17c
+  warnings: jsonb("warnings"), // Array of strings
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const form8606 = pgTable("form_8606", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  owner: text("owner").notNull().default("taxpayer"), // HSA_OWNERS: one Form 8606 per spouse with an IRA
+  // Entered by the taxpayer
+  coveredByWorkplacePlan: boolean("covered_by_workplace_plan"), // Null to use W-2 box 13 (taxpayer only)
+  fullTimeStudent: boolean("full_time_student").default(false), // Full-time students can't take the Saver's Credit
+  priorYearBasis: decimal("prior_year_basis", { precision: 12, scale: 2 }), // Line 2 when last year's Form 8606 isn't on file
+  yearEndValue: decimal("year_end_value", { precision: 12, scale: 2 }).default("0"), // Line 6: traditional, SEP and SIMPLE IRAs on December 31
+  distributions: decimal("distributions", { precision: 12, scale: 2 }).default("0"), // Line 7: not rolled over or converted
+  rothConversions: decimal("roth_conversions", { precision: 12, scale: 2 }).default("0"), // Line 8
+  // IRA deduction worksheet and Roth contribution limit
+  traditionalContributions: decimal("traditional_contributions", { precision: 12, scale: 2 }).default("0"),
+  rothContributions: decimal("roth_contributions", { precision: 12, scale: 2 }).default("0"),
+  contributionLimit: decimal("contribution_limit", { precision: 12, scale: 2 }).default("0"), // Annual limit plus catch-up, capped at compensation
+  deductionLimit: decimal("deduction_limit", { precision: 12, scale: 2 }).default("0"), // After the workplace plan phase-out
+  iraDeduction: decimal("ira_deduction", { precision: 12, scale: 2 }).default("0"), // Schedule 1 line 20
+  rothLimit: decimal("roth_limit", { precision: 12, scale: 2 }).default("0"), // After the Roth phase-out and traditional contributions
+  excessContributions: decimal("excess_contributions", { precision: 12, scale: 2 }).default("0"), // Over the limit: withdraw by the due date
+  // Part I - nondeductible contributions to traditional IRAs
+  nondeductibleContributions: decimal("nondeductible_contributions", { precision: 12, scale: 2 }).default("0"), // Line 1
+  totalBasis: decimal("total_basis", { precision: 12, scale: 2 }).default("0"), // Line 3
+  nontaxableDistributions: decimal("nontaxable_distributions", { precision: 12, scale: 2 }).default("0"), // Line 13
+  basisCarryforward: decimal("basis_carryforward", { precision: 12, scale: 2 }).default("0"), // Line 14: next year's line 2
+  taxableDistributions: decimal("taxable_distributions", { precision: 12, scale: 2 }).default("0"), // Line 15c
+  taxableConversions: decimal("taxable_conversions", { precision: 12, scale: 2 }).default("0"), // Line 18
+  warnings: jsonb("warnings"), // Array of strings: Roth eligibility and excess contributions
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const form8880 = pgTable("form_8880", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  taxpayerContributions: decimal("taxpayer_contributions", { precision: 12, scale: 2 }).default("0"), // Line 3, column (a): IRA contributions and W-2 deferrals
+  spouseContributions: decimal("spouse_contributions", { precision: 12, scale: 2 }).default("0"), // Line 3, column (b)
+  taxpayerDistributions: decimal("taxpayer_distributions", { precision: 12, scale: 2 }).default("0"), // Line 4, column (a)
+  spouseDistributions: decimal("spouse_distributions", { precision: 12, scale: 2 }).default("0"), // Line 4, column (b)
+  eligibleContributions: decimal("eligible_contributions", { precision: 12, scale: 2 }).default("0"), // Line 7
+  adjustedGrossIncome: decimal("adjusted_gross_income", { precision: 12, scale: 2 }).default("0"), // Line 8
+  creditRate: decimal("credit_rate", { precision: 5, scale: 4 }).default("0"), // Line 9
+  tentativeCredit: decimal("tentative_credit", { precision: 12, scale: 2 }).default("0"), // Line 10
+  creditLimit: decimal("credit_limit", { precision: 12, scale: 2 }).default("0"), // Line 11
+  retirementSavingsCredit: decimal("retirement_savings_credit", { precision: 12, scale: 2 }).default("0"), // Line 12: Schedule 3 line 4
+  lines: jsonb("lines"), // Array of {line, description, amount}
+});
+
+// Residential energy property and home improvements (Form 5695), one row per item
+export const energyImprovements = pgTable("energy_improvements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  category: text("category").notNull(), // ENERGY_PROPERTY_CATEGORIES
+  description: text("description"),
+  cost: decimal("cost", { precision: 12, scale: 2 }).notNull(), // Including labor for Part I property and installation for Part II energy property
+  capacity: decimal("capacity", { precision: 8, scale: 2 }), // Kilowatts for fuel cells, kilowatt hours for battery storage
+  placedInServiceDate: text("placed_in_service_date"), // YYYY-MM-DD
+  isMainHome: boolean("is_main_home").default(true), // Part II items and fuel cells only qualify for the main home
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const form5695 = pgTable("form_5695", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  // Part I - residential clean energy credit
+  cleanEnergyCosts: decimal("clean_energy_costs", { precision: 12, scale: 2 }).default("0"), // Line 6a
+  cleanEnergyCredit: decimal("clean_energy_credit", { precision: 12, scale: 2 }).default("0"), // Line 6b
+  fuelCellCosts: decimal("fuel_cell_costs", { precision: 12, scale: 2 }).default("0"), // Line 8
+  fuelCellCredit: decimal("fuel_cell_credit", { precision: 12, scale: 2 }).default("0"), // Line 11
+  carryforwardFromPriorYear: decimal("carryforward_from_prior_year", { precision: 12, scale: 2 }).default("0"), // Line 12
+  totalCleanEnergyCredit: decimal("total_clean_energy_credit", { precision: 12, scale: 2 }).default("0"), // Line 13
+  cleanEnergyCreditLimit: decimal("clean_energy_credit_limit", { precision: 12, scale: 2 }).default("0"), // Line 14
+  residentialCleanEnergyCredit: decimal("residential_clean_energy_credit", { precision: 12, scale: 2 }).default("0"), // Line 15: Schedule 3 line 5a
+  carryforwardToNextYear: decimal("carryforward_to_next_year", { precision: 12, scale: 2 }).default("0"), // Line 16
+  // Part II - energy efficient home improvement credit
+  efficiencyImprovementCredit: decimal("efficiency_improvement_credit", { precision: 12, scale: 2 }).default("0"), // Doors, windows, insulation, energy property and audits after the annual limit
+  heatPumpCredit: decimal("heat_pump_credit", { precision: 12, scale: 2 }).default("0"), // Heat pumps and biomass after their own annual limit
+  homeImprovementCreditLimit: decimal("home_improvement_credit_limit", { precision: 12, scale: 2 }).default("0"), // Line 31
+  homeImprovementCredit: decimal("home_improvement_credit", { precision: 12, scale: 2 }).default("0"), // Line 32: Schedule 3 line 5b
+  warnings: jsonb("warnings"), // Array of strings: items left out and caps applied
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Qualified business income sources for the Section 199A deduction, one row per trade or
+// business (Schedule C, K-1) or publicly traded partnership
+export const qbiBusinesses = pgTable("qbi_businesses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  sourceType: text("source_type").notNull(), // QBI_SOURCE_TYPES
+  name: text("name").notNull(),
+  ein: text("ein"),
+  qualifiedBusinessIncome: decimal("qualified_business_income", { precision: 12, scale: 2 }), // K-1 Section 199A statement; empty for Schedule C to use its net profit
+  w2Wages: decimal("w2_wages", { precision: 12, scale: 2 }).default("0"), // Form 8995-A line 4
+  ubia: decimal("ubia", { precision: 12, scale: 2 }).default("0"), // Unadjusted basis immediately after acquisition of qualified property (line 7)
+  isSpecifiedService: boolean("is_specified_service").default(false), // Specified service trade or business (SSTB)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const form8995 = pgTable("form_8995", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  formType: text("form_type").notNull().default("8995"), // "8995" at or below the threshold, "8995-A" above it
+  taxableIncomeBeforeQbi: decimal("taxable_income_before_qbi", { precision: 12, scale: 2 }).default("0"), // 8995 line 11 / 8995-A line 33
+  threshold: decimal("threshold", { precision: 12, scale: 2 }).default("0"),
+  totalQbi: decimal("total_qbi", { precision: 12, scale: 2 }).default("0"), // 8995 line 2
+  qbiLossCarryforwardFromPriorYear: decimal("qbi_loss_carryforward_from_prior_year", { precision: 12, scale: 2 }).default("0"), // 8995 line 3 (as a positive amount)
+  qbiComponent: decimal("qbi_component", { precision: 12, scale: 2 }).default("0"), // 8995 line 5 / 8995-A line 27
+  reitPtpIncome: decimal("reit_ptp_income", { precision: 12, scale: 2 }).default("0"), // 8995 line 6: 1099-DIV box 5 and PTP income
+  reitPtpLossCarryforwardFromPriorYear: decimal("reit_ptp_loss_carryforward_from_prior_year", { precision: 12, scale: 2 }).default("0"), // 8995 line 7 (as a positive amount)
+  reitPtpComponent: decimal("reit_ptp_component", { precision: 12, scale: 2 }).default("0"), // 8995 line 9 / 8995-A line 31
+  deductionBeforeIncomeLimit: decimal("deduction_before_income_limit", { precision: 12, scale: 2 }).default("0"), // 8995 line 10 / 8995-A line 32
+  netCapitalGain: decimal("net_capital_gain", { precision: 12, scale: 2 }).default("0"), // 8995 line 12: qualified dividends plus net capital gain
+  incomeLimitation: decimal("income_limitation", { precision: 12, scale: 2 }).default("0"), // 8995 line 14 / 8995-A line 36
+  qbiDeduction: decimal("qbi_deduction", { precision: 12, scale: 2 }).default("0"), // 8995 line 15 / 8995-A line 39: Form 1040 line 13
+  qbiLossCarryforward: decimal("qbi_loss_carryforward", { precision: 12, scale: 2 }).default("0"), // 8995 line 16 (as a positive amount)
+  reitPtpLossCarryforward: decimal("reit_ptp_loss_carryforward", { precision: 12, scale: 2 }).default("0"), // 8995 line 17 (as a positive amount)
+  businesses: jsonb("businesses"), // Per-business 8995-A Part II columns
+  warnings: jsonb("warnings"), // Array of strings
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Tax on a child's unearned income at the parent's rate (Form 8615). The parent is either a
+// linked return on the platform or entered by hand.
+export const form8615 = pgTable("form_8615", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  // Parent information: a linked return takes precedence over the manual fields
+  parentTaxReturnId: varchar("parent_tax_return_id").references(() => taxReturns.id),
+  parentName: text("parent_name"), // Line B
+  parentTaxableIncome: decimal("parent_taxable_income", { precision: 12, scale: 2 }), // Line 6 when no return is linked
+  parentFilingStatus: text("parent_filing_status"), // Line C when no return is linked
+  otherChildrenNetUnearnedIncome: decimal("other_children_net_unearned_income", { precision: 12, scale: 2 }).default("0"), // Line 7
+  directlyConnectedDeductions: decimal("directly_connected_deductions", { precision: 12, scale: 2 }).default("0"), // Line 2 when the child itemizes
+  isFullTimeStudent: boolean("is_full_time_student").default(false), // Ages 19-23
+  earnedIncomeExceedsHalfSupport: boolean("earned_income_exceeds_half_support").default(false), // Ages 18-23
+  // Calculated amounts
+  isRequired: boolean("is_required").default(false),
+  notRequiredReason: text("not_required_reason"),
+  unearnedIncome: decimal("unearned_income", { precision: 12, scale: 2 }).default("0"), // Line 1
+  unearnedIncomeThreshold: decimal("unearned_income_threshold", { precision: 12, scale: 2 }).default("0"), // Line 2
+  netUnearnedIncome: decimal("net_unearned_income", { precision: 12, scale: 2 }).default("0"), // Line 5
+  parentTaxableIncomeUsed: decimal("parent_taxable_income_used", { precision: 12, scale: 2 }).default("0"), // Line 6
+  parentFilingStatusUsed: text("parent_filing_status_used"),
+  parentTaxWithChildIncome: decimal("parent_tax_with_child_income", { precision: 12, scale: 2 }).default("0"), // Line 9
+  parentTax: decimal("parent_tax", { precision: 12, scale: 2 }).default("0"), // Line 10
+  tentativeTax: decimal("tentative_tax", { precision: 12, scale: 2 }).default("0"), // Line 13: child's share of line 11
+  childTaxOnRemainingIncome: decimal("child_tax_on_remaining_income", { precision: 12, scale: 2 }).default("0"), // Line 15
+  taxWithoutForm8615: decimal("tax_without_form_8615", { precision: 12, scale: 2 }).default("0"), // Line 17
+  tax: decimal("tax", { precision: 12, scale: 2 }).default("0"), // Line 18: Form 1040 line 16
+  warnings: jsonb("warnings"), // Array of strings
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const form1116 = pgTable("form_1116", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  // Entered by the taxpayer: the foreign-source part of 1099-DIV dividends from the fund's
+  // year-end statement. When empty, dividends from payers that withheld foreign tax are used.
+  foreignSourceIncome: decimal("foreign_source_income", { precision: 12, scale: 2 }),
+  // Calculated amounts (passive category income)
+  method: text("method").notNull().default("none"), // FOREIGN_TAX_CREDIT_METHODS
+  foreignTaxPaid: decimal("foreign_tax_paid", { precision: 12, scale: 2 }).default("0"), // Line 8: 1099-DIV box 7
+  grossForeignIncome: decimal("gross_foreign_income", { precision: 12, scale: 2 }).default("0"), // Line 1a
+  apportionedDeductions: decimal("apportioned_deductions", { precision: 12, scale: 2 }).default("0"), // Line 6
+  netForeignIncome: decimal("net_foreign_income", { precision: 12, scale: 2 }).default("0"), // Line 7
+  carryoverFromPriorYears: decimal("carryover_from_prior_years", { precision: 12, scale: 2 }).default("0"), // Line 10
+  taxableIncome: decimal("taxable_income", { precision: 12, scale: 2 }).default("0"), // Line 18
+  taxBeforeCredits: decimal("tax_before_credits", { precision: 12, scale: 2 }).default("0"), // Line 20
+  creditLimitation: decimal("credit_limitation", { precision: 12, scale: 2 }).default("0"), // Line 21
+  foreignTaxCredit: decimal("foreign_tax_credit", { precision: 12, scale: 2 }).default("0"), // Line 35: Schedule 3 line 1
+  carryoverToNextYear: decimal("carryover_to_next_year", { precision: 12, scale: 2 }).default("0"),
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const estimatedTaxPayments = pgTable("estimated_tax_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  paymentDate: text("payment_date").notNull(), // YYYY-MM-DD
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  jurisdiction: text("jurisdiction").notNull().default("federal"), // ESTIMATED_PAYMENT_JURISDICTIONS
+  state: text("state"), // Two-letter code for state payments
+  appliedFromPriorYear: boolean("applied_from_prior_year").default(false), // Prior-year overpayment, treated as paid on the first due date
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const form2210 = pgTable("form_2210", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  // Entered by the taxpayer when the prior-year return was not prepared here
+  priorYearTax: decimal("prior_year_tax", { precision: 12, scale: 2 }),
+  priorYearAgi: decimal("prior_year_agi", { precision: 12, scale: 2 }),
+  // Part I - required annual payment
+  currentYearTax: decimal("current_year_tax", { precision: 12, scale: 2 }).default("0"), // Line 4
+  currentYearSafeHarbor: decimal("current_year_safe_harbor", { precision: 12, scale: 2 }).default("0"), // Line 5: 90% of line 4
+  withholding: decimal("withholding", { precision: 12, scale: 2 }).default("0"), // Line 6
+  priorYearSafeHarbor: decimal("prior_year_safe_harbor", { precision: 12, scale: 2 }), // Line 8: 100% or 110% of the prior-year tax
+  requiredAnnualPayment: decimal("required_annual_payment", { precision: 12, scale: 2 }).default("0"), // Line 9
+  // Part III/IV - penalty
+  estimatedPayments: decimal("estimated_payments", { precision: 12, scale: 2 }).default("0"), // Line 11b
+  underpayment: decimal("underpayment", { precision: 12, scale: 2 }).default("0"), // Line 13
+  penalty: decimal("penalty", { precision: 12, scale: 2 }).default("0"), // Line 17 or 19: Form 1040 line 38
+  method: text("method").notNull().default("none"), // "none", "short" or "regular"
+  exceptionReason: text("exception_reason"), // Why no penalty applies
+  installments: jsonb("installments"), // Array of {dueDate, required, paid, underpayment, penalty}
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Next year's 1040-ES plan, projected from this return
+export const form1040Es = pgTable("form_1040_es", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  planYear: integer("plan_year").notNull(),
+  // Entered by the taxpayer; blank uses this return's amounts
+  expectedAgi: decimal("expected_agi", { precision: 12, scale: 2 }),
+  expectedWithholding: decimal("expected_withholding", { precision: 12, scale: 2 }),
+  overpaymentApplied: decimal("overpayment_applied", { precision: 12, scale: 2 }).default("0"), // Refund applied to next year's estimated tax
+  // Estimated Tax Worksheet
+  projectedAgi: decimal("projected_agi", { precision: 12, scale: 2 }).default("0"), // Line 1
+  deduction: decimal("deduction", { precision: 12, scale: 2 }).default("0"), // Line 2a
+  taxableIncome: decimal("taxable_income", { precision: 12, scale: 2 }).default("0"), // Line 3
+  tax: decimal("tax", { precision: 12, scale: 2 }).default("0"), // Line 6
+  credits: decimal("credits", { precision: 12, scale: 2 }).default("0"), // Line 7
+  otherTaxes: decimal("other_taxes", { precision: 12, scale: 2 }).default("0"), // Lines 9-10
+  estimatedTax: decimal("estimated_tax", { precision: 12, scale: 2 }).default("0"), // Line 11c
+  currentYearSafeHarbor: decimal("current_year_safe_harbor", { precision: 12, scale: 2 }).default("0"), // Line 12a: 90% of line 11c
+  priorYearSafeHarbor: decimal("prior_year_safe_harbor", { precision: 12, scale: 2 }).default("0"), // Line 12b: 100% or 110% of this return's tax
+  requiredAnnualPayment: decimal("required_annual_payment", { precision: 12, scale: 2 }).default("0"), // Line 12c
+  withholding: decimal("withholding", { precision: 12, scale: 2 }).default("0"), // Line 13
+  annualPaymentDue: decimal("annual_payment_due", { precision: 12, scale: 2 }).default("0"), // Line 14a
+  quarterlyPayment: decimal("quarterly_payment", { precision: 12, scale: 2 }).default("0"), // Line 15
+  paymentsRequired: boolean("payments_required").default(false), // False when line 14b is under $1,000
+  vouchers: jsonb("vouchers"), // Array of {voucher, dueDate, amount}
+  lines: jsonb("lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const scheduleC = pgTable("schedule_c", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  businessName: text("business_name"),
+  owner: text("owner").notNull().default("taxpayer"), // TAXPAYER_OWNERS: the proprietor (line A)
+  principalBusinessCode: text("principal_business_code"), // Line B
+  // Part I: Income
+  grossReceipts: decimal("gross_receipts", { precision: 12, scale: 2 }).default("0"), // Line 1 (excluding 1099-NEC)
+  includeForm1099Income: boolean("include_form_1099_income").default(true), // Add 1099-NEC/MISC box 1 receipts to line 1
+  returnsAllowances: decimal("returns_allowances", { precision: 12, scale: 2 }).default("0"), // Line 2
+  costOfGoodsSold: decimal("cost_of_goods_sold", { precision: 12, scale: 2 }).default("0"), // Line 4
+  otherBusinessIncome: decimal("other_business_income", { precision: 12, scale: 2 }).default("0"), // Line 6
+  // Part II: Expenses
+  advertising: decimal("advertising", { precision: 12, scale: 2 }).default("0"), // Line 8
+  businessMiles: integer("business_miles").default(0), // Line 44a: car expenses use the standard mileage rate
+  contractLabor: decimal("contract_labor", { precision: 12, scale: 2 }).default("0"), // Line 11
+  insurance: decimal("insurance", { precision: 12, scale: 2 }).default("0"), // Line 15
+  legalProfessional: decimal("legal_professional", { precision: 12, scale: 2 }).default("0"), // Line 17
+  officeExpense: decimal("office_expense", { precision: 12, scale: 2 }).default("0"), // Line 18
+  rentLease: decimal("rent_lease", { precision: 12, scale: 2 }).default("0"), // Line 20b
+  supplies: decimal("supplies", { precision: 12, scale: 2 }).default("0"), // Line 22
+  taxesLicenses: decimal("taxes_licenses", { precision: 12, scale: 2 }).default("0"), // Line 23
+  travel: decimal("travel", { precision: 12, scale: 2 }).default("0"), // Line 24a
+  meals: decimal("meals", { precision: 12, scale: 2 }).default("0"), // Line 24b before the 50% limit
+  utilities: decimal("utilities", { precision: 12, scale: 2 }).default("0"), // Line 25
+  otherExpenses: decimal("other_expenses", { precision: 12, scale: 2 }).default("0"), // Line 27a
+  // Home office (simplified method)
+  homeOfficeSquareFeet: integer("home_office_square_feet").default(0),
+  // Calculated amounts
+  form1099Receipts: decimal("form_1099_receipts", { precision: 12, scale: 2 }).default("0"), // 1099-NEC/MISC receipts included on line 1
+  grossIncome: decimal("gross_income", { precision: 12, scale: 2 }).default("0"), // Line 7
+  carTruckExpenses: decimal("car_truck_expenses", { precision: 12, scale: 2 }).default("0"), // Line 9
+  deductibleMeals: decimal("deductible_meals", { precision: 12, scale: 2 }).default("0"), // Line 24b
+  totalExpenses: decimal("total_expenses", { precision: 12, scale: 2 }).default("0"), // Line 28
+  homeOfficeDeduction: decimal("home_office_deduction", { precision: 12, scale: 2 }).default("0"), // Line 30
+  netProfit: decimal("net_profit", { precision: 12, scale: 2 }).default("0"), // Line 31
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const scheduleSE = pgTable("schedule_se", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  netProfit: decimal("net_profit", { precision: 12, scale: 2 }).default("0"), // Line 2
+  netEarnings: decimal("net_earnings", { precision: 12, scale: 2 }).default("0"), // Line 4a/6
+  socialSecurityWageBase: decimal("social_security_wage_base", { precision: 12, scale: 2 }).default("0"), // Line 7
+  socialSecurityWages: decimal("social_security_wages", { precision: 12, scale: 2 }).default("0"), // Line 8a: W-2 box 3 and 7
+  remainingWageBase: decimal("remaining_wage_base", { precision: 12, scale: 2 }).default("0"), // Line 9
+  socialSecurityTax: decimal("social_security_tax", { precision: 12, scale: 2 }).default("0"), // Line 10
+  medicareTax: decimal("medicare_tax", { precision: 12, scale: 2 }).default("0"), // Line 11
+  selfEmploymentTax: decimal("self_employment_tax", { precision: 12, scale: 2 }).default("0"), // Line 12
+  deductibleHalf: decimal("deductible_half", { precision: 12, scale: 2 }).default("0"), // Line 13
+  warnings: jsonb("warnings"), // Array of strings
+});
+
+export const form8959 = pgTable("form_8959", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  medicareWages: decimal("medicare_wages", { precision: 12, scale: 2 }).default("0"), // Line 1/4
+  threshold: decimal("threshold", { precision: 12, scale: 2 }).default("0"), // Line 5
+  excessWages: decimal("excess_wages", { precision: 12, scale: 2 }).default("0"), // Line 6
+  wageAdditionalMedicareTax: decimal("wage_additional_medicare_tax", { precision: 12, scale: 2 }).default("0"), // Line 7
+  selfEmploymentIncome: decimal("self_employment_income", { precision: 12, scale: 2 }).default("0"), // Line 8
+  selfEmploymentThreshold: decimal("self_employment_threshold", { precision: 12, scale: 2 }).default("0"), // Line 11
+  excessSelfEmploymentIncome: decimal("excess_self_employment_income", { precision: 12, scale: 2 }).default("0"), // Line 12
+  selfEmploymentAdditionalMedicareTax: decimal("self_employment_additional_medicare_tax", { precision: 12, scale: 2 }).default("0"), // Line 13
+  additionalMedicareTax: decimal("additional_medicare_tax", { precision: 12, scale: 2 }).default("0"), // Line 18
+  medicareWithheld: decimal("medicare_withheld", { precision: 12, scale: 2 }).default("0"), // Line 19
+  regularMedicareWithholding: decimal("regular_medicare_withholding", { precision: 12, scale: 2 }).default("0"), // Line 21
+  additionalMedicareWithholding: decimal("additional_medicare_withholding", { precision: 12, scale: 2 }).default("0"), // Line 24
+});
+
+export const form5329 = pgTable("form_5329", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  earlyDistributions: decimal("early_distributions", { precision: 12, scale: 2 }).default("0"), // Line 1
+  exceptionAmount: decimal("exception_amount", { precision: 12, scale: 2 }).default("0"), // Line 2
+  amountSubjectToTax: decimal("amount_subject_to_tax", { precision: 12, scale: 2 }).default("0"), // Line 3
+  additionalTax: decimal("additional_tax", { precision: 12, scale: 2 }).default("0"), // Line 4
+});
+
+export const form8960 = pgTable("form_8960", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  taxableInterest: decimal("taxable_interest", { precision: 12, scale: 2 }).default("0"), // Line 1
+  ordinaryDividends: decimal("ordinary_dividends", { precision: 12, scale: 2 }).default("0"), // Line 2
+  netGain: decimal("net_gain", { precision: 12, scale: 2 }).default("0"), // Line 5d
+  otherInvestmentIncome: decimal("other_investment_income", { precision: 12, scale: 2 }).default("0"), // Lines 3, 4c, 6, 7
+  totalInvestmentIncome: decimal("total_investment_income", { precision: 12, scale: 2 }).default("0"), // Line 8
+  investmentExpenses: decimal("investment_expenses", { precision: 12, scale: 2 }).default("0"), // Line 11
+  netInvestmentIncome: decimal("net_investment_income", { precision: 12, scale: 2 }).default("0"), // Line 12
+  modifiedAgi: decimal("modified_agi", { precision: 12, scale: 2 }).default("0"), // Line 13
+  threshold: decimal("threshold", { precision: 12, scale: 2 }).default("0"), // Line 14
+  excessMagi: decimal("excess_magi", { precision: 12, scale: 2 }).default("0"), // Line 15
+  netInvestmentIncomeTax: decimal("net_investment_income_tax", { precision: 12, scale: 2 }).default("0"), // Line 17
+});
+
+export const capitalLossCarryovers = pgTable("capital_loss_carryovers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  taxYear: integer("tax_year").notNull(), // Year the loss was incurred; carries into taxYear + 1
+  taxableIncome: decimal("taxable_income", { precision: 12, scale: 2 }).default("0"), // Before flooring at zero
+  netShortTermGainLoss: decimal("net_short_term_gain_loss", { precision: 12, scale: 2 }).default("0"),
+  netLongTermGainLoss: decimal("net_long_term_gain_loss", { precision: 12, scale: 2 }).default("0"),
+  allowableCapitalLoss: decimal("allowable_capital_loss", { precision: 12, scale: 2 }).default("0"),
+  shortTermCarryover: decimal("short_term_carryover", { precision: 12, scale: 2 }).default("0"),
+  longTermCarryover: decimal("long_term_carryover", { precision: 12, scale: 2 }).default("0"),
+  isManualEntry: boolean("is_manual_entry").default(false), // Entered by the user for years not filed here
+  worksheetLines: jsonb("worksheet_lines"), // Array of {line, description, amount}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const foreignTaxCarryovers = pgTable("foreign_tax_carryovers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  taxYear: integer("tax_year").notNull(), // Carries into taxYear + 1
+  carryovers: jsonb("carryovers"), // Array of {taxYear, amount} by the year the unused tax arose
+  totalCarryover: decimal("total_carryover", { precision: 12, scale: 2 }).default("0"),
+  isManualEntry: boolean("is_manual_entry").default(false), // Entered by the user for years not filed here
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const energyCreditCarryovers = pgTable("energy_credit_carryovers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  taxYear: integer("tax_year").notNull(), // Carries into taxYear + 1
+  carryforward: decimal("carryforward", { precision: 12, scale: 2 }).default("0"), // Form 5695 line 16: unused residential clean energy credit
+  isManualEntry: boolean("is_manual_entry").default(false), // Entered by the user for years not filed here
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const qbiLossCarryovers = pgTable("qbi_loss_carryovers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  taxYear: integer("tax_year").notNull(), // Carries into taxYear + 1
+  qbiLoss: decimal("qbi_loss", { precision: 12, scale: 2 }).default("0"), // Form 8995 line 16 / 8995-A Schedule C line 6 (as a positive amount)
+  reitPtpLoss: decimal("reit_ptp_loss", { precision: 12, scale: 2 }).default("0"), // Form 8995 line 17 / 8995-A line 40 (as a positive amount)
+  isManualEntry: boolean("is_manual_entry").default(false), // Entered by the user for years not filed here
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const qualifiedDividendsWorksheets = pgTable("qualified_dividends_worksheets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  taxableIncome: decimal("taxable_income", { precision: 12, scale: 2 }).default("0"),
+  qualifiedDividends: decimal("qualified_dividends", { precision: 12, scale: 2 }).default("0"),
+  netCapitalGain: decimal("net_capital_gain", { precision: 12, scale: 2 }).default("0"),
+  ordinaryIncome: decimal("ordinary_income", { precision: 12, scale: 2 }).default("0"),
+  zeroRateAmount: decimal("zero_rate_amount", { precision: 12, scale: 2 }).default("0"),
+  fifteenRateAmount: decimal("fifteen_rate_amount", { precision: 12, scale: 2 }).default("0"),
+  twentyRateAmount: decimal("twenty_rate_amount", { precision: 12, scale: 2 }).default("0"),
+  ordinaryTax: decimal("ordinary_tax", { precision: 12, scale: 2 }).default("0"),
+  regularTax: decimal("regular_tax", { precision: 12, scale: 2 }).default("0"), // Line 24: tax on all income at ordinary rates
+  tax: decimal("tax", { precision: 12, scale: 2 }).default("0"), // Line 25: smaller of line 23 or 24
+  lines: jsonb("lines"), // Array of {line, description, amount}
+});
+
+export const socialSecurityBenefitsWorksheets = pgTable("social_security_benefits_worksheets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  livedApartAllYear: boolean("lived_apart_all_year").default(false), // Married filing separately: uses the single base amount when true
+  netBenefits: decimal("net_benefits", { precision: 12, scale: 2 }).default("0"), // Line 1
+  provisionalIncome: decimal("provisional_income", { precision: 12, scale: 2 }).default("0"), // Line 7: half the benefits plus other income, less adjustments
+  baseAmount: decimal("base_amount", { precision: 12, scale: 2 }).default("0"), // Line 8
+  additionalAmount: decimal("additional_amount", { precision: 12, scale: 2 }).default("0"), // Line 10
+  taxablePercentage: decimal("taxable_percentage", { precision: 5, scale: 4 }).default("0"), // Line 18 as a share of line 1: 0, up to 0.50, up to 0.85
+  taxableBenefits: decimal("taxable_benefits", { precision: 12, scale: 2 }).default("0"), // Line 18: Form 1040 line 6b
+  lines: jsonb("lines"), // Array of {line, description, amount}
+});
+
+export const form8962 = pgTable("form_8962", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  familySize: integer("family_size").default(1), // Line 1: you, your spouse if filing jointly and your dependents
+  householdIncome: decimal("household_income", { precision: 12, scale: 2 }).default("0"), // Line 3: modified AGI
+  povertyLine: decimal("poverty_line", { precision: 12, scale: 2 }).default("0"), // Line 4
+  fplPercentage: integer("fpl_percentage").default(0), // Line 5: household income as a percentage of the poverty line
+  applicableFigure: decimal("applicable_figure", { precision: 5, scale: 4 }).default("0"), // Line 7
+  annualContribution: decimal("annual_contribution", { precision: 12, scale: 2 }).default("0"), // Line 8a
+  totalPremiumTaxCredit: decimal("total_premium_tax_credit", { precision: 12, scale: 2 }).default("0"), // Line 24
+  advancePayments: decimal("advance_payments", { precision: 12, scale: 2 }).default("0"), // Line 25: 1095-A line 33C
+  netPremiumTaxCredit: decimal("net_premium_tax_credit", { precision: 12, scale: 2 }).default("0"), // Line 26: Schedule 3 line 9
+  excessAdvancePayments: decimal("excess_advance_payments", { precision: 12, scale: 2 }).default("0"), // Line 27
+  repaymentLimit: decimal("repayment_limit", { precision: 12, scale: 2 }), // Line 28: null when there is no limit
+  excessAdvanceRepayment: decimal("excess_advance_repayment", { precision: 12, scale: 2 }).default("0"), // Line 29: Schedule 2 line 1a
+  isEligible: boolean("is_eligible").default(false),
+  ineligibleReason: text("ineligible_reason"),
+  months: jsonb("months"), // Lines 12-23: array of {month, premium, slcsp, contribution, maxCredit, credit, advancePayment}
+  lines: jsonb("lines"), // Array of {line, description, amount}
+});
+
+export const stateRefundWorksheets = pgTable("state_refund_worksheets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxReturnId: varchar("tax_return_id").notNull().references(() => taxReturns.id),
+  // Entered by the taxpayer when the prior-year return was not prepared here
+  priorYearItemized: boolean("prior_year_itemized"), // Null until known
+  priorYearItemizedDeductions: decimal("prior_year_itemized_deductions", { precision: 12, scale: 2 }), // Prior-year Schedule A line 17
+  priorYearStandardDeduction: decimal("prior_year_standard_deduction", { precision: 12, scale: 2 }),
+  priorYearStateLocalTaxes: decimal("prior_year_state_local_taxes", { precision: 12, scale: 2 }), // Prior-year Schedule A line 5d
+  priorYearSaltDeduction: decimal("prior_year_salt_deduction", { precision: 12, scale: 2 }), // Prior-year Schedule A line 5e, after the SALT limit
+  priorYearSource: text("prior_year_source"), // "return", "entered" or null when unknown
+  refunds: decimal("refunds", { precision: 12, scale: 2 }).default("0"), // Line 1: 1099-G box 2
+  taxableRefunds: decimal("taxable_refunds", { precision: 12, scale: 2 }).default("0"), // Schedule 1 line 1
+  lines: jsonb("lines"), // Array of {line, description, amount}
 });
 
 // Enhanced parsing and AI features tables
@@ -335,42 +1174,269 @@ export const insertUserProfileSchema = createInsertSchema(userProfiles).omit({
   }).optional(),
 });
 
-export const insertTaxReturnSchema = createInsertSchema(taxReturns).omit({
+export const insertTaxReturnSchema = createInsertSchema(taxReturns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDocumentSchema = createInsertSchema(documents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertW2Schema = createInsertSchema(w2Data).omit({
+  id: true,
+});
+
+export const insert1099DivSchema = createInsertSchema(form1099Div).omit({
+  id: true,
+});
+
+export const insert1099IntSchema = createInsertSchema(form1099Int).omit({
+  id: true,
+});
+
+export const insert1099MiscSchema = createInsertSchema(form1099Misc).omit({
+  id: true,
+});
+
+export const insert1099NecSchema = createInsertSchema(form1099Nec).omit({
+  id: true,
+});
+
+export const insert1099RSchema = createInsertSchema(form1099R).omit({
+  id: true,
+});
+
+export const insert1098Schema = createInsertSchema(form1098).omit({
+  id: true,
+});
+
+export const insert1098TSchema = createInsertSchema(form1098T).omit({
+  id: true,
+});
+
+export const insert1098ESchema = createInsertSchema(form1098E).omit({
+  id: true,
+});
+
+export const insert1099SaSchema = createInsertSchema(form1099Sa).omit({
+  id: true,
+});
+
+export const insert5498SaSchema = createInsertSchema(form5498Sa).omit({
+  id: true,
+});
+
+export const insertHsaContributionSchema = createInsertSchema(hsaContributions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertIraContributionSchema = createInsertSchema(iraContributions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSsa1099Schema = createInsertSchema(formSsa1099).omit({
+  id: true,
+});
+
+export const insert1099GSchema = createInsertSchema(form1099G).omit({
+  id: true,
+});
+
+export const insert1095ASchema = createInsertSchema(form1095A).omit({
+  id: true,
+});
+
+export const insert1099BSchema = createInsertSchema(form1099B).omit({
+  id: true,
+});
+
+export const insert1040Schema = createInsertSchema(form1040).omit({
+  id: true,
+});
+
+export const insert8949Schema = createInsertSchema(form8949).omit({
+  id: true,
+});
+
+export const insertScheduleDSchema = createInsertSchema(scheduleD).omit({
+  id: true,
+});
+
+export const insertScheduleASchema = createInsertSchema(scheduleA).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertForm8959Schema = createInsertSchema(form8959).omit({
+  id: true,
+});
+
+export const insertForm8960Schema = createInsertSchema(form8960).omit({
+  id: true,
+});
+
+export const insertSchedule1Schema = createInsertSchema(schedule1).omit({
+  id: true,
+});
+
+export const insertForm5329Schema = createInsertSchema(form5329).omit({
+  id: true,
+});
+
+export const insertEarnedIncomeCreditSchema = createInsertSchema(earnedIncomeCredits).omit({
+  id: true,
+});
+
+export const insertSchedule8812Schema = createInsertSchema(schedule8812).omit({
+  id: true,
+});
+
+export const insertForm6251Schema = createInsertSchema(form6251).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertForm8863Schema = createInsertSchema(form8863).omit({
+  id: true,
+});
+
+export const insertCareProviderSchema = createInsertSchema(careProviders).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  payments: z.array(z.object({
+    dependentName: z.string(),
+    amount: z.string(),
+  })).optional(),
+});
+
+export const insertForm2441Schema = createInsertSchema(form2441).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertForm8889Schema = createInsertSchema(form8889).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertForm8606Schema = createInsertSchema(form8606).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertForm8880Schema = createInsertSchema(form8880).omit({
+  id: true,
+});
+
+export const insertEnergyImprovementSchema = createInsertSchema(energyImprovements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertForm5695Schema = createInsertSchema(form5695).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertQbiBusinessSchema = createInsertSchema(qbiBusinesses).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertForm8995Schema = createInsertSchema(form8995).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertForm8615Schema = createInsertSchema(form8615).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertForm1116Schema = createInsertSchema(form1116).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertEstimatedTaxPaymentSchema = createInsertSchema(estimatedTaxPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertForm2210Schema = createInsertSchema(form2210).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertForm1040EsSchema = createInsertSchema(form1040Es).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertScheduleCSchema = createInsertSchema(scheduleC).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertDocumentSchema = createInsertSchema(documents).omit({
+export const insertScheduleSESchema = createInsertSchema(scheduleSE).omit({
+  id: true,
+});
+
+export const insertCapitalLossCarryoverSchema = createInsertSchema(capitalLossCarryovers).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
 });
 
-export const insertW2Schema = createInsertSchema(w2Data).omit({
+export const insertForeignTaxCarryoverSchema = createInsertSchema(foreignTaxCarryovers).omit({
   id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
-export const insert1099DivSchema = createInsertSchema(form1099Div).omit({
+export const insertEnergyCreditCarryoverSchema = createInsertSchema(energyCreditCarryovers).omit({
   id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
-export const insert1099IntSchema = createInsertSchema(form1099Int).omit({
+export const insertQbiLossCarryoverSchema = createInsertSchema(qbiLossCarryovers).omit({
   id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
-export const insert1099BSchema = createInsertSchema(form1099B).omit({
+export const insertQualifiedDividendsWorksheetSchema = createInsertSchema(qualifiedDividendsWorksheets).omit({
   id: true,
 });
 
-export const insert1040Schema = createInsertSchema(form1040).omit({
+export const insertSocialSecurityBenefitsWorksheetSchema = createInsertSchema(socialSecurityBenefitsWorksheets).omit({
   id: true,
 });
 
-export const insert8949Schema = createInsertSchema(form8949).omit({
+export const insertForm8962Schema = createInsertSchema(form8962).omit({
   id: true,
 });
 
-export const insertScheduleDSchema = createInsertSchema(scheduleD).omit({
+export const insertStateRefundWorksheetSchema = createInsertSchema(stateRefundWorksheets).omit({
   id: true,
 });
 
@@ -430,6 +1496,7 @@ export type Document = typeof documents.$inferSelect;
 
 export type InsertW2 = z.infer<typeof insertW2Schema>;
 export type W2Data = typeof w2Data.$inferSelect & { documentName?: string | null };
+export type W2CodeAmount = { code: string; amount: string };
 
 export type Insert1099Div = z.infer<typeof insert1099DivSchema>;
 export type Form1099Div = typeof form1099Div.$inferSelect & { documentName?: string | null };
@@ -437,6 +1504,46 @@ export type Form1099Div = typeof form1099Div.$inferSelect & { documentName?: str
 export type Insert1099Int = z.infer<typeof insert1099IntSchema>;
 export type Form1099Int = typeof form1099Int.$inferSelect & { documentName?: string | null };
 
+export type Insert1099Misc = z.infer<typeof insert1099MiscSchema>;
+export type Form1099Misc = typeof form1099Misc.$inferSelect & { documentName?: string | null };
+
+export type Insert1099Nec = z.infer<typeof insert1099NecSchema>;
+export type Form1099Nec = typeof form1099Nec.$inferSelect & { documentName?: string | null };
+
+export type Insert1099R = z.infer<typeof insert1099RSchema>;
+export type Form1099R = typeof form1099R.$inferSelect & { documentName?: string | null };
+
+export type Insert1098 = z.infer<typeof insert1098Schema>;
+export type Form1098 = typeof form1098.$inferSelect & { documentName?: string | null };
+
+export type Insert1098T = z.infer<typeof insert1098TSchema>;
+export type Form1098T = typeof form1098T.$inferSelect & { documentName?: string | null };
+
+export type Insert1098E = z.infer<typeof insert1098ESchema>;
+export type Form1098E = typeof form1098E.$inferSelect & { documentName?: string | null };
+
+export type Insert1099Sa = z.infer<typeof insert1099SaSchema>;
+export type Form1099Sa = typeof form1099Sa.$inferSelect & { documentName?: string | null };
+
+export type Insert5498Sa = z.infer<typeof insert5498SaSchema>;
+export type Form5498Sa = typeof form5498Sa.$inferSelect & { documentName?: string | null };
+
+export type InsertHsaContribution = z.infer<typeof insertHsaContributionSchema>;
+export type HsaContribution = typeof hsaContributions.$inferSelect;
+
+export type InsertIraContribution = z.infer<typeof insertIraContributionSchema>;
+export type IraContribution = typeof iraContributions.$inferSelect;
+
+export type InsertSsa1099 = z.infer<typeof insertSsa1099Schema>;
+export type FormSsa1099 = typeof formSsa1099.$inferSelect & { documentName?: string | null };
+
+export type Insert1099G = z.infer<typeof insert1099GSchema>;
+export type Form1099G = typeof form1099G.$inferSelect & { documentName?: string | null };
+
+export type Insert1095A = z.infer<typeof insert1095ASchema>;
+export type Form1095A = typeof form1095A.$inferSelect & { documentName?: string | null };
+export type Form1095AMonth = { month: number; premium: string; slcsp: string; advancePayment: string };
+
 export type Insert1099B = z.infer<typeof insert1099BSchema>;
 export type Form1099B = typeof form1099B.$inferSelect & { documentName?: string | null };
 
@@ -452,6 +1559,105 @@ export type Form8949 = typeof form8949.$inferSelect;
 export type InsertScheduleD = z.infer<typeof insertScheduleDSchema>;
 export type ScheduleD = typeof scheduleD.$inferSelect;
 
+export type InsertScheduleA = z.infer<typeof insertScheduleASchema>;
+export type ScheduleA = typeof scheduleA.$inferSelect;
+
+export type InsertForm8959 = z.infer<typeof insertForm8959Schema>;
+export type Form8959 = typeof form8959.$inferSelect;
+
+export type InsertForm8960 = z.infer<typeof insertForm8960Schema>;
+export type Form8960 = typeof form8960.$inferSelect;
+
+export type InsertSchedule1 = z.infer<typeof insertSchedule1Schema>;
+export type Schedule1 = typeof schedule1.$inferSelect;
+
+export type InsertForm5329 = z.infer<typeof insertForm5329Schema>;
+export type Form5329 = typeof form5329.$inferSelect;
+
+export type InsertEarnedIncomeCredit = z.infer<typeof insertEarnedIncomeCreditSchema>;
+export type EarnedIncomeCredit = typeof earnedIncomeCredits.$inferSelect;
+
+export type InsertSchedule8812 = z.infer<typeof insertSchedule8812Schema>;
+export type Schedule8812 = typeof schedule8812.$inferSelect;
+
+export type InsertForm6251 = z.infer<typeof insertForm6251Schema>;
+export type Form6251 = typeof form6251.$inferSelect;
+
+export type InsertForm8863 = z.infer<typeof insertForm8863Schema>;
+export type Form8863 = typeof form8863.$inferSelect;
+
+export type InsertCareProvider = z.infer<typeof insertCareProviderSchema>;
+export type CareProvider = typeof careProviders.$inferSelect;
+
+export type InsertForm2441 = z.infer<typeof insertForm2441Schema>;
+export type Form2441 = typeof form2441.$inferSelect;
+
+export type InsertForm8889 = z.infer<typeof insertForm8889Schema>;
+export type Form8889 = typeof form8889.$inferSelect;
+
+export type InsertForm8606 = z.infer<typeof insertForm8606Schema>;
+export type Form8606 = typeof form8606.$inferSelect;
+
+export type InsertForm8880 = z.infer<typeof insertForm8880Schema>;
+export type Form8880 = typeof form8880.$inferSelect;
+
+export type InsertEnergyImprovement = z.infer<typeof insertEnergyImprovementSchema>;
+export type EnergyImprovement = typeof energyImprovements.$inferSelect;
+
+export type InsertForm5695 = z.infer<typeof insertForm5695Schema>;
+export type Form5695 = typeof form5695.$inferSelect;
+
+export type InsertQbiBusiness = z.infer<typeof insertQbiBusinessSchema>;
+export type QbiBusiness = typeof qbiBusinesses.$inferSelect;
+
+export type InsertForm8995 = z.infer<typeof insertForm8995Schema>;
+export type Form8995 = typeof form8995.$inferSelect;
+
+export type InsertForm8615 = z.infer<typeof insertForm8615Schema>;
+export type Form8615 = typeof form8615.$inferSelect;
+
+export type InsertForm1116 = z.infer<typeof insertForm1116Schema>;
+export type Form1116 = typeof form1116.$inferSelect;
+
+export type InsertEstimatedTaxPayment = z.infer<typeof insertEstimatedTaxPaymentSchema>;
+export type EstimatedTaxPayment = typeof estimatedTaxPayments.$inferSelect;
+
+export type InsertForm2210 = z.infer<typeof insertForm2210Schema>;
+export type Form2210 = typeof form2210.$inferSelect;
+
+export type InsertForm1040Es = z.infer<typeof insertForm1040EsSchema>;
+export type Form1040Es = typeof form1040Es.$inferSelect;
+
+export type InsertScheduleC = z.infer<typeof insertScheduleCSchema>;
+export type ScheduleC = typeof scheduleC.$inferSelect;
+
+export type InsertScheduleSE = z.infer<typeof insertScheduleSESchema>;
+export type ScheduleSE = typeof scheduleSE.$inferSelect;
+
+export type InsertCapitalLossCarryover = z.infer<typeof insertCapitalLossCarryoverSchema>;
+export type CapitalLossCarryover = typeof capitalLossCarryovers.$inferSelect;
+
+export type InsertForeignTaxCarryover = z.infer<typeof insertForeignTaxCarryoverSchema>;
+export type ForeignTaxCarryover = typeof foreignTaxCarryovers.$inferSelect;
+
+export type InsertEnergyCreditCarryover = z.infer<typeof insertEnergyCreditCarryoverSchema>;
+export type EnergyCreditCarryover = typeof energyCreditCarryovers.$inferSelect;
+
+export type InsertQbiLossCarryover = z.infer<typeof insertQbiLossCarryoverSchema>;
+export type QbiLossCarryover = typeof qbiLossCarryovers.$inferSelect;
+
+export type InsertQualifiedDividendsWorksheet = z.infer<typeof insertQualifiedDividendsWorksheetSchema>;
+export type QualifiedDividendsWorksheet = typeof qualifiedDividendsWorksheets.$inferSelect;
+
+export type InsertSocialSecurityBenefitsWorksheet = z.infer<typeof insertSocialSecurityBenefitsWorksheetSchema>;
+export type SocialSecurityBenefitsWorksheet = typeof socialSecurityBenefitsWorksheets.$inferSelect;
+
+export type InsertForm8962 = z.infer<typeof insertForm8962Schema>;
+export type Form8962 = typeof form8962.$inferSelect;
+
+export type InsertStateRefundWorksheet = z.infer<typeof insertStateRefundWorksheetSchema>;
+export type StateRefundWorksheet = typeof stateRefundWorksheets.$inferSelect;
+
 export type InsertParsingAttempt = z.infer<typeof insertParsingAttemptSchema>;
 export type ParsingAttempt = typeof parsingAttempts.$inferSelect;
 
@@ -490,6 +1696,112 @@ export const DOCUMENT_TYPES = {
   FORM_1099_DIV: "1099-DIV",
   FORM_1099_INT: "1099-INT",
   FORM_1099_B: "1099-B",
+  FORM_1099_MISC: "1099-MISC",
+  FORM_1099_NEC: "1099-NEC",
+  FORM_1099_R: "1099-R",
+  FORM_1098: "1098",
+  FORM_1098_T: "1098-T",
+  FORM_1098_E: "1098-E",
+  FORM_1099_SA: "1099-SA",
+  FORM_5498_SA: "5498-SA",
+  FORM_SSA_1099: "SSA-1099",
+  FORM_1099_G: "1099-G",
+  FORM_1095_A: "1095-A",
+} as const;
+
+// W-2 box 12 codes
+export const W2_BOX_12_CODES = {
+  A: "Uncollected social security or RRTA tax on tips",
+  B: "Uncollected Medicare tax on tips",
+  C: "Taxable cost of group-term life insurance over $50,000",
+  D: "Elective deferrals to a 401(k) plan",
+  E: "Elective deferrals to a 403(b) plan",
+  F: "Elective deferrals to a 408(k)(6) SEP",
+  G: "Elective deferrals to a 457(b) plan",
+  H: "Elective deferrals to a 501(c)(18)(D) plan",
+  J: "Nontaxable sick pay",
+  K: "20% excise tax on excess golden parachute payments",
+  L: "Substantiated employee business expense reimbursements",
+  M: "Uncollected social security or RRTA tax on group-term life insurance",
+  N: "Uncollected Medicare tax on group-term life insurance",
+  P: "Excludable moving expense reimbursements (armed forces)",
+  Q: "Nontaxable combat pay",
+  R: "Employer contributions to an Archer MSA",
+  S: "Employee salary reduction contributions to a SIMPLE plan",
+  T: "Adoption benefits",
+  V: "Income from exercise of nonstatutory stock options",
+  W: "Employer contributions to a health savings account",
+  Y: "Deferrals under a section 409A plan",
+  Z: "Income under a section 409A plan",
+  AA: "Designated Roth contributions to a 401(k) plan",
+  BB: "Designated Roth contributions to a 403(b) plan",
+  DD: "Cost of employer-sponsored health coverage",
+  EE: "Designated Roth contributions to a governmental 457(b) plan",
+  FF: "Permitted benefits under a QSEHRA",
+  GG: "Income from qualified equity grants under section 83(i)",
+  HH: "Aggregate deferrals under section 83(i) elections",
+  II: "Medicaid waiver payments excluded from income",
+} as const;
+
+// Which spouse a W-2 or a business belongs to on a joint return
+export const TAXPAYER_OWNERS = {
+  TAXPAYER: "taxpayer",
+  SPOUSE: "spouse",
+} as const;
+
+export const HSA_OWNERS = {
+  TAXPAYER: "taxpayer",
+  SPOUSE: "spouse",
+} as const;
+
+export const HSA_COVERAGE_TYPES = {
+  NONE: "none",
+  SELF_ONLY: "self_only",
+  FAMILY: "family",
+} as const;
+
+export const IRA_ACCOUNT_TYPES = {
+  TRADITIONAL: "traditional",
+  ROTH: "roth",
+} as const;
+
+// Form 5695 Part I (residential clean energy) and Part II (energy efficient home improvement)
+export const ENERGY_PROPERTY_CATEGORIES = {
+  SOLAR_ELECTRIC: "solar_electric", // Line 1
+  SOLAR_WATER_HEATING: "solar_water_heating", // Line 2
+  SMALL_WIND: "small_wind", // Line 3
+  GEOTHERMAL_HEAT_PUMP: "geothermal_heat_pump", // Line 4
+  BATTERY_STORAGE: "battery_storage", // Line 5
+  FUEL_CELL: "fuel_cell", // Line 8
+  INSULATION: "insulation", // Line 18
+  EXTERIOR_DOOR: "exterior_door", // Line 19, one row per door
+  WINDOWS_SKYLIGHTS: "windows_skylights", // Line 20
+  CENTRAL_AIR_CONDITIONER: "central_air_conditioner", // Line 22
+  WATER_HEATER: "water_heater", // Line 23: natural gas, propane or oil
+  FURNACE_BOILER: "furnace_boiler", // Line 24: natural gas, propane or oil
+  ELECTRICAL_PANEL: "electrical_panel", // Line 25: panelboards and circuits for other energy property
+  HOME_ENERGY_AUDIT: "home_energy_audit", // Line 26
+  HEAT_PUMP: "heat_pump", // Line 29: electric or natural gas heat pumps and heat pump water heaters
+  BIOMASS_STOVE: "biomass_stove", // Line 29: biomass stoves and boilers
+} as const;
+
+// Section 199A income sources (Form 8995 / 8995-A)
+export const QBI_SOURCE_TYPES = {
+  SCHEDULE_C: "schedule_c", // Income comes from the return's Schedule C
+  PARTNERSHIP: "partnership", // Schedule K-1 (Form 1065)
+  S_CORPORATION: "s_corporation", // Schedule K-1 (Form 1120-S)
+  PUBLICLY_TRADED_PARTNERSHIP: "publicly_traded_partnership", // Qualified PTP income joins REIT dividends (8995 line 6)
+} as const;
+
+export const ESTIMATED_PAYMENT_JURISDICTIONS = {
+  FEDERAL: "federal",
+  STATE: "state",
+} as const;
+
+export const FOREIGN_TAX_CREDIT_METHODS = {
+  NONE: "none",
+  SIMPLIFIED: "simplified", // Credit claimed directly on Schedule 3 without Form 1116
+  FORM_1116: "form_1116",
 } as const;
 
 export const FILING_STATUS = {
@@ -604,6 +1916,209 @@ export const federalStandardDeductions = pgTable("federal_standard_deductions",
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const federalCapitalGainBrackets = pgTable("federal_capital_gain_brackets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  filingStatus: text("filing_status").notNull(),
+  minIncome: decimal("min_income", { precision: 12, scale: 2 }).notNull(),
+  maxIncome: decimal("max_income", { precision: 12, scale: 2 }),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 4 }).notNull(), // 0, 0.15 or 0.20
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalItemizedDeductionLimits = pgTable("federal_itemized_deduction_limits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  filingStatus: text("filing_status").notNull(),
+  saltCap: decimal("salt_cap", { precision: 12, scale: 2 }).notNull(), // State and local tax deduction cap
+  saltCapPhaseoutThreshold: decimal("salt_cap_phaseout_threshold", { precision: 12, scale: 2 }), // MAGI above which the cap shrinks
+  saltCapPhaseoutRate: decimal("salt_cap_phaseout_rate", { precision: 5, scale: 4 }), // Cap reduction per dollar of excess MAGI
+  saltCapFloor: decimal("salt_cap_floor", { precision: 12, scale: 2 }), // Cap never phases below this amount
+  medicalExpenseFloorRate: decimal("medical_expense_floor_rate", { precision: 5, scale: 4 }).notNull(), // Share of AGI not deductible
+  charitableCashAgiLimitRate: decimal("charitable_cash_agi_limit_rate", { precision: 5, scale: 4 }).notNull(), // Cash gifts limit as share of AGI
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalSelfEmploymentParameters = pgTable("federal_self_employment_parameters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  filingStatus: text("filing_status").notNull(),
+  socialSecurityWageBase: decimal("social_security_wage_base", { precision: 12, scale: 2 }).notNull(), // Maximum earnings subject to the 12.4% portion
+  socialSecurityRate: decimal("social_security_rate", { precision: 5, scale: 4 }).notNull(), // 0.124
+  medicareRate: decimal("medicare_rate", { precision: 5, scale: 4 }).notNull(), // 0.029
+  netEarningsRate: decimal("net_earnings_rate", { precision: 5, scale: 4 }).notNull(), // 0.9235 of net profit is subject to SE tax
+  minimumNetEarnings: decimal("minimum_net_earnings", { precision: 12, scale: 2 }).notNull(), // No SE tax below this amount
+  standardMileageRate: decimal("standard_mileage_rate", { precision: 5, scale: 4 }).notNull(), // Business rate per mile
+  homeOfficeRate: decimal("home_office_rate", { precision: 12, scale: 2 }).notNull(), // Simplified method rate per square foot
+  homeOfficeMaxSquareFeet: integer("home_office_max_square_feet").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalEarnedIncomeCredits = pgTable("federal_earned_income_credits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  filingStatus: text("filing_status").notNull(),
+  qualifyingChildren: integer("qualifying_children").notNull(), // 0, 1, 2 or 3 (3 or more)
+  creditRate: decimal("credit_rate", { precision: 5, scale: 4 }).notNull(), // Phase-in rate
+  earnedIncomeAmount: decimal("earned_income_amount", { precision: 12, scale: 2 }).notNull(), // Earned income where the plateau starts
+  maxCredit: decimal("max_credit", { precision: 12, scale: 2 }).notNull(),
+  phaseoutThreshold: decimal("phaseout_threshold", { precision: 12, scale: 2 }).notNull(), // Income where the plateau ends
+  phaseoutRate: decimal("phaseout_rate", { precision: 5, scale: 4 }).notNull(),
+  investmentIncomeLimit: decimal("investment_income_limit", { precision: 12, scale: 2 }).notNull(), // Disqualified above this amount
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalChildTaxCredits = pgTable("federal_child_tax_credits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  filingStatus: text("filing_status").notNull(),
+  creditPerChild: decimal("credit_per_child", { precision: 12, scale: 2 }).notNull(), // Qualifying child under 17
+  creditPerOtherDependent: decimal("credit_per_other_dependent", { precision: 12, scale: 2 }).notNull(), // Credit for other dependents
+  phaseoutThreshold: decimal("phaseout_threshold", { precision: 12, scale: 2 }).notNull(), // MAGI where the phase-out starts
+  phaseoutRate: decimal("phaseout_rate", { precision: 5, scale: 4 }).notNull(), // Reduction per dollar of excess MAGI (rounded up to $1,000)
+  refundableLimitPerChild: decimal("refundable_limit_per_child", { precision: 12, scale: 2 }).notNull(), // ACTC maximum per child
+  refundableEarnedIncomeThreshold: decimal("refundable_earned_income_threshold", { precision: 12, scale: 2 }).notNull(), // ACTC earned income floor
+  refundableRate: decimal("refundable_rate", { precision: 5, scale: 4 }).notNull(), // ACTC share of earned income over the floor
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalAlternativeMinimumTax = pgTable("federal_alternative_minimum_tax", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  filingStatus: text("filing_status").notNull(),
+  exemptionAmount: decimal("exemption_amount", { precision: 12, scale: 2 }).notNull(),
+  phaseoutThreshold: decimal("phaseout_threshold", { precision: 12, scale: 2 }).notNull(), // AMTI where the exemption starts to phase out
+  phaseoutRate: decimal("phaseout_rate", { precision: 5, scale: 4 }).notNull(), // Exemption reduction per dollar over the threshold
+  rateBreakpoint: decimal("rate_breakpoint", { precision: 12, scale: 2 }).notNull(), // AMT base taxed at the lower rate
+  lowerRate: decimal("lower_rate", { precision: 5, scale: 4 }).notNull(),
+  upperRate: decimal("upper_rate", { precision: 5, scale: 4 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalEducationBenefits = pgTable("federal_education_benefits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  filingStatus: text("filing_status").notNull(), // Not available when married filing separately
+  creditPhaseoutStart: decimal("credit_phaseout_start", { precision: 12, scale: 2 }).notNull(), // AOTC and LLC MAGI phase-out
+  creditPhaseoutEnd: decimal("credit_phaseout_end", { precision: 12, scale: 2 }).notNull(),
+  studentLoanInterestMax: decimal("student_loan_interest_max", { precision: 12, scale: 2 }).notNull(),
+  studentLoanInterestPhaseoutStart: decimal("student_loan_interest_phaseout_start", { precision: 12, scale: 2 }).notNull(),
+  studentLoanInterestPhaseoutEnd: decimal("student_loan_interest_phaseout_end", { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalHsaLimits = pgTable("federal_hsa_limits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  selfOnlyLimit: decimal("self_only_limit", { precision: 12, scale: 2 }).notNull(), // Form 8889 line 3, self-only HDHP coverage
+  familyLimit: decimal("family_limit", { precision: 12, scale: 2 }).notNull(), // Form 8889 line 3, family HDHP coverage
+  catchUpAmount: decimal("catch_up_amount", { precision: 12, scale: 2 }).notNull(), // Line 7
+  catchUpAge: integer("catch_up_age").notNull(), // Age at year end for the catch-up contribution
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalUnderpaymentRates = pgTable("federal_underpayment_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  startDate: text("start_date").notNull(), // YYYY-MM-DD, inclusive
+  endDate: text("end_date").notNull(), // YYYY-MM-DD, inclusive
+  rate: decimal("rate", { precision: 5, scale: 4 }).notNull(), // Annual underpayment interest rate (IRC 6621)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalDependentCareCredit = pgTable("federal_dependent_care_credit", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  expenseLimitOne: decimal("expense_limit_one", { precision: 12, scale: 2 }).notNull(), // Line 3, one qualifying person
+  expenseLimitTwoOrMore: decimal("expense_limit_two_or_more", { precision: 12, scale: 2 }).notNull(), // Line 3, two or more
+  maxCreditRate: decimal("max_credit_rate", { precision: 5, scale: 4 }).notNull(), // Line 8 at or below the phase-out start
+  minCreditRate: decimal("min_credit_rate", { precision: 5, scale: 4 }).notNull(),
+  phaseoutStart: decimal("phaseout_start", { precision: 12, scale: 2 }).notNull(), // AGI where the rate starts dropping
+  phaseoutStep: decimal("phaseout_step", { precision: 12, scale: 2 }).notNull(), // AGI per 1% drop in the rate
+  benefitExclusion: decimal("benefit_exclusion", { precision: 12, scale: 2 }).notNull(), // Line 21
+  benefitExclusionMarriedSeparate: decimal("benefit_exclusion_married_separate", { precision: 12, scale: 2 }).notNull(),
+  qualifyingChildAge: integer("qualifying_child_age").notNull(), // Children must be under this age
+  deemedMonthlyIncomeOne: decimal("deemed_monthly_income_one", { precision: 12, scale: 2 }).notNull(), // Student or disabled spouse
+  deemedMonthlyIncomeTwoOrMore: decimal("deemed_monthly_income_two_or_more", { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalPovertyLines = pgTable("federal_poverty_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  region: text("region").notNull(), // contiguous, alaska, hawaii
+  firstPerson: decimal("first_person", { precision: 12, scale: 2 }).notNull(), // Prior calendar year's guideline for one person
+  additionalPerson: decimal("additional_person", { precision: 12, scale: 2 }).notNull(), // Added for each additional person
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalPremiumTaxCredit = pgTable("federal_premium_tax_credit", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  minFplPercent: integer("min_fpl_percent").notNull(), // Household income as a percentage of the poverty line
+  maxFplPercent: integer("max_fpl_percent"), // Null for no upper limit
+  initialApplicablePercentage: decimal("initial_applicable_percentage", { precision: 5, scale: 4 }).notNull(), // Form 8962 line 7 at the band floor
+  finalApplicablePercentage: decimal("final_applicable_percentage", { precision: 5, scale: 4 }).notNull(), // Line 7 at the band ceiling
+  repaymentLimitSingle: decimal("repayment_limit_single", { precision: 12, scale: 2 }), // Line 28, single filers; null for no limit
+  repaymentLimitOther: decimal("repayment_limit_other", { precision: 12, scale: 2 }), // Line 28, all other filing statuses
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalRetirementSavings = pgTable("federal_retirement_savings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  filingStatus: text("filing_status").notNull(),
+  iraContributionLimit: decimal("ira_contribution_limit", { precision: 12, scale: 2 }).notNull(), // Traditional and Roth combined, per person
+  iraCatchUpAmount: decimal("ira_catch_up_amount", { precision: 12, scale: 2 }).notNull(),
+  iraCatchUpAge: integer("ira_catch_up_age").notNull(), // Age at year end for the catch-up contribution
+  coveredPhaseoutStart: decimal("covered_phaseout_start", { precision: 12, scale: 2 }).notNull(), // IRA deduction MAGI range when covered by a workplace plan
+  coveredPhaseoutEnd: decimal("covered_phaseout_end", { precision: 12, scale: 2 }).notNull(),
+  spouseCoveredPhaseoutStart: decimal("spouse_covered_phaseout_start", { precision: 12, scale: 2 }), // Not covered but the spouse is; null when there is no spouse
+  spouseCoveredPhaseoutEnd: decimal("spouse_covered_phaseout_end", { precision: 12, scale: 2 }),
+  rothPhaseoutStart: decimal("roth_phaseout_start", { precision: 12, scale: 2 }).notNull(), // Roth contribution MAGI range
+  rothPhaseoutEnd: decimal("roth_phaseout_end", { precision: 12, scale: 2 }).notNull(),
+  saversCreditMaxContribution: decimal("savers_credit_max_contribution", { precision: 12, scale: 2 }).notNull(), // Form 8880 line 6, per person
+  saversCreditFiftyPercentLimit: decimal("savers_credit_fifty_percent_limit", { precision: 12, scale: 2 }).notNull(), // Line 9: highest AGI for the 50% rate
+  saversCreditTwentyPercentLimit: decimal("savers_credit_twenty_percent_limit", { precision: 12, scale: 2 }).notNull(),
+  saversCreditTenPercentLimit: decimal("savers_credit_ten_percent_limit", { precision: 12, scale: 2 }).notNull(), // No credit above this AGI
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalEnergyCredits = pgTable("federal_energy_credits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  cleanEnergyRate: decimal("clean_energy_rate", { precision: 5, scale: 4 }).notNull(), // Form 5695 lines 6b and 9
+  batteryMinimumCapacity: decimal("battery_minimum_capacity", { precision: 8, scale: 2 }).notNull(), // Kilowatt hours for line 5
+  fuelCellLimitPerKilowatt: decimal("fuel_cell_limit_per_kilowatt", { precision: 12, scale: 2 }).notNull(), // Line 10
+  homeImprovementRate: decimal("home_improvement_rate", { precision: 5, scale: 4 }).notNull(), // Part II
+  homeImprovementAnnualLimit: decimal("home_improvement_annual_limit", { precision: 12, scale: 2 }).notNull(), // Everything but heat pumps and biomass
+  heatPumpAnnualLimit: decimal("heat_pump_annual_limit", { precision: 12, scale: 2 }).notNull(), // Line 29
+  exteriorDoorLimit: decimal("exterior_door_limit", { precision: 12, scale: 2 }).notNull(), // Per door
+  exteriorDoorsAnnualLimit: decimal("exterior_doors_annual_limit", { precision: 12, scale: 2 }).notNull(),
+  windowsAnnualLimit: decimal("windows_annual_limit", { precision: 12, scale: 2 }).notNull(),
+  energyPropertyItemLimit: decimal("energy_property_item_limit", { precision: 12, scale: 2 }).notNull(), // Lines 22-25, per item
+  homeEnergyAuditLimit: decimal("home_energy_audit_limit", { precision: 12, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalQbiDeduction = pgTable("federal_qbi_deduction", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  filingStatus: text("filing_status").notNull(),
+  deductionRate: decimal("deduction_rate", { precision: 5, scale: 4 }).notNull(), // 0.20 of QBI, REIT/PTP income and the income limit
+  threshold: decimal("threshold", { precision: 12, scale: 2 }).notNull(), // Taxable income at or below which Form 8995 applies
+  phaseInRange: decimal("phase_in_range", { precision: 12, scale: 2 }).notNull(), // Wage/UBIA limit and SSTB exclusion phase in over this range
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const federalKiddieTax = pgTable("federal_kiddie_tax", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
+  unearnedIncomeBaseAmount: decimal("unearned_income_base_amount", { precision: 12, scale: 2 }).notNull(), // Form 8615 line 2 when the child itemizes
+  unearnedIncomeThreshold: decimal("unearned_income_threshold", { precision: 12, scale: 2 }).notNull(), // Line 2 otherwise; no kiddie tax at or below it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const stateTaxBrackets = pgTable("state_tax_brackets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   taxYearId: varchar("tax_year_id").notNull().references(() => taxYears.id),
@@ -684,6 +2199,86 @@ export const insertFederalStandardDeductionSchema = createInsertSchema(federalSt
   createdAt: true,
 });
 
+export const insertFederalCapitalGainBracketSchema = createInsertSchema(federalCapitalGainBrackets).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalItemizedDeductionLimitSchema = createInsertSchema(federalItemizedDeductionLimits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalSelfEmploymentParameterSchema = createInsertSchema(federalSelfEmploymentParameters).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalEarnedIncomeCreditSchema = createInsertSchema(federalEarnedIncomeCredits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalChildTaxCreditSchema = createInsertSchema(federalChildTaxCredits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalAlternativeMinimumTaxSchema = createInsertSchema(federalAlternativeMinimumTax).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalEducationBenefitsSchema = createInsertSchema(federalEducationBenefits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalHsaLimitsSchema = createInsertSchema(federalHsaLimits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalUnderpaymentRateSchema = createInsertSchema(federalUnderpaymentRates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalDependentCareCreditSchema = createInsertSchema(federalDependentCareCredit).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalPovertyLineSchema = createInsertSchema(federalPovertyLines).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalPremiumTaxCreditSchema = createInsertSchema(federalPremiumTaxCredit).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalRetirementSavingsSchema = createInsertSchema(federalRetirementSavings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalEnergyCreditsSchema = createInsertSchema(federalEnergyCredits).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalQbiDeductionSchema = createInsertSchema(federalQbiDeduction).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFederalKiddieTaxSchema = createInsertSchema(federalKiddieTax).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertStateTaxBracketSchema = createInsertSchema(stateTaxBrackets).omit({
   id: true,
   createdAt: true,
@@ -721,6 +2316,53 @@ export type InsertFederalTaxBracket = z.infer<typeof insertFederalTaxBracketSche
 export type FederalStandardDeduction = typeof federalStandardDeductions.$inferSelect;
 export type InsertFederalStandardDeduction = z.infer<typeof insertFederalStandardDeductionSchema>;
 
+export type FederalCapitalGainBracket = typeof federalCapitalGainBrackets.$inferSelect;
+export type InsertFederalCapitalGainBracket = z.infer<typeof insertFederalCapitalGainBracketSchema>;
+
+export type FederalItemizedDeductionLimit = typeof federalItemizedDeductionLimits.$inferSelect;
+export type InsertFederalItemizedDeductionLimit = z.infer<typeof insertFederalItemizedDeductionLimitSchema>;
+
+export type FederalSelfEmploymentParameter = typeof federalSelfEmploymentParameters.$inferSelect;
+export type InsertFederalSelfEmploymentParameter = z.infer<typeof insertFederalSelfEmploymentParameterSchema>;
+
+export type FederalEarnedIncomeCredit = typeof federalEarnedIncomeCredits.$inferSelect;
+export type InsertFederalEarnedIncomeCredit = z.infer<typeof insertFederalEarnedIncomeCreditSchema>;
+
+export type FederalChildTaxCredit = typeof federalChildTaxCredits.$inferSelect;
+export type InsertFederalChildTaxCredit = z.infer<typeof insertFederalChildTaxCreditSchema>;
+
+export type FederalAlternativeMinimumTax = typeof federalAlternativeMinimumTax.$inferSelect;
+export type InsertFederalAlternativeMinimumTax = z.infer<typeof insertFederalAlternativeMinimumTaxSchema>;
+
+export type FederalEducationBenefits = typeof federalEducationBenefits.$inferSelect;
+export type InsertFederalEducationBenefits = z.infer<typeof insertFederalEducationBenefitsSchema>;
+
+export type FederalHsaLimits = typeof federalHsaLimits.$inferSelect;
+export type InsertFederalHsaLimits = z.infer<typeof insertFederalHsaLimitsSchema>;
+
+export type FederalUnderpaymentRate = typeof federalUnderpaymentRates.$inferSelect;
+export type InsertFederalUnderpaymentRate = z.infer<typeof insertFederalUnderpaymentRateSchema>;
+export type FederalDependentCareCredit = typeof federalDependentCareCredit.$inferSelect;
+export type InsertFederalDependentCareCredit = z.infer<typeof insertFederalDependentCareCreditSchema>;
+
+export type FederalPovertyLine = typeof federalPovertyLines.$inferSelect;
+export type InsertFederalPovertyLine = z.infer<typeof insertFederalPovertyLineSchema>;
+
+export type FederalPremiumTaxCredit = typeof federalPremiumTaxCredit.$inferSelect;
+export type InsertFederalPremiumTaxCredit = z.infer<typeof insertFederalPremiumTaxCreditSchema>;
+
+export type FederalRetirementSavings = typeof federalRetirementSavings.$inferSelect;
+export type InsertFederalRetirementSavings = z.infer<typeof insertFederalRetirementSavingsSchema>;
+
+export type FederalEnergyCredits = typeof federalEnergyCredits.$inferSelect;
+export type InsertFederalEnergyCredits = z.infer<typeof insertFederalEnergyCreditsSchema>;
+
+export type FederalQbiDeduction = typeof federalQbiDeduction.$inferSelect;
+export type InsertFederalQbiDeduction = z.infer<typeof insertFederalQbiDeductionSchema>;
+
+export type FederalKiddieTax = typeof federalKiddieTax.$inferSelect;
+export type InsertFederalKiddieTax = z.infer<typeof insertFederalKiddieTaxSchema>;
+
 export type StateTaxBracket = typeof stateTaxBrackets.$inferSelect;
 export type InsertStateTaxBracket = z.infer<typeof insertStateTaxBracketSchema>;
 